@@ -63,6 +63,7 @@ export interface CompileResult {
     file?: string;
     line?: number;
     column?: number;
+    code?: number; // ANTLR error code, e.g. 56 for error(56)
   }>;
   generatedFiles?: string[];
   compilationTime?: number;
@@ -410,6 +411,8 @@ export class Antlr4Runtime {
 
   /**
    * Compile grammar(s) with native ANTLR4 for strict syntax/tooling validation.
+   * `contents` holds imported grammar text to use instead of the file on disk,
+   * keyed by resolved path.
    */
   async compileGrammar(
     grammarContent: string,
@@ -418,6 +421,7 @@ export class Antlr4Runtime {
       fromFile?: string;
       basePath?: string;
       loadImports?: boolean;
+      contents?: Map<string, string>;
     } = {}
   ): Promise<CompileResult> {
     const available = await this.isAvailable();
@@ -449,7 +453,13 @@ export class Antlr4Runtime {
         const importBase =
           options.basePath || (options.fromFile ? path.dirname(options.fromFile) : undefined);
         if (importBase) {
-          await this.copyImportedGrammars(grammarContent, importBase, tmpDir);
+          await this.copyImportedGrammars(
+            grammarContent,
+            importBase,
+            tmpDir,
+            new Set(),
+            options.contents
+          );
         }
       }
 
@@ -499,7 +509,8 @@ export class Antlr4Runtime {
     grammarContent: string,
     basePath: string,
     tmpDir: string,
-    visited: Set<string> = new Set()
+    visited: Set<string> = new Set(),
+    contents: Map<string, string> = new Map()
   ): Promise<void> {
     const imports = grammarContent.match(/import\s+([^;]+);/g) || [];
     const tokenVocabMatch = grammarContent.match(/tokenVocab\s*=\s*([A-Za-z_][A-Za-z0-9_]*)\s*;/);
@@ -527,43 +538,39 @@ export class Antlr4Runtime {
 
       const importFile = path.join(basePath, `${name}.g4`);
       if (fs.existsSync(importFile)) {
-        fs.copyFileSync(importFile, path.join(tmpDir, `${name}.g4`));
+        const importedContent =
+          contents.get(path.resolve(importFile)) ?? fs.readFileSync(importFile, 'utf-8');
+        fs.writeFileSync(path.join(tmpDir, `${name}.g4`), importedContent, 'utf-8');
 
         // Recursively copy imports from imported grammars
-        const importedContent = fs.readFileSync(importFile, 'utf-8');
-        await this.copyImportedGrammars(importedContent, path.dirname(importFile), tmpDir, visited);
+        await this.copyImportedGrammars(
+          importedContent,
+          path.dirname(importFile),
+          tmpDir,
+          visited,
+          contents
+        );
       }
     }
   }
 
-  private parseAntlrDiagnostics(output: string): Array<{
-    severity: 'error' | 'warning' | 'info';
-    message: string;
-    file?: string;
-    line?: number;
-    column?: number;
-  }> {
-    const diagnostics: Array<{
-      severity: 'error' | 'warning' | 'info';
-      message: string;
-      file?: string;
-      line?: number;
-      column?: number;
-    }> = [];
+  private parseAntlrDiagnostics(output: string): CompileResult['diagnostics'] {
+    const diagnostics: CompileResult['diagnostics'] = [];
 
     const lines = output
       .split('\n')
       .map((line) => line.trim())
       .filter(Boolean);
     for (const line of lines) {
-      const match = line.match(/^(error|warning)\(\d+\):\s*([^:]+):(\d+):(\d+):\s*(.+)$/i);
+      const match = line.match(/^(error|warning)\((\d+)\):\s*([^:]+):(\d+):(\d+):\s*(.+)$/i);
       if (match) {
         diagnostics.push({
           severity: match[1].toLowerCase() as 'error' | 'warning',
-          file: match[2],
-          line: Number(match[3]),
-          column: Number(match[4]),
-          message: match[5],
+          code: Number(match[2]),
+          file: match[3],
+          line: Number(match[4]),
+          column: Number(match[5]),
+          message: match[6],
         });
         continue;
       }
@@ -5,6 +5,25 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import {
+  AlternativeNode,
+  BlockElement,
+  CommentNode,
+  GrammarAst,
+  GrammarElement,
+  ModeNode,
+  NamedActionNode,
+  RuleNode,
+  RuleRefElement,
+  SourceSpan,
+  TokenRefElement,
+  alternativeToText,
+  elementToText,
+  parseGrammar,
+  sliceSpan,
+  walkElements,
+} from './grammarParser.js';
+import { LexerShadowing, findLexerShadowing } from './lexerAutomaton.js';
 
 export interface LexerMode {
   name: string;
@@ -12,19 +31,88 @@ export interface LexerMode {
   rules: string[]; // Rule names in this mode
 }
 
-export interface GrammarRule {
+/**
+ * Parts of a rule declared between its name and the ':'
+ */
+export interface RuleSignature {
+  arguments?: string; // `[int p]` without brackets
+  returns?: string;
+  locals?: string;
+  throws?: string[];
+  options?: Record<string, string>; // Rule-level `options {...}`
+  init?: string; // @init action code
+  after?: string; // @after action code
+}
+
+export interface AlternativeLabel {
+  name: string; // `# Name`
+  alternative: number; // 1-based index among the rule's outermost alternatives
+  lineNumber: number;
+}
+
+export interface ElementLabel {
+  name: string;
+  operator: '=' | '+=';
+  target: string; // Labeled element, e.g. `expr` or `('+' | '-')`
+  targetType: 'rule' | 'token' | 'block'; // 'block' when the target is not a token set
+  lineNumber: number;
+}
+
+export interface GrammarRule extends RuleSignature {
   name: string;
   type: 'lexer' | 'parser';
   definition: string;
   lineNumber: number;
   referencedRules: string[];
+  alternativeLabels?: AlternativeLabel[];
+  elementLabels?: ElementLabel[];
   mode?: string; // Mode name this rule belongs to (DEFAULT_MODE if undefined)
+  ast?: RuleNode; // Parsed rule (absent for rules not produced by analyze)
 }
 
 export interface GrammarToken {
   name: string;
-  pattern: string;
+  pattern: string; // Lexer rule body ('' for tokens only declared in tokens {})
+  lineNumber: number;
+  declared?: boolean; // Listed in a tokens {} block
+}
+
+export interface GrammarChannel {
+  name: string;
+  lineNumber: number;
+}
+
+/**
+ * Token vocabulary a grammar imports through `options { tokenVocab = X; }`
+ */
+export interface TokenVocabulary {
+  name: string; // Value of the tokenVocab option
+  path: string; // Resolved lexer grammar or .tokens file
+  source: 'grammar' | 'tokens';
+  tokens: string[]; // Token names (fragments excluded)
+  literals: string[]; // Literal aliases including quotes, e.g. 'while'
+}
+
+/**
+ * Embedded target-language code: named actions, rule actions, inline actions,
+ * predicates and exception handlers
+ */
+export interface GrammarAction {
+  kind: 'named' | 'rule' | 'action' | 'predicate' | 'handler';
+  name?: string; // header / members (named), init / after (rule), catch / finally (handler)
+  scope?: string; // lexer / parser for @lexer::members and @parser::header
+  ruleName?: string; // Enclosing rule (all kinds but 'named')
+  code: string;
   lineNumber: number;
+  column: number; // 0-based column of the action's start
+}
+
+export type TargetLanguage = 'Java' | 'CSharp' | 'Python' | 'TypeScript' | 'Go';
+
+export interface TargetLanguageInfo {
+  declared?: string; // Raw `options { language = ... }` value
+  inferred?: TargetLanguage; // Best guess from action code
+  evidence: string[]; // Action-code features behind the guess
 }
 
 export interface GrammarAnalysis {
@@ -32,10 +120,15 @@ export interface GrammarAnalysis {
   type: 'lexer' | 'parser' | 'combined';
   rules: GrammarRule[];
   tokens: GrammarToken[];
+  channels: GrammarChannel[]; // Custom channels declared in channels {}
+  actions: GrammarAction[]; // Embedded code in source order
+  targetLanguage?: TargetLanguageInfo;
+  tokenVocab?: TokenVocabulary; // Resolved by loadGrammarWithImports
   imports: string[];
   options: Record<string, string>;
   issues: GrammarIssue[];
   modes: LexerMode[]; // Detected lexer modes
+  ast?: GrammarAst; // Parsed grammar (for merged multi-file analyses, the main file)
 }
 
 export interface GrammarIssue {
@@ -43,6 +136,8 @@ export interface GrammarIssue {
   message: string;
   lineNumber?: number;
   ruleName?: string;
+  code?: number; // ANTLR tool error code, e.g. 56 for error(56)
+  check?: string; // Check id for issues without a code, e.g. 'unused-rule'
 }
 
 export interface TokenInfo {
@@ -65,381 +160,609 @@ export interface GrammarFormatting {
   blankLinesBetweenRules: boolean;
 }
 
+/**
+ * A parser decision where one lookahead token predicts more than one path
+ */
+export interface DecisionConflict {
+  ruleName: string;
+  lineNumber: number;
+  kind: 'alternatives' | 'subrule' | 'optional' | 'closure';
+  text: string; // Source of the block, or the rule name for rule-level alternatives
+  paths: Array<{ label: string; lookahead: string[] }>; // 'alt 1', 'alt 2', ..., 'exit'
+  conflicts: Array<{ token: string; paths: string[] }>;
+}
+
+export type CheckSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Project settings for one check: a severity override (or 'off') plus
+ * check-specific thresholds, e.g. `{ "severity": "info", "max": 15 }`
+ */
+export interface CheckSetting {
+  severity?: CheckSeverity | 'off';
+  [threshold: string]: number | string | undefined;
+}
+
+/**
+ * Contents of an `.antlr4-mcp.json` project config
+ */
+export interface ProjectConfig {
+  path?: string; // File the settings were read from
+  checks: Record<string, CheckSetting>; // Keyed by check id
+  error?: string; // Why the file was ignored
+}
+
+/**
+ * Lines on which an `antlr4-mcp-disable...` comment silences checks
+ */
+interface Suppression {
+  fromLine: number;
+  toLine: number;
+  checks: string[]; // Empty means every check
+}
+
+export const PROJECT_CONFIG_FILE = '.antlr4-mcp.json';
+
+/**
+ * A known issue, identified by check id, rule and message but not line, so
+ * unrelated edits that move it do not make it new
+ */
+export interface BaselineEntry {
+  category: string; // Check id, see AntlrAnalyzer.issueCheck
+  rule: string; // '' for grammar-level issues
+  message: string; // Line numbers inside the message are masked
+  count: number; // Identical issues in the same rule
+}
+
+/**
+ * Contents of a baseline file written by validate-grammar / smart-validate
+ */
+export interface IssueBaseline {
+  version: 1;
+  grammar?: string;
+  issues: BaselineEntry[];
+}
+
+/**
+ * FIRST/FOLLOW state for the parser rules of one grammar
+ */
+interface LookaheadSets {
+  first: Map<string, Set<string>>;
+  follow: Map<string, Set<string>>;
+  nullable: Set<string>;
+  aliases: Map<string, string>; // Literal -> token name of a `NAME : 'literal' ;` lexer rule
+}
+
+/**
+ * What extract-rule looks for: a run of elements, or a run of alternatives
+ * (keys from AntlrAnalyzer.extractionKey)
+ */
+interface ExtractionPattern {
+  kind: 'sequence' | 'alternatives';
+  keys: string[];
+}
+
+/**
+ * One place a pattern occurs; start/end is the source range the reference replaces
+ */
+interface ExtractionOccurrence {
+  start: number;
+  end: number;
+  suffix: string; // Suffix of a replaced block, carried over to the reference
+  alternatives: GrammarElement[][]; // Matched elements, one list per alternative
+}
+
+/**
+ * The sub-expression extract-rule moves into the new rule
+ */
+interface Extraction {
+  pattern: ExtractionPattern;
+  occurrence: ExtractionOccurrence; // The selected one
+  text: string; // Source of the selection, for messages
+}
+
+/**
+ * Named token that replaces a string literal in parser rules
+ */
+export interface LiteralToken {
+  literal: string; // Including quotes, e.g. 'interface'
+  name: string;
+  created: boolean; // False when an existing lexer rule is reused
+  references: number; // Parser-rule occurrences replaced
+}
+
+/**
+ * One operation of an apply-edits batch, with the parameters of the
+ * single-rule method it runs (add-rule picks lexer or parser by the name)
+ */
+export type GrammarEdit =
+  | ({
+      op: 'add-rule';
+      ruleName: string;
+      pattern?: string;
+      definition?: string;
+      skip?: boolean;
+      channel?: string;
+      fragment?: boolean;
+      insertAfter?: string;
+      insertBefore?: string;
+    } & RuleSignature)
+  | { op: 'update-rule'; ruleName: string; newDefinition: string }
+  | { op: 'remove-rule'; ruleName: string }
+  | { op: 'rename-rule'; oldName: string; newName: string }
+  | { op: 'move-rule'; ruleName: string; position: 'before' | 'after'; anchorRule: string }
+  | { op: 'inline-rule'; ruleName: string; preserveParentheses?: boolean };
+
+/**
+ * Usual token names for punctuation literals (as in the grammars-v4 lexers)
+ */
+const LITERAL_TOKEN_NAMES: Record<string, string> = {
+  '(': 'LPAREN',
+  ')': 'RPAREN',
+  '{': 'LBRACE',
+  '}': 'RBRACE',
+  '[': 'LBRACK',
+  ']': 'RBRACK',
+  ';': 'SEMI',
+  ',': 'COMMA',
+  '.': 'DOT',
+  '...': 'ELLIPSIS',
+  '@': 'AT',
+  '#': 'HASH',
+  $: 'DOLLAR',
+  ':': 'COLON',
+  '::': 'COLONCOLON',
+  '=': 'ASSIGN',
+  '==': 'EQUAL',
+  '!=': 'NOTEQUAL',
+  '<': 'LT',
+  '>': 'GT',
+  '<=': 'LE',
+  '>=': 'GE',
+  '!': 'BANG',
+  '~': 'TILDE',
+  '?': 'QUESTION',
+  '&&': 'AND',
+  '||': 'OR',
+  '++': 'INC',
+  '--': 'DEC',
+  '+': 'ADD',
+  '-': 'SUB',
+  '*': 'MUL',
+  '/': 'DIV',
+  '%': 'MOD',
+  '&': 'BITAND',
+  '|': 'BITOR',
+  '^': 'CARET',
+  '<<': 'LSHIFT',
+  '>>': 'RSHIFT',
+  '->': 'ARROW',
+  '=>': 'FAT_ARROW',
+  '+=': 'ADD_ASSIGN',
+  '-=': 'SUB_ASSIGN',
+  '*=': 'MUL_ASSIGN',
+  '/=': 'DIV_ASSIGN',
+  '%=': 'MOD_ASSIGN',
+  '&=': 'AND_ASSIGN',
+  '|=': 'OR_ASSIGN',
+  '^=': 'XOR_ASSIGN',
+  "'": 'QUOTE',
+  '"': 'DQUOTE',
+  '`': 'BACKTICK',
+  '\\': 'BACKSLASH',
+  _: 'UNDERSCORE',
+  ' ': 'SPACE',
+  '\t': 'TAB',
+  '\n': 'NEWLINE',
+  '\r': 'CR',
+};
+
+/**
+ * Options ANTLR does not copy from a combined grammar to its implicit lexer,
+ * and options that only mean something to a lexer
+ */
+const PARSER_ONLY_OPTIONS = new Set([
+  'superClass',
+  'contextSuperClass',
+  'TokenLabelType',
+  'tokenVocab',
+]);
+const LEXER_ONLY_OPTIONS = new Set(['caseInsensitive']);
+
+/**
+ * Action-code features that point at one target language
+ */
+const TARGET_LANGUAGE_FEATURES: Array<{
+  language: TargetLanguage;
+  feature: string;
+  pattern: RegExp;
+}> = [
+  { language: 'Java', feature: 'System.out/err', pattern: /\bSystem\.(?:out|err)\./ },
+  { language: 'Java', feature: 'import java.*', pattern: /\bimport\s+java\./ },
+  { language: 'Java', feature: '@Override', pattern: /@Override\b/ },
+  { language: 'Java', feature: 'boolean', pattern: /\bboolean\b/ },
+  { language: 'Java', feature: '.equals()', pattern: /\.equals\(/ },
+  { language: 'Java', feature: 'String declaration', pattern: /\bString\s+\w+\s*[=;]/ },
+  { language: 'Java', feature: 'package x;', pattern: /^\s*package\s+[\w.]+\s*;/m },
+  { language: 'CSharp', feature: 'Console.Write', pattern: /\bConsole\.Write/ },
+  { language: 'CSharp', feature: 'using System', pattern: /\busing\s+System\b/ },
+  { language: 'CSharp', feature: 'namespace', pattern: /\bnamespace\s+[\w.]+/ },
+  { language: 'CSharp', feature: 'bool', pattern: /\bbool\b/ },
+  { language: 'CSharp', feature: 'string declaration', pattern: /\bstring\s+\w+\s*[=;]/ },
+  { language: 'CSharp', feature: 'override', pattern: /(?<!@)\boverride\b/ },
+  { language: 'Python', feature: 'self.', pattern: /\bself\./ },
+  { language: 'Python', feature: 'def', pattern: /\bdef\s+\w+\s*\([^)]*\)\s*:/ },
+  { language: 'Python', feature: 'None/True/False', pattern: /\b(?:None|True|False)\b/ },
+  { language: 'Python', feature: 'elif', pattern: /\belif\b/ },
+  { language: 'Python', feature: 'from x import', pattern: /\bfrom\s+[\w.]+\s+import\b/ },
+  { language: 'TypeScript', feature: 'let/const', pattern: /\b(?:let|const)\s+\w+\s*[:=]/ },
+  { language: 'TypeScript', feature: 'console.log', pattern: /\bconsole\.(?:log|error|warn)\b/ },
+  { language: 'TypeScript', feature: '===', pattern: /===|!==/ },
+  { language: 'TypeScript', feature: 'import { } from', pattern: /\bimport\s*\{[^}]*\}\s*from\b/ },
+  {
+    language: 'TypeScript',
+    feature: 'type annotation',
+    pattern: /:\s*(?:number|string|boolean)\b/,
+  },
+  { language: 'TypeScript', feature: 'undefined', pattern: /\bundefined\b/ },
+  { language: 'Go', feature: ':=', pattern: /:=/ },
+  { language: 'Go', feature: 'fmt.', pattern: /\bfmt\.\w+/ },
+  { language: 'Go', feature: 'func', pattern: /\bfunc\s*(?:\([^)]*\)\s*)?\w*\s*\(/ },
+  { language: 'Go', feature: 'nil', pattern: /\bnil\b/ },
+  { language: 'Go', feature: 'package x', pattern: /^\s*package\s+\w+\s*$/m },
+];
+
 export class AntlrAnalyzer {
   /**
    * Analyze an ANTLR4 grammar file
    */
   static analyze(grammarContent: string): GrammarAnalysis {
-    const lines = grammarContent.split('\n');
+    const ast = parseGrammar(grammarContent);
     const result: GrammarAnalysis = {
-      grammarName: '',
-      type: 'combined',
+      grammarName: ast.name,
+      type: ast.type,
       rules: [],
       tokens: [],
-      imports: [],
+      channels: ast.channels.map((c) => ({ name: c.name, lineNumber: c.span.start.line })),
+      actions: this.collectActions(ast),
+      imports: ast.imports.map((imp) => imp.name),
       options: {},
       issues: [],
       modes: [{ name: 'DEFAULT_MODE', lineNumber: 0, rules: [] }],
+      ast,
     };
 
-    let currentLineNum = 0;
-    let inBlockComment = false;
-    let pendingRuleName: string | null = null;
-    let pendingRuleLine = 0;
-    let currentMode = 'DEFAULT_MODE';
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      currentLineNum = i + 1;
-      const processedLine = this.stripCommentsFromLine(line, inBlockComment);
-      inBlockComment = processedLine.inBlockComment;
-      const trimmed = processedLine.line.trim();
+    for (const option of ast.options) {
+      result.options[option.name] = option.value;
+    }
+    result.targetLanguage = this.detectTargetLanguage(result.actions, result.options.language);
 
-      // Skip empty lines (unless we are inside a rule definition extraction, handled below)
-      if (trimmed === '') {
-        continue;
+    for (const mode of ast.modes) {
+      if (!result.modes.find((m) => m.name === mode.name)) {
+        result.modes.push({ name: mode.name, lineNumber: mode.span.start.line, rules: [] });
       }
+    }
 
-      // Parse grammar declaration
-      if (trimmed.startsWith('lexer grammar ')) {
-        result.grammarName = trimmed.replace('lexer grammar ', '').replace(';', '').trim();
-        result.type = 'lexer';
-        pendingRuleName = null;
-        continue;
-      } else if (trimmed.startsWith('parser grammar ')) {
-        result.grammarName = trimmed.replace('parser grammar ', '').replace(';', '').trim();
-        result.type = 'parser';
-        pendingRuleName = null;
-        continue;
-      } else if (trimmed.startsWith('grammar ')) {
-        result.grammarName = trimmed.replace('grammar ', '').replace(';', '').trim();
-        result.type = 'combined';
-        pendingRuleName = null;
-        continue;
-      }
+    const declaredTokens = new Set(ast.tokens.map((t) => t.name));
+    for (const ruleNode of ast.rules) {
+      const isLexerRule = ruleNode.type === 'lexer';
+      const rule: GrammarRule = {
+        name: ruleNode.name,
+        type: ruleNode.type,
+        definition: sliceSpan(grammarContent, ruleNode.span),
+        lineNumber: ruleNode.span.start.line,
+        referencedRules: this.collectReferencedRules(ruleNode),
+        mode: isLexerRule ? ruleNode.mode : undefined, // Track mode for lexer rules
+        ast: ruleNode,
+        ...this.ruleSignature(ruleNode),
+        ...this.ruleLabels(ruleNode),
+      };
+      result.rules.push(rule);
 
-      // Parse imports
-      if (trimmed.startsWith('import ')) {
-        const importMatch = trimmed.match(/import\s+(.+?);/);
-        if (importMatch) {
-          result.imports.push(importMatch[1]);
+      if (isLexerRule) {
+        result.modes.find((m) => m.name === ruleNode.mode)?.rules.push(ruleNode.name);
+        const token: GrammarToken = {
+          name: ruleNode.name,
+          pattern: sliceSpan(grammarContent, ruleNode.bodySpan),
+          lineNumber: rule.lineNumber,
+        };
+        if (declaredTokens.has(ruleNode.name)) {
+          token.declared = true;
         }
-        pendingRuleName = null;
-        continue;
+        result.tokens.push(token);
       }
+    }
 
-      // Parse options
-      if (trimmed.startsWith('options ')) {
-        const optionsMatch = grammarContent.match(/options\s*\{([^}]+)\}/s);
-        if (optionsMatch) {
-          const optionsContent = optionsMatch[1];
-          const optionLines = optionsContent.split(';');
-          for (const optLine of optionLines) {
-            const match = optLine.match(/(\w+)\s*=\s*(.+)/);
-            if (match) {
-              result.options[match[1].trim()] = match[2].trim();
-            }
-          }
-        }
-        pendingRuleName = null;
-        continue;
+    // Tokens declared in tokens {} without a lexer rule of their own
+    for (const token of ast.tokens) {
+      if (!result.tokens.find((t) => t.name === token.name)) {
+        result.tokens.push({
+          name: token.name,
+          pattern: '',
+          lineNumber: token.span.start.line,
+          declared: true,
+        });
       }
+    }
 
-      // Parse mode declarations (lexer modes)
-      const modeMatch = trimmed.match(/^mode\s+([A-Za-z_][A-Za-z0-9_]*)\s*;?$/);
-      if (modeMatch) {
-        currentMode = modeMatch[1];
-        // Add new mode if it doesn't exist
-        if (!result.modes.find((m) => m.name === currentMode)) {
-          result.modes.push({ name: currentMode, lineNumber: currentLineNum, rules: [] });
-        }
-        pendingRuleName = null;
-        continue;
+    // Validate grammar
+    result.issues = this.validateGrammar(result);
+
+    return result;
+  }
+
+  /**
+   * Signature fields present on a parsed rule
+   */
+  private static ruleSignature(rule: RuleNode): RuleSignature {
+    const signature: RuleSignature = {};
+    if (rule.arguments !== undefined) signature.arguments = rule.arguments;
+    if (rule.returns !== undefined) signature.returns = rule.returns;
+    if (rule.locals !== undefined) signature.locals = rule.locals;
+    if (rule.throws.length > 0) signature.throws = rule.throws;
+    if (rule.options.length > 0) {
+      signature.options = Object.fromEntries(rule.options.map((o) => [o.name, o.value]));
+    }
+    for (const action of rule.actions) {
+      if (action.name === 'init' || action.name === 'after') {
+        signature[action.name] = action.code.trim();
       }
+    }
+    return signature;
+  }
 
-      // Check for rule definition start
-      let ruleName: string | null = null;
-      let isRuleStart = false;
-      let ruleStartLine = currentLineNum;
-
-      // Case 1: "ruleName :" or "fragment ruleName :" (Same line)
-      // Matches: lowercase_name, UPPERCASE_NAME, or MixedCaseName
-      const sameLineMatch = trimmed.match(/^(?:fragment\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*:/);
-      if (sameLineMatch) {
-        ruleName = sameLineMatch[1];
-        isRuleStart = true;
-        pendingRuleName = null;
-      }
-      // Case 2a: Colon on this line, previously saw a potential rule name or "fragment"
-      else if (pendingRuleName && trimmed.startsWith(':')) {
-        // If pending was "fragment", extract rule name from trimmed (should be "ruleName :")
-        if (pendingRuleName === 'fragment') {
-          const match = trimmed.match(/^([A-Z_][A-Z0-9_]*|[a-z_][a-z0-9_]*)\s*:/);
-          if (match) {
-            ruleName = match[1];
-          }
-        } else {
-          ruleName = pendingRuleName;
-        }
-        // Use the line number where the name was found
-        ruleStartLine = pendingRuleLine;
-        isRuleStart = true;
-        pendingRuleName = null;
-      }
-      // Case 2b: Line after "fragment" should be the rule name (potentially with colon)
-      else if (pendingRuleName === 'fragment') {
-        const ruleNameMatch = trimmed.match(/^([A-Za-z_][A-Za-z0-9_]*)(?:\s*:|$)/);
-        if (ruleNameMatch) {
-          pendingRuleName = ruleNameMatch[1]; // Update pending to the actual rule name
-          if (trimmed.includes(':')) {
-            // Colon is on same line, so this is the rule start
-            ruleName = ruleNameMatch[1];
-            isRuleStart = true;
-            ruleStartLine = pendingRuleLine;
-            pendingRuleName = null;
-          } else {
-            // Just the name, wait for colon on next line
-            pendingRuleLine = currentLineNum;
-            continue;
-          }
-        }
+  /**
+   * Alternative and element labels of a parsed rule (fields omitted when there are none)
+   */
+  private static ruleLabels(
+    rule: RuleNode
+  ): Pick<GrammarRule, 'alternativeLabels' | 'elementLabels'> {
+    const labels: Pick<GrammarRule, 'alternativeLabels' | 'elementLabels'> = {};
+
+    const alternativeLabels: AlternativeLabel[] = [];
+    rule.alternatives.forEach((alt, index) => {
+      if (alt.label) {
+        alternativeLabels.push({
+          name: alt.label.name,
+          alternative: index + 1,
+          lineNumber: alt.label.span.start.line,
+        });
       }
-      // Case 3: "fragment" keyword alone or potential rule name on this line (no colon yet)
-      else if (trimmed === 'fragment' || /^([A-Za-z_][A-Za-z0-9_]*)$/.test(trimmed)) {
-        const potentialName = trimmed;
-        if (potentialName === 'fragment' || !this.isAntlrKeyword(potentialName)) {
-          pendingRuleName = potentialName;
-          pendingRuleLine = currentLineNum;
-          continue; // Wait for next line to confirm
-        }
-      } else {
-        // Not a rule start, reset pending
-        pendingRuleName = null;
+    });
+    if (alternativeLabels.length > 0) labels.alternativeLabels = alternativeLabels;
+
+    const elementLabels: ElementLabel[] = [];
+    walkElements(rule.alternatives, (element) => {
+      if (element.label) {
+        elementLabels.push({
+          name: element.label.name,
+          operator: element.label.operator,
+          target: elementToText(element),
+          targetType: this.labelTargetType(element),
+          lineNumber: element.label.span.start.line,
+        });
       }
+    });
+    if (elementLabels.length > 0) labels.elementLabels = elementLabels;
 
-      if (isRuleStart && ruleName) {
-        const isLexerRule = /^[A-Z_]/.test(ruleName);
-        const ruleType = isLexerRule ? 'lexer' : 'parser';
-
-        // Extract the full rule definition
-        // We need to reconstruct from the start of the rule (which might be previous line)
-        // If we came from pending state, we need to handle that carefully.
-        // Simplified: Start capturing from the current line (where colon is) or the previous line?
-        // Actually, let's just capture from the verification point onwards until semicolon.
-
-        let ruleContent = trimmed;
+    return labels;
+  }
 
-        // If we found it via pendingRuleName, we might want to include the name for display purposes?
-        // The 'definition' field usually includes the whole thing.
-        if (ruleContent.startsWith(':')) {
-          ruleContent = `${ruleName}\n${ruleContent}`;
-        }
+  /**
+   * What a label refers to: a rule, a token (tokens, literals, sets) or a block that is not a set
+   */
+  private static labelTargetType(element: GrammarElement): ElementLabel['targetType'] {
+    if (element.kind === 'ruleRef') return 'rule';
+    if (element.kind !== 'block') return 'token';
+    const isSet = element.alternatives.every((alt) => {
+      const elements = alt.elements.filter((e) => e.kind !== 'action');
+      return (
+        elements.length === 1 &&
+        !elements[0].suffix &&
+        ['tokenRef', 'literal', 'range', 'charSet', 'not'].includes(elements[0].kind)
+      );
+    });
+    return isSet ? 'token' : 'block';
+  }
 
-        let checkLine = i + 1;
-        // Safety limit to prevent infinite loops on missing semicolons
-        // 10,000 lines is extremely generous - even the most complex rules are typically <1000 lines
-        const maxLinesPerRule = 10000;
-        let linesRead = 0;
+  /**
+   * Names declared in an argument, returns or locals list: `int p, List<String> xs` → p, xs
+   */
+  private static declaredParameterNames(declarations?: string): string[] {
+    return (declarations || '')
+      .split(',')
+      .map((declaration) => declaration.trim().match(/([\p{L}_][\p{L}\p{N}_]*)\s*(?:=.*)?$/u)?.[1])
+      .filter((name): name is string => Boolean(name));
+  }
 
-        // Capture until semicolon
-        // Careful: checkLine is index in 'lines' array. currentLineNum is 1-based index (approx).
-        // Let's rely on lines[] index 'i'
+  /**
+   * Render a signature as it appears between the rule name and the ':'
+   */
+  private static formatRuleSignature(signature: RuleSignature): string {
+    let text = signature.arguments ? `[${signature.arguments}]` : '';
+    if (signature.returns) text += ` returns [${signature.returns}]`;
+    if (signature.throws?.length) text += ` throws ${signature.throws.join(', ')}`;
+    if (signature.locals) text += ` locals [${signature.locals}]`;
+    const options = Object.entries(signature.options || {});
+    if (options.length > 0) {
+      text += ` options { ${options.map(([name, value]) => `${name} = ${value};`).join(' ')} }`;
+    }
+    if (signature.init) text += ` @init { ${signature.init} }`;
+    if (signature.after) text += ` @after { ${signature.after} }`;
+    return text;
+  }
 
-        // Improve extraction: handle strings containing semicolons?
-        // For now, simple semicolon check is consistent with previous logic.
-        while (
-          !ruleContent.includes(';') &&
-          checkLine < lines.length &&
-          linesRead < maxLinesPerRule
-        ) {
-          ruleContent += ' ' + lines[checkLine].trim();
-          checkLine++;
-          linesRead++;
-        }
+  /**
+   * All embedded code of a grammar, in source order
+   */
+  private static collectActions(ast: GrammarAst): GrammarAction[] {
+    const actions: GrammarAction[] = ast.namedActions.map((action) => ({
+      kind: 'named',
+      name: action.name,
+      scope: action.scope,
+      code: action.code,
+      lineNumber: action.span.start.line,
+      column: action.span.start.column,
+    }));
 
-        // If we hit the line limit, report an issue
-        if (linesRead >= maxLinesPerRule && !ruleContent.includes(';')) {
-          result.issues.push({
-            type: 'error',
-            message: `Rule '${ruleName}' appears to be missing a semicolon or is extremely long (>${maxLinesPerRule} lines)`,
-            ruleName: ruleName,
-            lineNumber: ruleStartLine,
+    for (const rule of ast.rules) {
+      for (const action of rule.actions) {
+        actions.push({
+          kind: 'rule',
+          name: action.name,
+          ruleName: rule.name,
+          code: action.code,
+          lineNumber: action.span.start.line,
+          column: action.span.start.column,
+        });
+      }
+      walkElements(rule.alternatives, (element) => {
+        if (element.kind === 'action' || element.kind === 'predicate') {
+          actions.push({
+            kind: element.kind,
+            ruleName: rule.name,
+            code: element.code,
+            lineNumber: element.span.start.line,
+            column: element.span.start.column,
           });
-          // Try to continue parsing - add semicolon to avoid breaking everything
-          ruleContent += ';';
-        }
-
-        // Update loop counter to skip processed lines
-        i = checkLine - 1;
-        // Note: currentLineNum will be out of sync, but we restore it if needed or just track 'i'
-        // Actually currentLineNum is only used for the *start* of the rule, which we already captured.
-        // We need to re-sync currentLineNum for future iterations if we really care,
-        // but 'i' effectively drives the loop.
-
-        const rule: GrammarRule = {
-          name: ruleName,
-          type: ruleType,
-          definition: ruleContent,
-          lineNumber: ruleStartLine,
-          referencedRules: this.extractReferencedRules(ruleContent),
-          mode: isLexerRule ? currentMode : undefined, // Track mode for lexer rules
-        };
-
-        // Reset pending rule line for next one
-        pendingRuleLine = 0;
-
-        result.rules.push(rule);
-
-        // Track rules per mode for lexer rules
-        if (isLexerRule && currentMode) {
-          const modeObj = result.modes.find((m) => m.name === currentMode);
-          if (modeObj) {
-            modeObj.rules.push(ruleName);
-          }
-        }
-
-        // For lexer rules, try to extract the pattern
-        if (isLexerRule) {
-          const patternMatch = ruleContent.match(/:(.+?);/);
-          if (patternMatch) {
-            result.tokens.push({
-              name: ruleName,
-              pattern: patternMatch[1].trim(),
-              lineNumber: rule.lineNumber,
-            });
-          }
         }
+      });
+      for (const handler of rule.exceptionHandlers) {
+        actions.push({
+          kind: 'handler',
+          name: handler.kind,
+          ruleName: rule.name,
+          code: handler.code,
+          lineNumber: handler.span.start.line,
+          column: handler.span.start.column,
+        });
       }
     }
 
-    // Validate grammar
-    result.issues = this.validateGrammar(result);
-
-    return result;
+    return actions.sort((a, b) => a.lineNumber - b.lineNumber || a.column - b.column);
   }
 
   /**
-   * Extract rules referenced within a rule definition
+   * Target-language features found in a piece of action code
    */
-  private static stripCommentsFromLine(
-    line: string,
-    inBlockComment: boolean
-  ): { line: string; inBlockComment: boolean } {
-    let result = '';
-    let i = 0;
-    let inBlock = inBlockComment;
-    let inSingleQuote = false;
-    let inDoubleQuote = false;
-
-    while (i < line.length) {
-      if (inBlock) {
-        const endIdx = line.indexOf('*/', i);
-        if (endIdx === -1) {
-          return { line: result, inBlockComment: true };
-        }
-        inBlock = false;
-        i = endIdx + 2;
-        continue;
-      }
-
-      const char = line[i];
-      const nextChar = i + 1 < line.length ? line[i + 1] : '';
-
-      // Preserve escaped characters inside quoted strings.
-      if ((inSingleQuote || inDoubleQuote) && char === '\\' && i + 1 < line.length) {
-        result += char + line[i + 1];
-        i += 2;
-        continue;
-      }
-
-      if (!inDoubleQuote && char === "'") {
-        inSingleQuote = !inSingleQuote;
-        result += char;
-        i++;
-        continue;
-      }
-
-      if (!inSingleQuote && char === '"') {
-        inDoubleQuote = !inDoubleQuote;
-        result += char;
-        i++;
-        continue;
-      }
+  private static actionLanguageFeatures(
+    code: string
+  ): Array<{ language: TargetLanguage; feature: string }> {
+    // String literals and comments say nothing about the language
+    const stripped = code
+      .replace(/"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'/g, '""')
+      .replace(/\/\*[\s\S]*?\*\/|\/\/.*$/gm, '');
+    return TARGET_LANGUAGE_FEATURES.filter((f) => f.pattern.test(stripped)).map((f) => ({
+      language: f.language,
+      feature: f.feature,
+    }));
+  }
 
-      // Only treat comment markers as comments when outside quoted strings.
-      if (!inSingleQuote && !inDoubleQuote && char === '/' && nextChar === '*') {
-        inBlock = true;
-        i += 2;
-        continue;
-      }
+  /**
+   * Map an `options { language = ... }` value onto the languages we recognize
+   */
+  private static normalizeTargetLanguage(language: string): TargetLanguage | undefined {
+    const normalized = language.replace(/['"]/g, '').toLowerCase();
+    if (normalized === 'java') return 'Java';
+    if (normalized === 'csharp' || normalized === 'c#') return 'CSharp';
+    if (/^python[23]?$/.test(normalized)) return 'Python';
+    if (normalized === 'typescript' || normalized === 'javascript') return 'TypeScript';
+    if (normalized === 'go') return 'Go';
+    return undefined;
+  }
 
-      if (!inSingleQuote && !inDoubleQuote && char === '/' && nextChar === '/') {
-        break;
+  /**
+   * Declared target language and a best guess from the action code
+   */
+  private static detectTargetLanguage(
+    actions: GrammarAction[],
+    declared?: string
+  ): TargetLanguageInfo {
+    const scores = new Map<TargetLanguage, Set<string>>();
+    for (const action of actions) {
+      for (const { language, feature } of this.actionLanguageFeatures(action.code)) {
+        if (!scores.has(language)) scores.set(language, new Set());
+        scores.get(language)!.add(feature);
       }
-
-      result += char;
-      i++;
     }
 
-    return { line: result, inBlockComment: inBlock };
+    const ranked = Array.from(scores.entries()).sort((a, b) => b[1].size - a[1].size);
+    const decided =
+      ranked.length > 0 && (ranked.length === 1 || ranked[0][1].size > ranked[1][1].size);
+    return {
+      ...(declared && { declared }),
+      ...(decided && { inferred: ranked[0][0] }),
+      evidence: decided ? Array.from(ranked[0][1]) : [],
+    };
   }
 
   /**
-   * Extract rules referenced within a rule definition
+   * Report action code written for a different language than the declared target
    */
-  private static extractReferencedRules(ruleContent: string): string[] {
-    const references = new Set<string>();
-
-    // Remove comments first (both // and /* */)
-    let cleaned = ruleContent
-      .replace(/\/\/[^\n]*/g, '') // Remove single-line comments
-      .replace(/\/\*[\s\S]*?\*\//g, ''); // Remove multi-line comments
-
-    // Remove string literals
-    cleaned = cleaned.replace(/'[^']*'/g, '').replace(/"[^"]*"/g, '');
-
-    // Match rule references (alphanumeric identifiers)
-    const matches = cleaned.match(/\b([a-zA-Z_][a-zA-Z0-9_]*)\b/g);
+  private static validateActionLanguage(grammar: GrammarAnalysis): GrammarIssue[] {
+    const issues: GrammarIssue[] = [];
+    const declared = grammar.options.language;
+    const target = declared ? this.normalizeTargetLanguage(declared) : undefined;
 
-    if (matches) {
-      for (const match of matches) {
-        // Exclude ANTLR keywords
-        if (!this.isAntlrKeyword(match)) {
-          references.add(match);
-        }
+    if (!declared) {
+      const inferred = grammar.targetLanguage?.inferred;
+      if (inferred && inferred !== 'Java') {
+        issues.push({
+          type: 'info',
+          message: `Action code looks like ${inferred} (${grammar.targetLanguage!.evidence.join(', ')}) but no language option is set; ANTLR generates Java by default`,
+          check: 'action-language',
+        });
       }
+      return issues;
+    }
+    if (!target) return issues;
+
+    for (const action of grammar.actions) {
+      const features = this.actionLanguageFeatures(action.code);
+      if (features.length === 0 || features.some((f) => f.language === target)) continue;
+      const countOf = (language: TargetLanguage) =>
+        features.filter((f) => f.language === language).length;
+      const language = features
+        .map((f) => f.language)
+        .reduce((best, candidate) => (countOf(candidate) > countOf(best) ? candidate : best));
+      const evidence = features.filter((f) => f.language === language).map((f) => f.feature);
+      const where =
+        action.kind === 'named'
+          ? `@${action.scope ? `${action.scope}::` : ''}${action.name} action`
+          : `${action.kind === 'predicate' ? 'Predicate' : 'Action'} in rule '${action.ruleName}'`;
+      issues.push({
+        type: 'warning',
+        message: `${where} looks like ${language} (${evidence.join(', ')}) but the grammar targets ${declared}`,
+        lineNumber: action.lineNumber,
+        ruleName: action.ruleName,
+        check: 'action-language',
+      });
     }
+    return issues;
+  }
 
-    return Array.from(references);
+  /**
+   * Embedded code present in `before` that is missing from `after`
+   */
+  private static droppedActions(before: string, after: string): GrammarAction[] {
+    const key = (action: GrammarAction) => `${action.kind}:${action.name}:${action.code.trim()}`;
+    const remaining = new Set(this.collectActions(parseGrammar(after)).map(key));
+    return this.collectActions(parseGrammar(before)).filter(
+      (action) => !remaining.has(key(action))
+    );
   }
 
   /**
-   * Check if a word is an ANTLR4 keyword
+   * Rule and token names referenced by a rule's alternatives, in order of first use
    */
-  private static isAntlrKeyword(word: string): boolean {
-    const keywords = new Set([
-      'grammar',
-      'lexer',
-      'parser',
-      'import',
-      'options',
-      'tokens',
-      'fragment',
-      'returns',
-      'throws',
-      'locals',
-      'catch',
-      'finally',
-      'EOF',
-      'mode',
-      'channel',
-      'skip',
-      'more',
-      'type',
-      'pushMode',
-      'popMode',
-    ]);
-    return keywords.has(word);
+  private static collectReferencedRules(rule: RuleNode): string[] {
+    const references = new Set<string>();
+    walkElements(rule.alternatives, (element) => {
+      if (element.kind === 'ruleRef' || element.kind === 'tokenRef') {
+        references.add(element.name);
+      }
+    });
+    return Array.from(references);
   }
 
   /**
@@ -452,23 +775,84 @@ export class AntlrAnalyzer {
       issues.push({
         type: 'error',
         message: 'Grammar declaration not found (lexer grammar, parser grammar, or grammar)',
+        check: 'missing-grammar-declaration',
+      });
+    }
+
+    // Report syntax errors from the grammar parser
+    for (const error of grammar.ast?.errors || []) {
+      issues.push({
+        type: 'error',
+        message: error.message,
+        lineNumber: error.span.start.line,
+        code: 50,
       });
     }
 
-    // Check for undefined rule references
-    const definedRules = new Set(grammar.rules.map((r) => r.name));
+    // Check for undefined rule references (declared tokens count as defined)
+    const definedRules = new Set([
+      ...grammar.rules.map((r) => r.name),
+      ...grammar.tokens.map((t) => t.name),
+    ]);
     const referenced = new Set<string>();
     const entryParserRule = grammar.rules.find((r) => r.type === 'parser')?.name;
+    const vocab = grammar.tokenVocab;
+    // Fragments merged in from a vocabulary grammar are not tokens
+    const knownTokens = new Set([
+      ...(vocab?.tokens || []),
+      ...grammar.tokens
+        .map((t) => t.name)
+        .filter((name) => !grammar.rules.find((r) => r.name === name)?.ast?.fragment),
+    ]);
 
     for (const rule of grammar.rules) {
       for (const ref of rule.referencedRules) {
         referenced.add(ref);
-        if (!definedRules.has(ref) && !this.isBuiltinRule(ref)) {
-          issues.push({
-            type: 'warning',
-            message: `Reference to undefined rule: ${ref}`,
-            lineNumber: rule.lineNumber,
-            ruleName: rule.name,
+        if (vocab && rule.type === 'parser' && /^[A-Z]/.test(ref)) {
+          // Token references resolve against the vocabulary and local tokens {}
+          if (!knownTokens.has(ref) && ref !== 'EOF') {
+            issues.push({
+              type: 'warning',
+              message: `Token '${ref}' is missing from vocab ${vocab.name} (${path.basename(vocab.path)})`,
+              lineNumber: rule.lineNumber,
+              ruleName: rule.name,
+              code: 125,
+            });
+          }
+        } else if (!definedRules.has(ref) && !this.isBuiltinRule(ref)) {
+          issues.push({
+            type: 'warning',
+            message: `Reference to undefined rule: ${ref}`,
+            lineNumber: rule.lineNumber,
+            ruleName: rule.name,
+            // Undefined tokens in parser rules become implicit definitions
+            code: rule.type === 'parser' && /^[A-Z]/.test(ref) ? 125 : 56,
+          });
+        }
+      }
+    }
+
+    // A parser grammar cannot define implicit tokens, so literals need a vocab alias
+    // (an unresolved tokenVocab is reported on its own)
+    if (grammar.type === 'parser' && (vocab || !grammar.options.tokenVocab)) {
+      const literals = new Set(vocab?.literals);
+      for (const rule of grammar.rules) {
+        if (rule.type !== 'parser' || !rule.ast) continue;
+        const missing = new Set<string>();
+        walkElements(rule.ast.alternatives, (element) => {
+          if (element.kind === 'literal' && !literals.has(element.value)) {
+            missing.add(element.value);
+          }
+        });
+        for (const literal of missing) {
+          issues.push({
+            type: 'error',
+            message: vocab
+              ? `Literal ${literal} is missing from vocab ${vocab.name} (${path.basename(vocab.path)})`
+              : `Cannot create implicit token for string literal ${literal} in a parser grammar; define a lexer rule for it`,
+            lineNumber: rule.lineNumber,
+            ruleName: rule.name,
+            code: 126,
           });
         }
       }
@@ -491,35 +875,601 @@ export class AntlrAnalyzer {
           message: `Unused rule: ${rule.name}`,
           lineNumber: rule.lineNumber,
           ruleName: rule.name,
+          check: 'unused-rule',
         });
       }
     }
 
+    issues.push(...this.validateLabels(grammar));
+    issues.push(...this.validateToolSemantics(grammar));
+    issues.push(...this.validateLexerCommands(grammar));
+    issues.push(...this.validateActionLanguage(grammar));
+
     // Check for direct left recursion (rule as first element in alternatives)
     for (const rule of grammar.rules) {
-      if (rule.type === 'parser') {
-        // Split alternatives by |
-        const alternatives = rule.definition.split('|');
-        for (const alt of alternatives) {
-          // Get the first significant token in the alternative
-          const trimmed = alt.trim();
-          const firstToken = trimmed.match(/^([a-zA-Z_][a-zA-Z0-9_]*)/)?.[1];
-          if (firstToken === rule.name) {
+      if (rule.type === 'parser' && rule.ast) {
+        const leftRecursive = rule.ast.alternatives.some((alt) => {
+          const first = alt.elements.find((e) => e.kind !== 'action' && e.kind !== 'predicate');
+          return first?.kind === 'ruleRef' && first.name === rule.name;
+        });
+        if (leftRecursive) {
+          issues.push({
+            type: 'warning',
+            message: `Direct left recursion in rule: ${rule.name}`,
+            lineNumber: rule.lineNumber,
+            ruleName: rule.name,
+            check: 'direct-left-recursion',
+          });
+        }
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Check alternative and element labels the way the ANTLR tool does
+   */
+  private static validateLabels(grammar: GrammarAnalysis): GrammarIssue[] {
+    const issues: GrammarIssue[] = [];
+    const capitalize = (name: string) => name.charAt(0).toUpperCase() + name.slice(1);
+    const rulesByContextName = new Map(grammar.rules.map((r) => [capitalize(r.name), r.name]));
+    const tokenNames = new Set(grammar.tokens.map((t) => t.name));
+    const altLabelOwners = new Map<string, string>();
+
+    for (const rule of grammar.rules) {
+      if (!rule.ast) continue;
+
+      // Alternative labels: all or nothing, unique across rules, no clash with rule contexts
+      const altLabels = rule.alternativeLabels || [];
+      if (altLabels.length > 0 && altLabels.length < rule.ast.alternatives.length) {
+        const unlabeled = rule.ast.alternatives
+          .map((alt, index) => (alt.label ? 0 : index + 1))
+          .filter((index) => index > 0);
+        issues.push({
+          type: 'error',
+          message: `Rule '${rule.name}' labels some alternatives but not all (unlabeled: ${unlabeled.join(', ')})`,
+          lineNumber: rule.lineNumber,
+          ruleName: rule.name,
+          code: 122,
+        });
+      }
+      for (const label of altLabels) {
+        const owner = altLabelOwners.get(label.name);
+        if (owner && owner !== rule.name) {
+          issues.push({
+            type: 'error',
+            message: `Alternative label '${label.name}' in rule '${rule.name}' is already used in rule '${owner}'`,
+            lineNumber: label.lineNumber,
+            ruleName: rule.name,
+            code: 123,
+          });
+        } else if (!owner) {
+          altLabelOwners.set(label.name, rule.name);
+        }
+        const conflictingRule = rulesByContextName.get(capitalize(label.name));
+        if (conflictingRule) {
+          issues.push({
+            type: 'error',
+            message: `Alternative label '${label.name}' conflicts with rule '${conflictingRule}'`,
+            lineNumber: label.lineNumber,
+            ruleName: rule.name,
+            code: 124,
+          });
+        }
+      }
+      walkElements(rule.ast.alternatives, (element) => {
+        if (element.kind !== 'block') return;
+        for (const alt of element.alternatives) {
+          if (alt.label) {
             issues.push({
-              type: 'warning',
-              message: `Direct left recursion in rule: ${rule.name}`,
-              lineNumber: rule.lineNumber,
+              type: 'error',
+              message: `Alternative label '${alt.label.name}' in rule '${rule.name}' is inside a subrule; only outermost alternatives can be labeled`,
+              lineNumber: alt.label.span.start.line,
               ruleName: rule.name,
+              check: 'label-in-subrule',
             });
-            break;
           }
         }
+      });
+
+      // Element labels: one type per name, no clash with rules, tokens or the signature
+      // Codes 72-74: label conflicts with an argument, return value or local
+      const parameters = new Map<string, number>();
+      for (const [decls, code] of [
+        [rule.locals, 74],
+        [rule.returns, 73],
+        [rule.arguments, 72],
+      ] as const) {
+        for (const name of this.declaredParameterNames(decls)) {
+          parameters.set(name, code);
+        }
+      }
+      const labelKinds = new Map<string, string>();
+      const reported = new Set<string>();
+      for (const label of rule.elementLabels || []) {
+        const report = (message: string, code: number) => {
+          if (!reported.has(message)) {
+            reported.add(message);
+            issues.push({
+              type: 'error',
+              message,
+              lineNumber: label.lineNumber,
+              ruleName: rule.name,
+              code,
+            });
+          }
+        };
+        if (label.targetType === 'block') {
+          report(
+            `Label '${label.name}' in rule '${rule.name}' is on a block that is not a set of tokens: ${label.target}`,
+            130
+          );
+          continue;
+        }
+        const kind = `${label.targetType}${label.operator === '+=' ? ' list' : ''} label`;
+        const previous = labelKinds.get(label.name);
+        if (previous && previous !== kind) {
+          report(
+            `Label '${label.name}' in rule '${rule.name}' is used as both a ${previous} and a ${kind}`,
+            75
+          );
+        } else {
+          labelKinds.set(label.name, kind);
+        }
+        if (tokenNames.has(label.name)) {
+          report(
+            `Label '${label.name}' in rule '${rule.name}' conflicts with token '${label.name}'`,
+            70
+          );
+        } else if (grammar.rules.some((r) => r.name === label.name)) {
+          report(
+            `Label '${label.name}' in rule '${rule.name}' conflicts with rule '${label.name}'`,
+            69
+          );
+        }
+        if (parameters.has(label.name)) {
+          report(
+            `Label '${label.name}' in rule '${rule.name}' conflicts with an argument, return value or local of the same name`,
+            parameters.get(label.name)!
+          );
+        }
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Emulate the ANTLR tool's semantic checks that need no code generation.
+   * Each issue carries the error code the tool itself would print.
+   */
+  private static validateToolSemantics(grammar: GrammarAnalysis): GrammarIssue[] {
+    const issues: GrammarIssue[] = [];
+    const ast = grammar.ast;
+    if (!ast || !grammar.grammarName) return issues;
+
+    const rulesByName = new Map(grammar.rules.map((r) => [r.name, r]));
+    const issue = (
+      type: GrammarIssue['type'],
+      code: number,
+      message: string,
+      lineNumber: number,
+      ruleName?: string
+    ) => issues.push({ type, message, lineNumber, ruleName, code });
+
+    if (ast.rules.length === 0) {
+      issue('error', 99, `Grammar ${grammar.grammarName} has no rules`, 1);
+    }
+
+    // Structure of the main file: redefinitions, rule kinds, modes and channels
+    const firstDefinitions = new Map<string, number>();
+    for (const rule of ast.rules) {
+      const line = rule.span.start.line;
+      const previous = firstDefinitions.get(rule.name);
+      if (previous !== undefined) {
+        issue(
+          'error',
+          51,
+          `Rule ${rule.name} redefinition; previous at line ${previous}`,
+          line,
+          rule.name
+        );
+      } else {
+        firstDefinitions.set(rule.name, line);
+      }
+      if (grammar.type === 'parser' && rule.type === 'lexer') {
+        issue('error', 52, `Lexer rule ${rule.name} not allowed in parser`, line, rule.name);
+      } else if (grammar.type === 'lexer' && rule.type === 'parser') {
+        issue('error', 53, `Parser rule ${rule.name} not allowed in lexer`, line, rule.name);
+      }
+    }
+    for (const mode of ast.modes) {
+      const line = mode.span.start.line;
+      if (grammar.type !== 'lexer') {
+        issue(
+          'error',
+          120,
+          `Lexical modes are only allowed in lexer grammars (mode ${mode.name})`,
+          line
+        );
+      } else if (!ast.rules.some((r) => r.mode === mode.name && !r.fragment)) {
+        issue(
+          'error',
+          145,
+          `Lexer mode ${mode.name} must contain at least one non-fragment rule`,
+          line
+        );
+      }
+    }
+    const channelsBlock = ast.prequel.find((p) => p.kind === 'channels');
+    if (channelsBlock && grammar.type !== 'lexer') {
+      issue(
+        'error',
+        grammar.type === 'parser' ? 161 : 164,
+        `Custom channels are not supported in ${grammar.type} grammars`,
+        channelsBlock.span.start.line
+      );
+    }
+
+    // References and lexer commands
+    for (const rule of ast.rules) {
+      walkElements(rule.alternatives, (element) => {
+        if (element.kind === 'tokenRef' && rule.type === 'parser') {
+          if (rulesByName.get(element.name)?.ast?.fragment) {
+            issue(
+              'warning',
+              125,
+              `Implicit definition of token ${element.name} in parser (fragment rules are not tokens)`,
+              element.span.start.line,
+              rule.name
+            );
+          }
+        } else if (
+          element.kind === 'ruleRef' &&
+          rule.type === 'lexer' &&
+          rulesByName.get(element.name)?.type === 'parser'
+        ) {
+          issue(
+            'error',
+            160,
+            `Reference to parser rule ${element.name} in lexer rule ${rule.name}`,
+            element.span.start.line,
+            rule.name
+          );
+        } else if (element.kind === 'block') {
+          if (element.alternatives.some((alt) => alt.commands.length > 0)) {
+            issue(
+              'error',
+              133,
+              `->command in lexer rule ${rule.name} must be last element of single outermost alt`,
+              element.span.start.line,
+              rule.name
+            );
+          }
+        }
+      });
+
+      for (const command of rule.alternatives.flatMap((alt) => alt.commands)) {
+        const commandLine = command.span.start.line;
+        if (rule.type === 'parser') {
+          issue(
+            'error',
+            50,
+            `Lexer command -> ${command.name} is not allowed in parser rule ${rule.name}`,
+            commandLine,
+            rule.name
+          );
+        }
+      }
+    }
+
+    // Empty-string matches: closures are errors, optional blocks and tokens warnings
+    const nullable = new Set(this.nullableWitnesses(grammar.rules).keys());
+    for (const rule of ast.rules) {
+      const line = rule.span.start.line;
+      const found = new Set<number>();
+      walkElements(rule.alternatives, (element) => {
+        if (!element.suffix) return;
+        const base = { ...element, suffix: undefined } as GrammarElement;
+        if (!this.isNullableElement(base, rule.type, nullable)) return;
+        found.add(element.suffix.startsWith('?') ? 154 : 153);
+      });
+      if (found.has(153)) {
+        issue(
+          'error',
+          153,
+          `Rule ${rule.name} contains a closure with at least one alternative that can match an empty string`,
+          line,
+          rule.name
+        );
+      }
+      if (found.has(154)) {
+        issue(
+          'warning',
+          154,
+          `Rule ${rule.name} contains an optional block with at least one alternative that can match an empty string`,
+          line,
+          rule.name
+        );
+      }
+      if (rule.type === 'lexer' && !rule.fragment && nullable.has(rule.name)) {
+        issue(
+          'warning',
+          146,
+          `Non-fragment lexer rule ${rule.name} can match the empty string`,
+          line,
+          rule.name
+        );
+      }
+    }
+
+    // Left recursion ANTLR cannot rewrite
+    for (const cycle of this.findLeftRecursionCycles(grammar)) {
+      const head = rulesByName.get(cycle.rules[0]);
+      issue(
+        'error',
+        119,
+        `The following sets of rules are mutually left-recursive [${cycle.rules.join(', ')}]: ${cycle.path.join(' → ')}`,
+        head?.lineNumber || 1,
+        cycle.rules[0]
+      );
+    }
+
+    return issues;
+  }
+
+  /**
+   * Rules that can match the empty string, each with the first alternative that
+   * does and the nullable rules that alternative goes through. A rule becoming
+   * nullable re-queues the rules that reference it.
+   */
+  private static nullableWitnesses(
+    rules: GrammarRule[]
+  ): Map<string, { alternative: number; via: string[] }> {
+    const witnesses = new Map<string, { alternative: number; via: string[] }>();
+    const nullable = new Set<string>();
+    const rulesByName = new Map(rules.map((r) => [r.name, r]));
+    const { reverseGraph } = this.buildRuleGraph(rules);
+    const queue = rules.map((r) => r.name);
+
+    while (queue.length > 0) {
+      const name = queue.shift()!;
+      const rule = rulesByName.get(name);
+      if (!rule?.ast || nullable.has(name)) continue;
+      const index = rule.ast.alternatives.findIndex((alt) =>
+        alt.elements.every((e) => this.isNullableElement(e, rule.type, nullable))
+      );
+      if (index < 0) continue;
+
+      nullable.add(name);
+      witnesses.set(name, {
+        alternative: index + 1,
+        via: this.requiredNullableRefs(rule.ast.alternatives[index].elements, rule.type, nullable),
+      });
+      queue.push(...(reverseGraph.get(name) || []));
+    }
+
+    return witnesses;
+  }
+
+  /**
+   * Rule references a nullable sequence must itself derive empty through
+   * (references under `?` or `*` are skipped, blocks use their first nullable alternative)
+   */
+  private static requiredNullableRefs(
+    elements: GrammarElement[],
+    ruleType: 'lexer' | 'parser',
+    nullable: Set<string>
+  ): string[] {
+    const refs: string[] = [];
+    for (const element of elements) {
+      if (element.suffix && !element.suffix.startsWith('+')) continue;
+      if (element.kind === 'ruleRef' || element.kind === 'tokenRef') {
+        refs.push(element.name);
+      } else if (element.kind === 'block') {
+        const alt = element.alternatives.find((a) =>
+          a.elements.every((e) => this.isNullableElement(e, ruleType, nullable))
+        );
+        refs.push(...this.requiredNullableRefs(alt?.elements || [], ruleType, nullable));
+      }
+    }
+    return refs;
+  }
+
+  /**
+   * Check if an element can match without consuming input, given the nullable rules
+   */
+  private static isNullableElement(
+    element: GrammarElement,
+    ruleType: 'lexer' | 'parser',
+    nullable: Set<string>
+  ): boolean {
+    if (element.suffix && (element.suffix.startsWith('?') || element.suffix.startsWith('*'))) {
+      return true;
+    }
+    switch (element.kind) {
+      case 'action':
+      case 'predicate':
+        return true;
+      case 'ruleRef':
+        return nullable.has(element.name);
+      case 'tokenRef':
+        // A token always consumes input; in the lexer it names another lexer rule
+        return ruleType === 'lexer' && nullable.has(element.name);
+      case 'literal':
+        return element.value === "''";
+      case 'block':
+        return element.alternatives.some((alt) =>
+          alt.elements.every((e) => this.isNullableElement(e, ruleType, nullable))
+        );
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Check lexer commands (`-> skip, pushMode(X)`) the way the ANTLR tool does,
+   * plus mode stack and `more` mistakes that only show up at runtime
+   */
+  private static validateLexerCommands(grammar: GrammarAnalysis): GrammarIssue[] {
+    const issues: GrammarIssue[] = [];
+    const lexerRules = grammar.rules.filter((r) => r.type === 'lexer' && r.ast);
+    const modeNames = new Set(['DEFAULT_MODE', ...grammar.modes.map((m) => m.name)]);
+    const tokenNames = new Set([
+      'EOF',
+      ...this.vocabularyOf(grammar).tokens,
+      ...(grammar.tokenVocab?.tokens || []),
+    ]);
+    const withArgument = new Set(['mode', 'pushMode', 'type', 'channel']);
+    const withoutArgument = new Set(['skip', 'more', 'popMode']);
+    // ANTLR warns about these pairs on one alternative; the mode commands combine with anything
+    const incompatible = new Set([
+      'skip/more',
+      'skip/type',
+      'skip/channel',
+      'more/type',
+      'more/channel',
+    ]);
+    const modeOf = (rule: GrammarRule) => rule.mode || 'DEFAULT_MODE';
+    const issue = (
+      type: GrammarIssue['type'],
+      id: number | string, // ANTLR error code, or a check id for checks the tool lacks
+      message: string,
+      lineNumber: number,
+      ruleName: string
+    ) =>
+      issues.push({
+        type,
+        message,
+        lineNumber,
+        ruleName,
+        ...(typeof id === 'number' ? { code: id } : { check: id }),
+      });
+
+    for (const rule of lexerRules) {
+      for (const alt of rule.ast!.alternatives) {
+        const seen: string[] = [];
+        for (const command of alt.commands) {
+          const { name, argument } = command;
+          const line = command.span.start.line;
+          if (!withArgument.has(name) && !withoutArgument.has(name)) {
+            issue('error', 149, `Lexer command ${name} does not exist`, line, rule.name);
+            continue;
+          }
+          if (withArgument.has(name) && !argument) {
+            issue('error', 150, `Missing argument for lexer command ${name}`, line, rule.name);
+          } else if (withoutArgument.has(name) && argument) {
+            issue('error', 151, `Lexer command ${name} does not take an argument`, line, rule.name);
+          }
+
+          if (name !== 'pushMode' && name !== 'popMode') {
+            if (seen.includes(name)) {
+              issue('warning', 178, `Duplicated command ${name}`, line, rule.name);
+            }
+            const earlier = seen.find(
+              (other) =>
+                incompatible.has(`${other}/${name}`) || incompatible.has(`${name}/${other}`)
+            );
+            if (earlier) {
+              issue(
+                'warning',
+                179,
+                `Incompatible commands ${earlier} and ${name}`,
+                line,
+                rule.name
+              );
+            }
+          }
+          seen.push(name);
+
+          if (!argument || /^\d+$/.test(argument)) continue;
+          if ((name === 'mode' || name === 'pushMode') && !modeNames.has(argument)) {
+            issue('error', 176, `${argument} is not a recognized mode name`, line, rule.name);
+          } else if (name === 'type' && !tokenNames.has(argument)) {
+            issue('error', 175, `${argument} is not a recognized token name`, line, rule.name);
+          } else if (name === 'channel' && !this.isKnownChannel(argument, grammar.channels)) {
+            issue(
+              'warning',
+              177,
+              `Channel '${argument}' is not declared in a channels {} block`,
+              line,
+              rule.name
+            );
+          }
+        }
+      }
+    }
+
+    // Modes that can be active with something on the mode stack: pushMode targets,
+    // and whatever they switch or push to
+    const transitions = lexerRules.flatMap((rule) =>
+      rule.ast!.alternatives.flatMap((alt) => alt.commands).map((command) => ({ rule, command }))
+    );
+    const stacked = new Set<string>();
+    const queue = transitions
+      .filter(({ command }) => command.name === 'pushMode' && command.argument)
+      .map(({ command }) => command.argument!);
+    while (queue.length > 0) {
+      const mode = queue.shift()!;
+      if (stacked.has(mode)) continue;
+      stacked.add(mode);
+      for (const { rule, command } of transitions) {
+        if (modeOf(rule) === mode && command.name === 'mode' && command.argument) {
+          queue.push(command.argument);
+        }
+      }
+    }
+    for (const { rule, command } of transitions) {
+      if (command.name === 'popMode' && !stacked.has(modeOf(rule))) {
+        issue(
+          'warning',
+          'mode-stack',
+          `popMode in rule ${rule.name} runs with an empty mode stack: mode ${modeOf(rule)} is never entered through pushMode`,
+          command.span.start.line,
+          rule.name
+        );
+      }
+    }
+
+    // `more` keeps the text for the next token, so some rule must be able to finish it
+    const finishes = (rule: GrammarRule) =>
+      !rule.ast!.fragment &&
+      rule.ast!.alternatives.some((alt) => !alt.commands.some((c) => c.name === 'more'));
+    for (const rule of lexerRules) {
+      for (const alt of rule.ast!.alternatives) {
+        const more = alt.commands.find((c) => c.name === 'more');
+        if (!more || alt.commands.some((c) => c.name === 'popMode')) continue;
+        const switchTo = alt.commands.filter((c) => c.name === 'mode' || c.name === 'pushMode');
+        const next = switchTo.length > 0 ? switchTo[switchTo.length - 1].argument : modeOf(rule);
+        if (!next || !modeNames.has(next)) continue;
+        if (!lexerRules.some((other) => modeOf(other) === next && finishes(other))) {
+          issue(
+            'warning',
+            'more-without-token',
+            `Rule ${rule.name} uses more, but no rule in mode ${next} ends a token, so the text is never emitted`,
+            more.span.start.line,
+            rule.name
+          );
+        }
       }
     }
 
     return issues;
   }
 
+  /**
+   * Check if a channel(X) argument names a predefined, numeric or declared channel
+   */
+  private static isKnownChannel(name: string, channels: GrammarChannel[]): boolean {
+    return (
+      name === 'HIDDEN' ||
+      name === 'DEFAULT_TOKEN_CHANNEL' ||
+      /^\d+$/.test(name) ||
+      channels.some((c) => c.name === name)
+    );
+  }
+
   /**
    * Check if a rule is a built-in ANTLR4 rule
    */
@@ -685,29 +1635,15 @@ export class AntlrAnalyzer {
       return { index: -1, error: 'No target rule specified for positional insertion' };
     }
 
-    // Find the target rule
-    const rulePattern = /^(fragment\s+)?([A-Z_][A-Z0-9_]*|[a-z_][a-z0-9_]*)\s*:/;
-
-    for (let i = 0; i < lines.length; i++) {
-      const trimmed = lines[i].trim();
-      if (rulePattern.test(trimmed)) {
-        const match = trimmed.match(rulePattern);
-        if (match && match[2] === targetRule) {
-          // Found the target rule
-          if (placement.before) {
-            // Insert before this line
-            return { index: i };
-          } else {
-            // Insert after this rule - find the end (marked by ;)
-            for (let j = i; j < lines.length; j++) {
-              if (lines[j].includes(';')) {
-                return { index: j + 1 };
-              }
-            }
-            return { index: i + 1 };
-          }
-        }
-      }
+    // Find the target rule (its header may span lines, e.g. a colon on the next line)
+    const ast = parseGrammar(lines.join('\n'));
+    const rule = ast.rules.find((r) => r.name === targetRule);
+    if (rule && placement.after) {
+      return { index: rule.span.end.line };
+    }
+    if (rule) {
+      // Stay above the comment lines directly in front of the rule
+      return { index: this.commentedStartLine(lines, ast, rule.span.start.line) - 1 };
     }
 
     return {
@@ -716,6 +1652,21 @@ export class AntlrAnalyzer {
     };
   }
 
+  /**
+   * First line (1-based) of the comment lines directly above `line`, or `line`
+   */
+  private static commentedStartLine(lines: string[], ast: GrammarAst, line: number): number {
+    for (const comment of [...ast.comments].reverse()) {
+      if (
+        comment.span.end.line === line - 1 &&
+        !lines[comment.span.start.line - 1].slice(0, comment.span.start.column).trim()
+      ) {
+        line = comment.span.start.line;
+      }
+    }
+    return line;
+  }
+
   /**
    * Add a lexer rule to the grammar (with alphabetical sort or positional insertion)
    */
@@ -824,8 +1775,8 @@ export class AntlrAnalyzer {
     grammarContent: string,
     ruleName: string,
     definition: string | string[],
-    options?: {
-      returnType?: string;
+    options?: RuleSignature & {
+      returnType?: string; // Same as `returns`
       insertAfter?: string;
       insertBefore?: string;
     }
@@ -891,10 +1842,12 @@ export class AntlrAnalyzer {
     const spaceBeforeColon = formatting.spaceAroundColon ? ' ' : '';
     const spaceAfterColon = ' ';
 
-    let ruleDefinition = ruleName;
-    if (options?.returnType) {
-      ruleDefinition += ` returns [${options.returnType}]`;
-    }
+    let ruleDefinition =
+      ruleName +
+      this.formatRuleSignature({
+        ...options,
+        returns: options?.returns || options?.returnType,
+      });
     ruleDefinition += `${spaceBeforeColon}:${spaceAfterColon}${def}`;
 
     if (formatting.semicolonPlacement === 'new-line') {
@@ -933,14 +1886,21 @@ export class AntlrAnalyzer {
     }
 
     const lines = grammarContent.split('\n');
-    const startLine = rule.lineNumber - 1;
-
-    // Find the end of the rule (marked by ;)
-    let endLine = startLine;
-    for (let i = startLine; i < lines.length; i++) {
-      if (lines[i].includes(';')) {
-        endLine = i;
-        break;
+    const { startLine, endLine } = this.ruleLineRange(rule);
+
+    // A rule sharing its lines with other rules (e.g. `a: A; b: B;`) is cut out by offset
+    const span = rule.ast?.span;
+    if (span) {
+      const before = lines[startLine].slice(0, span.start.column).trim();
+      const after = lines[endLine].slice(span.end.column).trim();
+      if (before !== '' || (after !== '' && !after.startsWith('//'))) {
+        let end = span.end.offset;
+        while (grammarContent[end] === ' ' || grammarContent[end] === '\t') end++;
+        return {
+          success: true,
+          modified: grammarContent.slice(0, span.start.offset) + grammarContent.slice(end),
+          message: `Removed rule '${ruleName}' (was at lines ${startLine + 1}-${endLine + 1}).`,
+        };
       }
     }
 
@@ -963,28 +1923,276 @@ export class AntlrAnalyzer {
   }
 
   /**
-   * Infer formatting style from existing grammar
+   * 0-based first and last source line of a rule
    */
-  static inferFormatting(grammarContent: string): GrammarFormatting {
-    const lines = grammarContent.split('\n');
-
-    let colonSameLine = 0;
-    let colonNewLine = 0;
-    let semicolonSameLine = 0;
-    let semicolonNewLine = 0;
-    const indentations: string[] = [];
-    let hasSpaceBeforeColon = 0;
-    let noSpaceBeforeColon = 0;
-    let blankLineCount = 0;
-    let ruleCount = 0;
-    let prevLineHadRuleName = false;
+  private static ruleLineRange(rule: GrammarRule): { startLine: number; endLine: number } {
+    if (rule.ast) {
+      return { startLine: rule.ast.span.start.line - 1, endLine: rule.ast.span.end.line - 1 };
+    }
+    const startLine = rule.lineNumber - 1;
+    return { startLine, endLine: startLine + rule.definition.split('\n').length - 1 };
+  }
 
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const trimmed = line.trim();
+  /**
+   * Declare token types in `tokens {}` or custom channels in `channels {}`,
+   * creating the block after the grammar prequel when it does not exist yet
+   */
+  static addDeclarations(
+    grammarContent: string,
+    block: 'tokens' | 'channels',
+    names: string[]
+  ): { success: boolean; modified: string; message: string } {
+    const analysis = this.analyze(grammarContent);
+    const ast = analysis.ast!;
 
-      // Skip comments and empty lines
-      if (trimmed === '' || trimmed.startsWith('//') || trimmed.startsWith('/*')) {
+    if (block === 'channels' && analysis.type !== 'lexer') {
+      return {
+        success: false,
+        modified: grammarContent,
+        message: `Custom channels are only supported in lexer grammars (this is a ${analysis.type} grammar).`,
+      };
+    }
+
+    const declared = new Set(ast[block].map((id) => id.name));
+    const toAdd: string[] = [];
+    const skipped: string[] = [];
+    for (const name of names) {
+      const problem = this.declarationNameProblem(analysis, block, name);
+      if (problem) {
+        return { success: false, modified: grammarContent, message: problem };
+      }
+      if (declared.has(name) || toAdd.includes(name)) {
+        skipped.push(`${name} (already declared)`);
+      } else if (block === 'tokens' && analysis.rules.some((r) => r.name === name)) {
+        skipped.push(`${name} (defined by a lexer rule)`);
+      } else {
+        toAdd.push(name);
+      }
+    }
+
+    const skippedNote = skipped.length > 0 ? ` Skipped: ${skipped.join(', ')}.` : '';
+    if (toAdd.length === 0) {
+      return {
+        success: true,
+        modified: grammarContent,
+        message: `Nothing to add to ${block} {}.${skippedNote}`,
+      };
+    }
+
+    let modified: string;
+    const existing = ast.prequel.find((p) => p.kind === block);
+    if (existing) {
+      const ids = ast[block];
+      const blockText = sliceSpan(grammarContent, existing.span);
+      if (ids.length === 0) {
+        // Empty block: rewrite the braces
+        const open = existing.span.start.offset + blockText.indexOf('{');
+        modified =
+          grammarContent.slice(0, open) +
+          `{ ${toAdd.join(', ')} }` +
+          grammarContent.slice(existing.span.end.offset);
+      } else {
+        // Append after the last name, one per line when the block is laid out that way
+        const last = ids[ids.length - 1];
+        let separator = ', ';
+        if (ids[0].span.start.line !== existing.span.start.line && blockText.includes('\n')) {
+          const lineStart = grammarContent.lastIndexOf('\n', last.span.start.offset - 1) + 1;
+          const indent = grammarContent.slice(lineStart).match(/^[ \t]*/)![0];
+          separator = `,\n${indent}`;
+        }
+        modified =
+          grammarContent.slice(0, last.span.end.offset) +
+          toAdd.map((name) => separator + name).join('') +
+          grammarContent.slice(last.span.end.offset);
+      }
+    } else {
+      // New block after the declaration, options and imports (tokens before channels)
+      const anchors = [
+        ast.declarationSpan,
+        ...ast.prequel
+          .filter((p) => p.kind !== 'channels' && (block === 'channels' || p.kind !== 'tokens'))
+          .map((p) => p.span),
+      ].filter((span) => span !== undefined);
+      const anchorEnd = Math.max(0, ...anchors.map((span) => span.end.offset));
+      const newBlock = `${block} { ${toAdd.join(', ')} }`;
+      if (anchors.length === 0) {
+        modified = `${newBlock}\n\n${grammarContent}`;
+      } else {
+        const lineEnd = grammarContent.indexOf('\n', anchorEnd);
+        if (lineEnd === -1) {
+          modified = `${grammarContent}\n\n${newBlock}\n`;
+        } else {
+          const nextLineEnd = grammarContent.indexOf('\n', lineEnd + 1);
+          const nextLine = grammarContent.slice(
+            lineEnd + 1,
+            nextLineEnd === -1 ? undefined : nextLineEnd
+          );
+          const insertion = nextLine.trim() === '' ? `\n${newBlock}\n` : `${newBlock}\n`;
+          modified =
+            grammarContent.slice(0, lineEnd + 1) + insertion + grammarContent.slice(lineEnd + 1);
+        }
+      }
+    }
+
+    return {
+      success: true,
+      modified,
+      message: `Added ${toAdd.join(', ')} to ${block} {}.${skippedNote}`,
+    };
+  }
+
+  /**
+   * Remove names from `tokens {}` or `channels {}`; the block goes away when it becomes empty
+   */
+  static removeDeclarations(
+    grammarContent: string,
+    block: 'tokens' | 'channels',
+    names: string[]
+  ): { success: boolean; modified: string; message: string } {
+    const analysis = this.analyze(grammarContent);
+    const ast = analysis.ast!;
+    const existing = ast.prequel.find((p) => p.kind === block);
+    const ids = ast[block];
+    const removed = ids.filter((id) => names.includes(id.name));
+    const missing = names.filter((name) => !ids.some((id) => id.name === name));
+
+    if (!existing || removed.length === 0) {
+      return {
+        success: false,
+        modified: grammarContent,
+        message: `Not declared in ${block} {}: ${names.join(', ')}.`,
+      };
+    }
+
+    let modified: string;
+    if (removed.length === ids.length) {
+      // Drop the whole block, with its line when nothing else is on it
+      let start = existing.span.start.offset;
+      let end = existing.span.end.offset;
+      const lineStart = grammarContent.lastIndexOf('\n', start - 1) + 1;
+      let lineEnd = grammarContent.indexOf('\n', end);
+      if (lineEnd === -1) lineEnd = grammarContent.length;
+      if (
+        grammarContent.slice(lineStart, start).trim() === '' &&
+        grammarContent.slice(end, lineEnd).trim() === ''
+      ) {
+        start = lineStart;
+        end = Math.min(lineEnd + 1, grammarContent.length);
+        // Avoid leaving two blank lines where the block was
+        const previousBlank = start === 0 || /\n[ \t]*\n$/.test(grammarContent.slice(0, start));
+        const nextLineEnd = grammarContent.indexOf('\n', end);
+        if (
+          previousBlank &&
+          nextLineEnd !== -1 &&
+          grammarContent.slice(end, nextLineEnd).trim() === ''
+        ) {
+          end = nextLineEnd + 1;
+        }
+      }
+      modified = grammarContent.slice(0, start) + grammarContent.slice(end);
+    } else {
+      // Cut each run of removed names together with one adjacent comma
+      const ranges: Array<{ start: number; end: number }> = [];
+      let i = 0;
+      while (i < ids.length) {
+        if (!names.includes(ids[i].name)) {
+          i++;
+          continue;
+        }
+        let j = i;
+        while (j + 1 < ids.length && names.includes(ids[j + 1].name)) j++;
+        if (j + 1 < ids.length) {
+          ranges.push({ start: ids[i].span.start.offset, end: ids[j + 1].span.start.offset });
+        } else {
+          ranges.push({ start: ids[i - 1].span.end.offset, end: ids[j].span.end.offset });
+        }
+        i = j + 1;
+      }
+      modified = grammarContent;
+      for (const range of ranges.reverse()) {
+        modified = modified.slice(0, range.start) + modified.slice(range.end);
+      }
+    }
+
+    // Names that are still in use after the edit
+    const stillUsed: string[] = [];
+    for (const id of removed) {
+      const users =
+        block === 'tokens'
+          ? analysis.rules.some((r) => r.name === id.name)
+            ? []
+            : analysis.rules.filter((r) => r.referencedRules.includes(id.name))
+          : analysis.rules.filter((r) =>
+              r.ast?.alternatives.some((alt) =>
+                alt.commands.some((c) => c.name === 'channel' && c.argument === id.name)
+              )
+            );
+      if (users.length > 0) {
+        stillUsed.push(`${id.name} (used by ${users.map((r) => r.name).join(', ')})`);
+      }
+    }
+
+    let message = `Removed ${removed.map((id) => id.name).join(', ')} from ${block} {}.`;
+    if (missing.length > 0) {
+      message += ` Not declared: ${missing.join(', ')}.`;
+    }
+    if (stillUsed.length > 0) {
+      message += ` ⚠️ Still referenced: ${stillUsed.join('; ')}.`;
+    }
+    return { success: true, modified, message };
+  }
+
+  /**
+   * Why a name cannot be declared in a tokens {} or channels {} block (undefined when it can)
+   */
+  private static declarationNameProblem(
+    analysis: GrammarAnalysis,
+    block: 'tokens' | 'channels',
+    name: string
+  ): string | undefined {
+    if (!/^[\p{L}_][\p{L}\p{N}_]*$/u.test(name)) {
+      return `Invalid name: '${name}'.`;
+    }
+    if (block === 'tokens' && !/^\p{Lu}/u.test(name)) {
+      return `Invalid token name: '${name}'. Token names must start with an uppercase letter.`;
+    }
+    if (block === 'channels') {
+      if (name === 'HIDDEN' || name === 'DEFAULT_TOKEN_CHANNEL') {
+        return `Channel '${name}' is predefined and cannot be declared.`;
+      }
+      if (analysis.tokens.some((t) => t.name === name)) {
+        return `Channel '${name}' conflicts with a token of the same name.`;
+      }
+      if (analysis.modes.some((m) => m.name === name)) {
+        return `Channel '${name}' conflicts with a mode of the same name.`;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Infer formatting style from existing grammar
+   */
+  static inferFormatting(grammarContent: string): GrammarFormatting {
+    const lines = grammarContent.split('\n');
+
+    let colonSameLine = 0;
+    let colonNewLine = 0;
+    let semicolonSameLine = 0;
+    let semicolonNewLine = 0;
+    const indentations: string[] = [];
+    let hasSpaceBeforeColon = 0;
+    let noSpaceBeforeColon = 0;
+    let blankLineCount = 0;
+    let ruleCount = 0;
+    let prevLineHadRuleName = false;
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      const trimmed = line.trim();
+
+      // Skip comments and empty lines
+      if (trimmed === '' || trimmed.startsWith('//') || trimmed.startsWith('/*')) {
         prevLineHadRuleName = false;
         continue;
       }
@@ -1142,102 +2350,31 @@ export class AntlrAnalyzer {
     }
 
     const lines = grammarContent.split('\n');
-
-    // Find the actual start of the rule by searching for the rule name with colon
-    // Handle both "ruleName :" and "fragment ruleName :" patterns
-    let startLine = -1;
-    const rulePattern = new RegExp(`^\\s*(?:fragment\\s+)?${ruleName}\\s*:`);
-
-    for (let i = 0; i < lines.length; i++) {
-      if (rulePattern.test(lines[i])) {
-        startLine = i;
-        break;
-      }
-    }
-
-    // Fallback: search for just the rule name (for cases where colon is on next line)
-    // But we must verify the next line has a colon to avoid matching rule references
-    if (startLine === -1) {
-      const namePattern = new RegExp(`^\\s*(?:fragment\\s+)?${ruleName}\\s*$`);
-      for (let i = 0; i < lines.length; i++) {
-        if (namePattern.test(lines[i])) {
-          // Verify this is a rule definition, not a reference
-          // Check if the next line starts with a colon (new-line colon style)
-          if (i + 1 < lines.length) {
-            const nextLine = lines[i + 1];
-            if (/^\s*:/.test(nextLine)) {
-              startLine = i;
-              break;
-            }
-          }
-        }
-      }
-    }
-
-    if (startLine === -1) {
-      return {
-        success: false,
-        modified: grammarContent,
-        message: `Could not locate rule '${ruleName}' in grammar content.`,
-      };
-    }
-
-    // Find the end of the rule by tracking parentheses balance
-    // This handles multi-line rules properly
-    let endLine = -1; // Start at -1, not startLine
-    let parenDepth = 0;
-    let foundColon = false;
-
-    for (let i = startLine; i < lines.length; i++) {
-      const line = lines[i];
-
-      // Track parentheses depth (skip content inside strings)
-      for (let j = 0; j < line.length; j++) {
-        const char = line[j];
-
-        // Skip string literals
-        if (char === "'" || char === '"') {
-          const quote = char;
-          j++;
-          while (j < line.length && line[j] !== quote) {
-            if (line[j] === '\\' && j + 1 < line.length) j++; // Skip escaped chars
-            j++;
-          }
-          continue;
-        }
-
-        // Track parentheses
-        if (char === '(') parenDepth++;
-        else if (char === ')') parenDepth--;
-        else if (char === ':' && parenDepth === 0) foundColon = true;
-        else if (char === ';' && parenDepth === 0 && foundColon) {
-          endLine = i;
-          break;
-        }
-      }
-
-      if (endLine !== -1) break; // Found the semicolon
-    }
-
-    // Fallback: if we couldn't find the end, use the original rule's line count
-    if (endLine === -1) {
-      const rule = analysis.rules.find((r) => r.name === ruleName);
-      if (rule) {
-        // Count lines in the original definition
-        const defLines = rule.definition.split('\n').length;
-        endLine = startLine + defLines - 1;
-      } else {
-        endLine = startLine;
-      }
-    }
+    const ruleNode = rule.ast!;
+
+    // The rule runs from its first line to the line holding ';'; anything after
+    // the ';' on that line (comments, exception handlers) is kept
+    const startLine = ruleNode.span.start.line - 1;
+    let semicolon = grammarContent.indexOf(';', ruleNode.bodySpan.end.offset);
+    if (semicolon === -1 || semicolon >= ruleNode.span.end.offset) {
+      semicolon = ruleNode.bodySpan.end.offset; // Unterminated rule
+    }
+    const endLine = grammarContent.slice(0, semicolon).split('\n').length - 1;
+    const trailing =
+      grammarContent[semicolon] === ';'
+        ? grammarContent.slice(semicolon + 1).split('\n')[0]
+        : lines[endLine].slice(ruleNode.bodySpan.end.column);
+
+    // Modifiers, name and signature (arguments, returns, locals, @init, ...) are kept as written
+    const header = grammarContent
+      .slice(ruleNode.span.start.offset, ruleNode.colonSpan.start.offset)
+      .trimEnd();
+    const colonLine = ruleNode.colonSpan.start.line - 1;
 
     // Infer formatting from existing grammar
     const formatting = this.inferFormatting(grammarContent);
 
-    // Preserve any leading fragment keyword
-    const firstLine = lines[startLine];
-    const isFragment = firstLine.trim().startsWith('fragment');
-    const leadingWhitespace = firstLine.match(/^\s*/)?.[0] || '';
+    const leadingWhitespace = lines[startLine].match(/^\s*/)?.[0] || '';
 
     // For new-line colon placement, check the actual colon line indentation
     // and check if definition is on separate line from colon
@@ -1246,15 +2383,15 @@ export class AntlrAnalyzer {
     let definitionLineIndent = formatting.indentStyle;
     let semicolonLineIndent = leadingWhitespace;
 
-    if (formatting.colonPlacement === 'new-line' && startLine + 1 < lines.length) {
-      const colonLine = lines[startLine + 1];
-      if (colonLine.trim().startsWith(':')) {
-        colonLineIndent = colonLine.match(/^\s*/)?.[0] || '';
+    if (formatting.colonPlacement === 'new-line' && colonLine > startLine) {
+      const colonText = lines[colonLine];
+      if (colonText.trim().startsWith(':')) {
+        colonLineIndent = colonText.match(/^\s*/)?.[0] || '';
 
         // Check if colon line only contains ":"  (definition on next line)
-        if (colonLine.trim() === ':' && startLine + 2 < lines.length) {
+        if (colonText.trim() === ':' && colonLine + 1 < lines.length) {
           definitionOnSeparateLine = true;
-          const defLine = lines[startLine + 2];
+          const defLine = lines[colonLine + 1];
           definitionLineIndent = defLine.match(/^\s*/)?.[0] || formatting.indentStyle;
         }
       }
@@ -1269,7 +2406,6 @@ export class AntlrAnalyzer {
     }
 
     // Build new rule according to inferred formatting
-    const fragmentPrefix = isFragment ? 'fragment ' : '';
     const spaceBeforeColon = formatting.spaceAroundColon ? ' ' : '';
     const spaceAfterColon = definitionOnSeparateLine ? '' : ' '; // No space if definition on next line
     let newRule: string | string[];
@@ -1278,7 +2414,7 @@ export class AntlrAnalyzer {
       if (definitionOnSeparateLine) {
         // Three-line format: name, colon, definition
         newRule = [
-          `${leadingWhitespace}${fragmentPrefix}${ruleName}`,
+          `${leadingWhitespace}${header}`,
           `${colonLineIndent}:`,
           `${definitionLineIndent}${definition}`,
         ];
@@ -1293,7 +2429,7 @@ export class AntlrAnalyzer {
       } else {
         // Two-line format: name, colon+definition
         newRule = [
-          `${leadingWhitespace}${fragmentPrefix}${ruleName}`,
+          `${leadingWhitespace}${header}`,
           `${colonLineIndent}:${spaceAfterColon}${definition}`,
         ];
 
@@ -1309,16 +2445,16 @@ export class AntlrAnalyzer {
       // Standard: rule name and colon on same line
       if (formatting.semicolonPlacement === 'new-line') {
         newRule = [
-          `${leadingWhitespace}${fragmentPrefix}${ruleName}${spaceBeforeColon}: ${definition}`,
+          `${leadingWhitespace}${header}${spaceBeforeColon}: ${definition}`,
           `${semicolonLineIndent};`,
         ].join('\n');
       } else {
-        newRule = `${leadingWhitespace}${fragmentPrefix}${ruleName}${spaceBeforeColon}: ${definition};`;
+        newRule = `${leadingWhitespace}${header}${spaceBeforeColon}: ${definition};`;
       }
     }
 
     // Replace the rule - split by newlines to maintain proper line array
-    const newRuleLines = newRule.split('\n');
+    const newRuleLines = (newRule + trailing).split('\n');
     lines.splice(startLine, endLine - startLine + 1, ...newRuleLines);
 
     const modified = lines.join('\n');
@@ -1388,13 +2524,17 @@ export class AntlrAnalyzer {
   }
 
   /**
-   * Rename a rule across multiple grammar files (main + imports)
+   * Rename a rule across multiple grammar files (main + imports). `contents`
+   * holds grammar text to use instead of the file on disk, keyed by resolved
+   * path.
    */
   static renameRuleMultiFile(
     filePath: string,
     oldName: string,
     newName: string,
-    basePath?: string
+    basePath?: string,
+    libDirs: string[] = [],
+    contents: Map<string, string> = new Map()
   ): {
     success: boolean;
     modifiedFiles: Array<{ filePath: string; content: string; refCount: number }>;
@@ -1406,7 +2546,7 @@ export class AntlrAnalyzer {
     const visited = new Set<string>();
 
     // Load main grammar
-    this.loadGrammarWithImports(normalizedPath, basePath, cache, visited);
+    this.loadGrammarWithImports(normalizedPath, basePath, cache, visited, libDirs, contents);
 
     // Validate new name
     const isLexer = /^[A-Z_]/.test(oldName);
@@ -1459,7 +2599,7 @@ export class AntlrAnalyzer {
 
     // Process each file
     for (const filePath of cache.keys()) {
-      const content = fs.readFileSync(filePath, 'utf-8');
+      const content = contents.get(filePath) ?? fs.readFileSync(filePath, 'utf-8');
 
       // Check if this file contains the rule (as definition or reference)
       const regex = new RegExp(`\\b${escapedOldName}\\b`, 'g');
@@ -1673,6 +2813,29 @@ export class AntlrAnalyzer {
     };
   }
 
+  /**
+   * Rule reference graph restricted to defined rules, in both directions
+   */
+  private static buildRuleGraph(rules: GrammarRule[]): {
+    dependencyGraph: Map<string, string[]>;
+    reverseGraph: Map<string, string[]>;
+  } {
+    const definedRuleNames = new Set(rules.map((r) => r.name));
+    const dependencyGraph = new Map<string, string[]>();
+    const reverseGraph = new Map<string, string[]>();
+    for (const r of rules) {
+      const refs = r.referencedRules.filter((ref) => definedRuleNames.has(ref));
+      dependencyGraph.set(r.name, refs);
+      for (const ref of refs) {
+        if (!reverseGraph.has(ref)) {
+          reverseGraph.set(ref, []);
+        }
+        reverseGraph.get(ref)!.push(r.name);
+      }
+    }
+    return { dependencyGraph, reverseGraph };
+  }
+
   /**
    * Analyze downstream and upstream impact of changing a rule.
    */
@@ -1717,18 +2880,7 @@ export class AntlrAnalyzer {
       .filter((r) => r.name !== ruleName && r.referencedRules.includes(ruleName))
       .map((r) => r.name);
 
-    const dependencyGraph = new Map<string, string[]>();
-    const reverseGraph = new Map<string, string[]>();
-    for (const r of analysis.rules) {
-      const refs = r.referencedRules.filter((ref) => definedRuleNames.has(ref));
-      dependencyGraph.set(r.name, refs);
-      for (const ref of refs) {
-        if (!reverseGraph.has(ref)) {
-          reverseGraph.set(ref, []);
-        }
-        reverseGraph.get(ref)!.push(r.name);
-      }
-    }
+    const { dependencyGraph, reverseGraph } = this.buildRuleGraph(analysis.rules);
 
     const collectTransitive = (graph: Map<string, string[]>, start: string): string[] => {
       const visited = new Set<string>();
@@ -1818,2338 +2970,3865 @@ export class AntlrAnalyzer {
   }
 
   /**
-   * Extract a fragment from a pattern
+   * Find the rules that can derive the empty string, the closures and optional
+   * blocks around something nullable, and left-recursive alternatives that a
+   * nullable element breaks. Check ids: nullable-rule, nullable-closure,
+   * nullable-optional and nullable-left-recursion.
    */
-  static extractFragment(
+  static analyzeNullability(
     grammarContent: string,
-    fragmentName: string,
-    pattern: string
-  ): { success: boolean; modified: string; message: string } {
-    // Validate fragment name
-    if (!/^[A-Z_][A-Z0-9_]*$/.test(fragmentName)) {
+    config?: ProjectConfig
+  ): {
+    nullableRules: Array<{
+      name: string;
+      type: 'lexer' | 'parser';
+      lineNumber: number;
+      alternative: number; // First alternative that derives the empty string
+      chain: string[]; // Rule names from this rule down to the one that is empty directly
+      derivation: string; // e.g. "stat ⇒ opt ⇒ ε (alternative 2 of opt is empty)"
+    }>;
+    emptyClosures: Array<{
+      ruleName: string;
+      lineNumber: number;
+      element: string;
+      kind: 'closure' | 'optional';
+      severity: CheckSeverity; // Closures loop forever on the empty match: error by default
+      reason: string;
+    }>;
+    nullableLeftRecursion: Array<{
+      ruleName: string;
+      alternative: number;
+      lineNumber: number;
+      kind: 'hidden' | 'empty-follow';
+      message: string;
+    }>;
+    summary: string;
+  } {
+    const analysis = this.analyze(grammarContent);
+    const witnesses = this.nullableWitnesses(analysis.rules);
+    const nullable = new Set(witnesses.keys());
+    const rulesByName = new Map(analysis.rules.map((r) => [r.name, r]));
+
+    const derive = (name: string): { chain: string[]; derivation: string } => {
+      const chain = [name];
+      let current = name;
+      for (;;) {
+        const next = witnesses.get(current)!.via.find((ref) => !chain.includes(ref));
+        if (!next) break;
+        chain.push(next);
+        current = next;
+      }
+      const witness = witnesses.get(current)!;
+      const alt = rulesByName.get(current)!.ast!.alternatives[witness.alternative - 1];
+      const how =
+        alt.elements.length === 0
+          ? 'is empty'
+          : witness.via.length > 0
+            ? `only needs ${witness.via.join(', ')}`
+            : 'has only optional elements, actions or predicates';
       return {
-        success: false,
-        modified: grammarContent,
-        message: `Invalid fragment name: '${fragmentName}'. Must be uppercase.`,
+        chain,
+        derivation: `${chain.join(' ⇒ ')} ⇒ ε (alternative ${witness.alternative} of ${current} ${how})`,
       };
-    }
+    };
 
-    const analysis = this.analyze(grammarContent);
+    let nullableRules = analysis.rules
+      .filter((r) => nullable.has(r.name))
+      .map((r) => ({
+        name: r.name,
+        type: r.type,
+        lineNumber: r.lineNumber,
+        alternative: witnesses.get(r.name)!.alternative,
+        ...derive(r.name),
+      }));
 
-    // Check if fragment already exists
-    if (analysis.rules.some((r) => r.name === fragmentName)) {
-      return {
-        success: false,
-        modified: grammarContent,
-        message: `Fragment '${fragmentName}' already exists.`,
-      };
-    }
+    let emptyClosures: Array<{
+      ruleName: string;
+      lineNumber: number;
+      element: string;
+      kind: 'closure' | 'optional';
+      severity: CheckSeverity;
+      reason: string;
+    }> = [];
+    let nullableLeftRecursion: Array<{
+      ruleName: string;
+      alternative: number;
+      lineNumber: number;
+      kind: 'hidden' | 'empty-follow';
+      message: string;
+    }> = [];
 
-    const lines = grammarContent.split('\n');
+    for (const rule of analysis.rules) {
+      if (!rule.ast) continue;
+      const isNullable = (e: GrammarElement) => this.isNullableElement(e, rule.type, nullable);
+
+      walkElements(rule.ast.alternatives, (element) => {
+        if (!element.suffix) return;
+        const base = { ...element, suffix: undefined } as GrammarElement;
+        if (!isNullable(base)) return;
+
+        let reason: string;
+        if (base.kind === 'ruleRef' || base.kind === 'tokenRef') {
+          reason = `${base.name} can match the empty string: ${derive(base.name).derivation}`;
+        } else if (base.kind === 'block') {
+          const empty = base.alternatives
+            .map((alt, index) => (alt.elements.every(isNullable) ? index + 1 : 0))
+            .filter((index) => index > 0);
+          reason = `alternative${empty.length > 1 ? 's' : ''} ${empty.join(', ')} of the block can match the empty string`;
+        } else {
+          reason = 'the element can match the empty string';
+        }
+        const kind = element.suffix.startsWith('?') ? 'optional' : 'closure';
+        emptyClosures.push({
+          ruleName: rule.name,
+          lineNumber: element.span.start.line,
+          element: sliceSpan(grammarContent, element.span),
+          kind,
+          severity: kind === 'closure' ? 'error' : 'warning',
+          reason,
+        });
+      });
 
-    // Find insertion point for fragment (before other lexer rules, or at end)
-    let insertIndex = lines.length;
-    for (let i = lines.length - 1; i >= 0; i--) {
-      const trimmed = lines[i].trim();
-      if (trimmed.startsWith('fragment') || /^[A-Z_][A-Z0-9_]*\s*:/.test(trimmed)) {
-        insertIndex = i + 1;
-        break;
-      }
+      if (rule.type !== 'parser') continue;
+      rule.ast.alternatives.forEach((alt, index) => {
+        const position = alt.elements.findIndex(
+          (e) => e.kind === 'ruleRef' && e.name === rule.name && !e.suffix
+        );
+        if (position < 0) return;
+        const prefix = alt.elements.slice(0, position);
+        if (!prefix.every(isNullable)) return;
+
+        const lineNumber = alt.span.start.line;
+        if (prefix.some((e) => e.kind !== 'action' && e.kind !== 'predicate')) {
+          nullableLeftRecursion.push({
+            ruleName: rule.name,
+            alternative: index + 1,
+            lineNumber,
+            kind: 'hidden',
+            message: `Alternative ${index + 1} of ${rule.name} is left-recursive behind a prefix that can match the empty string: ${prefix.map((e) => sliceSpan(grammarContent, e.span)).join(' ')}`,
+          });
+        } else if (alt.elements.slice(position + 1).every(isNullable)) {
+          nullableLeftRecursion.push({
+            ruleName: rule.name,
+            alternative: index + 1,
+            lineNumber,
+            kind: 'empty-follow',
+            message: `Alternative ${index + 1} of ${rule.name} is left-recursive and what follows ${rule.name} can match the empty string`,
+          });
+        }
+      });
     }
 
-    // Build fragment definition
-    const fragmentDef = `fragment ${fragmentName} : ${pattern};`;
-    lines.splice(insertIndex, 0, fragmentDef);
+    nullableRules = this.applyCheckPolicy(nullableRules, grammarContent, config, (r) => ({
+      check: 'nullable-rule',
+      lineNumber: r.lineNumber,
+    }));
+    emptyClosures = this.applyCheckPolicy(
+      emptyClosures,
+      grammarContent,
+      config,
+      (c) => ({ check: `nullable-${c.kind}`, lineNumber: c.lineNumber }),
+      (c, severity) => ({ ...c, severity })
+    );
+    nullableLeftRecursion = this.applyCheckPolicy(
+      nullableLeftRecursion,
+      grammarContent,
+      config,
+      (issue) => ({ check: 'nullable-left-recursion', lineNumber: issue.lineNumber })
+    );
+
+    const closures = emptyClosures.filter((c) => c.kind === 'closure').length;
+    const summary =
+      `${nullableRules.length} nullable rule(s), ${closures} closure(s) and ` +
+      `${emptyClosures.length - closures} optional block(s) around something nullable, ` +
+      `${nullableLeftRecursion.length} left-recursive alternative(s) affected by nullable elements.`;
+
+    return { nullableRules, emptyClosures, nullableLeftRecursion, summary };
+  }
 
+  /**
+   * FIRST and FOLLOW sets of every parser rule. Literals with a lexer rule of
+   * their own are reported by token name, `.` stands for any token and `EOF`
+   * follows rules nothing else references.
+   */
+  static computeFirstFollowSets(grammar: GrammarAnalysis): {
+    nullable: string[];
+    first: Record<string, string[]>;
+    follow: Record<string, string[]>;
+  } {
+    const sets = this.lookaheadSets(grammar);
+    const toRecord = (map: Map<string, Set<string>>) =>
+      Object.fromEntries(Array.from(map, ([name, tokens]) => [name, Array.from(tokens).sort()]));
     return {
-      success: true,
-      modified: lines.join('\n'),
-      message: `Created fragment '${fragmentName}' with pattern: ${pattern}`,
+      nullable: grammar.rules
+        .filter((r) => r.type === 'parser' && sets.nullable.has(r.name))
+        .map((r) => r.name),
+      first: toRecord(sets.first),
+      follow: toRecord(sets.follow),
     };
   }
 
   /**
-   * Export grammar as Markdown documentation
+   * LL(1) decision report: every rule with several alternatives, subrule,
+   * optional block and closure whose paths share a lookahead token. Such a
+   * decision needs more than one token of lookahead (or a predicate).
+   * Alternatives of directly left-recursive rules that start with the rule
+   * itself are left out, since ANTLR rewrites them. With `policy`, the check id
+   * decision-conflict follows the project config and the suppression comments
+   * of the main grammar.
    */
-  static exportAsMarkdown(grammarContent: string): string {
-    const analysis = this.analyze(grammarContent);
-    let markdown = `# Grammar: ${analysis.grammarName}\n\n`;
-
-    markdown += `**Type**: ${analysis.type}\n\n`;
-
-    if (analysis.imports.length > 0) {
-      markdown += `## Imports\n\n`;
-      for (const imp of analysis.imports) {
-        markdown += `- \`${imp}\`\n`;
+  static findDecisionConflicts(
+    grammar: GrammarAnalysis,
+    ruleName?: string,
+    policy?: { grammarContent: string; config?: ProjectConfig }
+  ): { decisions: number; conflicts: DecisionConflict[]; summary: string } {
+    const sets = this.lookaheadSets(grammar);
+    let conflicts: DecisionConflict[] = [];
+    let decisions = 0;
+
+    const decide = (
+      rule: GrammarRule,
+      kind: DecisionConflict['kind'],
+      text: string,
+      lineNumber: number,
+      paths: Array<{ label: string; lookahead: Set<string> }>
+    ) => {
+      decisions++;
+      const owners = new Map<string, string[]>();
+      for (const path of paths) {
+        for (const token of path.lookahead) {
+          owners.set(token, [...(owners.get(token) || []), path.label]);
+        }
       }
-      markdown += '\n';
-    }
-
-    if (Object.keys(analysis.options).length > 0) {
-      markdown += `## Options\n\n`;
-      markdown += '```\n';
-      for (const [key, value] of Object.entries(analysis.options)) {
-        markdown += `${key} = ${value};\n`;
+      // Any token (`.`) collides with every token of the other paths
+      const anyOwners = owners.get('.') || [];
+      const shared = Array.from(owners)
+        .map(([token, labels]) => ({
+          token,
+          paths: paths
+            .map((p) => p.label)
+            .filter((label) => labels.includes(label) || anyOwners.includes(label)),
+        }))
+        .filter((c) => c.paths.length > 1);
+      if (shared.length > 0) {
+        conflicts.push({
+          ruleName: rule.name,
+          lineNumber,
+          kind,
+          text,
+          paths: paths.map((p) => ({ label: p.label, lookahead: Array.from(p.lookahead).sort() })),
+          conflicts: shared,
+        });
       }
-      markdown += '```\n\n';
-    }
-
-    // Parser rules
-    const parserRules = analysis.rules.filter((r) => r.type === 'parser');
-    if (parserRules.length > 0) {
-      markdown += `## Parser Rules\n\n`;
-      for (const rule of parserRules) {
-        markdown += `### \`${rule.name}\`\n\n`;
-        markdown += `**Definition**:\n\`\`\`antlr\n${rule.definition}\n\`\`\`\n\n`;
+    };
 
-        if (rule.referencedRules.length > 0) {
-          markdown += `**References**: ${rule.referencedRules.map((r) => `\`${r}\``).join(', ')}\n\n`;
+    for (const rule of grammar.rules) {
+      if (rule.type !== 'parser' || !rule.ast || (ruleName && rule.name !== ruleName)) continue;
+      const ast = rule.ast;
+      const source = (span: SourceSpan) =>
+        rule.definition.slice(
+          span.start.offset - ast.span.start.offset,
+          span.end.offset - ast.span.start.offset
+        );
+      const follow = sets.follow.get(rule.name) || new Set<string>();
+      const lookahead = (elements: GrammarElement[], after: Set<string>) => {
+        const tokens = this.firstOfSequence(elements, sets);
+        if (elements.every((e) => this.isNullableElement(e, 'parser', sets.nullable))) {
+          after.forEach((token) => tokens.add(token));
         }
+        return tokens;
+      };
+
+      const primary = ast.alternatives
+        .map((alt, index) => ({ alt, label: `alt ${index + 1}` }))
+        .filter(({ alt }) => {
+          const first = alt.elements.find((e) => e.kind !== 'action' && e.kind !== 'predicate');
+          return !(first?.kind === 'ruleRef' && first.name === rule.name);
+        });
+      if (primary.length > 1) {
+        decide(
+          rule,
+          'alternatives',
+          rule.name,
+          rule.lineNumber,
+          primary.map(({ alt, label }) => ({ label, lookahead: lookahead(alt.elements, follow) }))
+        );
       }
-    }
 
-    // Lexer rules
-    const lexerRules = analysis.rules.filter((r) => r.type === 'lexer');
-    if (lexerRules.length > 0) {
-      markdown += `## Lexer Rules\n\n`;
-      for (const rule of lexerRules) {
-        markdown += `### \`${rule.name}\`\n\n`;
-        markdown += `**Pattern**:\n\`\`\`\n${rule.definition}\n\`\`\`\n\n`;
+      for (const alt of ast.alternatives) {
+        this.walkFollow(alt.elements, follow, sets, (element, inner, exit) => {
+          const nonGreedy = element.suffix?.length === 2 && element.suffix.endsWith('?');
+          if (nonGreedy) return;
+          const lineNumber = element.span.start.line;
+          if (element.suffix) {
+            const base = { ...element, suffix: undefined } as GrammarElement;
+            const enter =
+              base.kind === 'block'
+                ? base.alternatives.map((a, index) => ({
+                    label: `alt ${index + 1}`,
+                    lookahead: lookahead(a.elements, inner),
+                  }))
+                : [{ label: 'enter', lookahead: this.firstOfElement(base, sets) }];
+            decide(
+              rule,
+              element.suffix.startsWith('?') ? 'optional' : 'closure',
+              source(element.span),
+              lineNumber,
+              [...enter, { label: 'exit', lookahead: exit }]
+            );
+          } else if (element.kind === 'block' && element.alternatives.length > 1) {
+            decide(
+              rule,
+              'subrule',
+              source(element.span),
+              lineNumber,
+              element.alternatives.map((a, index) => ({
+                label: `alt ${index + 1}`,
+                lookahead: lookahead(a.elements, inner),
+              }))
+            );
+          }
+        });
       }
     }
 
-    if (analysis.issues.length > 0) {
-      markdown += `## Issues\n\n`;
-      for (const issue of analysis.issues) {
-        const line = issue.lineNumber ? ` (line ${issue.lineNumber})` : '';
-        markdown += `- **[${issue.type.toUpperCase()}]** ${issue.message}${line}\n`;
-      }
-      markdown += '\n';
+    if (policy) {
+      // Line numbers of imported rules belong to other files
+      const mainRules = new Set(grammar.ast?.rules.map((r) => r.name) || []);
+      conflicts = this.applyCheckPolicy(conflicts, policy.grammarContent, policy.config, (c) => ({
+        check: 'decision-conflict',
+        lineNumber: mainRules.has(c.ruleName) ? c.lineNumber : undefined,
+      }));
     }
 
-    return markdown;
+    const rules = new Set(conflicts.map((c) => c.ruleName)).size;
+    const summary =
+      `${conflicts.length} of ${decisions} decision(s) in ${rules} rule(s) ` +
+      `cannot be made with one token of lookahead.`;
+    return { decisions, conflicts, summary };
   }
 
   /**
-   * Merge two rules into one with alternatives
+   * Compute FIRST (fixpoint over the rule graph) and then FOLLOW (fixpoint
+   * over every rule reference) for the parser rules
    */
-  static mergeRules(
-    grammarContent: string,
-    rule1Name: string,
-    rule2Name: string,
-    newRuleName: string
-  ): { success: boolean; modified: string; message: string } {
-    const analysis = this.analyze(grammarContent);
-
-    const rule1 = analysis.rules.find((r) => r.name === rule1Name);
-    const rule2 = analysis.rules.find((r) => r.name === rule2Name);
+  private static lookaheadSets(grammar: GrammarAnalysis): LookaheadSets {
+    const parserRules = grammar.rules.filter((r) => r.type === 'parser' && r.ast);
+    const aliases = new Map<string, string>();
+    for (const rule of grammar.rules) {
+      const alternatives =
+        rule.type === 'lexer' && !rule.ast?.fragment ? rule.ast?.alternatives || [] : [];
+      const elements = alternatives.length === 1 ? alternatives[0].elements : [];
+      if (elements.length === 1 && elements[0].kind === 'literal') {
+        aliases.set(elements[0].value, rule.name);
+      }
+    }
+    const sets: LookaheadSets = {
+      first: new Map(parserRules.map((r) => [r.name, new Set<string>()])),
+      follow: new Map(parserRules.map((r) => [r.name, new Set<string>()])),
+      nullable: new Set(this.nullableWitnesses(grammar.rules).keys()),
+      aliases,
+    };
 
-    if (!rule1 || !rule2) {
-      return {
-        success: false,
-        modified: grammarContent,
-        message: `One or both rules not found (${rule1Name}, ${rule2Name}).`,
-      };
-    }
+    const addAll = (target: Set<string>, tokens: Iterable<string>) => {
+      const before = target.size;
+      for (const token of tokens) target.add(token);
+      return target.size > before;
+    };
 
-    if (rule1.type !== rule2.type) {
-      return {
-        success: false,
-        modified: grammarContent,
-        message: `Cannot merge rules of different types (${rule1.type} vs ${rule2.type}).`,
-      };
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const rule of parserRules) {
+        for (const alt of rule.ast!.alternatives) {
+          changed =
+            addAll(sets.first.get(rule.name)!, this.firstOfSequence(alt.elements, sets)) || changed;
+        }
+      }
     }
 
-    if (analysis.rules.some((r) => r.name === newRuleName)) {
-      return {
-        success: false,
-        modified: grammarContent,
-        message: `Rule '${newRuleName}' already exists.`,
-      };
+    const { reverseGraph } = this.buildRuleGraph(parserRules);
+    for (const rule of parserRules) {
+      if (!(reverseGraph.get(rule.name) || []).some((caller) => caller !== rule.name)) {
+        sets.follow.get(rule.name)!.add('EOF');
+      }
     }
-
-    const lines = grammarContent.split('\n');
-
-    // Extract rule bodies (without "ruleName :")
-    const body1 = rule1.definition.replace(/^[a-zA-Z_][a-zA-Z0-9_]*\s*:\s*/, '').replace(/;$/, '');
-    const body2 = rule2.definition.replace(/^[a-zA-Z_][a-zA-Z0-9_]*\s*:\s*/, '').replace(/;$/, '');
-
-    // Create merged rule
-    const mergedDef = `${newRuleName} : (${body1}) | (${body2});`;
-
-    // Find removal and insertion points
-    const startLines = [rule1.lineNumber - 1, rule2.lineNumber - 1].sort();
-    const startLine = startLines[0];
-
-    // Find end of both rules
-    let endLine = startLine;
-    let rulesToRemove = 0;
-    for (let i = startLine; i < lines.length && rulesToRemove < 2; i++) {
-      if (lines[i].includes(';')) {
-        endLine = i;
-        rulesToRemove++;
-        if (rulesToRemove < 2) {
-          for (let j = i + 1; j < lines.length; j++) {
-            if (/^[a-zA-Z_][a-zA-Z0-9_]*\s*:/.test(lines[j].trim())) {
-              i = j - 1;
-              break;
+    changed = true;
+    while (changed) {
+      changed = false;
+      for (const rule of parserRules) {
+        for (const alt of rule.ast!.alternatives) {
+          this.walkFollow(alt.elements, sets.follow.get(rule.name)!, sets, (element, inner) => {
+            const follow = element.kind === 'ruleRef' ? sets.follow.get(element.name) : undefined;
+            if (follow) {
+              changed = addAll(follow, inner) || changed;
             }
-          }
+          });
         }
       }
     }
 
-    // Remove old rules and insert merged rule
-    lines.splice(startLine, endLine - startLine + 1, mergedDef);
-
-    return {
-      success: true,
-      modified: lines.join('\n'),
-      message: `Merged '${rule1Name}' and '${rule2Name}' into '${newRuleName}'.`,
-    };
+    return sets;
   }
 
   /**
-   * Generate a summary of grammar structure
+   * Visit a sequence right to left with what can follow each element: `inner`
+   * follows the element's content (including another loop iteration), `exit`
+   * follows the element as a whole. Blocks are visited recursively.
    */
-  static generateSummary(grammarContent: string): string {
-    const analysis = this.analyze(grammarContent);
-    let summary = '';
+  private static walkFollow(
+    elements: GrammarElement[],
+    after: Set<string>,
+    sets: LookaheadSets,
+    visit: (element: GrammarElement, inner: Set<string>, exit: Set<string>) => void
+  ): void {
+    let current = new Set(after);
+    for (let i = elements.length - 1; i >= 0; i--) {
+      const element = elements[i];
+      const first = this.firstOfElement(element, sets);
+      const loops = element.suffix?.startsWith('*') || element.suffix?.startsWith('+');
+      const inner = loops ? new Set([...current, ...first]) : current;
+
+      visit(element, inner, current);
+      if (element.kind === 'block') {
+        for (const alt of element.alternatives) {
+          this.walkFollow(alt.elements, inner, sets, visit);
+        }
+      }
 
-    summary += `Grammar Summary: ${analysis.grammarName}\n`;
-    summary += `${'='.repeat(50)}\n\n`;
+      current = this.isNullableElement(element, 'parser', sets.nullable)
+        ? new Set([...first, ...current])
+        : first;
+    }
+  }
 
-    summary += `Type: ${analysis.type}\n`;
-    summary += `Total Rules: ${analysis.rules.length}\n`;
-    summary += `  - Parser Rules: ${analysis.rules.filter((r) => r.type === 'parser').length}\n`;
-    summary += `  - Lexer Rules: ${analysis.rules.filter((r) => r.type === 'lexer').length}\n\n`;
+  /**
+   * FIRST set of a sequence: element FIRST sets up to the first non-nullable element
+   */
+  private static firstOfSequence(elements: GrammarElement[], sets: LookaheadSets): Set<string> {
+    const tokens = new Set<string>();
+    for (const element of elements) {
+      this.firstOfElement(element, sets).forEach((token) => tokens.add(token));
+      if (!this.isNullableElement(element, 'parser', sets.nullable)) break;
+    }
+    return tokens;
+  }
 
-    if (analysis.imports.length > 0) {
-      summary += `Imports: ${analysis.imports.join(', ')}\n\n`;
+  /**
+   * FIRST set of one parser element (its suffix does not change it)
+   */
+  private static firstOfElement(element: GrammarElement, sets: LookaheadSets): Set<string> {
+    switch (element.kind) {
+      case 'tokenRef':
+        return new Set([element.name]);
+      case 'literal':
+        return new Set([sets.aliases.get(element.value) || element.value]);
+      case 'ruleRef':
+        return new Set(sets.first.get(element.name));
+      case 'block':
+        return new Set(
+          element.alternatives.flatMap((alt) => [...this.firstOfSequence(alt.elements, sets)])
+        );
+      case 'wildcard':
+      case 'not':
+        return new Set(['.']);
+      default:
+        return new Set();
     }
+  }
 
-    // Top referenced rules
-    const ruleDeps = analysis.rules
-      .map((r) => ({
-        name: r.name,
-        refCount: analysis.rules.filter((other) => other.referencedRules.includes(r.name)).length,
-      }))
-      .sort((a, b) => b.refCount - a.refCount)
-      .slice(0, 5);
+  /**
+   * Left-recursion cycles ANTLR rejects: rules that reach each other in leftmost
+   * position (through nullable prefixes and subrules too), and rules that reach
+   * themselves other than as the first element of an alternative. Each cycle
+   * lists its rules in grammar order and one path through them, e.g. a → b → a.
+   */
+  static findLeftRecursionCycles(
+    grammar: GrammarAnalysis
+  ): Array<{ rules: string[]; path: string[] }> {
+    const parserRules = grammar.rules.filter((r) => r.type === 'parser' && r.ast);
+    const nullable = new Set(this.nullableWitnesses(grammar.rules).keys());
+    const edges = new Map(
+      parserRules.map((r) => [
+        r.name,
+        this.leftCornerRefs(r, nullable).filter((ref) => parserRules.some((p) => p.name === ref)),
+      ])
+    );
 
-    if (ruleDeps.some((r) => r.refCount > 0)) {
-      summary += `Most Referenced Rules:\n`;
-      for (const dep of ruleDeps.filter((r) => r.refCount > 0)) {
-        summary += `  - ${dep.name}: ${dep.refCount} references\n`;
+    // Tarjan's strongly connected components
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const stack: string[] = [];
+    const components: string[][] = [];
+    const connect = (name: string) => {
+      index.set(name, index.size);
+      lowLink.set(name, index.get(name)!);
+      stack.push(name);
+      for (const next of edges.get(name) || []) {
+        if (!index.has(next)) {
+          connect(next);
+          lowLink.set(name, Math.min(lowLink.get(name)!, lowLink.get(next)!));
+        } else if (stack.includes(next)) {
+          lowLink.set(name, Math.min(lowLink.get(name)!, index.get(next)!));
+        }
       }
-      summary += '\n';
-    }
-
-    if (analysis.issues.length > 0) {
-      summary += `Issues: ${analysis.issues.length}\n`;
-      const errors = analysis.issues.filter((i) => i.type === 'error').length;
-      const warnings = analysis.issues.filter((i) => i.type === 'warning').length;
-      const infos = analysis.issues.filter((i) => i.type === 'info').length;
-      summary += `  - Errors: ${errors}\n`;
-      summary += `  - Warnings: ${warnings}\n`;
-      summary += `  - Info: ${infos}\n\n`;
-    }
+      if (lowLink.get(name) === index.get(name)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          component.push(member);
+        } while (member !== name);
+        components.push(component);
+      }
+    };
+    for (const rule of parserRules) {
+      if (!index.has(rule.name)) connect(rule.name);
+    }
+
+    const order = new Map(parserRules.map((r, i) => [r.name, i]));
+    return components
+      .filter((c) => c.length > 1 || edges.get(c[0])!.includes(c[0]))
+      .map((component) => {
+        const rules = component.sort((a, b) => order.get(a)! - order.get(b)!);
+        const members = new Set(rules);
+        // Shortest way from the first rule back to itself
+        const previous = new Map<string, string>();
+        const queue = [rules[0]];
+        while (queue.length > 0 && !previous.has(rules[0])) {
+          const current = queue.shift()!;
+          for (const next of edges.get(current)!) {
+            if (members.has(next) && !previous.has(next)) {
+              previous.set(next, current);
+              queue.push(next);
+            }
+          }
+        }
+        const path = [rules[0]];
+        for (let at = previous.get(rules[0])!; at !== rules[0]; at = previous.get(at)!) {
+          path.unshift(at);
+        }
+        path.unshift(rules[0]);
+        return { rules, path };
+      })
+      .sort((a, b) => order.get(a.rules[0])! - order.get(b.rules[0])!);
+  }
 
-    return summary;
+  /**
+   * Rules a rule can start with: leftmost references, past nullable elements and
+   * into subrules. Direct left recursion (`r : r ...`) is left out because ANTLR
+   * rewrites it.
+   */
+  private static leftCornerRefs(rule: GrammarRule, nullable: Set<string>): string[] {
+    const refs = new Set<string>();
+    const visit = (elements: GrammarElement[], topLevel: boolean) => {
+      for (const [position, element] of elements.entries()) {
+        if (element.kind === 'ruleRef') {
+          const direct =
+            topLevel &&
+            element.name === rule.name &&
+            !element.suffix &&
+            elements.slice(0, position).every((e) => e.kind === 'action' || e.kind === 'predicate');
+          if (!direct) refs.add(element.name);
+        } else if (element.kind === 'block') {
+          element.alternatives.forEach((alt) => visit(alt.elements, false));
+        }
+        if (!this.isNullableElement(element, 'parser', nullable)) return;
+      }
+    };
+    rule.ast?.alternatives.forEach((alt) => visit(alt.elements, true));
+    return Array.from(refs);
   }
 
   /**
-   * Add multiple lexer rules in bulk
+   * Rewrite a left-recursion cycle into direct left recursion (or iteration).
+   * The first rule of the cycle (or ruleName) gets the leading references to the
+   * other cycle rules and nullable prefixes in front of a cycle rule expanded
+   * until each alternative starts with the rule itself or with something
+   * outside the cycle: `a : b X ; b : a Y | Z ;` becomes `a : a Y X | Z X ;`.
+   * With 'iteration', the result is `a : Z X (Y X)* ;` instead.
    */
-  static addLexerRules(
+  static eliminateLeftRecursion(
     grammarContent: string,
-    rules: Array<{
-      name: string;
-      pattern: string;
-      options?: { channel?: string; skip?: boolean; fragment?: boolean };
-    }>
+    ruleName?: string,
+    strategy: 'direct' | 'iteration' = 'direct'
   ): {
     success: boolean;
     modified: string;
-    results: Array<{ name: string; success: boolean; message: string }>;
-    summary: string;
+    message: string;
+    cycles: string[][];
+    rewritten: string[];
   } {
-    let current = grammarContent;
-    const results: Array<{ name: string; success: boolean; message: string }> = [];
-    let successCount = 0;
-    let failCount = 0;
+    const analysis = this.analyze(grammarContent);
+    const cycles = this.findLeftRecursionCycles(analysis);
+    const fail = (message: string) => ({
+      success: false,
+      modified: grammarContent,
+      message,
+      cycles: cycles.map((c) => c.path),
+      rewritten: [] as string[],
+    });
 
-    // Add rules one by one, updating the grammar after each successful addition
-    for (const rule of rules) {
-      const result = this.addLexerRule(current, rule.name, rule.pattern, rule.options);
-      results.push({
-        name: rule.name,
-        success: result.success,
-        message: result.message,
-      });
+    let targets: Array<{ head: string; members: Set<string> }>;
+    if (ruleName) {
+      const rule = analysis.rules.find((r) => r.name === ruleName);
+      if (!rule || rule.type !== 'parser') {
+        return fail(`Parser rule '${ruleName}' not found.`);
+      }
+      const cycle = cycles.find((c) => c.rules.includes(ruleName));
+      const directlyRecursive = rule.ast!.alternatives.some(
+        (alt) => alt.elements[0]?.kind === 'ruleRef' && alt.elements[0].name === ruleName
+      );
+      if (!cycle && !(strategy === 'iteration' && directlyRecursive)) {
+        return fail(`Rule '${ruleName}' is not part of a left-recursion cycle.`);
+      }
+      targets = [{ head: ruleName, members: new Set(cycle?.rules || [ruleName]) }];
+    } else {
+      if (cycles.length === 0) {
+        return fail('No left-recursion cycles found.');
+      }
+      targets = cycles.map((c) => ({ head: c.rules[0], members: new Set(c.rules) }));
+    }
 
-      if (result.success) {
-        current = result.modified;
-        successCount++;
-      } else {
-        failCount++;
+    let modified = grammarContent;
+    const rewritten: string[] = [];
+    for (const target of targets) {
+      const result = this.rewriteLeftRecursion(modified, target.head, target.members, strategy);
+      if (!result.success) {
+        return fail(result.message);
       }
+      modified = result.modified;
+      rewritten.push(target.head);
     }
 
-    const summary = `Added ${successCount} lexer rule(s), ${failCount} failed.`;
+    const remaining = this.findLeftRecursionCycles(this.analyze(modified)).filter((c) =>
+      rewritten.some((name) => c.rules.includes(name))
+    );
+    if (remaining.length > 0) {
+      return fail(
+        `Rewriting left a cycle in place: ${remaining[0].path.join(' → ')}. Rewrite it by hand.`
+      );
+    }
+
+    const dropped = this.droppedActions(grammarContent, modified);
+    if (dropped.length > 0) {
+      return fail(
+        `Rewriting would lose ${dropped.length} action(s) (first at line ${dropped[0].lineNumber}).`
+      );
+    }
+
+    // Cycle rules the rewrite inlined everywhere are kept; say so rather than deleting them
+    const { reverseGraph } = this.buildRuleGraph(this.analyze(modified).rules);
+    const unused = targets
+      .flatMap((t) => Array.from(t.members))
+      .filter((name) => !rewritten.includes(name) && !reverseGraph.has(name));
+    const note = unused.length > 0 ? ` No longer referenced: ${unused.join(', ')}.` : '';
 
     return {
-      success: failCount === 0,
-      modified: current,
-      results,
-      summary,
+      success: true,
+      modified,
+      message: `Rewrote ${rewritten.map((r) => `'${r}'`).join(', ')} as ${strategy === 'direct' ? 'direct left recursion' : 'iteration'}.${note}`,
+      cycles: cycles.map((c) => c.path),
+      rewritten,
     };
   }
 
   /**
-   * Add multiple parser rules in bulk
+   * Expand the leading cycle references of one rule (see eliminateLeftRecursion)
    */
-  static addParserRules(
+  private static rewriteLeftRecursion(
     grammarContent: string,
-    rules: Array<{
+    head: string,
+    members: Set<string>,
+    strategy: 'direct' | 'iteration'
+  ): { success: boolean; modified: string; message: string } {
+    const analysis = this.analyze(grammarContent);
+    const rulesByName = new Map(analysis.rules.map((r) => [r.name, r]));
+    const nullable = new Set(this.nullableWitnesses(analysis.rules).keys());
+    const headRule = rulesByName.get(head)!;
+    const text = (element: GrammarElement) => sliceSpan(grammarContent, element.span);
+    const fail = (message: string) => ({ success: false, modified: grammarContent, message });
+
+    if (headRule.alternativeLabels && headRule.alternativeLabels.length > 0) {
+      return fail(`Rule '${head}' has labeled alternatives; remove the labels first.`);
+    }
+
+    // An alternative is a list of element texts plus the element each text came from
+    type Item = { element: GrammarElement; text: string };
+    const startsCycle = (item?: Item) =>
+      item?.element.kind === 'ruleRef' &&
+      !item.element.suffix &&
+      (members.has(item.element.name) || item.element.name === head);
+    let problem: string | undefined;
+    const expand = (alt: Item[], expanding: Set<string>): Item[][] => {
+      const [first, ...rest] = alt;
+      if (!first || problem) return [alt];
+      const element = first.element;
+
+      // `x? a ...` hides `a ...` behind an optional prefix
+      if (element.suffix === '?' && startsCycle(rest[0])) {
+        const required = {
+          element: { ...element, suffix: undefined },
+          text: first.text.slice(0, -1).trimEnd(),
+        };
+        return [...expand(rest, expanding), ...expand([required as Item, ...rest], expanding)];
+      }
+      if (element.kind !== 'ruleRef' || element.suffix || element.name === head) return [alt];
+      const inCycle = members.has(element.name);
+      const hidesCycle = nullable.has(element.name) && startsCycle(rest[0]);
+      if (!inCycle && !hidesCycle) return [alt];
+
+      const rule = rulesByName.get(element.name);
+      if (expanding.has(element.name) || !rule?.ast) {
+        problem = `Cannot expand '${element.name}': it is left-recursive without going through '${head}'.`;
+        return [alt];
+      }
+      const signature = this.formatRuleSignature(this.ruleSignature(rule.ast));
+      if (element.label || element.args || signature || rule.ast.exceptionHandlers.length > 0) {
+        problem = `Cannot expand '${element.name}' into '${head}': labels, arguments, signatures and exception handlers are not supported.`;
+        return [alt];
+      }
+      const nested = new Set([...expanding, element.name]);
+      return rule.ast.alternatives.flatMap((inner) =>
+        expand([...inner.elements.map((e) => ({ element: e, text: text(e) })), ...rest], nested)
+      );
+    };
+
+    const alternatives = headRule.ast!.alternatives.flatMap((alt) =>
+      expand(
+        alt.elements.map((e) => ({ element: e, text: text(e) })),
+        new Set()
+      )
+    );
+    if (problem) return fail(problem);
+
+    const isRecursive = (alt: Item[]) =>
+      alt[0]?.element.kind === 'ruleRef' && alt[0].element.name === head && !alt[0].element.suffix;
+    const recursive = alternatives.filter(isRecursive);
+    const base = alternatives.filter((alt) => !isRecursive(alt));
+    if (base.length === 0) {
+      return fail(`Rule '${head}' would have no alternative that is not left-recursive.`);
+    }
+    const join = (alt: Item[]) => alt.map((item) => item.text).join(' ');
+
+    let newAlternatives: string[];
+    if (strategy === 'iteration') {
+      if (recursive.some((alt) => alt.length === 1)) {
+        return fail(`Rule '${head}' has an alternative that is only '${head}'.`);
+      }
+      const group = (alts: string[]) => (alts.length === 1 ? alts[0] : `(${alts.join(' | ')})`);
+      const loop = recursive.map((alt) => join(alt.slice(1)));
+      newAlternatives = [
+        loop.length > 0
+          ? `${group(base.map(join))} (${loop.join(' | ')})*`
+          : base.map(join).join(' | '),
+      ];
+    } else {
+      newAlternatives = [...recursive, ...base].map(join);
+    }
+
+    // Replace everything from ':' to ';' and keep the signature and any exception handlers
+    const ast = headRule.ast!;
+    const semicolon = grammarContent.indexOf(';', ast.bodySpan.end.offset);
+    const multiLine = sliceSpan(grammarContent, ast.span).includes('\n');
+    const body = multiLine
+      ? `\n  : ${newAlternatives.join('\n  | ')}\n  ;`
+      : ` : ${newAlternatives.join(' | ')} ;`;
+    const modified =
+      grammarContent.slice(0, ast.colonSpan.start.offset).trimEnd() +
+      body +
+      grammarContent.slice(semicolon + 1);
+
+    return { success: true, modified, message: `Rewrote '${head}'.` };
+  }
+
+  /**
+   * Rules, tokens, fragments and modes nothing live can reach. Parser rules are
+   * followed from the start rules (default: parser rules no other rule references),
+   * tokens are live when a reachable parser rule uses them or they shape the token
+   * stream (skip, channel, more, mode changes), fragments when a live lexer rule
+   * uses them, and modes when a live rule enters them. Works on merged analyses
+   * too; items outside the main file are flagged `imported`. With `policy`, the
+   * check ids dead-rule, dead-token, dead-fragment and dead-mode follow the
+   * project config and the suppression comments of the main grammar.
+   */
+  static findDeadCode(
+    grammar: GrammarAnalysis,
+    startRules?: string[],
+    policy?: { grammarContent: string; config?: ProjectConfig }
+  ): {
+    startRules: string[];
+    inferredStart: boolean;
+    dead: Array<{
       name: string;
-      definition: string;
-      options?: { returnType?: string };
-    }>
-  ): {
-    success: boolean;
-    modified: string;
-    results: Array<{ name: string; success: boolean; message: string }>;
+      kind: 'rule' | 'token' | 'fragment' | 'mode';
+      lineNumber: number;
+      imported: boolean;
+      reason: string;
+    }>;
     summary: string;
   } {
-    let current = grammarContent;
-    const results: Array<{ name: string; success: boolean; message: string }> = [];
-    let successCount = 0;
-    let failCount = 0;
-
-    // Add rules one by one, updating the grammar after each successful addition
-    for (const rule of rules) {
-      const result = this.addParserRule(current, rule.name, rule.definition, rule.options);
-      results.push({
-        name: rule.name,
-        success: result.success,
-        message: result.message,
+    const parserRules = grammar.rules.filter((r) => r.type === 'parser' && r.ast);
+    const lexerRules = grammar.rules.filter((r) => r.type === 'lexer' && r.ast);
+    const mainRules = new Set(grammar.ast?.rules.map((r) => r.name) || []);
+    const mainModes = new Set(grammar.ast?.modes.map((m) => m.name) || []);
+    const modeOf = (rule: GrammarRule) => rule.mode || 'DEFAULT_MODE';
+    const refsOf = (rule: GrammarRule) => {
+      const refs = new Set<string>();
+      walkElements(rule.ast!.alternatives, (element) => {
+        if (element.kind === 'ruleRef' || element.kind === 'tokenRef') refs.add(element.name);
+        if (element.kind === 'literal') refs.add(element.value);
       });
+      return refs;
+    };
 
-      if (result.success) {
-        current = result.modified;
-        successCount++;
-      } else {
-        failCount++;
+    // Parser rules reachable from the start rules
+    const inferredStart = !startRules || startRules.length === 0;
+    let starts = startRules || [];
+    if (inferredStart) {
+      starts = parserRules
+        .filter(
+          (rule) => !parserRules.some((other) => other !== rule && refsOf(other).has(rule.name))
+        )
+        .map((r) => r.name);
+      if (starts.length === 0 && parserRules.length > 0) starts = [parserRules[0].name];
+    }
+    const parserByName = new Map(parserRules.map((r) => [r.name, r]));
+    const liveParser = new Set<string>();
+    const used = new Set<string>(); // Tokens and literals the live parser rules use
+    const queue = starts.filter((name) => parserByName.has(name));
+    while (queue.length > 0) {
+      const name = queue.shift()!;
+      if (liveParser.has(name)) continue;
+      liveParser.add(name);
+      for (const ref of refsOf(parserByName.get(name)!)) {
+        if (parserByName.has(ref)) queue.push(ref);
+        else used.add(ref);
       }
     }
 
-    const summary = `Added ${successCount} parser rule(s), ${failCount} failed.`;
-
-    return {
-      success: failCount === 0,
-      modified: current,
-      results,
-      summary,
+    // Lexer rules and modes, to a fixpoint: live rules enter modes, live modes hold live rules
+    const usedByParser = (rule: GrammarRule) => {
+      if (parserRules.length === 0 || used.has(rule.name)) return true;
+      const alternatives = rule.ast!.alternatives;
+      const only = alternatives.length === 1 ? alternatives[0].elements : [];
+      return only.length === 1 && only[0].kind === 'literal' && used.has(only[0].value);
     };
-  }
+    const shapesStream = (rule: GrammarRule) =>
+      rule.ast!.alternatives.some((alt) =>
+        alt.commands.some((c) =>
+          c.name === 'type' ? c.argument !== undefined && used.has(c.argument) : true
+        )
+      );
+    const liveModes = new Set(['DEFAULT_MODE']);
+    const liveLexer = new Set<string>();
+    let changed = true;
+    while (changed) {
+      changed = false;
+      const roots = lexerRules.filter(
+        (r) => !r.ast!.fragment && liveModes.has(modeOf(r)) && (usedByParser(r) || shapesStream(r))
+      );
+      const pending = roots.map((r) => r.name);
+      while (pending.length > 0) {
+        const name = pending.pop()!;
+        const rule = lexerRules.find((r) => r.name === name);
+        if (!rule || liveLexer.has(name)) continue;
+        liveLexer.add(name);
+        changed = true;
+        pending.push(...refsOf(rule));
+        for (const command of rule.ast!.alternatives.flatMap((alt) => alt.commands)) {
+          if ((command.name === 'mode' || command.name === 'pushMode') && command.argument) {
+            liveModes.add(command.argument);
+          }
+        }
+      }
+    }
 
-  /**
-   * Add multiple rules (mixed parser and lexer) in bulk
-   */
-  static addRules(
-    grammarContent: string,
-    rules: Array<{
-      type: 'parser' | 'lexer';
+    let dead: Array<{
       name: string;
-      pattern?: string;
-      definition?: string;
-      options?: any;
-    }>
-  ): {
-    success: boolean;
-    modified: string;
-    results: Array<{ name: string; type: string; success: boolean; message: string }>;
-    summary: string;
-  } {
-    let current = grammarContent;
-    const results: Array<{ name: string; type: string; success: boolean; message: string }> = [];
-    let successCount = 0;
-    let failCount = 0;
-
-    // Add rules one by one
-    for (const rule of rules) {
-      let result: any;
-      if (rule.type === 'lexer') {
-        result = this.addLexerRule(current, rule.name, rule.pattern || '', rule.options);
+      kind: 'rule' | 'token' | 'fragment' | 'mode';
+      lineNumber: number;
+      imported: boolean;
+      reason: string;
+    }> = [];
+    const startList = starts.join(', ') || '(no parser rules)';
+    for (const rule of parserRules) {
+      if (!liveParser.has(rule.name)) {
+        dead.push({
+          name: rule.name,
+          kind: 'rule',
+          lineNumber: rule.lineNumber,
+          imported: !mainRules.has(rule.name),
+          reason: `not reachable from ${startList}`,
+        });
+      }
+    }
+    for (const rule of lexerRules) {
+      if (liveLexer.has(rule.name)) continue;
+      const fragment = rule.ast!.fragment;
+      const usedBy = lexerRules.filter((other) => other !== rule && refsOf(other).has(rule.name));
+      let reason: string;
+      if (!liveModes.has(modeOf(rule))) {
+        reason = `in mode ${modeOf(rule)}, which nothing enters`;
+      } else if (usedBy.length > 0) {
+        reason = `only used by dead rules (${usedBy.map((r) => r.name).join(', ')})`;
       } else {
-        result = this.addParserRule(current, rule.name, rule.definition || '', rule.options);
+        reason = fragment ? 'never used' : 'never used by a reachable parser rule';
       }
-
-      results.push({
+      dead.push({
         name: rule.name,
-        type: rule.type,
-        success: result.success,
-        message: result.message,
+        kind: fragment ? 'fragment' : 'token',
+        lineNumber: rule.lineNumber,
+        imported: !mainRules.has(rule.name),
+        reason,
       });
-
-      if (result.success) {
-        current = result.modified;
-        successCount++;
-      } else {
-        failCount++;
+    }
+    for (const token of grammar.tokens) {
+      if (
+        token.declared &&
+        !grammar.rules.some((r) => r.name === token.name) &&
+        parserRules.length > 0 &&
+        !used.has(token.name)
+      ) {
+        dead.push({
+          name: token.name,
+          kind: 'token',
+          lineNumber: token.lineNumber,
+          imported: !(grammar.ast?.tokens.some((t) => t.name === token.name) ?? false),
+          reason: 'declared in tokens {} but never used by a reachable parser rule',
+        });
+      }
+    }
+    for (const mode of grammar.modes) {
+      if (mode.name !== 'DEFAULT_MODE' && !liveModes.has(mode.name)) {
+        dead.push({
+          name: mode.name,
+          kind: 'mode',
+          lineNumber: mode.lineNumber,
+          imported: !mainModes.has(mode.name),
+          reason: 'no live rule switches or pushes into it',
+        });
       }
     }
+    dead.sort((a, b) => Number(a.imported) - Number(b.imported) || a.lineNumber - b.lineNumber);
+    if (policy) {
+      dead = this.applyCheckPolicy(dead, policy.grammarContent, policy.config, (d) => ({
+        check: `dead-${d.kind}`,
+        lineNumber: d.imported ? undefined : d.lineNumber,
+      }));
+    }
 
-    const summary = `Added ${successCount} rule(s), ${failCount} failed.`;
+    const count = (kind: string) => dead.filter((d) => d.kind === kind).length;
+    const summary =
+      dead.length === 0
+        ? `No dead code (start: ${startList}).`
+        : `${dead.length} dead item(s) (start: ${startList}): ${count('rule')} rule(s), ${count('token')} token(s), ${count('fragment')} fragment(s), ${count('mode')} mode(s).`;
 
-    return {
-      success: failCount === 0,
-      modified: current,
-      results,
-      summary,
-    };
+    return { startRules: starts, inferredStart, dead, summary };
   }
 
   /**
-   * Preview how input text would be tokenized by lexer rules
+   * Delete what findDeadCode reports for the main file in one edit: rules, tokens
+   * and fragments, tokens {} entries, and `mode X;` headers of dead modes
    */
+  static removeDeadCode(
+    grammarContent: string,
+    dead: Array<{ name: string; kind: 'rule' | 'token' | 'fragment' | 'mode'; imported: boolean }>
+  ): { success: boolean; modified: string; message: string; removed: string[] } {
+    let modified = grammarContent;
+    const removed: string[] = [];
+    const local = dead.filter((d) => !d.imported);
+    const declared = new Set(this.analyze(grammarContent).ast?.tokens.map((t) => t.name) || []);
+
+    for (const item of local.filter((d) => d.kind !== 'mode')) {
+      const result =
+        item.kind === 'token' && declared.has(item.name)
+          ? this.removeDeclarations(modified, 'tokens', [item.name])
+          : this.removeRule(modified, item.name);
+      if (!result.success) {
+        return { success: false, modified: grammarContent, message: result.message, removed: [] };
+      }
+      modified = result.modified;
+      removed.push(item.name);
+    }
+
+    for (const item of local.filter((d) => d.kind === 'mode')) {
+      const mode = this.analyze(modified).ast?.modes.find((m) => m.name === item.name);
+      if (!mode) continue;
+      const lineStart = modified.lastIndexOf('\n', mode.span.start.offset - 1) + 1;
+      const lineEnd = modified.indexOf('\n', mode.span.end.offset);
+      const own =
+        modified.slice(lineStart, mode.span.start.offset).trim() === '' &&
+        modified.slice(mode.span.end.offset, lineEnd === -1 ? undefined : lineEnd).trim() === '';
+      modified = own
+        ? modified.slice(0, lineStart) + (lineEnd === -1 ? '' : modified.slice(lineEnd + 1))
+        : modified.slice(0, mode.span.start.offset) + modified.slice(mode.span.end.offset);
+      removed.push(`mode ${item.name}`);
+    }
+
+    const skipped = dead.length - local.length;
+    const note = skipped > 0 ? ` ${skipped} item(s) in imported grammars were left alone.` : '';
+    return {
+      success: true,
+      modified,
+      message:
+        removed.length > 0 ? `Removed ${removed.join(', ')}.${note}` : `Nothing to remove.${note}`,
+      removed,
+    };
+  }
+
   /**
-   * Detect unsupported features in grammar
+   * Extract a fragment from a pattern
    */
-  private static detectUnsupportedFeatures(grammarContent: string): {
-    hasLexerModes: boolean;
-    hasSemanticPredicates: boolean;
-    hasActions: boolean;
-    warnings: string[];
-  } {
-    const warnings: string[] = [];
-    let hasLexerModes = false;
-    let hasSemanticPredicates = false;
-    let hasActions = false;
-
-    // Check for lexer modes
-    if (/\b(mode|pushMode|popMode)\b/.test(grammarContent)) {
-      hasLexerModes = true;
-      // Note: Lexer modes are now supported - use analyze-lexer-modes tool for details
+  static extractFragment(
+    grammarContent: string,
+    fragmentName: string,
+    pattern: string
+  ): { success: boolean; modified: string; message: string } {
+    // Validate fragment name
+    if (!/^[A-Z_][A-Z0-9_]*$/.test(fragmentName)) {
+      return {
+        success: false,
+        modified: grammarContent,
+        message: `Invalid fragment name: '${fragmentName}'. Must be uppercase.`,
+      };
     }
 
-    // Check for semantic predicates
-    if (/\{[^}]*\?[^}]*\}/.test(grammarContent)) {
-      hasSemanticPredicates = true;
-      warnings.push('⚠️  Grammar uses semantic predicates {...?} - these cannot be evaluated');
+    const analysis = this.analyze(grammarContent);
+
+    // Check if fragment already exists
+    if (analysis.rules.some((r) => r.name === fragmentName)) {
+      return {
+        success: false,
+        modified: grammarContent,
+        message: `Fragment '${fragmentName}' already exists.`,
+      };
     }
 
-    // Check for actions
-    if (/\{[^}?]*\}/.test(grammarContent) && !hasSemanticPredicates) {
-      hasActions = true;
-      warnings.push('⚠️  Grammar uses actions {...} - these cannot be executed');
+    const lines = grammarContent.split('\n');
+
+    // Find insertion point for fragment (before other lexer rules, or at end)
+    let insertIndex = lines.length;
+    for (let i = lines.length - 1; i >= 0; i--) {
+      const trimmed = lines[i].trim();
+      if (trimmed.startsWith('fragment') || /^[A-Z_][A-Z0-9_]*\s*:/.test(trimmed)) {
+        insertIndex = i + 1;
+        break;
+      }
     }
 
-    return { hasLexerModes, hasSemanticPredicates, hasActions, warnings };
+    // Build fragment definition
+    const fragmentDef = `fragment ${fragmentName} : ${pattern};`;
+    lines.splice(insertIndex, 0, fragmentDef);
+
+    return {
+      success: true,
+      modified: lines.join('\n'),
+      message: `Created fragment '${fragmentName}' with pattern: ${pattern}`,
+    };
   }
 
   /**
-   * Analyze lexer modes structure in a grammar
-   * Returns detailed information about modes, their rules, and entry/exit points
+   * Export grammar as Markdown documentation
    */
-  static analyzeLexerModes(grammarContent: string): {
-    modes: LexerMode[];
-    entryPoints: Array<{ mode: string; fromRule: string; action: string }>;
-    exitPoints: Array<{ mode: string; fromRule: string; action: string }>;
-    issues: GrammarIssue[];
-  } {
+  static exportAsMarkdown(grammarContent: string): string {
     const analysis = this.analyze(grammarContent);
-    const issues: GrammarIssue[] = [];
-    const entryPoints: Array<{ mode: string; fromRule: string; action: string }> = [];
-    const exitPoints: Array<{ mode: string; fromRule: string; action: string }> = [];
-
-    // Find all pushMode and popMode actions
-    for (const rule of analysis.rules) {
-      if (rule.type === 'lexer') {
-        // Find pushMode actions (entry points to other modes)
-        const pushMatches = rule.definition.matchAll(
-          /->\s*pushMode\s*\(\s*([A-Za-z_][A-Za-z0-9_]*)\s*\)/g
-        );
-        for (const match of pushMatches) {
-          entryPoints.push({
-            mode: match[1],
-            fromRule: rule.name,
-            action: `pushMode(${match[1]})`,
-          });
-        }
+    let markdown = `# Grammar: ${analysis.grammarName}\n\n`;
 
-        // Find popMode actions (exit points from current mode)
-        if (/->\s*popMode\b/.test(rule.definition)) {
-          exitPoints.push({
-            mode: rule.mode || 'DEFAULT_MODE',
-            fromRule: rule.name,
-            action: 'popMode',
-          });
-        }
+    markdown += `**Type**: ${analysis.type}\n\n`;
 
-        // Find mode() actions (direct mode switching)
-        // Handle both: -> mode(X) and -> type(Y), mode(X)
-        const modeMatches = rule.definition.matchAll(/mode\s*\(\s*([A-Za-z_][A-Za-z0-9_]*)\s*\)/g);
-        for (const match of modeMatches) {
-          entryPoints.push({
-            mode: match[1],
-            fromRule: rule.name,
-            action: `mode(${match[1]})`,
-          });
-        }
+    if (analysis.imports.length > 0) {
+      markdown += `## Imports\n\n`;
+      for (const imp of analysis.imports) {
+        markdown += `- \`${imp}\`\n`;
       }
+      markdown += '\n';
     }
 
-    // Check for issues
-    const definedModes = new Set(analysis.modes.map((m) => m.name));
-
-    // Check for pushMode to undefined modes
-    for (const entry of entryPoints) {
-      if (!definedModes.has(entry.mode)) {
-        issues.push({
-          type: 'error',
-          message: `Rule '${entry.fromRule}' uses ${entry.action} but mode '${entry.mode}' is not defined`,
-          ruleName: entry.fromRule,
-        });
+    if (Object.keys(analysis.options).length > 0) {
+      markdown += `## Options\n\n`;
+      markdown += '```\n';
+      for (const [key, value] of Object.entries(analysis.options)) {
+        markdown += `${key} = ${value};\n`;
       }
+      markdown += '```\n\n';
     }
 
-    // Check for modes with no entry points
-    for (const mode of analysis.modes) {
-      if (mode.name !== 'DEFAULT_MODE') {
-        const hasEntry = entryPoints.some((e) => e.mode === mode.name);
-        if (!hasEntry) {
-          issues.push({
-            type: 'warning',
-            message: `Mode '${mode.name}' has no entry points (no pushMode targeting it)`,
-            lineNumber: mode.lineNumber,
-          });
-        }
-      }
-    }
-
-    // Check for popMode in DEFAULT_MODE
-    for (const exit of exitPoints) {
-      if (exit.mode === 'DEFAULT_MODE') {
-        issues.push({
-          type: 'warning',
-          message: `Rule '${exit.fromRule}' uses popMode in DEFAULT_MODE (mode stack may be empty)`,
-          ruleName: exit.fromRule,
-        });
-      }
-    }
-
-    return {
-      modes: analysis.modes,
-      entryPoints,
-      exitPoints,
-      issues,
-    };
-  }
-
-  /**
-   * Analyze mode transitions and detect issues
-   * Returns transition graph and potential problems
-   */
-  static analyzeModeTransitions(grammarContent: string): {
-    transitions: Array<{ from: string; to: string; via: string; rule: string }>;
-    issues: GrammarIssue[];
-    suggestions: string[];
-  } {
-    const modesAnalysis = this.analyzeLexerModes(grammarContent);
-    const transitions: Array<{ from: string; to: string; via: string; rule: string }> = [];
-    const issues: GrammarIssue[] = [...modesAnalysis.issues];
-    const suggestions: string[] = [];
-
-    // Build transition graph
-    for (const entry of modesAnalysis.entryPoints) {
-      // Find which mode the source rule belongs to
-      const analysis = this.analyze(grammarContent);
-      const rule = analysis.rules.find((r) => r.name === entry.fromRule);
-      const fromMode = rule?.mode || 'DEFAULT_MODE';
-
-      transitions.push({
-        from: fromMode,
-        to: entry.mode,
-        via: entry.action,
-        rule: entry.fromRule,
-      });
-    }
-
-    // Detect potential circular mode transitions
-    const visited = new Set<string>();
-    const recursionStack = new Set<string>();
-
-    function hasCycle(mode: string, transitions: Array<{ from: string; to: string }>): boolean {
-      visited.add(mode);
-      recursionStack.add(mode);
+    // Parser rules
+    const parserRules = analysis.rules.filter((r) => r.type === 'parser');
+    if (parserRules.length > 0) {
+      markdown += `## Parser Rules\n\n`;
+      for (const rule of parserRules) {
+        markdown += `### \`${rule.name}\`\n\n`;
+        markdown += `**Definition**:\n\`\`\`antlr\n${rule.definition}\n\`\`\`\n\n`;
 
-      const outgoing = transitions.filter((t) => t.from === mode);
-      for (const t of outgoing) {
-        if (!visited.has(t.to)) {
-          if (hasCycle(t.to, transitions)) return true;
-        } else if (recursionStack.has(t.to)) {
-          return true;
+        if (rule.referencedRules.length > 0) {
+          markdown += `**References**: ${rule.referencedRules.map((r) => `\`${r}\``).join(', ')}\n\n`;
         }
       }
-
-      recursionStack.delete(mode);
-      return false;
     }
 
-    // Check for cycles starting from each mode
-    const allModes = new Set(transitions.map((t) => t.from));
-    for (const mode of allModes) {
-      if (!visited.has(mode)) {
-        if (hasCycle(mode, transitions)) {
-          issues.push({
-            type: 'warning',
-            message:
-              'Potential circular mode transitions detected - ensure popMode is used correctly',
-          });
-          break;
-        }
+    // Lexer rules
+    const lexerRules = analysis.rules.filter((r) => r.type === 'lexer');
+    if (lexerRules.length > 0) {
+      markdown += `## Lexer Rules\n\n`;
+      for (const rule of lexerRules) {
+        markdown += `### \`${rule.name}\`\n\n`;
+        markdown += `**Pattern**:\n\`\`\`\n${rule.definition}\n\`\`\`\n\n`;
       }
     }
 
-    // Generate suggestions
-    for (const mode of modesAnalysis.modes) {
-      if (mode.name !== 'DEFAULT_MODE' && mode.rules.length === 0) {
-        suggestions.push(`Mode '${mode.name}' is empty - consider removing it or adding rules`);
+    if (analysis.issues.length > 0) {
+      markdown += `## Issues\n\n`;
+      for (const issue of analysis.issues) {
+        const line = issue.lineNumber ? ` (line ${issue.lineNumber})` : '';
+        markdown += `- **[${issue.type.toUpperCase()}]** ${issue.message}${line}\n`;
       }
+      markdown += '\n';
     }
 
-    // Check for balanced push/pop in each mode
-    const modePushCount = new Map<string, number>();
-    const modePopCount = new Map<string, number>();
-
-    for (const entry of modesAnalysis.entryPoints) {
-      modePushCount.set(entry.mode, (modePushCount.get(entry.mode) || 0) + 1);
-    }
-
-    for (const exit of modesAnalysis.exitPoints) {
-      modePopCount.set(exit.mode, (modePopCount.get(exit.mode) || 0) + 1);
-    }
-
-    return {
-      transitions,
-      issues,
-      suggestions,
-    };
+    return markdown;
   }
 
   /**
-   * Add a new lexer mode declaration to a grammar
+   * Merge two rules into one with alternatives
    */
-  static addLexerMode(
+  static mergeRules(
     grammarContent: string,
-    modeName: string,
-    insertAfter?: string
-  ): { success: boolean; grammar: string; message: string } {
+    rule1Name: string,
+    rule2Name: string,
+    newRuleName: string
+  ): { success: boolean; modified: string; message: string } {
     const analysis = this.analyze(grammarContent);
 
-    // Validate mode name
-    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(modeName)) {
+    const rule1 = analysis.rules.find((r) => r.name === rule1Name);
+    const rule2 = analysis.rules.find((r) => r.name === rule2Name);
+
+    if (!rule1 || !rule2) {
       return {
         success: false,
-        grammar: grammarContent,
-        message: `Invalid mode name '${modeName}'. Mode names must start with a letter or underscore and contain only alphanumeric characters.`,
+        modified: grammarContent,
+        message: `One or both rules not found (${rule1Name}, ${rule2Name}).`,
       };
     }
 
-    // Check if mode already exists
-    if (analysis.modes.find((m) => m.name === modeName)) {
+    if (rule1.type !== rule2.type) {
       return {
         success: false,
-        grammar: grammarContent,
-        message: `Mode '${modeName}' already exists.`,
+        modified: grammarContent,
+        message: `Cannot merge rules of different types (${rule1.type} vs ${rule2.type}).`,
       };
     }
 
-    const lines = grammarContent.split('\n');
-    let insertLine = lines.length - 1; // Default: end of file (before last line if it's empty)
-
-    // Find insertion point
-    if (insertAfter) {
-      // Find the rule to insert after
-      const targetRule = analysis.rules.find((r) => r.name === insertAfter);
-      if (targetRule) {
-        insertLine = targetRule.lineNumber; // 1-based, will be converted to 0-based
-      } else {
-        return {
-          success: false,
-          grammar: grammarContent,
-          message: `Rule '${insertAfter}' not found for insert_after positioning.`,
-        };
-      }
-    } else {
-      // Find the last lexer rule
-      const lexerRules = analysis.rules.filter((r) => r.type === 'lexer');
-      if (lexerRules.length > 0) {
-        const lastLexerRule = lexerRules[lexerRules.length - 1];
-        // Find the end of this rule
-        insertLine = this.findRuleEndLine(grammarContent, lastLexerRule.lineNumber);
-      }
+    if (analysis.rules.some((r) => r.name === newRuleName)) {
+      return {
+        success: false,
+        modified: grammarContent,
+        message: `Rule '${newRuleName}' already exists.`,
+      };
     }
 
-    // Insert the mode declaration
-    const modeDeclaration = `\nmode ${modeName};\n`;
-    const insertIndex = insertAfter ? insertLine : insertLine;
+    // Arguments, returns, locals and @init/@after carry over only when both rules agree
+    const signature1 = this.formatRuleSignature(this.ruleSignature(rule1.ast!));
+    const signature2 = this.formatRuleSignature(this.ruleSignature(rule2.ast!));
+    if (signature1 !== signature2) {
+      return {
+        success: false,
+        modified: grammarContent,
+        message: `Cannot merge rules with different signatures ('${rule1Name}${signature1}' vs '${rule2Name}${signature2}').`,
+      };
+    }
 
-    // Convert to 0-based index and find actual insertion point
-    let actualInsertIndex = Math.min(insertIndex, lines.length - 1);
+    // Extract rule bodies (without "ruleName :")
+    const body1 = sliceSpan(grammarContent, rule1.ast!.bodySpan);
+    const body2 = sliceSpan(grammarContent, rule2.ast!.bodySpan);
 
-    // If inserting after a rule, find the semicolon line
-    if (insertAfter) {
-      actualInsertIndex = this.findRuleEndLine(grammarContent, insertIndex);
+    // Create merged rule
+    const mergedDef = `${newRuleName}${signature1} : (${body1}) | (${body2});`;
+
+    // The merged rule takes the place of the first rule; the second is removed
+    const [first, second] = [rule1, rule2].sort((a, b) => a.lineNumber - b.lineNumber);
+    const withoutSecond = this.removeRule(grammarContent, second.name).modified;
+    const firstSpan = this.analyze(withoutSecond).rules.find((r) => r.name === first.name)!.ast!
+      .span;
+    const modified =
+      withoutSecond.slice(0, firstSpan.start.offset) +
+      mergedDef +
+      withoutSecond.slice(firstSpan.end.offset);
+
+    const dropped = this.droppedActions(grammarContent, modified);
+    if (dropped.length > 0) {
+      return {
+        success: false,
+        modified: grammarContent,
+        message: `Merging would lose ${dropped.length} action(s) (first at line ${dropped[0].lineNumber}).`,
+      };
     }
 
-    lines.splice(actualInsertIndex, 0, ...modeDeclaration.split('\n'));
-
     return {
       success: true,
-      grammar: lines.join('\n'),
-      message: `✓ Added mode '${modeName}' after line ${actualInsertIndex}.`,
+      modified,
+      message: `Merged '${rule1Name}' and '${rule2Name}' into '${newRuleName}'.`,
     };
   }
 
   /**
-   * Add a lexer rule to a specific mode
+   * Generate a summary of grammar structure
    */
-  static addRuleToMode(
-    grammarContent: string,
-    ruleName: string,
-    pattern: string,
-    modeName: string,
-    options?: {
-      fragment?: boolean;
-      skip?: boolean;
-      channel?: string;
-      action?: string;
-    }
-  ): { success: boolean; grammar: string; message: string } {
+  static generateSummary(grammarContent: string): string {
     const analysis = this.analyze(grammarContent);
+    let summary = '';
 
-    // Validate rule name (must be lexer rule - uppercase)
-    if (!/^[A-Z_][A-Z0-9_]*$/.test(ruleName)) {
-      return {
-        success: false,
-        grammar: grammarContent,
-        message: `Invalid lexer rule name '${ruleName}'. Lexer rules must start with uppercase letter.`,
-      };
-    }
+    summary += `Grammar Summary: ${analysis.grammarName}\n`;
+    summary += `${'='.repeat(50)}\n\n`;
 
-    // Check if mode exists
-    const targetMode = analysis.modes.find((m) => m.name === modeName);
-    if (!targetMode) {
-      return {
-        success: false,
-        grammar: grammarContent,
-        message: `Mode '${modeName}' not found. Use add-lexer-mode to create it first.`,
-      };
+    summary += `Type: ${analysis.type}\n`;
+    summary += `Total Rules: ${analysis.rules.length}\n`;
+    summary += `  - Parser Rules: ${analysis.rules.filter((r) => r.type === 'parser').length}\n`;
+    summary += `  - Lexer Rules: ${analysis.rules.filter((r) => r.type === 'lexer').length}\n\n`;
+
+    if (analysis.imports.length > 0) {
+      summary += `Imports: ${analysis.imports.join(', ')}\n\n`;
     }
 
-    // Check for duplicate rule
-    if (analysis.rules.find((r) => r.name === ruleName)) {
-      return {
-        success: false,
-        grammar: grammarContent,
-        message: `Rule '${ruleName}' already exists.`,
-      };
-    }
-
-    // Build the rule definition
-    let ruleDef = '';
-    if (options?.fragment) {
-      ruleDef += 'fragment ';
-    }
-    ruleDef += `${ruleName} : ${pattern}`;
+    // Top referenced rules
+    const ruleDeps = analysis.rules
+      .map((r) => ({
+        name: r.name,
+        refCount: analysis.rules.filter((other) => other.referencedRules.includes(r.name)).length,
+      }))
+      .sort((a, b) => b.refCount - a.refCount)
+      .slice(0, 5);
 
-    // Add actions
-    const actions: string[] = [];
-    if (options?.skip) {
-      actions.push('skip');
-    }
-    if (options?.channel) {
-      actions.push(`channel(${options.channel})`);
-    }
-    if (options?.action) {
-      actions.push(options.action);
+    if (ruleDeps.some((r) => r.refCount > 0)) {
+      summary += `Most Referenced Rules:\n`;
+      for (const dep of ruleDeps.filter((r) => r.refCount > 0)) {
+        summary += `  - ${dep.name}: ${dep.refCount} references\n`;
+      }
+      summary += '\n';
     }
 
-    if (actions.length > 0) {
-      ruleDef += ` -> ${actions.join(', ')}`;
+    if (analysis.issues.length > 0) {
+      summary += `Issues: ${analysis.issues.length}\n`;
+      const errors = analysis.issues.filter((i) => i.type === 'error').length;
+      const warnings = analysis.issues.filter((i) => i.type === 'warning').length;
+      const infos = analysis.issues.filter((i) => i.type === 'info').length;
+      summary += `  - Errors: ${errors}\n`;
+      summary += `  - Warnings: ${warnings}\n`;
+      summary += `  - Info: ${infos}\n\n`;
     }
 
-    ruleDef += ';';
+    return summary;
+  }
 
-    const lines = grammarContent.split('\n');
+  /**
+   * Add multiple lexer rules in bulk
+   */
+  static addLexerRules(
+    grammarContent: string,
+    rules: Array<{
+      name: string;
+      pattern: string;
+      options?: { channel?: string; skip?: boolean; fragment?: boolean };
+    }>
+  ): {
+    success: boolean;
+    modified: string;
+    results: Array<{ name: string; success: boolean; message: string }>;
+    summary: string;
+  } {
+    let current = grammarContent;
+    const results: Array<{ name: string; success: boolean; message: string }> = [];
+    let successCount = 0;
+    let failCount = 0;
 
-    // Find where to insert the rule
-    let insertLine: number;
+    // Add rules one by one, updating the grammar after each successful addition
+    for (const rule of rules) {
+      const result = this.addLexerRule(current, rule.name, rule.pattern, rule.options);
+      results.push({
+        name: rule.name,
+        success: result.success,
+        message: result.message,
+      });
 
-    if (modeName === 'DEFAULT_MODE') {
-      // Insert at the end of DEFAULT_MODE (before first mode declaration)
-      const firstModeIndex = lines.findIndex((l) => /^\s*mode\s+[A-Za-z_]/.test(l));
-      if (firstModeIndex > 0) {
-        insertLine = firstModeIndex;
+      if (result.success) {
+        current = result.modified;
+        successCount++;
       } else {
-        // No other modes, insert at end
-        insertLine = lines.length;
-      }
-    } else {
-      // Insert after the mode declaration, before the next mode or end of file
-      insertLine = targetMode.lineNumber; // 1-based
-
-      // Find the next mode declaration or end of file
-      let nextModeLine = lines.length;
-      for (let i = insertLine; i < lines.length; i++) {
-        if (/^\s*mode\s+[A-Za-z_]/.test(lines[i]) && i > targetMode.lineNumber) {
-          nextModeLine = i;
-          break;
-        }
+        failCount++;
       }
-
-      // Insert before the next mode (or at end)
-      insertLine = nextModeLine;
     }
 
-    // Insert the rule
-    lines.splice(insertLine, 0, ruleDef);
+    const summary = `Added ${successCount} lexer rule(s), ${failCount} failed.`;
 
     return {
-      success: true,
-      grammar: lines.join('\n'),
-      message: `✓ Added rule '${ruleName}' to mode '${modeName}'.`,
+      success: failCount === 0,
+      modified: current,
+      results,
+      summary,
     };
   }
 
   /**
-   * Find the line number where a rule ends (has semicolon)
+   * Add multiple parser rules in bulk
    */
-  private static findRuleEndLine(grammarContent: string, ruleStartLine: number): number {
-    const lines = grammarContent.split('\n');
-    // Convert 1-based to 0-based
-    const lineIndex = Math.max(0, ruleStartLine - 1);
+  static addParserRules(
+    grammarContent: string,
+    rules: Array<{
+      name: string;
+      definition: string;
+      options?: RuleSignature & { returnType?: string };
+    }>
+  ): {
+    success: boolean;
+    modified: string;
+    results: Array<{ name: string; success: boolean; message: string }>;
+    summary: string;
+  } {
+    let current = grammarContent;
+    const results: Array<{ name: string; success: boolean; message: string }> = [];
+    let successCount = 0;
+    let failCount = 0;
 
-    // Find the semicolon
-    let depth = 0;
-    for (let i = lineIndex; i < lines.length; i++) {
-      const line = lines[i];
-      for (const char of line) {
-        if (char === '{') depth++;
-        if (char === '}') depth--;
-      }
-      if (depth === 0 && line.includes(';')) {
-        return i + 1; // Return 1-based line number after the semicolon
+    // Add rules one by one, updating the grammar after each successful addition
+    for (const rule of rules) {
+      const result = this.addParserRule(current, rule.name, rule.definition, rule.options);
+      results.push({
+        name: rule.name,
+        success: result.success,
+        message: result.message,
+      });
+
+      if (result.success) {
+        current = result.modified;
+        successCount++;
+      } else {
+        failCount++;
       }
     }
 
-    return lines.length;
+    const summary = `Added ${successCount} parser rule(s), ${failCount} failed.`;
+
+    return {
+      success: failCount === 0,
+      modified: current,
+      results,
+      summary,
+    };
   }
 
   /**
-   * Move an existing lexer rule to a different mode
+   * Add multiple rules (mixed parser and lexer) in bulk
    */
-  static moveRuleToMode(
+  static addRules(
     grammarContent: string,
-    ruleName: string,
-    targetMode: string
-  ): { success: boolean; grammar: string; message: string } {
-    const analysis = this.analyze(grammarContent);
-
-    // Find the rule
-    const rule = analysis.rules.find((r) => r.name === ruleName);
-    if (!rule) {
-      return {
-        success: false,
-        grammar: grammarContent,
-        message: `Rule '${ruleName}' not found.`,
-      };
-    }
+    rules: Array<{
+      type: 'parser' | 'lexer';
+      name: string;
+      pattern?: string;
+      definition?: string;
+      options?: any;
+    }>
+  ): {
+    success: boolean;
+    modified: string;
+    results: Array<{ name: string; type: string; success: boolean; message: string }>;
+    summary: string;
+  } {
+    let current = grammarContent;
+    const results: Array<{ name: string; type: string; success: boolean; message: string }> = [];
+    let successCount = 0;
+    let failCount = 0;
 
-    // Only lexer rules can be in modes
-    if (rule.type !== 'lexer') {
-      return {
-        success: false,
-        grammar: grammarContent,
-        message: `Rule '${ruleName}' is a parser rule. Only lexer rules can be moved to modes.`,
-      };
-    }
+    // Add rules one by one
+    for (const rule of rules) {
+      let result: any;
+      if (rule.type === 'lexer') {
+        result = this.addLexerRule(current, rule.name, rule.pattern || '', rule.options);
+      } else {
+        result = this.addParserRule(current, rule.name, rule.definition || '', rule.options);
+      }
 
-    // Check if target mode exists
-    const targetModeObj = analysis.modes.find((m) => m.name === targetMode);
-    if (!targetModeObj) {
-      return {
-        success: false,
-        grammar: grammarContent,
-        message: `Target mode '${targetMode}' not found. Use add-lexer-mode to create it first.`,
-      };
-    }
+      results.push({
+        name: rule.name,
+        type: rule.type,
+        success: result.success,
+        message: result.message,
+      });
 
-    const currentMode = rule.mode || 'DEFAULT_MODE';
-    if (currentMode === targetMode) {
-      return {
-        success: false,
-        grammar: grammarContent,
-        message: `Rule '${ruleName}' is already in mode '${targetMode}'.`,
-      };
+      if (result.success) {
+        current = result.modified;
+        successCount++;
+      } else {
+        failCount++;
+      }
     }
 
-    const lines = grammarContent.split('\n');
-
-    // Find and remove the rule from its current location
-    const ruleStartLine = rule.lineNumber - 1; // Convert to 0-based
-    let ruleEndLine = ruleStartLine;
-
-    // Find the end of the rule (line with semicolon)
-    for (let i = ruleStartLine; i < lines.length; i++) {
-      if (lines[i].includes(';')) {
-        ruleEndLine = i;
-        break;
-      }
-    }
-
-    // Extract the rule content
-    const ruleLines = lines.splice(ruleStartLine, ruleEndLine - ruleStartLine + 1);
-    const ruleContent = ruleLines.join('\n');
-
-    // Find where to insert in target mode
-    let insertLine: number;
-    if (targetMode === 'DEFAULT_MODE') {
-      // Insert before the first mode declaration
-      const firstModeIndex = lines.findIndex((l) => /^\s*mode\s+[A-Za-z_]/.test(l));
-      insertLine = firstModeIndex > 0 ? firstModeIndex : lines.length;
-    } else {
-      // Insert after the mode declaration
-      insertLine = targetModeObj.lineNumber; // 1-based
-
-      // Find the next mode declaration or end of file
-      for (let i = insertLine; i < lines.length; i++) {
-        if (/^\s*mode\s+[A-Za-z_]/.test(lines[i])) {
-          insertLine = i;
-          break;
-        }
-        if (i === lines.length - 1) {
-          insertLine = lines.length;
-        }
-      }
-    }
-
-    // Insert the rule at the new location
-    lines.splice(insertLine, 0, ruleContent);
+    const summary = `Added ${successCount} rule(s), ${failCount} failed.`;
 
     return {
-      success: true,
-      grammar: lines.join('\n'),
-      message: `✓ Moved rule '${ruleName}' from ${currentMode} to ${targetMode}.`,
+      success: failCount === 0,
+      modified: current,
+      results,
+      summary,
     };
   }
 
   /**
-   * List all rules in a specific mode
+   * Apply a batch of edits in memory, in order, and validate the result.
+   * Nothing is applied unless every edit succeeds. Validation fails on errors
+   * the original grammar did not have (compared like baseline entries, so
+   * moved lines do not count), and with `strict` on new warnings too. With
+   * `filePath`, imports and tokenVocab are loaded for both versions, the
+   * project config's severities apply and rename-rule also renames in the
+   * grammars the main one loads; those come back in `importedFiles`.
    */
-  static listModeRules(
+  static applyEdits(
     grammarContent: string,
-    modeName: string
+    edits: GrammarEdit[],
+    options?: { filePath?: string; basePath?: string; libDirs?: string[]; strict?: boolean }
   ): {
     success: boolean;
-    mode: string;
-    rules: Array<{ name: string; pattern: string; lineNumber: number }>;
+    modified: string;
+    importedFiles: Array<{ filePath: string; content: string }>;
+    results: Array<{ op: string; success: boolean; message: string }>;
+    newIssues: GrammarIssue[];
     message: string;
   } {
-    const analysis = this.analyze(grammarContent);
-
-    // Find the mode
-    const mode = analysis.modes.find((m) => m.name === modeName);
-    if (!mode) {
-      return {
-        success: false,
-        mode: modeName,
-        rules: [],
-        message: `Mode '${modeName}' not found. Available modes: ${analysis.modes.map((m) => m.name).join(', ')}`,
-      };
-    }
+    const results: Array<{ op: string; success: boolean; message: string }> = [];
+    const mainPath = options?.filePath ? path.resolve(options.filePath) : undefined;
+    const imported = new Map<string, string>();
+    let current = grammarContent;
 
-    // Get rules in this mode
-    const modeRules = analysis.rules
-      .filter((r) => r.type === 'lexer' && (r.mode || 'DEFAULT_MODE') === modeName)
-      .map((r) => {
-        // Extract pattern from definition
-        const def = r.definition.trim();
-        let pattern = def.replace(/^fragment\s+/, '');
-        const colonIndex = pattern.indexOf(':');
-        if (colonIndex >= 0) {
-          pattern = pattern.substring(colonIndex + 1);
+    for (const edit of edits) {
+      let result: { success: boolean; modified: string; message: string };
+      switch (edit.op) {
+        case 'add-rule': {
+          const { ruleName } = edit;
+          const isLexerRule = /^[A-Z]/.test(ruleName);
+          const source = isLexerRule ? edit.pattern : edit.definition;
+          result = source
+            ? isLexerRule
+              ? this.addLexerRule(current, ruleName, source, edit)
+              : this.addParserRule(current, ruleName, source, edit)
+            : {
+                success: false,
+                modified: current,
+                message: `${isLexerRule ? 'Lexer' : 'Parser'} rule '${ruleName}' needs a ${isLexerRule ? 'pattern' : 'definition'}.`,
+              };
+          break;
         }
-        pattern = pattern.split('->')[0].trim().replace(/;$/, '').trim();
+        case 'update-rule':
+          result = this.updateRule(current, edit.ruleName, edit.newDefinition);
+          break;
+        case 'remove-rule':
+          result = this.removeRule(current, edit.ruleName);
+          break;
+        case 'rename-rule': {
+          if (!mainPath) {
+            result = this.renameRule(current, edit.oldName, edit.newName);
+            break;
+          }
+          const renamed = this.renameRuleMultiFile(
+            mainPath,
+            edit.oldName,
+            edit.newName,
+            options?.basePath,
+            options?.libDirs,
+            new Map([...imported, [mainPath, current]])
+          );
+          for (const file of renamed.modifiedFiles) {
+            if (file.filePath !== mainPath) imported.set(file.filePath, file.content);
+          }
+          result = {
+            success: renamed.success,
+            modified:
+              renamed.modifiedFiles.find((file) => file.filePath === mainPath)?.content ?? current,
+            message: renamed.message,
+          };
+          break;
+        }
+        case 'move-rule':
+          result = this.moveRule(current, edit.ruleName, edit.position, edit.anchorRule);
+          break;
+        case 'inline-rule':
+          result = this.inlineRule(current, edit.ruleName, {
+            preserveParentheses: edit.preserveParentheses,
+          });
+          break;
+        default:
+          result = {
+            success: false,
+            modified: current,
+            message: `Unknown operation '${(edit as { op: string }).op}'.`,
+          };
+      }
 
+      results.push({ op: edit.op, success: result.success, message: result.message });
+      if (!result.success) {
         return {
-          name: r.name,
-          pattern,
-          lineNumber: r.lineNumber,
+          success: false,
+          modified: grammarContent,
+          importedFiles: [],
+          results,
+          newIssues: [],
+          message: `Edit ${results.length} (${edit.op}) failed: ${result.message} No edits were applied.`,
         };
-      });
+      }
+      current = result.modified;
+    }
+
+    const config = options?.filePath ? this.loadProjectConfig(options.filePath) : undefined;
+    const issuesOf = (content: string, contents: Map<string, string>) => {
+      const issues = mainPath
+        ? this.loadGrammarWithImports(
+            mainPath,
+            options?.basePath,
+            new Map(),
+            new Set(),
+            options?.libDirs,
+            new Map([...contents, [mainPath, content]])
+          ).issues
+        : this.analyze(content).issues;
+      return this.applyIssuePolicy(issues, content, config);
+    };
+    const newIssues = this.compareWithBaseline(
+      issuesOf(current, imported),
+      this.createIssueBaseline(issuesOf(grammarContent, new Map()))
+    ).newIssues;
+    const failing = newIssues.filter(
+      (issue) => issue.type === 'error' || (options?.strict && issue.type === 'warning')
+    );
 
     return {
-      success: true,
-      mode: modeName,
-      rules: modeRules,
-      message: `Found ${modeRules.length} rule(s) in mode '${modeName}'.`,
+      success: failing.length === 0,
+      modified: current,
+      importedFiles: [...imported].map(([filePath, content]) => ({ filePath, content })),
+      results,
+      newIssues,
+      message:
+        failing.length === 0
+          ? `Applied ${edits.length} edit(s).`
+          : `Validation failed: the edits introduce ${failing.length} ${options?.strict ? 'error(s) or warning(s)' : 'error(s)'}.`,
     };
   }
 
   /**
-   * Duplicate a mode with all its rules
+   * Preview how input text would be tokenized by lexer rules
    */
-  static duplicateMode(
-    grammarContent: string,
-    sourceMode: string,
-    newMode: string,
-    options?: { prefixRules?: string }
-  ): { success: boolean; grammar: string; message: string } {
-    const analysis = this.analyze(grammarContent);
+  /**
+   * Detect unsupported features in grammar
+   */
+  private static detectUnsupportedFeatures(grammarContent: string): {
+    hasLexerModes: boolean;
+    hasSemanticPredicates: boolean;
+    hasActions: boolean;
+    warnings: string[];
+  } {
+    const warnings: string[] = [];
+    let hasLexerModes = false;
+    let hasSemanticPredicates = false;
+    let hasActions = false;
 
-    // Find source mode
-    const sourceModeObj = analysis.modes.find((m) => m.name === sourceMode);
-    if (!sourceModeObj) {
-      return {
-        success: false,
-        grammar: grammarContent,
-        message: `Source mode '${sourceMode}' not found.`,
-      };
+    // Check for lexer modes
+    if (/\b(mode|pushMode|popMode)\b/.test(grammarContent)) {
+      hasLexerModes = true;
+      // Note: Lexer modes are now supported - use analyze-lexer-modes tool for details
     }
 
-    // Check if new mode already exists
-    if (analysis.modes.find((m) => m.name === newMode)) {
-      return {
-        success: false,
-        grammar: grammarContent,
-        message: `Mode '${newMode}' already exists.`,
-      };
+    // Check for semantic predicates
+    if (/\{[^}]*\?[^}]*\}/.test(grammarContent)) {
+      hasSemanticPredicates = true;
+      warnings.push('⚠️  Grammar uses semantic predicates {...?} - these cannot be evaluated');
     }
 
-    // Get rules in source mode
-    const sourceRules = analysis.rules.filter(
-      (r) => r.type === 'lexer' && (r.mode || 'DEFAULT_MODE') === sourceMode
-    );
-
-    if (sourceRules.length === 0) {
-      return {
-        success: false,
-        grammar: grammarContent,
-        message: `Source mode '${sourceMode}' has no rules to duplicate.`,
-      };
+    // Check for actions
+    if (/\{[^}?]*\}/.test(grammarContent) && !hasSemanticPredicates) {
+      hasActions = true;
+      warnings.push('⚠️  Grammar uses actions {...} - these cannot be executed');
     }
 
-    const lines = grammarContent.split('\n');
-    const prefix = options?.prefixRules || '';
-
-    // Build the new mode section
-    let newModeSection = `\nmode ${newMode};\n`;
+    return { hasLexerModes, hasSemanticPredicates, hasActions, warnings };
+  }
 
-    for (const rule of sourceRules) {
-      let ruleDef = rule.definition;
+  /**
+   * Analyze lexer modes structure in a grammar
+   * Returns detailed information about modes, their rules, and entry/exit points.
+   * Issue check ids: undefined-mode, unreachable-mode and mode-stack.
+   */
+  static analyzeLexerModes(
+    grammarContent: string,
+    config?: ProjectConfig
+  ): {
+    modes: LexerMode[];
+    entryPoints: Array<{ mode: string; fromRule: string; action: string }>;
+    exitPoints: Array<{ mode: string; fromRule: string; action: string }>;
+    issues: GrammarIssue[];
+  } {
+    const analysis = this.analyze(grammarContent);
+    const issues: GrammarIssue[] = [];
+    const entryPoints: Array<{ mode: string; fromRule: string; action: string }> = [];
+    const exitPoints: Array<{ mode: string; fromRule: string; action: string }> = [];
 
-      if (prefix) {
-        // Add prefix to rule name and update references
-        const newName = prefix + rule.name;
-        ruleDef = ruleDef.replace(
-          new RegExp(`^(fragment\\s+)?${rule.name}\\s*:`),
-          `$1${newName} :`
+    // Find all pushMode and popMode actions
+    for (const rule of analysis.rules) {
+      if (rule.type === 'lexer') {
+        // Find pushMode actions (entry points to other modes)
+        const pushMatches = rule.definition.matchAll(
+          /->\s*pushMode\s*\(\s*([A-Za-z_][A-Za-z0-9_]*)\s*\)/g
         );
-      }
-
-      newModeSection += ruleDef + '\n';
-    }
+        for (const match of pushMatches) {
+          entryPoints.push({
+            mode: match[1],
+            fromRule: rule.name,
+            action: `pushMode(${match[1]})`,
+          });
+        }
 
-    // Find where to insert (after the source mode section ends)
-    let insertLine = lines.length;
+        // Find popMode actions (exit points from current mode)
+        if (/->\s*popMode\b/.test(rule.definition)) {
+          exitPoints.push({
+            mode: rule.mode || 'DEFAULT_MODE',
+            fromRule: rule.name,
+            action: 'popMode',
+          });
+        }
 
-    if (sourceMode !== 'DEFAULT_MODE') {
-      // Find the end of source mode (next mode or end of file)
-      const sourceModeLine = sourceModeObj.lineNumber;
-      for (let i = sourceModeLine; i < lines.length; i++) {
-        if (i > sourceModeLine && /^\s*mode\s+[A-Za-z_]/.test(lines[i])) {
-          insertLine = i;
-          break;
+        // Find mode() actions (direct mode switching)
+        // Handle both: -> mode(X) and -> type(Y), mode(X)
+        const modeMatches = rule.definition.matchAll(/mode\s*\(\s*([A-Za-z_][A-Za-z0-9_]*)\s*\)/g);
+        for (const match of modeMatches) {
+          entryPoints.push({
+            mode: match[1],
+            fromRule: rule.name,
+            action: `mode(${match[1]})`,
+          });
         }
       }
-    } else {
-      // Insert after DEFAULT_MODE rules (before first mode or at end)
-      const firstModeIndex = lines.findIndex((l) => /^\s*mode\s+[A-Za-z_]/.test(l));
-      insertLine = firstModeIndex > 0 ? firstModeIndex : lines.length;
     }
 
-    // Insert the new mode section
-    lines.splice(insertLine, 0, ...newModeSection.split('\n'));
-
-    return {
-      success: true,
-      grammar: lines.join('\n'),
-      message: `✓ Duplicated mode '${sourceMode}' as '${newMode}' with ${sourceRules.length} rules${prefix ? ` (prefixed with '${prefix}')` : ''}.`,
-    };
-  }
+    // Check for issues
+    const definedModes = new Set(analysis.modes.map((m) => m.name));
+    const ruleLine = (name: string) => analysis.rules.find((r) => r.name === name)?.lineNumber;
 
-  /**
-   * Create a new grammar template with mode structure
-   */
-  static createGrammarTemplate(
-    grammarName: string,
-    options?: {
-      type?: 'lexer' | 'parser' | 'combined';
-      modes?: string[];
-      includeBoilerplate?: boolean;
+    // Check for pushMode to undefined modes
+    for (const entry of entryPoints) {
+      if (!definedModes.has(entry.mode)) {
+        issues.push({
+          type: 'error',
+          message: `Rule '${entry.fromRule}' uses ${entry.action} but mode '${entry.mode}' is not defined`,
+          lineNumber: ruleLine(entry.fromRule),
+          ruleName: entry.fromRule,
+          check: 'undefined-mode',
+        });
+      }
     }
-  ): { success: boolean; grammar: string; message: string } {
-    const type = options?.type || 'lexer';
-    const modes = options?.modes || [];
-    const includeBoilerplate = options?.includeBoilerplate ?? true;
 
-    let grammar = '';
+    // Check for modes with no entry points
+    for (const mode of analysis.modes) {
+      if (mode.name !== 'DEFAULT_MODE') {
+        const hasEntry = entryPoints.some((e) => e.mode === mode.name);
+        if (!hasEntry) {
+          issues.push({
+            type: 'warning',
+            message: `Mode '${mode.name}' has no entry points (no pushMode targeting it)`,
+            lineNumber: mode.lineNumber,
+            check: 'unreachable-mode',
+          });
+        }
+      }
+    }
 
-    // Grammar declaration
-    if (type === 'lexer') {
-      grammar += `lexer grammar ${grammarName};\n\n`;
-    } else if (type === 'parser') {
-      grammar += `parser grammar ${grammarName};\n\n`;
-    } else {
-      grammar += `grammar ${grammarName};\n\n`;
+    // Check for popMode in DEFAULT_MODE
+    for (const exit of exitPoints) {
+      if (exit.mode === 'DEFAULT_MODE') {
+        issues.push({
+          type: 'warning',
+          message: `Rule '${exit.fromRule}' uses popMode in DEFAULT_MODE (mode stack may be empty)`,
+          lineNumber: ruleLine(exit.fromRule),
+          ruleName: exit.fromRule,
+          check: 'mode-stack',
+        });
+      }
     }
 
-    // Boilerplate for DEFAULT_MODE
-    if (includeBoilerplate && (type === 'lexer' || type === 'combined')) {
-      grammar += `// ============================================\n`;
-      grammar += `// DEFAULT_MODE - Main tokenization rules\n`;
-      grammar += `// ============================================\n\n`;
+    return {
+      modes: analysis.modes,
+      entryPoints,
+      exitPoints,
+      issues: this.applyIssuePolicy(issues, grammarContent, config),
+    };
+  }
 
-      grammar += `// Whitespace (usually skipped)\n`;
-      grammar += `WS: [ \\t\\r\\n]+ -> skip;\n\n`;
+  /**
+   * Analyze mode transitions and detect issues
+   * Returns transition graph and potential problems
+   */
+  static analyzeModeTransitions(grammarContent: string): {
+    transitions: Array<{ from: string; to: string; via: string; rule: string }>;
+    issues: GrammarIssue[];
+    suggestions: string[];
+  } {
+    const modesAnalysis = this.analyzeLexerModes(grammarContent);
+    const transitions: Array<{ from: string; to: string; via: string; rule: string }> = [];
+    const issues: GrammarIssue[] = [...modesAnalysis.issues];
+    const suggestions: string[] = [];
 
-      grammar += `// Comments\n`;
-      grammar += `LINE_COMMENT: '//' ~[\\r\\n]* -> skip;\n`;
-      grammar += `BLOCK_COMMENT: '/*' .*? '*/' -> skip;\n\n`;
+    // Build transition graph
+    for (const entry of modesAnalysis.entryPoints) {
+      // Find which mode the source rule belongs to
+      const analysis = this.analyze(grammarContent);
+      const rule = analysis.rules.find((r) => r.name === entry.fromRule);
+      const fromMode = rule?.mode || 'DEFAULT_MODE';
 
-      grammar += `// Identifiers and literals\n`;
-      grammar += `ID: [a-zA-Z_] [a-zA-Z0-9_]*;\n`;
-      grammar += `NUMBER: [0-9]+ ('.' [0-9]+)?;\n`;
-      grammar += `STRING: '"' (~["\\\\] | '\\\\' .)* '"';\n\n`;
+      transitions.push({
+        from: fromMode,
+        to: entry.mode,
+        via: entry.action,
+        rule: entry.fromRule,
+      });
     }
 
-    // Parser rules for combined grammar
-    if (type === 'combined' && includeBoilerplate) {
-      grammar += `// ============================================\n`;
-      grammar += `// Parser rules\n`;
-      grammar += `// ============================================\n\n`;
+    // Detect potential circular mode transitions
+    const visited = new Set<string>();
+    const recursionStack = new Set<string>();
 
-      grammar += `// Entry point\n`;
-      grammar += `program: statement* EOF;\n\n`;
+    function hasCycle(mode: string, transitions: Array<{ from: string; to: string }>): boolean {
+      visited.add(mode);
+      recursionStack.add(mode);
 
-      grammar += `statement: expression ';'\\n`;
-      grammar += `  | assignment ';'\n`;
-      grammar += `  ;\n\n`;
+      const outgoing = transitions.filter((t) => t.from === mode);
+      for (const t of outgoing) {
+        if (!visited.has(t.to)) {
+          if (hasCycle(t.to, transitions)) return true;
+        } else if (recursionStack.has(t.to)) {
+          return true;
+        }
+      }
 
-      grammar += `assignment: ID '=' expression;\n\n`;
+      recursionStack.delete(mode);
+      return false;
+    }
 
-      grammar += `expression\n`;
-      grammar += `  : ID\n`;
-      grammar += `  | NUMBER\n`;
-      grammar += `  | STRING\n`;
-      grammar += `  | expression ('+' | '-') expression\n`;
-      grammar += `  | '(' expression ')'\n`;
-      grammar += `  ;\n\n`;
+    // Check for cycles starting from each mode
+    const allModes = new Set(transitions.map((t) => t.from));
+    for (const mode of allModes) {
+      if (!visited.has(mode)) {
+        if (hasCycle(mode, transitions)) {
+          issues.push({
+            type: 'warning',
+            message:
+              'Potential circular mode transitions detected - ensure popMode is used correctly',
+          });
+          break;
+        }
+      }
     }
 
-    // Add specified modes
-    for (const mode of modes) {
-      if (mode === 'DEFAULT_MODE') continue; // Already handled above
+    // Generate suggestions
+    for (const mode of modesAnalysis.modes) {
+      if (mode.name !== 'DEFAULT_MODE' && mode.rules.length === 0) {
+        suggestions.push(`Mode '${mode.name}' is empty - consider removing it or adding rules`);
+      }
+    }
 
-      grammar += `// ============================================\n`;
-      grammar += `// ${mode}\n`;
-      grammar += `// ============================================\n\n`;
+    // Check for balanced push/pop in each mode
+    const modePushCount = new Map<string, number>();
+    const modePopCount = new Map<string, number>();
 
-      grammar += `mode ${mode};\n\n`;
+    for (const entry of modesAnalysis.entryPoints) {
+      modePushCount.set(entry.mode, (modePushCount.get(entry.mode) || 0) + 1);
+    }
 
-      if (includeBoilerplate) {
-        grammar += `// TODO: Add lexer rules for ${mode}\n`;
-        grammar += `// Example:\n`;
-        grammar += `// EXIT_${mode}: '}' -> popMode;\n\n`;
-      }
+    for (const exit of modesAnalysis.exitPoints) {
+      modePopCount.set(exit.mode, (modePopCount.get(exit.mode) || 0) + 1);
     }
 
     return {
-      success: true,
-      grammar,
-      message: `✓ Created ${type} grammar template '${grammarName}' with ${modes.length > 0 ? modes.length + ' mode(s)' : 'no additional modes'}.`,
+      transitions,
+      issues,
+      suggestions,
     };
   }
 
   /**
-   * Calculate comprehensive grammar metrics including branching estimation
+   * Add a new lexer mode declaration to a grammar
    */
-  static calculateGrammarMetrics(grammarContent: string): {
-    size: {
-      totalRules: number;
-      parserRules: number;
-      lexerRules: number;
-      fragments: number;
-      totalLines: number;
-      avgRuleLength: number;
-    };
-    branching: {
-      avgAlternatives: number;
-      maxAlternatives: number;
-      avgBranchingDepth: number;
-      maxBranchingDepth: number;
-      branchingDistribution: Record<string, number>;
-      rulesWithMostBranching: Array<{ name: string; alternatives: number; depth: number }>;
-    };
-    complexity: {
-      avgCyclomaticComplexity: number;
-      maxCyclomaticComplexity: number;
-      totalCyclomaticComplexity: number;
-      recursiveRules: string[];
-      estimatedParseComplexity: 'low' | 'medium' | 'high' | 'very-high';
-    };
-    dependencies: {
-      avgFanIn: number;
-      avgFanOut: number;
-      orphanRules: string[];
-      hubRules: string[];
-      mostReferenced: Array<{ name: string; count: number }>;
-    };
-  } {
+  static addLexerMode(
+    grammarContent: string,
+    modeName: string,
+    insertAfter?: string
+  ): { success: boolean; grammar: string; message: string } {
     const analysis = this.analyze(grammarContent);
-    const lines = grammarContent.split('\n');
-
-    const parserRules = analysis.rules.filter((r) => r.type === 'parser');
-    const lexerRules = analysis.rules.filter((r) => r.type === 'lexer');
-    const fragments = lexerRules.filter((r) => r.definition.startsWith('fragment'));
 
-    // Calculate branching metrics
-    const branchingData: Array<{ name: string; alternatives: number; depth: number }> = [];
+    // Validate mode name
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(modeName)) {
+      return {
+        success: false,
+        grammar: grammarContent,
+        message: `Invalid mode name '${modeName}'. Mode names must start with a letter or underscore and contain only alphanumeric characters.`,
+      };
+    }
 
-    for (const rule of parserRules) {
-      const def = rule.definition;
-      // Count alternatives (split by | outside of parentheses)
-      const alternatives = this.countAlternatives(def);
-      // Count branching depth (max nesting of subrules)
-      const depth = this.countBranchingDepth(def);
-      branchingData.push({ name: rule.name, alternatives, depth });
+    // Check if mode already exists
+    if (analysis.modes.find((m) => m.name === modeName)) {
+      return {
+        success: false,
+        grammar: grammarContent,
+        message: `Mode '${modeName}' already exists.`,
+      };
     }
 
-    const avgAlternatives =
-      branchingData.length > 0
-        ? branchingData.reduce((sum, b) => sum + b.alternatives, 0) / branchingData.length
-        : 0;
-    const maxAlternatives = Math.max(...branchingData.map((b) => b.alternatives), 1);
-    const avgBranchingDepth =
-      branchingData.length > 0
-        ? branchingData.reduce((sum, b) => sum + b.depth, 0) / branchingData.length
-        : 0;
-    const maxBranchingDepth = Math.max(...branchingData.map((b) => b.depth), 0);
+    const lines = grammarContent.split('\n');
+    let insertLine = lines.length - 1; // Default: end of file (before last line if it's empty)
 
-    // Branching distribution
-    const branchingDistribution: Record<string, number> = {};
-    for (const b of branchingData) {
-      const bucket =
-        b.alternatives <= 2
-          ? '1-2'
-          : b.alternatives <= 5
-            ? '3-5'
-            : b.alternatives <= 10
-              ? '6-10'
-              : '10+';
-      branchingDistribution[bucket] = (branchingDistribution[bucket] || 0) + 1;
+    // Find insertion point
+    if (insertAfter) {
+      // Find the rule to insert after
+      const targetRule = analysis.rules.find((r) => r.name === insertAfter);
+      if (targetRule) {
+        insertLine = targetRule.lineNumber; // 1-based, will be converted to 0-based
+      } else {
+        return {
+          success: false,
+          grammar: grammarContent,
+          message: `Rule '${insertAfter}' not found for insert_after positioning.`,
+        };
+      }
+    } else {
+      // Find the last lexer rule
+      const lexerRules = analysis.rules.filter((r) => r.type === 'lexer');
+      if (lexerRules.length > 0) {
+        const lastLexerRule = lexerRules[lexerRules.length - 1];
+        // Find the end of this rule
+        insertLine = this.findRuleEndLine(grammarContent, lastLexerRule.lineNumber);
+      }
     }
 
-    // Rules with most branching
-    const rulesWithMostBranching = [...branchingData]
-      .sort((a, b) => b.alternatives - a.alternatives || b.depth - a.depth)
-      .slice(0, 5);
+    // Insert the mode declaration
+    const modeDeclaration = `\nmode ${modeName};\n`;
+    const insertIndex = insertAfter ? insertLine : insertLine;
 
-    // Calculate cyclomatic complexity
-    const complexityData: Array<{ name: string; complexity: number }> = [];
-    for (const rule of parserRules) {
-      const complexity = this.calculateRuleComplexity(rule.definition);
-      complexityData.push({ name: rule.name, complexity });
+    // Convert to 0-based index and find actual insertion point
+    let actualInsertIndex = Math.min(insertIndex, lines.length - 1);
+
+    // If inserting after a rule, find the semicolon line
+    if (insertAfter) {
+      actualInsertIndex = this.findRuleEndLine(grammarContent, insertIndex);
     }
 
-    const totalCyclomaticComplexity = complexityData.reduce((sum, c) => sum + c.complexity, 0);
-    const avgCyclomaticComplexity =
-      complexityData.length > 0 ? totalCyclomaticComplexity / complexityData.length : 0;
-    const maxCyclomaticComplexity = Math.max(...complexityData.map((c) => c.complexity), 1);
+    lines.splice(actualInsertIndex, 0, ...modeDeclaration.split('\n'));
 
-    // Detect recursive rules
-    const recursiveRules = this.detectRecursiveRules(analysis);
+    return {
+      success: true,
+      grammar: lines.join('\n'),
+      message: `✓ Added mode '${modeName}' after line ${actualInsertIndex}.`,
+    };
+  }
 
-    // Estimate parse complexity
-    let estimatedParseComplexity: 'low' | 'medium' | 'high' | 'very-high';
-    if (avgAlternatives < 3 && maxBranchingDepth <= 2 && recursiveRules.length === 0) {
-      estimatedParseComplexity = 'low';
-    } else if (avgAlternatives < 5 && maxBranchingDepth <= 3 && recursiveRules.length <= 2) {
-      estimatedParseComplexity = 'medium';
-    } else if (avgAlternatives < 8 || recursiveRules.length <= 5) {
-      estimatedParseComplexity = 'high';
-    } else {
-      estimatedParseComplexity = 'very-high';
+  /**
+   * Add a lexer rule to a specific mode
+   */
+  static addRuleToMode(
+    grammarContent: string,
+    ruleName: string,
+    pattern: string,
+    modeName: string,
+    options?: {
+      fragment?: boolean;
+      skip?: boolean;
+      channel?: string;
+      action?: string;
     }
+  ): { success: boolean; grammar: string; message: string } {
+    const analysis = this.analyze(grammarContent);
 
-    // Calculate dependency metrics
-    const ruleReferences = new Map<string, Set<string>>();
-    const referencedBy = new Map<string, Set<string>>();
+    // Validate rule name (must be lexer rule - uppercase)
+    if (!/^[A-Z_][A-Z0-9_]*$/.test(ruleName)) {
+      return {
+        success: false,
+        grammar: grammarContent,
+        message: `Invalid lexer rule name '${ruleName}'. Lexer rules must start with uppercase letter.`,
+      };
+    }
 
-    for (const rule of analysis.rules) {
-      ruleReferences.set(rule.name, new Set(rule.referencedRules));
-      for (const ref of rule.referencedRules) {
-        if (!referencedBy.has(ref)) {
-          referencedBy.set(ref, new Set());
-        }
-        referencedBy.get(ref)!.add(rule.name);
-      }
+    // Check if mode exists
+    const targetMode = analysis.modes.find((m) => m.name === modeName);
+    if (!targetMode) {
+      return {
+        success: false,
+        grammar: grammarContent,
+        message: `Mode '${modeName}' not found. Use add-lexer-mode to create it first.`,
+      };
     }
 
-    // Fan-in (how many rules reference this rule)
-    const fanInValues: number[] = [];
-    for (const rule of analysis.rules) {
-      fanInValues.push(referencedBy.get(rule.name)?.size || 0);
+    // Check for duplicate rule
+    if (analysis.rules.find((r) => r.name === ruleName)) {
+      return {
+        success: false,
+        grammar: grammarContent,
+        message: `Rule '${ruleName}' already exists.`,
+      };
     }
 
-    // Fan-out (how many rules this rule references)
-    const fanOutValues: number[] = [];
-    for (const rule of analysis.rules) {
-      fanOutValues.push(ruleReferences.get(rule.name)?.size || 0);
+    // Build the rule definition
+    let ruleDef = '';
+    if (options?.fragment) {
+      ruleDef += 'fragment ';
     }
+    ruleDef += `${ruleName} : ${pattern}`;
 
-    const avgFanIn =
-      fanInValues.length > 0 ? fanInValues.reduce((sum, v) => sum + v, 0) / fanInValues.length : 0;
-    const avgFanOut =
-      fanOutValues.length > 0
-        ? fanOutValues.reduce((sum, v) => sum + v, 0) / fanOutValues.length
-        : 0;
+    // Add actions
+    const actions: string[] = [];
+    if (options?.skip) {
+      actions.push('skip');
+    }
+    if (options?.channel) {
+      actions.push(`channel(${options.channel})`);
+    }
+    if (options?.action) {
+      actions.push(options.action);
+    }
 
-    // Orphan rules (not referenced by any OTHER rule, excluding self-references)
-    const orphanRules = analysis.rules
-      .filter((r) => {
-        if (r.type !== 'parser') return false;
-        const refs = referencedBy.get(r.name);
-        // Not an orphan if it's referenced by at least one OTHER rule
-        if (!refs) return true;
-        // Check if any reference is from a different rule
-        return ![...refs].some((refName) => refName !== r.name);
-      })
-      .map((r) => r.name);
+    if (actions.length > 0) {
+      ruleDef += ` -> ${actions.join(', ')}`;
+    }
 
-    // Hub rules (referenced by many rules)
-    const hubRules = analysis.rules
-      .filter((r) => (referencedBy.get(r.name)?.size || 0) >= 5)
-      .map((r) => r.name);
+    ruleDef += ';';
 
-    // Most referenced rules
-    const mostReferenced = [...referencedBy.entries()]
-      .map(([name, refs]) => ({ name, count: refs.size }))
-      .sort((a, b) => b.count - a.count)
-      .slice(0, 5);
+    const lines = grammarContent.split('\n');
+
+    // Find where to insert the rule
+    let insertLine: number;
+
+    if (modeName === 'DEFAULT_MODE') {
+      // Insert at the end of DEFAULT_MODE (before first mode declaration)
+      const firstModeIndex = lines.findIndex((l) => /^\s*mode\s+[A-Za-z_]/.test(l));
+      if (firstModeIndex > 0) {
+        insertLine = firstModeIndex;
+      } else {
+        // No other modes, insert at end
+        insertLine = lines.length;
+      }
+    } else {
+      // Insert after the mode declaration, before the next mode or end of file
+      insertLine = targetMode.lineNumber; // 1-based
+
+      // Find the next mode declaration or end of file
+      let nextModeLine = lines.length;
+      for (let i = insertLine; i < lines.length; i++) {
+        if (/^\s*mode\s+[A-Za-z_]/.test(lines[i]) && i > targetMode.lineNumber) {
+          nextModeLine = i;
+          break;
+        }
+      }
+
+      // Insert before the next mode (or at end)
+      insertLine = nextModeLine;
+    }
+
+    // Insert the rule
+    lines.splice(insertLine, 0, ruleDef);
 
     return {
-      size: {
-        totalRules: analysis.rules.length,
-        parserRules: parserRules.length,
-        lexerRules: lexerRules.length,
-        fragments: fragments.length,
-        totalLines: lines.length,
-        avgRuleLength:
-          analysis.rules.length > 0 ? Math.round(lines.length / analysis.rules.length) : 0,
-      },
-      branching: {
-        avgAlternatives: Math.round(avgAlternatives * 10) / 10,
-        maxAlternatives,
-        avgBranchingDepth: Math.round(avgBranchingDepth * 10) / 10,
-        maxBranchingDepth,
-        branchingDistribution,
-        rulesWithMostBranching,
-      },
-      complexity: {
-        avgCyclomaticComplexity: Math.round(avgCyclomaticComplexity * 10) / 10,
-        maxCyclomaticComplexity,
-        totalCyclomaticComplexity,
-        recursiveRules,
-        estimatedParseComplexity,
-      },
-      dependencies: {
-        avgFanIn: Math.round(avgFanIn * 10) / 10,
-        avgFanOut: Math.round(avgFanOut * 10) / 10,
-        orphanRules,
-        hubRules,
-        mostReferenced,
-      },
+      success: true,
+      grammar: lines.join('\n'),
+      message: `✓ Added rule '${ruleName}' to mode '${modeName}'.`,
     };
   }
 
   /**
-   * Count alternatives in a rule definition
+   * Find the line number where a rule ends (has semicolon)
    */
-  private static countAlternatives(definition: string): number {
-    const def = definition.split('->')[0].split(';')[0]; // Remove actions
-    let count = 1;
+  private static findRuleEndLine(grammarContent: string, ruleStartLine: number): number {
+    const lines = grammarContent.split('\n');
+    // Convert 1-based to 0-based
+    const lineIndex = Math.max(0, ruleStartLine - 1);
+
+    // Find the semicolon
     let depth = 0;
-    let inString = false;
-    let escapeNext = false;
+    for (let i = lineIndex; i < lines.length; i++) {
+      const line = lines[i];
+      for (const char of line) {
+        if (char === '{') depth++;
+        if (char === '}') depth--;
+      }
+      if (depth === 0 && line.includes(';')) {
+        return i + 1; // Return 1-based line number after the semicolon
+      }
+    }
 
-    for (let i = 0; i < def.length; i++) {
-      const char = def[i];
+    return lines.length;
+  }
 
-      if (escapeNext) {
-        escapeNext = false;
-        continue;
-      }
-
-      if (char === '\\') {
-        escapeNext = true;
-        continue;
-      }
-
-      if (char === "'" && !inString) {
-        inString = true;
-        continue;
-      }
+  /**
+   * Move an existing lexer rule to a different mode
+   */
+  static moveRuleToMode(
+    grammarContent: string,
+    ruleName: string,
+    targetMode: string
+  ): { success: boolean; grammar: string; message: string } {
+    const analysis = this.analyze(grammarContent);
 
-      if (char === "'" && inString) {
-        inString = false;
-        continue;
-      }
+    // Find the rule
+    const rule = analysis.rules.find((r) => r.name === ruleName);
+    if (!rule) {
+      return {
+        success: false,
+        grammar: grammarContent,
+        message: `Rule '${ruleName}' not found.`,
+      };
+    }
 
-      if (!inString) {
-        if (char === '(' || char === '[') depth++;
-        if (char === ')' || char === ']') depth--;
-        if (char === '|' && depth === 0) count++;
-      }
+    // Only lexer rules can be in modes
+    if (rule.type !== 'lexer') {
+      return {
+        success: false,
+        grammar: grammarContent,
+        message: `Rule '${ruleName}' is a parser rule. Only lexer rules can be moved to modes.`,
+      };
     }
 
-    return count;
-  }
+    // Check if target mode exists
+    const targetModeObj = analysis.modes.find((m) => m.name === targetMode);
+    if (!targetModeObj) {
+      return {
+        success: false,
+        grammar: grammarContent,
+        message: `Target mode '${targetMode}' not found. Use add-lexer-mode to create it first.`,
+      };
+    }
 
-  /**
-   * Count maximum branching depth (subrule nesting)
-   */
-  private static countBranchingDepth(definition: string): number {
-    let maxDepth = 0;
-    let currentDepth = 0;
-    let inString = false;
-    let escapeNext = false;
+    const currentMode = rule.mode || 'DEFAULT_MODE';
+    if (currentMode === targetMode) {
+      return {
+        success: false,
+        grammar: grammarContent,
+        message: `Rule '${ruleName}' is already in mode '${targetMode}'.`,
+      };
+    }
 
-    for (let i = 0; i < definition.length; i++) {
-      const char = definition[i];
+    const lines = grammarContent.split('\n');
 
-      if (escapeNext) {
-        escapeNext = false;
-        continue;
-      }
+    // Find and remove the rule from its current location
+    const ruleStartLine = rule.lineNumber - 1; // Convert to 0-based
+    let ruleEndLine = ruleStartLine;
 
-      if (char === '\\') {
-        escapeNext = true;
-        continue;
+    // Find the end of the rule (line with semicolon)
+    for (let i = ruleStartLine; i < lines.length; i++) {
+      if (lines[i].includes(';')) {
+        ruleEndLine = i;
+        break;
       }
+    }
 
-      if (char === "'" && !inString) {
-        inString = true;
-        continue;
-      }
+    // Extract the rule content
+    const ruleLines = lines.splice(ruleStartLine, ruleEndLine - ruleStartLine + 1);
+    const ruleContent = ruleLines.join('\n');
 
-      if (char === "'" && inString) {
-        inString = false;
-        continue;
-      }
+    // Find where to insert in target mode
+    let insertLine: number;
+    if (targetMode === 'DEFAULT_MODE') {
+      // Insert before the first mode declaration
+      const firstModeIndex = lines.findIndex((l) => /^\s*mode\s+[A-Za-z_]/.test(l));
+      insertLine = firstModeIndex > 0 ? firstModeIndex : lines.length;
+    } else {
+      // Insert after the mode declaration
+      insertLine = targetModeObj.lineNumber; // 1-based
 
-      if (!inString) {
-        if (char === '(') {
-          currentDepth++;
-          maxDepth = Math.max(maxDepth, currentDepth);
+      // Find the next mode declaration or end of file
+      for (let i = insertLine; i < lines.length; i++) {
+        if (/^\s*mode\s+[A-Za-z_]/.test(lines[i])) {
+          insertLine = i;
+          break;
+        }
+        if (i === lines.length - 1) {
+          insertLine = lines.length;
         }
-        if (char === ')') currentDepth--;
       }
     }
 
-    return maxDepth;
+    // Insert the rule at the new location
+    lines.splice(insertLine, 0, ruleContent);
+
+    return {
+      success: true,
+      grammar: lines.join('\n'),
+      message: `✓ Moved rule '${ruleName}' from ${currentMode} to ${targetMode}.`,
+    };
   }
 
   /**
-   * Calculate cyclomatic complexity for a rule
+   * List all rules in a specific mode
    */
-  private static calculateRuleComplexity(definition: string): number {
-    let complexity = 1; // Base complexity
-
-    const def = definition.split('->')[0].split(';')[0];
-    let depth = 0;
-    let inString = false;
-    let escapeNext = false;
-
-    for (let i = 0; i < def.length; i++) {
-      const char = def[i];
-
-      if (escapeNext) {
-        escapeNext = false;
-        continue;
-      }
-
-      if (char === '\\') {
-        escapeNext = true;
-        continue;
-      }
+  static listModeRules(
+    grammarContent: string,
+    modeName: string
+  ): {
+    success: boolean;
+    mode: string;
+    rules: Array<{ name: string; pattern: string; lineNumber: number }>;
+    message: string;
+  } {
+    const analysis = this.analyze(grammarContent);
 
-      if (char === "'" && !inString) {
-        inString = true;
-        continue;
-      }
+    // Find the mode
+    const mode = analysis.modes.find((m) => m.name === modeName);
+    if (!mode) {
+      return {
+        success: false,
+        mode: modeName,
+        rules: [],
+        message: `Mode '${modeName}' not found. Available modes: ${analysis.modes.map((m) => m.name).join(', ')}`,
+      };
+    }
 
-      if (char === "'" && inString) {
-        inString = false;
-        continue;
-      }
+    // Get rules in this mode
+    const modeRules = analysis.rules
+      .filter((r) => r.type === 'lexer' && (r.mode || 'DEFAULT_MODE') === modeName)
+      .map((r) => {
+        // Extract pattern from definition
+        const def = r.definition.trim();
+        let pattern = def.replace(/^fragment\s+/, '');
+        const colonIndex = pattern.indexOf(':');
+        if (colonIndex >= 0) {
+          pattern = pattern.substring(colonIndex + 1);
+        }
+        pattern = pattern.split('->')[0].trim().replace(/;$/, '').trim();
 
-      if (!inString) {
-        if (char === '(' || char === '[') depth++;
-        if (char === ')' || char === ']') depth--;
-        // Each alternative adds to complexity
-        if (char === '|' && depth === 0) complexity++;
-        // Optional and repetition operators add complexity
-        if ((char === '?' || char === '*' || char === '+') && depth === 0) complexity++;
-      }
-    }
+        return {
+          name: r.name,
+          pattern,
+          lineNumber: r.lineNumber,
+        };
+      });
 
-    return complexity;
+    return {
+      success: true,
+      mode: modeName,
+      rules: modeRules,
+      message: `Found ${modeRules.length} rule(s) in mode '${modeName}'.`,
+    };
   }
 
   /**
-   * Detect recursive rules (direct and indirect)
+   * Duplicate a mode with all its rules
    */
-  private static detectRecursiveRules(analysis: GrammarAnalysis): string[] {
-    const recursive: string[] = [];
+  static duplicateMode(
+    grammarContent: string,
+    sourceMode: string,
+    newMode: string,
+    options?: { prefixRules?: string }
+  ): { success: boolean; grammar: string; message: string } {
+    const analysis = this.analyze(grammarContent);
 
-    // Only check parser rules for recursion (lexer rules are not recursive in the same way)
-    for (const rule of analysis.rules) {
-      if (rule.type !== 'parser') continue;
+    // Find source mode
+    const sourceModeObj = analysis.modes.find((m) => m.name === sourceMode);
+    if (!sourceModeObj) {
+      return {
+        success: false,
+        grammar: grammarContent,
+        message: `Source mode '${sourceMode}' not found.`,
+      };
+    }
 
-      if (rule.referencedRules.includes(rule.name)) {
-        // Direct recursion
-        if (!recursive.includes(rule.name)) {
-          recursive.push(rule.name);
-        }
-      }
+    // Check if new mode already exists
+    if (analysis.modes.find((m) => m.name === newMode)) {
+      return {
+        success: false,
+        grammar: grammarContent,
+        message: `Mode '${newMode}' already exists.`,
+      };
     }
 
-    // Check for indirect recursion (simplified - only one level)
-    for (const rule of analysis.rules) {
-      if (rule.type !== 'parser') continue;
+    // Get rules in source mode
+    const sourceRules = analysis.rules.filter(
+      (r) => r.type === 'lexer' && (r.mode || 'DEFAULT_MODE') === sourceMode
+    );
 
-      for (const ref of rule.referencedRules) {
-        const refRule = analysis.rules.find((r) => r.name === ref && r.type === 'parser');
-        if (refRule && refRule.referencedRules.includes(rule.name)) {
-          if (!recursive.includes(rule.name)) {
-            recursive.push(rule.name);
-          }
+    if (sourceRules.length === 0) {
+      return {
+        success: false,
+        grammar: grammarContent,
+        message: `Source mode '${sourceMode}' has no rules to duplicate.`,
+      };
+    }
+
+    const lines = grammarContent.split('\n');
+    const prefix = options?.prefixRules || '';
+
+    // Build the new mode section
+    let newModeSection = `\nmode ${newMode};\n`;
+
+    for (const rule of sourceRules) {
+      let ruleDef = rule.definition;
+
+      if (prefix) {
+        // Add prefix to rule name and update references
+        const newName = prefix + rule.name;
+        ruleDef = ruleDef.replace(
+          new RegExp(`^(fragment\\s+)?${rule.name}\\s*:`),
+          `$1${newName} :`
+        );
+      }
+
+      newModeSection += ruleDef + '\n';
+    }
+
+    // Find where to insert (after the source mode section ends)
+    let insertLine = lines.length;
+
+    if (sourceMode !== 'DEFAULT_MODE') {
+      // Find the end of source mode (next mode or end of file)
+      const sourceModeLine = sourceModeObj.lineNumber;
+      for (let i = sourceModeLine; i < lines.length; i++) {
+        if (i > sourceModeLine && /^\s*mode\s+[A-Za-z_]/.test(lines[i])) {
+          insertLine = i;
+          break;
         }
       }
+    } else {
+      // Insert after DEFAULT_MODE rules (before first mode or at end)
+      const firstModeIndex = lines.findIndex((l) => /^\s*mode\s+[A-Za-z_]/.test(l));
+      insertLine = firstModeIndex > 0 ? firstModeIndex : lines.length;
     }
 
-    return recursive;
+    // Insert the new mode section
+    lines.splice(insertLine, 0, ...newModeSection.split('\n'));
+
+    return {
+      success: true,
+      grammar: lines.join('\n'),
+      message: `✓ Duplicated mode '${sourceMode}' as '${newMode}' with ${sourceRules.length} rules${prefix ? ` (prefixed with '${prefix}')` : ''}.`,
+    };
   }
 
   /**
-   * Detect ReDoS (Regular Expression Denial of Service) vulnerabilities
+   * Rename a lexer mode in every grammar of the import graph of `filePath`:
+   * the `mode X;` declarations (imported lexer grammars merge modes by name)
+   * and every mode(X) / pushMode(X) command. Mentions in action code are
+   * reported, not changed.
    */
-  static detectReDoS(grammarContent: string): {
-    vulnerabilities: Array<{
-      ruleName: string;
-      lineNumber: number;
-      pattern: string;
-      issue: string;
-      severity: 'high' | 'medium' | 'low';
-      suggestion: string;
-    }>;
-    summary: {
-      high: number;
-      medium: number;
-      low: number;
-    };
+  static renameMode(
+    filePath: string,
+    oldName: string,
+    newName: string,
+    options?: { basePath?: string; libDirs?: string[] }
+  ): {
+    success: boolean;
+    modifiedFiles: Array<{ filePath: string; content: string; refCount: number }>;
+    message: string;
+    totalRefCount: number;
+    warnings: string[];
   } {
-    const analysis = this.analyze(grammarContent);
-    const vulnerabilities: Array<{
-      ruleName: string;
-      lineNumber: number;
-      pattern: string;
-      issue: string;
-      severity: 'high' | 'medium' | 'low';
-      suggestion: string;
-    }> = [];
+    const fail = (message: string) => ({
+      success: false,
+      modifiedFiles: [],
+      message,
+      totalRefCount: 0,
+      warnings: [],
+    });
 
-    // Helper: Check if pattern uses disjoint character classes
-    // Common disjoint pairs that are safe for nested repetition
-    const isLikelyDisjoint = (pattern: string): boolean => {
-      // Check for references to fragment rules that suggest disjoint sets
-      const fragmentRefs = pattern.match(/\bF_[A-Za-z_]+/g) || [];
-      if (fragmentRefs.length >= 2) {
-        // Check for complementary naming patterns
-        const names = fragmentRefs.map((r) => r.replace('F_', '').toLowerCase());
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(newName)) {
+      return fail(`Invalid mode name '${newName}'.`);
+    }
+    if (oldName === 'DEFAULT_MODE' || newName === 'DEFAULT_MODE') {
+      return fail('DEFAULT_MODE is implicit and cannot be renamed.');
+    }
+    const graph = this.loadImportGraph(path.resolve(filePath), options);
+    if ('error' in graph) {
+      return fail(graph.error);
+    }
 
-        // Check for common complementary patterns
-        for (let i = 0; i < names.length; i++) {
-          for (let j = i + 1; j < names.length; j++) {
-            const n1 = names[i];
-            const n2 = names[j];
+    const grammars = Array.from(graph.files.values());
+    if (!grammars.some((g) => g.ast.modes.some((m) => m.name === oldName))) {
+      return fail(`Mode '${oldName}' not found in any grammar file.`);
+    }
+    if (grammars.some((g) => g.ast.modes.some((m) => m.name === newName))) {
+      return fail(`Mode '${newName}' already exists.`);
+    }
+    // ANTLR generates a constant for every mode and token of a lexer
+    const clash = grammars.find(
+      (g) =>
+        g.ast.type === 'lexer' &&
+        (g.ast.rules.some((r) => r.name === newName) ||
+          g.ast.tokens.some((t) => t.name === newName))
+    );
+    if (clash) {
+      return fail(`Mode name '${newName}' conflicts with a token of ${clash.ast.name}.`);
+    }
 
-            // Whitespace/NonWhitespace
-            if (
-              (n1.includes('whitespace') && n2.includes('nonwhitespace')) ||
-              (n1.includes('nonwhitespace') && n2.includes('whitespace'))
-            ) {
-              return true;
-            }
+    const modifiedFiles: Array<{ filePath: string; content: string; refCount: number }> = [];
+    const warnings: string[] = [];
+    let totalRefCount = 0;
+    for (const [file, { content, ast }] of graph.files) {
+      const references = this.modeReferences(content, ast, oldName);
+      warnings.push(...references.actions.map((where) => `${where} in ${path.basename(file)}`));
+      const edits = [...references.declarations, ...references.commands].map((ref) => ({
+        start: ref.start,
+        end: ref.end,
+        text: newName,
+      }));
+      if (edits.length === 0) continue;
+      modifiedFiles.push({
+        filePath: file,
+        content: this.applyTextEdits(content, edits),
+        refCount: references.commands.length,
+      });
+      totalRefCount += references.commands.length;
+    }
 
-            // Newline/NonNewline
-            if (
-              (n1.includes('newline') && n2.includes('nonnewline')) ||
-              (n1.includes('nonnewline') && n2.includes('newline'))
-            ) {
-              return true;
-            }
+    return {
+      success: true,
+      modifiedFiles,
+      message: `Renamed mode '${oldName}' to '${newName}' in ${modifiedFiles.length} file(s) (${totalRefCount} command reference(s) updated).`,
+      totalRefCount,
+      warnings: warnings.map(
+        (where) => `'${oldName}' is mentioned in action code of ${where} (not updated)`
+      ),
+    };
+  }
 
-            // Digit/NonDigit
-            if (
-              (n1.includes('digit') && n2.includes('nondigit')) ||
-              (n1.includes('nondigit') && n2.includes('digit'))
-            ) {
-              return true;
-            }
+  /**
+   * Remove a lexer mode from every grammar of the import graph of `filePath`.
+   * Its rules are deleted, or moved to the end of `targetMode` (in a file
+   * without that mode, the declaration is renamed instead). Refused while a
+   * remaining mode(X) / pushMode(X) command would enter the mode, or while a
+   * remaining rule references a deleted one.
+   */
+  static removeMode(
+    filePath: string,
+    modeName: string,
+    options?: { targetMode?: string; basePath?: string; libDirs?: string[] }
+  ): {
+    success: boolean;
+    modifiedFiles: Array<{
+      filePath: string;
+      content: string;
+      removedRules: string[];
+      movedRules: string[];
+    }>;
+    message: string;
+  } {
+    const fail = (message: string) => ({ success: false, modifiedFiles: [], message });
+    const targetMode = options?.targetMode;
 
-            // Whitespace and NewlineChar are disjoint (spaces vs \r\n)
-            if (
-              (n1.includes('whitespace') && n2.includes('newline')) ||
-              (n1.includes('newline') && n2.includes('whitespace'))
-            ) {
-              return true;
-            }
+    if (modeName === 'DEFAULT_MODE') {
+      return fail('DEFAULT_MODE cannot be removed.');
+    }
+    if (targetMode === modeName) {
+      return fail(`Target mode must differ from '${modeName}'.`);
+    }
+    const graph = this.loadImportGraph(path.resolve(filePath), options);
+    if ('error' in graph) {
+      return fail(graph.error);
+    }
 
-            // Word and NonWord
-            if (
-              (n1.includes('word') && !n1.includes('nonword') && n2.includes('nonword')) ||
-              (n1.includes('nonword') && n2.includes('word') && !n2.includes('nonword'))
-            ) {
-              return true;
-            }
-          }
+    const grammars = Array.from(graph.files.values());
+    if (!grammars.some((g) => g.ast.modes.some((m) => m.name === modeName))) {
+      return fail(`Mode '${modeName}' not found in any grammar file.`);
+    }
+    if (
+      targetMode &&
+      targetMode !== 'DEFAULT_MODE' &&
+      !grammars.some((g) => g.ast.modes.some((m) => m.name === targetMode))
+    ) {
+      return fail(`Target mode '${targetMode}' not found.`);
+    }
+
+    // Nothing that stays may still enter the mode or use a deleted rule
+    const problems: string[] = [];
+    const staying = (rule: RuleNode) => targetMode !== undefined || rule.mode !== modeName;
+    const deleted = new Set(
+      targetMode
+        ? []
+        : grammars.flatMap((g) => g.ast.rules.filter((r) => r.mode === modeName).map((r) => r.name))
+    );
+    grammars
+      .flatMap((g) => g.ast.rules.filter((r) => r.mode !== modeName))
+      .forEach((rule) => deleted.delete(rule.name)); // still defined outside the mode
+    for (const [file, { content, ast }] of graph.files) {
+      const references = this.modeReferences(content, ast, modeName);
+      for (const command of references.commands) {
+        if (staying(command.rule)) {
+          problems.push(
+            `${command.rule.name} (${path.basename(file)}) enters it with ${command.text}`
+          );
+        }
+      }
+      for (const rule of ast.rules.filter(staying)) {
+        const used = this.collectReferencedRules(rule).filter((name) => deleted.has(name));
+        if (used.length > 0) {
+          problems.push(`${rule.name} (${path.basename(file)}) uses ${used.join(', ')}`);
         }
       }
+    }
+    if (problems.length > 0) {
+      return fail(`Cannot remove mode '${modeName}': ${problems.join('; ')}.`);
+    }
 
-      // Check for character class disjointness patterns
-      // e.g., [ \t]* [\r\n]+ - these are disjoint
-      if (/\[[^\]]*\]\s*[+*?]?\s*\[[^\]]*\][+*?]/.test(pattern)) {
-        const charClasses = pattern.match(/\[[^\]]+\]/g) || [];
-        if (charClasses.length >= 2) {
-          // Common disjoint pairs
-          for (let i = 0; i < charClasses.length; i++) {
-            for (let j = i + 1; j < charClasses.length; j++) {
-              const c1 = charClasses[i];
-              const c2 = charClasses[j];
+    const modifiedFiles: Array<{
+      filePath: string;
+      content: string;
+      removedRules: string[];
+      movedRules: string[];
+    }> = [];
+    for (const [file, { content, ast }] of graph.files) {
+      const declaration = ast.modes.find((m) => m.name === modeName);
+      if (!declaration) continue;
+      const rules = ast.rules.filter((r) => r.mode === modeName).map((r) => r.name);
+      const lines = content.split('\n');
+      const lineStart = (line: number) =>
+        Math.min(
+          content.length,
+          lines.slice(0, line).reduce((offset, text) => offset + text.length + 1, 0)
+        );
 
-              // Whitespace [ \t] vs newline [\r\n]
-              const isWhitespace = /\s/.test(c1) || c1.includes(' \\t');
-              const isNewline = /\r|\n/.test(c2) || c2.includes('\\r') || c2.includes('\\n');
-              if ((isWhitespace && isNewline) || (isNewline && isWhitespace)) {
-                return true;
-              }
-            }
-          }
+      // The section runs from the declaration (with its comments) to the next one
+      const sectionStart = (mode: ModeNode) =>
+        this.commentedStartLine(lines, ast, mode.span.start.line) - 1;
+      const sectionEnd = (mode?: ModeNode) => {
+        const next = ast.modes.find((m) => m.span.start.offset > (mode?.span.start.offset ?? -1));
+        return next ? sectionStart(next) : lines.length;
+      };
+      const start = sectionStart(declaration);
+      const end = sectionEnd(declaration);
+      const target = ast.modes.find((m) => m.name === targetMode);
+      const edits: Array<{ start: number; end: number; text: string }> = [];
+
+      if (targetMode && targetMode !== 'DEFAULT_MODE' && !target) {
+        const text = sliceSpan(content, declaration.span);
+        const offset = declaration.span.start.offset + /^mode\s+/.exec(text)![0].length;
+        edits.push({ start: offset, end: offset + modeName.length, text: targetMode });
+      } else {
+        let first = start;
+        if (end === lines.length && first > 0 && !lines[first - 1].trim()) first--;
+        edits.push({ start: lineStart(first), end: lineStart(end), text: '' });
+
+        const body = lines
+          .slice(declaration.span.end.line, end)
+          .join('\n')
+          .replace(/^\s*\n/, '')
+          .trimEnd();
+        if (targetMode && body) {
+          let last = (target ? sectionEnd(target) : sectionStart(ast.modes[0])) - 1;
+          while (last > 0 && !lines[last].trim()) last--;
+          const offset = lineStart(last) + lines[last].length;
+          edits.push({ start: offset, end: offset, text: `\n\n${body}` });
         }
       }
 
-      const disjointPatterns = [
-        // Whitespace vs NonWhitespace
-        /Whitespace.*NonWhitespace|NonWhitespace.*Whitespace/i,
-        // Digit vs NonDigit
-        /Digit.*NonDigit|NonDigit.*Digit/i,
-        // Word vs NonWord
-        /Word.*NonWord|NonWord.*Word/i,
-        // Newline vs NonNewline
-        /Newline.*NonNewline|NonNewline.*Newline/i,
-      ];
+      modifiedFiles.push({
+        filePath: file,
+        content: this.applyTextEdits(content, edits),
+        removedRules: targetMode ? [] : rules,
+        movedRules: targetMode ? rules : [],
+      });
+    }
 
-      return disjointPatterns.some((p) => p.test(pattern));
+    const ruleCount = modifiedFiles.reduce(
+      (count, f) => count + f.removedRules.length + f.movedRules.length,
+      0
+    );
+    return {
+      success: true,
+      modifiedFiles,
+      message: targetMode
+        ? `Removed mode '${modeName}' and moved its ${ruleCount} rule(s) to ${targetMode} in ${modifiedFiles.length} file(s).`
+        : `Removed mode '${modeName}' and its ${ruleCount} rule(s) in ${modifiedFiles.length} file(s).`,
     };
+  }
 
-    // Helper: Check for truly overlapping nested quantifiers
-    const hasOverlappingNested = (pattern: string): boolean => {
-      // Match nested group with quantifier inside, then quantifier outside
-      // e.g., (a+)+, (a*)*, ([x]+)+
-      const nestedMatch = pattern.match(/\(([^)]+)[+*]\)[+*]/);
-      if (!nestedMatch) return false;
+  /**
+   * Where a grammar names a mode: the names in its `mode X;` declarations,
+   * the arguments of mode(X) / pushMode(X) commands, and the rules and named
+   * actions whose code mentions it
+   */
+  private static modeReferences(
+    content: string,
+    ast: GrammarAst,
+    modeName: string
+  ): {
+    declarations: Array<{ start: number; end: number }>;
+    commands: Array<{ start: number; end: number; rule: RuleNode; text: string }>;
+    actions: string[];
+  } {
+    const declarations = ast.modes
+      .filter((m) => m.name === modeName)
+      .map((m) => {
+        const start = m.span.start.offset + /^mode\s+/.exec(sliceSpan(content, m.span))![0].length;
+        return { start, end: start + modeName.length };
+      });
 
-      const innerPattern = nestedMatch[1];
+    const commands: Array<{ start: number; end: number; rule: RuleNode; text: string }> = [];
+    const actions: string[] = [];
+    const mentions = new RegExp(`\\b${modeName}\\b`);
+    for (const rule of ast.rules) {
+      for (const command of rule.alternatives.flatMap((alt) => alt.commands)) {
+        if (
+          (command.name === 'mode' || command.name === 'pushMode') &&
+          command.argument === modeName
+        ) {
+          const text = sliceSpan(content, command.span);
+          const start = command.span.start.offset + /^\w+\s*\(\s*/.exec(text)![0].length;
+          commands.push({ start, end: start + modeName.length, rule, text });
+        }
+      }
+      let inAction = false;
+      walkElements(rule.alternatives, (element) => {
+        if (
+          (element.kind === 'action' || element.kind === 'predicate') &&
+          mentions.test(element.code)
+        ) {
+          inAction = true;
+        }
+      });
+      if (inAction || rule.actions.some((a) => mentions.test(a.code))) {
+        actions.push(`rule ${rule.name}`);
+      }
+    }
+    for (const action of ast.namedActions.filter((a) => mentions.test(a.code))) {
+      actions.push(`@${action.scope ? `${action.scope}::` : ''}${action.name}`);
+    }
+    return { declarations, commands, actions };
+  }
 
-      // Check if inner pattern has alternation that could overlap
-      if (innerPattern.includes('|')) {
-        const alts = innerPattern.split('|').map((a) => a.trim());
-        // Check for overlapping alternatives
-        for (let i = 0; i < alts.length; i++) {
-          for (let j = i + 1; j < alts.length; j++) {
-            // If both start with same character or one is prefix of other
-            if (
-              alts[i] &&
-              alts[j] &&
-              (alts[i][0] === alts[j][0] ||
-                alts[i].startsWith(alts[j]) ||
-                alts[j].startsWith(alts[i]))
-            ) {
-              return true;
-            }
-          }
-        }
-      }
+  /**
+   * Create a new grammar template with mode structure
+   */
+  static createGrammarTemplate(
+    grammarName: string,
+    options?: {
+      type?: 'lexer' | 'parser' | 'combined';
+      modes?: string[];
+      includeBoilerplate?: boolean;
+    }
+  ): { success: boolean; grammar: string; message: string } {
+    const type = options?.type || 'lexer';
+    const modes = options?.modes || [];
+    const includeBoilerplate = options?.includeBoilerplate ?? true;
 
-      // Check for character class followed by same character class
-      const charClassMatch = innerPattern.match(/\[([^\]]+)\]/g);
-      if (charClassMatch && charClassMatch.length >= 1) {
-        // Simple character class repetition is usually fine
-        // But if there are multiple different classes, could be problematic
-        return false;
-      }
+    let grammar = '';
 
-      // Single rule reference is usually safe if it's a well-defined fragment
-      if (/^[A-Za-z_][A-Za-z0-9_]*$/.test(innerPattern.trim())) {
-        return false; // Single fragment reference - likely safe
-      }
+    // Grammar declaration
+    if (type === 'lexer') {
+      grammar += `lexer grammar ${grammarName};\n\n`;
+    } else if (type === 'parser') {
+      grammar += `parser grammar ${grammarName};\n\n`;
+    } else {
+      grammar += `grammar ${grammarName};\n\n`;
+    }
 
-      // Default to flagging for review if we can't determine safety
-      return true;
-    };
+    // Boilerplate for DEFAULT_MODE
+    if (includeBoilerplate && (type === 'lexer' || type === 'combined')) {
+      grammar += `// ============================================\n`;
+      grammar += `// DEFAULT_MODE - Main tokenization rules\n`;
+      grammar += `// ============================================\n\n`;
 
-    for (const rule of analysis.rules) {
-      if (rule.type !== 'lexer') continue;
+      grammar += `// Whitespace (usually skipped)\n`;
+      grammar += `WS: [ \\t\\r\\n]+ -> skip;\n\n`;
 
-      const def = rule.definition;
-      // Extract the pattern part
-      let pattern = def.replace(/^fragment\s+/, '');
-      const colonIndex = pattern.indexOf(':');
-      if (colonIndex >= 0) {
-        pattern = pattern.substring(colonIndex + 1);
-      }
-      pattern = pattern.split('->')[0].trim().replace(/;$/, '').trim();
+      grammar += `// Comments\n`;
+      grammar += `LINE_COMMENT: '//' ~[\\r\\n]* -> skip;\n`;
+      grammar += `BLOCK_COMMENT: '/*' .*? '*/' -> skip;\n\n`;
 
-      // Check for ReDoS patterns
+      grammar += `// Identifiers and literals\n`;
+      grammar += `ID: [a-zA-Z_] [a-zA-Z0-9_]*;\n`;
+      grammar += `NUMBER: [0-9]+ ('.' [0-9]+)?;\n`;
+      grammar += `STRING: '"' (~["\\\\] | '\\\\' .)* '"';\n\n`;
+    }
 
-      // Pattern 1: Nested quantifiers - but check for disjoint patterns
-      if (/\([^)]*[+*][^)]*\)[+*]/.test(pattern)) {
-        // Check if this uses disjoint character classes (safe)
-        if (isLikelyDisjoint(pattern)) {
-          // Skip - likely safe due to disjoint character classes
-        } else if (!hasOverlappingNested(pattern)) {
-          // Likely safe pattern like (F_SingleRule+)*
-          // Only report as low severity info
-          vulnerabilities.push({
-            ruleName: rule.name,
-            lineNumber: rule.lineNumber,
-            pattern,
-            issue: 'Nested quantifiers (likely safe)',
-            severity: 'low',
-            suggestion:
-              'Pattern uses nested repetition. Verify inner and outer patterns are disjoint for safety.',
-          });
-        } else {
-          // Potentially dangerous
-          vulnerabilities.push({
-            ruleName: rule.name,
-            lineNumber: rule.lineNumber,
-            pattern,
-            issue: 'Nested quantifiers with potential overlap',
-            severity: 'high',
-            suggestion:
-              'Avoid nested quantifiers like (a+)+. Use possessive quantifiers or atomic groups if supported.',
-          });
-        }
-      }
+    // Parser rules for combined grammar
+    if (type === 'combined' && includeBoilerplate) {
+      grammar += `// ============================================\n`;
+      grammar += `// Parser rules\n`;
+      grammar += `// ============================================\n\n`;
 
-      // Pattern 2: Overlapping alternatives like (a|a)+
-      if (/\(([^|)]+)\|(\1)\)/.test(pattern)) {
-        vulnerabilities.push({
-          ruleName: rule.name,
-          lineNumber: rule.lineNumber,
-          pattern,
-          issue: 'Overlapping alternatives',
-          severity: 'high',
-          suggestion: 'Remove duplicate alternatives or make them non-overlapping.',
-        });
-      }
+      grammar += `// Entry point\n`;
+      grammar += `program: statement* EOF;\n\n`;
 
-      // Pattern 3: Alternation with common prefix like (ab|ac)
-      const altMatch = pattern.match(/\(([^)]+)\)/);
-      if (altMatch) {
-        const alts = altMatch[1]
-          .split('|')
-          .map((a) => a.trim())
-          .filter((a) => a.length > 1);
-        for (let i = 0; i < alts.length; i++) {
-          for (let j = i + 1; j < alts.length; j++) {
-            if (alts[i][0] === alts[j][0] && alts[i].length > 1 && alts[j].length > 1) {
-              vulnerabilities.push({
-                ruleName: rule.name,
-                lineNumber: rule.lineNumber,
-                pattern,
-                issue: 'Alternatives with common prefix',
-                severity: 'medium',
-                suggestion: `Factor out common prefix: ${alts[i][0]}(${alts[i].slice(1)}|${alts[j].slice(1)})`,
-              });
-            }
-          }
-        }
-      }
+      grammar += `statement: expression ';'\n`;
+      grammar += `  | assignment ';'\n`;
+      grammar += `  ;\n\n`;
 
-      // Pattern 4: Unbounded repetition of broad character classes
-      if (/\[[^\]]*\][+*]/.test(pattern) && /\[[^\]]{10,}\]/.test(pattern)) {
-        vulnerabilities.push({
-          ruleName: rule.name,
-          lineNumber: rule.lineNumber,
-          pattern,
-          issue: 'Unbounded repetition of broad character class',
-          severity: 'medium',
-          suggestion: 'Limit the character class or add length bounds.',
-        });
-      }
+      grammar += `assignment: ID '=' expression;\n\n`;
 
-      // Pattern 5: Multiple optional quantifiers in sequence
-      const optionalSeq = pattern.match(/\w+\?\s*\w+\?\s*\w+\?/);
-      if (optionalSeq && optionalSeq[0].split(/\?/).length > 4) {
-        vulnerabilities.push({
-          ruleName: rule.name,
-          lineNumber: rule.lineNumber,
-          pattern,
-          issue: 'Multiple optional elements in sequence',
-          severity: 'low',
-          suggestion: 'Consider grouping optional elements or using a different structure.',
-        });
+      grammar += `expression\n`;
+      grammar += `  : ID\n`;
+      grammar += `  | NUMBER\n`;
+      grammar += `  | STRING\n`;
+      grammar += `  | expression ('+' | '-') expression\n`;
+      grammar += `  | '(' expression ')'\n`;
+      grammar += `  ;\n\n`;
+    }
+
+    // Add specified modes
+    for (const mode of modes) {
+      if (mode === 'DEFAULT_MODE') continue; // Already handled above
+
+      grammar += `// ============================================\n`;
+      grammar += `// ${mode}\n`;
+      grammar += `// ============================================\n\n`;
+
+      grammar += `mode ${mode};\n\n`;
+
+      if (includeBoilerplate) {
+        grammar += `// TODO: Add lexer rules for ${mode}\n`;
+        grammar += `// Example:\n`;
+        grammar += `// EXIT_${mode}: '}' -> popMode;\n\n`;
       }
     }
 
-    const summary = {
-      high: vulnerabilities.filter((v) => v.severity === 'high').length,
-      medium: vulnerabilities.filter((v) => v.severity === 'medium').length,
-      low: vulnerabilities.filter((v) => v.severity === 'low').length,
+    return {
+      success: true,
+      grammar,
+      message: `✓ Created ${type} grammar template '${grammarName}' with ${modes.length > 0 ? modes.length + ' mode(s)' : 'no additional modes'}.`,
     };
-
-    return { vulnerabilities, summary };
   }
 
   /**
-   * Check grammar style and best practices
+   * Calculate comprehensive grammar metrics including branching estimation.
+   * Orphan and hub rules are findings with the check ids orphan-rule and
+   * hub-rule (threshold `min` references, default 5).
    */
-  static checkStyle(grammarContent: string): {
-    issues: Array<{
-      type: 'naming' | 'formatting' | 'best-practice' | 'maintainability';
-      severity: 'error' | 'warning' | 'info';
-      ruleName?: string;
-      lineNumber?: number;
-      message: string;
-      suggestion?: string;
-    }>;
-    summary: {
-      errors: number;
-      warnings: number;
-      infos: number;
+  static calculateGrammarMetrics(
+    grammarContent: string,
+    config?: ProjectConfig
+  ): {
+    size: {
+      totalRules: number;
+      parserRules: number;
+      lexerRules: number;
+      fragments: number;
+      totalLines: number;
+      avgRuleLength: number;
+    };
+    branching: {
+      avgAlternatives: number;
+      maxAlternatives: number;
+      avgBranchingDepth: number;
+      maxBranchingDepth: number;
+      branchingDistribution: Record<string, number>;
+      rulesWithMostBranching: Array<{ name: string; alternatives: number; depth: number }>;
+    };
+    complexity: {
+      avgCyclomaticComplexity: number;
+      maxCyclomaticComplexity: number;
+      totalCyclomaticComplexity: number;
+      recursiveRules: string[];
+      estimatedParseComplexity: 'low' | 'medium' | 'high' | 'very-high';
+    };
+    dependencies: {
+      avgFanIn: number;
+      avgFanOut: number;
+      orphanRules: string[];
+      hubRules: string[];
+      mostReferenced: Array<{ name: string; count: number }>;
     };
-    score: number; // 0-100
   } {
     const analysis = this.analyze(grammarContent);
-    const issues: Array<{
-      type: 'naming' | 'formatting' | 'best-practice' | 'maintainability';
-      severity: 'error' | 'warning' | 'info';
-      ruleName?: string;
-      lineNumber?: number;
-      message: string;
-      suggestion?: string;
-    }> = [];
+    const lines = grammarContent.split('\n');
 
-    // Check naming conventions
-    for (const rule of analysis.rules) {
-      const isFragment = rule.definition.startsWith('fragment');
+    const parserRules = analysis.rules.filter((r) => r.type === 'parser');
+    const lexerRules = analysis.rules.filter((r) => r.type === 'lexer');
+    const fragments = lexerRules.filter((r) => r.definition.startsWith('fragment'));
 
-      // Lexer rules should start with uppercase (ANTLR requirement)
-      // Fragment rules often use prefixes like F_Xxx which is acceptable
-      if (rule.type === 'lexer') {
-        const startsWithUpper = /^[A-Z]/.test(rule.name);
-        const isStrictUpperCase = /^[A-Z][A-Z0-9_]*$/.test(rule.name);
+    // Calculate branching metrics
+    const branchingData: Array<{ name: string; alternatives: number; depth: number }> = [];
 
-        if (!startsWithUpper) {
-          // This is an error - ANTLR requires lexer rules to start with uppercase
-          issues.push({
-            type: 'naming',
-            severity: 'error',
-            ruleName: rule.name,
-            lineNumber: rule.lineNumber,
-            message: `Lexer rule '${rule.name}' must start with uppercase letter`,
-            suggestion: `Rename to ${rule.name.charAt(0).toUpperCase() + rule.name.slice(1)}`,
-          });
-        } else if (!isStrictUpperCase && !isFragment) {
-          // Non-fragment lexer rules should ideally be UPPER_CASE
-          // But this is just a style suggestion, not an error
-          issues.push({
-            type: 'naming',
-            severity: 'info', // Changed from warning to info
-            ruleName: rule.name,
-            lineNumber: rule.lineNumber,
-            message: `Lexer rule '${rule.name}' could use UPPER_CASE naming`,
-            suggestion: `Consider ${rule.name.toUpperCase().replace(/[^A-Z0-9_]/g, '_')}`,
-          });
-        }
-        // Fragment rules with mixed case (like F_HexDigit) are acceptable
-      }
+    for (const rule of parserRules) {
+      const def = rule.definition;
+      // Count alternatives (split by | outside of parentheses)
+      const alternatives = this.countAlternatives(def);
+      // Count branching depth (max nesting of subrules)
+      const depth = this.countBranchingDepth(def);
+      branchingData.push({ name: rule.name, alternatives, depth });
+    }
 
-      // Parser rules should be lowerCamelCase
-      if (rule.type === 'parser') {
-        if (!/^[a-z][a-zA-Z0-9_]*$/.test(rule.name)) {
-          issues.push({
-            type: 'naming',
-            severity: 'warning',
-            ruleName: rule.name,
-            lineNumber: rule.lineNumber,
-            message: `Parser rule '${rule.name}' should use lowerCamelCase naming`,
-            suggestion: `Consider renaming to ${rule.name.charAt(0).toLowerCase() + rule.name.slice(1)}`,
-          });
-        }
-      }
+    const avgAlternatives =
+      branchingData.length > 0
+        ? branchingData.reduce((sum, b) => sum + b.alternatives, 0) / branchingData.length
+        : 0;
+    const maxAlternatives = Math.max(...branchingData.map((b) => b.alternatives), 1);
+    const avgBranchingDepth =
+      branchingData.length > 0
+        ? branchingData.reduce((sum, b) => sum + b.depth, 0) / branchingData.length
+        : 0;
+    const maxBranchingDepth = Math.max(...branchingData.map((b) => b.depth), 0);
+
+    // Branching distribution
+    const branchingDistribution: Record<string, number> = {};
+    for (const b of branchingData) {
+      const bucket =
+        b.alternatives <= 2
+          ? '1-2'
+          : b.alternatives <= 5
+            ? '3-5'
+            : b.alternatives <= 10
+              ? '6-10'
+              : '10+';
+      branchingDistribution[bucket] = (branchingDistribution[bucket] || 0) + 1;
     }
 
-    // Check for overly complex rules
-    const metrics = this.calculateGrammarMetrics(grammarContent);
-    for (const rule of metrics.branching.rulesWithMostBranching) {
-      if (rule.alternatives > 10) {
-        const fullRule = analysis.rules.find((r) => r.name === rule.name);
-        issues.push({
-          type: 'maintainability',
-          severity: 'warning',
-          ruleName: rule.name,
-          lineNumber: fullRule?.lineNumber,
-          message: `Rule '${rule.name}' has ${rule.alternatives} alternatives, consider splitting`,
-          suggestion: 'Break into multiple smaller rules or use helper rules',
-        });
-      }
+    // Rules with most branching
+    const rulesWithMostBranching = [...branchingData]
+      .sort((a, b) => b.alternatives - a.alternatives || b.depth - a.depth)
+      .slice(0, 5);
+
+    // Calculate cyclomatic complexity
+    const complexityData: Array<{ name: string; complexity: number }> = [];
+    for (const rule of parserRules) {
+      const complexity = this.calculateRuleComplexity(rule.definition);
+      complexityData.push({ name: rule.name, complexity });
     }
 
-    // Check for unused rules (orphans that aren't entry points)
-    const entryPoints = ['program', 'start', 'file', 'compilationUnit', 'main'];
-    for (const orphan of metrics.dependencies.orphanRules) {
-      if (!entryPoints.includes(orphan.toLowerCase())) {
-        const rule = analysis.rules.find((r) => r.name === orphan);
-        issues.push({
-          type: 'best-practice',
-          severity: 'info',
-          ruleName: orphan,
-          lineNumber: rule?.lineNumber,
-          message: `Rule '${orphan}' is not referenced by any other rule`,
-          suggestion: "Remove if unused, or verify it's an entry point",
-        });
-      }
+    const totalCyclomaticComplexity = complexityData.reduce((sum, c) => sum + c.complexity, 0);
+    const avgCyclomaticComplexity =
+      complexityData.length > 0 ? totalCyclomaticComplexity / complexityData.length : 0;
+    const maxCyclomaticComplexity = Math.max(...complexityData.map((c) => c.complexity), 1);
+
+    // Detect recursive rules
+    const recursiveRules = this.detectRecursiveRules(analysis);
+
+    // Estimate parse complexity
+    let estimatedParseComplexity: 'low' | 'medium' | 'high' | 'very-high';
+    if (avgAlternatives < 3 && maxBranchingDepth <= 2 && recursiveRules.length === 0) {
+      estimatedParseComplexity = 'low';
+    } else if (avgAlternatives < 5 && maxBranchingDepth <= 3 && recursiveRules.length <= 2) {
+      estimatedParseComplexity = 'medium';
+    } else if (avgAlternatives < 8 || recursiveRules.length <= 5) {
+      estimatedParseComplexity = 'high';
+    } else {
+      estimatedParseComplexity = 'very-high';
     }
 
-    // Check for missing comments/documentation
-    const lines = grammarContent.split('\n');
+    // Calculate dependency metrics
+    const ruleReferences = new Map<string, Set<string>>();
+    const referencedBy = new Map<string, Set<string>>();
+
     for (const rule of analysis.rules) {
-      // Check if there's a comment within 3 lines before the rule
-      let hasNearbyComment = false;
-      for (let i = Math.max(0, rule.lineNumber - 4); i < rule.lineNumber - 1; i++) {
-        const line = lines[i]?.trim();
-        if (line && (line.startsWith('//') || line.startsWith('/*') || line.startsWith('*'))) {
-          hasNearbyComment = true;
-          break;
+      ruleReferences.set(rule.name, new Set(rule.referencedRules));
+      for (const ref of rule.referencedRules) {
+        if (!referencedBy.has(ref)) {
+          referencedBy.set(ref, new Set());
         }
+        referencedBy.get(ref)!.add(rule.name);
       }
+    }
 
-      // Only warn for complex rules without comments
-      const complexity = this.calculateRuleComplexity(rule.definition);
-      if (!hasNearbyComment && complexity > 5 && rule.type === 'parser') {
-        issues.push({
-          type: 'maintainability',
-          severity: 'info',
-          ruleName: rule.name,
-          lineNumber: rule.lineNumber,
-          message: `Complex rule '${rule.name}' lacks documentation`,
-          suggestion: 'Add a comment explaining the rule purpose',
-        });
-      }
+    // Fan-in (how many rules reference this rule)
+    const fanInValues: number[] = [];
+    for (const rule of analysis.rules) {
+      fanInValues.push(referencedBy.get(rule.name)?.size || 0);
     }
 
-    // Check for grammar declaration
-    if (!grammarContent.match(/^(lexer\s+grammar|parser\s+grammar|grammar)\s+/m)) {
-      issues.push({
-        type: 'best-practice',
-        severity: 'error',
-        message: 'Missing grammar declaration',
-        suggestion: 'Add "grammar Name;" at the beginning of the file',
-      });
+    // Fan-out (how many rules this rule references)
+    const fanOutValues: number[] = [];
+    for (const rule of analysis.rules) {
+      fanOutValues.push(ruleReferences.get(rule.name)?.size || 0);
     }
 
-    // Calculate score
-    const errors = issues.filter((i) => i.severity === 'error').length;
-    const warnings = issues.filter((i) => i.severity === 'warning').length;
-    const infos = issues.filter((i) => i.severity === 'info').length;
+    const avgFanIn =
+      fanInValues.length > 0 ? fanInValues.reduce((sum, v) => sum + v, 0) / fanInValues.length : 0;
+    const avgFanOut =
+      fanOutValues.length > 0
+        ? fanOutValues.reduce((sum, v) => sum + v, 0) / fanOutValues.length
+        : 0;
 
-    // Start at 100, deduct for issues
-    // Info-level issues are just suggestions and don't penalize the score
-    let score = 100;
-    score -= errors * 20;
-    score -= warnings * 5;
-    // Don't deduct for infos - they're just suggestions
-    score = Math.max(0, Math.min(100, score));
+    // Orphan rules (not referenced by any OTHER rule, excluding self-references)
+    const orphans = analysis.rules.filter((r) => {
+      if (r.type !== 'parser') return false;
+      const refs = referencedBy.get(r.name);
+      // Not an orphan if it's referenced by at least one OTHER rule
+      if (!refs) return true;
+      // Check if any reference is from a different rule
+      return ![...refs].some((refName) => refName !== r.name);
+    });
+    const orphanRules = this.applyCheckPolicy(orphans, grammarContent, config, (r) => ({
+      check: 'orphan-rule',
+      lineNumber: r.lineNumber,
+    })).map((r) => r.name);
+
+    // Hub rules (referenced by many rules)
+    const hubMin = this.checkThreshold(config, 'hub-rule', 'min', 5);
+    const hubs = analysis.rules.filter((r) => (referencedBy.get(r.name)?.size || 0) >= hubMin);
+    const hubRules = this.applyCheckPolicy(hubs, grammarContent, config, (r) => ({
+      check: 'hub-rule',
+      lineNumber: r.lineNumber,
+    })).map((r) => r.name);
+
+    // Most referenced rules
+    const mostReferenced = [...referencedBy.entries()]
+      .map(([name, refs]) => ({ name, count: refs.size }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 5);
 
     return {
-      issues,
-      summary: { errors, warnings, infos },
-      score,
+      size: {
+        totalRules: analysis.rules.length,
+        parserRules: parserRules.length,
+        lexerRules: lexerRules.length,
+        fragments: fragments.length,
+        totalLines: lines.length,
+        avgRuleLength:
+          analysis.rules.length > 0 ? Math.round(lines.length / analysis.rules.length) : 0,
+      },
+      branching: {
+        avgAlternatives: Math.round(avgAlternatives * 10) / 10,
+        maxAlternatives,
+        avgBranchingDepth: Math.round(avgBranchingDepth * 10) / 10,
+        maxBranchingDepth,
+        branchingDistribution,
+        rulesWithMostBranching,
+      },
+      complexity: {
+        avgCyclomaticComplexity: Math.round(avgCyclomaticComplexity * 10) / 10,
+        maxCyclomaticComplexity,
+        totalCyclomaticComplexity,
+        recursiveRules,
+        estimatedParseComplexity,
+      },
+      dependencies: {
+        avgFanIn: Math.round(avgFanIn * 10) / 10,
+        avgFanOut: Math.round(avgFanOut * 10) / 10,
+        orphanRules,
+        hubRules,
+        mostReferenced,
+      },
     };
   }
 
   /**
-   * Analyze grammar for performance bottlenecks and improvement opportunities
+   * Count alternatives in a rule definition
    */
-  static analyzeBottlenecks(grammarContent: string): {
-    bottlenecks: Array<{
-      type:
-        | 'high-branching'
-        | 'tilde-negation'
-        | 'missing-mode'
-        | 'greedy-loop'
-        | 'deep-recursion'
-        | 'prefix-collision';
-      severity: 'high' | 'medium' | 'low';
-      ruleName?: string;
-      lineNumber?: number;
-      description: string;
-      currentPattern?: string;
-      suggestion: string;
-      impact: string;
-    }>;
-    metrics: {
-      totalBottlenecks: number;
-      highSeverity: number;
-      estimatedImprovement: string;
-    };
-    recommendations: string[];
-  } {
-    const bottlenecks: Array<{
-      type:
-        | 'high-branching'
-        | 'tilde-negation'
-        | 'missing-mode'
-        | 'greedy-loop'
-        | 'deep-recursion'
-        | 'prefix-collision';
-      severity: 'high' | 'medium' | 'low';
-      ruleName?: string;
-      lineNumber?: number;
-      description: string;
-      currentPattern?: string;
-      suggestion: string;
-      impact: string;
-    }> = [];
-
-    const analysis = this.analyze(grammarContent);
-    const metrics = this.calculateGrammarMetrics(grammarContent);
-    const recommendations: string[] = [];
+  private static countAlternatives(definition: string): number {
+    const def = definition.split('->')[0].split(';')[0]; // Remove actions
+    let count = 1;
+    let depth = 0;
+    let inString = false;
+    let escapeNext = false;
 
-    // 1. Detect high-branching rules (many alternatives)
-    for (const rule of metrics.branching.rulesWithMostBranching) {
-      const fullRule = analysis.rules.find((r) => r.name === rule.name);
-      let severity: 'high' | 'medium' | 'low' = 'low';
-      let impact = '';
+    for (let i = 0; i < def.length; i++) {
+      const char = def[i];
 
-      if (rule.alternatives > 50) {
-        severity = 'high';
-        impact = 'Severe prediction overhead, likely causes SLL→LL fallback';
-      } else if (rule.alternatives > 20) {
-        severity = 'medium';
-        impact = 'Moderate prediction overhead, may cause slowdown';
-      } else if (rule.alternatives > 10) {
-        severity = 'low';
-        impact = 'Minor prediction overhead';
+      if (escapeNext) {
+        escapeNext = false;
+        continue;
       }
 
-      if (severity !== 'low' || rule.alternatives > 5) {
-        bottlenecks.push({
-          type: 'high-branching',
-          severity,
-          ruleName: rule.name,
-          lineNumber: fullRule?.lineNumber,
-          description: `Rule '${rule.name}' has ${rule.alternatives} alternatives`,
-          currentPattern:
-            fullRule?.definition.substring(0, 100) +
-            (fullRule && fullRule.definition.length > 100 ? '...' : ''),
-          suggestion: this.getBranchingSuggestion(rule.alternatives),
-          impact,
-        });
+      if (char === '\\') {
+        escapeNext = true;
+        continue;
       }
-    }
 
-    // 2. Detect tilde negation patterns (~NEWLINE, ~[\r\n], etc.)
-    const tildePatterns = [
-      { regex: /~([A-Z_][A-Z0-9_]*)\+/g, name: 'negated token repetition' },
-      { regex: /~\[[^\]]+\]\+/g, name: 'negated character class repetition' },
-      { regex: /~([A-Z_][A-Z0-9_]*)\*/g, name: 'negated token zero-or-more' },
-      { regex: /~NEWLINE/gi, name: 'newline negation' },
-    ];
+      if (char === "'" && !inString) {
+        inString = true;
+        continue;
+      }
 
-    const lines = grammarContent.split('\n');
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      for (const pattern of tildePatterns) {
-        const matches = line.matchAll(pattern.regex);
-        for (const match of matches) {
-          const ruleMatch = line.match(/^([a-z][a-zA-Z0-9_]*)\s*:/);
-          const ruleName = ruleMatch ? ruleMatch[1] : undefined;
+      if (char === "'" && inString) {
+        inString = false;
+        continue;
+      }
 
-          bottlenecks.push({
-            type: 'tilde-negation',
-            severity: 'medium',
-            ruleName,
-            lineNumber: i + 1,
-            description: `Tilde negation pattern '${match[0]}' can cause ambiguity`,
-            currentPattern: line.trim(),
-            suggestion:
-              'Consider using a lexer mode for line-based content, or use explicit token matching',
-            impact: 'May cause backtracking and slower parsing',
-          });
-        }
+      if (!inString) {
+        if (char === '(' || char === '[') depth++;
+        if (char === ')' || char === ']') depth--;
+        if (char === '|' && depth === 0) count++;
       }
     }
 
-    // 3. Detect missing lexer mode opportunities
-    const modeOpportunities = this.detectModeOpportunities(grammarContent, analysis);
-    for (const opp of modeOpportunities) {
-      bottlenecks.push({
-        type: 'missing-mode',
-        severity: opp.severity,
-        ruleName: opp.ruleName,
-        lineNumber: opp.lineNumber,
-        description: opp.description,
-        suggestion: opp.suggestion,
-        impact: opp.impact,
-      });
-    }
+    return count;
+  }
 
-    // 4. Detect greedy loops that could cause issues
-    const greedyPatterns = [
-      {
-        regex: /\(\.\*\)\s*\?/g,
-        name: 'reluctant any',
-        issue: 'Reluctant .* can cause excessive backtracking',
-      },
-      { regex: /\.\+\?\./g, name: 'reluctant some', issue: 'Pattern may match less than expected' },
-      {
-        regex: /\([^)]*\*\)\s*\*/g,
-        name: 'nested star',
-        issue: 'Nested quantifiers can cause exponential backtracking',
-      },
-    ];
+  /**
+   * Count maximum branching depth (subrule nesting)
+   */
+  private static countBranchingDepth(definition: string): number {
+    let maxDepth = 0;
+    let currentDepth = 0;
+    let inString = false;
+    let escapeNext = false;
 
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      for (const pattern of greedyPatterns) {
-        if (pattern.regex.test(line)) {
-          const ruleMatch = line.match(/^([a-zA-Z_][a-zA-Z0-9_]*)\s*:/);
-          bottlenecks.push({
-            type: 'greedy-loop',
-            severity: 'medium',
-            ruleName: ruleMatch?.[1],
-            lineNumber: i + 1,
-            description: pattern.issue,
-            currentPattern: line.trim(),
-            suggestion: 'Consider restructuring the pattern or using lexer modes',
-            impact: 'May cause slow parsing or ReDoS vulnerabilities',
-          });
-        }
+    for (let i = 0; i < definition.length; i++) {
+      const char = definition[i];
+
+      if (escapeNext) {
+        escapeNext = false;
+        continue;
       }
-    }
 
-    // 5. Detect potential deep recursion
-    for (const rule of analysis.rules) {
-      if (rule.type === 'parser') {
-        const recursionDepth = this.detectRecursionDepth(rule.name, analysis.rules, new Set());
-        if (recursionDepth > 3) {
-          bottlenecks.push({
-            type: 'deep-recursion',
-            severity: recursionDepth > 5 ? 'high' : 'medium',
-            ruleName: rule.name,
-            lineNumber: rule.lineNumber,
-            description: `Rule has potential recursion depth of ${recursionDepth}`,
-            currentPattern: rule.definition.substring(0, 80),
-            suggestion: 'Consider using iterative patterns or increasing recursion limit',
-            impact: 'May cause stack overflow for deeply nested input',
-          });
-        }
+      if (char === '\\') {
+        escapeNext = true;
+        continue;
       }
-    }
 
-    // 6. Detect token prefix collisions (keywords that prefix other keywords)
-    const lexerRules = analysis.rules.filter((r) => r.type === 'lexer');
-    const keywordRules = lexerRules.filter((r) => /^[A-Z_]+$/.test(r.name));
-    const literalKeywords: Array<{ name: string; pattern: string; line: number }> = [];
+      if (char === "'" && !inString) {
+        inString = true;
+        continue;
+      }
 
-    for (const rule of keywordRules) {
-      // Match both single and double quoted literals (anywhere in definition)
-      const literalMatch = rule.definition.match(/'([^']+)'/) || rule.definition.match(/"([^"]+)"/);
-      if (literalMatch) {
-        literalKeywords.push({ name: rule.name, pattern: literalMatch[1], line: rule.lineNumber });
+      if (char === "'" && inString) {
+        inString = false;
+        continue;
       }
-    }
 
-    for (const kw1 of literalKeywords) {
-      for (const kw2 of literalKeywords) {
-        if (kw1.name !== kw2.name && kw2.pattern.startsWith(kw1.pattern)) {
-          bottlenecks.push({
-            type: 'prefix-collision',
-            severity: 'low',
-            ruleName: kw1.name,
-            lineNumber: kw1.line,
-            description: `Keyword '${kw1.pattern}' is a prefix of '${kw2.pattern}'`,
-            suggestion:
-              'Ensure rule ordering is correct (longer patterns first) or use semantic predicates',
-            impact: 'May cause incorrect tokenization if ordering is wrong',
-          });
+      if (!inString) {
+        if (char === '(') {
+          currentDepth++;
+          maxDepth = Math.max(maxDepth, currentDepth);
         }
+        if (char === ')') currentDepth--;
       }
     }
 
-    // Calculate metrics
-    const highSeverity = bottlenecks.filter((b) => b.severity === 'high').length;
-    const mediumSeverity = bottlenecks.filter((b) => b.severity === 'medium').length;
+    return maxDepth;
+  }
 
-    let estimatedImprovement = 'Minor';
-    if (highSeverity > 3 || (highSeverity > 0 && mediumSeverity > 5)) {
-      estimatedImprovement = 'Significant (2-5x faster parsing)';
-    } else if (highSeverity > 0 || mediumSeverity > 3) {
-      estimatedImprovement = 'Moderate (20-50% faster parsing)';
-    }
+  /**
+   * Calculate cyclomatic complexity for a rule
+   */
+  private static calculateRuleComplexity(definition: string): number {
+    let complexity = 1; // Base complexity
 
-    // Generate recommendations
-    if (bottlenecks.some((b) => b.type === 'high-branching' && b.severity === 'high')) {
-      recommendations.push('🔥 Critical: Split high-branching rules into hierarchical sub-rules');
-    }
-    if (bottlenecks.some((b) => b.type === 'tilde-negation')) {
-      recommendations.push(
-        '💡 Consider using lexer modes for line-based content instead of tilde negation'
-      );
-    }
-    if (bottlenecks.some((b) => b.type === 'missing-mode')) {
-      recommendations.push(
-        '🎯 Add lexer modes for structured content (strings, comments, data blocks)'
-      );
-    }
-    if (bottlenecks.some((b) => b.type === 'deep-recursion')) {
-      recommendations.push('⚠️ Review recursive rules for potential stack overflow issues');
-    }
-    if (literalKeywords.length > 50) {
-      recommendations.push('📦 Consider grouping related keywords with shared prefixes');
-    }
+    const def = definition.split('->')[0].split(';')[0];
+    let depth = 0;
+    let inString = false;
+    let escapeNext = false;
 
-    // Deduplicate bottlenecks
-    const uniqueBottlenecks = bottlenecks.filter(
-      (b, i, arr) =>
-        arr.findIndex(
-          (b2) => b2.type === b.type && b2.ruleName === b.ruleName && b2.lineNumber === b.lineNumber
-        ) === i
-    );
+    for (let i = 0; i < def.length; i++) {
+      const char = def[i];
 
-    // Sort by severity
-    const severityOrder = { high: 0, medium: 1, low: 2 };
-    uniqueBottlenecks.sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity]);
+      if (escapeNext) {
+        escapeNext = false;
+        continue;
+      }
 
-    return {
-      bottlenecks: uniqueBottlenecks,
-      metrics: {
-        totalBottlenecks: uniqueBottlenecks.length,
-        highSeverity,
-        estimatedImprovement,
-      },
-      recommendations,
-    };
+      if (char === '\\') {
+        escapeNext = true;
+        continue;
+      }
+
+      if (char === "'" && !inString) {
+        inString = true;
+        continue;
+      }
+
+      if (char === "'" && inString) {
+        inString = false;
+        continue;
+      }
+
+      if (!inString) {
+        if (char === '(' || char === '[') depth++;
+        if (char === ')' || char === ']') depth--;
+        // Each alternative adds to complexity
+        if (char === '|' && depth === 0) complexity++;
+        // Optional and repetition operators add complexity
+        if ((char === '?' || char === '*' || char === '+') && depth === 0) complexity++;
+      }
+    }
+
+    return complexity;
   }
 
-  private static getBranchingSuggestion(alternatives: number): string {
-    if (alternatives > 50) {
-      return 'CRITICAL: Use hierarchical dispatch - create sub-rules grouping related alternatives (e.g., config_stanza, feature_stanza, security_stanza)';
-    } else if (alternatives > 20) {
-      return 'Create helper rules to group related alternatives by category';
-    } else if (alternatives > 10) {
-      return 'Consider grouping alternatives by first token for faster prediction';
+  /**
+   * Detect recursive rules (direct and indirect)
+   */
+  private static detectRecursiveRules(analysis: GrammarAnalysis): string[] {
+    const recursive: string[] = [];
+
+    // Only check parser rules for recursion (lexer rules are not recursive in the same way)
+    for (const rule of analysis.rules) {
+      if (rule.type !== 'parser') continue;
+
+      if (rule.referencedRules.includes(rule.name)) {
+        // Direct recursion
+        if (!recursive.includes(rule.name)) {
+          recursive.push(rule.name);
+        }
+      }
     }
-    return 'Minor optimization possible by reordering alternatives by frequency';
+
+    // Check for indirect recursion (simplified - only one level)
+    for (const rule of analysis.rules) {
+      if (rule.type !== 'parser') continue;
+
+      for (const ref of rule.referencedRules) {
+        const refRule = analysis.rules.find((r) => r.name === ref && r.type === 'parser');
+        if (refRule && refRule.referencedRules.includes(rule.name)) {
+          if (!recursive.includes(rule.name)) {
+            recursive.push(rule.name);
+          }
+        }
+      }
+    }
+
+    return recursive;
   }
 
-  private static detectModeOpportunities(
+  /**
+   * Detect ReDoS (Regular Expression Denial of Service) vulnerabilities,
+   * honouring project config and suppression comments
+   */
+  static detectReDoS(
     grammarContent: string,
-    analysis: GrammarAnalysis
-  ): Array<{
-    ruleName?: string;
-    lineNumber?: number;
-    severity: 'high' | 'medium' | 'low';
-    description: string;
-    suggestion: string;
-    impact: string;
-  }> {
-    const opportunities: Array<{
-      ruleName?: string;
-      lineNumber?: number;
+    config?: ProjectConfig
+  ): {
+    vulnerabilities: Array<{
+      check: string;
+      ruleName: string;
+      lineNumber: number;
+      pattern: string;
+      issue: string;
+      severity: 'high' | 'medium' | 'low';
+      suggestion: string;
+    }>;
+    summary: {
+      high: number;
+      medium: number;
+      low: number;
+    };
+  } {
+    const analysis = this.analyze(grammarContent);
+    let vulnerabilities: Array<{
+      check: string;
+      ruleName: string;
+      lineNumber: number;
+      pattern: string;
+      issue: string;
       severity: 'high' | 'medium' | 'low';
-      description: string;
       suggestion: string;
-      impact: string;
     }> = [];
 
-    // Check if grammar already has modes
-    const existingModes = grammarContent.match(/^mode\s+[A-Z_]+/gm) || [];
-    if (existingModes.length > 0) {
-      // Already has some modes, look for expansion opportunities
-      opportunities.push({
-        severity: 'low',
-        description: `Grammar has ${existingModes.length} mode(s), consider expanding for more context-sensitive parsing`,
-        suggestion: 'Add modes for strings, comments, or structured data blocks',
-        impact: 'Improved tokenization accuracy and performance',
-      });
-    }
+    // Helper: Check if pattern uses disjoint character classes
+    // Common disjoint pairs that are safe for nested repetition
+    const isLikelyDisjoint = (pattern: string): boolean => {
+      // Check for references to fragment rules that suggest disjoint sets
+      const fragmentRefs = pattern.match(/\bF_[A-Za-z_]+/g) || [];
+      if (fragmentRefs.length >= 2) {
+        // Check for complementary naming patterns
+        const names = fragmentRefs.map((r) => r.replace('F_', '').toLowerCase());
 
-    // Look for line-based content patterns that could use modes
-    const lines = grammarContent.split('\n');
-    let lineBasedRules = 0;
+        // Check for common complementary patterns
+        for (let i = 0; i < names.length; i++) {
+          for (let j = i + 1; j < names.length; j++) {
+            const n1 = names[i];
+            const n2 = names[j];
 
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      // Look for rules that consume "rest of line"
-      if (line.match(/~NEWLINE.*NEWLINE/i) || line.match(/\~[\r\n].*\r?\n/)) {
-        lineBasedRules++;
+            // Whitespace/NonWhitespace
+            if (
+              (n1.includes('whitespace') && n2.includes('nonwhitespace')) ||
+              (n1.includes('nonwhitespace') && n2.includes('whitespace'))
+            ) {
+              return true;
+            }
+
+            // Newline/NonNewline
+            if (
+              (n1.includes('newline') && n2.includes('nonnewline')) ||
+              (n1.includes('nonnewline') && n2.includes('newline'))
+            ) {
+              return true;
+            }
+
+            // Digit/NonDigit
+            if (
+              (n1.includes('digit') && n2.includes('nondigit')) ||
+              (n1.includes('nondigit') && n2.includes('digit'))
+            ) {
+              return true;
+            }
+
+            // Whitespace and NewlineChar are disjoint (spaces vs \r\n)
+            if (
+              (n1.includes('whitespace') && n2.includes('newline')) ||
+              (n1.includes('newline') && n2.includes('whitespace'))
+            ) {
+              return true;
+            }
+
+            // Word and NonWord
+            if (
+              (n1.includes('word') && !n1.includes('nonword') && n2.includes('nonword')) ||
+              (n1.includes('nonword') && n2.includes('word') && !n2.includes('nonword'))
+            ) {
+              return true;
+            }
+          }
+        }
       }
-    }
 
-    if (lineBasedRules > 3) {
-      opportunities.push({
-        severity: 'medium',
-        description: `${lineBasedRules} rules use line-based content patterns`,
-        suggestion:
-          'Create a M_LineContent mode triggered by keywords like "description", "remark", "hostname"',
-        impact: 'Cleaner grammar, better error messages, faster tokenization',
-      });
-    }
+      // Check for character class disjointness patterns
+      // e.g., [ \t]* [\r\n]+ - these are disjoint
+      if (/\[[^\]]*\]\s*[+*?]?\s*\[[^\]]*\][+*?]/.test(pattern)) {
+        const charClasses = pattern.match(/\[[^\]]+\]/g) || [];
+        if (charClasses.length >= 2) {
+          // Common disjoint pairs
+          for (let i = 0; i < charClasses.length; i++) {
+            for (let j = i + 1; j < charClasses.length; j++) {
+              const c1 = charClasses[i];
+              const c2 = charClasses[j];
 
-    // Look for string/quoted content without modes
-    const stringRules = analysis.rules.filter(
-      (r) =>
-        r.definition.includes('QUOTE') ||
-        r.definition.includes("'\"'") ||
-        r.name.match(/STRING|TEXT/i) ||
-        r.definition.match(/["']~["']/) || // String with tilde negation
-        r.definition.match(/"[^"]*"/) || // Contains double-quoted literal
-        r.definition.match(/'[^']*'/) // Contains single-quoted literal
-    );
+              // Whitespace [ \t] vs newline [\r\n]
+              const isWhitespace = /\s/.test(c1) || c1.includes(' \\t');
+              const isNewline = /\r|\n/.test(c2) || c2.includes('\\r') || c2.includes('\\n');
+              if ((isWhitespace && isNewline) || (isNewline && isWhitespace)) {
+                return true;
+              }
+            }
+          }
+        }
+      }
 
-    if (stringRules.length > 0 && existingModes.length === 0) {
-      opportunities.push({
+      const disjointPatterns = [
+        // Whitespace vs NonWhitespace
+        /Whitespace.*NonWhitespace|NonWhitespace.*Whitespace/i,
+        // Digit vs NonDigit
+        /Digit.*NonDigit|NonDigit.*Digit/i,
+        // Word vs NonWord
+        /Word.*NonWord|NonWord.*Word/i,
+        // Newline vs NonNewline
+        /Newline.*NonNewline|NonNewline.*Newline/i,
+      ];
+
+      return disjointPatterns.some((p) => p.test(pattern));
+    };
+
+    // Helper: Check for truly overlapping nested quantifiers
+    const hasOverlappingNested = (pattern: string): boolean => {
+      // Match nested group with quantifier inside, then quantifier outside
+      // e.g., (a+)+, (a*)*, ([x]+)+
+      const nestedMatch = pattern.match(/\(([^)]+)[+*]\)[+*]/);
+      if (!nestedMatch) return false;
+
+      const innerPattern = nestedMatch[1];
+
+      // Check if inner pattern has alternation that could overlap
+      if (innerPattern.includes('|')) {
+        const alts = innerPattern.split('|').map((a) => a.trim());
+        // Check for overlapping alternatives
+        for (let i = 0; i < alts.length; i++) {
+          for (let j = i + 1; j < alts.length; j++) {
+            // If both start with same character or one is prefix of other
+            if (
+              alts[i] &&
+              alts[j] &&
+              (alts[i][0] === alts[j][0] ||
+                alts[i].startsWith(alts[j]) ||
+                alts[j].startsWith(alts[i]))
+            ) {
+              return true;
+            }
+          }
+        }
+      }
+
+      // Check for character class followed by same character class
+      const charClassMatch = innerPattern.match(/\[([^\]]+)\]/g);
+      if (charClassMatch && charClassMatch.length >= 1) {
+        // Simple character class repetition is usually fine
+        // But if there are multiple different classes, could be problematic
+        return false;
+      }
+
+      // Single rule reference is usually safe if it's a well-defined fragment
+      if (/^[A-Za-z_][A-Za-z0-9_]*$/.test(innerPattern.trim())) {
+        return false; // Single fragment reference - likely safe
+      }
+
+      // Default to flagging for review if we can't determine safety
+      return true;
+    };
+
+    const minClassLength = this.checkThreshold(
+      config,
+      'redos-broad-repetition',
+      'minClassLength',
+      10
+    );
+    for (const rule of analysis.rules) {
+      if (rule.type !== 'lexer') continue;
+
+      const def = rule.definition;
+      // Extract the pattern part
+      let pattern = def.replace(/^fragment\s+/, '');
+      const colonIndex = pattern.indexOf(':');
+      if (colonIndex >= 0) {
+        pattern = pattern.substring(colonIndex + 1);
+      }
+      pattern = pattern.split('->')[0].trim().replace(/;$/, '').trim();
+
+      // Check for ReDoS patterns
+
+      // Pattern 1: Nested quantifiers - but check for disjoint patterns
+      if (/\([^)]*[+*][^)]*\)[+*]/.test(pattern)) {
+        // Check if this uses disjoint character classes (safe)
+        if (isLikelyDisjoint(pattern)) {
+          // Skip - likely safe due to disjoint character classes
+        } else if (!hasOverlappingNested(pattern)) {
+          // Likely safe pattern like (F_SingleRule+)*
+          // Only report as low severity info
+          vulnerabilities.push({
+            check: 'redos-nested-quantifier',
+            ruleName: rule.name,
+            lineNumber: rule.lineNumber,
+            pattern,
+            issue: 'Nested quantifiers (likely safe)',
+            severity: 'low',
+            suggestion:
+              'Pattern uses nested repetition. Verify inner and outer patterns are disjoint for safety.',
+          });
+        } else {
+          // Potentially dangerous
+          vulnerabilities.push({
+            check: 'redos-nested-quantifier',
+            ruleName: rule.name,
+            lineNumber: rule.lineNumber,
+            pattern,
+            issue: 'Nested quantifiers with potential overlap',
+            severity: 'high',
+            suggestion:
+              'Avoid nested quantifiers like (a+)+. Use possessive quantifiers or atomic groups if supported.',
+          });
+        }
+      }
+
+      // Pattern 2: Overlapping alternatives like (a|a)+
+      if (/\(([^|)]+)\|(\1)\)/.test(pattern)) {
+        vulnerabilities.push({
+          check: 'redos-overlapping-alternatives',
+          ruleName: rule.name,
+          lineNumber: rule.lineNumber,
+          pattern,
+          issue: 'Overlapping alternatives',
+          severity: 'high',
+          suggestion: 'Remove duplicate alternatives or make them non-overlapping.',
+        });
+      }
+
+      // Pattern 3: Alternation with common prefix like (ab|ac)
+      const altMatch = pattern.match(/\(([^)]+)\)/);
+      if (altMatch) {
+        const alts = altMatch[1]
+          .split('|')
+          .map((a) => a.trim())
+          .filter((a) => a.length > 1);
+        for (let i = 0; i < alts.length; i++) {
+          for (let j = i + 1; j < alts.length; j++) {
+            if (alts[i][0] === alts[j][0] && alts[i].length > 1 && alts[j].length > 1) {
+              vulnerabilities.push({
+                check: 'redos-common-prefix',
+                ruleName: rule.name,
+                lineNumber: rule.lineNumber,
+                pattern,
+                issue: 'Alternatives with common prefix',
+                severity: 'medium',
+                suggestion: `Factor out common prefix: ${alts[i][0]}(${alts[i].slice(1)}|${alts[j].slice(1)})`,
+              });
+            }
+          }
+        }
+      }
+
+      // Pattern 4: Unbounded repetition of broad character classes
+      const classes = pattern.match(/\[[^\]]*\]/g) || [];
+      if (/\[[^\]]*\][+*]/.test(pattern) && classes.some((c) => c.length - 2 >= minClassLength)) {
+        vulnerabilities.push({
+          check: 'redos-broad-repetition',
+          ruleName: rule.name,
+          lineNumber: rule.lineNumber,
+          pattern,
+          issue: 'Unbounded repetition of broad character class',
+          severity: 'medium',
+          suggestion: 'Limit the character class or add length bounds.',
+        });
+      }
+
+      // Pattern 5: Multiple optional quantifiers in sequence
+      const optionalSeq = pattern.match(/\w+\?\s*\w+\?\s*\w+\?/);
+      if (optionalSeq && optionalSeq[0].split(/\?/).length > 4) {
+        vulnerabilities.push({
+          check: 'redos-optional-sequence',
+          ruleName: rule.name,
+          lineNumber: rule.lineNumber,
+          pattern,
+          issue: 'Multiple optional elements in sequence',
+          severity: 'low',
+          suggestion: 'Consider grouping optional elements or using a different structure.',
+        });
+      }
+    }
+
+    // Config severities use the error/warning/info scale of the other checks
+    const levels = { error: 'high', warning: 'medium', info: 'low' } as const;
+    vulnerabilities = this.applyCheckPolicy(
+      vulnerabilities,
+      grammarContent,
+      config,
+      (v) => ({ check: v.check, lineNumber: v.lineNumber }),
+      (v, severity) => ({ ...v, severity: levels[severity] })
+    );
+
+    const summary = {
+      high: vulnerabilities.filter((v) => v.severity === 'high').length,
+      medium: vulnerabilities.filter((v) => v.severity === 'medium').length,
+      low: vulnerabilities.filter((v) => v.severity === 'low').length,
+    };
+
+    return { vulnerabilities, summary };
+  }
+
+  /**
+   * Check grammar style and best practices, honouring project config and
+   * suppression comments
+   */
+  static checkStyle(
+    grammarContent: string,
+    config?: ProjectConfig
+  ): {
+    issues: Array<{
+      type: 'naming' | 'formatting' | 'best-practice' | 'maintainability';
+      check: string;
+      severity: 'error' | 'warning' | 'info';
+      ruleName?: string;
+      lineNumber?: number;
+      message: string;
+      suggestion?: string;
+    }>;
+    summary: {
+      errors: number;
+      warnings: number;
+      infos: number;
+    };
+    score: number; // 0-100
+  } {
+    const analysis = this.analyze(grammarContent);
+    let issues: Array<{
+      type: 'naming' | 'formatting' | 'best-practice' | 'maintainability';
+      check: string;
+      severity: 'error' | 'warning' | 'info';
+      ruleName?: string;
+      lineNumber?: number;
+      message: string;
+      suggestion?: string;
+    }> = [];
+
+    // Check naming conventions
+    for (const rule of analysis.rules) {
+      const isFragment = rule.definition.startsWith('fragment');
+
+      // Lexer rules should start with uppercase (ANTLR requirement)
+      // Fragment rules often use prefixes like F_Xxx which is acceptable
+      if (rule.type === 'lexer') {
+        const startsWithUpper = /^[A-Z]/.test(rule.name);
+        const isStrictUpperCase = /^[A-Z][A-Z0-9_]*$/.test(rule.name);
+
+        if (!startsWithUpper) {
+          // This is an error - ANTLR requires lexer rules to start with uppercase
+          issues.push({
+            type: 'naming',
+            check: 'lexer-rule-case',
+            severity: 'error',
+            ruleName: rule.name,
+            lineNumber: rule.lineNumber,
+            message: `Lexer rule '${rule.name}' must start with uppercase letter`,
+            suggestion: `Rename to ${rule.name.charAt(0).toUpperCase() + rule.name.slice(1)}`,
+          });
+        } else if (!isStrictUpperCase && !isFragment) {
+          // Non-fragment lexer rules should ideally be UPPER_CASE
+          // But this is just a style suggestion, not an error
+          issues.push({
+            type: 'naming',
+            check: 'lexer-rule-naming',
+            severity: 'info', // Changed from warning to info
+            ruleName: rule.name,
+            lineNumber: rule.lineNumber,
+            message: `Lexer rule '${rule.name}' could use UPPER_CASE naming`,
+            suggestion: `Consider ${rule.name.toUpperCase().replace(/[^A-Z0-9_]/g, '_')}`,
+          });
+        }
+        // Fragment rules with mixed case (like F_HexDigit) are acceptable
+      }
+
+      // Parser rules should be lowerCamelCase
+      if (rule.type === 'parser') {
+        if (!/^[a-z][a-zA-Z0-9_]*$/.test(rule.name)) {
+          issues.push({
+            type: 'naming',
+            check: 'parser-rule-naming',
+            severity: 'warning',
+            ruleName: rule.name,
+            lineNumber: rule.lineNumber,
+            message: `Parser rule '${rule.name}' should use lowerCamelCase naming`,
+            suggestion: `Consider renaming to ${rule.name.charAt(0).toLowerCase() + rule.name.slice(1)}`,
+          });
+        }
+      }
+    }
+
+    // Check for overly complex rules
+    const metrics = this.calculateGrammarMetrics(grammarContent);
+    const maxAlternatives = this.checkThreshold(config, 'too-many-alternatives', 'max', 10);
+    for (const rule of metrics.branching.rulesWithMostBranching) {
+      if (rule.alternatives > maxAlternatives) {
+        const fullRule = analysis.rules.find((r) => r.name === rule.name);
+        issues.push({
+          type: 'maintainability',
+          check: 'too-many-alternatives',
+          severity: 'warning',
+          ruleName: rule.name,
+          lineNumber: fullRule?.lineNumber,
+          message: `Rule '${rule.name}' has ${rule.alternatives} alternatives, consider splitting`,
+          suggestion: 'Break into multiple smaller rules or use helper rules',
+        });
+      }
+    }
+
+    // Check for unused rules (orphans that aren't entry points)
+    const entryPoints = ['program', 'start', 'file', 'compilationUnit', 'main'];
+    for (const orphan of metrics.dependencies.orphanRules) {
+      if (!entryPoints.includes(orphan.toLowerCase())) {
+        const rule = analysis.rules.find((r) => r.name === orphan);
+        issues.push({
+          type: 'best-practice',
+          check: 'unused-rule',
+          severity: 'info',
+          ruleName: orphan,
+          lineNumber: rule?.lineNumber,
+          message: `Rule '${orphan}' is not referenced by any other rule`,
+          suggestion: "Remove if unused, or verify it's an entry point",
+        });
+      }
+    }
+
+    // Check for missing comments/documentation
+    const maxComplexity = this.checkThreshold(config, 'undocumented-rule', 'maxComplexity', 5);
+    const lines = grammarContent.split('\n');
+    for (const rule of analysis.rules) {
+      // Check if there's a comment within 3 lines before the rule
+      let hasNearbyComment = false;
+      for (let i = Math.max(0, rule.lineNumber - 4); i < rule.lineNumber - 1; i++) {
+        const line = lines[i]?.trim();
+        if (line && (line.startsWith('//') || line.startsWith('/*') || line.startsWith('*'))) {
+          hasNearbyComment = true;
+          break;
+        }
+      }
+
+      // Only warn for complex rules without comments
+      const complexity = this.calculateRuleComplexity(rule.definition);
+      if (!hasNearbyComment && complexity > maxComplexity && rule.type === 'parser') {
+        issues.push({
+          type: 'maintainability',
+          check: 'undocumented-rule',
+          severity: 'info',
+          ruleName: rule.name,
+          lineNumber: rule.lineNumber,
+          message: `Complex rule '${rule.name}' lacks documentation`,
+          suggestion: 'Add a comment explaining the rule purpose',
+        });
+      }
+    }
+
+    // Check for grammar declaration
+    if (!grammarContent.match(/^(lexer\s+grammar|parser\s+grammar|grammar)\s+/m)) {
+      issues.push({
+        type: 'best-practice',
+        check: 'missing-grammar-declaration',
+        severity: 'error',
+        message: 'Missing grammar declaration',
+        suggestion: 'Add "grammar Name;" at the beginning of the file',
+      });
+    }
+
+    issues = this.applyCheckPolicy(
+      issues,
+      grammarContent,
+      config,
+      (issue) => ({ check: issue.check, lineNumber: issue.lineNumber }),
+      (issue, severity) => ({ ...issue, severity })
+    );
+
+    // Calculate score
+    const errors = issues.filter((i) => i.severity === 'error').length;
+    const warnings = issues.filter((i) => i.severity === 'warning').length;
+    const infos = issues.filter((i) => i.severity === 'info').length;
+
+    // Start at 100, deduct for issues
+    // Info-level issues are just suggestions and don't penalize the score
+    let score = 100;
+    score -= errors * 20;
+    score -= warnings * 5;
+    // Don't deduct for infos - they're just suggestions
+    score = Math.max(0, Math.min(100, score));
+
+    return {
+      issues,
+      summary: { errors, warnings, infos },
+      score,
+    };
+  }
+
+  /**
+   * Analyze grammar for performance bottlenecks and improvement opportunities.
+   * Bottleneck types double as check ids for project config and suppression
+   * comments.
+   */
+  static analyzeBottlenecks(
+    grammarContent: string,
+    config?: ProjectConfig
+  ): {
+    bottlenecks: Array<{
+      type:
+        | 'high-branching'
+        | 'tilde-negation'
+        | 'missing-mode'
+        | 'greedy-loop'
+        | 'deep-recursion'
+        | 'prefix-collision';
+      severity: 'high' | 'medium' | 'low';
+      ruleName?: string;
+      lineNumber?: number;
+      description: string;
+      currentPattern?: string;
+      suggestion: string;
+      impact: string;
+    }>;
+    metrics: {
+      totalBottlenecks: number;
+      highSeverity: number;
+      estimatedImprovement: string;
+    };
+    recommendations: string[];
+  } {
+    let bottlenecks: Array<{
+      type:
+        | 'high-branching'
+        | 'tilde-negation'
+        | 'missing-mode'
+        | 'greedy-loop'
+        | 'deep-recursion'
+        | 'prefix-collision';
+      severity: 'high' | 'medium' | 'low';
+      ruleName?: string;
+      lineNumber?: number;
+      description: string;
+      currentPattern?: string;
+      suggestion: string;
+      impact: string;
+    }> = [];
+
+    const analysis = this.analyze(grammarContent);
+    const metrics = this.calculateGrammarMetrics(grammarContent);
+    const recommendations: string[] = [];
+
+    // 1. Detect high-branching rules (many alternatives)
+    for (const rule of metrics.branching.rulesWithMostBranching) {
+      const fullRule = analysis.rules.find((r) => r.name === rule.name);
+      let severity: 'high' | 'medium' | 'low' = 'low';
+      let impact = '';
+
+      if (rule.alternatives > 50) {
+        severity = 'high';
+        impact = 'Severe prediction overhead, likely causes SLL→LL fallback';
+      } else if (rule.alternatives > 20) {
+        severity = 'medium';
+        impact = 'Moderate prediction overhead, may cause slowdown';
+      } else if (rule.alternatives > 10) {
+        severity = 'low';
+        impact = 'Minor prediction overhead';
+      }
+
+      if (severity !== 'low' || rule.alternatives > 5) {
+        bottlenecks.push({
+          type: 'high-branching',
+          severity,
+          ruleName: rule.name,
+          lineNumber: fullRule?.lineNumber,
+          description: `Rule '${rule.name}' has ${rule.alternatives} alternatives`,
+          currentPattern:
+            fullRule?.definition.substring(0, 100) +
+            (fullRule && fullRule.definition.length > 100 ? '...' : ''),
+          suggestion: this.getBranchingSuggestion(rule.alternatives),
+          impact,
+        });
+      }
+    }
+
+    // 2. Detect tilde negation patterns (~NEWLINE, ~[\r\n], etc.)
+    const tildePatterns = [
+      { regex: /~([A-Z_][A-Z0-9_]*)\+/g, name: 'negated token repetition' },
+      { regex: /~\[[^\]]+\]\+/g, name: 'negated character class repetition' },
+      { regex: /~([A-Z_][A-Z0-9_]*)\*/g, name: 'negated token zero-or-more' },
+      { regex: /~NEWLINE/gi, name: 'newline negation' },
+    ];
+
+    const lines = grammarContent.split('\n');
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      for (const pattern of tildePatterns) {
+        const matches = line.matchAll(pattern.regex);
+        for (const match of matches) {
+          const ruleMatch = line.match(/^([a-z][a-zA-Z0-9_]*)\s*:/);
+          const ruleName = ruleMatch ? ruleMatch[1] : undefined;
+
+          bottlenecks.push({
+            type: 'tilde-negation',
+            severity: 'medium',
+            ruleName,
+            lineNumber: i + 1,
+            description: `Tilde negation pattern '${match[0]}' can cause ambiguity`,
+            currentPattern: line.trim(),
+            suggestion:
+              'Consider using a lexer mode for line-based content, or use explicit token matching',
+            impact: 'May cause backtracking and slower parsing',
+          });
+        }
+      }
+    }
+
+    // 3. Detect missing lexer mode opportunities
+    const modeOpportunities = this.detectModeOpportunities(grammarContent, analysis);
+    for (const opp of modeOpportunities) {
+      bottlenecks.push({
+        type: 'missing-mode',
+        severity: opp.severity,
+        ruleName: opp.ruleName,
+        lineNumber: opp.lineNumber,
+        description: opp.description,
+        suggestion: opp.suggestion,
+        impact: opp.impact,
+      });
+    }
+
+    // 4. Detect greedy loops that could cause issues
+    const greedyPatterns = [
+      {
+        regex: /\(\.\*\)\s*\?/g,
+        name: 'reluctant any',
+        issue: 'Reluctant .* can cause excessive backtracking',
+      },
+      { regex: /\.\+\?\./g, name: 'reluctant some', issue: 'Pattern may match less than expected' },
+      {
+        regex: /\([^)]*\*\)\s*\*/g,
+        name: 'nested star',
+        issue: 'Nested quantifiers can cause exponential backtracking',
+      },
+    ];
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      for (const pattern of greedyPatterns) {
+        if (pattern.regex.test(line)) {
+          const ruleMatch = line.match(/^([a-zA-Z_][a-zA-Z0-9_]*)\s*:/);
+          bottlenecks.push({
+            type: 'greedy-loop',
+            severity: 'medium',
+            ruleName: ruleMatch?.[1],
+            lineNumber: i + 1,
+            description: pattern.issue,
+            currentPattern: line.trim(),
+            suggestion: 'Consider restructuring the pattern or using lexer modes',
+            impact: 'May cause slow parsing or ReDoS vulnerabilities',
+          });
+        }
+      }
+    }
+
+    // 5. Detect potential deep recursion
+    for (const rule of analysis.rules) {
+      if (rule.type === 'parser') {
+        const recursionDepth = this.detectRecursionDepth(rule.name, analysis.rules, new Set());
+        if (recursionDepth > 3) {
+          bottlenecks.push({
+            type: 'deep-recursion',
+            severity: recursionDepth > 5 ? 'high' : 'medium',
+            ruleName: rule.name,
+            lineNumber: rule.lineNumber,
+            description: `Rule has potential recursion depth of ${recursionDepth}`,
+            currentPattern: rule.definition.substring(0, 80),
+            suggestion: 'Consider using iterative patterns or increasing recursion limit',
+            impact: 'May cause stack overflow for deeply nested input',
+          });
+        }
+      }
+    }
+
+    // 6. Detect token prefix collisions (keywords that prefix other keywords)
+    const lexerRules = analysis.rules.filter((r) => r.type === 'lexer');
+    const keywordRules = lexerRules.filter((r) => /^[A-Z_]+$/.test(r.name));
+    const literalKeywords: Array<{ name: string; pattern: string; line: number }> = [];
+
+    for (const rule of keywordRules) {
+      // Match both single and double quoted literals (anywhere in definition)
+      const literalMatch = rule.definition.match(/'([^']+)'/) || rule.definition.match(/"([^"]+)"/);
+      if (literalMatch) {
+        literalKeywords.push({ name: rule.name, pattern: literalMatch[1], line: rule.lineNumber });
+      }
+    }
+
+    for (const kw1 of literalKeywords) {
+      for (const kw2 of literalKeywords) {
+        if (kw1.name !== kw2.name && kw2.pattern.startsWith(kw1.pattern)) {
+          bottlenecks.push({
+            type: 'prefix-collision',
+            severity: 'low',
+            ruleName: kw1.name,
+            lineNumber: kw1.line,
+            description: `Keyword '${kw1.pattern}' is a prefix of '${kw2.pattern}'`,
+            suggestion:
+              'Ensure rule ordering is correct (longer patterns first) or use semantic predicates',
+            impact: 'May cause incorrect tokenization if ordering is wrong',
+          });
+        }
+      }
+    }
+
+    // Config severities use the error/warning/info scale of the other checks
+    const levels = { error: 'high', warning: 'medium', info: 'low' } as const;
+    bottlenecks = this.applyCheckPolicy(
+      bottlenecks,
+      grammarContent,
+      config,
+      (b) => ({ check: b.type, lineNumber: b.lineNumber }),
+      (b, severity) => ({ ...b, severity: levels[severity] })
+    );
+
+    // Calculate metrics
+    const highSeverity = bottlenecks.filter((b) => b.severity === 'high').length;
+    const mediumSeverity = bottlenecks.filter((b) => b.severity === 'medium').length;
+
+    let estimatedImprovement = 'Minor';
+    if (highSeverity > 3 || (highSeverity > 0 && mediumSeverity > 5)) {
+      estimatedImprovement = 'Significant (2-5x faster parsing)';
+    } else if (highSeverity > 0 || mediumSeverity > 3) {
+      estimatedImprovement = 'Moderate (20-50% faster parsing)';
+    }
+
+    // Generate recommendations
+    if (bottlenecks.some((b) => b.type === 'high-branching' && b.severity === 'high')) {
+      recommendations.push('🔥 Critical: Split high-branching rules into hierarchical sub-rules');
+    }
+    if (bottlenecks.some((b) => b.type === 'tilde-negation')) {
+      recommendations.push(
+        '💡 Consider using lexer modes for line-based content instead of tilde negation'
+      );
+    }
+    if (bottlenecks.some((b) => b.type === 'missing-mode')) {
+      recommendations.push(
+        '🎯 Add lexer modes for structured content (strings, comments, data blocks)'
+      );
+    }
+    if (bottlenecks.some((b) => b.type === 'deep-recursion')) {
+      recommendations.push('⚠️ Review recursive rules for potential stack overflow issues');
+    }
+    if (literalKeywords.length > 50) {
+      recommendations.push('📦 Consider grouping related keywords with shared prefixes');
+    }
+
+    // Deduplicate bottlenecks
+    const uniqueBottlenecks = bottlenecks.filter(
+      (b, i, arr) =>
+        arr.findIndex(
+          (b2) => b2.type === b.type && b2.ruleName === b.ruleName && b2.lineNumber === b.lineNumber
+        ) === i
+    );
+
+    // Sort by severity
+    const severityOrder = { high: 0, medium: 1, low: 2 };
+    uniqueBottlenecks.sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity]);
+
+    return {
+      bottlenecks: uniqueBottlenecks,
+      metrics: {
+        totalBottlenecks: uniqueBottlenecks.length,
+        highSeverity,
+        estimatedImprovement,
+      },
+      recommendations,
+    };
+  }
+
+  private static getBranchingSuggestion(alternatives: number): string {
+    if (alternatives > 50) {
+      return 'CRITICAL: Use hierarchical dispatch - create sub-rules grouping related alternatives (e.g., config_stanza, feature_stanza, security_stanza)';
+    } else if (alternatives > 20) {
+      return 'Create helper rules to group related alternatives by category';
+    } else if (alternatives > 10) {
+      return 'Consider grouping alternatives by first token for faster prediction';
+    }
+    return 'Minor optimization possible by reordering alternatives by frequency';
+  }
+
+  private static detectModeOpportunities(
+    grammarContent: string,
+    analysis: GrammarAnalysis
+  ): Array<{
+    ruleName?: string;
+    lineNumber?: number;
+    severity: 'high' | 'medium' | 'low';
+    description: string;
+    suggestion: string;
+    impact: string;
+  }> {
+    const opportunities: Array<{
+      ruleName?: string;
+      lineNumber?: number;
+      severity: 'high' | 'medium' | 'low';
+      description: string;
+      suggestion: string;
+      impact: string;
+    }> = [];
+
+    // Check if grammar already has modes
+    const existingModes = grammarContent.match(/^mode\s+[A-Z_]+/gm) || [];
+    if (existingModes.length > 0) {
+      // Already has some modes, look for expansion opportunities
+      opportunities.push({
+        severity: 'low',
+        description: `Grammar has ${existingModes.length} mode(s), consider expanding for more context-sensitive parsing`,
+        suggestion: 'Add modes for strings, comments, or structured data blocks',
+        impact: 'Improved tokenization accuracy and performance',
+      });
+    }
+
+    // Look for line-based content patterns that could use modes
+    const lines = grammarContent.split('\n');
+    let lineBasedRules = 0;
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      // Look for rules that consume "rest of line"
+      if (line.match(/~NEWLINE.*NEWLINE/i) || line.match(/\~[\r\n].*\r?\n/)) {
+        lineBasedRules++;
+      }
+    }
+
+    if (lineBasedRules > 3) {
+      opportunities.push({
+        severity: 'medium',
+        description: `${lineBasedRules} rules use line-based content patterns`,
+        suggestion:
+          'Create a M_LineContent mode triggered by keywords like "description", "remark", "hostname"',
+        impact: 'Cleaner grammar, better error messages, faster tokenization',
+      });
+    }
+
+    // Look for string/quoted content without modes
+    const stringRules = analysis.rules.filter(
+      (r) =>
+        r.definition.includes('QUOTE') ||
+        r.definition.includes("'\"'") ||
+        r.name.match(/STRING|TEXT/i) ||
+        r.definition.match(/["']~["']/) || // String with tilde negation
+        r.definition.match(/"[^"]*"/) || // Contains double-quoted literal
+        r.definition.match(/'[^']*'/) // Contains single-quoted literal
+    );
+
+    if (stringRules.length > 0 && existingModes.length === 0) {
+      opportunities.push({
         severity: 'medium',
         description: 'Grammar handles string/quoted content without lexer modes',
         suggestion: 'Add M_String mode for handling escape sequences and interpolation',
@@ -4157,1581 +6836,3462 @@ export class AntlrAnalyzer {
       });
     }
 
-    // Look for multi-line block patterns
-    const blockPatterns = grammarContent.match(/(certificate|key|pem|begin|end).*:/gi) || [];
-    if (blockPatterns.length > 0) {
-      opportunities.push({
-        severity: 'low',
-        description: 'Grammar may handle multi-line blocks (certificates, keys)',
-        suggestion: 'Add dedicated mode for multi-line data blocks',
-        impact: 'Cleaner handling of PEM-encoded data or configuration blocks',
+    // Look for multi-line block patterns
+    const blockPatterns = grammarContent.match(/(certificate|key|pem|begin|end).*:/gi) || [];
+    if (blockPatterns.length > 0) {
+      opportunities.push({
+        severity: 'low',
+        description: 'Grammar may handle multi-line blocks (certificates, keys)',
+        suggestion: 'Add dedicated mode for multi-line data blocks',
+        impact: 'Cleaner handling of PEM-encoded data or configuration blocks',
+      });
+    }
+
+    return opportunities;
+  }
+
+  private static detectRecursionDepth(
+    ruleName: string,
+    rules: GrammarRule[],
+    visited: Set<string>,
+    depth: number = 0
+  ): number {
+    if (depth > 10) return depth; // Prevent infinite loops
+
+    const rule = rules.find((r) => r.name === ruleName);
+    if (!rule) return depth;
+
+    // Check for direct self-reference (immediate recursion)
+    if (rule.referencedRules.includes(ruleName) && depth === 0) {
+      return 4; // Self-reference counts as depth 4 (significant)
+    }
+
+    if (visited.has(ruleName)) return depth;
+
+    visited.add(ruleName);
+    let maxDepth = depth;
+
+    for (const ref of rule.referencedRules) {
+      const refDepth = this.detectRecursionDepth(ref, rules, new Set(visited), depth + 1);
+      maxDepth = Math.max(maxDepth, refDepth);
+    }
+
+    return maxDepth;
+  }
+
+  /**
+   * Benchmark grammar parsing performance with sample input
+   */
+  static benchmarkParsing(
+    grammarContent: string,
+    input: string,
+    options?: {
+      iterations?: number;
+      warmupIterations?: number;
+    }
+  ): {
+    success: boolean;
+    metrics: {
+      totalTokens: number;
+      avgTimeMs: number;
+      minTimeMs: number;
+      maxTimeMs: number;
+      tokensPerSecond: number;
+      iterations: number;
+    };
+    tokens?: TokenInfo[];
+    errors: string[];
+    performanceRating: 'excellent' | 'good' | 'fair' | 'slow';
+    suggestions: string[];
+  } {
+    const iterations = options?.iterations || 10;
+    const warmupIterations = options?.warmupIterations || 3;
+    const suggestions: string[] = [];
+
+    // First, do a preview to check if input can be tokenized
+    const preview = this.previewTokens(grammarContent, input);
+
+    if (!preview.success) {
+      // Check if there were any tokens produced despite errors
+      const hasPartialMatch = preview.tokens.length > 0;
+
+      return {
+        success: false,
+        metrics: {
+          totalTokens: preview.tokens.length,
+          avgTimeMs: 0,
+          minTimeMs: 0,
+          maxTimeMs: 0,
+          tokensPerSecond: 0,
+          iterations: 0,
+        },
+        tokens: preview.tokens.length > 0 ? preview.tokens : undefined,
+        errors: preview.errors.map((e) => `Position ${e.position}: ${e.message}`),
+        performanceRating: 'slow',
+        suggestions: hasPartialMatch
+          ? [
+              'Tokenization partially succeeded but had errors',
+              'Check for lexer rules that may not be matching correctly',
+              'Ensure all literal tokens have explicit lexer rules',
+            ]
+          : [
+              'Tokenization failed completely',
+              'Check if grammar has valid lexer rules',
+              'For complex grammars, consider using native ANTLR4 runtime for accurate benchmarking',
+            ],
+      };
+    }
+
+    const totalTokens = preview.tokens.length;
+
+    // Warmup runs (not timed)
+    for (let i = 0; i < warmupIterations; i++) {
+      this.previewTokens(grammarContent, input);
+    }
+
+    // Timed runs
+    const times: number[] = [];
+    for (let i = 0; i < iterations; i++) {
+      const start = process.hrtime.bigint();
+      this.previewTokens(grammarContent, input);
+      const end = process.hrtime.bigint();
+      times.push(Number(end - start) / 1_000_000); // Convert to ms
+    }
+
+    const avgTimeMs = times.reduce((a, b) => a + b, 0) / times.length;
+    const minTimeMs = Math.min(...times);
+    const maxTimeMs = Math.max(...times);
+    const tokensPerSecond = totalTokens > 0 ? (1000 / avgTimeMs) * totalTokens : 0;
+
+    // Determine performance rating
+    let performanceRating: 'excellent' | 'good' | 'fair' | 'slow';
+    if (avgTimeMs < 10) {
+      performanceRating = 'excellent';
+    } else if (avgTimeMs < 50) {
+      performanceRating = 'good';
+    } else if (avgTimeMs < 200) {
+      performanceRating = 'fair';
+    } else {
+      performanceRating = 'slow';
+    }
+
+    // Generate suggestions based on performance
+    if (performanceRating === 'slow') {
+      suggestions.push(
+        'Consider running analyze-bottlenecks to identify optimization opportunities'
+      );
+      suggestions.push('Check for high-branching rules that may cause prediction overhead');
+
+      const bottlenecks = this.analyzeBottlenecks(grammarContent);
+      if (bottlenecks.metrics.highSeverity > 0) {
+        suggestions.push(`Found ${bottlenecks.metrics.highSeverity} high-severity bottlenecks`);
+      }
+    }
+
+    if (maxTimeMs > avgTimeMs * 3) {
+      suggestions.push('High variance in parse times may indicate JIT warmup or GC pressure');
+    }
+
+    if (preview.warnings.length > 0) {
+      suggestions.push('Address lexer mode warnings for accurate benchmarking');
+    }
+
+    return {
+      success: true,
+      metrics: {
+        totalTokens,
+        avgTimeMs: Math.round(avgTimeMs * 100) / 100,
+        minTimeMs: Math.round(minTimeMs * 100) / 100,
+        maxTimeMs: Math.round(maxTimeMs * 100) / 100,
+        tokensPerSecond: Math.round(tokensPerSecond),
+        iterations,
+      },
+      tokens: preview.tokens,
+      errors: [],
+      performanceRating,
+      suggestions,
+    };
+  }
+
+  static previewTokens(
+    grammarContent: string,
+    input: string,
+    options?: {
+      showPositions?: boolean;
+      rulesToTest?: string[];
+    }
+  ): {
+    success: boolean;
+    tokens: TokenInfo[];
+    summary: string;
+    errors: Array<{ position: number; char: string; message: string }>;
+    warnings: string[];
+  } {
+    const analysis = this.analyze(grammarContent);
+    const tokens: TokenInfo[] = [];
+    const errors: Array<{ position: number; char: string; message: string }> = [];
+    const warnings: string[] = [];
+
+    // Detect unsupported features and add warnings
+    const featureCheck = this.detectUnsupportedFeatures(grammarContent);
+    warnings.push(...featureCheck.warnings);
+
+    // Add recommendation if complex features detected
+    if (featureCheck.hasLexerModes) {
+      warnings.push(
+        '💡 Lexer modes detected. Token preview uses DEFAULT_MODE only. Use analyze-lexer-modes to understand mode structure.'
+      );
+    }
+    if (featureCheck.hasSemanticPredicates) {
+      warnings.push(
+        '💡 Consider using test-parser-rule instead for testing parser rules (works without full lexer simulation)'
+      );
+    }
+
+    // Extract lexer rules (exclude fragments as they're not tokens)
+    // When modes are present, only use DEFAULT_MODE rules for preview
+    let lexerRules = analysis.rules.filter((r) => r.type === 'lexer');
+
+    // If grammar has multiple modes and no specific rules requested, only use DEFAULT_MODE
+    if (featureCheck.hasLexerModes && analysis.modes.length > 1) {
+      if (!options?.rulesToTest || options.rulesToTest.length === 0) {
+        lexerRules = lexerRules.filter((r) => !r.mode || r.mode === 'DEFAULT_MODE');
+      }
+    }
+
+    // Filter rules if specified
+    let rulesToUse = lexerRules;
+    if (options?.rulesToTest && options.rulesToTest.length > 0) {
+      rulesToUse = lexerRules.filter((r) => options.rulesToTest!.includes(r.name));
+      const missing = options.rulesToTest.filter(
+        (name) => !lexerRules.find((r) => r.name === name)
+      );
+      if (missing.length > 0) {
+        warnings.push(`Rules not found: ${missing.join(', ')}`);
+      }
+    }
+
+    // Parse rules to extract patterns and determine skip/channel
+    const rulePatterns: Array<{
+      name: string;
+      pattern: RegExp | null;
+      skip: boolean;
+      channel?: string;
+      rawPattern: string;
+    }> = [];
+
+    // First, collect all explicit lexer token patterns
+    const explicitTokenPatterns = new Set<string>();
+    for (const rule of rulesToUse) {
+      const def = rule.definition.trim();
+      let patternStr = def;
+      patternStr = patternStr.replace(/^fragment\s+/, '');
+      const colonIndex = patternStr.indexOf(':');
+      if (colonIndex >= 0) {
+        patternStr = patternStr.substring(colonIndex + 1);
+      }
+      patternStr = patternStr.split('->')[0].trim();
+      patternStr = patternStr.replace(/;$/, '').trim();
+
+      // Extract string literals from this token rule
+      const literalMatches = patternStr.match(/'([^']+)'/g);
+      if (literalMatches) {
+        for (const match of literalMatches) {
+          explicitTokenPatterns.add(match.slice(1, -1));
+        }
+      }
+    }
+
+    // Extract string literals from parser rules as implicit tokens
+    // but ONLY if they don't have an explicit lexer rule
+    const implicitTokens = new Set<string>();
+    for (const rule of analysis.rules) {
+      if (rule.type === 'parser') {
+        const literalMatches = rule.definition.match(/'([^']+)'/g);
+        if (literalMatches) {
+          for (const match of literalMatches) {
+            const literal = match.slice(1, -1);
+            // Only add if not already covered by explicit token
+            if (!explicitTokenPatterns.has(literal)) {
+              implicitTokens.add(literal);
+            }
+          }
+        }
+      }
+    }
+
+    // Add implicit tokens as high-priority rules (before explicit rules)
+    for (const literal of implicitTokens) {
+      const escaped = literal.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      rulePatterns.push({
+        name: `'${literal}'`,
+        pattern: new RegExp('^(?:' + escaped + ')'),
+        skip: false,
+        rawPattern: literal,
+      });
+    }
+
+    for (const rule of rulesToUse) {
+      const def = rule.definition.trim();
+
+      // Skip and channel come from the rule's lexer commands
+      const commands = rule.ast?.alternatives.flatMap((alt) => alt.commands) || [];
+      const skip = commands.some((c) => c.name === 'skip');
+      const channel = commands.find((c) => c.name === 'channel')?.argument;
+      if (channel && !this.isKnownChannel(channel, analysis.channels)) {
+        warnings.push(
+          `Rule ${rule.name} sends tokens to channel '${channel}', which is not declared in a channels {} block`
+        );
+      }
+
+      // Extract the pattern from "RULENAME : pattern ;" format
+      // Remove the rule name and colon at the start
+      let patternStr = def;
+
+      // Remove "fragment" keyword if present
+      patternStr = patternStr.replace(/^fragment\s+/, '');
+
+      // Extract pattern between : and either -> or ;
+      const colonIndex = patternStr.indexOf(':');
+      if (colonIndex >= 0) {
+        patternStr = patternStr.substring(colonIndex + 1);
+      }
+
+      // Remove everything after -> (skip/channel directives)
+      patternStr = patternStr.split('->')[0].trim();
+
+      // Remove trailing semicolon
+      patternStr = patternStr.replace(/;$/, '').trim();
+
+      try {
+        // Convert ANTLR4 pattern to JavaScript regex
+        const jsPattern = this.convertANTLRPatternToRegex(patternStr);
+
+        // Anchor to start of string for matching
+        const regex = new RegExp('^(?:' + jsPattern + ')', 's');
+
+        rulePatterns.push({
+          name: rule.name,
+          pattern: regex,
+          skip,
+          channel,
+          rawPattern: patternStr,
+        });
+      } catch {
+        warnings.push(`Could not convert pattern for rule '${rule.name}': ${patternStr}`);
+        rulePatterns.push({
+          name: rule.name,
+          pattern: null,
+          skip,
+          channel,
+          rawPattern: patternStr,
+        });
+      }
+    }
+
+    // Tokenize the input
+    let position = 0;
+    let line = 1;
+    let column = 0;
+
+    while (position < input.length) {
+      let matched = false;
+      let longestMatch: { length: number; rule: (typeof rulePatterns)[0] } | null = null;
+
+      // Try all rules and find longest match (maximal munch)
+      for (const rule of rulePatterns) {
+        if (!rule.pattern) continue;
+
+        const remaining = input.substring(position);
+        const match = remaining.match(rule.pattern);
+
+        if (match && match[0].length > 0) {
+          if (!longestMatch || match[0].length > longestMatch.length) {
+            longestMatch = { length: match[0].length, rule };
+          }
+        }
+      }
+
+      if (longestMatch) {
+        const value = input.substring(position, position + longestMatch.length);
+
+        tokens.push({
+          type: longestMatch.rule.name,
+          value,
+          start: position,
+          end: position + longestMatch.length - 1,
+          line,
+          column,
+          skipped: longestMatch.rule.skip,
+          channel: longestMatch.rule.channel,
+        });
+
+        // Update line and column
+        for (let i = 0; i < value.length; i++) {
+          if (value[i] === '\n') {
+            line++;
+            column = 0;
+          } else {
+            column++;
+          }
+        }
+
+        position += longestMatch.length;
+        matched = true;
+      }
+
+      if (!matched) {
+        // No rule matched - record error
+        const char = input[position];
+        errors.push({
+          position,
+          char: char === '\n' ? '\\n' : char,
+          message: `Unexpected character '${char === '\n' ? '\\n' : char}' at position ${position}`,
+        });
+
+        // Skip the character and continue
+        if (char === '\n') {
+          line++;
+          column = 0;
+        } else {
+          column++;
+        }
+        position++;
+      }
+    }
+
+    // Generate summary
+    const totalTokens = tokens.length;
+    const skippedTokens = tokens.filter((t) => t.skipped).length;
+    const channelTokens = tokens.filter((t) => t.channel).length;
+
+    let summary = '';
+    if (errors.length === 0) {
+      summary = `✓ Successfully tokenized input: ${totalTokens} token(s)`;
+      if (skippedTokens > 0) {
+        summary += ` (${skippedTokens} skipped)`;
+      }
+      if (channelTokens > 0) {
+        summary += ` (${channelTokens} on channels)`;
+      }
+    } else {
+      summary = `✗ Tokenization failed: ${errors.length} error(s), ${totalTokens} token(s) recognized`;
+    }
+
+    return {
+      success: errors.length === 0,
+      tokens,
+      summary,
+      errors,
+      warnings,
+    };
+  }
+
+  /**
+   * Convert ANTLR4 pattern syntax to JavaScript regex
+   * Handles string literals, character classes, sequences, and basic modifiers
+   */
+  private static convertANTLRPatternToRegex(pattern: string): string {
+    let result = '';
+    let i = 0;
+
+    while (i < pattern.length) {
+      const char = pattern[i];
+
+      // String literal: 'text'
+      if (char === "'") {
+        i++; // Skip opening quote
+        let literal = '';
+        while (i < pattern.length && pattern[i] !== "'") {
+          if (pattern[i] === '\\' && i + 1 < pattern.length) {
+            // Handle escape sequences
+            i++;
+            const escChar = pattern[i];
+            switch (escChar) {
+              case 'n':
+                literal += '\\n';
+                break;
+              case 'r':
+                literal += '\\r';
+                break;
+              case 't':
+                literal += '\\t';
+                break;
+              case '\\':
+                literal += '\\\\';
+                break;
+              case "'":
+                literal += "'";
+                break;
+              default:
+                literal += escChar;
+            }
+          } else {
+            // Escape regex special characters for literals
+            const c = pattern[i];
+            if (/[.*+?^${}()|[\]\\]/.test(c)) {
+              literal += '\\' + c;
+            } else {
+              literal += c;
+            }
+          }
+          i++;
+        }
+        i++; // Skip closing quote
+        result += literal;
+
+        // Character class: [a-z]
+      } else if (char === '[') {
+        let charClass = '[';
+        i++;
+        while (i < pattern.length && pattern[i] !== ']') {
+          charClass += pattern[i];
+          i++;
+        }
+        charClass += ']';
+        i++;
+        result += charClass;
+
+        // Parentheses and operators - pass through
+      } else if ('()|?*+'.indexOf(char) >= 0) {
+        result += char;
+        i++;
+
+        // Tilde (negation): ~'x' or ~[abc]
+      } else if (char === '~') {
+        // ANTLR uses ~ for negation, regex uses [^...]
+        i++; // Skip ~
+        // Skip whitespace
+        while (i < pattern.length && /\s/.test(pattern[i])) {
+          i++;
+        }
+
+        if (i < pattern.length && pattern[i] === '[') {
+          // ~[abc] -> [^abc]
+          result += '[^';
+          i++; // Skip [
+          while (i < pattern.length && pattern[i] !== ']') {
+            result += pattern[i];
+            i++;
+          }
+          result += ']';
+          i++; // Skip ]
+        } else if (i < pattern.length && pattern[i] === "'") {
+          // ~'x' -> [^x]
+          i++; // Skip '
+          result += '[^';
+          while (i < pattern.length && pattern[i] !== "'") {
+            result += pattern[i];
+            i++;
+          }
+          result += ']';
+          i++; // Skip '
+        }
+
+        // Whitespace - skip
+      } else if (/\s/.test(char)) {
+        i++;
+
+        // Fragment reference or other - keep as-is (may fail, but try)
+      } else {
+        result += char;
+        i++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Add multiple lexer tokens using template-based generation
+   * Example: Add 5 tokens for "config X" patterns
+   */
+  static addTokensWithTemplate(
+    grammarContent: string,
+    template: {
+      baseNames: string[]; // e.g., ["FTM_PUSH", "DNS", "FIREWALL"]
+      precedingTokens?: string[]; // e.g., ["SYSTEM", "CONFIG"]
+      pattern?: string; // Optional custom pattern
+      options?: { channel?: string; skip?: boolean; fragment?: boolean };
+    }
+  ): {
+    success: boolean;
+    modified: string;
+    results: Array<{ name: string; success: boolean; message: string }>;
+    summary: string;
+  } {
+    const rules: Array<{
+      name: string;
+      pattern: string;
+      options?: { channel?: string; skip?: boolean; fragment?: boolean };
+    }> = [];
+
+    // Generate rules for each base name
+    for (const baseName of template.baseNames) {
+      const ruleName = baseName.toUpperCase().replace(/[^A-Z0-9_]/g, '_');
+
+      // Generate pattern
+      let pattern: string;
+      if (template.pattern) {
+        // Use custom pattern, replacing {NAME} placeholder
+        pattern = template.pattern.replace(/{NAME}/g, baseName);
+      } else {
+        // Default: string literal pattern
+        const namePattern = baseName.toLowerCase().replace(/_/g, '-');
+        pattern = `'${namePattern}'`;
+      }
+
+      rules.push({
+        name: ruleName,
+        pattern,
+        options: template.options,
       });
     }
 
-    return opportunities;
+    // Use existing bulk add functionality
+    return this.addLexerRules(grammarContent, rules);
   }
 
-  private static detectRecursionDepth(
-    ruleName: string,
-    rules: GrammarRule[],
-    visited: Set<string>,
-    depth: number = 0
-  ): number {
-    if (depth > 10) return depth; // Prevent infinite loops
+  /**
+   * Generate lexer rule from natural language pattern
+   * Example: "ignore config system ftm-push" → generates IGNORE, CONFIG, SYSTEM, FTM_PUSH tokens
+   */
+  static generateTokensFromPattern(
+    grammarContent: string,
+    inputPattern: string,
+    options?: {
+      tokenize?: boolean; // Split input into individual tokens (default: true)
+      prefix?: string; // Optional prefix for token names
+      options?: { channel?: string; skip?: boolean; fragment?: boolean };
+    }
+  ): {
+    success: boolean;
+    modified: string;
+    generated: Array<{ name: string; pattern: string }>;
+    results: Array<{ name: string; success: boolean; message: string }>;
+    summary: string;
+  } {
+    const tokenize = options?.tokenize !== false;
+    const generatedTokens: Array<{ name: string; pattern: string }> = [];
 
-    const rule = rules.find((r) => r.name === ruleName);
-    if (!rule) return depth;
+    if (tokenize) {
+      // Split input into words and generate individual token rules
+      const words = inputPattern.trim().split(/\s+/);
 
-    // Check for direct self-reference (immediate recursion)
-    if (rule.referencedRules.includes(ruleName) && depth === 0) {
-      return 4; // Self-reference counts as depth 4 (significant)
-    }
+      for (const word of words) {
+        // Convert to uppercase with underscores for rule name
+        let ruleName = word.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+        if (options?.prefix) {
+          ruleName = `${options.prefix.toUpperCase()}_${ruleName}`;
+        }
 
-    if (visited.has(ruleName)) return depth;
+        // Generate pattern (use the original word as lowercase literal)
+        const pattern = `'${word.toLowerCase()}'`;
 
-    visited.add(ruleName);
-    let maxDepth = depth;
+        generatedTokens.push({ name: ruleName, pattern });
+      }
+    } else {
+      // Treat entire input as single token
+      let ruleName = inputPattern.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+      if (options?.prefix) {
+        ruleName = `${options.prefix.toUpperCase()}_${ruleName}`;
+      }
 
-    for (const ref of rule.referencedRules) {
-      const refDepth = this.detectRecursionDepth(ref, rules, new Set(visited), depth + 1);
-      maxDepth = Math.max(maxDepth, refDepth);
+      const pattern = `'${inputPattern.toLowerCase()}'`;
+      generatedTokens.push({ name: ruleName, pattern });
     }
 
-    return maxDepth;
+    // Add all generated tokens
+    const rules = generatedTokens.map((t) => ({
+      name: t.name,
+      pattern: t.pattern,
+      options: options?.options,
+    }));
+
+    const result = this.addLexerRules(grammarContent, rules);
+
+    return {
+      success: result.success,
+      modified: result.modified,
+      generated: generatedTokens,
+      results: result.results,
+      summary: result.summary,
+    };
   }
 
   /**
-   * Benchmark grammar parsing performance with sample input
+   * Parse error logs and suggest tokens to add
+   * Supports Batfish error log format and generic ANTLR parse errors
    */
-  static benchmarkParsing(
+  static suggestTokensFromErrors(
     grammarContent: string,
-    input: string,
-    options?: {
-      iterations?: number;
-      warmupIterations?: number;
-    }
+    errorLog: string
   ): {
-    success: boolean;
-    metrics: {
-      totalTokens: number;
-      avgTimeMs: number;
-      minTimeMs: number;
-      maxTimeMs: number;
-      tokensPerSecond: number;
-      iterations: number;
-    };
-    tokens?: TokenInfo[];
-    errors: string[];
-    performanceRating: 'excellent' | 'good' | 'fair' | 'slow';
-    suggestions: string[];
+    suggestions: Array<{
+      token: string;
+      pattern: string;
+      reason: string;
+      confidence: 'high' | 'medium' | 'low';
+    }>;
+    summary: string;
   } {
-    const iterations = options?.iterations || 10;
-    const warmupIterations = options?.warmupIterations || 3;
-    const suggestions: string[] = [];
-
-    // First, do a preview to check if input can be tokenized
-    const preview = this.previewTokens(grammarContent, input);
-
-    if (!preview.success) {
-      // Check if there were any tokens produced despite errors
-      const hasPartialMatch = preview.tokens.length > 0;
+    const suggestions: Array<{
+      token: string;
+      pattern: string;
+      reason: string;
+      confidence: 'high' | 'medium' | 'low';
+    }> = [];
 
-      return {
-        success: false,
-        metrics: {
-          totalTokens: preview.tokens.length,
-          avgTimeMs: 0,
-          minTimeMs: 0,
-          maxTimeMs: 0,
-          tokensPerSecond: 0,
-          iterations: 0,
-        },
-        tokens: preview.tokens.length > 0 ? preview.tokens : undefined,
-        errors: preview.errors.map((e) => `Position ${e.position}: ${e.message}`),
-        performanceRating: 'slow',
-        suggestions: hasPartialMatch
-          ? [
-              'Tokenization partially succeeded but had errors',
-              'Check for lexer rules that may not be matching correctly',
-              'Ensure all literal tokens have explicit lexer rules',
-            ]
-          : [
-              'Tokenization failed completely',
-              'Check if grammar has valid lexer rules',
-              'For complex grammars, consider using native ANTLR4 runtime for accurate benchmarking',
-            ],
-      };
-    }
+    const lines = errorLog.split('\n');
+    const existingRules = this.analyze(grammarContent).rules.map((r) => r.name);
 
-    const totalTokens = preview.tokens.length;
+    for (const line of lines) {
+      // Pattern 1: Batfish-style errors - "unexpected token: 'word'"
+      const batfishMatch = line.match(/unexpected token[:\s]+['"]([^'"]+)['"]/i);
+      if (batfishMatch) {
+        const word = batfishMatch[1];
+        const tokenName = word.toUpperCase().replace(/[^A-Z0-9]/g, '_');
 
-    // Warmup runs (not timed)
-    for (let i = 0; i < warmupIterations; i++) {
-      this.previewTokens(grammarContent, input);
-    }
+        if (!existingRules.includes(tokenName)) {
+          suggestions.push({
+            token: tokenName,
+            pattern: `'${word.toLowerCase()}'`,
+            reason: `Unexpected token '${word}' found in error log`,
+            confidence: 'high',
+          });
+        }
+        continue;
+      }
 
-    // Timed runs
-    const times: number[] = [];
-    for (let i = 0; i < iterations; i++) {
-      const start = process.hrtime.bigint();
-      this.previewTokens(grammarContent, input);
-      const end = process.hrtime.bigint();
-      times.push(Number(end - start) / 1_000_000); // Convert to ms
-    }
+      // Pattern 2: ANTLR-style errors - "mismatched input 'word'"
+      const antlrMatch = line.match(/mismatched input ['"]([^'"]+)['"]/i);
+      if (antlrMatch) {
+        const word = antlrMatch[1];
+        const tokenName = word.toUpperCase().replace(/[^A-Z0-9]/g, '_');
 
-    const avgTimeMs = times.reduce((a, b) => a + b, 0) / times.length;
-    const minTimeMs = Math.min(...times);
-    const maxTimeMs = Math.max(...times);
-    const tokensPerSecond = totalTokens > 0 ? (1000 / avgTimeMs) * totalTokens : 0;
+        if (!existingRules.includes(tokenName)) {
+          suggestions.push({
+            token: tokenName,
+            pattern: `'${word.toLowerCase()}'`,
+            reason: `Mismatched input '${word}' in error log`,
+            confidence: 'high',
+          });
+        }
+        continue;
+      }
 
-    // Determine performance rating
-    let performanceRating: 'excellent' | 'good' | 'fair' | 'slow';
-    if (avgTimeMs < 10) {
-      performanceRating = 'excellent';
-    } else if (avgTimeMs < 50) {
-      performanceRating = 'good';
-    } else if (avgTimeMs < 200) {
-      performanceRating = 'fair';
-    } else {
-      performanceRating = 'slow';
-    }
+      // Pattern 3: "no viable alternative at input 'word'"
+      const noViableMatch = line.match(/no viable alternative at input ['"]([^'"]+)['"]/i);
+      if (noViableMatch) {
+        const word = noViableMatch[1];
+        const tokenName = word.toUpperCase().replace(/[^A-Z0-9]/g, '_');
 
-    // Generate suggestions based on performance
-    if (performanceRating === 'slow') {
-      suggestions.push(
-        'Consider running analyze-bottlenecks to identify optimization opportunities'
-      );
-      suggestions.push('Check for high-branching rules that may cause prediction overhead');
+        if (!existingRules.includes(tokenName)) {
+          suggestions.push({
+            token: tokenName,
+            pattern: `'${word.toLowerCase()}'`,
+            reason: `No viable alternative for '${word}'`,
+            confidence: 'medium',
+          });
+        }
+        continue;
+      }
 
-      const bottlenecks = this.analyzeBottlenecks(grammarContent);
-      if (bottlenecks.metrics.highSeverity > 0) {
-        suggestions.push(`Found ${bottlenecks.metrics.highSeverity} high-severity bottlenecks`);
+      // Pattern 4: Generic pattern - look for quoted strings
+      const quotedMatches = line.matchAll(/['"]([a-zA-Z][a-zA-Z0-9\-_]*)['"]/g);
+      for (const match of quotedMatches) {
+        const word = match[1];
+        const tokenName = word.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+
+        if (!existingRules.includes(tokenName) && !suggestions.some((s) => s.token === tokenName)) {
+          suggestions.push({
+            token: tokenName,
+            pattern: `'${word.toLowerCase()}'`,
+            reason: `Potential missing token from error context`,
+            confidence: 'low',
+          });
+        }
       }
     }
 
-    if (maxTimeMs > avgTimeMs * 3) {
-      suggestions.push('High variance in parse times may indicate JIT warmup or GC pressure');
-    }
+    // Remove duplicates
+    const uniqueSuggestions = suggestions.filter(
+      (s, index, self) => index === self.findIndex((t) => t.token === s.token)
+    );
 
-    if (preview.warnings.length > 0) {
-      suggestions.push('Address lexer mode warnings for accurate benchmarking');
-    }
+    const summary =
+      uniqueSuggestions.length > 0
+        ? `Found ${uniqueSuggestions.length} suggested token(s) from error log`
+        : 'No token suggestions found in error log';
 
     return {
-      success: true,
-      metrics: {
-        totalTokens,
-        avgTimeMs: Math.round(avgTimeMs * 100) / 100,
-        minTimeMs: Math.round(minTimeMs * 100) / 100,
-        maxTimeMs: Math.round(maxTimeMs * 100) / 100,
-        tokensPerSecond: Math.round(tokensPerSecond),
-        iterations,
-      },
-      tokens: preview.tokens,
-      errors: [],
-      performanceRating,
-      suggestions,
+      suggestions: uniqueSuggestions,
+      summary,
     };
   }
 
-  static previewTokens(
+  /**
+   * Test if input text matches a parser rule (quick validation)
+   * Returns match result with confidence score
+   */
+  static testParserRule(
     grammarContent: string,
+    ruleName: string,
     input: string,
     options?: {
-      showPositions?: boolean;
-      rulesToTest?: string[];
+      fromFile?: string;
+      basePath?: string;
+      loadImports?: boolean;
     }
   ): {
     success: boolean;
-    tokens: TokenInfo[];
-    summary: string;
-    errors: Array<{ position: number; char: string; message: string }>;
-    warnings: string[];
+    matched: boolean;
+    confidence: 'high' | 'medium' | 'low';
+    message: string;
+    details?: {
+      expectedTokens?: string[];
+      actualTokens?: TokenInfo[];
+      partialMatch?: boolean;
+      matchedAlternative?: number;
+    };
   } {
-    const analysis = this.analyze(grammarContent);
-    const tokens: TokenInfo[] = [];
-    const errors: Array<{ position: number; char: string; message: string }> = [];
-    const warnings: string[] = [];
+    // Load grammar with imports if requested
+    let analysis;
+    let finalGrammarContent = grammarContent;
 
-    // Detect unsupported features and add warnings
-    const featureCheck = this.detectUnsupportedFeatures(grammarContent);
-    warnings.push(...featureCheck.warnings);
+    if (options?.fromFile && options?.loadImports !== false) {
+      try {
+        analysis = this.loadGrammarWithImports(options.fromFile, options.basePath);
 
-    // Add recommendation if complex features detected
-    if (featureCheck.hasLexerModes) {
-      warnings.push(
-        '💡 Lexer modes detected. Token preview uses DEFAULT_MODE only. Use analyze-lexer-modes to understand mode structure.'
-      );
-    }
-    if (featureCheck.hasSemanticPredicates) {
-      warnings.push(
-        '💡 Consider using test-parser-rule instead for testing parser rules (works without full lexer simulation)'
-      );
-    }
+        // Reconstruct grammar from merged analysis
+        const lines: string[] = [];
 
-    // Extract lexer rules (exclude fragments as they're not tokens)
-    // When modes are present, only use DEFAULT_MODE rules for preview
-    let lexerRules = analysis.rules.filter((r) => r.type === 'lexer');
+        // Add parser rules
+        const parserRules = analysis.rules.filter((r) => r.type === 'parser');
+        for (const rule of parserRules) {
+          // rule.definition already contains complete text
+          lines.push(rule.definition);
+          lines.push('');
+        }
 
-    // If grammar has multiple modes and no specific rules requested, only use DEFAULT_MODE
-    if (featureCheck.hasLexerModes && analysis.modes.length > 1) {
-      if (!options?.rulesToTest || options.rulesToTest.length === 0) {
-        lexerRules = lexerRules.filter((r) => !r.mode || r.mode === 'DEFAULT_MODE');
+        // Add lexer rules
+        const lexerRules = analysis.rules.filter((r) => r.type === 'lexer');
+        for (const rule of lexerRules) {
+          // rule.definition already contains complete text
+          lines.push(rule.definition);
+          lines.push('');
+        }
+
+        finalGrammarContent = lines.join('\n');
+      } catch (error) {
+        return {
+          success: false,
+          matched: false,
+          confidence: 'low',
+          message: `Failed to load grammar with imports: ${error instanceof Error ? error.message : String(error)}`,
+        };
       }
+    } else {
+      analysis = this.analyze(grammarContent);
     }
 
-    // Filter rules if specified
-    let rulesToUse = lexerRules;
-    if (options?.rulesToTest && options.rulesToTest.length > 0) {
-      rulesToUse = lexerRules.filter((r) => options.rulesToTest!.includes(r.name));
-      const missing = options.rulesToTest.filter(
-        (name) => !lexerRules.find((r) => r.name === name)
+    // Find the rule
+    const rule = analysis.rules.find((r) => r.name === ruleName);
+    if (!rule) {
+      return {
+        success: false,
+        matched: false,
+        confidence: 'low',
+        message: `Rule '${ruleName}' not found in grammar`,
+      };
+    }
+
+    if (rule.type !== 'parser') {
+      return {
+        success: false,
+        matched: false,
+        confidence: 'low',
+        message: `Rule '${ruleName}' is a lexer rule, not a parser rule`,
+      };
+    }
+
+    // Tokenize input using the final grammar content (with imports if loaded)
+    const tokenResult = this.previewTokens(finalGrammarContent, input, { showPositions: false });
+    if (tokenResult.errors.length > 0) {
+      const errorMessages = tokenResult.errors.map(
+        (e) => `char '${e.char}' at position ${e.position}: ${e.message}`
       );
-      if (missing.length > 0) {
-        warnings.push(`Rules not found: ${missing.join(', ')}`);
-      }
+      return {
+        success: true,
+        matched: false,
+        confidence: 'high',
+        message: `Input has tokenization errors: ${errorMessages.join(', ')}`,
+        details: {
+          actualTokens: tokenResult.tokens,
+        },
+      };
     }
 
-    // Parse rules to extract patterns and determine skip/channel
-    const rulePatterns: Array<{
-      name: string;
-      pattern: RegExp | null;
-      skip: boolean;
-      channel?: string;
-      rawPattern: string;
-    }> = [];
+    // Parse rule structure
+    const ruleStructure = this.parseRuleStructure(rule.definition);
 
-    // First, collect all explicit lexer token patterns
-    const explicitTokenPatterns = new Set<string>();
-    for (const rule of rulesToUse) {
-      const def = rule.definition.trim();
-      let patternStr = def;
-      patternStr = patternStr.replace(/^fragment\s+/, '');
-      const colonIndex = patternStr.indexOf(':');
-      if (colonIndex >= 0) {
-        patternStr = patternStr.substring(colonIndex + 1);
-      }
-      patternStr = patternStr.split('->')[0].trim();
-      patternStr = patternStr.replace(/;$/, '').trim();
+    // Match tokens against rule structure
+    const matchResult = this.matchTokensAgainstRule(
+      tokenResult.tokens,
+      ruleStructure,
+      analysis.rules
+    );
 
-      // Extract string literals from this token rule
-      const literalMatches = patternStr.match(/'([^']+)'/g);
-      if (literalMatches) {
-        for (const match of literalMatches) {
-          explicitTokenPatterns.add(match.slice(1, -1));
-        }
-      }
-    }
+    return {
+      success: true,
+      matched: matchResult.matched,
+      confidence: matchResult.confidence,
+      message: matchResult.message,
+      details: {
+        expectedTokens: matchResult.expectedTokens,
+        actualTokens: tokenResult.tokens,
+        partialMatch: matchResult.partialMatch,
+        matchedAlternative: matchResult.matchedAlternative,
+      },
+    };
+  }
 
-    // Extract string literals from parser rules as implicit tokens
-    // but ONLY if they don't have an explicit lexer rule
-    const implicitTokens = new Set<string>();
-    for (const rule of analysis.rules) {
-      if (rule.type === 'parser') {
-        const literalMatches = rule.definition.match(/'([^']+)'/g);
-        if (literalMatches) {
-          for (const match of literalMatches) {
-            const literal = match.slice(1, -1);
-            // Only add if not already covered by explicit token
-            if (!explicitTokenPatterns.has(literal)) {
-              implicitTokens.add(literal);
-            }
-          }
-        }
-      }
-    }
+  /**
+   * Parse rule structure into alternatives and elements
+   */
+  private static parseRuleStructure(definition: string): {
+    alternatives: Array<
+      Array<{
+        element: string;
+        modifier?: '?' | '*' | '+';
+        isOptional: boolean;
+        isRepeating: boolean;
+      }>
+    >;
+  } {
+    // Remove rule name and colon
+    let body = definition.replace(/^[a-z_][a-z0-9_]*\s*:/i, '').trim();
+
+    // Remove semicolon
+    body = body.replace(/;$/, '').trim();
 
-    // Add implicit tokens as high-priority rules (before explicit rules)
-    for (const literal of implicitTokens) {
-      const escaped = literal.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-      rulePatterns.push({
-        name: `'${literal}'`,
-        pattern: new RegExp('^(?:' + escaped + ')'),
-        skip: false,
-        rawPattern: literal,
-      });
-    }
+    // Remove labels (name=element -> element)
+    body = body.replace(/[a-z_][a-z0-9_]*\s*=/gi, '');
 
-    for (const rule of rulesToUse) {
-      const def = rule.definition.trim();
+    // Remove actions {code}
+    body = body.replace(/\{[^}]*\}/g, '');
 
-      // Check for skip directive
-      const skip = def.includes('-> skip');
+    // Split by | to get alternatives
+    const alternativeStrings = this.splitByTopLevelPipe(body);
 
-      // Check for channel directive
-      let channel: string | undefined;
-      const channelMatch = def.match(/-> channel\(([^)]+)\)/);
-      if (channelMatch) {
-        channel = channelMatch[1];
-      }
+    const alternatives = alternativeStrings.map((alt) => {
+      // Parse each alternative into elements
+      return this.parseAlternative(alt.trim());
+    });
 
-      // Extract the pattern from "RULENAME : pattern ;" format
-      // Remove the rule name and colon at the start
-      let patternStr = def;
+    return { alternatives };
+  }
 
-      // Remove "fragment" keyword if present
-      patternStr = patternStr.replace(/^fragment\s+/, '');
+  /**
+   * Split string by top-level | (not inside parentheses)
+   */
+  private static splitByTopLevelPipe(text: string): string[] {
+    const result: string[] = [];
+    let current = '';
+    let depth = 0;
 
-      // Extract pattern between : and either -> or ;
-      const colonIndex = patternStr.indexOf(':');
-      if (colonIndex >= 0) {
-        patternStr = patternStr.substring(colonIndex + 1);
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (char === '(') depth++;
+      else if (char === ')') depth--;
+      else if (char === '|' && depth === 0) {
+        result.push(current.trim());
+        current = '';
+        continue;
       }
 
-      // Remove everything after -> (skip/channel directives)
-      patternStr = patternStr.split('->')[0].trim();
+      current += char;
+    }
 
-      // Remove trailing semicolon
-      patternStr = patternStr.replace(/;$/, '').trim();
+    if (current.trim()) {
+      result.push(current.trim());
+    }
 
-      try {
-        // Convert ANTLR4 pattern to JavaScript regex
-        const jsPattern = this.convertANTLRPatternToRegex(patternStr);
+    return result;
+  }
 
-        // Anchor to start of string for matching
-        const regex = new RegExp('^(?:' + jsPattern + ')', 's');
+  /**
+   * Parse a single alternative into elements
+   */
+  private static parseAlternative(text: string): Array<{
+    element: string;
+    modifier?: '?' | '*' | '+';
+    isOptional: boolean;
+    isRepeating: boolean;
+  }> {
+    const elements: Array<{
+      element: string;
+      modifier?: '?' | '*' | '+';
+      isOptional: boolean;
+      isRepeating: boolean;
+    }> = [];
 
-        rulePatterns.push({
-          name: rule.name,
-          pattern: regex,
-          skip,
-          channel,
-          rawPattern: patternStr,
-        });
-      } catch {
-        warnings.push(`Could not convert pattern for rule '${rule.name}': ${patternStr}`);
-        rulePatterns.push({
-          name: rule.name,
-          pattern: null,
-          skip,
-          channel,
-          rawPattern: patternStr,
-        });
-      }
-    }
+    // Tokenize the alternative text
+    const tokens = this.tokenizeAlternative(text);
 
-    // Tokenize the input
-    let position = 0;
-    let line = 1;
-    let column = 0;
+    for (const token of tokens) {
+      // Check for modifier
+      const modifier = token.match(/([?*+])$/)?.[1] as '?' | '*' | '+' | undefined;
+      const element = modifier ? token.slice(0, -1) : token;
 
-    while (position < input.length) {
-      let matched = false;
-      let longestMatch: { length: number; rule: (typeof rulePatterns)[0] } | null = null;
+      // Skip empty elements
+      if (!element || element === '(' || element === ')') continue;
 
-      // Try all rules and find longest match (maximal munch)
-      for (const rule of rulePatterns) {
-        if (!rule.pattern) continue;
+      elements.push({
+        element: element.trim(),
+        modifier,
+        isOptional: modifier === '?' || modifier === '*',
+        isRepeating: modifier === '*' || modifier === '+',
+      });
+    }
 
-        const remaining = input.substring(position);
-        const match = remaining.match(rule.pattern);
+    return elements;
+  }
 
-        if (match && match[0].length > 0) {
-          if (!longestMatch || match[0].length > longestMatch.length) {
-            longestMatch = { length: match[0].length, rule };
+  /**
+   * Tokenize alternative text into elements
+   */
+  private static tokenizeAlternative(text: string): string[] {
+    const tokens: string[] = [];
+    let current = '';
+    let depth = 0;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (char === '(') {
+        if (current.trim()) {
+          tokens.push(current.trim());
+          current = '';
+        }
+        depth++;
+        current += char;
+      } else if (char === ')') {
+        depth--;
+        current += char;
+        if (depth === 0) {
+          // Check for modifier after parentheses
+          if (i + 1 < text.length && /[?*+]/.test(text[i + 1])) {
+            current += text[i + 1];
+            i++;
           }
+          tokens.push(current.trim());
+          current = '';
+        }
+      } else if (char === ' ' || char === '\t' || char === '\n') {
+        if (depth === 0 && current.trim()) {
+          tokens.push(current.trim());
+          current = '';
+        } else if (depth > 0) {
+          current += char;
+        }
+      } else {
+        current += char;
+        // Check if next char is a modifier
+        if (depth === 0 && i + 1 < text.length && /[?*+]/.test(text[i + 1])) {
+          current += text[i + 1];
+          i++;
+          tokens.push(current.trim());
+          current = '';
         }
       }
+    }
 
-      if (longestMatch) {
-        const value = input.substring(position, position + longestMatch.length);
-
-        tokens.push({
-          type: longestMatch.rule.name,
-          value,
-          start: position,
-          end: position + longestMatch.length - 1,
-          line,
-          column,
-          skipped: longestMatch.rule.skip,
-          channel: longestMatch.rule.channel,
-        });
+    if (current.trim()) {
+      tokens.push(current.trim());
+    }
 
-        // Update line and column
-        for (let i = 0; i < value.length; i++) {
-          if (value[i] === '\n') {
-            line++;
-            column = 0;
-          } else {
-            column++;
-          }
-        }
+    return tokens;
+  }
 
-        position += longestMatch.length;
-        matched = true;
-      }
+  /**
+   * Match tokens against rule structure
+   */
+  private static matchTokensAgainstRule(
+    tokens: TokenInfo[],
+    ruleStructure: { alternatives: any[] },
+    allRules: GrammarRule[]
+  ): {
+    matched: boolean;
+    confidence: 'high' | 'medium' | 'low';
+    message: string;
+    expectedTokens?: string[];
+    partialMatch?: boolean;
+    matchedAlternative?: number;
+  } {
+    // Filter out skipped tokens (whitespace, comments)
+    const activeTokens = tokens.filter((t) => !t.skipped);
 
-      if (!matched) {
-        // No rule matched - record error
-        const char = input[position];
-        errors.push({
-          position,
-          char: char === '\n' ? '\\n' : char,
-          message: `Unexpected character '${char === '\n' ? '\\n' : char}' at position ${position}`,
-        });
+    if (activeTokens.length === 0 && ruleStructure.alternatives.length > 0) {
+      // Check if any alternative can be empty (all optional)
+      const hasEmptyAlternative = ruleStructure.alternatives.some((alt) =>
+        alt.every((el: any) => el.isOptional)
+      );
 
-        // Skip the character and continue
-        if (char === '\n') {
-          line++;
-          column = 0;
-        } else {
-          column++;
-        }
-        position++;
+      if (hasEmptyAlternative) {
+        return {
+          matched: true,
+          confidence: 'high',
+          message: `Input matches (empty alternative)`,
+        };
       }
+
+      return {
+        matched: false,
+        confidence: 'high',
+        message: 'Input is empty but rule requires tokens',
+      };
     }
 
-    // Generate summary
-    const totalTokens = tokens.length;
-    const skippedTokens = tokens.filter((t) => t.skipped).length;
-    const channelTokens = tokens.filter((t) => t.channel).length;
+    // Try each alternative
+    for (let altIndex = 0; altIndex < ruleStructure.alternatives.length; altIndex++) {
+      const alternative = ruleStructure.alternatives[altIndex];
+      const matchResult = this.matchAlternative(activeTokens, alternative, allRules);
 
-    let summary = '';
-    if (errors.length === 0) {
-      summary = `✓ Successfully tokenized input: ${totalTokens} token(s)`;
-      if (skippedTokens > 0) {
-        summary += ` (${skippedTokens} skipped)`;
+      if (matchResult.matched) {
+        return {
+          matched: true,
+          confidence: matchResult.confidence,
+          message: `Input matches alternative ${altIndex + 1}`,
+          matchedAlternative: altIndex,
+          expectedTokens: matchResult.expectedTokens,
+        };
       }
-      if (channelTokens > 0) {
-        summary += ` (${channelTokens} on channels)`;
+
+      // Track partial matches for better error messages
+      if (matchResult.partialMatch && altIndex === ruleStructure.alternatives.length - 1) {
+        return {
+          matched: false,
+          confidence: 'medium',
+          message: `Partial match found but incomplete`,
+          partialMatch: true,
+          expectedTokens: matchResult.expectedTokens,
+        };
       }
-    } else {
-      summary = `✗ Tokenization failed: ${errors.length} error(s), ${totalTokens} token(s) recognized`;
     }
 
+    // Build expected tokens list from first alternative
+    const expectedTokens = ruleStructure.alternatives[0]?.map((el: any) => el.element) || [];
+
     return {
-      success: errors.length === 0,
-      tokens,
-      summary,
-      errors,
-      warnings,
+      matched: false,
+      confidence: 'high',
+      message: `No alternatives matched. Expected: ${expectedTokens.join(', ')}`,
+      expectedTokens,
     };
   }
 
   /**
-   * Convert ANTLR4 pattern syntax to JavaScript regex
-   * Handles string literals, character classes, sequences, and basic modifiers
+   * Match tokens against a single alternative
    */
-  private static convertANTLRPatternToRegex(pattern: string): string {
-    let result = '';
-    let i = 0;
+  private static matchAlternative(
+    tokens: TokenInfo[],
+    alternative: Array<{
+      element: string;
+      modifier?: string;
+      isOptional: boolean;
+      isRepeating: boolean;
+    }>,
+    _allRules: GrammarRule[]
+  ): {
+    matched: boolean;
+    confidence: 'high' | 'medium' | 'low';
+    partialMatch?: boolean;
+    expectedTokens?: string[];
+  } {
+    let tokenIndex = 0;
+    let elementIndex = 0;
+    const expectedTokens: string[] = [];
 
-    while (i < pattern.length) {
-      const char = pattern[i];
+    while (elementIndex < alternative.length) {
+      const element = alternative[elementIndex];
+      expectedTokens.push(element.element);
 
-      // String literal: 'text'
-      if (char === "'") {
-        i++; // Skip opening quote
-        let literal = '';
-        while (i < pattern.length && pattern[i] !== "'") {
-          if (pattern[i] === '\\' && i + 1 < pattern.length) {
-            // Handle escape sequences
-            i++;
-            const escChar = pattern[i];
-            switch (escChar) {
-              case 'n':
-                literal += '\\n';
-                break;
-              case 'r':
-                literal += '\\r';
-                break;
-              case 't':
-                literal += '\\t';
-                break;
-              case '\\':
-                literal += '\\\\';
-                break;
-              case "'":
-                literal += "'";
+      // Handle grouped elements: (A B C)*, (A | B)?, etc.
+      if (element.element.startsWith('(') && element.element.endsWith(')')) {
+        const groupContent = element.element.slice(1, -1).trim();
+
+        // Parse the group as a mini-rule
+        const groupAlternatives = this.splitByTopLevelPipe(groupContent).map((alt) =>
+          this.parseAlternative(alt.trim())
+        );
+
+        // Try to match the group repeatedly if it has a repeating modifier
+        let totalGroupMatches = 0;
+        let continueMatching = true;
+
+        while (continueMatching && tokenIndex < tokens.length) {
+          let groupMatchedThisIteration = false;
+          let bestMatchConsumed = 0;
+
+          // Try each alternative in the group
+          for (const groupAlt of groupAlternatives) {
+            // Try to match this alternative starting from current position
+            let tempIndex = tokenIndex;
+            let allElementsMatched = true;
+
+            for (const groupEl of groupAlt) {
+              if (tempIndex >= tokens.length && !groupEl.isOptional) {
+                allElementsMatched = false;
                 break;
-              default:
-                literal += escChar;
+              }
+
+              const isParser = /^[a-z]/.test(groupEl.element);
+
+              if (isParser) {
+                // Parser rule - consume at least one token
+                if (tempIndex < tokens.length) {
+                  tempIndex++;
+
+                  // Handle repetition
+                  if (groupEl.isRepeating) {
+                    while (tempIndex < tokens.length) {
+                      tempIndex++;
+                    }
+                  }
+                } else if (!groupEl.isOptional) {
+                  allElementsMatched = false;
+                  break;
+                }
+              } else {
+                // Lexer token - must match exactly
+                if (tempIndex < tokens.length && tokens[tempIndex].type === groupEl.element) {
+                  tempIndex++;
+
+                  // Handle repetition
+                  if (groupEl.isRepeating) {
+                    while (
+                      tempIndex < tokens.length &&
+                      tokens[tempIndex].type === groupEl.element
+                    ) {
+                      tempIndex++;
+                    }
+                  }
+                } else if (!groupEl.isOptional) {
+                  allElementsMatched = false;
+                  break;
+                }
+              }
             }
-          } else {
-            // Escape regex special characters for literals
-            const c = pattern[i];
-            if (/[.*+?^${}()|[\]\\]/.test(c)) {
-              literal += '\\' + c;
-            } else {
-              literal += c;
+
+            if (allElementsMatched && tempIndex > tokenIndex) {
+              // This alternative matched and consumed tokens
+              const consumed = tempIndex - tokenIndex;
+              if (consumed > bestMatchConsumed) {
+                bestMatchConsumed = consumed;
+                groupMatchedThisIteration = true;
+              }
             }
           }
-          i++;
-        }
-        i++; // Skip closing quote
-        result += literal;
 
-        // Character class: [a-z]
-      } else if (char === '[') {
-        let charClass = '[';
-        i++;
-        while (i < pattern.length && pattern[i] !== ']') {
-          charClass += pattern[i];
-          i++;
-        }
-        charClass += ']';
-        i++;
-        result += charClass;
+          if (groupMatchedThisIteration && bestMatchConsumed > 0) {
+            tokenIndex += bestMatchConsumed;
+            totalGroupMatches++;
 
-        // Parentheses and operators - pass through
-      } else if ('()|?*+'.indexOf(char) >= 0) {
-        result += char;
-        i++;
+            // Decide whether to continue
+            if (!element.isRepeating) {
+              continueMatching = false;
+            }
+          } else {
+            continueMatching = false;
+          }
+        }
 
-        // Tilde (negation): ~'x' or ~[abc]
-      } else if (char === '~') {
-        // ANTLR uses ~ for negation, regex uses [^...]
-        i++; // Skip ~
-        // Skip whitespace
-        while (i < pattern.length && /\s/.test(pattern[i])) {
-          i++;
+        // Check if we matched enough times
+        if (element.modifier === '+' && totalGroupMatches === 0) {
+          // + requires at least one match
+          return {
+            matched: false,
+            confidence: 'medium',
+            partialMatch: elementIndex > 0,
+            expectedTokens,
+          };
         }
 
-        if (i < pattern.length && pattern[i] === '[') {
-          // ~[abc] -> [^abc]
-          result += '[^';
-          i++; // Skip [
-          while (i < pattern.length && pattern[i] !== ']') {
-            result += pattern[i];
-            i++;
-          }
-          result += ']';
-          i++; // Skip ]
-        } else if (i < pattern.length && pattern[i] === "'") {
-          // ~'x' -> [^x]
-          i++; // Skip '
-          result += '[^';
-          while (i < pattern.length && pattern[i] !== "'") {
-            result += pattern[i];
-            i++;
-          }
-          result += ']';
-          i++; // Skip '
+        if (!element.isOptional && !element.isRepeating && totalGroupMatches === 0) {
+          // Required element didn't match
+          return {
+            matched: false,
+            confidence: 'medium',
+            partialMatch: elementIndex > 0,
+            expectedTokens,
+          };
         }
 
-        // Whitespace - skip
-      } else if (/\s/.test(char)) {
-        i++;
-
-        // Fragment reference or other - keep as-is (may fail, but try)
-      } else {
-        result += char;
-        i++;
+        elementIndex++;
+        continue;
       }
-    }
 
-    return result;
-  }
+      // Check if element is a parser rule (lowercase)
+      const isParserRule =
+        /^[a-z_][a-z0-9_]*$/i.test(element.element) &&
+        element.element[0] === element.element[0].toLowerCase();
 
-  /**
-   * Add multiple lexer tokens using template-based generation
-   * Example: Add 5 tokens for "config X" patterns
-   */
-  static addTokensWithTemplate(
-    grammarContent: string,
-    template: {
-      baseNames: string[]; // e.g., ["FTM_PUSH", "DNS", "FIREWALL"]
-      precedingTokens?: string[]; // e.g., ["SYSTEM", "CONFIG"]
-      pattern?: string; // Optional custom pattern
-      options?: { channel?: string; skip?: boolean; fragment?: boolean };
-    }
-  ): {
-    success: boolean;
-    modified: string;
-    results: Array<{ name: string; success: boolean; message: string }>;
-    summary: string;
-  } {
-    const rules: Array<{
-      name: string;
-      pattern: string;
-      options?: { channel?: string; skip?: boolean; fragment?: boolean };
-    }> = [];
+      if (isParserRule) {
+        // For parser rules, we can't fully validate without recursion
+        // Just check if we have tokens available
+        if (tokenIndex >= tokens.length) {
+          if (element.isOptional) {
+            elementIndex++;
+            continue;
+          }
+          return {
+            matched: false,
+            confidence: 'medium',
+            partialMatch: elementIndex > 0,
+            expectedTokens,
+          };
+        }
 
-    // Generate rules for each base name
-    for (const baseName of template.baseNames) {
-      const ruleName = baseName.toUpperCase().replace(/[^A-Z0-9_]/g, '_');
+        // Assume parser rule consumes at least one token
+        tokenIndex++;
 
-      // Generate pattern
-      let pattern: string;
-      if (template.pattern) {
-        // Use custom pattern, replacing {NAME} placeholder
-        pattern = template.pattern.replace(/{NAME}/g, baseName);
-      } else {
-        // Default: string literal pattern
-        const namePattern = baseName.toLowerCase().replace(/_/g, '-');
-        pattern = `'${namePattern}'`;
-      }
+        // Handle repetition
+        if (element.isRepeating) {
+          // Consume more tokens (simple heuristic)
+          while (tokenIndex < tokens.length) {
+            tokenIndex++;
+            if (elementIndex + 1 < alternative.length) {
+              // Check if next element might match
+              const nextElement = alternative[elementIndex + 1];
+              if (tokens[tokenIndex]?.type === nextElement.element) {
+                break;
+              }
+            }
+          }
+        }
 
-      rules.push({
-        name: ruleName,
-        pattern,
-        options: template.options,
-      });
-    }
+        elementIndex++;
+        continue;
+      }
 
-    // Use existing bulk add functionality
-    return this.addLexerRules(grammarContent, rules);
-  }
+      // Element is a token (lexer rule)
+      if (tokenIndex >= tokens.length) {
+        if (element.isOptional) {
+          elementIndex++;
+          continue;
+        }
+        return {
+          matched: false,
+          confidence: 'high',
+          partialMatch: elementIndex > 0,
+          expectedTokens,
+        };
+      }
 
-  /**
-   * Generate lexer rule from natural language pattern
-   * Example: "ignore config system ftm-push" → generates IGNORE, CONFIG, SYSTEM, FTM_PUSH tokens
-   */
-  static generateTokensFromPattern(
-    grammarContent: string,
-    inputPattern: string,
-    options?: {
-      tokenize?: boolean; // Split input into individual tokens (default: true)
-      prefix?: string; // Optional prefix for token names
-      options?: { channel?: string; skip?: boolean; fragment?: boolean };
-    }
-  ): {
-    success: boolean;
-    modified: string;
-    generated: Array<{ name: string; pattern: string }>;
-    results: Array<{ name: string; success: boolean; message: string }>;
-    summary: string;
-  } {
-    const tokenize = options?.tokenize !== false;
-    const generatedTokens: Array<{ name: string; pattern: string }> = [];
+      const currentToken = tokens[tokenIndex];
 
-    if (tokenize) {
-      // Split input into words and generate individual token rules
-      const words = inputPattern.trim().split(/\s+/);
+      // Match token type
+      if (currentToken.type === element.element) {
+        tokenIndex++;
 
-      for (const word of words) {
-        // Convert to uppercase with underscores for rule name
-        let ruleName = word.toUpperCase().replace(/[^A-Z0-9]/g, '_');
-        if (options?.prefix) {
-          ruleName = `${options.prefix.toUpperCase()}_${ruleName}`;
+        // Handle repetition (*, +)
+        if (element.isRepeating) {
+          while (tokenIndex < tokens.length && tokens[tokenIndex].type === element.element) {
+            tokenIndex++;
+          }
         }
 
-        // Generate pattern (use the original word as lowercase literal)
-        const pattern = `'${word.toLowerCase()}'`;
-
-        generatedTokens.push({ name: ruleName, pattern });
-      }
-    } else {
-      // Treat entire input as single token
-      let ruleName = inputPattern.toUpperCase().replace(/[^A-Z0-9]/g, '_');
-      if (options?.prefix) {
-        ruleName = `${options.prefix.toUpperCase()}_${ruleName}`;
+        elementIndex++;
+      } else if (element.isOptional) {
+        // Optional element doesn't match, skip it
+        elementIndex++;
+      } else {
+        // Required element doesn't match
+        return {
+          matched: false,
+          confidence: 'high',
+          partialMatch: elementIndex > 0,
+          expectedTokens,
+        };
       }
-
-      const pattern = `'${inputPattern.toLowerCase()}'`;
-      generatedTokens.push({ name: ruleName, pattern });
     }
 
-    // Add all generated tokens
-    const rules = generatedTokens.map((t) => ({
-      name: t.name,
-      pattern: t.pattern,
-      options: options?.options,
-    }));
-
-    const result = this.addLexerRules(grammarContent, rules);
+    // Check if we consumed all tokens
+    if (tokenIndex === tokens.length) {
+      return {
+        matched: true,
+        confidence: 'high',
+        expectedTokens,
+      };
+    }
 
+    // Extra tokens remaining
     return {
-      success: result.success,
-      modified: result.modified,
-      generated: generatedTokens,
-      results: result.results,
-      summary: result.summary,
+      matched: false,
+      confidence: 'high',
+      partialMatch: true,
+      expectedTokens,
     };
   }
 
   /**
-   * Parse error logs and suggest tokens to add
-   * Supports Batfish error log format and generic ANTLR parse errors
+   * Add `# Label` to every unlabeled alternative of the given parser rules
    */
-  static suggestTokensFromErrors(
+  static labelAlternatives(
     grammarContent: string,
-    errorLog: string
+    ruleNames: string[]
   ): {
-    suggestions: Array<{
-      token: string;
-      pattern: string;
-      reason: string;
-      confidence: 'high' | 'medium' | 'low';
-    }>;
-    summary: string;
+    success: boolean;
+    modified: string;
+    message: string;
+    labels: Array<{ rule: string; alternative: number; label: string }>;
   } {
-    const suggestions: Array<{
-      token: string;
-      pattern: string;
-      reason: string;
-      confidence: 'high' | 'medium' | 'low';
-    }> = [];
-
-    const lines = errorLog.split('\n');
-    const existingRules = this.analyze(grammarContent).rules.map((r) => r.name);
-
-    for (const line of lines) {
-      // Pattern 1: Batfish-style errors - "unexpected token: 'word'"
-      const batfishMatch = line.match(/unexpected token[:\s]+['"]([^'"]+)['"]/i);
-      if (batfishMatch) {
-        const word = batfishMatch[1];
-        const tokenName = word.toUpperCase().replace(/[^A-Z0-9]/g, '_');
-
-        if (!existingRules.includes(tokenName)) {
-          suggestions.push({
-            token: tokenName,
-            pattern: `'${word.toLowerCase()}'`,
-            reason: `Unexpected token '${word}' found in error log`,
-            confidence: 'high',
-          });
-        }
-        continue;
-      }
-
-      // Pattern 2: ANTLR-style errors - "mismatched input 'word'"
-      const antlrMatch = line.match(/mismatched input ['"]([^'"]+)['"]/i);
-      if (antlrMatch) {
-        const word = antlrMatch[1];
-        const tokenName = word.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+    const analysis = this.analyze(grammarContent);
+    const capitalize = (name: string) => name.charAt(0).toUpperCase() + name.slice(1);
 
-        if (!existingRules.includes(tokenName)) {
-          suggestions.push({
-            token: tokenName,
-            pattern: `'${word.toLowerCase()}'`,
-            reason: `Mismatched input '${word}' in error log`,
-            confidence: 'high',
-          });
-        }
-        continue;
-      }
+    // Labels must stay unique across the grammar and must not clash with rule contexts
+    const taken = new Set<string>(
+      analysis.rules.flatMap((r) => (r.alternativeLabels || []).map((l) => l.name))
+    );
+    for (const rule of analysis.rules) {
+      taken.add(capitalize(rule.name));
+    }
 
-      // Pattern 3: "no viable alternative at input 'word'"
-      const noViableMatch = line.match(/no viable alternative at input ['"]([^'"]+)['"]/i);
-      if (noViableMatch) {
-        const word = noViableMatch[1];
-        const tokenName = word.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+    const labels: Array<{ rule: string; alternative: number; label: string }> = [];
+    const insertions: Array<{ offset: number; text: string }> = [];
+    const problems: string[] = [];
 
-        if (!existingRules.includes(tokenName)) {
-          suggestions.push({
-            token: tokenName,
-            pattern: `'${word.toLowerCase()}'`,
-            reason: `No viable alternative for '${word}'`,
-            confidence: 'medium',
-          });
-        }
+    for (const ruleName of ruleNames) {
+      const rule = analysis.rules.find((r) => r.name === ruleName);
+      if (!rule || !rule.ast) {
+        problems.push(`Rule '${ruleName}' not found`);
+        continue;
+      }
+      if (rule.type !== 'parser') {
+        problems.push(`'${ruleName}' is a lexer rule; only parser alternatives can be labeled`);
+        continue;
+      }
+      if (rule.ast.alternatives.length < 2) {
+        problems.push(`Rule '${ruleName}' has a single alternative`);
         continue;
       }
 
-      // Pattern 4: Generic pattern - look for quoted strings
-      const quotedMatches = line.matchAll(/['"]([a-zA-Z][a-zA-Z0-9\-_]*)['"]/g);
-      for (const match of quotedMatches) {
-        const word = match[1];
-        const tokenName = word.toUpperCase().replace(/[^A-Z0-9]/g, '_');
-
-        if (!existingRules.includes(tokenName) && !suggestions.some((s) => s.token === tokenName)) {
-          suggestions.push({
-            token: tokenName,
-            pattern: `'${word.toLowerCase()}'`,
-            reason: `Potential missing token from error context`,
-            confidence: 'low',
-          });
+      rule.ast.alternatives.forEach((alt, index) => {
+        if (alt.label) return;
+        const base = this.alternativeLabelStem(alt, rule.name) + capitalize(rule.name);
+        let label = base;
+        for (let n = 2; taken.has(label); n++) {
+          label = `${base}${n}`;
         }
-      }
-    }
+        taken.add(label);
+        labels.push({ rule: rule.name, alternative: index + 1, label });
 
-    // Remove duplicates
-    const uniqueSuggestions = suggestions.filter(
-      (s, index, self) => index === self.findIndex((t) => t.token === s.token)
-    );
+        const offset = alt.span.end.offset;
+        const before = offset > 0 && !/\s/.test(grammarContent[offset - 1]) ? ' ' : '';
+        const after = alt.elements.length === 0 && !/\s/.test(grammarContent[offset]) ? ' ' : '';
+        insertions.push({ offset, text: `${before}# ${label}${after}` });
+      });
+    }
 
-    const summary =
-      uniqueSuggestions.length > 0
-        ? `Found ${uniqueSuggestions.length} suggested token(s) from error log`
-        : 'No token suggestions found in error log';
+    let modified = grammarContent;
+    for (const insertion of insertions.sort((a, b) => b.offset - a.offset)) {
+      modified =
+        modified.slice(0, insertion.offset) + insertion.text + modified.slice(insertion.offset);
+    }
 
+    const problemNote = problems.length > 0 ? ` Skipped: ${problems.join('; ')}.` : '';
+    if (labels.length === 0) {
+      return {
+        success: problems.length === 0,
+        modified: grammarContent,
+        message: `No alternatives to label.${problemNote}`,
+        labels,
+      };
+    }
     return {
-      suggestions: uniqueSuggestions,
-      summary,
+      success: true,
+      modified,
+      message: `Labeled ${labels.length} alternative(s) in ${new Set(labels.map((l) => l.rule)).size} rule(s).${problemNote}`,
+      labels,
     };
   }
 
   /**
-   * Test if input text matches a parser rule (quick validation)
-   * Returns match result with confidence score
+   * Label stem describing an alternative: an operator name (`expr '*' expr` → Mul),
+   * a keyword (`'if' ...` → If) or the first referenced rule/token (`INT` → Int)
    */
-  static testParserRule(
+  private static alternativeLabelStem(alt: AlternativeNode, ruleName: string): string {
+    const operatorNames: Record<string, string> = {
+      '+': 'Add',
+      '-': 'Sub',
+      '*': 'Mul',
+      '/': 'Div',
+      '%': 'Mod',
+      '^': 'Pow',
+      '**': 'Pow',
+      '=': 'Assign',
+      '==': 'Eq',
+      '!=': 'NotEq',
+      '<': 'Lt',
+      '>': 'Gt',
+      '<=': 'Le',
+      '>=': 'Ge',
+      '&&': 'And',
+      '||': 'Or',
+      '!': 'Not',
+      '~': 'BitNot',
+      '&': 'BitAnd',
+      '|': 'BitOr',
+      '<<': 'Shl',
+      '>>': 'Shr',
+      '.': 'Dot',
+      '(': 'Paren',
+      '[': 'Index',
+      '{': 'Brace',
+      '?': 'Ternary',
+      ',': 'Comma',
+    };
+    const pascalCase = (name: string) =>
+      /^[A-Z0-9_]+$/.test(name)
+        ? name
+            .split('_')
+            .filter(Boolean)
+            .map((part) => part.charAt(0) + part.slice(1).toLowerCase())
+            .join('')
+        : name.charAt(0).toUpperCase() + name.slice(1).replace(/_(\w)/g, (_, c) => c.toUpperCase());
+    const literalText = (element: GrammarElement) =>
+      element.kind === 'literal' ? element.value.slice(1, -1) : undefined;
+
+    // Operators, including sets like ('*' | '/') → MulDiv
+    for (const element of alt.elements) {
+      const literals =
+        element.kind === 'block'
+          ? element.alternatives.map((a) =>
+              a.elements.length === 1 ? literalText(a.elements[0]) : undefined
+            )
+          : [literalText(element)];
+      if (literals.length > 0 && literals.every((l) => l !== undefined && operatorNames[l])) {
+        return Array.from(new Set(literals.map((l) => operatorNames[l!]))).join('');
+      }
+    }
+
+    // Keywords
+    for (const element of alt.elements) {
+      const literal = literalText(element);
+      if (literal && /^[\p{L}_][\p{L}\p{N}_]*$/u.test(literal)) {
+        return pascalCase(literal);
+      }
+    }
+
+    // First referenced rule or token other than the rule itself
+    let reference: string | undefined;
+    walkElements([alt], (element) => {
+      if (
+        !reference &&
+        (element.kind === 'ruleRef' || element.kind === 'tokenRef') &&
+        element.name !== ruleName
+      ) {
+        reference = element.name;
+      }
+    });
+    if (reference) return pascalCase(reference);
+
+    return alt.elements.length === 0 ? 'Empty' : 'Alt';
+  }
+
+  /**
+   * Inline a rule by replacing all references with its definition
+   */
+  static inlineRule(
     grammarContent: string,
     ruleName: string,
-    input: string,
     options?: {
-      fromFile?: string;
-      basePath?: string;
-      loadImports?: boolean;
+      preserveParentheses?: boolean;
+      dryRun?: boolean;
     }
   ): {
     success: boolean;
-    matched: boolean;
-    confidence: 'high' | 'medium' | 'low';
+    modified: string;
     message: string;
-    details?: {
-      expectedTokens?: string[];
-      actualTokens?: TokenInfo[];
-      partialMatch?: boolean;
-      matchedAlternative?: number;
+    stats?: {
+      referencesReplaced: number;
+      ruleDefinition: string;
+      referencingRules: string[];
     };
   } {
-    // Load grammar with imports if requested
-    let analysis;
-    let finalGrammarContent = grammarContent;
+    const analysis = this.analyze(grammarContent);
 
-    if (options?.fromFile && options?.loadImports !== false) {
-      try {
-        analysis = this.loadGrammarWithImports(options.fromFile, options.basePath);
+    // Find the rule
+    const rule = analysis.rules.find((r) => r.name === ruleName);
+    if (!rule || !rule.ast) {
+      return {
+        success: false,
+        modified: grammarContent,
+        message: `Rule '${ruleName}' not found in grammar`,
+      };
+    }
+    const ruleNode = rule.ast;
 
-        // Reconstruct grammar from merged analysis
-        const lines: string[] = [];
+    // Check if rule body actually references itself (true recursion)
+    if (rule.referencedRules.includes(ruleName)) {
+      return {
+        success: false,
+        modified: grammarContent,
+        message: `Rule '${ruleName}' is recursive (references itself in body)`,
+      };
+    }
 
-        // Add parser rules
-        const parserRules = analysis.rules.filter((r) => r.type === 'parser');
-        for (const rule of parserRules) {
-          // rule.definition already contains complete text
-          lines.push(rule.definition);
-          lines.push('');
-        }
+    // Check for circular references
+    const circularCheck = this.detectCircularReference(analysis.rules, ruleName);
+    if (circularCheck.hasCircular) {
+      return {
+        success: false,
+        modified: grammarContent,
+        message: `Rule '${ruleName}' has circular references: ${circularCheck.path?.join(' -> ')}`,
+      };
+    }
 
-        // Add lexer rules
-        const lexerRules = analysis.rules.filter((r) => r.type === 'lexer');
-        for (const rule of lexerRules) {
-          // rule.definition already contains complete text
-          lines.push(rule.definition);
-          lines.push('');
-        }
+    // Lexer commands only apply to the token being emitted, so they cannot be inlined
+    if (ruleNode.alternatives.some((alt) => alt.commands.length > 0)) {
+      return {
+        success: false,
+        modified: grammarContent,
+        message: `Rule '${ruleName}' has lexer commands (->) which cannot be inlined`,
+      };
+    }
 
-        finalGrammarContent = lines.join('\n');
-      } catch (error) {
+    // Return values, locals, throws, options, @init/@after and exception handlers have no place to go
+    const signatureParts = [
+      ruleNode.returns !== undefined && 'returns',
+      ruleNode.locals !== undefined && 'locals',
+      ruleNode.throws.length > 0 && 'throws',
+      ruleNode.options.length > 0 && 'options',
+      ...ruleNode.actions.map((action) => `@${action.name}`),
+      ruleNode.exceptionHandlers.length > 0 && 'exception handlers',
+    ].filter(Boolean);
+    if (signatureParts.length > 0) {
+      return {
+        success: false,
+        modified: grammarContent,
+        message: `Rule '${ruleName}' declares ${signatureParts.join(', ')} which would be lost by inlining`,
+      };
+    }
+
+    // Arguments can only be dropped when the body never uses them
+    if (ruleNode.arguments !== undefined) {
+      const usedParameters = this.usedRuleParameters(ruleNode);
+      if (usedParameters.length > 0) {
         return {
           success: false,
-          matched: false,
-          confidence: 'low',
-          message: `Failed to load grammar with imports: ${error instanceof Error ? error.message : String(error)}`,
+          modified: grammarContent,
+          message: `Rule '${ruleName}' uses its arguments (${usedParameters.join(', ')}) in its body and cannot be inlined`,
         };
       }
-    } else {
-      analysis = this.analyze(grammarContent);
     }
 
-    // Find the rule
-    const rule = analysis.rules.find((r) => r.name === ruleName);
-    if (!rule) {
-      return {
-        success: false,
-        matched: false,
-        confidence: 'low',
-        message: `Rule '${ruleName}' not found in grammar`,
-      };
+    // Find all references in other rules
+    const references: Array<RuleRefElement | TokenRefElement> = [];
+    const referencingRules = new Set<string>();
+    const labeled: string[] = [];
+    for (const other of analysis.rules) {
+      if (other.name === ruleName || !other.ast) continue;
+      walkElements(other.ast.alternatives, (element) => {
+        if (
+          (element.kind === 'ruleRef' || element.kind === 'tokenRef') &&
+          element.name === ruleName
+        ) {
+          references.push(element);
+          referencingRules.add(other.name);
+          if (element.label) {
+            labeled.push(
+              `${element.label.name}${element.label.operator}${ruleName} in '${other.name}'`
+            );
+          }
+        }
+      });
     }
 
-    if (rule.type !== 'parser') {
+    // A label would apply to the inlined elements: `x=(A B)` is invalid and
+    // `x+=A` changes the label's type from a rule context to a token
+    if (labeled.length > 0) {
       return {
         success: false,
-        matched: false,
-        confidence: 'low',
-        message: `Rule '${ruleName}' is a lexer rule, not a parser rule`,
+        modified: grammarContent,
+        message: `Rule '${ruleName}' is referenced with a label (${labeled.join(', ')}) and cannot be inlined`,
       };
     }
 
-    // Tokenize input using the final grammar content (with imports if loaded)
-    const tokenResult = this.previewTokens(finalGrammarContent, input, { showPositions: false });
-    if (tokenResult.errors.length > 0) {
-      const errorMessages = tokenResult.errors.map(
-        (e) => `char '${e.char}' at position ${e.position}: ${e.message}`
-      );
+    if (references.length === 0) {
       return {
-        success: true,
-        matched: false,
-        confidence: 'high',
-        message: `Input has tokenization errors: ${errorMessages.join(', ')}`,
-        details: {
-          actualTokens: tokenResult.tokens,
-        },
+        success: false,
+        modified: grammarContent,
+        message: `Rule '${ruleName}' is not used anywhere`,
       };
     }
 
-    // Parse rule structure
-    const ruleStructure = this.parseRuleStructure(rule.definition);
+    const ruleBody = this.extractRuleBody(grammarContent, ruleNode);
 
-    // Match tokens against rule structure
-    const matchResult = this.matchTokensAgainstRule(
-      tokenResult.tokens,
-      ruleStructure,
-      analysis.rules
-    );
+    // Replace references from the end so earlier offsets stay valid
+    let modified = grammarContent;
+    references.sort((a, b) => b.nameSpan.start.offset - a.nameSpan.start.offset);
+    for (const reference of references) {
+      const needsParens =
+        options?.preserveParentheses || this.ruleBodyNeedsParentheses(ruleNode, reference);
+      const replacement = needsParens ? `(${ruleBody})` : ruleBody;
+      // Call-site arguments (`r[1]`) go away with the reference
+      const end =
+        reference.kind === 'ruleRef' && reference.argsSpan
+          ? reference.argsSpan.end.offset
+          : reference.nameSpan.end.offset;
+      modified =
+        modified.slice(0, reference.nameSpan.start.offset) + replacement + modified.slice(end);
+    }
+    const replacedCount = references.length;
+
+    // Remove the original rule
+    if (!options?.dryRun) {
+      const removeResult = this.removeRule(modified, ruleName);
+      if (!removeResult.success) {
+        return {
+          success: false,
+          modified: grammarContent,
+          message: `Failed to remove rule after inlining: ${removeResult.message}`,
+        };
+      }
+      modified = removeResult.modified;
+    }
 
     return {
       success: true,
-      matched: matchResult.matched,
-      confidence: matchResult.confidence,
-      message: matchResult.message,
-      details: {
-        expectedTokens: matchResult.expectedTokens,
-        actualTokens: tokenResult.tokens,
-        partialMatch: matchResult.partialMatch,
-        matchedAlternative: matchResult.matchedAlternative,
+      modified,
+      message: options?.dryRun
+        ? `Would inline '${ruleName}' (${replacedCount} references in ${referencingRules.size} rules)`
+        : `Inlined '${ruleName}' (${replacedCount} references in ${referencingRules.size} rules)`,
+      stats: {
+        referencesReplaced: replacedCount,
+        ruleDefinition: rule.definition,
+        referencingRules: Array.from(referencingRules),
       },
     };
   }
 
-  /**
-   * Parse rule structure into alternatives and elements
-   */
-  private static parseRuleStructure(definition: string): {
-    alternatives: Array<
-      Array<{
-        element: string;
-        modifier?: '?' | '*' | '+';
-        isOptional: boolean;
-        isRepeating: boolean;
-      }>
-    >;
-  } {
-    // Remove rule name and colon
-    let body = definition.replace(/^[a-z_][a-z0-9_]*\s*:/i, '').trim();
-
-    // Remove semicolon
-    body = body.replace(/;$/, '').trim();
-
-    // Remove labels (name=element -> element)
-    body = body.replace(/[a-z_][a-z0-9_]*\s*=/gi, '');
-
-    // Remove actions {code}
-    body = body.replace(/\{[^}]*\}/g, '');
-
-    // Split by | to get alternatives
-    const alternativeStrings = this.splitByTopLevelPipe(body);
-
-    const alternatives = alternativeStrings.map((alt) => {
-      // Parse each alternative into elements
-      return this.parseAlternative(alt.trim());
-    });
+  /**
+   * Parameter names of a rule that appear in its actions, predicates or call arguments
+   */
+  private static usedRuleParameters(rule: RuleNode): string[] {
+    const parameters = this.declaredParameterNames(rule.arguments);
 
-    return { alternatives };
+    const code: string[] = [];
+    walkElements(rule.alternatives, (element) => {
+      if (element.kind === 'action' || element.kind === 'predicate') {
+        code.push(element.code);
+      } else if (element.kind === 'ruleRef' && element.args) {
+        code.push(element.args);
+      }
+    });
+    const text = code.join('\n');
+    return parameters.filter((name) => new RegExp(`(?<![\\w$])\\$?${name}\\b`).test(text));
   }
 
   /**
-   * Split string by top-level | (not inside parentheses)
+   * Extract rule body source without element labels and alternative labels.
+   * Actions and comments are kept.
    */
-  private static splitByTopLevelPipe(text: string): string[] {
-    const result: string[] = [];
-    let current = '';
-    let depth = 0;
-
-    for (let i = 0; i < text.length; i++) {
-      const char = text[i];
+  private static extractRuleBody(grammarContent: string, rule: RuleNode): string {
+    const removals: Array<[number, number]> = [];
 
-      if (char === '(') depth++;
-      else if (char === ')') depth--;
-      else if (char === '|' && depth === 0) {
-        result.push(current.trim());
-        current = '';
-        continue;
+    const collectAlternativeLabels = (alternatives: AlternativeNode[]) => {
+      for (const alt of alternatives) {
+        if (alt.label) {
+          // Drop `# Label` together with the whitespace before it
+          const lastElement = alt.elements[alt.elements.length - 1];
+          const from = lastElement ? lastElement.span.end.offset : alt.span.start.offset;
+          removals.push([from, alt.label.span.end.offset]);
+        }
       }
+    };
+    collectAlternativeLabels(rule.alternatives);
+    walkElements(rule.alternatives, (element) => {
+      if (element.label) {
+        // Drop `name=` / `name+=` together with the whitespace after it
+        let end = element.label.span.end.offset;
+        while (/\s/.test(grammarContent[end] || '')) end++;
+        removals.push([element.label.span.start.offset, end]);
+      }
+      if (element.kind === 'block') {
+        collectAlternativeLabels(element.alternatives);
+      }
+    });
 
-      current += char;
-    }
-
-    if (current.trim()) {
-      result.push(current.trim());
+    let body = '';
+    let offset = rule.bodySpan.start.offset;
+    for (const [from, to] of removals.sort((a, b) => a[0] - b[0])) {
+      if (from < offset) continue;
+      body += grammarContent.slice(offset, from);
+      offset = to;
     }
+    body += grammarContent.slice(offset, rule.bodySpan.end.offset);
 
-    return result;
+    return body.trim();
   }
 
   /**
-   * Parse a single alternative into elements
+   * Check if a rule body needs parentheses when inlined at a reference
    */
-  private static parseAlternative(text: string): Array<{
-    element: string;
-    modifier?: '?' | '*' | '+';
-    isOptional: boolean;
-    isRepeating: boolean;
-  }> {
-    const elements: Array<{
-      element: string;
-      modifier?: '?' | '*' | '+';
-      isOptional: boolean;
-      isRepeating: boolean;
-    }> = [];
-
-    // Tokenize the alternative text
-    const tokens = this.tokenizeAlternative(text);
-
-    for (const token of tokens) {
-      // Check for modifier
-      const modifier = token.match(/([?*+])$/)?.[1] as '?' | '*' | '+' | undefined;
-      const element = modifier ? token.slice(0, -1) : token;
-
-      // Skip empty elements
-      if (!element || element === '(' || element === ')') continue;
+  private static ruleBodyNeedsParentheses(
+    rule: RuleNode,
+    reference: RuleRefElement | TokenRefElement
+  ): boolean {
+    // Always needs parentheses if contains alternatives
+    if (rule.alternatives.length > 1) return true;
 
-      elements.push({
-        element: element.trim(),
-        modifier,
-        isOptional: modifier === '?' || modifier === '*',
-        isRepeating: modifier === '*' || modifier === '+',
-      });
+    // A single element can stand alone unless both it and the reference carry
+    // a suffix (`x+` referenced as `r?` must become `(x+)?`, not `x+?`)
+    const elements = rule.alternatives[0].elements.filter(
+      (e) => e.kind !== 'action' && e.kind !== 'predicate'
+    );
+    if (elements.length === 1) {
+      return Boolean(elements[0].suffix && reference.suffix);
     }
 
-    return elements;
+    return true;
   }
 
+  // ============================================================================
+  // Rule Extraction
+  // ============================================================================
+
   /**
-   * Tokenize alternative text into elements
+   * Move a sub-expression of a rule into a new rule and reference it instead.
+   * The sub-expression is given as text (its first occurrence in the rule is
+   * used) or as a path of 1-based alternative and element positions:
+   * '2' is alternative 2, '2.3' its third element, '2.3.1' the first
+   * alternative inside that block, '1.2-4' elements 2 to 4 of alternative 1,
+   * '2-3' alternatives 2 and 3. With replaceAll, every structurally identical
+   * occurrence in the grammar is replaced as well. Sub-expressions of lexer
+   * rules become fragments.
    */
-  private static tokenizeAlternative(text: string): string[] {
-    const tokens: string[] = [];
-    let current = '';
-    let depth = 0;
+  static extractRule(
+    grammarContent: string,
+    ruleName: string,
+    newRuleName: string,
+    target: { expression?: string; path?: string },
+    options?: { replaceAll?: boolean }
+  ): {
+    success: boolean;
+    modified: string;
+    message: string;
+    occurrences: number; // Occurrences replaced by a reference
+    skipped?: number; // Identical occurrences left alone (no replaceAll)
+    definition?: string;
+  } {
+    const fail = (message: string) => ({
+      success: false,
+      modified: grammarContent,
+      message,
+      occurrences: 0,
+    });
 
-    for (let i = 0; i < text.length; i++) {
-      const char = text[i];
+    const analysis = this.analyze(grammarContent);
+    const rule = analysis.rules.find((r) => r.name === ruleName);
+    if (!rule || !rule.ast) {
+      return fail(`Rule '${ruleName}' not found in grammar.`);
+    }
+    const ruleNode = rule.ast;
+
+    const nameError = this.checkExtractedRuleName(
+      newRuleName,
+      ruleNode.type,
+      new Set([
+        ...analysis.rules.map((r) => r.name),
+        ...(analysis.ast?.tokens || []).map((t) => t.name),
+      ])
+    );
+    if (nameError) return fail(nameError);
 
-      if (char === '(') {
-        if (current.trim()) {
-          tokens.push(current.trim());
-          current = '';
-        }
-        depth++;
-        current += char;
-      } else if (char === ')') {
-        depth--;
-        current += char;
-        if (depth === 0) {
-          // Check for modifier after parentheses
-          if (i + 1 < text.length && /[?*+]/.test(text[i + 1])) {
-            current += text[i + 1];
-            i++;
-          }
-          tokens.push(current.trim());
-          current = '';
-        }
-      } else if (char === ' ' || char === '\t' || char === '\n') {
-        if (depth === 0 && current.trim()) {
-          tokens.push(current.trim());
-          current = '';
-        } else if (depth > 0) {
-          current += char;
-        }
-      } else {
-        current += char;
-        // Check if next char is a modifier
-        if (depth === 0 && i + 1 < text.length && /[?*+]/.test(text[i + 1])) {
-          current += text[i + 1];
-          i++;
-          tokens.push(current.trim());
-          current = '';
-        }
-      }
+    const extraction = this.resolveExtraction(grammarContent, ruleNode, target);
+    if ('error' in extraction) return fail(extraction.error);
+    const selected = extraction.occurrence;
+
+    // Identical occurrences elsewhere (same rule kind only: lexer and parser elements differ)
+    const others = this.findExtractionOccurrences(
+      analysis.ast!.rules.filter((r) => r.type === ruleNode.type),
+      extraction.pattern
+    ).filter((o) => o.end <= selected.start || o.start >= selected.end);
+    const replaced = [selected, ...(options?.replaceAll ? others : [])];
+
+    const formatting = this.inferFormatting(grammarContent);
+    const header = ruleNode.type === 'lexer' ? `fragment ${newRuleName}` : newRuleName;
+    const definition = this.formatExtractedRule(
+      header,
+      selected.alternatives.map((elements) => this.elementsSource(grammarContent, elements)),
+      formatting
+    );
+
+    // The new rule goes after the source rule, separated the way that rule is from the next
+    const { endLine } = this.ruleLineRange(rule);
+    const lines = grammarContent.split('\n');
+    const insertAt = lines.slice(0, endLine + 1).join('\n').length;
+    const nextLine = lines[endLine + 1];
+    const blankLine =
+      nextLine === undefined || endLine + 2 >= lines.length
+        ? formatting.blankLinesBetweenRules
+        : nextLine.trim() === '';
+
+    const modified = this.applyTextEdits(grammarContent, [
+      ...replaced.map((o) => ({ start: o.start, end: o.end, text: newRuleName + o.suffix })),
+      { start: insertAt, end: insertAt, text: (blankLine ? '\n\n' : '\n') + definition },
+    ]);
+
+    // ANTLR only rewrites direct left recursion; moving the left edge of a
+    // recursive alternative into a rule of its own makes it indirect
+    const cycle = this.findLeftRecursionCycles(this.analyze(modified)).find((c) =>
+      c.rules.includes(newRuleName)
+    );
+    if (cycle) {
+      return fail(
+        `Extracting would create indirect left recursion (${cycle.path.join(' -> ')}), which ANTLR does not support.`
+      );
     }
 
-    if (current.trim()) {
-      tokens.push(current.trim());
+    const kind = ruleNode.type === 'lexer' ? 'fragment' : 'rule';
+    let message = `Extracted '${extraction.text}' from '${ruleName}' into new ${kind} '${newRuleName}' (${replaced.length} occurrence(s) replaced).`;
+    if (!options?.replaceAll && others.length > 0) {
+      message += ` ${others.length} identical occurrence(s) elsewhere left unchanged (use replaceAll).`;
     }
 
-    return tokens;
+    return {
+      success: true,
+      modified,
+      message,
+      occurrences: replaced.length,
+      skipped: options?.replaceAll ? 0 : others.length,
+      definition,
+    };
   }
 
   /**
-   * Match tokens against rule structure
+   * Extract a sub-expression across a grammar and its imports. The new rule is
+   * added to the file defining the rule; with replaceAll, identical occurrences
+   * are also replaced in every loaded file that can see the new rule (the
+   * defining file and the grammars importing it).
    */
-  private static matchTokensAgainstRule(
-    tokens: TokenInfo[],
-    ruleStructure: { alternatives: any[] },
-    allRules: GrammarRule[]
+  static extractRuleMultiFile(
+    filePath: string,
+    ruleName: string,
+    newRuleName: string,
+    target: { expression?: string; path?: string },
+    options?: { replaceAll?: boolean; basePath?: string; libDirs?: string[] }
   ): {
-    matched: boolean;
-    confidence: 'high' | 'medium' | 'low';
+    success: boolean;
+    modifiedFiles: Array<{ filePath: string; content: string; occurrences: number }>;
     message: string;
-    expectedTokens?: string[];
-    partialMatch?: boolean;
-    matchedAlternative?: number;
   } {
-    // Filter out skipped tokens (whitespace, comments)
-    const activeTokens = tokens.filter((t) => !t.skipped);
-
-    if (activeTokens.length === 0 && ruleStructure.alternatives.length > 0) {
-      // Check if any alternative can be empty (all optional)
-      const hasEmptyAlternative = ruleStructure.alternatives.some((alt) =>
-        alt.every((el: any) => el.isOptional)
-      );
+    const cache = new Map<string, GrammarAnalysis>();
+    this.loadGrammarWithImports(
+      path.resolve(filePath),
+      options?.basePath,
+      cache,
+      new Set(),
+      options?.libDirs
+    );
 
-      if (hasEmptyAlternative) {
-        return {
-          matched: true,
-          confidence: 'high',
-          message: `Input matches (empty alternative)`,
-        };
+    const contents = new Map<string, string>();
+    for (const file of cache.keys()) {
+      try {
+        contents.set(file, fs.readFileSync(file, 'utf-8'));
+      } catch {
+        // Unreadable files were reported by loadGrammarWithImports
       }
+    }
 
+    // Each file's own rules, without the ones merged in from imports
+    const ownRules = new Map(
+      Array.from(contents, ([file, content]) => [file, parseGrammar(content).rules] as const)
+    );
+    const definingFile = Array.from(ownRules.keys()).find((file) =>
+      ownRules.get(file)!.some((r) => r.name === ruleName)
+    );
+    if (!definingFile) {
       return {
-        matched: false,
-        confidence: 'high',
-        message: 'Input is empty but rule requires tokens',
+        success: false,
+        modifiedFiles: [],
+        message: `Rule '${ruleName}' not found in any grammar file.`,
       };
     }
-
-    // Try each alternative
-    for (let altIndex = 0; altIndex < ruleStructure.alternatives.length; altIndex++) {
-      const alternative = ruleStructure.alternatives[altIndex];
-      const matchResult = this.matchAlternative(activeTokens, alternative, allRules);
-
-      if (matchResult.matched) {
+    for (const [file, rules] of ownRules) {
+      if (rules.some((r) => r.name === newRuleName)) {
         return {
-          matched: true,
-          confidence: matchResult.confidence,
-          message: `Input matches alternative ${altIndex + 1}`,
-          matchedAlternative: altIndex,
-          expectedTokens: matchResult.expectedTokens,
+          success: false,
+          modifiedFiles: [],
+          message: `Rule '${newRuleName}' already exists in ${path.basename(file)}.`,
         };
       }
+    }
 
-      // Track partial matches for better error messages
-      if (matchResult.partialMatch && altIndex === ruleStructure.alternatives.length - 1) {
+    const content = contents.get(definingFile)!;
+    const result = this.extractRule(content, ruleName, newRuleName, target, {
+      replaceAll: options?.replaceAll,
+    });
+    if (!result.success) {
+      return { success: false, modifiedFiles: [], message: result.message };
+    }
+    const modifiedFiles = [
+      { filePath: definingFile, content: result.modified, occurrences: result.occurrences },
+    ];
+
+    if (options?.replaceAll) {
+      const ruleNode = ownRules.get(definingFile)!.find((r) => r.name === ruleName)!;
+      const extraction = this.resolveExtraction(content, ruleNode, target);
+      for (const [file, other] of contents) {
+        if (
+          'error' in extraction ||
+          file === definingFile ||
+          !cache.get(file)!.rules.some((r) => r.name === ruleName)
+        ) {
+          continue;
+        }
+        const occurrences = this.findExtractionOccurrences(
+          ownRules.get(file)!.filter((r) => r.type === ruleNode.type),
+          extraction.pattern
+        );
+        if (occurrences.length === 0) continue;
+        modifiedFiles.push({
+          filePath: file,
+          content: this.applyTextEdits(
+            other,
+            occurrences.map((o) => ({ start: o.start, end: o.end, text: newRuleName + o.suffix }))
+          ),
+          occurrences: occurrences.length,
+        });
+      }
+    }
+
+    if (modifiedFiles.length === 1) {
+      return { success: true, modifiedFiles, message: result.message };
+    }
+    const total = modifiedFiles.reduce((sum, f) => sum + f.occurrences, 0);
+    return {
+      success: true,
+      modifiedFiles,
+      message: result.message.replace(
+        /\(\d+ occurrence\(s\) replaced\)\.$/,
+        `(${total} occurrence(s) replaced in ${modifiedFiles.length} files).`
+      ),
+    };
+  }
+
+  /**
+   * Why a name cannot be used for a rule extracted from a rule of the given type
+   */
+  private static checkExtractedRuleName(
+    name: string,
+    type: 'lexer' | 'parser',
+    existing: Set<string>
+  ): string | undefined {
+    const pattern = type === 'lexer' ? /^[A-Z][A-Za-z0-9_]*$/ : /^[a-z][A-Za-z0-9_]*$/;
+    if (!pattern.test(name)) {
+      return type === 'lexer'
+        ? `Invalid lexer rule name: '${name}'. Lexer rules must start with an uppercase letter.`
+        : `Invalid parser rule name: '${name}'. Parser rules must start with a lowercase letter.`;
+    }
+    if (existing.has(name)) {
+      return `Rule '${name}' already exists in grammar.`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Locate the sub-expression to extract within a rule, by path or by text
+   */
+  private static resolveExtraction(
+    grammarContent: string,
+    rule: RuleNode,
+    target: { expression?: string; path?: string }
+  ): Extraction | { error: string } {
+    let pattern: ExtractionPattern;
+    let occurrence: ExtractionOccurrence;
+
+    if (target.path !== undefined && target.path.trim() !== '') {
+      const selection = this.selectByPath(rule, target.path);
+      if ('error' in selection) return selection;
+
+      const { elements } = selection;
+      let { alternatives, parent } = selection;
+      // A lone block without suffix stands for its alternatives
+      if (elements?.length === 1 && elements[0].kind === 'block' && !elements[0].suffix) {
+        alternatives = elements[0].alternatives;
+        parent = elements[0];
+      }
+
+      if (alternatives && alternatives.length > 1) {
+        const unsupported = alternatives.find((alt) => this.alternativeHasExtras(alt));
+        if (unsupported) {
+          return {
+            error: `Alternative '${sliceSpan(grammarContent, unsupported.span).trim()}' has a label, options or lexer commands and cannot be moved.`,
+          };
+        }
+        if (alternatives.some((alt) => alt.elements.length === 0)) {
+          return { error: 'The selection contains an empty alternative.' };
+        }
+        if (!parent && alternatives.length === rule.alternatives.length) {
+          return { error: `The selection is the whole body of rule '${rule.name}'.` };
+        }
+        pattern = {
+          kind: 'alternatives',
+          keys: alternatives.map((alt) => this.extractionKey(alt.elements)),
+        };
+        occurrence = this.alternativesOccurrence(alternatives, parent);
+      } else {
+        const sequence = alternatives ? alternatives[0].elements : elements!;
+        if (sequence.length === 0) {
+          return { error: 'The selection is empty.' };
+        }
+        if (
+          !parent &&
+          rule.alternatives.length === 1 &&
+          sequence.length === rule.alternatives[0].elements.length
+        ) {
+          return { error: `The selection is the whole body of rule '${rule.name}'.` };
+        }
+        pattern = { kind: 'sequence', keys: sequence.map((e) => this.extractionKey([e])) };
+        const fillsBlock =
+          parent?.alternatives.length === 1 &&
+          sequence.length === parent.alternatives[0].elements.length;
+        occurrence = this.sequenceOccurrence(sequence, fillsBlock ? parent : undefined);
+      }
+    } else if (target.expression !== undefined && target.expression.trim() !== '') {
+      const parsed = this.parseExtractionPattern(target.expression, rule.type);
+      if ('error' in parsed) return parsed;
+      pattern = parsed;
+      const found = this.findExtractionOccurrences([rule], pattern)[0];
+      if (!found) {
         return {
-          matched: false,
-          confidence: 'medium',
-          message: `Partial match found but incomplete`,
-          partialMatch: true,
-          expectedTokens: matchResult.expectedTokens,
+          error: `Expression '${target.expression.trim()}' not found in rule '${rule.name}'.`,
         };
       }
+      occurrence = found;
+    } else {
+      return { error: 'Either an expression or a path is required.' };
+    }
+
+    const labels: string[] = [];
+    const attributes: string[] = [];
+    walkElements(
+      occurrence.alternatives.map((elements) => ({ elements, commands: [], span: rule.span })),
+      (element) => {
+        if (element.label) labels.push(element.label.name);
+        const code =
+          element.kind === 'action' || element.kind === 'predicate'
+            ? element.code
+            : element.kind === 'ruleRef'
+              ? element.args
+              : undefined;
+        if (code?.includes('$')) attributes.push(sliceSpan(grammarContent, element.span));
+      }
+    );
+    if (labels.length > 0) {
+      return {
+        error: `The selection has labels (${labels.join(', ')}) that belong to rule '${rule.name}'; remove them before extracting.`,
+      };
+    }
+    if (attributes.length > 0) {
+      return {
+        error: `The selection uses $-attributes (${attributes.join(', ')}) that would not resolve in a new rule.`,
+      };
     }
-
-    // Build expected tokens list from first alternative
-    const expectedTokens = ruleStructure.alternatives[0]?.map((el: any) => el.element) || [];
 
     return {
-      matched: false,
-      confidence: 'high',
-      message: `No alternatives matched. Expected: ${expectedTokens.join(', ')}`,
-      expectedTokens,
+      pattern,
+      occurrence,
+      text: occurrence.alternatives
+        .map((elements) => this.elementsSource(grammarContent, elements))
+        .join(' | '),
     };
   }
 
   /**
-   * Match tokens against a single alternative
+   * Elements or alternatives addressed by an extract-rule path ('2', '2.3',
+   * '2.3.1', '1.2-4', '2-3'), with the block they sit in (none at the top level)
    */
-  private static matchAlternative(
-    tokens: TokenInfo[],
-    alternative: Array<{
-      element: string;
-      modifier?: string;
-      isOptional: boolean;
-      isRepeating: boolean;
-    }>,
-    _allRules: GrammarRule[]
-  ): {
-    matched: boolean;
-    confidence: 'high' | 'medium' | 'low';
-    partialMatch?: boolean;
-    expectedTokens?: string[];
-  } {
-    let tokenIndex = 0;
-    let elementIndex = 0;
-    const expectedTokens: string[] = [];
-
-    while (elementIndex < alternative.length) {
-      const element = alternative[elementIndex];
-      expectedTokens.push(element.element);
-
-      // Handle grouped elements: (A B C)*, (A | B)?, etc.
-      if (element.element.startsWith('(') && element.element.endsWith(')')) {
-        const groupContent = element.element.slice(1, -1).trim();
-
-        // Parse the group as a mini-rule
-        const groupAlternatives = this.splitByTopLevelPipe(groupContent).map((alt) =>
-          this.parseAlternative(alt.trim())
-        );
-
-        // Try to match the group repeatedly if it has a repeating modifier
-        let totalGroupMatches = 0;
-        let continueMatching = true;
-
-        while (continueMatching && tokenIndex < tokens.length) {
-          let groupMatchedThisIteration = false;
-          let bestMatchConsumed = 0;
-
-          // Try each alternative in the group
-          for (const groupAlt of groupAlternatives) {
-            // Try to match this alternative starting from current position
-            let tempIndex = tokenIndex;
-            let allElementsMatched = true;
+  private static selectByPath(
+    rule: RuleNode,
+    selectionPath: string
+  ):
+    | { elements?: GrammarElement[]; alternatives?: AlternativeNode[]; parent?: BlockElement }
+    | { error: string } {
+    const segments = selectionPath.trim().split('.');
+    let alternatives = rule.alternatives;
+    let elements: GrammarElement[] = [];
+    let parent: BlockElement | undefined;
+
+    for (let i = 0; i < segments.length; i++) {
+      const match = /^(\d+)(?:-(\d+))?$/.exec(segments[i].trim());
+      const isAlternative = i % 2 === 0;
+      const isLast = i === segments.length - 1;
+      if (!match || (match[2] && !isLast)) {
+        return {
+          error: `Invalid path '${selectionPath}': use 1-based alternative and element positions, e.g. '2.3' or '1.2-4'.`,
+        };
+      }
+      const from = Number(match[1]);
+      const to = Number(match[2] ?? match[1]);
+      const available = isAlternative ? alternatives.length : elements.length;
+      if (from < 1 || to < from || to > available) {
+        return {
+          error: `Invalid path '${selectionPath}': ${isAlternative ? 'alternative' : 'element'} ${segments[i]} does not exist (${available} available).`,
+        };
+      }
 
-            for (const groupEl of groupAlt) {
-              if (tempIndex >= tokens.length && !groupEl.isOptional) {
-                allElementsMatched = false;
-                break;
-              }
+      if (isAlternative) {
+        if (isLast) {
+          return { alternatives: alternatives.slice(from - 1, to), parent };
+        }
+        elements = alternatives[from - 1].elements;
+      } else {
+        if (isLast) {
+          return { elements: elements.slice(from - 1, to), parent };
+        }
+        const element = elements[from - 1];
+        if (element.kind !== 'block') {
+          return {
+            error: `Invalid path '${selectionPath}': element ${from} is not a parenthesized block.`,
+          };
+        }
+        parent = element;
+        alternatives = element.alternatives;
+      }
+    }
 
-              const isParser = /^[a-z]/.test(groupEl.element);
+    return { elements };
+  }
 
-              if (isParser) {
-                // Parser rule - consume at least one token
-                if (tempIndex < tokens.length) {
-                  tempIndex++;
+  /**
+   * Parse a textual sub-expression into a pattern of element keys
+   */
+  private static parseExtractionPattern(
+    expression: string,
+    type: 'lexer' | 'parser'
+  ): ExtractionPattern | { error: string } {
+    const name = type === 'lexer' ? 'EXTRACTED' : 'extracted';
+    const ast = parseGrammar(`grammar Extracted;\n${name} : ${expression} ;\n`);
+    const rule = ast.rules[0];
+    if (ast.errors.length > 0 || ast.rules.length !== 1 || rule.name !== name) {
+      return {
+        error: `Cannot parse expression '${expression.trim()}'${ast.errors[0] ? `: ${ast.errors[0].message}` : ''}.`,
+      };
+    }
 
-                  // Handle repetition
-                  if (groupEl.isRepeating) {
-                    while (tempIndex < tokens.length) {
-                      tempIndex++;
-                    }
-                  }
-                } else if (!groupEl.isOptional) {
-                  allElementsMatched = false;
-                  break;
-                }
-              } else {
-                // Lexer token - must match exactly
-                if (tempIndex < tokens.length && tokens[tempIndex].type === groupEl.element) {
-                  tempIndex++;
+    // Occurrences are matched without labels, so a labelled expression has none
+    const labels: string[] = rule.alternatives.flatMap((alt) =>
+      alt.label ? [`#${alt.label.name}`] : []
+    );
+    walkElements(rule.alternatives, (element) => {
+      if (element.label) labels.push(element.label.name);
+    });
+    if (labels.length > 0) {
+      return {
+        error: `Expression '${expression.trim()}' has labels (${labels.join(', ')}); labelled elements are not extracted, remove the labels from the expression.`,
+      };
+    }
 
-                  // Handle repetition
-                  if (groupEl.isRepeating) {
-                    while (
-                      tempIndex < tokens.length &&
-                      tokens[tempIndex].type === groupEl.element
-                    ) {
-                      tempIndex++;
-                    }
-                  }
-                } else if (!groupEl.isOptional) {
-                  allElementsMatched = false;
-                  break;
-                }
-              }
-            }
+    let alternatives = rule.alternatives;
+    const only = alternatives.length === 1 ? alternatives[0].elements : [];
+    if (only.length === 1 && only[0].kind === 'block' && !only[0].suffix && !only[0].label) {
+      alternatives = only[0].alternatives;
+    }
+    if (alternatives.length === 1 && alternatives[0].elements.length === 0) {
+      return { error: 'The expression is empty.' };
+    }
+    return alternatives.length > 1
+      ? { kind: 'alternatives', keys: alternatives.map((alt) => this.extractionKey(alt.elements)) }
+      : { kind: 'sequence', keys: alternatives[0].elements.map((e) => this.extractionKey([e])) };
+  }
 
-            if (allElementsMatched && tempIndex > tokenIndex) {
-              // This alternative matched and consumed tokens
-              const consumed = tempIndex - tokenIndex;
-              if (consumed > bestMatchConsumed) {
-                bestMatchConsumed = consumed;
-                groupMatchedThisIteration = true;
-              }
-            }
+  /**
+   * Unlabelled occurrences of a pattern in the given rules, in source order
+   * and without overlaps
+   */
+  private static findExtractionOccurrences(
+    rules: RuleNode[],
+    pattern: ExtractionPattern
+  ): ExtractionOccurrence[] {
+    const occurrences: ExtractionOccurrence[] = [];
+    const size = pattern.keys.length;
+
+    const isPlain = (alternatives: AlternativeNode[]) => {
+      let plain = alternatives.every((alt) => !this.alternativeHasExtras(alt));
+      walkElements(alternatives, (element) => {
+        if (element.label || (element.kind === 'block' && element.blockOptions)) plain = false;
+      });
+      return plain;
+    };
+    const matches = (alternatives: AlternativeNode[]) =>
+      alternatives.every((alt, k) => this.extractionKey(alt.elements) === pattern.keys[k]);
+
+    const visit = (alternatives: AlternativeNode[], parent?: BlockElement) => {
+      const claimed = new Set<GrammarElement>();
+
+      // A run of alternatives, short of the whole list (whole blocks are matched below)
+      if (pattern.kind === 'alternatives' && size < alternatives.length) {
+        for (let i = 0; i + size <= alternatives.length;) {
+          const run = alternatives.slice(i, i + size);
+          if (matches(run) && isPlain(run) && run.every((alt) => alt.elements.length > 0)) {
+            occurrences.push(this.alternativesOccurrence(run));
+            run.forEach((alt) => alt.elements.forEach((element) => claimed.add(element)));
+            i += size;
+          } else {
+            i++;
           }
+        }
+      }
 
-          if (groupMatchedThisIteration && bestMatchConsumed > 0) {
-            tokenIndex += bestMatchConsumed;
-            totalGroupMatches++;
+      for (const alternative of alternatives) {
+        const elements = alternative.elements;
 
-            // Decide whether to continue
-            if (!element.isRepeating) {
-              continueMatching = false;
+        if (pattern.kind === 'sequence') {
+          for (let i = 0; i + size <= elements.length;) {
+            const window = elements.slice(i, i + size);
+            const plain = isPlain([{ ...alternative, elements: window, label: undefined }]);
+            if (
+              plain &&
+              window.every((element, k) => this.extractionKey([element]) === pattern.keys[k])
+            ) {
+              const whole = alternatives.length === 1 && window.length === elements.length;
+              occurrences.push(this.sequenceOccurrence(window, whole ? parent : undefined));
+              window.forEach((element) => claimed.add(element));
+              i += size;
+            } else {
+              i++;
             }
-          } else {
-            continueMatching = false;
           }
         }
 
-        // Check if we matched enough times
-        if (element.modifier === '+' && totalGroupMatches === 0) {
-          // + requires at least one match
-          return {
-            matched: false,
-            confidence: 'medium',
-            partialMatch: elementIndex > 0,
-            expectedTokens,
-          };
-        }
-
-        if (!element.isOptional && !element.isRepeating && totalGroupMatches === 0) {
-          // Required element didn't match
-          return {
-            matched: false,
-            confidence: 'medium',
-            partialMatch: elementIndex > 0,
-            expectedTokens,
-          };
+        for (const element of elements) {
+          if (element.kind !== 'block' || claimed.has(element)) continue;
+          if (
+            pattern.kind === 'alternatives' &&
+            element.alternatives.length === size &&
+            matches(element.alternatives) &&
+            isPlain([{ elements: [element], commands: [], span: element.span }])
+          ) {
+            occurrences.push(this.alternativesOccurrence(element.alternatives, element));
+            continue;
+          }
+          visit(element.alternatives, element.label || element.blockOptions ? undefined : element);
         }
+      }
+    };
 
-        elementIndex++;
-        continue;
+    if (size > 0) {
+      for (const rule of rules) {
+        visit(rule.alternatives);
       }
+    }
+    return occurrences.sort((a, b) => a.start - b.start);
+  }
 
-      // Check if element is a parser rule (lowercase)
-      const isParserRule =
-        /^[a-z_][a-z0-9_]*$/i.test(element.element) &&
-        element.element[0] === element.element[0].toLowerCase();
+  /**
+   * Occurrence of an element run; a run filling an unlabelled single-alternative
+   * block replaces the whole block, so `(',' expr)*` becomes `name*`
+   */
+  private static sequenceOccurrence(
+    elements: GrammarElement[],
+    enclosing?: BlockElement
+  ): ExtractionOccurrence {
+    if (enclosing && !enclosing.label && !enclosing.blockOptions) {
+      return {
+        start: enclosing.span.start.offset,
+        end: enclosing.span.end.offset,
+        suffix: enclosing.suffix || '',
+        alternatives: [elements],
+      };
+    }
+    return {
+      start: elements[0].span.start.offset,
+      end: elements[elements.length - 1].span.end.offset,
+      suffix: '',
+      alternatives: [elements],
+    };
+  }
 
-      if (isParserRule) {
-        // For parser rules, we can't fully validate without recursion
-        // Just check if we have tokens available
-        if (tokenIndex >= tokens.length) {
-          if (element.isOptional) {
-            elementIndex++;
-            continue;
-          }
-          return {
-            matched: false,
-            confidence: 'medium',
-            partialMatch: elementIndex > 0,
-            expectedTokens,
-          };
-        }
+  /**
+   * Occurrence of a run of alternatives; all alternatives of an unlabelled
+   * block replace the whole block
+   */
+  private static alternativesOccurrence(
+    alternatives: AlternativeNode[],
+    enclosing?: BlockElement
+  ): ExtractionOccurrence {
+    const elements = alternatives.map((alt) => alt.elements);
+    if (
+      enclosing &&
+      !enclosing.label &&
+      !enclosing.blockOptions &&
+      enclosing.alternatives.length === alternatives.length
+    ) {
+      return {
+        start: enclosing.span.start.offset,
+        end: enclosing.span.end.offset,
+        suffix: enclosing.suffix || '',
+        alternatives: elements,
+      };
+    }
+    const last = elements[elements.length - 1];
+    return {
+      start: elements[0][0].span.start.offset,
+      end: last[last.length - 1].span.end.offset,
+      suffix: '',
+      alternatives: elements,
+    };
+  }
 
-        // Assume parser rule consumes at least one token
-        tokenIndex++;
+  /**
+   * True for alternatives with a `# Label`, `<options>` or lexer commands,
+   * which belong to the rule they are written in
+   */
+  private static alternativeHasExtras(alternative: AlternativeNode): boolean {
+    return Boolean(
+      alternative.label || alternative.options?.length || alternative.commands.length > 0
+    );
+  }
 
-        // Handle repetition
-        if (element.isRepeating) {
-          // Consume more tokens (simple heuristic)
-          while (tokenIndex < tokens.length) {
-            tokenIndex++;
-            if (elementIndex + 1 < alternative.length) {
-              // Check if next element might match
-              const nextElement = alternative[elementIndex + 1];
-              if (tokens[tokenIndex]?.type === nextElement.element) {
-                break;
-              }
-            }
-          }
+  /**
+   * Structural key of an element sequence: like alternativeToText, but actions,
+   * predicates and call arguments count
+   */
+  private static extractionKey(elements: GrammarElement[]): string {
+    return elements
+      .map((element): string => {
+        const suffix = element.suffix || '';
+        switch (element.kind) {
+          case 'action':
+            return `{${element.code.trim()}}`;
+          case 'predicate':
+            return `{${element.code.trim()}}?`;
+          case 'ruleRef':
+            return element.name + (element.args !== undefined ? `[${element.args}]` : '') + suffix;
+          case 'block':
+            return `(${element.alternatives.map((alt) => this.extractionKey(alt.elements)).join(' | ')})${suffix}`;
+          case 'not':
+            return `~${this.extractionKey([element.operand])}${suffix}`;
+          default:
+            return elementToText(element);
         }
+      })
+      .join(' ');
+  }
+
+  /**
+   * Source text from the first to the last of a run of elements
+   */
+  private static elementsSource(grammarContent: string, elements: GrammarElement[]): string {
+    if (elements.length === 0) return '';
+    return grammarContent.slice(
+      elements[0].span.start.offset,
+      elements[elements.length - 1].span.end.offset
+    );
+  }
+
+  /**
+   * Rule text in the grammar's colon, semicolon and indentation style
+   */
+  private static formatExtractedRule(
+    header: string,
+    alternatives: string[],
+    formatting: GrammarFormatting
+  ): string {
+    const indent = formatting.indentStyle;
+    const colon = formatting.spaceAroundColon ? ' :' : ':';
+    let lines: string[];
+    if (formatting.colonPlacement === 'new-line') {
+      lines = [header, ...alternatives.map((alt, i) => `${indent}${i === 0 ? ':' : '|'} ${alt}`)];
+    } else if (`${header}${colon} ${alternatives.join(' | ')} ;`.length <= 80) {
+      lines = [`${header}${colon} ${alternatives.join(' | ')}`];
+    } else {
+      lines = [
+        `${header}${colon} ${alternatives[0]}`,
+        ...alternatives.slice(1).map((alt) => `${indent}| ${alt}`),
+      ];
+    }
+
+    // Without a clear majority, ';' goes where a colon-on-its-own-line style puts it
+    const semicolonOnOwnLine =
+      formatting.semicolonPlacement === 'new-line' ||
+      (formatting.semicolonPlacement === 'mixed' && formatting.colonPlacement === 'new-line');
+    if (semicolonOnOwnLine) {
+      lines.push(`${indent};`);
+    } else {
+      lines[lines.length - 1] += formatting.spaceAroundColon ? ' ;' : ';';
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Replace source ranges, keeping a space between a replacement and adjacent identifiers
+   */
+  private static applyTextEdits(
+    content: string,
+    edits: Array<{ start: number; end: number; text: string }>
+  ): string {
+    let modified = content;
+    for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+      let text = edit.text;
+      if (/^\w/.test(text) && /\w/.test(modified[edit.start - 1] || '')) {
+        text = ' ' + text;
+      }
+      if (/\w$/.test(text) && /\w/.test(modified[edit.end] || '')) {
+        text += ' ';
+      }
+      modified = modified.slice(0, edit.start) + text + modified.slice(edit.end);
+    }
+    return modified;
+  }
+
+  // ============================================================================
+  // Left Factoring
+  // ============================================================================
 
-        elementIndex++;
-        continue;
-      }
+  /**
+   * Merge alternatives of a parser rule that start with the same elements:
+   * `a : X Y b | X Y c ;` becomes `a : X Y (b | c) ;`, and remainders sharing a
+   * prefix again are factored the same way. Elements only match with the same
+   * label and identical actions. Left-recursive alternatives and alternatives
+   * with `<options>` are left alone. Alternative labels cannot survive a merge,
+   * so they are refused unless dropLabels is set; the merged alternative is then
+   * relabelled when other alternatives of the rule keep their labels.
+   * Alternatives whose prefixes differ only in element labels are not merged;
+   * when they are all that share a prefix, the rule is refused for their labels.
+   */
+  static leftFactorRule(
+    grammarContent: string,
+    ruleName: string,
+    options?: { minPrefixLength?: number; dropLabels?: boolean }
+  ): {
+    success: boolean;
+    modified: string;
+    message: string;
+    factored: Array<{ prefix: string; alternatives: number[] }>; // 1-based alternative numbers
+    droppedLabels: string[];
+    conflictsBefore: DecisionConflict[];
+    conflictsAfter: DecisionConflict[];
+  } {
+    const analysis = this.analyze(grammarContent);
+    const rule = analysis.rules.find((r) => r.name === ruleName);
+    const fail = (message: string) => ({
+      success: false,
+      modified: grammarContent,
+      message,
+      factored: [],
+      droppedLabels: [],
+      conflictsBefore: [],
+      conflictsAfter: [],
+    });
+    if (!rule || !rule.ast) {
+      return fail(`Rule '${ruleName}' not found in grammar.`);
+    }
+    if (rule.type !== 'parser') {
+      return fail(
+        `'${ruleName}' is a lexer rule; lexer alternatives are matched together and need no factoring.`
+      );
+    }
 
-      // Element is a token (lexer rule)
-      if (tokenIndex >= tokens.length) {
-        if (element.isOptional) {
-          elementIndex++;
-          continue;
-        }
-        return {
-          matched: false,
-          confidence: 'high',
-          partialMatch: elementIndex > 0,
-          expectedTokens,
-        };
-      }
+    const conflictsBefore = this.findDecisionConflicts(analysis, ruleName).conflicts;
+    const source = (elements: GrammarElement[]) => this.elementsSource(grammarContent, elements);
+    const key = (element: GrammarElement) =>
+      (element.label ? element.label.name + element.label.operator : '') +
+      this.extractionKey([element]);
 
-      const currentToken = tokens[tokenIndex];
+    // Alternative texts for a list of element sequences, merging shared prefixes
+    const factorSequences = (sequences: GrammarElement[][]): string[] => {
+      const groups = new Map<string, GrammarElement[][]>();
+      sequences.forEach((sequence, index) => {
+        const groupKey = sequence.length > 0 ? key(sequence[0]) : `#empty${index}`;
+        groups.set(groupKey, [...(groups.get(groupKey) || []), sequence]);
+      });
+      return Array.from(groups.values(), (group) =>
+        group.length === 1 ? source(group[0]) : mergeSequences(group)
+      );
+    };
+    const mergeSequences = (group: GrammarElement[][]): string => {
+      const keys = group.map((sequence) => sequence.map(key));
+      const length = Math.min(...keys.map((k) => this.commonPrefixLength(keys[0], k)));
+      const prefix = source(group[0].slice(0, length));
+      const rests = group.map((sequence) => sequence.slice(length));
+      const present = rests.filter((rest) => rest.length > 0);
+      if (present.length === 0) return prefix; // Identical alternatives
+
+      const optional = present.length < rests.length;
+      const alternatives = factorSequences(present);
+      const lone = present.length === 1 && present[0].length === 1 ? present[0][0] : undefined;
+      const block =
+        optional && lone && !lone.suffix && !lone.label
+          ? `${alternatives[0]}?`
+          : `(${alternatives.join(' | ')})${optional ? '?' : ''}`;
+      return `${prefix} ${block}`;
+    };
 
-      // Match token type
-      if (currentToken.type === element.element) {
-        tokenIndex++;
+    // Group the rule's alternatives by their first minPrefixLength elements
+    const minPrefix = Math.max(1, options?.minPrefixLength ?? 1);
+    const alternatives = rule.ast.alternatives;
+    const groups = new Map<string, number[]>();
+    const unlabelledGroups = new Map<string, number[]>();
+    alternatives.forEach((alt, index) => {
+      const first = alt.elements.find((e) => e.kind !== 'action' && e.kind !== 'predicate');
+      const leftRecursive = first?.kind === 'ruleRef' && first.name === ruleName;
+      if (alt.elements.length < minPrefix || alt.options?.length || leftRecursive) return;
+      const prefix = alt.elements.slice(0, minPrefix);
+      const groupKey = prefix.map(key).join(' ');
+      groups.set(groupKey, [...(groups.get(groupKey) || []), index]);
+      const unlabelledKey = prefix.map((e) => this.extractionKey([e])).join(' ');
+      unlabelledGroups.set(unlabelledKey, [...(unlabelledGroups.get(unlabelledKey) || []), index]);
+    });
 
-        // Handle repetition (*, +)
-        if (element.isRepeating) {
-          while (tokenIndex < tokens.length && tokens[tokenIndex].type === element.element) {
-            tokenIndex++;
-          }
-        }
+    // Alternatives that share a prefix except for its element labels cannot be
+    // merged without losing the labels, or putting them on other alternatives
+    const merged = Array.from(groups.values()).filter((members) => members.length > 1);
+    const labelBlocked = Array.from(unlabelledGroups.values()).filter(
+      (members) => !Array.from(groups.values()).some((group) => group.join() === members.join())
+    );
+    const labelNote = labelBlocked
+      .map((members) => {
+        const labels = members.flatMap((i) =>
+          alternatives[i].elements
+            .slice(0, minPrefix)
+            .flatMap((e) => (e.label ? [`${e.label.name}${e.label.operator}`] : []))
+        );
+        return `alternatives ${members.map((i) => i + 1).join(', ')} (${Array.from(new Set(labels)).join(', ')})`;
+      })
+      .join('; ');
+    if (merged.length === 0 && labelBlocked.length > 0) {
+      return fail(
+        `Alternatives of '${ruleName}' share a prefix except for its element labels: ${labelNote}; merging them would lose the labels. Give the shared elements the same labels first.`
+      );
+    }
+    if (merged.length === 0) {
+      return {
+        success: true,
+        modified: grammarContent,
+        message: `No alternatives of '${ruleName}' share a prefix of ${minPrefix} or more element(s).`,
+        factored: [],
+        droppedLabels: [],
+        conflictsBefore,
+        conflictsAfter: conflictsBefore,
+      };
+    }
 
-        elementIndex++;
-      } else if (element.isOptional) {
-        // Optional element doesn't match, skip it
-        elementIndex++;
-      } else {
-        // Required element doesn't match
-        return {
-          matched: false,
-          confidence: 'high',
-          partialMatch: elementIndex > 0,
-          expectedTokens,
-        };
+    const droppedLabels = merged.flatMap((members) =>
+      members.map((i) => alternatives[i].label?.name).filter((label): label is string => !!label)
+    );
+    if (droppedLabels.length > 0 && !options?.dropLabels) {
+      return fail(
+        `Merging would lose the alternative labels ${droppedLabels.map((l) => `# ${l}`).join(', ')} of '${ruleName}'; set dropLabels to drop them.`
+      );
+    }
+
+    // The merged alternative replaces the first member; the others go with the '|' before them
+    const edits: Array<{ start: number; end: number; text: string }> = [];
+    const factored: Array<{ prefix: string; alternatives: number[] }> = [];
+    for (const members of merged) {
+      const sequences = members.map((i) => alternatives[i].elements);
+      const [text] = factorSequences(sequences);
+      const first = alternatives[members[0]];
+      edits.push({ start: first.span.start.offset, end: first.span.end.offset, text });
+      for (const i of members.slice(1)) {
+        edits.push({
+          start: alternatives[i - 1].span.end.offset,
+          end: alternatives[i].span.end.offset,
+          text: '',
+        });
       }
+      const keys = sequences.map((sequence) => sequence.map(key));
+      const length = Math.min(...keys.map((k) => this.commonPrefixLength(keys[0], k)));
+      factored.push({
+        prefix: source(sequences[0].slice(0, length)),
+        alternatives: members.map((i) => i + 1),
+      });
     }
+    let modified = this.applyTextEdits(grammarContent, edits);
 
-    // Check if we consumed all tokens
-    if (tokenIndex === tokens.length) {
-      return {
-        matched: true,
-        confidence: 'high',
-        expectedTokens,
-      };
+    // ANTLR wants all alternatives of a rule labelled or none
+    let relabelled = '';
+    const after = this.analyze(modified).rules.find((r) => r.name === ruleName)?.ast;
+    if (
+      after &&
+      after.alternatives.some((alt) => alt.label) &&
+      after.alternatives.some((alt) => !alt.label)
+    ) {
+      const labelResult = this.labelAlternatives(modified, [ruleName]);
+      if (labelResult.success) {
+        modified = labelResult.modified;
+        relabelled = ` Labelled merged alternative(s): ${labelResult.labels.map((l) => `# ${l.label}`).join(', ')}.`;
+      }
     }
 
-    // Extra tokens remaining
+    const conflictsAfter = this.findDecisionConflicts(this.analyze(modified), ruleName).conflicts;
+    const dropped =
+      droppedLabels.length > 0
+        ? ` Dropped labels: ${droppedLabels.map((l) => `# ${l}`).join(', ')}.`
+        : '';
     return {
-      matched: false,
-      confidence: 'high',
-      partialMatch: true,
-      expectedTokens,
+      success: true,
+      modified,
+      message:
+        `Left-factored ${factored.length} group(s) of alternatives in '${ruleName}' ` +
+        `(LL(1) conflicts: ${conflictsBefore.length} before, ${conflictsAfter.length} after).` +
+        dropped +
+        relabelled +
+        (labelNote ? ` Kept apart because of element labels: ${labelNote}.` : ''),
+      factored,
+      droppedLabels,
+      conflictsBefore,
+      conflictsAfter,
     };
   }
 
+  // ============================================================================
+  // Literal Tokens
+  // ============================================================================
+
   /**
-   * Inline a rule by replacing all references with its definition
+   * Replace the string literals of parser rules (implicit `T__n` tokens) with
+   * named lexer tokens. A literal reuses a lexer rule defined as exactly that
+   * literal; otherwise a token is added via addLexerRule, named after the
+   * literal ('interface' -> INTERFACE, ';' -> SEMI) unless `names` says
+   * otherwise. New tokens go before the first lexer rule so that they keep the
+   * priority implicit tokens had over rules like ID.
    */
-  static inlineRule(
+  static literalsToTokens(
     grammarContent: string,
-    ruleName: string,
-    options?: {
-      preserveParentheses?: boolean;
-      dryRun?: boolean;
-    }
+    options?: { names?: Record<string, string> }
   ): {
     success: boolean;
     modified: string;
     message: string;
-    stats?: {
-      referencesReplaced: number;
-      ruleDefinition: string;
-      referencingRules: string[];
-    };
+    tokens: LiteralToken[];
   } {
-    const analysis = this.analyze(grammarContent);
-
-    // Find the rule
-    const rule = analysis.rules.find((r) => r.name === ruleName);
-    if (!rule) {
+    const ast = parseGrammar(grammarContent);
+    if (ast.type !== 'combined') {
       return {
         success: false,
         modified: grammarContent,
-        message: `Rule '${ruleName}' not found in grammar`,
+        message:
+          ast.type === 'lexer'
+            ? `'${ast.name}' is a lexer grammar and has no parser rules.`
+            : `'${ast.name}' is a parser grammar; its tokens belong in the tokenVocab lexer grammar (use load_imports with from_file).`,
+        tokens: [],
       };
     }
 
-    // Extract rule body first to check for actual recursion
-    const ruleBody = this.extractRuleBody(rule.definition);
-
-    // Check if rule body actually references itself (true recursion)
-    const bodyReferences = new RegExp(`\\b${ruleName}\\b`);
-    if (bodyReferences.test(ruleBody)) {
+    const plan = this.planLiteralTokens([ast], options?.names);
+    if ('error' in plan) {
+      return { success: false, modified: grammarContent, message: plan.error, tokens: [] };
+    }
+    if (plan.length === 0) {
       return {
-        success: false,
+        success: true,
         modified: grammarContent,
-        message: `Rule '${ruleName}' is recursive (references itself in body)`,
+        message: 'No string literals in parser rules.',
+        tokens: [],
       };
     }
 
-    // Check for circular references
-    const circularCheck = this.detectCircularReference(analysis.rules, ruleName);
-    if (circularCheck.hasCircular) {
+    const rewritten = this.rewriteParserLiterals(grammarContent, ast, plan);
+    const added = this.addLiteralTokens(rewritten.content, plan);
+    if (!added.success) {
+      return { success: false, modified: grammarContent, message: added.message, tokens: [] };
+    }
+
+    const tokens = plan.map((token) => ({
+      ...token,
+      references: rewritten.references.get(token.literal) || 0,
+    }));
+    return {
+      success: true,
+      modified: added.content,
+      message: this.literalTokensSummary(tokens, 1),
+      tokens,
+    };
+  }
+
+  /**
+   * literalsToTokens across a grammar, its imports and its tokenVocab lexer
+   * grammar. New tokens go into the main grammar when it is a combined grammar,
+   * or into the tokenVocab lexer grammar of a parser grammar.
+   */
+  static literalsToTokensMultiFile(
+    filePath: string,
+    options?: { names?: Record<string, string>; basePath?: string; libDirs?: string[] }
+  ): {
+    success: boolean;
+    modifiedFiles: Array<{ filePath: string; content: string; references: number }>;
+    message: string;
+    tokens: LiteralToken[];
+  } {
+    const mainPath = path.resolve(filePath);
+    const cache = new Map<string, GrammarAnalysis>();
+    this.loadGrammarWithImports(mainPath, options?.basePath, cache, new Set(), options?.libDirs);
+
+    const files = new Map<string, { content: string; ast: GrammarAst }>();
+    for (const file of cache.keys()) {
+      try {
+        const content = fs.readFileSync(file, 'utf-8');
+        files.set(file, { content, ast: parseGrammar(content) });
+      } catch {
+        // Unreadable files were reported by loadGrammarWithImports
+      }
+    }
+    const main = files.get(mainPath);
+    if (!main) {
       return {
         success: false,
-        modified: grammarContent,
-        message: `Rule '${ruleName}' has circular references: ${circularCheck.path?.join(' -> ')}`,
+        modifiedFiles: [],
+        message: `Cannot read ${filePath}.`,
+        tokens: [],
       };
     }
 
-    // Find all usages
-    const usages = this.findRuleUsages(grammarContent, ruleName);
-
-    // Filter out the rule's own definition
-    const actualUsages = usages.locations.filter((loc) => {
-      // Check if this is the rule definition line
-      const isDefinition = new RegExp(`^\\s*${ruleName}\\s*:`).test(loc.context);
-      return !isDefinition;
-    });
+    // Where new tokens are defined
+    let tokenFile: string | undefined;
+    if (main.ast.type === 'combined') {
+      tokenFile = mainPath;
+    } else if (main.ast.type === 'parser') {
+      const vocab = this.parseTokenVocab(main.content);
+      const vocabPath =
+        vocab && this.resolveTokenVocab(vocab, mainPath, options?.basePath, options?.libDirs);
+      if (vocabPath && files.get(vocabPath)?.ast.type === 'lexer') {
+        tokenFile = vocabPath;
+      }
+    }
 
-    if (actualUsages.length === 0) {
+    const asts = Array.from(files.values(), (file) => file.ast);
+    const plan = this.planLiteralTokens(asts, options?.names);
+    if ('error' in plan) {
+      return { success: false, modifiedFiles: [], message: plan.error, tokens: [] };
+    }
+    const created = plan.filter((token) => token.created);
+    if (created.length > 0 && !tokenFile) {
       return {
         success: false,
-        modified: grammarContent,
-        message: `Rule '${ruleName}' is not used anywhere`,
+        modifiedFiles: [],
+        message: `No lexer grammar to define ${created.map((t) => t.literal).join(', ')} in: ${path.basename(mainPath)} has no tokenVocab lexer grammar.`,
+        tokens: [],
       };
     }
 
-    // Determine if we need parentheses
-    const needsParens = options?.preserveParentheses || this.ruleBodyNeedsParentheses(ruleBody);
+    const modifiedFiles: Array<{ filePath: string; content: string; references: number }> = [];
+    const references = new Map<string, number>();
+    for (const [file, { content, ast }] of files) {
+      const rewritten = this.rewriteParserLiterals(content, ast, plan);
+      let modified = rewritten.content;
+      rewritten.references.forEach((count, literal) =>
+        references.set(literal, (references.get(literal) || 0) + count)
+      );
+
+      if (file === tokenFile && created.length > 0) {
+        const added = this.addLiteralTokens(modified, plan);
+        if (!added.success) {
+          return { success: false, modifiedFiles: [], message: added.message, tokens: [] };
+        }
+        modified = added.content;
+      }
+      if (modified !== content) {
+        modifiedFiles.push({
+          filePath: file,
+          content: modified,
+          references: Array.from(rewritten.references.values()).reduce((a, b) => a + b, 0),
+        });
+      }
+    }
+
+    const tokens = plan.map((token) => ({
+      ...token,
+      references: references.get(token.literal) || 0,
+    }));
+    return {
+      success: true,
+      modifiedFiles,
+      message:
+        plan.length === 0
+          ? 'No string literals in parser rules.'
+          : this.literalTokensSummary(tokens, modifiedFiles.length),
+      tokens,
+    };
+  }
+
+  /**
+   * Token for each literal used in the parser rules of the given grammars, in
+   * order of first use: an existing lexer rule or a new, unused name
+   */
+  private static planLiteralTokens(
+    asts: GrammarAst[],
+    names?: Record<string, string>
+  ): Array<{ literal: string; name: string; created: boolean }> | { error: string } {
+    const literals: string[] = [];
+    const existing = new Map<string, string>();
+    const taken = new Set<string>(['EOF']);
+    for (const ast of asts) {
+      for (const rule of ast.rules) {
+        taken.add(rule.name);
+        if (rule.type === 'parser') {
+          walkElements(rule.alternatives, (element) => {
+            if (element.kind === 'literal' && !literals.includes(element.value)) {
+              literals.push(element.value);
+            }
+          });
+          continue;
+        }
+        // NAME : 'literal' ; defines the token a parser literal stands for
+        const only = rule.alternatives.length === 1 ? rule.alternatives[0] : undefined;
+        const element = only?.elements.length === 1 ? only.elements[0] : undefined;
+        if (
+          !rule.fragment &&
+          only?.commands.length === 0 &&
+          element?.kind === 'literal' &&
+          !element.suffix &&
+          !existing.has(element.value)
+        ) {
+          existing.set(element.value, rule.name);
+        }
+      }
+      for (const name of [...ast.tokens, ...ast.channels, ...ast.modes]) {
+        taken.add(name.name);
+      }
+    }
+
+    const plan: Array<{ literal: string; name: string; created: boolean }> = [];
+    for (const literal of literals) {
+      const reuse = existing.get(literal);
+      if (reuse) {
+        plan.push({ literal, name: reuse, created: false });
+        continue;
+      }
+
+      const requested = names?.[literal];
+      if (requested !== undefined) {
+        if (!/^[A-Z][A-Za-z0-9_]*$/.test(requested)) {
+          return {
+            error: `Invalid token name '${requested}' for ${literal}: token names start with an uppercase letter.`,
+          };
+        }
+        if (taken.has(requested)) {
+          return { error: `Token name '${requested}' for ${literal} is already in use.` };
+        }
+        taken.add(requested);
+        plan.push({ literal, name: requested, created: true });
+        continue;
+      }
+
+      const base = this.tokenNameForLiteral(literal);
+      let name = base;
+      if (taken.has(name) && /^[A-Z][A-Z0-9_]*$/.test(base) && /^'\w+'$/.test(literal)) {
+        name = `${base}_KW`; // 'id' next to ID : [a-z]+ ;
+      }
+      for (let n = 2; taken.has(name); n++) {
+        name = `${base}_${n}`;
+      }
+      taken.add(name);
+      plan.push({ literal, name, created: true });
+    }
+    return plan;
+  }
+
+  /**
+   * Conventional token name for a literal: keywords in upper case, punctuation
+   * by its usual name, anything else spelled out character by character
+   */
+  private static tokenNameForLiteral(literal: string): string {
+    const text = literal
+      .slice(1, -1)
+      .replace(/\\u\{?([0-9A-Fa-f]+)\}?/g, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+      .replace(
+        /\\(.)/g,
+        (_, c) => ({ n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' })[c as string] ?? c
+      );
+
+    if (/^[A-Za-z][A-Za-z0-9_]*$/.test(text)) {
+      return text.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase();
+    }
+    if (LITERAL_TOKEN_NAMES[text]) {
+      return LITERAL_TOKEN_NAMES[text];
+    }
+
+    const parts = (text.match(/[A-Za-z0-9]+|[^A-Za-z0-9]/gu) || []).map((part) =>
+      /^[A-Za-z0-9]/.test(part)
+        ? part.toUpperCase()
+        : LITERAL_TOKEN_NAMES[part] ||
+          `U${part.codePointAt(0)!.toString(16).toUpperCase().padStart(4, '0')}`
+    );
+    const name = parts.join('_');
+    return /^[A-Z]/.test(name) ? name : `T_${name}`;
+  }
+
+  /**
+   * Replace parser-rule literals by token names; counts replacements per literal
+   */
+  private static rewriteParserLiterals(
+    grammarContent: string,
+    ast: GrammarAst,
+    plan: Array<{ literal: string; name: string }>
+  ): { content: string; references: Map<string, number> } {
+    const names = new Map(plan.map((token) => [token.literal, token.name]));
+    const references = new Map<string, number>();
+    const edits: Array<{ start: number; end: number; text: string }> = [];
+
+    for (const rule of ast.rules) {
+      if (rule.type !== 'parser') continue;
+      walkElements(rule.alternatives, (element) => {
+        const name = element.kind === 'literal' ? names.get(element.value) : undefined;
+        if (element.kind !== 'literal' || !name) return;
+        // The literal follows the label (if any) inside the element
+        const start = grammarContent.indexOf(
+          element.value,
+          element.label ? element.label.span.end.offset : element.span.start.offset
+        );
+        edits.push({ start, end: start + element.value.length, text: name });
+        references.set(element.value, (references.get(element.value) || 0) + 1);
+      });
+    }
+
+    return { content: this.applyTextEdits(grammarContent, edits), references };
+  }
+
+  /**
+   * Define the new tokens ahead of the first lexer rule, in order of first use
+   */
+  private static addLiteralTokens(
+    grammarContent: string,
+    plan: Array<{ literal: string; name: string; created: boolean }>
+  ): { success: boolean; content: string; message: string } {
+    const firstLexerRule = parseGrammar(grammarContent).rules.find((r) => r.type === 'lexer');
+    let content = grammarContent;
+    for (const token of plan.filter((t) => t.created)) {
+      const result = this.addLexerRule(
+        content,
+        token.name,
+        token.literal,
+        firstLexerRule ? { insertBefore: firstLexerRule.name } : undefined
+      );
+      if (!result.success) {
+        return { success: false, content: grammarContent, message: result.message };
+      }
+      content = result.modified;
+    }
+
+    // Separate the new tokens from the comment of the rule that came first
+    const created = plan.filter((t) => t.created);
+    const lastToken = parseGrammar(content).rules.find(
+      (r) => r.name === created[created.length - 1]?.name
+    );
+    const lines = content.split('\n');
+    if (lastToken && /^\s*(\/\/|\/\*)/.test(lines[lastToken.span.end.line] || '')) {
+      lines.splice(lastToken.span.end.line, 0, '');
+      content = lines.join('\n');
+    }
+    return { success: true, content, message: '' };
+  }
+
+  private static literalTokensSummary(tokens: LiteralToken[], files: number): string {
+    const created = tokens.filter((t) => t.created).length;
+    const references = tokens.reduce((sum, t) => sum + t.references, 0);
+    return (
+      `Replaced ${references} literal reference(s)${files > 1 ? ` in ${files} files` : ''}: ` +
+      `${tokens.length - created} reused lexer rule(s), ${created} new token(s).`
+    );
+  }
+
+  // ============================================================================
+  // Grammar Splitting and Combining
+  // ============================================================================
+
+  /**
+   * Split a combined grammar X into `lexer grammar XLexer` and `parser grammar
+   * XParser` (with tokenVocab=XLexer). Parser literals become named tokens
+   * first. Lexer rules, modes, `tokens {}`, `channels {}` and @lexer:: actions
+   * go to the lexer; parser rules and the other named actions to the parser.
+   * Options are divided the way ANTLR divides them for the implicit lexer.
+   * Comments travel with the statement they precede.
+   */
+  static splitGrammar(
+    grammarContent: string,
+    options?: { names?: Record<string, string> }
+  ): {
+    success: boolean;
+    message: string;
+    lexer: { name: string; content: string };
+    parser: { name: string; content: string };
+    tokens: LiteralToken[];
+  } {
+    const ast = parseGrammar(grammarContent);
+    const lexerName = `${ast.name}Lexer`;
+    const parserName = `${ast.name}Parser`;
+    const fail = (message: string) => ({
+      success: false,
+      message,
+      lexer: { name: lexerName, content: '' },
+      parser: { name: parserName, content: '' },
+      tokens: [],
+    });
+
+    if (!ast.declarationSpan) {
+      return fail('Cannot split: no grammar declaration found.');
+    }
+    if (ast.type !== 'combined') {
+      return fail(`'${ast.name}' is already a ${ast.type} grammar.`);
+    }
+    if (ast.errors.length > 0) {
+      const error = ast.errors[0];
+      return fail(`Cannot split: syntax error at line ${error.span.start.line}: ${error.message}`);
+    }
+    if (ast.imports.length > 0) {
+      return fail(
+        `Cannot split: '${ast.name}' imports ${ast.imports.map((i) => i.name).join(', ')}; the imported rules would have to be divided as well.`
+      );
+    }
 
-    // Replace all references
-    let modified = grammarContent;
-    const referencingRules = new Set<string>();
-    let replacedCount = 0;
+    const converted = this.literalsToTokens(grammarContent, { names: options?.names });
+    if (!converted.success) {
+      return fail(converted.message);
+    }
+    const source = converted.modified;
+    const split = parseGrammar(source);
 
-    const lines = modified.split('\n');
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
+    // ANTLR rejects a grammar without rules (error 99)
+    const empty = (['lexer', 'parser'] as const).filter(
+      (type) => !split.rules.some((rule) => rule.type === type)
+    );
+    if (empty.length > 0) {
+      return fail(
+        `Cannot split: '${ast.name}' has no ${empty.join(' or ')} rules, so ${empty.map((type) => (type === 'lexer' ? lexerName : parserName)).join(' and ')} would have none.`
+      );
+    }
 
-      // Skip the rule definition itself
-      const isRuleDefinition = new RegExp(`^\\s*${ruleName}\\s*:`).test(line);
-      if (isRuleDefinition) continue;
+    // Replacement text per statement for each output (undefined = left out)
+    const items: Array<{ span: SourceSpan; lexer?: string; parser?: string }> = [];
+    const text = (span: SourceSpan) => sliceSpan(source, span);
 
-      // Check if line contains reference to the rule
-      const refRegex = new RegExp(`\\b${ruleName}\\b`, 'g');
-      const matches = line.match(refRegex);
+    const optionsNode = split.prequel.find((p) => p.kind === 'options');
+    const lexerOptions = split.options.filter((o) => !PARSER_ONLY_OPTIONS.has(o.name));
+    const parserOptions = split.options.filter((o) => !LEXER_ONLY_OPTIONS.has(o.name));
+    const spaced = split.options.length > 0 && /\s=\s/.test(text(split.options[0].span));
+    const vocab = `tokenVocab${spaced ? ' = ' : '='}${lexerName};`;
+    const parserOptionsBlock = this.optionsBlock(source, optionsNode?.span, [
+      vocab,
+      ...parserOptions.map((o) => text(o.span)),
+    ]);
 
-      if (matches && matches.length > 0) {
-        // Find which rule this line belongs to
-        for (let j = i; j >= 0; j--) {
-          const match = lines[j].match(/^\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*:/);
-          if (match) {
-            referencingRules.add(match[1]);
-            break;
-          }
+    items.push({
+      span: split.declarationSpan!,
+      lexer: `lexer grammar ${lexerName};`,
+      parser: optionsNode
+        ? `parser grammar ${parserName};`
+        : `parser grammar ${parserName};\n\n${parserOptionsBlock}`,
+    });
+    for (const node of split.prequel) {
+      if (node.kind === 'options') {
+        items.push({
+          span: node.span,
+          lexer:
+            lexerOptions.length > 0
+              ? this.optionsBlock(
+                  source,
+                  node.span,
+                  lexerOptions.map((o) => text(o.span))
+                )
+              : undefined,
+          parser: parserOptionsBlock,
+        });
+      } else {
+        items.push({ span: node.span, lexer: text(node.span) });
+      }
+    }
+    for (const action of split.namedActions) {
+      const unscoped = text(action.span).replace(/^@\s*\w+\s*::\s*/, '@');
+      items.push(
+        action.scope === 'lexer'
+          ? { span: action.span, lexer: unscoped }
+          : { span: action.span, parser: unscoped }
+      );
+    }
+    for (const rule of split.rules) {
+      items.push({ span: rule.span, [rule.type]: text(rule.span) });
+    }
+    for (const mode of split.modes) {
+      items.push({ span: mode.span, lexer: text(mode.span) });
+    }
+    items.sort((a, b) => a.span.start.offset - b.span.start.offset);
+
+    const lexerParts: string[] = [];
+    const parserParts: string[] = [];
+    // A blank line in front of a statement that went to the other grammar
+    const pendingBlank = new Map<string[], boolean>();
+    let lastParts: string[][] = [];
+    let pos = 0;
+    for (const item of items) {
+      // A comment on the statement's last line stays with it
+      let end = item.span.end.offset;
+      const trailing = /^[ \t]*(\/\/[^\r\n]*)?(?=\r?\n|$)/.exec(source.slice(end));
+      if (trailing) end += trailing[0].length;
+
+      let leading = source.slice(pos, item.span.start.offset);
+      if (pos > 0) leading = leading.replace(/^[ \t]*\r?\n/, '');
+      const blankBefore = /^[ \t]*\r?\n/.test(leading);
+      leading = leading.replace(/^(?:[ \t]*\r?\n)+/, '');
+      const after = source.slice(item.span.end.offset, end);
+
+      lastParts = [];
+      for (const [parts, replacement] of [
+        [lexerParts, item.lexer],
+        [parserParts, item.parser],
+      ] as Array<[string[], string | undefined]>) {
+        if (replacement === undefined) {
+          pendingBlank.set(parts, pendingBlank.get(parts) || blankBefore);
+          continue;
         }
-
-        // Determine replacement based on context
-        const replacement = needsParens ? `(${ruleBody})` : ruleBody;
-
-        // Replace with whole-word matching and count occurrences
-        lines[i] = line.replace(new RegExp(`\\b${ruleName}\\b`, 'g'), replacement);
-        replacedCount += matches.length; // Count actual occurrences, not just lines
+        const separate = (blankBefore || pendingBlank.get(parts)) && parts.length > 0;
+        parts.push(`${separate ? '\n' : ''}${leading}${replacement}${after}`);
+        pendingBlank.set(parts, false);
+        lastParts.push(parts);
       }
+      pos = end;
     }
 
-    modified = lines.join('\n');
-
-    // Remove the original rule
-    if (!options?.dryRun) {
-      const removeResult = this.removeRule(modified, ruleName);
-      if (!removeResult.success) {
-        return {
-          success: false,
-          modified: grammarContent,
-          message: `Failed to remove rule after inlining: ${removeResult.message}`,
-        };
-      }
-      modified = removeResult.modified;
+    // Comments after the last statement stay with it
+    const rest = source.slice(pos).replace(/^[ \t]*\r?\n/, '');
+    if (rest.trim()) {
+      const blankBefore = /^[ \t]*\r?\n/.test(rest);
+      const tail = rest.replace(/^(?:[ \t]*\r?\n)+/, '').replace(/\s+$/, '');
+      lastParts.forEach((parts) => parts.push(`${blankBefore ? '\n' : ''}${tail}`));
     }
 
+    const lexerRules = split.rules.filter((r) => r.type === 'lexer').length;
+    const parserRules = split.rules.length - lexerRules;
+    const modes = split.modes.length > 0 ? `, ${split.modes.length} mode(s)` : '';
     return {
       success: true,
-      modified,
-      message: options?.dryRun
-        ? `Would inline '${ruleName}' (${replacedCount} references in ${referencingRules.size} rules)`
-        : `Inlined '${ruleName}' (${replacedCount} references in ${referencingRules.size} rules)`,
-      stats: {
-        referencesReplaced: replacedCount,
-        ruleDefinition: rule.definition,
-        referencingRules: Array.from(referencingRules),
-      },
+      message:
+        `Split '${ast.name}' into ${lexerName} (${lexerRules} lexer rule(s)${modes}) and ${parserName} (${parserRules} parser rule(s)).` +
+        (converted.tokens.length > 0 ? ` ${converted.message}` : ''),
+      lexer: { name: lexerName, content: `${lexerParts.join('\n')}\n` },
+      parser: { name: parserName, content: `${parserParts.join('\n')}\n` },
+      tokens: converted.tokens,
     };
   }
 
   /**
-   * Extract rule body without rule name, colon, semicolon, labels, actions
+   * Merge a parser grammar and its tokenVocab lexer grammar into one combined
+   * grammar (XParser + XLexer -> X). The parser grammar keeps its layout; the
+   * lexer rules follow its parser rules. Options are merged (tokenVocab goes
+   * away), lexer named actions become @lexer:: actions and tokens {} are
+   * merged. Refused when the result would not mean the same: lexer modes,
+   * channels {} and parser-only lexer options such as superClass cannot be
+   * written in a combined grammar, and rule names must not collide.
    */
-  private static extractRuleBody(definition: string): string {
-    // Remove rule name and colon
-    let body = definition.replace(/^[a-zA-Z_][a-zA-Z0-9_]*\s*:\s*/i, '').trim();
+  static combineGrammars(
+    parserContent: string,
+    lexerContent: string,
+    options?: { grammarName?: string }
+  ): { success: boolean; content: string; name: string; message: string } {
+    const parser = parseGrammar(parserContent);
+    const lexer = parseGrammar(lexerContent);
+    const name = options?.grammarName || parser.name.replace(/Parser$/, '') || parser.name;
+    const fail = (message: string) => ({ success: false, content: '', name, message });
+
+    if (parser.type !== 'parser' || lexer.type !== 'lexer') {
+      return fail(
+        `Expected a parser grammar and a lexer grammar, got ${parser.type} grammar ${parser.name} and ${lexer.type} grammar ${lexer.name}.`
+      );
+    }
+    for (const ast of [parser, lexer]) {
+      if (ast.errors.length > 0) {
+        const error = ast.errors[0];
+        return fail(
+          `Cannot combine: syntax error in ${ast.name} at line ${error.span.start.line}: ${error.message}`
+        );
+      }
+    }
+    if (!/^[\p{L}_][\p{L}\p{N}_]*$/u.test(name)) {
+      return fail(`Invalid grammar name: '${name}'.`);
+    }
 
-    // Remove semicolon
-    body = body.replace(/;\s*$/, '').trim();
+    // Things a combined grammar cannot say
+    if (lexer.modes.length > 0) {
+      return fail(
+        `Cannot combine: ${lexer.name} declares mode(s) ${lexer.modes.map((m) => m.name).join(', ')}. ` +
+          'Lexical modes are only allowed in lexer grammars, so a combined grammar cannot keep them; keep the grammars split.'
+      );
+    }
+    if (lexer.channels.length > 0) {
+      return fail(
+        `Cannot combine: ${lexer.name} declares channels { ${lexer.channels.map((c) => c.name).join(', ')} }. ` +
+          'Custom channels are only supported in lexer grammars; keep the grammars split.'
+      );
+    }
+    const lexerOnly = lexer.options.filter((o) => PARSER_ONLY_OPTIONS.has(o.name));
+    if (lexerOnly.some((o) => o.name !== 'tokenVocab')) {
+      return fail(
+        `Cannot combine: ${lexer.name} sets ${lexerOnly.map((o) => `${o.name} = ${o.value}`).join(', ')}, ` +
+          'which a combined grammar would apply to the parser only.'
+      );
+    }
+    const conflicts = lexer.options.filter((o) =>
+      parser.options.some(
+        (p) => p.name === o.name && p.name !== 'tokenVocab' && p.value !== o.value
+      )
+    );
+    if (conflicts.length > 0) {
+      return fail(
+        `Cannot combine: conflicting options ${conflicts
+          .map(
+            (o) =>
+              `${o.name} (${parser.options.find((p) => p.name === o.name)!.value} / ${o.value})`
+          )
+          .join(', ')}.`
+      );
+    }
 
-    // Remove labels (name=element -> element)
-    body = body.replace(/[a-zA-Z_][a-zA-Z0-9_]*\s*=\s*/g, '');
+    // Rule names live in one namespace in a combined grammar
+    const lexerRules = new Map(lexer.rules.map((rule) => [rule.name, rule]));
+    const collisions = [
+      ...parser.rules.filter((rule) => lexerRules.has(rule.name)).map((rule) => rule.name),
+      ...parser.tokens
+        .filter((token) => lexerRules.get(token.name)?.fragment)
+        .map((token) => `${token.name} (tokens {} vs fragment)`),
+    ];
+    if (collisions.length > 0) {
+      return fail(
+        `Cannot combine: name collision(s) between the grammars: ${collisions.join(', ')}.`
+      );
+    }
+
+    const edits: Array<{ start: number; end: number; text: string }> = [];
+    const lineEnd = (offset: number) => {
+      const end = parserContent.indexOf('\n', offset);
+      return end === -1 ? parserContent.length : end;
+    };
+    edits.push({
+      start: parser.declarationSpan!.start.offset,
+      end: parser.declarationSpan!.end.offset,
+      text: `grammar ${name};`,
+    });
 
-    // Remove alternative labels (# label at end of alternatives)
-    body = body.replace(/\s*#\s*[a-zA-Z_][a-zA-Z0-9_]*/g, '');
+    const optionsNode = parser.prequel.find((p) => p.kind === 'options');
+    const entries = [
+      ...parser.options
+        .filter((o) => o.name !== 'tokenVocab')
+        .map((o) => sliceSpan(parserContent, o.span)),
+      ...lexer.options
+        .filter((o) => o.name !== 'tokenVocab' && !parser.options.some((p) => p.name === o.name))
+        .map((o) => sliceSpan(lexerContent, o.span)),
+    ];
+    if (optionsNode && entries.length === 0) {
+      // Drop the block with its line when it has one of its own
+      const start = parserContent.lastIndexOf('\n', optionsNode.span.start.offset - 1) + 1;
+      const end = lineEnd(optionsNode.span.end.offset);
+      const ownLine =
+        !parserContent.slice(start, optionsNode.span.start.offset).trim() &&
+        !parserContent.slice(optionsNode.span.end.offset, end).trim();
+      edits.push(
+        ownLine
+          ? { start, end: Math.min(parserContent.length, end + 1), text: '' }
+          : { start: optionsNode.span.start.offset, end: optionsNode.span.end.offset, text: '' }
+      );
+    } else if (optionsNode) {
+      edits.push({
+        start: optionsNode.span.start.offset,
+        end: optionsNode.span.end.offset,
+        text: this.optionsBlock(parserContent, optionsNode.span, entries),
+      });
+    } else if (entries.length > 0) {
+      const offset = lineEnd(parser.declarationSpan!.end.offset);
+      edits.push({
+        start: offset,
+        end: offset,
+        text: `\n\n${this.optionsBlock(lexerContent, lexer.prequel.find((p) => p.kind === 'options')?.span, entries)}`,
+      });
+    }
 
-    // Keep actions for now (they might be needed)
+    // Lexer named actions after the parser's, scoped to the lexer
+    const lexerActions = lexer.namedActions.map((action) =>
+      sliceSpan(lexerContent, action.span).replace(/^@\s*(?:\w+\s*::\s*)?/, '@lexer::')
+    );
+    const headerSpans = [
+      parser.declarationSpan!,
+      ...parser.prequel.map((p) => p.span),
+      ...parser.namedActions.map((a) => a.span),
+    ];
+    if (lexerActions.length > 0) {
+      const lastAction = parser.namedActions[parser.namedActions.length - 1];
+      const anchor = lastAction
+        ? lastAction.span
+        : headerSpans.sort((a, b) => b.end.offset - a.end.offset)[0];
+      const offset = lineEnd(anchor.end.offset);
+      edits.push({
+        start: offset,
+        end: offset,
+        text: `${lastAction ? '\n' : '\n\n'}${lexerActions.join('\n')}`,
+      });
+    }
 
-    return body.trim();
+    // Lexer rules (with the comments above the first one) after the parser rules
+    const lexerLines = lexerContent.split('\n');
+    const lexerHeaderEnd = Math.max(
+      lexer.declarationSpan!.end.offset,
+      ...lexer.prequel.map((p) => p.span.end.offset),
+      ...lexer.namedActions.map((a) => a.span.end.offset)
+    );
+    let lexerBody = lexerContent.slice(lexerHeaderEnd).replace(/^[^\n]*\n?/, '');
+    const firstRule = lexer.rules[0];
+    if (firstRule) {
+      const startLine = this.commentedStartLine(lexerLines, lexer, firstRule.span.start.line);
+      const start = lexerLines.slice(0, startLine - 1).join('\n').length + (startLine > 1 ? 1 : 0);
+      lexerBody = lexerContent.slice(Math.max(start, lexerHeaderEnd));
+    }
+    lexerBody = lexerBody.replace(/^\s*\n/, '').replace(/\s+$/, '');
+
+    let content = this.applyTextEdits(parserContent, edits).replace(/\s+$/, '');
+    if (lexerBody) {
+      content += `\n\n${lexerBody}`;
+    }
+    content += '\n';
+
+    if (lexer.tokens.length > 0) {
+      const added = this.addDeclarations(
+        content,
+        'tokens',
+        lexer.tokens.map((token) => token.name)
+      );
+      if (!added.success) {
+        return fail(`Cannot merge tokens {}: ${added.message}`);
+      }
+      content = added.modified;
+    }
+
+    return {
+      success: true,
+      content,
+      name,
+      message: `Combined ${parser.name} (${parser.rules.length} parser rule(s)) and ${lexer.name} (${lexer.rules.length} lexer rule(s)) into grammar ${name}.`,
+    };
   }
 
   /**
-   * Check if rule body needs parentheses when inlined
+   * `options { ... }` with the given entries, on one line or one entry per
+   * line like the original block
    */
-  private static ruleBodyNeedsParentheses(body: string): boolean {
-    // Always needs parentheses if contains alternatives
-    if (body.includes('|')) return true;
-
-    // Check if it's a simple single token/rule
-    const tokens = body.trim().split(/\s+/);
-    if (tokens.length === 1) return false;
-
-    // Multiple elements might need parens depending on context
-    return true;
+  private static optionsBlock(
+    source: string,
+    original: SourceSpan | undefined,
+    entries: string[]
+  ): string {
+    const block = original ? sliceSpan(source, original) : '';
+    if (!block.includes('\n')) {
+      return `options { ${entries.join(' ')} }`;
+    }
+    const indent = /\n([ \t]+)\S/.exec(block)?.[1] || '    ';
+    return `options {\n${entries.map((entry) => `${indent}${entry}`).join('\n')}\n}`;
   }
 
   /**
@@ -5754,7 +10314,7 @@ export class AntlrAnalyzer {
     path.push(startRule);
 
     for (const referencedRule of rule.referencedRules) {
-      // Skip self-references (analyzer bug where rule name appears in its own referencedRules)
+      // Skip self-references (direct recursion is reported separately)
       if (referencedRule === startRule) continue;
 
       // Skip lexer rules (uppercase)
@@ -5804,52 +10364,90 @@ export class AntlrAnalyzer {
 
     // Parse grammar structure
     const structure = this.parseGrammarStructure(grammarContent, analysis);
+    const allRules = structure.sections.flatMap((section) => section.rules);
 
-    // Sort rules according to strategy
-    let sortedRules: typeof structure.rules;
+    if (
+      strategy === 'dependency' &&
+      options?.anchorRule &&
+      !allRules.some((r) => r.name === options.anchorRule)
+    ) {
+      return {
+        success: false,
+        modified: grammarContent,
+        message: `Anchor rule '${options.anchorRule}' not found`,
+      };
+    }
 
-    switch (strategy) {
-      case 'alphabetical':
-        sortedRules = this.sortRulesAlphabetical(structure.rules);
-        break;
+    // Sort rules according to strategy. Rules never move between modes, so each
+    // mode section is sorted on its own.
+    const sortedSections: Array<{ prelude: string[]; rules: typeof allRules }> = [];
+    for (const section of structure.sections) {
+      let sortedRules: typeof allRules;
 
-      case 'type':
-        sortedRules = this.sortRulesByType(structure.rules, options?.parserFirst ?? true);
-        break;
+      switch (strategy) {
+        case 'alphabetical':
+          sortedRules = this.sortRulesAlphabetical(section.rules);
+          break;
 
-      case 'dependency':
-        if (!options?.anchorRule) {
-          return {
-            success: false,
-            modified: grammarContent,
-            message: 'Dependency sorting requires anchorRule option',
-          };
-        }
-        const depResult = this.sortRulesByDependency(structure.rules, options.anchorRule);
-        if (!depResult.success) {
+        case 'type':
+          sortedRules = this.sortRulesByType(section.rules, options?.parserFirst ?? true);
+          break;
+
+        case 'dependency':
+          if (!options?.anchorRule) {
+            return {
+              success: false,
+              modified: grammarContent,
+              message: 'Dependency sorting requires anchorRule option',
+            };
+          }
+          if (!section.rules.some((r) => r.name === options.anchorRule)) {
+            sortedRules = section.rules;
+            break;
+          }
+          const depResult = this.sortRulesByDependency(section.rules, options.anchorRule);
+          if (!depResult.success) {
+            return {
+              success: false,
+              modified: grammarContent,
+              message: depResult.message || 'Dependency sort failed',
+            };
+          }
+          sortedRules = depResult.rules;
+          break;
+
+        case 'usage':
+          sortedRules = this.sortRulesByUsage(section.rules);
+          break;
+
+        default:
           return {
             success: false,
             modified: grammarContent,
-            message: depResult.message || 'Dependency sort failed',
+            message: `Unknown sorting strategy: ${strategy}`,
           };
-        }
-        sortedRules = depResult.rules;
-        break;
-
-      case 'usage':
-        sortedRules = this.sortRulesByUsage(structure.rules);
-        break;
+      }
 
-      default:
-        return {
-          success: false,
-          modified: grammarContent,
-          message: `Unknown sorting strategy: ${strategy}`,
-        };
+      sortedSections.push({ prelude: section.prelude, rules: sortedRules });
     }
 
     // Reconstruct grammar
-    const modified = this.reconstructGrammar(structure.header, sortedRules);
+    const separator = this.inferFormatting(grammarContent).blankLinesBetweenRules ? [''] : [];
+    const modified = this.reconstructGrammar(
+      structure.header,
+      sortedSections,
+      structure.trailer,
+      separator
+    );
+
+    const dropped = this.droppedActions(grammarContent, modified);
+    if (dropped.length > 0) {
+      return {
+        success: false,
+        modified: grammarContent,
+        message: `Sorting would lose ${dropped.length} action(s) (first at line ${dropped[0].lineNumber}); grammar left unchanged`,
+      };
+    }
 
     return {
       success: true,
@@ -5864,71 +10462,103 @@ export class AntlrAnalyzer {
   }
 
   /**
-   * Parse grammar structure into header and rules
+   * Split a grammar into header, mode sections of rules, and trailer.
+   *
+   * Each rule carries its leading comments and any detached comments above it,
+   * so nothing is lost when rules are reordered. A section starts at each
+   * `mode X;` declaration.
    */
   private static parseGrammarStructure(
     grammarContent: string,
     analysis: GrammarAnalysis
   ): {
-    header: string;
-    rules: Array<{
-      name: string;
-      type: 'lexer' | 'parser';
-      text: string;
-      referencedRules: string[];
-      lineNumber: number;
+    header: string[];
+    sections: Array<{
+      prelude: string[];
+      rules: Array<{
+        name: string;
+        type: 'lexer' | 'parser';
+        text: string;
+        referencedRules: string[];
+        lineNumber: number;
+      }>;
     }>;
+    trailer: string[];
   } {
-    const lines = grammarContent.split('\n');
-
-    // Find where first rule starts
-    let headerEndLine = 0;
-    for (let i = 0; i < lines.length; i++) {
-      if (/^[a-zA-Z_][a-zA-Z0-9_]*\s*:/.test(lines[i].trim())) {
-        headerEndLine = i;
-        break;
+    const commentOnly = this.commentOnlyLines(grammarContent, analysis.ast?.comments || []);
+    const modes = analysis.ast?.modes || [];
+    // Text between rules as lines, without the line breaks that end and start it
+    const toLines = (text: string) => text.replace(/^\n/, '').replace(/\n$/, '').split('\n');
+
+    let header: string[] = [];
+    const sections: ReturnType<typeof AntlrAnalyzer.parseGrammarStructure>['sections'] = [];
+    let gapStart = 0;
+
+    analysis.rules.forEach((rule, index) => {
+      // Rules sharing a line are taken apart by their spans
+      const block = this.ruleBlockSpan(grammarContent, rule.ast!.span, commentOnly);
+
+      let chunkStart = gapStart;
+      if (index === 0) {
+        const before = grammarContent.slice(0, block.start);
+        header = before === '' ? [] : before.replace(/[ \t]*\n?$/, '').split('\n');
+        chunkStart = block.start;
+        sections.push({ prelude: [], rules: [] });
+      } else {
+        const mode = modes
+          .filter((m) => m.span.start.offset >= gapStart && m.span.end.offset <= block.start)
+          .pop();
+        if (mode) {
+          const blank = /^\s*/.exec(grammarContent.slice(mode.span.end.offset))![0];
+          const preludeEnd =
+            mode.span.end.offset + (blank.includes('\n') ? blank.lastIndexOf('\n') + 1 : 0);
+          sections.push({
+            prelude: toLines(grammarContent.slice(gapStart, preludeEnd)),
+            rules: [],
+          });
+          chunkStart = preludeEnd;
+        }
       }
-    }
-
-    const header = lines.slice(0, headerEndLine).join('\n');
 
-    // Extract each rule's complete text
-    const rules = analysis.rules.map((rule) => {
-      const ruleText = this.extractCompleteRuleText(grammarContent, rule);
-      return {
+      // Drop the blank lines before the chunk, or the spaces after a rule on the same line
+      let text = grammarContent.slice(chunkStart, block.end);
+      const leading = /^\s*/.exec(text)![0];
+      text = text.slice(leading.includes('\n') ? leading.lastIndexOf('\n') + 1 : leading.length);
+      sections[sections.length - 1].rules.push({
         name: rule.name,
         type: rule.type,
-        text: ruleText,
+        text,
         referencedRules: rule.referencedRules,
         lineNumber: rule.lineNumber,
-      };
+      });
+      gapStart = block.end;
     });
 
-    return { header, rules };
+    // Blank lines right after the last rule act as a separator, not a trailer
+    const rest = grammarContent.slice(gapStart);
+    const trailer = rest === '' ? [] : rest.replace(/^\n/, '').split('\n');
+    while (trailer.length > 1 && trailer[0].trim() === '') trailer.shift();
+
+    return { header, sections, trailer };
   }
 
   /**
-   * Extract complete text for a rule (including multi-line and trailing blank lines)
+   * Per-line flags: true when a line holds nothing but comments
    */
-  private static extractCompleteRuleText(grammarContent: string, rule: GrammarRule): string {
-    const lines = grammarContent.split('\n');
-    const startLine = rule.lineNumber - 1;
-
-    // Find end (semicolon)
-    let endLine = startLine;
-    for (let i = startLine; i < lines.length; i++) {
-      if (lines[i].includes(';')) {
-        endLine = i;
-        break;
-      }
-    }
-
-    // Include one blank line after rule if present (common formatting)
-    if (endLine + 1 < lines.length && lines[endLine + 1].trim() === '') {
-      endLine++;
-    }
-
-    return lines.slice(startLine, endLine + 1).join('\n');
+  private static commentOnlyLines(grammarContent: string, comments: CommentNode[]): boolean[] {
+    let masked = '';
+    let offset = 0;
+    for (const comment of comments) {
+      masked += grammarContent.slice(offset, comment.span.start.offset);
+      masked += comment.text.replace(/[^\n]/g, ' ');
+      offset = comment.span.end.offset;
+    }
+    masked += grammarContent.slice(offset);
+
+    const maskedLines = masked.split('\n');
+    return grammarContent
+      .split('\n')
+      .map((line, i) => line.trim() !== '' && maskedLines[i].trim() === '');
   }
 
   /**
@@ -6164,29 +10794,35 @@ export class AntlrAnalyzer {
   /**
    * Reconstruct grammar from header and sorted rules
    */
-  private static reconstructGrammar(header: string, rules: any[]): string {
-    const parts: string[] = [];
-
-    // Add header
-    if (header.trim()) {
-      parts.push(header);
-
-      // Add blank line after header if not already present
-      if (!header.endsWith('\n\n')) {
-        parts.push('');
-      }
+  private static reconstructGrammar(
+    header: string[],
+    sections: Array<{ prelude: string[]; rules: any[] }>,
+    trailer: string[],
+    separator: string[]
+  ): string {
+    const lines: string[] = [...header];
+
+    for (const section of sections) {
+      lines.push(...section.prelude);
+      section.rules.forEach((rule, index) => {
+        if (index > 0) {
+          lines.push(...separator);
+        }
+        lines.push(rule.text);
+      });
     }
 
-    // Add rules
-    for (const rule of rules) {
-      parts.push(rule.text);
+    if (trailer.length > 0 && trailer.some((line) => line.trim() !== '')) {
+      lines.push('');
     }
+    lines.push(...trailer);
 
-    return parts.join('\n');
+    return lines.join('\n');
   }
 
   /**
-   * Analyze grammar for common ambiguity patterns
+   * Analyze grammar for common ambiguity patterns. Issue types double as check
+   * ids for project config and suppression comments.
    */
   static analyzeAmbiguities(
     grammarContent: string,
@@ -6197,7 +10833,8 @@ export class AntlrAnalyzer {
       checkLeftRecursion?: boolean;
       checkLexerConflicts?: boolean;
       minPrefixLength?: number;
-    }
+    },
+    config?: ProjectConfig
   ): {
     success: boolean;
     issues: Array<{
@@ -6221,11 +10858,13 @@ export class AntlrAnalyzer {
       checkAmbiguousOptionals: options?.checkAmbiguousOptionals ?? true,
       checkLeftRecursion: options?.checkLeftRecursion ?? true,
       checkLexerConflicts: options?.checkLexerConflicts ?? true,
-      minPrefixLength: options?.minPrefixLength ?? 2,
+      minPrefixLength:
+        options?.minPrefixLength ??
+        this.checkThreshold(config, 'overlapping-prefix', 'minPrefixLength', 2),
     };
 
     const analysis = this.analyze(grammarContent);
-    const issues: any[] = [];
+    let issues: any[] = [];
 
     // Run checks
     if (opts.checkIdenticalAlternatives) {
@@ -6248,6 +10887,14 @@ export class AntlrAnalyzer {
       issues.push(...this.checkLexerConflicts(analysis));
     }
 
+    issues = this.applyCheckPolicy(
+      issues,
+      grammarContent,
+      config,
+      (issue) => ({ check: issue.type, lineNumber: issue.line }),
+      (issue, severity) => ({ ...issue, severity })
+    );
+
     // Summarize
     const summary = {
       errors: issues.filter((i) => i.severity === 'error').length,
@@ -6270,22 +10917,30 @@ export class AntlrAnalyzer {
     const issues: any[] = [];
 
     for (const rule of analysis.rules) {
-      const alternatives = this.extractAlternativesFromDef(rule.definition);
-      const seen = new Set<string>();
+      if (!rule.ast) continue;
 
-      for (const alt of alternatives) {
-        const normalized = this.normalizeAlternative(alt);
-        if (seen.has(normalized)) {
-          issues.push({
-            severity: 'error',
-            type: 'identical-alternatives',
-            rule: rule.name,
-            line: rule.lineNumber,
-            description: `Rule '${rule.name}' has duplicate alternative: ${alt}`,
-            suggestion: 'Remove duplicate alternative',
-          });
+      // Top-level alternatives and the alternatives of every nested block
+      const blocks: AlternativeNode[][] = [rule.ast.alternatives];
+      walkElements(rule.ast.alternatives, (element) => {
+        if (element.kind === 'block') blocks.push(element.alternatives);
+      });
+
+      for (const alternatives of blocks) {
+        const seen = new Set<string>();
+        for (const alt of alternatives) {
+          const normalized = alternativeToText(alt);
+          if (seen.has(normalized)) {
+            issues.push({
+              severity: 'error',
+              type: 'identical-alternatives',
+              rule: rule.name,
+              line: alt.span.start.line,
+              description: `Rule '${rule.name}' has duplicate alternative: ${normalized}`,
+              suggestion: 'Remove duplicate alternative',
+            });
+          }
+          seen.add(normalized);
         }
-        seen.add(normalized);
       }
     }
 
@@ -6293,35 +10948,11 @@ export class AntlrAnalyzer {
   }
 
   /**
-   * Extract alternatives from rule definition
-   */
-  private static extractAlternativesFromDef(definition: string): string[] {
-    // Remove rule name and colon
-    let body = definition.replace(/^[a-zA-Z_][a-zA-Z0-9_]*\s*:\s*/i, '').trim();
-
-    // Remove comments
-    body = body
-      .replace(/\/\/.*$/gm, '')
-      .replace(/\/\*[\s\S]*?\*\//g, '')
-      .trim();
-
-    // Remove semicolon
-    body = body.replace(/;\s*$/, '').trim();
-
-    // Split by top-level |
-    return this.splitByTopLevelPipe(body);
-  }
-
-  /**
-   * Normalize alternative for comparison
+   * Canonical text of each significant element in an alternative (labels,
+   * actions and predicates dropped)
    */
-  private static normalizeAlternative(alt: string): string {
-    return alt
-      .replace(/\s+/g, ' ') // Normalize whitespace
-      .replace(/[a-zA-Z_][a-zA-Z0-9_]*\s*=/g, '') // Remove labels
-      .replace(/\{[^}]*\}/g, '') // Remove actions
-      .replace(/\s*#\s*[a-zA-Z_][a-zA-Z0-9_]*/g, '') // Remove alternative labels
-      .trim();
+  private static alternativeElementTexts(alt: AlternativeNode): string[] {
+    return alt.elements.map((element) => elementToText(element)).filter((text) => text !== '');
   }
 
   /**
@@ -6331,7 +10962,9 @@ export class AntlrAnalyzer {
     const issues: any[] = [];
 
     for (const rule of analysis.rules) {
-      const alternatives = this.extractAlternativesFromDef(rule.definition);
+      const alternatives = (rule.ast?.alternatives || []).map((alt) =>
+        this.alternativeElementTexts(alt)
+      );
 
       if (alternatives.length < 2) continue;
 
@@ -6340,14 +10973,14 @@ export class AntlrAnalyzer {
           const prefix = this.commonPrefixLength(alternatives[i], alternatives[j]);
 
           if (prefix >= minLength) {
-            const prefixText = alternatives[i].split(/\s+/).slice(0, prefix).join(' ');
+            const prefixText = alternatives[i].slice(0, prefix).join(' ');
             issues.push({
               severity: 'warning',
               type: 'overlapping-prefix',
               rule: rule.name,
               line: rule.lineNumber,
               description: `Alternatives in '${rule.name}' share common prefix (${prefix} tokens): ${prefixText}`,
-              suggestion: 'Consider factoring out common prefix',
+              suggestion: 'Consider factoring out common prefix (left-factor-rule)',
             });
             break; // Only report once per rule
           }
@@ -6359,17 +10992,14 @@ export class AntlrAnalyzer {
   }
 
   /**
-   * Calculate common prefix length between two alternatives
+   * Calculate common prefix length between two element sequences
    */
-  private static commonPrefixLength(alt1: string, alt2: string): number {
-    const tokens1 = alt1.trim().split(/\s+/);
-    const tokens2 = alt2.trim().split(/\s+/);
-
+  private static commonPrefixLength(elements1: string[], elements2: string[]): number {
     let length = 0;
     while (
-      length < tokens1.length &&
-      length < tokens2.length &&
-      tokens1[length] === tokens2[length]
+      length < elements1.length &&
+      length < elements2.length &&
+      elements1[length] === elements2[length]
     ) {
       length++;
     }
@@ -6384,160 +11014,72 @@ export class AntlrAnalyzer {
     const issues: any[] = [];
 
     for (const rule of analysis.rules) {
-      let body = rule.definition.replace(/^[a-zA-Z_][a-zA-Z0-9_]*\s*:\s*/i, '');
+      if (!rule.ast) continue;
 
-      // Remove comments
-      body = body
-        .replace(/\/\/.*$/gm, '')
-        .replace(/\/\*[\s\S]*?\*\//g, '')
-        .trim();
-
-      // Remove semicolon
-      body = body.replace(/;\s*$/, '').trim();
-
-      const tokens = body.split(/\s+/);
-
-      // Check for A? A pattern
-      for (let i = 0; i < tokens.length - 1; i++) {
-        if (tokens[i].endsWith('?')) {
-          const base = tokens[i].slice(0, -1);
-          if (tokens[i + 1] === base) {
-            issues.push({
-              severity: 'warning',
-              type: 'ambiguous-optional',
-              rule: rule.name,
-              line: rule.lineNumber,
-              description: `Rule '${rule.name}' has ambiguous pattern: ${base}? ${base}`,
-              suggestion: `Use ${base}+ or clarify which is optional`,
-            });
-          }
-        }
-      }
-
-      // Check for A? A* pattern (redundant)
-      for (let i = 0; i < tokens.length - 1; i++) {
-        if (tokens[i].endsWith('?')) {
-          const base = tokens[i].slice(0, -1);
-          if (tokens[i + 1] === base + '*') {
-            issues.push({
-              severity: 'warning',
-              type: 'redundant-optional',
-              rule: rule.name,
-              line: rule.lineNumber,
-              description: `Rule '${rule.name}' has redundant pattern: ${base}? ${base}*`,
-              suggestion: `Use ${base}* alone (already handles zero occurrences)`,
-            });
-          }
-        }
-      }
-    }
-
-    return issues;
-  }
-
-  /**
-   * Check for hidden left recursion
-   */
-  private static checkHiddenLeftRecursion(analysis: GrammarAnalysis): any[] {
-    const issues: any[] = [];
-
-    for (const rule of analysis.rules) {
-      if (rule.type !== 'parser') continue;
-
-      const visited = new Set<string>();
-      const recStack = new Set<string>();
-
-      if (this.hasHiddenLeftRecursionHelper(rule.name, analysis.rules, visited, recStack)) {
-        issues.push({
-          severity: 'error',
-          type: 'hidden-left-recursion',
-          rule: rule.name,
-          line: rule.lineNumber,
-          description: `Rule '${rule.name}' has hidden left recursion`,
-          suggestion: 'Rewrite to eliminate indirect recursion',
-        });
-      }
-    }
-
-    return issues;
-  }
-
-  /**
-   * Helper for hidden left recursion detection
-   */
-  private static hasHiddenLeftRecursionHelper(
-    ruleName: string,
-    allRules: GrammarRule[],
-    visited: Set<string>,
-    recStack: Set<string>
-  ): boolean {
-    if (recStack.has(ruleName)) {
-      return true;
-    }
-
-    if (visited.has(ruleName)) {
-      return false;
-    }
-
-    visited.add(ruleName);
-    recStack.add(ruleName);
+      const sequences: GrammarElement[][] = rule.ast.alternatives.map((alt) => alt.elements);
+      walkElements(rule.ast.alternatives, (element) => {
+        if (element.kind === 'block') {
+          sequences.push(...element.alternatives.map((alt) => alt.elements));
+        }
+      });
 
-    const rule = allRules.find((r) => r.name === ruleName);
-    if (!rule) {
-      recStack.delete(ruleName);
-      return false;
-    }
+      for (const elements of sequences) {
+        const significant = elements.filter((e) => e.kind !== 'action' && e.kind !== 'predicate');
 
-    // Check first element of each alternative
-    const alternatives = this.extractAlternativesFromDef(rule.definition);
-    for (const alt of alternatives) {
-      const firstToken = alt.trim().split(/\s+/)[0];
+        for (let i = 0; i < significant.length - 1; i++) {
+          const current = significant[i];
+          const next = significant[i + 1];
+          if (current.suffix !== '?') continue;
 
-      // Skip if first token is lexer rule (uppercase)
-      if (!firstToken || firstToken[0] === firstToken[0].toUpperCase()) continue;
+          const base = elementToText({ ...current, suffix: undefined });
+          if (elementToText({ ...next, suffix: undefined }) !== base) continue;
 
-      // Skip if it's direct recursion (ANTLR handles this)
-      if (firstToken === ruleName) continue;
+          // Check for A? A pattern
+          if (!next.suffix) {
+            issues.push({
+              severity: 'warning',
+              type: 'ambiguous-optional',
+              rule: rule.name,
+              line: current.span.start.line,
+              description: `Rule '${rule.name}' has ambiguous pattern: ${base}? ${base}`,
+              suggestion: `Use ${base}+ or clarify which is optional`,
+            });
+          }
 
-      // Check if it's a parser rule reference (hidden recursion)
-      if (this.hasHiddenLeftRecursionHelper(firstToken, allRules, visited, recStack)) {
-        recStack.delete(ruleName);
-        return true;
+          // Check for A? A* pattern (redundant)
+          if (next.suffix === '*') {
+            issues.push({
+              severity: 'warning',
+              type: 'redundant-optional',
+              rule: rule.name,
+              line: current.span.start.line,
+              description: `Rule '${rule.name}' has redundant pattern: ${base}? ${base}*`,
+              suggestion: `Use ${base}* alone (already handles zero occurrences)`,
+            });
+          }
+        }
       }
     }
 
-    recStack.delete(ruleName);
-    return false;
+    return issues;
   }
 
   /**
-   * Check for lexer conflicts
+   * Check for hidden left recursion
    */
-  private static checkLexerConflicts(analysis: GrammarAnalysis): any[] {
+  private static checkHiddenLeftRecursion(analysis: GrammarAnalysis): any[] {
     const issues: any[] = [];
-    const lexerRules = analysis.rules.filter((r) => r.type === 'lexer');
 
-    for (let i = 0; i < lexerRules.length; i++) {
-      for (let j = i + 1; j < lexerRules.length; j++) {
-        const rule1 = lexerRules[i];
-        const rule2 = lexerRules[j];
-
-        // Extract patterns
-        const pattern1 = this.extractLexerPattern(rule1.definition);
-        const pattern2 = this.extractLexerPattern(rule2.definition);
-
-        // Check for obvious overlaps
-        if (this.lexerPatternsOverlap(pattern1, pattern2)) {
-          issues.push({
-            severity: 'warning',
-            type: 'lexer-conflict',
-            rule: rule1.name,
-            line: rule1.lineNumber,
-            description: `Lexer rules '${rule1.name}' and '${rule2.name}' may conflict`,
-            suggestion: 'ANTLR uses first match; reorder if needed',
-          });
-          break; // Only report once per rule
-        }
+    for (const cycle of this.findLeftRecursionCycles(analysis)) {
+      for (const ruleName of cycle.rules) {
+        issues.push({
+          severity: 'error',
+          type: 'hidden-left-recursion',
+          rule: ruleName,
+          line: analysis.rules.find((r) => r.name === ruleName)?.lineNumber,
+          description: `Rule '${ruleName}' has hidden left recursion: ${cycle.path.join(' → ')}`,
+          suggestion: 'Rewrite to eliminate indirect recursion (see eliminate-left-recursion)',
+        });
       }
     }
 
@@ -6545,82 +11087,81 @@ export class AntlrAnalyzer {
   }
 
   /**
-   * Extract lexer pattern from rule definition
+   * Check for lexer conflicts: rules an earlier rule in the same mode takes strings from
    */
-  private static extractLexerPattern(definition: string): string {
-    // Remove rule name and colon
-    let pattern = definition.replace(/^[A-Z_][A-Z0-9_]*\s*:\s*/i, '').trim();
+  private static checkLexerConflicts(analysis: GrammarAnalysis): any[] {
+    const issues: any[] = [];
 
-    // Remove semicolon and directives (-> skip, -> channel(...))
-    pattern = pattern
-      .replace(/\s*->\s*\w+.*$/, '')
-      .replace(/;\s*$/, '')
-      .trim();
+    for (const entry of this.findShadowedLexerRules(analysis).shadowed) {
+      const losses = entry.shadowedBy
+        .map(
+          (s) =>
+            `${JSON.stringify(s.example)} goes to '${s.rule}' (line ${this.ruleLine(analysis, s.rule)})`
+        )
+        .join(', ');
+      if (entry.neverWins) {
+        issues.push({
+          severity: 'warning',
+          type: 'lexer-conflict',
+          rule: entry.rule,
+          line: entry.lineNumber,
+          description: `Lexer rule '${entry.rule}' can never match: every string it matches goes to an earlier rule (${losses})`,
+          suggestion:
+            entry.shadowedBy.length === 1
+              ? `Move '${entry.rule}' above '${entry.shadowedBy[0].rule}', or remove it if both rules match the same strings`
+              : `Move '${entry.rule}' above the rules that shadow it`,
+        });
+      } else {
+        issues.push({
+          severity: 'info',
+          type: 'lexer-conflict',
+          rule: entry.rule,
+          line: entry.lineNumber,
+          description: `Lexer rule '${entry.rule}' is partially shadowed by an earlier rule: ${losses}`,
+          suggestion:
+            'ANTLR gives ties to the rule defined first; reorder if the earlier rule should not win',
+        });
+      }
+    }
 
-    return pattern;
+    return issues;
   }
 
   /**
-   * Check if two lexer patterns overlap
+   * Lexer rules that lose strings to an earlier rule of the same mode. Each mode's
+   * rules run as one DFA with ANTLR's longest-match, first-rule-wins semantics;
+   * examples are the shortest strings the earlier rule takes.
    */
-  private static lexerPatternsOverlap(pattern1: string, pattern2: string): boolean {
-    // Simple heuristic: check if one is a prefix of the other or both are character ranges
-
-    // String literal overlap
-    const literal1 = pattern1.match(/^'([^']+)'$/);
-    const literal2 = pattern2.match(/^'([^']+)'$/);
-
-    if (literal1 && literal2) {
-      const str1 = literal1[1];
-      const str2 = literal2[1];
-      return str1.startsWith(str2) || str2.startsWith(str1);
-    }
-
-    // Check if one is a string literal and the other is a character class that could match it
-    if (literal1 && !literal2) {
-      // literal1 is string, pattern2 is regex
-      const str = literal1[1];
-      // Simple check: if pattern2 is [a-z]+ and string is all lowercase letters
-      if (pattern2.includes('[a-z]') && /^[a-z]+$/.test(str)) {
-        return true;
-      }
-      if (pattern2.includes('[A-Z]') && /^[A-Z]+$/.test(str)) {
-        return true;
-      }
-      if (pattern2.includes('[0-9]') && /^[0-9]+$/.test(str)) {
-        return true;
-      }
-    }
-
-    if (literal2 && !literal1) {
-      // literal2 is string, pattern1 is regex
-      const str = literal2[1];
-      if (pattern1.includes('[a-z]') && /^[a-z]+$/.test(str)) {
-        return true;
-      }
-      if (pattern1.includes('[A-Z]') && /^[A-Z]+$/.test(str)) {
-        return true;
-      }
-      if (pattern1.includes('[0-9]') && /^[0-9]+$/.test(str)) {
-        return true;
+  static findShadowedLexerRules(grammar: GrammarAnalysis): {
+    shadowed: Array<LexerShadowing & { mode: string; lineNumber: number }>;
+    skipped: Array<{ rule: string; reason: string }>;
+    truncatedModes: string[];
+  } {
+    const lexerRules = grammar.rules.filter((r) => r.type === 'lexer' && r.ast);
+    const definitions = new Map(lexerRules.map((r) => [r.name, r.ast!.alternatives]));
+    const caseInsensitive = grammar.options.caseInsensitive === 'true';
+    const shadowed: Array<LexerShadowing & { mode: string; lineNumber: number }> = [];
+    const skipped: Array<{ rule: string; reason: string }> = [];
+    const truncatedModes: string[] = [];
+
+    const modes = Array.from(new Set(lexerRules.map((r) => r.mode || 'DEFAULT_MODE')));
+    for (const mode of modes) {
+      const rules = lexerRules
+        .filter((r) => (r.mode || 'DEFAULT_MODE') === mode && !r.ast!.fragment)
+        .map((r) => ({ name: r.name, alternatives: r.ast!.alternatives }));
+      const result = findLexerShadowing(rules, definitions, { caseInsensitive });
+      for (const entry of result.shadowed) {
+        shadowed.push({ ...entry, mode, lineNumber: this.ruleLine(grammar, entry.rule) });
       }
+      skipped.push(...result.skipped);
+      if (result.truncated) truncatedModes.push(mode);
     }
 
-    // Character class overlap (very basic check)
-    const charClass1 = pattern1.includes('[') && pattern1.includes(']');
-    const charClass2 = pattern2.includes('[') && pattern2.includes(']');
-
-    if (charClass1 && charClass2) {
-      // Both have character classes - might overlap
-      // This is a very simplified check
-      return (
-        (pattern1.includes('[a-z]') && pattern2.includes('[a-z]')) ||
-        (pattern1.includes('[A-Z]') && pattern2.includes('[A-Z]')) ||
-        (pattern1.includes('[0-9]') && pattern2.includes('[0-9]'))
-      );
-    }
+    return { shadowed, skipped, truncatedModes };
+  }
 
-    return false;
+  private static ruleLine(grammar: GrammarAnalysis, ruleName: string): number {
+    return grammar.rules.find((r) => r.name === ruleName)?.lineNumber || 0;
   }
 
   // ============================================================================
@@ -6671,160 +11212,373 @@ export class AntlrAnalyzer {
       };
     }
 
-    const lines = grammarContent.split('\n');
-
-    // Find rule start line
-    let ruleStartLine = -1;
-    const rulePattern = new RegExp(`^\\s*(?:fragment\\s+)?${ruleName}\\s*[:\\n]`);
-    for (let i = 0; i < lines.length; i++) {
-      if (rulePattern.test(lines[i])) {
-        ruleStartLine = i;
-        break;
-      }
+    // Moving next to a rule in another mode would silently change the rule's mode
+    const ruleMode = rule.mode || 'DEFAULT_MODE';
+    const anchorMode = anchor.mode || 'DEFAULT_MODE';
+    if (ruleMode !== anchorMode) {
+      return {
+        success: false,
+        modified: grammarContent,
+        message: `Rule '${ruleName}' is in mode '${ruleMode}' but '${anchorRule}' is in mode '${anchorMode}'. Use move-rule-to-mode to change modes.`,
+      };
     }
 
-    // Fallback: search without colon
-    if (ruleStartLine === -1) {
-      const namePattern = new RegExp(`^\\s*(?:fragment\\s+)?${ruleName}\\s*$`);
-      for (let i = 0; i < lines.length; i++) {
-        if (namePattern.test(lines[i])) {
-          ruleStartLine = i;
-          break;
-        }
-      }
-    }
+    const commentOnly = this.commentOnlyLines(grammarContent, analysis.ast?.comments || []);
 
-    if (ruleStartLine === -1) {
+    // Rules move together with the comments directly above them
+    const block = this.ruleBlockSpan(grammarContent, rule.ast!.span, commentOnly);
+    const target = this.ruleBlockSpan(grammarContent, anchor.ast!.span, commentOnly);
+    const gap = (from: number, to: number) => from <= to && !grammarContent.slice(from, to).trim();
+
+    // Check if rule is already in target position
+    if (position === 'before' && gap(block.end, target.start)) {
       return {
-        success: false,
+        success: true,
         modified: grammarContent,
-        message: `Could not locate rule '${ruleName}' in grammar content.`,
+        message: `Rule '${ruleName}' is already immediately before '${anchorRule}'.`,
       };
     }
 
-    // Find rule end line (marked by ;)
-    let ruleEndLine = ruleStartLine;
-    for (let i = ruleStartLine; i < lines.length; i++) {
-      if (lines[i].includes(';')) {
-        ruleEndLine = i;
-        break;
-      }
+    if (position === 'after' && gap(target.end, block.start)) {
+      return {
+        success: true,
+        modified: grammarContent,
+        message: `Rule '${ruleName}' is already immediately after '${anchorRule}'.`,
+      };
     }
 
-    // Include trailing blank line if present
-    let includeBlankLine = false;
-    if (ruleEndLine + 1 < lines.length && lines[ruleEndLine + 1].trim() === '') {
-      includeBlankLine = true;
-    }
+    // A rule on lines of its own takes the blank line after it along
+    let cutEnd = block.cutEnd;
+    const blank =
+      block.startsLine && block.endsLine ? /^[ \t]*\n/.exec(grammarContent.slice(cutEnd)) : null;
+    if (blank) cutEnd += blank[0].length;
+    const text = grammarContent.slice(block.start, block.end);
+    const lineText = `${text}\n${blank ? '\n' : ''}`;
 
-    // Find anchor start line
-    let anchorStartLine = -1;
-    const anchorPattern = new RegExp(`^\\s*(?:fragment\\s+)?${anchorRule}\\s*[:\\n]`);
-    for (let i = 0; i < lines.length; i++) {
-      if (anchorPattern.test(lines[i])) {
-        anchorStartLine = i;
-        break;
-      }
+    // Insert on lines of its own; an anchor sharing its line gets a line break
+    let insert: { start: number; end: number; text: string };
+    if (position === 'before') {
+      let start = target.start;
+      while (!target.startsLine && /[ \t]/.test(grammarContent[start - 1])) start--;
+      insert = target.startsLine
+        ? { start, end: start, text: lineText }
+        : { start, end: target.start, text: `\n${text}\n` };
+    } else if (target.endsLine) {
+      let start = Math.min(target.end + 1, grammarContent.length);
+      // Skip blank line after anchor if present
+      const blankAfter = /^[ \t]*\n/.exec(grammarContent.slice(start));
+      if (blankAfter) start += blankAfter[0].length;
+      insert = {
+        start,
+        end: start,
+        text: target.end === grammarContent.length ? `\n${text}` : lineText,
+      };
+    } else {
+      let end = target.end;
+      while (/[ \t]/.test(grammarContent[end] || '')) end++;
+      insert = { start: target.end, end, text: `\n${text}\n` };
     }
 
-    // Fallback: search without colon
-    if (anchorStartLine === -1) {
-      const anchorNamePattern = new RegExp(`^\\s*(?:fragment\\s+)?${anchorRule}\\s*$`);
-      for (let i = 0; i < lines.length; i++) {
-        if (anchorNamePattern.test(lines[i])) {
-          anchorStartLine = i;
-          break;
-        }
-      }
-    }
+    const modified = this.applyTextEdits(grammarContent, [
+      { start: block.cutStart, end: cutEnd, text: '' },
+      insert,
+    ]);
 
-    if (anchorStartLine === -1) {
+    const dropped = this.droppedActions(grammarContent, modified);
+    if (dropped.length > 0) {
       return {
         success: false,
         modified: grammarContent,
-        message: `Could not locate anchor rule '${anchorRule}' in grammar content.`,
+        message: `Moving '${ruleName}' would lose ${dropped.length} action(s) (first at line ${dropped[0].lineNumber}); grammar left unchanged.`,
       };
     }
 
-    // Check if rule is already in target position
-    // const targetLine = position === 'before' ? anchorStartLine : anchorStartLine + 1;
-    if (position === 'before' && ruleEndLine + 1 === anchorStartLine) {
-      return {
-        success: true,
-        modified: grammarContent,
-        message: `Rule '${ruleName}' is already immediately before '${anchorRule}'.`,
-      };
+    return {
+      success: true,
+      modified,
+      message: `Moved rule '${ruleName}' to ${position} '${anchorRule}'.`,
+    };
+  }
+
+  /**
+   * Source range of a rule: with the comment lines directly above it when the
+   * rule starts its own line, and with its trailing comments (a line comment,
+   * or block comments closed on that line) when it ends its line.
+   * `cutStart`/`cutEnd` widen the range by the whitespace that goes with it:
+   * the line break for a rule on lines of its own, else the spaces that
+   * separate it from the code sharing its line. Lines are 0-based.
+   */
+  private static ruleBlockSpan(
+    content: string,
+    span: SourceSpan,
+    commentOnly: boolean[]
+  ): {
+    start: number;
+    end: number;
+    cutStart: number;
+    cutEnd: number;
+    startLine: number;
+    endLine: number;
+    startsLine: boolean;
+    endsLine: boolean;
+  } {
+    const lineStart = (offset: number) => content.lastIndexOf('\n', offset - 1) + 1;
+    const lineEnd = (offset: number) => {
+      const newline = content.indexOf('\n', offset);
+      return newline === -1 ? content.length : newline;
+    };
+
+    let { offset: start } = span.start;
+    let { offset: end } = span.end;
+    let startLine = span.start.line - 1;
+    const endLine = span.end.line - 1;
+    const startsLine = content.slice(lineStart(start), start).trim() === '';
+    const rest = content.slice(end, lineEnd(end)).trim();
+    const endsLine = /^(?:\/\*.*?\*\/\s*)*(?:\/\/.*)?$/.test(rest);
+
+    if (startsLine) {
+      start = lineStart(start);
+      while (startLine > 0 && commentOnly[startLine - 1]) {
+        startLine--;
+        start = lineStart(start - 1);
+      }
+    }
+    if (endsLine) end = lineEnd(end);
+
+    let cutStart = start;
+    let cutEnd = end;
+    if (startsLine && endsLine) {
+      cutEnd = Math.min(end + 1, content.length);
+    } else if (endsLine) {
+      while (cutStart > 0 && /[ \t]/.test(content[cutStart - 1])) cutStart--;
+    } else {
+      while (/[ \t]/.test(content[cutEnd] || '')) cutEnd++;
     }
+    return { start, end, cutStart, cutEnd, startLine, endLine, startsLine, endsLine };
+  }
 
-    if (position === 'after') {
-      // Find anchor end line
-      let anchorEndLine = anchorStartLine;
-      for (let i = anchorStartLine; i < lines.length; i++) {
-        if (lines[i].includes(';')) {
-          anchorEndLine = i;
-          break;
-        }
-      }
+  // ============================================================================
+  // Project Configuration and Suppressions
+  // ============================================================================
 
-      // Check if already in position
-      if (anchorEndLine + 1 === ruleStartLine || anchorEndLine + 2 === ruleStartLine) {
-        return {
-          success: true,
-          modified: grammarContent,
-          message: `Rule '${ruleName}' is already immediately after '${anchorRule}'.`,
-        };
-      }
+  /**
+   * Load the `.antlr4-mcp.json` closest to a grammar file, looking in the
+   * grammar's directory first and then in each parent directory
+   */
+  static loadProjectConfig(grammarPath: string): ProjectConfig {
+    let dir = path.dirname(path.resolve(grammarPath));
+    while (!fs.existsSync(path.join(dir, PROJECT_CONFIG_FILE))) {
+      const parent = path.dirname(dir);
+      if (parent === dir) return { checks: {} };
+      dir = parent;
     }
 
-    // Extract rule text
-    const ruleLines = lines.slice(ruleStartLine, ruleEndLine + 1);
-    if (includeBlankLine) {
-      ruleLines.push('');
+    const configPath = path.join(dir, PROJECT_CONFIG_FILE);
+    try {
+      return this.parseProjectConfig(fs.readFileSync(configPath, 'utf-8'), configPath);
+    } catch (error) {
+      return {
+        path: configPath,
+        checks: {},
+        error: `Cannot read ${configPath}: ${(error as Error).message}`,
+      };
     }
+  }
 
-    // Remove rule from current position
-    const removeCount = includeBlankLine
-      ? ruleEndLine - ruleStartLine + 2
-      : ruleEndLine - ruleStartLine + 1;
-    lines.splice(ruleStartLine, removeCount);
+  /**
+   * Parse project config JSON. A check maps to a severity, 'off', a boolean,
+   * or an object with `severity` and numeric thresholds. Invalid files yield
+   * no settings and an `error`.
+   */
+  static parseProjectConfig(content: string, configPath?: string): ProjectConfig {
+    const source = configPath || PROJECT_CONFIG_FILE;
+    const invalid = (reason: string): ProjectConfig => ({
+      ...(configPath && { path: configPath }),
+      checks: {},
+      error: `Ignoring ${source}: ${reason}`,
+    });
+    const isObject = (value: unknown): value is Record<string, unknown> =>
+      typeof value === 'object' && value !== null && !Array.isArray(value);
+    const severities = ['error', 'warning', 'info', 'off'];
 
-    // Adjust anchor position if it's after the removed rule
-    let adjustedAnchorLine = anchorStartLine;
-    if (anchorStartLine > ruleStartLine) {
-      adjustedAnchorLine -= removeCount;
+    let json: unknown;
+    try {
+      json = JSON.parse(content);
+    } catch (error) {
+      return invalid(`invalid JSON (${(error as Error).message})`);
     }
+    if (!isObject(json)) return invalid('expected a JSON object');
+    const entries = json.checks ?? {};
+    if (!isObject(entries)) return invalid('"checks" must be an object');
 
-    // Find insertion point
-    let insertLine: number;
-    if (position === 'before') {
-      insertLine = adjustedAnchorLine;
-    } else {
-      // Find end of anchor rule
-      let anchorEnd = adjustedAnchorLine;
-      for (let i = adjustedAnchorLine; i < lines.length; i++) {
-        if (lines[i].includes(';')) {
-          anchorEnd = i;
-          break;
+    const checks: Record<string, CheckSetting> = {};
+    for (const [check, value] of Object.entries(entries)) {
+      if (typeof value === 'boolean') {
+        checks[check] = value ? {} : { severity: 'off' };
+        continue;
+      }
+      const setting = typeof value === 'string' ? { severity: value } : value;
+      if (!isObject(setting)) {
+        return invalid(`check "${check}" must be a severity, a boolean or an object`);
+      }
+      for (const [key, option] of Object.entries(setting)) {
+        if (key === 'severity') {
+          if (typeof option !== 'string' || !severities.includes(option)) {
+            return invalid(
+              `check "${check}" has severity ${JSON.stringify(option)}; use ${severities.join(', ')}`
+            );
+          }
+        } else if (typeof option !== 'number') {
+          return invalid(`threshold "${key}" of check "${check}" must be a number`);
         }
       }
-      insertLine = anchorEnd + 1;
+      checks[check] = setting as CheckSetting;
+    }
 
-      // Skip blank line after anchor if present
-      if (insertLine < lines.length && lines[insertLine].trim() === '') {
-        insertLine++;
+    return { ...(configPath && { path: configPath }), checks };
+  }
+
+  /**
+   * Drop findings that the project config turns off or an inline comment
+   * suppresses, and apply configured severities. Suppression comments:
+   *
+   *   // antlr4-mcp-disable-next-line check-a, check-b
+   *   // antlr4-mcp-disable-line check-a
+   *   // antlr4-mcp-disable check-a   ...   // antlr4-mcp-enable check-a
+   *
+   * Without check ids every check is silenced; text after `--` is a comment.
+   * Findings without a line number are only controlled by the config.
+   */
+  static applyCheckPolicy<T>(
+    findings: T[],
+    grammarContent: string,
+    config: ProjectConfig | undefined,
+    locate: (finding: T) => { check: string; lineNumber?: number },
+    withSeverity?: (finding: T, severity: CheckSeverity) => T
+  ): T[] {
+    const suppressions = grammarContent.includes('antlr4-mcp-')
+      ? this.findSuppressions(grammarContent)
+      : [];
+    const result: T[] = [];
+
+    for (const finding of findings) {
+      const { check, lineNumber } = locate(finding);
+      const severity = config?.checks[check]?.severity;
+      if (severity === 'off') continue;
+      if (
+        lineNumber !== undefined &&
+        suppressions.some(
+          (s) =>
+            lineNumber >= s.fromLine &&
+            lineNumber <= s.toLine &&
+            (s.checks.length === 0 || s.checks.includes(check))
+        )
+      ) {
+        continue;
       }
+      result.push(severity && withSeverity ? withSeverity(finding, severity) : finding);
     }
 
-    // Insert rule at new position
-    lines.splice(insertLine, 0, ...ruleLines);
+    return result;
+  }
 
-    const modified = lines.join('\n');
+  /**
+   * Apply project config and suppression comments to validation issues. Issues
+   * with an ANTLR error code use the check id `antlr-<code>`.
+   */
+  static applyIssuePolicy(
+    issues: GrammarIssue[],
+    grammarContent: string,
+    config?: ProjectConfig
+  ): GrammarIssue[] {
+    return this.applyCheckPolicy(
+      issues,
+      grammarContent,
+      config,
+      (issue) => ({ check: this.issueCheck(issue), lineNumber: issue.lineNumber }),
+      (issue, type) => ({ ...issue, type })
+    );
+  }
 
-    return {
-      success: true,
-      modified,
-      message: `Moved rule '${ruleName}' to ${position} '${anchorRule}'.`,
-    };
+  /**
+   * Check id of a validation issue
+   */
+  static issueCheck(issue: GrammarIssue): string {
+    if (issue.check) return issue.check;
+    return issue.code !== undefined ? `antlr-${issue.code}` : 'validation';
+  }
+
+  /**
+   * Numeric threshold for a check, falling back to the built-in default
+   */
+  private static checkThreshold(
+    config: ProjectConfig | undefined,
+    check: string,
+    name: string,
+    fallback: number
+  ): number {
+    const value = config?.checks[check]?.[name];
+    return typeof value === 'number' ? value : fallback;
+  }
+
+  /**
+   * Collect the line ranges silenced by `antlr4-mcp-disable...` comments
+   */
+  private static findSuppressions(grammarContent: string): Suppression[] {
+    const comments = parseGrammar(grammarContent).comments;
+    const lines = grammarContent.split('\n');
+    const commentOnly = this.commentOnlyLines(grammarContent, comments);
+    const suppressions: Suppression[] = [];
+    const open: Array<{ fromLine: number; checks: string[] }> = [];
+
+    for (const comment of comments) {
+      const directive = comment.text.match(
+        /^(?:\/\/|\/\*+)\s*antlr4-mcp-(disable-next-line|disable-line|disable|enable)\b(.*)/s
+      );
+      if (!directive) continue;
+      const checks = directive[2]
+        .replace(/\*\/$/, '')
+        .split('--')[0]
+        .split(/[\s,]+/)
+        .filter((check) => check !== '');
+      const { start, end } = comment.span;
+
+      switch (directive[1]) {
+        case 'disable-next-line': {
+          // The next line with grammar text, so stacked comments still work
+          let next = end.line + 1;
+          while (next <= lines.length && (lines[next - 1].trim() === '' || commentOnly[next - 1])) {
+            next++;
+          }
+          suppressions.push({ fromLine: next, toLine: next, checks });
+          break;
+        }
+        case 'disable-line':
+          suppressions.push({ fromLine: start.line, toLine: end.line, checks });
+          break;
+        case 'disable':
+          open.push({ fromLine: start.line, checks });
+          break;
+        case 'enable':
+          // Close ranges naming one of the checks (all ranges when none are given)
+          for (let i = open.length - 1; i >= 0; i--) {
+            const range = open[i];
+            const ended =
+              checks.length === 0 ? range.checks : range.checks.filter((c) => checks.includes(c));
+            if (checks.length > 0 && ended.length === 0) continue;
+            open.splice(i, 1);
+            suppressions.push({ fromLine: range.fromLine, toLine: start.line, checks: ended });
+            const rest = range.checks.filter((c) => !ended.includes(c));
+            if (rest.length > 0) open.push({ fromLine: range.fromLine, checks: rest });
+          }
+          break;
+      }
+    }
+    for (const range of open) {
+      suppressions.push({ ...range, toLine: lines.length });
+    }
+
+    return suppressions;
   }
 
   // ============================================================================
@@ -6868,7 +11622,8 @@ export class AntlrAnalyzer {
   static resolveImportPath(
     importName: string,
     currentFile: string,
-    basePath?: string
+    basePath?: string,
+    libDirs: string[] = []
   ): string | null {
     const currentDir = path.dirname(currentFile);
 
@@ -6876,6 +11631,8 @@ export class AntlrAnalyzer {
     const tryPaths = [
       // Same directory as current file
       path.join(currentDir, `${importName}.g4`),
+      // Library directories, like ANTLR's -lib
+      ...libDirs.map((dir) => path.join(dir, `${importName}.g4`)),
       // Base path if provided
       ...(basePath ? [path.join(basePath, `${importName}.g4`)] : []),
       // Common subdirectories
@@ -6887,27 +11644,96 @@ export class AntlrAnalyzer {
         : []),
     ];
 
-    for (const tryPath of tryPaths) {
-      try {
-        if (fs.existsSync(tryPath)) {
-          return tryPath;
-        }
-      } catch {
-        // Continue to next path
+    for (const tryPath of tryPaths) {
+      try {
+        if (fs.existsSync(tryPath)) {
+          return tryPath;
+        }
+      } catch {
+        // Continue to next path
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Resolve a tokenVocab to a lexer grammar or a generated .tokens file.
+   * Each directory is searched for X.g4 before X.tokens.
+   */
+  static resolveTokenVocab(
+    vocabName: string,
+    currentFile: string,
+    basePath?: string,
+    libDirs: string[] = []
+  ): string | null {
+    const dirs = [path.dirname(currentFile), ...libDirs, ...(basePath ? [basePath] : [])];
+    for (const dir of dirs) {
+      for (const extension of ['.g4', '.tokens']) {
+        const tryPath = path.join(dir, `${vocabName}${extension}`);
+        if (fs.existsSync(tryPath)) {
+          return tryPath;
+        }
+      }
+    }
+
+    return this.resolveImportPath(vocabName, currentFile, basePath, libDirs);
+  }
+
+  /**
+   * Parse a generated .tokens file (`NAME=1` and `'literal'=1` lines)
+   */
+  static parseTokensFile(content: string): { tokens: string[]; literals: string[] } {
+    const tokens: string[] = [];
+    const literals: string[] = [];
+
+    for (const line of content.split(/\r?\n/)) {
+      const match = line.trim().match(/^(.+)=(\d+)$/);
+      if (!match) continue;
+      if (match[1].startsWith("'")) {
+        literals.push(match[1]);
+      } else if (/^[A-Z][A-Za-z0-9_]*$/.test(match[1])) {
+        tokens.push(match[1]);
+      }
+    }
+
+    return { tokens, literals };
+  }
+
+  /**
+   * Token names and literal aliases a lexer grammar analysis provides
+   */
+  private static vocabularyOf(analysis: GrammarAnalysis): { tokens: string[]; literals: string[] } {
+    const tokens: string[] = [];
+    const literals: string[] = [];
+
+    for (const token of analysis.tokens) {
+      const rule = analysis.rules.find((r) => r.name === token.name && r.type === 'lexer');
+      if (rule?.ast?.fragment) continue;
+      tokens.push(token.name);
+
+      // `WHILE : 'while' ;` makes 'while' usable in the parser
+      const alternatives = rule?.ast?.alternatives || [];
+      const elements = alternatives.length === 1 ? alternatives[0].elements : [];
+      if (elements.length === 1 && elements[0].kind === 'literal') {
+        literals.push(elements[0].value);
       }
     }
 
-    return null;
+    return { tokens, literals };
   }
 
   /**
-   * Load grammar with all imports resolved
+   * Load grammar with all imports resolved. `contents` holds grammar text to
+   * use instead of the file on disk, keyed by resolved path.
    */
   static loadGrammarWithImports(
     filePath: string,
     basePath?: string,
     cache: Map<string, GrammarAnalysis> = new Map(),
-    visited: Set<string> = new Set()
+    visited: Set<string> = new Set(),
+    libDirs: string[] = [],
+    contents: Map<string, string> = new Map()
   ): GrammarAnalysis {
     // Normalize path
     const normalizedPath = path.resolve(filePath);
@@ -6925,6 +11751,8 @@ export class AntlrAnalyzer {
         type: 'combined',
         rules: [],
         tokens: [],
+        channels: [],
+        actions: [],
         imports: [],
         options: {},
         issues: [
@@ -6942,13 +11770,15 @@ export class AntlrAnalyzer {
     // Read file
     let grammarContent: string;
     try {
-      grammarContent = fs.readFileSync(normalizedPath, 'utf-8');
+      grammarContent = contents.get(normalizedPath) ?? fs.readFileSync(normalizedPath, 'utf-8');
     } catch (error: any) {
       return {
         grammarName: path.basename(normalizedPath, '.g4'),
         type: 'combined',
         rules: [],
         tokens: [],
+        channels: [],
+        actions: [],
         imports: [],
         options: {},
         issues: [
@@ -6970,47 +11800,78 @@ export class AntlrAnalyzer {
     // Load imported grammars
     const importedAnalyses: GrammarAnalysis[] = [];
     for (const importName of importNames) {
-      const importPath = this.resolveImportPath(importName, normalizedPath, basePath);
+      const importPath = this.resolveImportPath(importName, normalizedPath, basePath, libDirs);
 
       if (importPath) {
         const importedAnalysis = this.loadGrammarWithImports(
           importPath,
           basePath,
           cache,
-          new Set(visited) // Copy visited set for each import
+          new Set(visited), // Copy visited set for each import
+          libDirs,
+          contents
         );
         importedAnalyses.push(importedAnalysis);
       } else {
         mainAnalysis.issues.push({
           type: 'warning',
           message: `Cannot resolve import: ${importName}`,
+          code: 110,
         });
       }
     }
 
     // Parse tokenVocab option
     const tokenVocab = this.parseTokenVocab(grammarContent);
+    let vocabulary: TokenVocabulary | undefined;
     if (tokenVocab) {
-      const vocabPath = this.resolveImportPath(tokenVocab, normalizedPath, basePath);
-
-      if (vocabPath) {
+      const vocabPath = this.resolveTokenVocab(tokenVocab, normalizedPath, basePath, libDirs);
+
+      if (vocabPath?.endsWith('.tokens')) {
+        try {
+          vocabulary = {
+            name: tokenVocab,
+            path: vocabPath,
+            source: 'tokens',
+            ...this.parseTokensFile(fs.readFileSync(vocabPath, 'utf-8')),
+          };
+        } catch (error: any) {
+          mainAnalysis.issues.push({
+            type: 'warning',
+            message: `Cannot resolve tokenVocab: ${tokenVocab} (${error.message})`,
+            code: 114,
+          });
+        }
+      } else if (vocabPath) {
         const vocabAnalysis = this.loadGrammarWithImports(
           vocabPath,
           basePath,
           cache,
-          new Set(visited)
+          new Set(visited),
+          libDirs,
+          contents
         );
         importedAnalyses.push(vocabAnalysis);
+        vocabulary = {
+          name: tokenVocab,
+          path: vocabPath,
+          source: 'grammar',
+          ...this.vocabularyOf(vocabAnalysis),
+        };
       } else {
         mainAnalysis.issues.push({
           type: 'warning',
           message: `Cannot resolve tokenVocab: ${tokenVocab}`,
+          code: 114,
         });
       }
     }
 
     // Merge analyses
     const mergedAnalysis = this.mergeAnalyses(mainAnalysis, importedAnalyses);
+    if (vocabulary) {
+      mergedAnalysis.tokenVocab = vocabulary;
+    }
 
     // Re-run validation on merged result to properly check rule references
     // This fixes the issue where validation ran before imports were merged
@@ -7038,6 +11899,8 @@ export class AntlrAnalyzer {
   ): GrammarAnalysis {
     const mergedRules: GrammarRule[] = [...mainAnalysis.rules];
     const mergedTokens: GrammarToken[] = [...mainAnalysis.tokens];
+    const mergedChannels: GrammarChannel[] = [...mainAnalysis.channels];
+    const mergedActions: GrammarAction[] = [...mainAnalysis.actions];
     const mergedIssues: GrammarIssue[] = [...mainAnalysis.issues];
     const allImports: string[] = [...mainAnalysis.imports];
 
@@ -7062,6 +11925,16 @@ export class AntlrAnalyzer {
         }
       }
 
+      // Add channels not already present
+      for (const channel of imported.channels) {
+        if (!mergedChannels.find((c) => c.name === channel.name)) {
+          mergedChannels.push(channel);
+        }
+      }
+
+      // Imported named actions and rule code end up in the generated recognizer too
+      mergedActions.push(...imported.actions);
+
       // Merge imports
       allImports.push(...imported.imports.filter((i) => !allImports.includes(i)));
 
@@ -7078,11 +11951,906 @@ export class AntlrAnalyzer {
       ...mainAnalysis,
       rules: mergedRules,
       tokens: mergedTokens,
+      channels: mergedChannels,
+      actions: mergedActions,
       imports: allImports,
       issues: mergedIssues,
     };
   }
 
+  /**
+   * Copy all transitively imported grammars into the main grammar, giving one
+   * standalone grammar. Follows ANTLR: imports are visited depth-first in
+   * declaration order, each file once; a rule defined by the importing grammar
+   * or by an earlier import wins and the imported definition is dropped.
+   * Imported rules go after the main grammar's rules of the same kind and mode,
+   * tokens {} and channels {} are merged, and a named action defined more than
+   * once is concatenated. Options of imported grammars are ignored.
+   */
+  static flattenImports(
+    filePath: string,
+    options?: { basePath?: string; libDirs?: string[] }
+  ): {
+    success: boolean;
+    content: string;
+    message: string;
+    imports: Array<{ grammar: string; filePath: string; rules: string[] }>;
+    dropped: Array<{ rule: string; grammar: string; keptFrom: string }>;
+    mergedActions: string[];
+  } {
+    const fail = (message: string, content = '') => ({
+      success: false,
+      content,
+      message,
+      imports: [],
+      dropped: [],
+      mergedActions: [],
+    });
+
+    const mainPath = path.resolve(filePath);
+    let content: string;
+    try {
+      content = fs.readFileSync(mainPath, 'utf-8');
+    } catch (error: any) {
+      return fail(`Cannot read ${filePath}: ${error.message}`);
+    }
+    const root = parseGrammar(content);
+    if (root.imports.length === 0) {
+      return { ...fail(`'${root.name}' has no imports.`, content), success: true };
+    }
+
+    const collected = this.collectImports(root, mainPath, options);
+    if ('error' in collected) {
+      return fail(collected.error);
+    }
+    const grammars = collected.grammars;
+
+    // Imported rules grouped by kind and mode, in import order
+    const definedBy = new Map(root.rules.map((rule) => [rule.name, root.name]));
+    const groups = new Map<string, string[]>();
+    const imports: Array<{ grammar: string; filePath: string; rules: string[] }> = [];
+    const dropped: Array<{ rule: string; grammar: string; keptFrom: string }> = [];
+    for (const grammar of grammars) {
+      const lines = grammar.content.split('\n');
+      const texts = new Map<string, { text: string; endLine: number }>();
+      const added: string[] = [];
+      for (const rule of grammar.ast.rules) {
+        const keptFrom = definedBy.get(rule.name);
+        if (keptFrom) {
+          dropped.push({ rule: rule.name, grammar: grammar.ast.name, keptFrom });
+          continue;
+        }
+        definedBy.set(rule.name, grammar.ast.name);
+        added.push(rule.name);
+
+        // The rule with the comment lines in front of it and a comment after it
+        const startLine = this.commentedStartLine(lines, grammar.ast, rule.span.start.line);
+        const start =
+          startLine < rule.span.start.line
+            ? lines.slice(0, startLine - 1).join('\n').length + (startLine > 1 ? 1 : 0)
+            : rule.span.start.offset;
+        let end = rule.span.end.offset;
+        const trailing = /^[ \t]*(\/\/[^\r\n]*)?(?=\r?\n|$)/.exec(grammar.content.slice(end));
+        if (trailing) end += trailing[0].length;
+        const text = grammar.content.slice(start, end);
+
+        const key = `${rule.type}:${rule.mode}`;
+        const previous = texts.get(key);
+        const separator = previous && startLine > previous.endLine + 1 ? '\n\n' : '\n';
+        texts.set(key, {
+          text: previous ? `${previous.text}${separator}${text}` : text,
+          endLine: rule.span.end.line,
+        });
+      }
+      for (const [key, { text }] of texts) {
+        const group = groups.get(key) || [];
+        group.push(`// From ${path.basename(grammar.filePath)}\n${text}`);
+        groups.set(key, group);
+      }
+      imports.push({ grammar: grammar.ast.name, filePath: grammar.filePath, rules: added });
+    }
+
+    const edits: Array<{ start: number; end: number; text: string }> = [];
+    const lines = content.split('\n');
+    const lineStart = (line: number) =>
+      lines.slice(0, line - 1).reduce((offset, text) => offset + text.length + 1, 0);
+    const lineEnd = (line: number) => lineStart(line) + lines[line - 1].length;
+
+    // Rule groups after the main grammar's rules of the same kind and mode
+    const after = new Map<number, string[]>();
+    const before = new Map<number, string[]>();
+    const atEnd: string[] = [];
+    const newModes = new Map<string, string[]>();
+    for (const [key, group] of groups) {
+      const [type, mode] = key.split(':');
+      const same = root.rules.filter((r) => r.type === type && r.mode === mode);
+      const modeNode = root.modes.find((m) => m.name === mode);
+      const firstLexerRule = root.rules.find(
+        (r) => r.type === 'lexer' && r.mode === 'DEFAULT_MODE'
+      );
+      let target: { map: Map<number, string[]>; line: number } | string[];
+      if (same.length > 0) {
+        target = { map: after, line: same[same.length - 1].span.end.line };
+      } else if (modeNode) {
+        target = { map: after, line: modeNode.span.end.line };
+      } else if (mode !== 'DEFAULT_MODE') {
+        target = newModes.get(mode) || [];
+        newModes.set(mode, target);
+      } else if (type === 'parser' && firstLexerRule) {
+        target = {
+          map: before,
+          line: this.commentedStartLine(lines, root, firstLexerRule.span.start.line),
+        };
+      } else if (root.modes.length > 0) {
+        target = {
+          map: before,
+          line: this.commentedStartLine(lines, root, root.modes[0].span.start.line),
+        };
+      } else {
+        target = atEnd;
+      }
+
+      if (Array.isArray(target)) {
+        target.push(...group);
+      } else {
+        target.map.set(target.line, [...(target.map.get(target.line) || []), ...group]);
+      }
+    }
+    for (const [line, parts] of after) {
+      const nextLine = lines[line];
+      const spacing = nextLine !== undefined && nextLine.trim() !== '' ? '\n' : '';
+      edits.push({
+        start: lineEnd(line),
+        end: lineEnd(line),
+        text: `\n\n${parts.join('\n\n')}${spacing}`,
+      });
+    }
+    for (const [line, parts] of before) {
+      edits.push({
+        start: lineStart(line),
+        end: lineStart(line),
+        text: `${parts.join('\n\n')}\n\n`,
+      });
+    }
+    const endParts = [
+      ...atEnd,
+      ...Array.from(newModes, ([mode, parts]) => `mode ${mode};\n\n${parts.join('\n\n')}`),
+    ];
+    if (endParts.length > 0) {
+      edits.push({
+        start: content.length,
+        end: content.length,
+        text: `${content.endsWith('\n') ? '\n' : '\n\n'}${endParts.join('\n\n')}\n`,
+      });
+    }
+
+    // Named actions: new ones after the main grammar's actions, repeated ones concatenated
+    const defaultScope = (ast: GrammarAst) => (ast.type === 'lexer' ? 'lexer' : 'parser');
+    const actions = new Map<string, { node?: NamedActionNode; codes: string[] }>();
+    for (const action of root.namedActions) {
+      actions.set(`${action.scope || defaultScope(root)}::${action.name}`, {
+        node: action,
+        codes: [action.code],
+      });
+    }
+    const mergedActions: string[] = [];
+    for (const grammar of grammars) {
+      for (const action of grammar.ast.namedActions) {
+        const key = `${action.scope || defaultScope(grammar.ast)}::${action.name}`;
+        const existing = actions.get(key);
+        if (existing) {
+          existing.codes.push(action.code);
+          if (!mergedActions.includes(key)) mergedActions.push(key);
+        } else {
+          actions.set(key, { codes: [action.code] });
+        }
+      }
+    }
+    const newActions: string[] = [];
+    for (const [key, { node, codes }] of actions) {
+      // ANTLR joins the bodies with a newline
+      const code = codes.map((c, i) => (i < codes.length - 1 ? c.trimEnd() : c)).join('\n');
+      if (!node) {
+        const [scope, name] = key.split('::');
+        newActions.push(`@${scope === defaultScope(root) ? '' : `${scope}::`}${name} {${code}}`);
+      } else if (codes.length > 1) {
+        const text = sliceSpan(content, node.span);
+        edits.push({
+          start: node.span.start.offset,
+          end: node.span.end.offset,
+          text: `${text.slice(0, text.indexOf('{'))}{${code}}`,
+        });
+      }
+    }
+    if (newActions.length > 0) {
+      const lastAction = root.namedActions[root.namedActions.length - 1];
+      const anchor = lastAction
+        ? lastAction.span
+        : [
+            root.declarationSpan!,
+            ...root.prequel.filter((p) => p.kind !== 'import').map((p) => p.span),
+          ].sort((a, b) => b.end.offset - a.end.offset)[0];
+      const offset = lineEnd(anchor.end.line);
+      edits.push({
+        start: offset,
+        end: offset,
+        text: `${lastAction ? '\n' : '\n\n'}${newActions.join('\n')}`,
+      });
+    }
+
+    // The import statements go away, with their line when they have one of their own
+    for (const node of root.prequel.filter((p) => p.kind === 'import')) {
+      const line = node.span.start.line;
+      if (
+        node.span.end.line === line &&
+        lines[line - 1].trim() === sliceSpan(content, node.span).trim()
+      ) {
+        const blankAround =
+          line > 1 && !lines[line - 2].trim() && lines[line] !== undefined && !lines[line].trim();
+        const end = Math.min(content.length, lineEnd(blankAround ? line + 1 : line) + 1);
+        edits.push({ start: lineStart(line), end, text: '' });
+      } else {
+        edits.push({ start: node.span.start.offset, end: node.span.end.offset, text: '' });
+      }
+    }
+
+    let flattened = this.applyTextEdits(content, edits);
+    for (const block of ['tokens', 'channels'] as const) {
+      const names = grammars.flatMap((grammar) => grammar.ast[block].map((id) => id.name));
+      if (names.length === 0) continue;
+      const added = this.addDeclarations(flattened, block, names);
+      if (!added.success) {
+        return fail(`Cannot merge ${block} {} of the imported grammars: ${added.message}`);
+      }
+      flattened = added.modified;
+    }
+
+    const addedRules = imports.reduce((sum, grammar) => sum + grammar.rules.length, 0);
+    return {
+      success: true,
+      content: flattened,
+      message:
+        `Flattened ${grammars.length} imported grammar(s) into '${root.name}': ` +
+        `${addedRules} rule(s) added, ${dropped.length} overridden rule(s) dropped` +
+        (mergedActions.length > 0 ? `, ${mergedActions.length} named action(s) merged.` : '.'),
+      imports,
+      dropped,
+      mergedActions,
+    };
+  }
+
+  /**
+   * Move rules, with the comments directly above them, to another file of the
+   * import graph of `filePath` (its transitive imports and its tokenVocab
+   * lexer grammar). A file sees the rules, tokens, modes and channels of
+   * itself, its transitive imports and its tokenVocab. The move is refused
+   * when a reference that resolved before no longer does: from a moved rule in
+   * its new file, or from another file to a moved rule. Warnings report moves
+   * that change which definition ANTLR picks for a rule defined more than once,
+   * and moves after which an earlier lexer rule takes strings from a moved one
+   * (or a moved one from another).
+   */
+  static moveRulesToFile(
+    filePath: string,
+    ruleNames: string[],
+    targetFile: string,
+    options?: { insertAfter?: string; insertBefore?: string; basePath?: string; libDirs?: string[] }
+  ): {
+    success: boolean;
+    modifiedFiles: Array<{ filePath: string; content: string; added: string[]; removed: string[] }>;
+    message: string;
+    warnings: string[];
+  } {
+    const fail = (message: string) => ({
+      success: false,
+      modifiedFiles: [],
+      message,
+      warnings: [],
+    });
+    const mainPath = path.resolve(filePath);
+    const targetPath = path.resolve(targetFile);
+    const name = (file: string) => path.basename(file);
+
+    const graph = this.loadImportGraph(mainPath, options);
+    if ('error' in graph) {
+      return fail(graph.error);
+    }
+    const { files, edges, orders } = graph;
+
+    const target = files.get(targetPath);
+    if (!target) {
+      return fail(`${targetFile} is not part of the import graph of ${name(mainPath)}.`);
+    }
+
+    // Each rule moves from the file whose definition ANTLR uses
+    const resolutionOrder = orders.flat();
+    const moves: Array<{ name: string; source: string; rule: RuleNode }> = [];
+    for (const ruleName of new Set(ruleNames)) {
+      const source = resolutionOrder.find((file) =>
+        files.get(file)!.ast.rules.some((r) => r.name === ruleName)
+      );
+      if (!source) {
+        return fail(`Rule '${ruleName}' not found in any grammar file.`);
+      }
+      if (target.ast.rules.some((r) => r.name === ruleName)) {
+        return fail(`${name(targetPath)} already defines rule '${ruleName}'.`);
+      }
+      const rule = files.get(source)!.ast.rules.find((r) => r.name === ruleName)!;
+      if (target.ast.type !== 'combined' && target.ast.type !== rule.type) {
+        return fail(
+          `Cannot move ${rule.type} rule '${ruleName}' into ${target.ast.type} grammar ${target.ast.name}.`
+        );
+      }
+      if (rule.mode !== 'DEFAULT_MODE' && target.ast.type !== 'lexer') {
+        return fail(
+          `Rule '${ruleName}' is in mode ${rule.mode}; only lexer grammars can have modes.`
+        );
+      }
+      moves.push({ name: ruleName, source, rule });
+    }
+
+    // What each file defines and sees, before and after the move
+    const rulesOf = (file: string, after: boolean): RuleNode[] => {
+      const rules = files.get(file)!.ast.rules;
+      if (!after) return rules;
+      return [
+        ...rules.filter((r) => !moves.some((m) => m.source === file && m.name === r.name)),
+        ...(file === targetPath ? moves.map((m) => m.rule) : []),
+      ];
+    };
+    const closure = (file: string, seen: Set<string> = new Set()): Set<string> => {
+      if (!seen.has(file)) {
+        seen.add(file);
+        (edges.get(file) || []).forEach((imported) => closure(imported, seen));
+      }
+      return seen;
+    };
+    const scope = (file: string, after: boolean) => {
+      const names = new Set(['EOF']);
+      const modes = new Set(['DEFAULT_MODE']);
+      const channels = new Set(['HIDDEN', 'DEFAULT_TOKEN_CHANNEL']);
+      const add = (visibleFile: string, tokensOnly: boolean) => {
+        const ast = files.get(visibleFile)!.ast;
+        for (const rule of rulesOf(visibleFile, after)) {
+          if (!tokensOnly || (rule.type === 'lexer' && !rule.fragment)) names.add(rule.name);
+          modes.add(rule.mode);
+        }
+        ast.tokens.forEach((token) => names.add(token.name));
+        ast.modes.forEach((mode) => modes.add(mode.name));
+        ast.channels.forEach((channel) => channels.add(channel.name));
+      };
+      closure(file).forEach((visibleFile) => add(visibleFile, false));
+      const vocabFile = files.get(file)!.vocab;
+      if (vocabFile) closure(vocabFile).forEach((visibleFile) => add(visibleFile, true));
+      return { names, modes, channels };
+    };
+    const referencesOf = (rule: RuleNode) => {
+      const commands = rule.alternatives.flatMap((alt) => alt.commands);
+      const argumentsOf = (...commandNames: string[]) =>
+        commands
+          .filter((c) => commandNames.includes(c.name) && c.argument && !/^\d+$/.test(c.argument))
+          .map((c) => c.argument!);
+      return {
+        names: [...this.collectReferencedRules(rule), ...argumentsOf('type')],
+        modes: argumentsOf('mode', 'pushMode'),
+        channels: argumentsOf('channel'),
+      };
+    };
+
+    const problems: string[] = [];
+    const targetScope = scope(targetPath, true);
+    for (const move of moves) {
+      const sourceScope = scope(move.source, false);
+      const references = referencesOf(move.rule);
+      for (const kind of ['names', 'modes', 'channels'] as const) {
+        for (const reference of references[kind]) {
+          if (sourceScope[kind].has(reference) && !targetScope[kind].has(reference)) {
+            problems.push(`'${move.name}' uses ${reference}, which ${name(targetPath)} cannot see`);
+          }
+        }
+      }
+    }
+    for (const file of files.keys()) {
+      const [before, after] = [scope(file, false), scope(file, true)];
+      for (const rule of rulesOf(file, true).filter((r) => !moves.some((m) => m.rule === r))) {
+        for (const reference of referencesOf(rule).names) {
+          if (
+            moves.some((m) => m.name === reference) &&
+            before.names.has(reference) &&
+            !after.names.has(reference)
+          ) {
+            problems.push(
+              `'${rule.name}' in ${name(file)} uses '${reference}', which it could no longer see`
+            );
+          }
+        }
+      }
+    }
+    if (problems.length > 0) {
+      return fail(`Cannot move: ${Array.from(new Set(problems)).join('; ')}.`);
+    }
+
+    // Import override resolution: the first file in ANTLR's order that defines a rule wins
+    const warnings: string[] = [];
+    for (const order of orders) {
+      for (const move of moves) {
+        const winner = (after: boolean) =>
+          order.find((file) => rulesOf(file, after).some((r) => r.name === move.name));
+        const [before, after] = [winner(false), winner(true)];
+        if (before === after || (before === move.source && after === targetPath)) continue;
+        if (before === move.source) {
+          warnings.push(
+            after
+              ? `${name(order[0])} would use the definition of '${move.name}' in ${name(after)} instead of the moved one`
+              : `'${move.name}' would no longer be part of ${name(order[0])}`
+          );
+        } else if (after === targetPath) {
+          warnings.push(
+            `The moved '${move.name}' would override the definition in ${before ? name(before) : '(none)'} for ${name(order[0])}`
+          );
+        }
+      }
+    }
+
+    // Cut the rule blocks out of their files
+    const edits = new Map<string, Array<{ start: number; end: number; text: string }>>();
+    const editsOf = (file: string) => edits.get(file) || edits.set(file, []).get(file)!;
+    const offsets = (content: string) => {
+      const lines = content.split('\n');
+      const lineStart = (line: number) =>
+        Math.min(
+          content.length,
+          lines.slice(0, line).reduce((offset, text) => offset + text.length + 1, 0)
+        );
+      return { lines, lineStart };
+    };
+    const blocks = new Map<string, string>();
+    for (const move of moves) {
+      const { content, ast } = files.get(move.source)!;
+      const { lines } = offsets(content);
+      const block = this.ruleBlockSpan(
+        content,
+        move.rule.span,
+        this.commentOnlyLines(content, ast.comments)
+      );
+      blocks.set(move.name, content.slice(block.start, block.end));
+
+      // A rule on lines of its own takes one of the blank lines around it along
+      let end = block.cutEnd;
+      const blank = /^[ \t]*\n/.exec(content.slice(end));
+      if (
+        block.startsLine &&
+        block.endsLine &&
+        blank &&
+        (block.startLine === 0 || !lines[block.startLine - 1].trim())
+      ) {
+        end += blank[0].length;
+      }
+      editsOf(move.source).push({ start: block.cutStart, end, text: '' });
+    }
+
+    // ANTLR rejects modes without rules, so drop the modes that were emptied
+    for (const [file, fileEdits] of edits) {
+      const { content, ast } = files.get(file)!;
+      const { lines, lineStart } = offsets(content);
+      for (const mode of ast.modes) {
+        if (rulesOf(file, true).some((r) => r.mode === mode.name)) continue;
+        let line = mode.span.start.line - 1;
+        const end = lineStart(mode.span.end.line);
+        const blank = line > 0 && !lines[line - 1].trim();
+        if (
+          blank &&
+          !fileEdits.some((e) => e.start < lineStart(line) && e.end > lineStart(line - 1))
+        ) {
+          line--;
+        }
+        fileEdits.push({ start: lineStart(line), end, text: '' });
+      }
+    }
+
+    // Insert them into the target, next to the rules of the same kind and mode,
+    // keyed by the offset they go before or after
+    const targetContent = target.content;
+    const targetCommentOnly = this.commentOnlyLines(targetContent, target.ast.comments);
+    const targetBlock = (rule: RuleNode) =>
+      this.ruleBlockSpan(targetContent, rule.span, targetCommentOnly);
+    const lineEnd = (offset: number) => {
+      const newline = targetContent.indexOf('\n', offset);
+      return newline === -1 ? targetContent.length : newline;
+    };
+    const after = new Map<number, string[]>();
+    const before = new Map<number, string[]>();
+    const atEnd: string[] = [];
+    const newModes = new Map<string, string[]>();
+    const place = (map: Map<number, string[]>, offset: number, text: string) =>
+      map.set(offset, [...(map.get(offset) || []), text]);
+
+    const anchorName = options?.insertAfter || options?.insertBefore;
+    const anchor = anchorName ? target.ast.rules.find((r) => r.name === anchorName) : undefined;
+    if (anchorName && !anchor) {
+      return fail(`Anchor rule '${anchorName}' not found in ${name(targetPath)}.`);
+    }
+    for (const move of moves) {
+      const text = blocks.get(move.name)!;
+      if (anchor) {
+        if (anchor.mode !== move.rule.mode) {
+          return fail(
+            `Rule '${move.name}' is in mode '${move.rule.mode}' but '${anchor.name}' is in mode '${anchor.mode}'.`
+          );
+        }
+        const block = targetBlock(anchor);
+        if (options?.insertAfter) place(after, block.end, text);
+        else place(before, block.start, text);
+        continue;
+      }
+
+      const same = target.ast.rules.filter(
+        (r) => r.type === move.rule.type && r.mode === move.rule.mode
+      );
+      const modeNode = target.ast.modes.find((m) => m.name === move.rule.mode);
+      const firstLexerRule = target.ast.rules.find(
+        (r) => r.type === 'lexer' && r.mode === 'DEFAULT_MODE'
+      );
+      if (same.length > 0) {
+        place(after, targetBlock(same[same.length - 1]).end, text);
+      } else if (modeNode) {
+        place(after, lineEnd(modeNode.span.end.offset), text);
+      } else if (move.rule.mode !== 'DEFAULT_MODE') {
+        newModes.set(move.rule.mode, [...(newModes.get(move.rule.mode) || []), text]);
+      } else if (move.rule.type === 'parser' && firstLexerRule) {
+        place(before, targetBlock(firstLexerRule).start, text);
+      } else if (target.ast.modes.length > 0) {
+        const { offset } = target.ast.modes[0].span.start;
+        place(before, targetContent.lastIndexOf('\n', offset - 1) + 1, text);
+      } else {
+        atEnd.push(text);
+      }
+    }
+
+    // Code sharing the line of the insertion point moves to a line of its own
+    const targetEdits = editsOf(targetPath);
+    for (const [offset, texts] of after) {
+      if (offset === targetContent.length || targetContent[offset] === '\n') {
+        const next = targetContent.slice(offset + 1, lineEnd(offset + 1));
+        const spacing = next.trim() ? '\n' : '';
+        targetEdits.push({
+          start: offset,
+          end: offset,
+          text: `\n\n${texts.join('\n\n')}${spacing}`,
+        });
+      } else {
+        let end = offset;
+        while (/[ \t]/.test(targetContent[end] || '')) end++;
+        targetEdits.push({ start: offset, end, text: `\n\n${texts.join('\n\n')}\n\n` });
+      }
+    }
+    for (const [offset, texts] of before) {
+      let start = offset;
+      while (start > 0 && /[ \t]/.test(targetContent[start - 1])) start--;
+      const lineBreak = start > 0 && targetContent[start - 1] !== '\n' ? '\n\n' : '';
+      targetEdits.push({ start, end: offset, text: `${lineBreak}${texts.join('\n\n')}\n\n` });
+    }
+    const endParts = [
+      ...atEnd,
+      ...Array.from(newModes, ([mode, texts]) => `mode ${mode};\n\n${texts.join('\n\n')}`),
+    ];
+    if (endParts.length > 0) {
+      const end = target.content.length;
+      targetEdits.push({
+        start: end,
+        end,
+        text: `${target.content.endsWith('\n') ? '\n' : '\n\n'}${endParts.join('\n\n')}\n`,
+      });
+    }
+
+    const modifiedFiles = Array.from(edits, ([file, fileEdits]) => ({
+      filePath: file,
+      content: this.applyTextEdits(files.get(file)!.content, fileEdits),
+      added: file === targetPath ? moves.map((m) => m.name) : [],
+      removed: moves.filter((m) => m.source === file).map((m) => m.name),
+    }));
+
+    // ANTLR appends imported lexer rules after the importer's own, so moving a
+    // token between files can put a rule that takes its strings in front of it
+    if (moves.some((m) => m.rule.type === 'lexer')) {
+      const moved = new Map(
+        modifiedFiles.map((f) => [f.filePath, { content: f.content, ast: parseGrammar(f.content) }])
+      );
+      const shadowingIn = (order: string[], after: boolean) => {
+        const fileAt = (file: string) => (after && moved.get(file)) || files.get(file)!;
+        const seen = new Set<string>();
+        const modes = new Map<string, string[]>([['DEFAULT_MODE', []]]);
+        for (const file of order) {
+          const { content, ast } = fileAt(file);
+          for (const rule of ast.rules.filter((r) => r.type === 'lexer' && !seen.has(r.name))) {
+            seen.add(rule.name);
+            const texts = modes.get(rule.mode) || modes.set(rule.mode, []).get(rule.mode)!;
+            texts.push(content.slice(rule.span.start.offset, rule.span.end.offset));
+          }
+        }
+        const caseInsensitive = fileAt(order[0]).ast.options.find(
+          (o) => o.name === 'caseInsensitive'
+        );
+        const merged = [
+          'lexer grammar Merged;',
+          ...(caseInsensitive ? [`options { caseInsensitive = ${caseInsensitive.value}; }`] : []),
+          ...Array.from(modes, ([mode, texts]) =>
+            mode === 'DEFAULT_MODE' ? texts : [`mode ${mode};`, ...texts]
+          ).flat(),
+        ].join('\n');
+        const { shadowed } = this.findShadowedLexerRules(this.analyze(merged));
+        return new Map(shadowed.map((entry) => [entry.rule, entry]));
+      };
+      const isMoved = (ruleName: string) => moves.some((m) => m.name === ruleName);
+      for (const order of orders) {
+        const [before, after] = [shadowingIn(order, false), shadowingIn(order, true)];
+        for (const entry of after.values()) {
+          const previous = before.get(entry.rule);
+          if (!isMoved(entry.rule) && !entry.shadowedBy.some((s) => isMoved(s.rule))) continue;
+          if (previous && (previous.neverWins || !entry.neverWins)) continue;
+          const losses = entry.shadowedBy
+            .map((s) => `${JSON.stringify(s.example)} goes to '${s.rule}'`)
+            .join(', ');
+          warnings.push(
+            `In ${name(order[0])}, '${entry.rule}' would ${entry.neverWins ? 'never match' : 'lose strings to an earlier rule'} (${losses}): imported lexer rules come after the importer's own`
+          );
+        }
+      }
+    }
+
+    return {
+      success: true,
+      modifiedFiles,
+      message: `Moved ${moves.map((m) => `'${m.name}'`).join(', ')} to ${name(targetPath)}.`,
+      warnings,
+    };
+  }
+
+  /**
+   * The import graph of a grammar: the grammar and its tokenVocab lexer grammar
+   * (when it is a .g4 file), each with its transitive imports. `orders` lists
+   * each of those roots with its imports in ANTLR's resolution order; `vocab`
+   * marks the grammar whose tokenVocab was followed.
+   */
+  private static loadImportGraph(
+    mainPath: string,
+    options?: { basePath?: string; libDirs?: string[] }
+  ):
+    | {
+        files: Map<string, { content: string; ast: GrammarAst; vocab?: string }>;
+        edges: Map<string, string[]>;
+        orders: string[][];
+      }
+    | { error: string } {
+    const files = new Map<string, { content: string; ast: GrammarAst; vocab?: string }>();
+    const edges = new Map<string, string[]>();
+    const orders: string[][] = [];
+    const addRoot = (rootPath: string): string | undefined => {
+      let content: string;
+      try {
+        content = fs.readFileSync(rootPath, 'utf-8');
+      } catch (error: any) {
+        return `Cannot read ${rootPath}: ${error.message}`;
+      }
+      const ast = parseGrammar(content);
+      const collected = this.collectImports(ast, rootPath, options);
+      if ('error' in collected) return collected.error;
+      files.set(rootPath, { content, ast });
+      collected.grammars.forEach((g) => files.set(g.filePath, { content: g.content, ast: g.ast }));
+      collected.edges.forEach((targets, file) => edges.set(file, targets));
+      orders.push([rootPath, ...collected.grammars.map((g) => g.filePath)]);
+      return undefined;
+    };
+    const mainError = addRoot(mainPath);
+    if (mainError) {
+      return { error: mainError };
+    }
+    const main = files.get(mainPath)!;
+    const vocab = this.parseTokenVocab(main.content);
+    const vocabPath =
+      vocab && this.resolveTokenVocab(vocab, mainPath, options?.basePath, options?.libDirs);
+    if (vocabPath?.endsWith('.g4')) {
+      main.vocab = path.resolve(vocabPath);
+      const vocabError = files.has(main.vocab) ? undefined : addRoot(main.vocab);
+      if (vocabError) {
+        return { error: vocabError };
+      }
+    }
+    return { files, edges, orders };
+  }
+
+  /**
+   * Grammars imported by a grammar, in ANTLR's order: depth-first in
+   * declaration order, each file once. `edges` maps every visited file to the
+   * files it imports. Fails on unresolved imports and on grammar kinds ANTLR
+   * does not allow to be imported into the importer.
+   */
+  private static collectImports(
+    root: GrammarAst,
+    rootPath: string,
+    options?: { basePath?: string; libDirs?: string[] }
+  ):
+    | {
+        grammars: Array<{ filePath: string; content: string; ast: GrammarAst }>;
+        edges: Map<string, string[]>;
+      }
+    | { error: string } {
+    const grammars: Array<{ filePath: string; content: string; ast: GrammarAst }> = [];
+    const edges = new Map<string, string[]>();
+    const visited = new Set([rootPath]);
+    const visit = (importer: GrammarAst, importerPath: string): string | undefined => {
+      const targets: string[] = [];
+      edges.set(importerPath, targets);
+      for (const node of importer.imports) {
+        const resolved = this.resolveImportPath(
+          node.name,
+          importerPath,
+          options?.basePath,
+          options?.libDirs
+        );
+        if (!resolved) {
+          return `Cannot resolve import ${node.name} (imported by ${path.basename(importerPath)}).`;
+        }
+        const importPath = path.resolve(resolved);
+        targets.push(importPath);
+        if (visited.has(importPath)) continue;
+        visited.add(importPath);
+
+        let text: string;
+        try {
+          text = fs.readFileSync(importPath, 'utf-8');
+        } catch (error: any) {
+          return `Cannot read ${importPath}: ${error.message}`;
+        }
+        const ast = parseGrammar(text);
+        const allowed =
+          importer.type === 'combined'
+            ? ast.type === 'parser' || (ast.type === 'lexer' && ast.modes.length === 0)
+            : ast.type === importer.type;
+        if (!allowed) {
+          return `Cannot import ${ast.type} grammar ${ast.name}${ast.modes.length > 0 ? ' (it has modes)' : ''} into ${importer.type} grammar ${importer.name}.`;
+        }
+        grammars.push({ filePath: importPath, content: text, ast });
+        const error = visit(ast, importPath);
+        if (error) return error;
+      }
+      return undefined;
+    };
+    const error = visit(root, rootPath);
+    return error ? { error } : { grammars, edges };
+  }
+
+  /**
+   * Fingerprint current issues as a baseline of known problems
+   */
+  static createIssueBaseline(issues: GrammarIssue[], grammarName?: string): IssueBaseline {
+    const entries = new Map<string, BaselineEntry>();
+    for (const issue of issues) {
+      const entry = this.baselineEntry(issue);
+      const key = JSON.stringify([entry.category, entry.rule, entry.message]);
+      const existing = entries.get(key);
+      if (existing) existing.count++;
+      else entries.set(key, entry);
+    }
+
+    return {
+      version: 1,
+      ...(grammarName && { grammar: grammarName }),
+      issues: Array.from(entries.values()).sort(
+        (a, b) =>
+          a.category.localeCompare(b.category) ||
+          a.rule.localeCompare(b.rule) ||
+          a.message.localeCompare(b.message)
+      ),
+    };
+  }
+
+  /**
+   * Split issues into those already in the baseline and new ones, and list
+   * baseline entries that no longer occur (`count` is how many went away)
+   */
+  static compareWithBaseline(
+    issues: GrammarIssue[],
+    baseline: IssueBaseline
+  ): { newIssues: GrammarIssue[]; knownCount: number; fixed: BaselineEntry[] } {
+    const key = (entry: BaselineEntry) =>
+      JSON.stringify([entry.category, entry.rule, entry.message]);
+    const remaining = new Map(baseline.issues.map((entry) => [key(entry), entry.count]));
+    const newIssues: GrammarIssue[] = [];
+    let knownCount = 0;
+
+    for (const issue of issues) {
+      const fingerprint = key(this.baselineEntry(issue));
+      const left = remaining.get(fingerprint) || 0;
+      if (left > 0) {
+        remaining.set(fingerprint, left - 1);
+        knownCount++;
+      } else {
+        newIssues.push(issue);
+      }
+    }
+
+    const fixed = baseline.issues
+      .filter((entry) => (remaining.get(key(entry)) || 0) > 0)
+      .map((entry) => ({ ...entry, count: remaining.get(key(entry))! }));
+
+    return { newIssues, knownCount, fixed };
+  }
+
+  /**
+   * Read a baseline file, reporting why it cannot be used
+   */
+  static readIssueBaseline(filePath: string): { baseline?: IssueBaseline; error?: string } {
+    if (!fs.existsSync(filePath)) {
+      return { error: `Baseline file not found: ${filePath}` };
+    }
+    const isObject = (value: unknown): value is Record<string, unknown> =>
+      typeof value === 'object' && value !== null && !Array.isArray(value);
+    const isEntry = (entry: unknown): entry is BaselineEntry =>
+      isObject(entry) &&
+      typeof entry.category === 'string' &&
+      typeof entry.rule === 'string' &&
+      typeof entry.message === 'string' &&
+      typeof entry.count === 'number' &&
+      Number.isInteger(entry.count) &&
+      entry.count > 0;
+
+    let json: unknown;
+    try {
+      json = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      return { error: `Cannot read baseline ${filePath}: ${(error as Error).message}` };
+    }
+
+    if (
+      !isObject(json) ||
+      json.version !== 1 ||
+      (json.grammar !== undefined && typeof json.grammar !== 'string') ||
+      !Array.isArray(json.issues) ||
+      !json.issues.every(isEntry)
+    ) {
+      return { error: `${filePath} is not a version 1 issue baseline` };
+    }
+    return {
+      baseline: {
+        version: 1,
+        ...(typeof json.grammar === 'string' && { grammar: json.grammar }),
+        issues: json.issues,
+      },
+    };
+  }
+
+  /**
+   * Write a baseline file as stable, diff-friendly JSON
+   */
+  static writeIssueBaseline(
+    filePath: string,
+    baseline: IssueBaseline
+  ): { success: boolean; message: string } {
+    try {
+      fs.writeFileSync(filePath, JSON.stringify(baseline, null, 2) + '\n', 'utf-8');
+      const total = baseline.issues.reduce((sum, entry) => sum + entry.count, 0);
+      return {
+        success: true,
+        message: `Baseline written to ${filePath}: ${total} issue(s), ${baseline.issues.length} fingerprint(s)`,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Failed to write baseline ${filePath}: ${(error as Error).message}`,
+      };
+    }
+  }
+
+  private static baselineEntry(issue: GrammarIssue): BaselineEntry {
+    return {
+      category: this.issueCheck(issue),
+      rule: issue.ruleName || '',
+      message: issue.message.replace(/\blines? \d+(?:-\d+)?/g, 'line N'),
+      count: 1,
+    };
+  }
+
   /**
    * Smart validation aggregation - groups similar issues for actionable insights
    */
@@ -7103,8 +12871,14 @@ export class AntlrAnalyzer {
     const otherIssues: GrammarIssue[] = [];
 
     for (const issue of issues) {
-      if (issue.message.includes('Reference to undefined rule:')) {
-        const ruleName = issue.message.match(/Reference to undefined rule: (\w+)/)?.[1];
+      if (
+        issue.message.includes('Reference to undefined rule:') ||
+        issue.message.includes('is missing from vocab')
+      ) {
+        const ruleName = issue.message
+          .match(/Reference to undefined rule: (\w+)|Token '(\w+)' is missing from vocab/)
+          ?.slice(1)
+          .find(Boolean);
         if (ruleName) {
           undefinedRefs.set(ruleName, (undefinedRefs.get(ruleName) || 0) + 1);
         }
@@ -0,0 +1,400 @@
+/**
+ * Edit History
+ *
+ * A per-workspace journal of the files the editing tools write. Every write
+ * records the tool, its arguments and each file's content before and after,
+ * so undo and redo can restore either state. The workspace is the nearest
+ * directory with an .antlr4-mcp.json or a .git, else the file's directory;
+ * its journal is .antlr4-mcp-history.json in that directory.
+ *
+ * Undo and redo only touch a file that is still in the state the edit left
+ * it. A file changed since (by hand or by a tool outside the journal) is
+ * refused, or with `merge` gets the edit reverted (or reapplied) on top of its
+ * current content: a 3-way merge with the journaled state as the base, which
+ * places each change by the unchanged lines around it. Changes that overlap
+ * or touch the edited lines are refused.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as Diff from 'diff';
+import { PROJECT_CONFIG_FILE } from './antlrAnalyzer.js';
+
+export const HISTORY_FILE = '.antlr4-mcp-history.json';
+
+/** Entries kept per workspace; the oldest are dropped first */
+const MAX_HISTORY_ENTRIES = 50;
+
+export interface EditedFile {
+  filePath: string;
+  before: string | null; // null: the edit created the file
+  after: string | null; // null: the edit deleted the file
+  beforeHash: string | null;
+  afterHash: string | null;
+}
+
+export interface EditEntry {
+  id: number;
+  timestamp: string; // ISO 8601
+  tool: string;
+  arguments: Record<string, unknown>; // Grammar text arguments are abbreviated
+  files: EditedFile[];
+}
+
+interface EditJournal {
+  version: 1;
+  nextId: number;
+  entries: EditEntry[]; // Oldest first; undo takes the last one
+  undone: EditEntry[]; // Redo takes the last one; cleared by a new edit
+}
+
+/**
+ * The tool call whose writes are being recorded
+ */
+export const editContext = new AsyncLocalStorage<{
+  tool: string;
+  arguments: Record<string, unknown>;
+}>();
+
+/**
+ * Short content hash used to recognize file states
+ */
+export function contentHash(content: string | null): string | null {
+  return content === null ? null : createHash('sha256').update(content).digest('hex').slice(0, 16);
+}
+
+/**
+ * Workspace directory of a file or directory
+ */
+export function findWorkspace(start: string): string {
+  const resolved = path.resolve(start);
+  const first =
+    fs.existsSync(resolved) && fs.statSync(resolved).isDirectory()
+      ? resolved
+      : path.dirname(resolved);
+  for (let dir = first; ; dir = path.dirname(dir)) {
+    if (
+      fs.existsSync(path.join(dir, PROJECT_CONFIG_FILE)) ||
+      fs.existsSync(path.join(dir, '.git'))
+    ) {
+      return dir;
+    }
+    if (path.dirname(dir) === dir) return first;
+  }
+}
+
+function readJournal(workspace: string): EditJournal {
+  const journalPath = path.join(workspace, HISTORY_FILE);
+  if (!fs.existsSync(journalPath)) {
+    return { version: 1, nextId: 1, entries: [], undone: [] };
+  }
+  const json = JSON.parse(fs.readFileSync(journalPath, 'utf-8'));
+  if (json?.version !== 1 || !Array.isArray(json.entries) || !Array.isArray(json.undone)) {
+    throw new Error(`${journalPath} is not a version 1 edit history`);
+  }
+  return json as EditJournal;
+}
+
+function writeJournal(workspace: string, journal: EditJournal): void {
+  fs.writeFileSync(
+    path.join(workspace, HISTORY_FILE),
+    JSON.stringify(journal, null, 2) + '\n',
+    'utf-8'
+  );
+}
+
+/**
+ * Journal a write made by the current tool call. Journal problems are logged
+ * rather than failing the write that already happened.
+ */
+export function recordEdit(
+  files: Array<{ filePath: string; before: string | null; after: string | null }>
+): void {
+  const changed = files.filter((file) => file.before !== file.after);
+  if (changed.length === 0) return;
+
+  const context = editContext.getStore();
+  const args: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(context?.arguments || {})) {
+    args[key] =
+      /_content$/.test(key) && typeof value === 'string' ? `<${value.length} chars>` : value;
+  }
+
+  try {
+    const workspace = findWorkspace(changed[0].filePath);
+    const journal = readJournal(workspace);
+    journal.entries.push({
+      id: journal.nextId++,
+      timestamp: new Date().toISOString(),
+      tool: context?.tool || 'unknown',
+      arguments: args,
+      files: changed.map((file) => ({
+        filePath: path.resolve(file.filePath),
+        before: file.before,
+        after: file.after,
+        beforeHash: contentHash(file.before),
+        afterHash: contentHash(file.after),
+      })),
+    });
+    journal.entries = journal.entries.slice(-MAX_HISTORY_ENTRIES);
+    journal.undone = [];
+    writeJournal(workspace, journal);
+  } catch (error) {
+    console.error(
+      `[ANTLR4-MCP] Edit not journaled: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Write several files so that either all of them or none end up changed:
+ * every file is written to a temporary name first and then renamed into place,
+ * and a null content deletes the file last. Unless `overwrite` is set,
+ * existing files are refused; overwritten files get their original content
+ * back when a later step fails. The write is journaled unless `journal` is
+ * false.
+ */
+export function writeFilesAtomically(
+  files: Array<{ filePath: string; content: string | null }>,
+  options?: { overwrite?: boolean; journal?: boolean }
+): {
+  success: boolean;
+  message: string;
+} {
+  const existing = files.filter((file) => fs.existsSync(file.filePath));
+  if (existing.length > 0 && !options?.overwrite) {
+    return {
+      success: false,
+      message: `✗ Not written: ${existing.map((file) => file.filePath).join(', ')} already exist(s).`,
+    };
+  }
+
+  const writes = files.filter((file) => file.content !== null);
+  const deletes = files.filter((file) => file.content === null);
+  const temporary = writes.map((file) => `${file.filePath}.${process.pid}.tmp`);
+  const changed: string[] = [];
+  const originals = new Map<string, string>();
+  try {
+    existing.forEach((file) =>
+      originals.set(file.filePath, fs.readFileSync(file.filePath, 'utf-8'))
+    );
+    writes.forEach((file, i) => fs.writeFileSync(temporary[i], file.content!, 'utf-8'));
+    writes.forEach((file, i) => {
+      fs.renameSync(temporary[i], file.filePath);
+      changed.push(file.filePath);
+    });
+    deletes.forEach((file) => {
+      fs.rmSync(file.filePath, { force: true });
+      changed.push(file.filePath);
+    });
+  } catch (error) {
+    for (const file of [...temporary, ...changed]) {
+      const original = originals.get(file);
+      if (original !== undefined) {
+        fs.writeFileSync(file, original, 'utf-8');
+      } else {
+        fs.rmSync(file, { force: true });
+      }
+    }
+    return {
+      success: false,
+      message: `✗ Failed to write files (nothing written): ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+
+  if (options?.journal ?? true) {
+    recordEdit(
+      files.map((file) => ({
+        filePath: file.filePath,
+        before: originals.get(file.filePath) ?? null,
+        after: file.content,
+      }))
+    );
+  }
+  const deleted =
+    deletes.length > 0 ? ` (deleted: ${deletes.map((f) => f.filePath).join(', ')})` : '';
+  return {
+    success: true,
+    message: `✓ Files written: ${writes.map((file) => file.filePath).join(', ')}${deleted}`,
+  };
+}
+
+/**
+ * Lines of a text, each with its line break
+ */
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) || [];
+}
+
+/**
+ * Changes from `base` to `other`: base lines [start, end) become `lines`
+ */
+function lineChanges(
+  base: string,
+  other: string
+): Array<{ start: number; end: number; lines: string[] }> {
+  const changes: Array<{ start: number; end: number; lines: string[] }> = [];
+  let line = 0;
+  let changed = false;
+  for (const part of Diff.diffLines(base, other)) {
+    const lines = splitLines(part.value);
+    if (!part.added && !part.removed) {
+      line += lines.length;
+      changed = false;
+      continue;
+    }
+    if (!changed) changes.push({ start: line, end: line, lines: [] });
+    const change = changes[changes.length - 1];
+    if (part.removed) {
+      change.end += lines.length;
+      line += lines.length;
+    } else {
+      change.lines.push(...lines);
+    }
+    changed = true;
+  }
+  return changes;
+}
+
+/**
+ * 3-way merge: the changes from `base` to `target` applied to `current`, each
+ * placed by the unchanged lines around it. False when a change of `current`
+ * overlaps or touches one of them, since its place is then unknown.
+ */
+function mergeChanges(base: string, current: string, target: string): string | false {
+  const ours = lineChanges(base, current);
+  const theirs = lineChanges(base, target);
+  if (theirs.some((t) => ours.some((o) => o.start <= t.end && t.start <= o.end))) {
+    return false;
+  }
+
+  const lines = splitLines(current);
+  for (const change of [...theirs].reverse()) {
+    const shift = ours
+      .filter((o) => o.end <= change.start)
+      .reduce((sum, o) => sum + o.lines.length - (o.end - o.start), 0);
+    lines.splice(change.start + shift, change.end - change.start, ...change.lines);
+  }
+  return lines.join('');
+}
+
+/**
+ * Undo the last journaled edit of a workspace (`direction` 'undo') or redo the
+ * last undone one ('redo'), as described at the top of this module
+ */
+export function replayEdit(
+  workspace: string,
+  direction: 'undo' | 'redo',
+  options?: { merge?: boolean }
+): {
+  success: boolean;
+  message: string;
+  entry?: EditEntry;
+  files: Array<{ filePath: string; from: string | null; to: string | null; merged: boolean }>;
+} {
+  let journal: EditJournal;
+  try {
+    journal = readJournal(workspace);
+  } catch (error) {
+    return { success: false, message: (error as Error).message, files: [] };
+  }
+  const stack = direction === 'undo' ? journal.entries : journal.undone;
+  const entry = stack[stack.length - 1];
+  if (!entry) {
+    return {
+      success: false,
+      message: `Nothing to ${direction} in ${workspace}.`,
+      files: [],
+    };
+  }
+
+  const files: Array<{
+    filePath: string;
+    from: string | null;
+    to: string | null;
+    merged: boolean;
+  }> = [];
+  const conflicts: string[] = [];
+  for (const file of entry.files) {
+    const [expected, target] =
+      direction === 'undo' ? [file.after, file.before] : [file.before, file.after];
+    const current = fs.existsSync(file.filePath) ? fs.readFileSync(file.filePath, 'utf-8') : null;
+    if (contentHash(current) === contentHash(expected)) {
+      files.push({ filePath: file.filePath, from: current, to: target, merged: false });
+      continue;
+    }
+    if (!options?.merge) {
+      conflicts.push(`${file.filePath} was changed after edit #${entry.id}`);
+      continue;
+    }
+    const merged =
+      current !== null && expected !== null && target !== null
+        ? mergeChanges(expected, current, target)
+        : false;
+    if (merged === false) {
+      conflicts.push(`${file.filePath} has changes that overlap edit #${entry.id}`);
+    } else {
+      files.push({ filePath: file.filePath, from: current, to: merged, merged: true });
+    }
+  }
+  if (conflicts.length > 0) {
+    const hint = options?.merge ? '' : ' Use merge to keep those changes.';
+    return {
+      success: false,
+      message: `Cannot ${direction} edit #${entry.id} (${entry.tool}): ${conflicts.join('; ')}.${hint}`,
+      entry,
+      files: [],
+    };
+  }
+
+  const written = writeFilesAtomically(
+    files.map((file) => ({ filePath: file.filePath, content: file.to })),
+    { overwrite: true, journal: false }
+  );
+  if (!written.success) {
+    return { success: false, message: written.message, entry, files: [] };
+  }
+  stack.pop();
+  (direction === 'undo' ? journal.undone : journal.entries).push(entry);
+  try {
+    writeJournal(workspace, journal);
+  } catch (error) {
+    // Put the files back so they still match the journal
+    writeFilesAtomically(
+      files.map((file) => ({ filePath: file.filePath, content: file.from })),
+      { overwrite: true, journal: false }
+    );
+    return {
+      success: false,
+      message: `Cannot ${direction} edit #${entry.id} (${entry.tool}): journal not written (${(error as Error).message}); files left unchanged.`,
+      entry,
+      files: [],
+    };
+  }
+
+  return {
+    success: true,
+    message: `${direction === 'undo' ? 'Undid' : 'Redid'} edit #${entry.id} (${entry.tool}) in ${files.length} file(s).`,
+    entry,
+    files,
+  };
+}
+
+/**
+ * Journaled edits of a workspace, newest first, and the undone ones redo
+ * would reapply (next first)
+ */
+export function listEditHistory(workspace: string): {
+  entries: EditEntry[];
+  undone: EditEntry[];
+  error?: string;
+} {
+  try {
+    const journal = readJournal(workspace);
+    return { entries: journal.entries.reverse(), undone: journal.undone.reverse() };
+  } catch (error) {
+    return { entries: [], undone: [], error: (error as Error).message };
+  }
+}
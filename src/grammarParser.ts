@@ -0,0 +1,1379 @@
+/**
+ * ANTLR4 Grammar Parser
+ *
+ * Recursive-descent parser for the ANTLR4 meta-grammar (the language .g4 files
+ * are written in). Produces a typed AST in which every node carries a source
+ * span, so tools can reason about structure and still edit the original text
+ * precisely:
+ * - grammar → prequel constructs (options, imports, tokens, channels, @actions)
+ * - rules → alternatives → elements (refs, literals, sets, blocks, actions, predicates)
+ * - labels, EBNF suffixes, element options, lexer commands, modes
+ *
+ * The parser is error tolerant: syntax errors are collected and the parser
+ * resynchronises at the next top-level ';' so one broken rule does not hide
+ * the rest of the grammar.
+ */
+
+export interface SourcePosition {
+  offset: number; // 0-based character offset
+  line: number; // 1-based line number
+  column: number; // 0-based column
+}
+
+export interface SourceSpan {
+  start: SourcePosition;
+  end: SourcePosition; // Exclusive
+}
+
+export type EbnfSuffix = '?' | '*' | '+' | '??' | '*?' | '+?';
+
+export interface IdentifierNode {
+  name: string;
+  span: SourceSpan;
+}
+
+export interface OptionNode {
+  name: string;
+  value: string; // Raw value text (strings keep their quotes)
+  span: SourceSpan;
+}
+
+export interface ElementOptionNode {
+  name: string;
+  value?: string;
+  span: SourceSpan;
+}
+
+export interface ImportNode {
+  name: string; // Imported grammar name
+  alias?: string; // `import alias=Name;`
+  span: SourceSpan;
+}
+
+export interface NamedActionNode {
+  scope?: string; // 'lexer' or 'parser' for @lexer::name / @parser::name
+  name: string;
+  code: string; // Action body without the surrounding braces
+  span: SourceSpan;
+}
+
+export interface ExceptionHandlerNode {
+  kind: 'catch' | 'finally';
+  argument?: string; // catch [Type e] argument text without brackets
+  code: string;
+  span: SourceSpan;
+}
+
+export interface LexerCommandNode {
+  name: string;
+  argument?: string;
+  span: SourceSpan;
+}
+
+export interface LabelNode {
+  name: string;
+  operator: '=' | '+=';
+  span: SourceSpan; // Covers `name=` / `name+=`
+}
+
+interface ElementBase {
+  span: SourceSpan; // Whole element including label and suffix
+  label?: LabelNode;
+  suffix?: EbnfSuffix;
+  options?: ElementOptionNode[];
+}
+
+export interface RuleRefElement extends ElementBase {
+  kind: 'ruleRef';
+  name: string;
+  nameSpan: SourceSpan;
+  args?: string; // Argument text without brackets
+  argsSpan?: SourceSpan; // Including the brackets
+}
+
+export interface TokenRefElement extends ElementBase {
+  kind: 'tokenRef';
+  name: string;
+  nameSpan: SourceSpan;
+}
+
+export interface LiteralElement extends ElementBase {
+  kind: 'literal';
+  value: string; // Raw literal including quotes, e.g. 'while'
+}
+
+export interface RangeElement extends ElementBase {
+  kind: 'range';
+  from: string; // Raw literal including quotes
+  to: string;
+}
+
+export interface CharSetElement extends ElementBase {
+  kind: 'charSet';
+  value: string; // Raw set including brackets, e.g. [a-z_]
+}
+
+export interface WildcardElement extends ElementBase {
+  kind: 'wildcard';
+}
+
+export interface NotElement extends ElementBase {
+  kind: 'not';
+  operand: GrammarElement;
+}
+
+export interface BlockElement extends ElementBase {
+  kind: 'block';
+  alternatives: AlternativeNode[];
+  blockOptions?: OptionNode[];
+}
+
+export interface ActionElement extends ElementBase {
+  kind: 'action';
+  code: string;
+}
+
+export interface PredicateElement extends ElementBase {
+  kind: 'predicate';
+  code: string;
+}
+
+export type GrammarElement =
+  | RuleRefElement
+  | TokenRefElement
+  | LiteralElement
+  | RangeElement
+  | CharSetElement
+  | WildcardElement
+  | NotElement
+  | BlockElement
+  | ActionElement
+  | PredicateElement;
+
+export interface AlternativeNode {
+  elements: GrammarElement[];
+  label?: IdentifierNode; // `# Label`
+  options?: ElementOptionNode[]; // Leading `<assoc=right>`
+  commands: LexerCommandNode[]; // `-> skip, channel(HIDDEN)`
+  span: SourceSpan;
+}
+
+export interface RuleNode {
+  name: string;
+  nameSpan: SourceSpan;
+  type: 'lexer' | 'parser';
+  fragment: boolean;
+  modifiers: string[]; // public / private / protected / fragment
+  arguments?: string; // Argument text without brackets
+  returns?: string;
+  locals?: string;
+  throws: string[];
+  options: OptionNode[];
+  actions: NamedActionNode[]; // @init / @after
+  exceptionHandlers: ExceptionHandlerNode[];
+  alternatives: AlternativeNode[];
+  colonSpan: SourceSpan;
+  bodySpan: SourceSpan; // Between ':' and ';'
+  mode: string; // Lexer mode the rule is declared in (DEFAULT_MODE for parser rules)
+  span: SourceSpan; // From the first modifier / name to the end of the rule
+}
+
+export interface ModeNode {
+  name: string;
+  span: SourceSpan;
+}
+
+export interface CommentNode {
+  text: string;
+  kind: 'line' | 'block' | 'doc';
+  span: SourceSpan;
+}
+
+export interface GrammarSyntaxError {
+  message: string;
+  span: SourceSpan;
+}
+
+/**
+ * An `options {}`, `import ...;`, `tokens {}` or `channels {}` statement
+ */
+export interface PrequelNode {
+  kind: 'options' | 'import' | 'tokens' | 'channels';
+  span: SourceSpan;
+}
+
+export interface GrammarAst {
+  type: 'lexer' | 'parser' | 'combined';
+  name: string;
+  declarationSpan?: SourceSpan;
+  /** Prequel statements in source order */
+  prequel: PrequelNode[];
+  options: OptionNode[];
+  imports: ImportNode[];
+  tokens: IdentifierNode[];
+  channels: IdentifierNode[];
+  namedActions: NamedActionNode[];
+  rules: RuleNode[];
+  modes: ModeNode[];
+  comments: CommentNode[];
+  errors: GrammarSyntaxError[];
+}
+
+/**
+ * Raised internally to abandon the current construct; caught at the rule /
+ * prequel level where the parser resynchronises.
+ */
+class SyntaxFailure extends Error {
+  constructor(
+    message: string,
+    public readonly offset: number
+  ) {
+    super(message);
+  }
+}
+
+const IDENTIFIER_START = /[\p{L}_]/u;
+const IDENTIFIER_PART = /[\p{L}\p{N}_]/u;
+const RULE_MODIFIERS = new Set(['public', 'private', 'protected', 'fragment']);
+const RULE_HEADER = /^[ \t]*(?:fragment[ \t]+)?[\p{L}_][\p{L}\p{N}_]*[ \t]*:(?!:)/u;
+
+/**
+ * ANTLR4 meta-grammar parser
+ *
+ * One instance parses one source text; use `parseGrammar()` for the common case.
+ */
+export class GrammarParser {
+  private readonly source: string;
+  private readonly lineStarts: number[] = [0];
+  private pos = 0;
+  private inLexerRule = false;
+  private currentRule = '';
+  private readonly comments = new Map<number, CommentNode>();
+  private readonly errors: GrammarSyntaxError[] = [];
+
+  constructor(source: string) {
+    this.source = source;
+    for (let i = 0; i < source.length; i++) {
+      if (source[i] === '\n') {
+        this.lineStarts.push(i + 1);
+      }
+    }
+  }
+
+  /**
+   * Parse the whole source into a grammar AST
+   */
+  parse(): GrammarAst {
+    const ast: GrammarAst = {
+      type: 'combined',
+      name: '',
+      prequel: [],
+      options: [],
+      imports: [],
+      tokens: [],
+      channels: [],
+      namedActions: [],
+      rules: [],
+      modes: [],
+      comments: [],
+      errors: this.errors,
+    };
+    let currentMode = 'DEFAULT_MODE';
+
+    this.skipTrivia();
+    while (!this.atEnd()) {
+      const start = this.pos;
+      try {
+        const word = this.peekIdentifier();
+        if (word === 'grammar' || word === 'lexer' || word === 'parser') {
+          if (this.parseGrammarDeclaration(ast)) {
+            this.skipTrivia();
+            continue;
+          }
+        }
+        if (word === 'options' && this.peekAfterIdentifier() === '{') {
+          this.readIdentifier();
+          ast.options.push(...this.parseOptionsBlock());
+          ast.prequel.push({ kind: 'options', span: this.span(start, this.pos) });
+        } else if (word === 'import') {
+          this.readIdentifier();
+          ast.imports.push(...this.parseImports());
+          ast.prequel.push({ kind: 'import', span: this.span(start, this.pos) });
+        } else if (
+          (word === 'tokens' || word === 'channels') &&
+          this.peekAfterIdentifier() === '{'
+        ) {
+          this.readIdentifier();
+          const names = this.parseIdList();
+          (word === 'tokens' ? ast.tokens : ast.channels).push(...names);
+          ast.prequel.push({ kind: word, span: this.span(start, this.pos) });
+        } else if (word === 'mode' && this.peekAfterIdentifier() !== ':') {
+          this.readIdentifier();
+          this.skipTrivia();
+          const name = this.expectIdentifier('mode name');
+          this.expectChar(';');
+          currentMode = name.name;
+          ast.modes.push({ name: name.name, span: this.span(start, this.pos) });
+        } else if (this.peek() === '@') {
+          ast.namedActions.push(this.parseNamedAction());
+        } else if (word) {
+          ast.rules.push(this.parseRule(currentMode));
+        } else {
+          throw new SyntaxFailure(`Unexpected '${this.peek()}'`, this.pos);
+        }
+      } catch (error) {
+        if (!(error instanceof SyntaxFailure)) {
+          throw error;
+        }
+        this.recordError(error.message, error.offset);
+        this.recover(start + 1);
+      }
+      this.skipTrivia();
+    }
+
+    ast.comments = Array.from(this.comments.values()).sort(
+      (a, b) => a.span.start.offset - b.span.start.offset
+    );
+    return ast;
+  }
+
+  // ============================================================================
+  // Prequel constructs
+  // ============================================================================
+
+  /**
+   * Parse `grammar X;`, `lexer grammar X;` or `parser grammar X;`.
+   * Returns false (without consuming input) when the keyword starts a rule instead.
+   */
+  private parseGrammarDeclaration(ast: GrammarAst): boolean {
+    const start = this.pos;
+    const first = this.readIdentifier()!;
+    let type: GrammarAst['type'] = 'combined';
+    if (first.name !== 'grammar') {
+      this.skipTrivia();
+      if (this.peekIdentifier() !== 'grammar') {
+        this.pos = start;
+        return false;
+      }
+      this.readIdentifier();
+      type = first.name as 'lexer' | 'parser';
+    } else if (this.peekAfterIdentifier(start) === ':') {
+      this.pos = start;
+      return false;
+    }
+    this.skipTrivia();
+    const name = this.expectIdentifier('grammar name');
+    this.expectChar(';');
+    ast.type = type;
+    ast.name = name.name;
+    ast.declarationSpan = this.span(start, this.pos);
+    return true;
+  }
+
+  /**
+   * Parse `{ name = value; ... }` after an `options` keyword
+   */
+  private parseOptionsBlock(): OptionNode[] {
+    const options: OptionNode[] = [];
+    this.expectChar('{');
+    this.skipTrivia();
+    while (!this.atEnd() && this.peek() !== '}') {
+      const start = this.pos;
+      const name = this.expectIdentifier('option name');
+      this.expectChar('=');
+      this.skipTrivia();
+      const valueStart = this.pos;
+      if (this.peek() === "'") {
+        this.readLiteral();
+      } else if (this.peek() === '{') {
+        this.readBalanced('{', '}');
+      } else {
+        while (!this.atEnd() && /[^;}\s]/.test(this.peek())) {
+          this.pos++;
+        }
+      }
+      const value = this.source.slice(valueStart, this.pos).trim();
+      if (!value) {
+        throw new SyntaxFailure(`Missing value for option '${name.name}'`, this.pos);
+      }
+      this.expectChar(';');
+      options.push({ name: name.name, value, span: this.span(start, this.pos) });
+      this.skipTrivia();
+    }
+    this.expectChar('}');
+    return options;
+  }
+
+  /**
+   * Parse `A, alias=B;` after an `import` keyword
+   */
+  private parseImports(): ImportNode[] {
+    const imports: ImportNode[] = [];
+    do {
+      this.skipTrivia();
+      const start = this.pos;
+      const first = this.expectIdentifier('grammar name');
+      this.skipTrivia();
+      if (this.peek() === '=') {
+        this.pos++;
+        this.skipTrivia();
+        const name = this.expectIdentifier('grammar name');
+        imports.push({ name: name.name, alias: first.name, span: this.span(start, this.pos) });
+      } else {
+        imports.push({ name: first.name, span: first.span });
+      }
+      this.skipTrivia();
+    } while (this.tryChar(','));
+    this.expectChar(';');
+    return imports;
+  }
+
+  /**
+   * Parse `{ A, B, C }` after a `tokens` or `channels` keyword
+   */
+  private parseIdList(): IdentifierNode[] {
+    const names: IdentifierNode[] = [];
+    this.expectChar('{');
+    this.skipTrivia();
+    while (!this.atEnd() && this.peek() !== '}') {
+      names.push(this.expectIdentifier('name'));
+      this.skipTrivia();
+      if (!this.tryChar(',')) {
+        break;
+      }
+      this.skipTrivia();
+    }
+    this.expectChar('}');
+    return names;
+  }
+
+  /**
+   * Parse `@name {...}` or `@scope::name {...}`
+   */
+  private parseNamedAction(): NamedActionNode {
+    const start = this.pos;
+    this.expectChar('@');
+    this.skipTrivia();
+    let name = this.expectIdentifier('action name').name;
+    let scope: string | undefined;
+    this.skipTrivia();
+    if (this.source.startsWith('::', this.pos)) {
+      this.pos += 2;
+      this.skipTrivia();
+      scope = name;
+      name = this.expectIdentifier('action name').name;
+      this.skipTrivia();
+    }
+    const code = this.readActionBlock();
+    return { scope, name, code, span: this.span(start, this.pos) };
+  }
+
+  // ============================================================================
+  // Rules
+  // ============================================================================
+
+  /**
+   * Parse a parser or lexer rule, including its signature and exception handlers
+   */
+  private parseRule(mode: string): RuleNode {
+    const start = this.pos;
+    const modifiers: string[] = [];
+    let nameNode = this.expectIdentifier('rule name');
+    this.skipTrivia();
+    while (RULE_MODIFIERS.has(nameNode.name) && this.isIdentifierStart(this.peek())) {
+      modifiers.push(nameNode.name);
+      nameNode = this.expectIdentifier('rule name');
+      this.skipTrivia();
+    }
+
+    const type: RuleNode['type'] = /^\p{Lu}/u.test(nameNode.name) ? 'lexer' : 'parser';
+    const rule: RuleNode = {
+      name: nameNode.name,
+      nameSpan: nameNode.span,
+      type,
+      fragment: modifiers.includes('fragment'),
+      modifiers,
+      throws: [],
+      options: [],
+      actions: [],
+      exceptionHandlers: [],
+      alternatives: [],
+      colonSpan: this.span(this.pos, this.pos),
+      bodySpan: this.span(this.pos, this.pos),
+      mode: type === 'lexer' ? mode : 'DEFAULT_MODE',
+      span: this.span(start, this.pos),
+    };
+    this.inLexerRule = type === 'lexer';
+    this.currentRule = rule.name;
+
+    if (this.peek() === '[') {
+      rule.arguments = this.readArgAction();
+      this.skipTrivia();
+    }
+
+    // Signature and prequel: returns, throws, locals, options, @init/@after
+    for (;;) {
+      const word = this.peekIdentifier();
+      if (word === 'returns') {
+        this.readIdentifier();
+        this.skipTrivia();
+        rule.returns = this.readArgAction();
+      } else if (word === 'locals') {
+        this.readIdentifier();
+        this.skipTrivia();
+        rule.locals = this.readArgAction();
+      } else if (word === 'throws') {
+        this.readIdentifier();
+        do {
+          this.skipTrivia();
+          rule.throws.push(this.readQualifiedName());
+          this.skipTrivia();
+        } while (this.tryChar(','));
+      } else if (word === 'options') {
+        this.readIdentifier();
+        rule.options.push(...this.parseOptionsBlock());
+      } else if (this.peek() === '@') {
+        rule.actions.push(this.parseNamedAction());
+      } else {
+        break;
+      }
+      this.skipTrivia();
+    }
+
+    this.expectChar(':', `Expected ':' after rule name '${rule.name}'`);
+    rule.colonSpan = this.span(this.pos - 1, this.pos);
+    this.skipTrivia();
+    const bodyStart = this.pos;
+    try {
+      this.parseAlternatives(';', rule.alternatives);
+      rule.bodySpan = this.span(bodyStart, this.trimmedEnd(bodyStart, this.pos));
+      this.expectChar(';', `Expected ';' at end of rule '${rule.name}'`);
+    } catch (error) {
+      if (!(error instanceof SyntaxFailure)) {
+        throw error;
+      }
+      // Keep the rule (with whatever was parsed) so tools still know it exists
+      this.recordError(error.message, error.offset);
+      const terminated = this.recover(bodyStart);
+      const bodyEnd = this.trimmedEnd(bodyStart, terminated ? this.pos - 1 : this.pos);
+      rule.bodySpan = this.span(bodyStart, bodyEnd);
+      rule.span = this.span(start, terminated ? this.pos : bodyEnd);
+      return rule;
+    }
+    let end = this.pos;
+
+    // Exception group: catch[...] {...} / finally {...}
+    for (;;) {
+      this.skipTrivia();
+      const handlerStart = this.pos;
+      const word = this.peekIdentifier();
+      if (word === 'catch') {
+        this.readIdentifier();
+        this.skipTrivia();
+        const argument = this.readArgAction();
+        this.skipTrivia();
+        const code = this.readActionBlock();
+        rule.exceptionHandlers.push({
+          kind: 'catch',
+          argument,
+          code,
+          span: this.span(handlerStart, this.pos),
+        });
+      } else if (word === 'finally') {
+        this.readIdentifier();
+        this.skipTrivia();
+        const code = this.readActionBlock();
+        rule.exceptionHandlers.push({
+          kind: 'finally',
+          code,
+          span: this.span(handlerStart, this.pos),
+        });
+      } else {
+        this.pos = end;
+        break;
+      }
+      end = this.pos;
+    }
+
+    rule.span = this.span(start, end);
+    return rule;
+  }
+
+  /**
+   * Parse `alt | alt | ...` up to (but not including) the closing character
+   */
+  private parseAlternatives(
+    terminator: ';' | ')',
+    alternatives: AlternativeNode[] = []
+  ): AlternativeNode[] {
+    this.parseAlternative(terminator, alternatives);
+    while (this.tryChar('|')) {
+      this.skipTrivia();
+      this.parseAlternative(terminator, alternatives);
+    }
+    if (this.peek() !== terminator) {
+      if (this.atEnd() && terminator === ';') {
+        throw new SyntaxFailure(
+          `Rule '${this.currentRule}' appears to be missing a semicolon`,
+          this.pos
+        );
+      }
+      throw new SyntaxFailure(
+        this.atEnd()
+          ? `Expected '${terminator}' before end of file`
+          : `Unexpected '${this.peek()}'`,
+        this.pos
+      );
+    }
+    return alternatives;
+  }
+
+  /**
+   * Parse one alternative: optional `<options>`, elements, `# Label`, `-> commands`.
+   * The alternative is appended to `alternatives` up front so that a partial
+   * alternative survives a syntax error.
+   */
+  private parseAlternative(terminator: ';' | ')', alternatives: AlternativeNode[]): void {
+    this.skipTrivia();
+    const start = this.pos;
+    const alternative: AlternativeNode = {
+      elements: [],
+      commands: [],
+      span: this.span(start, start),
+    };
+    alternatives.push(alternative);
+
+    if (this.peek() === '<') {
+      alternative.options = this.parseElementOptions();
+      this.skipTrivia();
+    }
+
+    while (!this.atEnd()) {
+      const c = this.peek();
+      if (c === '|' || c === terminator || c === '#' || this.source.startsWith('->', this.pos)) {
+        break;
+      }
+      if (c === ';' || c === ')') {
+        break;
+      }
+      if (this.atRuleHeader()) {
+        throw new SyntaxFailure(
+          `Rule '${this.currentRule}' appears to be missing a semicolon`,
+          this.pos
+        );
+      }
+      alternative.elements.push(this.parseElement());
+      this.skipTrivia();
+    }
+
+    if (this.tryChar('#')) {
+      this.skipTrivia();
+      alternative.label = this.expectIdentifier('alternative label');
+      this.skipTrivia();
+    }
+
+    if (this.source.startsWith('->', this.pos)) {
+      this.pos += 2;
+      do {
+        this.skipTrivia();
+        const commandStart = this.pos;
+        const name = this.expectIdentifier('lexer command');
+        this.skipTrivia();
+        let argument: string | undefined;
+        if (this.tryChar('(')) {
+          this.skipTrivia();
+          const argStart = this.pos;
+          while (!this.atEnd() && /[^)\s]/.test(this.peek())) {
+            this.pos++;
+          }
+          argument = this.source.slice(argStart, this.pos);
+          this.expectChar(')');
+        }
+        alternative.commands.push({
+          name: name.name,
+          argument,
+          span: this.span(commandStart, this.pos),
+        });
+        this.skipTrivia();
+      } while (this.tryChar(','));
+    }
+
+    alternative.span = this.span(start, this.trimmedEnd(start, this.pos));
+  }
+
+  /**
+   * Parse one element with its optional label and EBNF suffix
+   */
+  private parseElement(): GrammarElement {
+    const start = this.pos;
+    let label: LabelNode | undefined;
+
+    // Label: `name=` or `name+=` (but not `name ==` which cannot occur here)
+    if (this.isIdentifierStart(this.peek())) {
+      const save = this.pos;
+      const name = this.readIdentifier()!;
+      this.skipTrivia();
+      let operator: LabelNode['operator'] | undefined;
+      if (this.source.startsWith('+=', this.pos)) {
+        operator = '+=';
+      } else if (this.peek() === '=') {
+        operator = '=';
+      }
+      if (operator) {
+        this.pos += operator.length;
+        label = { name: name.name, operator, span: this.span(start, this.pos) };
+        this.skipTrivia();
+      } else {
+        this.pos = save;
+      }
+    }
+
+    const element = this.parseAtom();
+    if (label) {
+      element.label = label;
+    }
+
+    if (element.kind !== 'action' && element.kind !== 'predicate') {
+      const suffix = this.readSuffix();
+      if (suffix) {
+        element.suffix = suffix;
+      }
+    }
+    element.span = this.span(start, this.pos);
+    return element;
+  }
+
+  /**
+   * Parse an element without label or suffix
+   */
+  private parseAtom(): GrammarElement {
+    const start = this.pos;
+    const c = this.peek();
+
+    if (c === '{') {
+      const code = this.readActionBlock();
+      if (this.peek() === '?') {
+        this.pos++;
+        const predicate: PredicateElement = {
+          kind: 'predicate',
+          code,
+          span: this.span(start, this.pos),
+        };
+        this.attachElementOptions(predicate);
+        return predicate;
+      }
+      return { kind: 'action', code, span: this.span(start, this.pos) };
+    }
+
+    if (c === '(') {
+      this.pos++;
+      this.skipTrivia();
+      const block: BlockElement = {
+        kind: 'block',
+        alternatives: [],
+        span: this.span(start, start),
+      };
+      if (this.peekIdentifier() === 'options' && this.peekAfterIdentifier() === '{') {
+        this.readIdentifier();
+        block.blockOptions = this.parseOptionsBlock();
+        this.skipTrivia();
+        this.expectChar(':');
+      }
+      block.alternatives = this.parseAlternatives(')');
+      this.expectChar(')');
+      block.span = this.span(start, this.pos);
+      return block;
+    }
+
+    if (c === '~') {
+      this.pos++;
+      this.skipTrivia();
+      const operand = this.parseAtom();
+      return { kind: 'not', operand, span: this.span(start, this.pos) };
+    }
+
+    if (c === '.' && !this.source.startsWith('..', this.pos)) {
+      this.pos++;
+      const wildcard: WildcardElement = { kind: 'wildcard', span: this.span(start, this.pos) };
+      this.attachElementOptions(wildcard);
+      return wildcard;
+    }
+
+    // Double-quoted literals are not ANTLR4 syntax but are common in ported grammars
+    if (c === "'" || c === '"') {
+      const value = this.readLiteral();
+      const afterLiteral = this.pos;
+      this.skipTrivia();
+      if (this.source.startsWith('..', this.pos)) {
+        this.pos += 2;
+        this.skipTrivia();
+        if (this.peek() !== "'" && this.peek() !== '"') {
+          throw new SyntaxFailure('Expected literal after ..', this.pos);
+        }
+        const to = this.readLiteral();
+        return { kind: 'range', from: value, to, span: this.span(start, this.pos) };
+      }
+      this.pos = afterLiteral;
+      const literal: LiteralElement = { kind: 'literal', value, span: this.span(start, this.pos) };
+      this.attachElementOptions(literal);
+      return literal;
+    }
+
+    // Sets are only legal in lexer rules, but accept them anywhere so that
+    // analysis tools can still see (and report on) misplaced ones.
+    if (c === '[') {
+      const value = this.readCharSet();
+      return { kind: 'charSet', value, span: this.span(start, this.pos) };
+    }
+
+    if (this.isIdentifierStart(c)) {
+      const name = this.readIdentifier()!;
+      if (/^\p{Lu}/u.test(name.name)) {
+        const ref: TokenRefElement = {
+          kind: 'tokenRef',
+          name: name.name,
+          nameSpan: name.span,
+          span: name.span,
+        };
+        this.attachElementOptions(ref);
+        return ref;
+      }
+      const ref: RuleRefElement = {
+        kind: 'ruleRef',
+        name: name.name,
+        nameSpan: name.span,
+        span: name.span,
+      };
+      if (this.peek() === '[') {
+        const argsStart = this.pos;
+        ref.args = this.readArgAction();
+        ref.argsSpan = this.span(argsStart, this.pos);
+      }
+      this.attachElementOptions(ref);
+      ref.span = this.span(start, this.pos);
+      return ref;
+    }
+
+    if (this.atEnd()) {
+      throw new SyntaxFailure('Unexpected end of file', this.pos);
+    }
+    throw new SyntaxFailure(`Unexpected '${c}'`, this.pos);
+  }
+
+  /**
+   * Attach `<name=value, ...>` directly following an element, if present
+   */
+  private attachElementOptions(element: GrammarElement): void {
+    const save = this.pos;
+    this.skipTrivia();
+    if (this.peek() === '<') {
+      element.options = this.parseElementOptions();
+      element.span = this.span(element.span.start.offset, this.pos);
+    } else {
+      this.pos = save;
+    }
+  }
+
+  /**
+   * Parse `<assoc=right, fail='msg'>`
+   */
+  private parseElementOptions(): ElementOptionNode[] {
+    const options: ElementOptionNode[] = [];
+    this.expectChar('<');
+    do {
+      this.skipTrivia();
+      const start = this.pos;
+      const name = this.readQualifiedName();
+      this.skipTrivia();
+      let value: string | undefined;
+      if (this.tryChar('=')) {
+        this.skipTrivia();
+        value = this.peek() === "'" ? this.readLiteral() : this.readQualifiedName();
+      }
+      options.push({ name, value, span: this.span(start, this.pos) });
+      this.skipTrivia();
+    } while (this.tryChar(','));
+    this.expectChar('>');
+    return options;
+  }
+
+  /**
+   * Read `?`, `*`, `+` and their non-greedy forms
+   */
+  private readSuffix(): EbnfSuffix | undefined {
+    const save = this.pos;
+    this.skipTrivia();
+    const c = this.peek();
+    if (c === '?' || c === '*' || c === '+') {
+      if (c === '+' && this.source[this.pos + 1] === '=') {
+        this.pos = save;
+        return undefined;
+      }
+      this.pos++;
+      if (this.peek() === '?') {
+        this.pos++;
+        return (c + '?') as EbnfSuffix;
+      }
+      return c as EbnfSuffix;
+    }
+    this.pos = save;
+    return undefined;
+  }
+
+  // ============================================================================
+  // Lexical helpers
+  // ============================================================================
+
+  /**
+   * Read a quoted literal, returning it with its quotes
+   */
+  private readLiteral(): string {
+    const start = this.pos;
+    const quote = this.peek();
+    this.pos++;
+    while (!this.atEnd()) {
+      const c = this.peek();
+      if (c === '\\') {
+        this.pos += 2;
+        continue;
+      }
+      if (c === quote) {
+        this.pos++;
+        return this.source.slice(start, this.pos);
+      }
+      if (c === '\n') {
+        break;
+      }
+      this.pos++;
+    }
+    throw new SyntaxFailure('Unterminated string literal', start);
+  }
+
+  /**
+   * Read a lexer character set `[...]`, returning it with its brackets
+   */
+  private readCharSet(): string {
+    const start = this.pos;
+    this.pos++;
+    while (!this.atEnd()) {
+      const c = this.peek();
+      if (c === '\\') {
+        this.pos += 2;
+        continue;
+      }
+      if (c === ']') {
+        this.pos++;
+        return this.source.slice(start, this.pos);
+      }
+      if (c === '\n') {
+        break;
+      }
+      this.pos++;
+    }
+    throw new SyntaxFailure('Unterminated character set', start);
+  }
+
+  /**
+   * Read an argument action `[...]`, returning the text between the brackets
+   */
+  private readArgAction(): string {
+    if (this.peek() !== '[') {
+      throw new SyntaxFailure(`Expected '[' but found '${this.peek()}'`, this.pos);
+    }
+    const start = this.pos;
+    this.readBalanced('[', ']');
+    return this.source.slice(start + 1, this.pos - 1).trim();
+  }
+
+  /**
+   * Read an action block `{...}`, returning the code between the braces
+   */
+  private readActionBlock(): string {
+    if (this.peek() !== '{') {
+      throw new SyntaxFailure(`Expected '{' but found '${this.peek()}'`, this.pos);
+    }
+    const start = this.pos;
+    this.readBalanced('{', '}');
+    return this.source.slice(start + 1, this.pos - 1);
+  }
+
+  /**
+   * Skip a balanced bracket group, ignoring brackets inside strings and comments
+   * of the embedded target language.
+   */
+  private readBalanced(open: string, close: string): void {
+    const start = this.pos;
+    let depth = 0;
+    while (!this.atEnd()) {
+      const c = this.peek();
+      if (c === '\\') {
+        this.pos += 2;
+        continue;
+      }
+      if (c === '"' || c === "'" || (c === '`' && open === '{')) {
+        this.skipEmbeddedString(c);
+        continue;
+      }
+      if (c === '/' && (this.source[this.pos + 1] === '/' || this.source[this.pos + 1] === '*')) {
+        this.skipComment(false);
+        continue;
+      }
+      this.pos++;
+      if (c === open) {
+        depth++;
+      } else if (c === close) {
+        depth--;
+        if (depth === 0) {
+          return;
+        }
+      }
+    }
+    throw new SyntaxFailure(`Unterminated '${open}'`, start);
+  }
+
+  /**
+   * Skip a string inside action code. Unterminated strings stop at end of line
+   * so a stray apostrophe in a comment-like context cannot swallow the file.
+   */
+  private skipEmbeddedString(quote: string): void {
+    this.pos++;
+    while (!this.atEnd()) {
+      const c = this.peek();
+      if (c === '\\') {
+        this.pos += 2;
+        continue;
+      }
+      this.pos++;
+      if (c === quote || (c === '\n' && quote !== '`')) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Skip whitespace and comments, recording comments as they are passed
+   */
+  private skipTrivia(): void {
+    while (!this.atEnd()) {
+      const c = this.peek();
+      if (c === ' ' || c === '\t' || c === '\r' || c === '\n' || c === '\f') {
+        this.pos++;
+      } else if (
+        c === '/' &&
+        (this.source[this.pos + 1] === '/' || this.source[this.pos + 1] === '*')
+      ) {
+        this.skipComment(true);
+      } else {
+        return;
+      }
+    }
+  }
+
+  private skipComment(record: boolean): void {
+    const start = this.pos;
+    let kind: CommentNode['kind'];
+    if (this.source[this.pos + 1] === '/') {
+      kind = 'line';
+      const newline = this.source.indexOf('\n', this.pos);
+      this.pos = newline === -1 ? this.source.length : newline;
+    } else {
+      kind =
+        this.source.startsWith('/**', this.pos) && this.source[this.pos + 3] !== '/'
+          ? 'doc'
+          : 'block';
+      const close = this.source.indexOf('*/', this.pos + 2);
+      if (close === -1) {
+        this.pos = this.source.length;
+        this.recordError('Unterminated comment', start);
+      } else {
+        this.pos = close + 2;
+      }
+    }
+    if (record && !this.comments.has(start)) {
+      this.comments.set(start, {
+        text: this.source.slice(start, this.pos),
+        kind,
+        span: this.span(start, this.pos),
+      });
+    }
+  }
+
+  /**
+   * True when the current position is the first token on its line and looks
+   * like `name :` — i.e. the previous rule was never terminated.
+   */
+  private atRuleHeader(): boolean {
+    const lineStart = this.source.lastIndexOf('\n', this.pos - 1) + 1;
+    if (this.source.slice(lineStart, this.pos).trim() !== '') {
+      return false;
+    }
+    return RULE_HEADER.test(this.source.slice(this.pos, this.pos + 200));
+  }
+
+  private isIdentifierStart(c: string): boolean {
+    return c !== '' && IDENTIFIER_START.test(c);
+  }
+
+  private readIdentifier(): IdentifierNode | null {
+    if (!this.isIdentifierStart(this.peek())) {
+      return null;
+    }
+    const start = this.pos;
+    this.pos++;
+    while (!this.atEnd() && IDENTIFIER_PART.test(this.peek())) {
+      this.pos++;
+    }
+    return { name: this.source.slice(start, this.pos), span: this.span(start, this.pos) };
+  }
+
+  private expectIdentifier(what: string): IdentifierNode {
+    const id = this.readIdentifier();
+    if (!id) {
+      throw new SyntaxFailure(
+        this.atEnd()
+          ? `Expected ${what} before end of file`
+          : `Expected ${what} but found '${this.peek()}'`,
+        this.pos
+      );
+    }
+    return id;
+  }
+
+  /**
+   * Read `a.b.c` (option values, exception types)
+   */
+  private readQualifiedName(): string {
+    let name = this.expectIdentifier('name').name;
+    while (this.peek() === '.' && this.isIdentifierStart(this.source[this.pos + 1] || '')) {
+      this.pos++;
+      name += '.' + this.readIdentifier()!.name;
+    }
+    return name;
+  }
+
+  /**
+   * Identifier at the current position (without consuming it)
+   */
+  private peekIdentifier(): string | null {
+    const save = this.pos;
+    const id = this.readIdentifier();
+    this.pos = save;
+    return id ? id.name : null;
+  }
+
+  /**
+   * First significant character after the identifier at `from`
+   */
+  private peekAfterIdentifier(from: number = this.pos): string {
+    const save = this.pos;
+    this.pos = from;
+    this.readIdentifier();
+    this.skipTrivia();
+    const c = this.peek();
+    this.pos = save;
+    return c;
+  }
+
+  private peek(): string {
+    return this.pos < this.source.length ? this.source[this.pos] : '';
+  }
+
+  private atEnd(): boolean {
+    return this.pos >= this.source.length;
+  }
+
+  private tryChar(c: string): boolean {
+    if (this.peek() === c) {
+      this.pos++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectChar(c: string, message?: string): void {
+    this.skipTrivia();
+    if (!this.tryChar(c)) {
+      throw new SyntaxFailure(
+        message ||
+          (this.atEnd()
+            ? `Expected '${c}' before end of file`
+            : `Expected '${c}' but found '${this.peek()}'`),
+        this.pos
+      );
+    }
+  }
+
+  /**
+   * Offset just after the last non-trivia character in [start, end)
+   */
+  private trimmedEnd(start: number, end: number): number {
+    let last = start;
+    const save = this.pos;
+    this.pos = start;
+    while (this.pos < end) {
+      this.skipTrivia();
+      if (this.pos >= end) {
+        break;
+      }
+      const c = this.peek();
+      if (c === "'" || c === '"' || c === '[' || c === '{') {
+        try {
+          if (c === "'" || c === '"') this.readLiteral();
+          else if (c === '{') this.readBalanced('{', '}');
+          else if (this.inLexerRule) this.readCharSet();
+          else this.readBalanced('[', ']');
+        } catch {
+          this.pos++;
+        }
+      } else {
+        this.pos++;
+      }
+      last = Math.min(this.pos, end);
+    }
+    this.pos = save;
+    return last;
+  }
+
+  /**
+   * Skip from `from` to just past the next top-level ';' after a syntax error,
+   * or to the start of the next line that looks like a rule header (missing ';').
+   * Returns true when a ';' was consumed.
+   */
+  private recover(from: number): boolean {
+    this.pos = from;
+    while (!this.atEnd()) {
+      const c = this.peek();
+      if (c === ';') {
+        this.pos++;
+        return true;
+      }
+      if (c === '\n' && RULE_HEADER.test(this.source.slice(this.pos + 1, this.pos + 200))) {
+        this.pos++;
+        return false;
+      }
+      if (c === "'" || c === '"' || c === '{') {
+        try {
+          if (c !== '{') this.readLiteral();
+          else this.readBalanced('{', '}');
+        } catch {
+          this.pos++;
+        }
+        continue;
+      }
+      if (c === '/' && (this.source[this.pos + 1] === '/' || this.source[this.pos + 1] === '*')) {
+        this.skipComment(true);
+        continue;
+      }
+      this.pos++;
+    }
+    return false;
+  }
+
+  private recordError(message: string, offset: number): void {
+    this.errors.push({
+      message,
+      span: this.span(offset, Math.min(offset + 1, this.source.length)),
+    });
+  }
+
+  private position(offset: number): SourcePosition {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (this.lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return { offset, line: low + 1, column: offset - this.lineStarts[low] };
+  }
+
+  private span(start: number, end: number): SourceSpan {
+    return { start: this.position(start), end: this.position(end) };
+  }
+}
+
+/**
+ * Parse ANTLR4 grammar source into an AST
+ */
+export function parseGrammar(source: string): GrammarAst {
+  return new GrammarParser(source).parse();
+}
+
+/**
+ * Source text covered by a span
+ */
+export function sliceSpan(source: string, span: SourceSpan): string {
+  return source.slice(span.start.offset, span.end.offset);
+}
+
+/**
+ * Visit every element of a list of alternatives, descending into blocks and `~` operands
+ */
+export function walkElements(
+  alternatives: AlternativeNode[],
+  visit: (element: GrammarElement) => void
+): void {
+  for (const alternative of alternatives) {
+    for (const element of alternative.elements) {
+      walkElement(element, visit);
+    }
+  }
+}
+
+function walkElement(element: GrammarElement, visit: (element: GrammarElement) => void): void {
+  visit(element);
+  if (element.kind === 'block') {
+    walkElements(element.alternatives, visit);
+  } else if (element.kind === 'not') {
+    walkElement(element.operand, visit);
+  }
+}
+
+/**
+ * Canonical text of an alternative: elements only, without labels, actions,
+ * predicates, comments or formatting. Useful for structural comparison.
+ */
+export function alternativeToText(alternative: AlternativeNode): string {
+  return alternative.elements
+    .map((element) => elementToText(element))
+    .filter((text) => text !== '')
+    .join(' ');
+}
+
+/**
+ * Canonical text of an element (see `alternativeToText`)
+ */
+export function elementToText(element: GrammarElement): string {
+  let text: string;
+  switch (element.kind) {
+    case 'ruleRef':
+    case 'tokenRef':
+      text = element.name;
+      break;
+    case 'literal':
+      text = element.value;
+      break;
+    case 'range':
+      text = `${element.from}..${element.to}`;
+      break;
+    case 'charSet':
+      text = element.value;
+      break;
+    case 'wildcard':
+      text = '.';
+      break;
+    case 'not':
+      text = '~' + elementToText(element.operand);
+      break;
+    case 'block':
+      text = '(' + element.alternatives.map((alt) => alternativeToText(alt)).join(' | ') + ')';
+      break;
+    case 'action':
+    case 'predicate':
+      return '';
+  }
+  return text + (element.suffix || '');
+}
@@ -2,6 +2,7 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
 import {
+  CallToolRequest,
   CallToolRequestSchema,
   ListToolsRequestSchema,
   ListResourcesRequestSchema,
@@ -10,8 +11,16 @@ import {
   TextContent,
   Resource,
 } from '@modelcontextprotocol/sdk/types.js';
-import { AntlrAnalyzer } from './antlrAnalyzer.js';
+import { AntlrAnalyzer, GrammarEdit, GrammarIssue } from './antlrAnalyzer.js';
 import { getRuntime } from './antlr4Runtime.js';
+import {
+  editContext,
+  findWorkspace,
+  listEditHistory,
+  recordEdit,
+  replayEdit,
+  writeFilesAtomically,
+} from './editHistory.js';
 import * as fs from 'fs';
 import * as path from 'path';
 import express from 'express';
@@ -40,7 +49,9 @@ function safeWriteFile(
       }
     }
 
+    const before = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : null;
     fs.writeFileSync(filePath, newContent, 'utf-8');
+    recordEdit([{ filePath, before, after: newContent }]);
     return {
       success: true,
       message: `✓ Changes written to file: ${filePath}`,
@@ -65,6 +76,114 @@ function generateUnifiedDiff(
   return patch;
 }
 
+/**
+ * Turn an apply-edits operation, given with the arguments of the tool of the
+ * same name, into the edit AntlrAnalyzer.applyEdits runs
+ */
+function toGrammarEdit(operation: Record<string, unknown>): GrammarEdit {
+  const text = (key: string) => (operation[key] as string) || undefined;
+  const ruleName = text('rule_name') || '';
+  switch (operation.op) {
+    case 'add-rule':
+      return {
+        op: 'add-rule',
+        ruleName,
+        pattern: text('pattern'),
+        definition: text('definition'),
+        skip: (operation.skip as boolean) || false,
+        channel: text('channel'),
+        fragment: (operation.fragment as boolean) || false,
+        returns: text('return_type'),
+        arguments: text('arguments'),
+        locals: text('locals'),
+        throws: (operation.throws as string[]) || undefined,
+        init: text('init_action'),
+        after: text('after_action'),
+        insertAfter: text('insert_after'),
+        insertBefore: text('insert_before'),
+      };
+    case 'update-rule':
+      return { op: 'update-rule', ruleName, newDefinition: text('new_definition') || '' };
+    case 'rename-rule':
+      return {
+        op: 'rename-rule',
+        oldName: text('old_name') || '',
+        newName: text('new_name') || '',
+      };
+    case 'move-rule':
+      return {
+        op: 'move-rule',
+        ruleName,
+        position: operation.position === 'after' ? 'after' : 'before',
+        anchorRule: text('anchor_rule') || '',
+      };
+    case 'inline-rule':
+      return {
+        op: 'inline-rule',
+        ruleName,
+        preserveParentheses: (operation.preserve_parentheses as boolean) || false,
+      };
+    default:
+      // remove-rule, and unknown operations that applyEdits reports
+      return { op: operation.op, ruleName } as GrammarEdit;
+  }
+}
+
+/**
+ * Record validation issues as a baseline file, or keep only the issues the
+ * baseline does not know. `complete` means the report is the whole answer.
+ * Entries in `otherCategories` come from checks the caller does not run.
+ */
+function applyIssueBaseline(
+  issues: GrammarIssue[],
+  grammarName: string,
+  baselineFile: string,
+  updateBaseline: boolean,
+  otherCategories: string[] = []
+): { issues: GrammarIssue[]; header: string; footer: string; complete: boolean; error: boolean } {
+  if (updateBaseline) {
+    const baseline = AntlrAnalyzer.createIssueBaseline(issues, grammarName);
+    const written = AntlrAnalyzer.writeIssueBaseline(baselineFile, baseline);
+    return {
+      issues,
+      header: `${written.success ? '✓' : '✗'} ${written.message}`,
+      footer: '',
+      complete: true,
+      error: !written.success,
+    };
+  }
+
+  const { baseline, error } = AntlrAnalyzer.readIssueBaseline(baselineFile);
+  if (!baseline) {
+    return {
+      issues,
+      header: `✗ ${error}. Use update_baseline: true to create it.`,
+      footer: '',
+      complete: true,
+      error: true,
+    };
+  }
+
+  const comparison = AntlrAnalyzer.compareWithBaseline(issues, {
+    ...baseline,
+    issues: baseline.issues.filter((entry) => !otherCategories.includes(entry.category)),
+  });
+  const header =
+    `Baseline ${baselineFile}: ${comparison.newIssues.length} new issue(s), ` +
+    `${comparison.knownCount} known issue(s) hidden, ` +
+    `${comparison.fixed.reduce((sum, entry) => sum + entry.count, 0)} fixed`;
+  let footer = '';
+  if (comparison.fixed.length > 0) {
+    footer = 'Fixed since the baseline (use update_baseline: true to record):\n';
+    for (const entry of comparison.fixed) {
+      const rule = entry.rule ? ` [${entry.rule}]` : '';
+      const times = entry.count > 1 ? ` (x${entry.count})` : '';
+      footer += `  - [${entry.category}] ${entry.message}${rule}${times}\n`;
+    }
+  }
+  return { issues: comparison.newIssues, header, footer, complete: false, error: false };
+}
+
 const server = new Server(
   {
     name: 'antlr4-mcp',
@@ -156,6 +275,12 @@ Returns:
           description:
             'Optional: if true, automatically load and merge imported grammars. Default: true.',
         },
+        lib_dirs: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Optional: library directories (like ANTLR -lib) searched for imported grammars and tokenVocab .g4/.tokens files.',
+        },
         summary_only: {
           type: 'boolean',
           description:
@@ -214,6 +339,16 @@ Detects:
 - Direct left recursion issues
 - Fragment rule misuse
 - Naming convention violations
+- Channels missing from channels {}
+- Lexer commands: unknown commands, pushMode/mode/type/channel targets that are not defined, skip combined with channel/type/more, popMode with an empty mode stack, more with no rule to finish the token
+- Action code written for a different language than options { language = ... }
+- Label problems: partially labeled rules, duplicate alternative labels, labels clashing with rules/tokens/arguments, \`=\` vs \`+=\` conflicts
+- ANTLR tool errors emulated offline and tagged with their ANTLR error code, e.g. [ERROR(153)]: closures that can match the empty string, fragments used as tokens, unknown modes, lexer commands in parser rules, literals without a lexer rule in parser grammars
+- Token references and literals missing from the tokenVocab (resolved to a lexer .g4 or a generated .tokens file; needs from_file)
+
+**Suppressions:** \`// antlr4-mcp-disable-next-line <check>\` silences an issue; coded issues use the check id \`antlr-<code>\` (e.g. antlr-125), others unused-rule, direct-left-recursion, mode-stack, ... With from_file, an \`.antlr4-mcp.json\` project config can turn checks off or change their severity.
+
+**Baseline:** update_baseline: true writes current issues to baseline_file, fingerprinted by check id, rule and message (not line). Later runs with baseline_file report only new issues plus fixed baseline entries, and set isError when anything is new.
 
 Returns: List of issues with severity (error/warning/info), descriptions, line numbers, and affected rule names.`,
     inputSchema: {
@@ -237,11 +372,27 @@ Returns: List of issues with severity (error/warning/info), descriptions, line n
           description:
             'Optional: if true, automatically load imported grammars and lexer vocabulary. Default: true.',
         },
+        lib_dirs: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Optional: library directories (like ANTLR -lib) searched for imported grammars and tokenVocab .g4/.tokens files.',
+        },
         max_issues: {
           type: 'number',
           description:
             'Optional: maximum number of issues to return. Default: 100. Use 0 for unlimited.',
         },
+        baseline_file: {
+          type: 'string',
+          description:
+            'Optional: baseline JSON of known issues. Only issues missing from it are reported, plus baseline entries that have been fixed.',
+        },
+        update_baseline: {
+          type: 'boolean',
+          description:
+            'Write the current issues to baseline_file instead of comparing (creates or replaces it). Default: false.',
+        },
       },
       required: ['grammar_content'],
     },
@@ -256,6 +407,7 @@ Supports:
 - ANTLR4 native diagnostics (error/warning with line/column)
 - Multi-file imports/tokenVocab with load_imports=true and from_file
 - Compile timing and generated file summary
+- Without Java, an offline emulation of the tool's semantic checks, tagged with the same ANTLR error codes
 
 Example usage:
   from_file: "MyGrammar.g4"
@@ -400,6 +552,37 @@ Returns (pattern match):
       required: ['grammar_content', 'rule_name'],
     },
   },
+  {
+    name: 'list-actions',
+    description: `List the embedded code of a grammar: named actions (@header, @members, @lexer::members, ...), @init/@after, inline {...} actions, {...}? predicates and catch/finally handlers, with their locations.
+
+**When to use:** Audit target-specific code before porting a grammar, check that refactoring kept every action, or find out which target language the actions are written for.
+
+Also reports the declared target (options { language = ... }), the language the action code looks like (Java, CSharp, Python, TypeScript, Go), and actions that will not compile for the declared target.
+
+Example usage:
+  from_file: "MyGrammar.g4"
+  kind: "named"`,
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        grammar_content: {
+          type: 'string',
+          description: 'The ANTLR4 grammar file content',
+        },
+        from_file: {
+          type: 'string',
+          description: 'Optional: path to a grammar file to read',
+        },
+        kind: {
+          type: 'string',
+          enum: ['named', 'rule', 'action', 'predicate', 'handler'],
+          description: 'Optional: only list actions of this kind',
+        },
+      },
+      required: ['grammar_content'],
+    },
+  },
   {
     name: 'get-suggestions',
     description: `Get actionable improvement suggestions for an ANTLR4 grammar.
@@ -539,12 +722,19 @@ Example - Add parser with return type:
   definition: "INT"
   return_type: "int value"
 
+Example - Add parser rule with a full signature:
+  rule_name: "expr"
+  definition: "term (PLUS term)*"
+  arguments: "int precedence"
+  locals: "int depth"
+  init_action: "depth = 0;"
+
 Features:
 - Auto-detects lexer vs parser from rule name case
 - Default: Alphabetical sorting within rule type
 - Optional: Custom positioning with insert_after/insert_before
 - Lexer-specific: skip, channel, fragment options
-- Parser-specific: return_type option
+- Parser-specific: return_type, arguments, locals, throws, init_action, after_action options
 - Prevents duplicate rule names
 - Optional file persistence with write_to_file: true
 - Diff output mode for large grammars
@@ -594,6 +784,27 @@ Returns: Modified grammar with new rule inserted, success message, position desc
           description:
             'Parser only: Return type specification (e.g., "String value", "int result")',
         },
+        arguments: {
+          type: 'string',
+          description: 'Parser only: Rule arguments without brackets (e.g., "int precedence")',
+        },
+        locals: {
+          type: 'string',
+          description: 'Parser only: Local variables without brackets (e.g., "int depth")',
+        },
+        throws: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Parser only: Exception types for a throws clause',
+        },
+        init_action: {
+          type: 'string',
+          description: 'Parser only: Code for an @init action',
+        },
+        after_action: {
+          type: 'string',
+          description: 'Parser only: Code for an @after action',
+        },
         insert_after: {
           type: 'string',
           description:
@@ -656,6 +867,102 @@ Returns: Modified grammar with rule removed, success message, file write confirm
       required: ['grammar_content', 'rule_name'],
     },
   },
+  {
+    name: 'add-declarations',
+    description: `Declare token types in a \`tokens {}\` block or custom channels in a \`channels {}\` block.
+
+**When to use:** Declare tokens that have no lexer rule (e.g. INDENT/DEDENT emitted by actions or a token source), or channels used by \`-> channel(X)\` commands.
+
+Example usage:
+  block: "tokens"
+  names: ["INDENT", "DEDENT"]
+
+The block is created after the grammar declaration, options and imports if it does not exist yet. Names already declared are skipped. Custom channels are only allowed in lexer grammars.
+
+Returns: Modified grammar, success message, file write confirmation if applicable.`,
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        grammar_content: {
+          type: 'string',
+          description: 'The ANTLR4 grammar file content',
+        },
+        from_file: {
+          type: 'string',
+          description: 'Optional: path to a grammar file to read. Required if using write_to_file.',
+        },
+        block: {
+          type: 'string',
+          enum: ['tokens', 'channels'],
+          description: 'Which block to add to',
+        },
+        names: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Token or channel names to declare',
+        },
+        write_to_file: {
+          type: 'boolean',
+          description:
+            'If true, writes modified grammar back to from_file (requires from_file to be set)',
+        },
+        output_mode: {
+          type: 'string',
+          enum: ['full', 'diff', 'none'],
+          description:
+            'Output format: "full" returns entire modified grammar, "diff" returns git-style unified diff (default for modification tools), "none" returns no content (useful for write-only operations)',
+        },
+      },
+      required: ['grammar_content', 'block', 'names'],
+    },
+  },
+  {
+    name: 'remove-declarations',
+    description: `Remove names from a \`tokens {}\` or \`channels {}\` block. The block is deleted when it becomes empty.
+
+Example usage:
+  block: "channels"
+  names: ["COMMENTS"]
+
+**Warning:** Does not update references. The result message lists rules that still use a removed token or channel.
+
+Returns: Modified grammar, success message, file write confirmation if applicable.`,
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        grammar_content: {
+          type: 'string',
+          description: 'The ANTLR4 grammar file content',
+        },
+        from_file: {
+          type: 'string',
+          description: 'Optional: path to a grammar file to read. Required if using write_to_file.',
+        },
+        block: {
+          type: 'string',
+          enum: ['tokens', 'channels'],
+          description: 'Which block to remove from',
+        },
+        names: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Token or channel names to remove',
+        },
+        write_to_file: {
+          type: 'boolean',
+          description:
+            'If true, writes modified grammar back to from_file (requires from_file to be set)',
+        },
+        output_mode: {
+          type: 'string',
+          enum: ['full', 'diff', 'none'],
+          description:
+            'Output format: "full" returns entire modified grammar, "diff" returns git-style unified diff (default for modification tools), "none" returns no content (useful for write-only operations)',
+        },
+      },
+      required: ['grammar_content', 'block', 'names'],
+    },
+  },
   {
     name: 'update-rule',
     description: `Update an existing rule definition in place. **Now supports multi-line definitions!**
@@ -916,141 +1223,291 @@ Returns:
     },
   },
   {
-    name: 'extract-fragment',
-    description: `Extract a reusable fragment rule from a pattern to reduce duplication.
-
-**When to use:** Share common patterns, improve maintainability, reduce duplication in lexer rules.
-
-Example - Extract digit pattern:
-  fragment_name: "DIGIT"
-  pattern: "[0-9]"
-
-Example - Extract letter pattern:
-  fragment_name: "LETTER"
-  pattern: "[a-zA-Z]"
+    name: 'analyze-nullability',
+    description: `Find rules that can match the empty string and the constructs that break because of them.
 
-After extraction, use the fragment in other rules:
-  ID: LETTER (LETTER | DIGIT)*
+**When to use:** When ANTLR reports "closure with at least one alternative that can match an empty string", or a loop in the parser never ends.
 
-Benefits:
-- Single source of truth for common patterns
-- Easier maintenance
-- Clearer lexer organization
-- Fragments are not tokens themselves (helper patterns only)
+Returns:
+- Nullable parser and lexer rules, each with the derivation chain that makes it nullable (e.g. stat ⇒ opt ⇒ ε)
+- Closures (\`*\`, \`+\`) and optional blocks around something nullable, e.g. \`(x?)*\`
+- Left-recursive alternatives hidden behind a nullable prefix or followed only by nullable elements
 
-Returns: Modified grammar with fragment added, original pattern preserved in existing rules.`,
+Check ids (project config, suppression comments): nullable-rule, nullable-closure, nullable-optional, nullable-left-recursion.`,
     inputSchema: {
       type: 'object' as const,
       properties: {
         grammar_content: {
           type: 'string',
-          description: 'The ANTLR4 grammar file content',
+          description: 'The ANTLR4 grammar content',
         },
         from_file: {
           type: 'string',
-          description: 'Optional: path to a grammar file to read',
-        },
-        fragment_name: {
-          type: 'string',
-          description:
-            'Name for the fragment (must be UPPERCASE, e.g., DIGIT, LETTER, IDENTIFIER_PART)',
-        },
-        pattern: {
-          type: 'string',
-          description: 'The pattern to extract as a fragment (e.g., "[0-9]", "[a-zA-Z]")',
+          description: 'Optional: path to grammar file to analyze',
         },
       },
-      required: ['grammar_content', 'fragment_name', 'pattern'],
+      required: ['grammar_content'],
     },
   },
   {
-    name: 'merge-rules',
-    description: `Merge two related rules into one rule with alternatives.
-
-**When to use:** Consolidate similar rules, reduce rule count, group related alternatives.
-
-Example - Merge literal rules:
-  rule1_name: "intLiteral"
-  rule2_name: "floatLiteral"
-  new_rule_name: "numericLiteral"
+    name: 'decision-conflicts',
+    description: `Report parser decisions that one token of lookahead cannot make (LL(1) conflicts).
 
-Result:
-  numericLiteral: intLiteral | floatLiteral
+**When to use:** To find which alternatives, subrules, optional blocks and closures need LL(2+) lookahead or a predicate before refactoring them.
 
-Benefits:
-- Reduces grammar complexity
-- Groups related alternatives logically
-- Simplifies parser structure
+Computes true FIRST and FOLLOW sets over the parser rule graph, through referenced sub-rules and nullable elements. Alternatives of left-recursive rules that start with the rule itself are skipped, since ANTLR rewrites them.
 
-Note: Original rules are removed; references to them should be updated manually or use rename-rule first.
+Example usage:
+  from_file: "MyParser.g4"
+  rule_name: "statement"
+  show_sets: true
 
-Returns: Modified grammar with merged rule created and original rules removed.`,
+Returns: For each conflicting decision, the lookahead of every path (alt N / enter / exit) and the tokens that predict more than one path. Check id: decision-conflict.`,
     inputSchema: {
       type: 'object' as const,
       properties: {
         grammar_content: {
           type: 'string',
-          description: 'The ANTLR4 grammar file content',
+          description: 'The ANTLR4 grammar content',
         },
         from_file: {
           type: 'string',
-          description: 'Optional: path to a grammar file to read',
+          description: 'Optional: path to grammar file to analyze',
         },
-        rule1_name: {
+        base_path: {
           type: 'string',
-          description: 'Name of the first rule to merge (will be removed)',
+          description: 'Optional: base directory for resolving imports and tokenVocab',
         },
-        rule2_name: {
-          type: 'string',
-          description: 'Name of the second rule to merge (will be removed)',
+        load_imports: {
+          type: 'boolean',
+          description:
+            'Optional: if true, load imported grammars and the tokenVocab lexer (needs from_file). Default: true.',
         },
-        new_rule_name: {
+        rule_name: {
           type: 'string',
-          description: 'Name for the merged rule (must follow ANTLR4 naming conventions)',
+          description: 'Optional: only report decisions inside this parser rule',
+        },
+        show_sets: {
+          type: 'boolean',
+          description:
+            'Optional: also list the FIRST and FOLLOW sets (of rule_name, or of every parser rule). Default: false.',
+        },
+        max_results: {
+          type: 'number',
+          description: 'Optional: maximum number of conflicting decisions to list. Default: 50.',
         },
       },
-      required: ['grammar_content', 'rule1_name', 'rule2_name', 'new_rule_name'],
+      required: ['grammar_content'],
     },
   },
   {
-    name: 'export-as-markdown',
-    description: `Generate comprehensive Markdown documentation for your grammar.
+    name: 'find-dead-code',
+    description: `Find rules, tokens, fragments and modes that nothing live can reach, and optionally delete them.
 
-**When to use:** Create README files, generate reference documentation, document grammar structure, share grammar specs.
+**When to use:** Cleaning up a grammar after refactoring, or checking which parts of a large multi-file grammar an entry rule actually uses.
+
+Reachability:
+- Parser rules: followed from start_rules (default: parser rules no other rule references)
+- Tokens: live when a reachable parser rule uses them (by name or literal) or they shape the token stream (skip, channel, more, mode changes)
+- Fragments: live when a live lexer rule uses them, so fragments only used by dead tokens are dead too
+- Modes: live when a live rule switches or pushes into them; rules of dead modes are dead
+Imports and the tokenVocab lexer are followed when from_file is set (load_imports).
 
 Example usage:
   from_file: "MyGrammar.g4"
+  start_rules: ["compilationUnit"]
+  remove: true
 
-Generated documentation includes:
-- Grammar name, type, and metadata
-- Overview section with rule counts
-- Parser rules section with definitions and references
-- Lexer rules section with patterns
-- Import declarations
-- Grammar options
-- Validation issues and warnings
-- Summary statistics
-
-Output format: Complete Markdown document ready for use in README.md or documentation sites.`,
+Returns: Dead items with kind, line and reason. With remove, a unified diff (default) deleting the dead items of the main file in one edit. Check ids: dead-rule, dead-token, dead-fragment, dead-mode; suppressed items are not removed.`,
     inputSchema: {
       type: 'object' as const,
       properties: {
         grammar_content: {
           type: 'string',
-          description: 'The ANTLR4 grammar file content',
+          description: 'The ANTLR4 grammar content',
         },
         from_file: {
           type: 'string',
-          description: 'Optional: path to a grammar file to read',
+          description:
+            'Optional: path to grammar file to analyze. Required if using write_to_file.',
         },
-      },
-      required: ['grammar_content'],
-    },
-  },
-  {
-    name: 'generate-summary',
-    description: `Generate a concise summary of grammar structure and health metrics.
-
+        start_rules: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Optional: entry parser rules (default: parser rules no other rule references)',
+        },
+        base_path: {
+          type: 'string',
+          description: 'Optional: base directory for resolving imports and tokenVocab',
+        },
+        load_imports: {
+          type: 'boolean',
+          description:
+            'Optional: if true, load imported grammars and the tokenVocab lexer (needs from_file). Default: true.',
+        },
+        lib_dirs: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Optional: library directories (like ANTLR -lib) searched for imported grammars and tokenVocab .g4/.tokens files.',
+        },
+        remove: {
+          type: 'boolean',
+          description:
+            'Optional: delete the dead items defined in the main grammar. Default: false.',
+        },
+        write_to_file: {
+          type: 'boolean',
+          description:
+            'If true (with remove), writes modified grammar back to from_file (requires from_file to be set)',
+        },
+        output_mode: {
+          type: 'string',
+          enum: ['full', 'diff', 'none'],
+          description:
+            'Output format with remove: "full" returns entire modified grammar, "diff" returns git-style unified diff (default for modification tools), "none" returns no content (useful for write-only operations)',
+        },
+      },
+      required: ['grammar_content'],
+    },
+  },
+  {
+    name: 'extract-fragment',
+    description: `Extract a reusable fragment rule from a pattern to reduce duplication.
+
+**When to use:** Share common patterns, improve maintainability, reduce duplication in lexer rules.
+
+Example - Extract digit pattern:
+  fragment_name: "DIGIT"
+  pattern: "[0-9]"
+
+Example - Extract letter pattern:
+  fragment_name: "LETTER"
+  pattern: "[a-zA-Z]"
+
+After extraction, use the fragment in other rules:
+  ID: LETTER (LETTER | DIGIT)*
+
+Benefits:
+- Single source of truth for common patterns
+- Easier maintenance
+- Clearer lexer organization
+- Fragments are not tokens themselves (helper patterns only)
+
+Returns: Modified grammar with fragment added, original pattern preserved in existing rules.`,
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        grammar_content: {
+          type: 'string',
+          description: 'The ANTLR4 grammar file content',
+        },
+        from_file: {
+          type: 'string',
+          description: 'Optional: path to a grammar file to read',
+        },
+        fragment_name: {
+          type: 'string',
+          description:
+            'Name for the fragment (must be UPPERCASE, e.g., DIGIT, LETTER, IDENTIFIER_PART)',
+        },
+        pattern: {
+          type: 'string',
+          description: 'The pattern to extract as a fragment (e.g., "[0-9]", "[a-zA-Z]")',
+        },
+      },
+      required: ['grammar_content', 'fragment_name', 'pattern'],
+    },
+  },
+  {
+    name: 'merge-rules',
+    description: `Merge two related rules into one rule with alternatives.
+
+**When to use:** Consolidate similar rules, reduce rule count, group related alternatives.
+
+Example - Merge literal rules:
+  rule1_name: "intLiteral"
+  rule2_name: "floatLiteral"
+  new_rule_name: "numericLiteral"
+
+Result:
+  numericLiteral: intLiteral | floatLiteral
+
+Benefits:
+- Reduces grammar complexity
+- Groups related alternatives logically
+- Simplifies parser structure
+
+Note: Original rules are removed; references to them should be updated manually or use rename-rule first.
+
+Returns: Modified grammar with merged rule created and original rules removed.`,
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        grammar_content: {
+          type: 'string',
+          description: 'The ANTLR4 grammar file content',
+        },
+        from_file: {
+          type: 'string',
+          description: 'Optional: path to a grammar file to read',
+        },
+        rule1_name: {
+          type: 'string',
+          description: 'Name of the first rule to merge (will be removed)',
+        },
+        rule2_name: {
+          type: 'string',
+          description: 'Name of the second rule to merge (will be removed)',
+        },
+        new_rule_name: {
+          type: 'string',
+          description: 'Name for the merged rule (must follow ANTLR4 naming conventions)',
+        },
+      },
+      required: ['grammar_content', 'rule1_name', 'rule2_name', 'new_rule_name'],
+    },
+  },
+  {
+    name: 'export-as-markdown',
+    description: `Generate comprehensive Markdown documentation for your grammar.
+
+**When to use:** Create README files, generate reference documentation, document grammar structure, share grammar specs.
+
+Example usage:
+  from_file: "MyGrammar.g4"
+
+Generated documentation includes:
+- Grammar name, type, and metadata
+- Overview section with rule counts
+- Parser rules section with definitions and references
+- Lexer rules section with patterns
+- Import declarations
+- Grammar options
+- Validation issues and warnings
+- Summary statistics
+
+Output format: Complete Markdown document ready for use in README.md or documentation sites.`,
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        grammar_content: {
+          type: 'string',
+          description: 'The ANTLR4 grammar file content',
+        },
+        from_file: {
+          type: 'string',
+          description: 'Optional: path to a grammar file to read',
+        },
+      },
+      required: ['grammar_content'],
+    },
+  },
+  {
+    name: 'generate-summary',
+    description: `Generate a concise summary of grammar structure and health metrics.
+
 **When to use:** Quick health checks, progress tracking, overview reports, or grammar comparisons.
 
 Example usage:
@@ -1330,95 +1787,283 @@ Returns:
     },
   },
   {
-    name: 'preview-tokens',
-    description: `Preview how input text would be tokenized by lexer rules. Test grammar changes instantly!
-
-**🚀 Native ANTLR4 Support:**
-Automatically uses native ANTLR4 runtime if available for 100% accurate tokenization including:
-- ✅ Lexer modes (pushMode, popMode)
-- ✅ Semantic predicates ({...?})
-- ✅ Actions ({...})
-- ✅ All ANTLR4 features
-
-Falls back to simulation if ANTLR4 is not installed (works for simple grammars without modes/predicates).
-
-**When to use:** 
-- Test if lexer rules match input as expected
-- Debug tokenization issues (especially with complex grammars!)
-- Verify grammar changes work correctly
-- Learn how ANTLR4 tokenizes input
-
-**Setup for 100% accuracy (optional):**
-1. Install Java: brew install openjdk
-2. Install ANTLR4: wget https://www.antlr.org/download/antlr-4.13.1-complete.jar
-3. Set env: export ANTLR4_JAR=/path/to/antlr-4.13.1-complete.jar
-
-**How it works:**
-- Native mode: Compiles and executes actual ANTLR4 lexer (100% accurate)
-- Simulation mode: Best-effort tokenization (works for ~70% of grammars)
+    name: 'apply-edits',
+    description: `Apply an ordered batch of rule edits as one transaction: in memory, validated, then one diff and one write.
 
-Example - Test basic tokenization:
-  input: "x = 42;"
-  
-Example - Test with complex lexer (Palo Alto):
-  from_file: "PaloAlto_lexer.g4"
-  load_imports: true
-  input: "set user-id-collector enable-mapping-timeout 1"
-  
-Example - Test specific rules only:
-  input: "x + y * 2"
-  rules_to_test: ["ID", "PLUS", "TIMES", "INT"]
+**When to use:** A change that needs several edits ("add 5 tokens, update 3 rules, rename 1 rule"). Separate tool calls each write to disk and can leave the grammar half-edited.
 
-Returns:
-- List of tokens with types and values
-- Character positions (start, end, line, column)
-- Channel information for channeled tokens
-- Errors for unmatched characters
-- Mode indicator (🚀 Native or ⚠️ Simulation)
-- Feature warnings if simulation used
+Each operation names its tool in "op" and takes that tool's arguments:
+- add-rule: rule_name, pattern (lexer) or definition (parser), skip, channel, fragment, return_type, arguments, locals, throws, init_action, after_action, insert_after, insert_before
+- update-rule: rule_name, new_definition
+- remove-rule: rule_name
+- rename-rule: old_name, new_name (with from_file, also in the grammars it imports or takes its tokenVocab from)
+- move-rule: rule_name, position ("before", the default, or "after"), anchor_rule
+- inline-rule: rule_name, preserve_parentheses
 
-**Limitations:**
-❌ Lexer modes not supported
-❌ Semantic predicates not evaluated  
-❌ Actions not executed
-⚠️  Fragment rules (basic support)
-⚠️  Complex patterns (best-effort)
+How it works:
+1. Operations run in order, each on the result of the previous one; if one fails, nothing is applied
+2. validate-grammar checks the result (with imports, tokenVocab and the project's .antlr4-mcp.json severities when from_file is given); errors the grammar did not have before fail the batch, and with strict: true new warnings (such as references to undefined rules) too
+3. With compile: true, the result is also compiled with the native ANTLR tool (when Java and ANTLR are available)
+4. Only when everything passes, write_to_file writes the grammar and any imported grammars a rename changed, all or none
 
-**Alternative:** For complex grammars, use test-parser-rule which tests parser rules without full lexer simulation.
+**Example:**
+  operations: [
+    { "op": "add-rule", "rule_name": "ARROW", "pattern": "'=>'" },
+    { "op": "update-rule", "rule_name": "lambda", "new_definition": "params ARROW expr" },
+    { "op": "rename-rule", "old_name": "expr", "new_name": "expression" }
+  ]
 
-**Note:** This is a simplified simulation. For 100% accuracy, use ANTLR4 tooling.`,
+Returns: Result of each operation, new validation issues, compile diagnostics, and a unified diff per changed file (default).`,
     inputSchema: {
       type: 'object' as const,
       properties: {
         grammar_content: {
           type: 'string',
-          description: 'The ANTLR4 grammar file content with lexer rules',
+          description: 'The ANTLR4 grammar file content',
         },
         from_file: {
           type: 'string',
-          description: 'Optional: path to a grammar file to read',
+          description: 'Optional: path to a grammar file to read (and to write with write_to_file)',
         },
-        input: {
-          type: 'string',
-          description: 'Input text to tokenize. Can include newlines and special characters.',
+        operations: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              op: {
+                type: 'string',
+                enum: [
+                  'add-rule',
+                  'update-rule',
+                  'remove-rule',
+                  'rename-rule',
+                  'move-rule',
+                  'inline-rule',
+                ],
+              },
+            },
+            required: ['op'],
+          },
+          description: 'Edits to apply in order, each with the arguments of the tool named in op',
         },
-        show_positions: {
+        strict: {
           type: 'boolean',
           description:
-            'If true, show detailed position information (line, column, start, end) for each token',
+            'If true, new validation warnings also fail the batch (default: only new errors)',
         },
-        rules_to_test: {
+        compile: {
+          type: 'boolean',
+          description: 'If true, also runs a native ANTLR compile check before writing',
+        },
+        base_path: {
+          type: 'string',
+          description: 'Optional: base directory for resolving imports',
+        },
+        lib_dirs: {
           type: 'array',
           items: { type: 'string' },
           description:
-            'Optional: Test only specific lexer rules (by name). Useful for focused testing.',
+            'Optional: library directories (like ANTLR -lib) searched for imported grammars.',
+        },
+        write_to_file: {
+          type: 'boolean',
+          description: 'If true and all checks pass, writes the modified grammar back to from_file',
+        },
+        output_mode: {
+          type: 'string',
+          enum: ['full', 'diff', 'none'],
+          description:
+            'Output format: "full" returns the modified grammar, "diff" returns a git-style unified diff (default), "none" returns no content',
         },
       },
-      required: ['grammar_content', 'input'],
+      required: ['operations'],
     },
   },
   {
-    name: 'add-tokens-with-template',
+    name: 'undo-last-edit',
+    description: `Undo the last file write made by an editing tool (write_to_file), restoring every file it touched.
+
+**When to use:** An edit written to disk turned out wrong.
+
+Every write is journaled per workspace (the nearest directory with .antlr4-mcp.json or .git) in .antlr4-mcp-history.json: tool name, arguments, before/after content hashes and contents. Undo takes the newest entry; redo-edit reapplies it.
+
+If a file was changed after the edit (by hand or outside the tools), undo refuses. With merge: true it instead reverts only the edit's own changes and keeps the later ones (3-way merge); changes that overlap or touch the edited lines are still refused.
+
+Returns: The undone entry and a unified diff (default) per restored file.`,
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        from_file: {
+          type: 'string',
+          description: 'A file in the workspace (e.g. the edited grammar)',
+        },
+        workspace: {
+          type: 'string',
+          description:
+            'Optional: workspace directory instead of from_file (default: current directory)',
+        },
+        merge: {
+          type: 'boolean',
+          description: 'If true, keeps changes made after the edit instead of refusing',
+        },
+        output_mode: {
+          type: 'string',
+          enum: ['diff', 'none'],
+          description:
+            'Output format: "diff" returns a unified diff per file (default), "none" returns no content',
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'redo-edit',
+    description: `Reapply the last edit undone with undo-last-edit.
+
+Refuses when a file changed after the undo, unless merge: true (3-way merge, refused on changes that overlap or touch the edited lines). A new journaled write clears what can be redone.
+
+Returns: The redone entry and a unified diff (default) per file.`,
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        from_file: {
+          type: 'string',
+          description: 'A file in the workspace (e.g. the edited grammar)',
+        },
+        workspace: {
+          type: 'string',
+          description:
+            'Optional: workspace directory instead of from_file (default: current directory)',
+        },
+        merge: {
+          type: 'boolean',
+          description: 'If true, keeps changes made after the undo instead of refusing',
+        },
+        output_mode: {
+          type: 'string',
+          enum: ['diff', 'none'],
+          description:
+            'Output format: "diff" returns a unified diff per file (default), "none" returns no content',
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'list-edit-history',
+    description: `List the journaled file writes of a workspace, newest first, and the undone edits redo-edit can reapply.
+
+Returns: Per edit its id, time, tool, arguments and the files with before/after content hashes.`,
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        from_file: {
+          type: 'string',
+          description: 'A file in the workspace (e.g. the edited grammar)',
+        },
+        workspace: {
+          type: 'string',
+          description:
+            'Optional: workspace directory instead of from_file (default: current directory)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of edits to list (default: 20)',
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'preview-tokens',
+    description: `Preview how input text would be tokenized by lexer rules. Test grammar changes instantly!
+
+**🚀 Native ANTLR4 Support:**
+Automatically uses native ANTLR4 runtime if available for 100% accurate tokenization including:
+- ✅ Lexer modes (pushMode, popMode)
+- ✅ Semantic predicates ({...?})
+- ✅ Actions ({...})
+- ✅ All ANTLR4 features
+
+Falls back to simulation if ANTLR4 is not installed (works for simple grammars without modes/predicates).
+
+**When to use:** 
+- Test if lexer rules match input as expected
+- Debug tokenization issues (especially with complex grammars!)
+- Verify grammar changes work correctly
+- Learn how ANTLR4 tokenizes input
+
+**Setup for 100% accuracy (optional):**
+1. Install Java: brew install openjdk
+2. Install ANTLR4: wget https://www.antlr.org/download/antlr-4.13.1-complete.jar
+3. Set env: export ANTLR4_JAR=/path/to/antlr-4.13.1-complete.jar
+
+**How it works:**
+- Native mode: Compiles and executes actual ANTLR4 lexer (100% accurate)
+- Simulation mode: Best-effort tokenization (works for ~70% of grammars)
+
+Example - Test basic tokenization:
+  input: "x = 42;"
+  
+Example - Test with complex lexer (Palo Alto):
+  from_file: "PaloAlto_lexer.g4"
+  load_imports: true
+  input: "set user-id-collector enable-mapping-timeout 1"
+  
+Example - Test specific rules only:
+  input: "x + y * 2"
+  rules_to_test: ["ID", "PLUS", "TIMES", "INT"]
+
+Returns:
+- List of tokens with types and values
+- Character positions (start, end, line, column)
+- Channel information for channeled tokens
+- Errors for unmatched characters
+- Mode indicator (🚀 Native or ⚠️ Simulation)
+- Feature warnings if simulation used
+
+**Limitations:**
+❌ Lexer modes not supported
+❌ Semantic predicates not evaluated  
+❌ Actions not executed
+⚠️  Fragment rules (basic support)
+⚠️  Complex patterns (best-effort)
+
+**Alternative:** For complex grammars, use test-parser-rule which tests parser rules without full lexer simulation.
+
+**Note:** This is a simplified simulation. For 100% accuracy, use ANTLR4 tooling.`,
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        grammar_content: {
+          type: 'string',
+          description: 'The ANTLR4 grammar file content with lexer rules',
+        },
+        from_file: {
+          type: 'string',
+          description: 'Optional: path to a grammar file to read',
+        },
+        input: {
+          type: 'string',
+          description: 'Input text to tokenize. Can include newlines and special characters.',
+        },
+        show_positions: {
+          type: 'boolean',
+          description:
+            'If true, show detailed position information (line, column, start, end) for each token',
+        },
+        rules_to_test: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Optional: Test only specific lexer rules (by name). Useful for focused testing.',
+        },
+      },
+      required: ['grammar_content', 'input'],
+    },
+  },
+  {
+    name: 'add-tokens-with-template',
     description: `Add multiple similar lexer tokens at once using template-based generation.
 
 **When to use:** 
@@ -1735,10 +2380,10 @@ Returns:
 - Inverse of extract-fragment refactoring
 
 **How it works:**
-1. Validates rule can be inlined (no circular references, not recursive, actually used)
+1. Validates rule can be inlined (no circular references, not recursive, actually used, no returns/locals/throws/options/@init/@after, arguments unused by the body)
 2. Extracts rule body (removes labels, actions preserved)
 3. Finds all references to the rule
-4. Replaces references with rule body (adds parentheses if needed)
+4. Replaces references (and their call-site arguments) with rule body (adds parentheses if needed)
 5. Removes original rule definition
 
 Example - Simple pass-through:
@@ -1805,138 +2450,122 @@ Validates:
     },
   },
   {
-    name: 'sort-rules',
-    description: `Reorder rules in a grammar according to various sorting strategies.
-
-**When to use:**
-- Clean up messy grammar files
-- Organize rules logically
-- Improve readability and maintenance
-- Group related rules together
-
-**Sorting Strategies:**
-
-1. **alphabetical** (default)
-   - Sorts parser rules alphabetically
-   - Then sorts lexer rules alphabetically
-   - Most common for general organization
-
-2. **type**
-   - Groups by rule type
-   - parser_first: true (default) - parser rules first
-   - parser_first: false - lexer rules first
-
-3. **dependency**
-   - Orders rules based on relationship to anchor rule
-   - Requires anchor_rule option
-   - Order: dependencies → anchor → dependents → rest
-   - Useful for understanding rule relationships
-
-4. **usage**
-   - Most-referenced rules first
-   - Helps identify "core" rules
-   - Useful for understanding grammar structure
-
-Example - Alphabetical:
-  strategy: "alphabetical"
-
-Example - Dependency-based:
-  strategy: "dependency"
-  anchor_rule: "expression"
-
-Example - Type-based:
-  strategy: "type"
-  parser_first: false  // Lexer rules first
-
-Features:
-- Preserves multi-line rule formatting
-- Maintains blank lines after rules
-- Preserves header (grammar declaration, imports, options)
-- Handles all rule types (parser, lexer, fragment)
-
-Returns:
-- Reordered grammar
-- Statistics (total rules, strategy used)`,
+    name: 'extract-rule',
+    description: `Move a sub-expression of a rule into a new rule and reference it instead (the inverse of inline-rule).
+
+**When to use:** Name a repeated or overly long piece of a rule, split a large rule, or pull a group of alternatives out into a rule of their own.
+
+Select the sub-expression either by text or by path:
+- expression: "expr (',' expr)*" - the first structurally identical occurrence in the rule (whitespace and comments do not matter)
+- path: 1-based alternative and element positions, alternating
+  - "2" - alternative 2
+  - "2.3" - element 3 of alternative 2
+  - "2.3.1" - alternative 1 inside that block
+  - "1.2-4" - elements 2 to 4 of alternative 1
+  - "2-3" - alternatives 2 and 3
+
+Example:
+  rule_name: "call"
+  new_rule_name: "argList"
+  expression: "expr (',' expr)*"
+  // Before: call : ID '(' expr (',' expr)* ')' ;
+  // After:  call : ID '(' argList ')' ;
+  //         argList : expr (',' expr)* ;
+
+Behavior:
+- The new rule is added after the source rule in the grammar's formatting style; sub-expressions of lexer rules become fragments
+- A block filled by the selection is replaced with the reference: (',' expr)* becomes argList* when extracting ',' expr
+- Only the selected occurrence is replaced unless replace_all is set; replace_all also replaces identical occurrences in other rules, and with load_imports in the grammars that import the defining file
+- Refuses selections with labels or $-attributes, names that exist already, and extractions that would create indirect left recursion
+
+Returns: Unified diff (default) per changed file, number of occurrences replaced, file write confirmation if applicable.`,
     inputSchema: {
       type: 'object' as const,
       properties: {
         grammar_content: {
           type: 'string',
-          description: 'The ANTLR4 grammar file content',
+          description:
+            'The ANTLR4 grammar file content (ignored if from_file and load_imports are set)',
         },
         from_file: {
           type: 'string',
-          description: 'Optional: path to a grammar file to read. Required if using write_to_file.',
+          description:
+            'Optional: path to a grammar file to read. Required if using write_to_file or load_imports.',
         },
-        strategy: {
+        rule_name: {
           type: 'string',
-          enum: ['alphabetical', 'type', 'dependency', 'usage'],
-          description: 'Sorting strategy: alphabetical (default), type, dependency, or usage',
+          description: 'Rule containing the sub-expression',
         },
-        anchor_rule: {
+        new_rule_name: {
           type: 'string',
           description:
-            'For dependency strategy: the rule to use as anchor (rules used by this rule come first)',
+            'Name of the new rule (lowercase first letter for parser rules, uppercase for lexer fragments)',
         },
-        parser_first: {
+        expression: {
+          type: 'string',
+          description: 'Sub-expression to extract, e.g. "expr (\',\' expr)*" or "INT | FLOAT"',
+        },
+        path: {
+          type: 'string',
+          description:
+            'Alternative/element path of the sub-expression instead of expression, e.g. "2.3" or "1.2-4"',
+        },
+        replace_all: {
           type: 'boolean',
-          description: 'For type strategy: if true (default), parser rules come before lexer rules',
+          description:
+            'Optional: also replace every other structurally identical occurrence. Default: false.',
+        },
+        load_imports: {
+          type: 'boolean',
+          description:
+            'Optional: if true, work across imported grammars (needs from_file). Default: false.',
+        },
+        base_path: {
+          type: 'string',
+          description: 'Optional: base directory for resolving imports',
+        },
+        lib_dirs: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Optional: library directories (like ANTLR -lib) searched for imported grammars.',
         },
         write_to_file: {
           type: 'boolean',
           description:
             'If true, writes modified grammar back to from_file (requires from_file to be set)',
         },
+        output_mode: {
+          type: 'string',
+          enum: ['full', 'diff', 'none'],
+          description:
+            'Output format: "full" returns entire modified grammar, "diff" returns git-style unified diff (default), "none" returns no content',
+        },
       },
-      required: ['grammar_content'],
+      required: ['grammar_content', 'rule_name', 'new_rule_name'],
     },
   },
   {
-    name: 'analyze-ambiguities',
-    description: `Analyze grammar for common ambiguity patterns that may cause conflicts at runtime.
-
-**When to use:** Before compiling grammar, after making changes, or when diagnosing parser warnings.
+    name: 'left-factor-rule',
+    description: `Left-factor a parser rule: merge alternatives that start with the same elements into one alternative with a subrule.
 
-**Detection Capabilities:**
+**When to use:** analyze-ambiguities reports overlapping prefixes, or decision-conflicts shows alternatives predicted by the same token.
 
-1. **Identical Alternatives** (ERROR)
-   - Detects exact duplicate alternatives in rules
-   - Example: \`expr: ID | NUMBER | ID\` → duplicate ID alternative
+Example:
+  rule_name: "stat"
+  // Before: stat : 'if' expr 'then' stat | 'if' expr 'then' stat 'else' stat | ID '=' expr ;
+  // After:  stat : 'if' expr 'then' stat ('else' stat)? | ID '=' expr ;
 
-2. **Overlapping Prefixes** (WARNING)
-   - Finds alternatives that start with same tokens
-   - Example: \`stmt: IF expr THEN stmt | IF expr THEN stmt ELSE stmt\`
-   - Suggestion: Factor out common prefix
+Behavior:
+- Nested prefixes are factored too: X Y Z b | X Y Z c | X Y d becomes X Y (Z (b | c) | d)
+- Alternatives that end where another continues make the rest optional: ID | ID '(' args ')' becomes ID ('(' args ')')?
+- Elements only match with the same label and identical actions; left-recursive alternatives and alternatives with <options> are left alone
+- Alternative labels (# Label) of merged alternatives would be lost: refused unless drop_labels is set, in which case the merged alternative is relabelled when the rule keeps other labels
+- Reports the rule's LL(1) decision conflicts (FIRST-set overlaps) before and after the rewrite
 
-3. **Ambiguous Optionals** (WARNING)
-   - Detects \`A? A\` patterns (should be \`A+\`)
-   - Detects \`A? A*\` patterns (A* is sufficient)
-
-4. **Hidden Left Recursion** (ERROR)
-   - Detects indirect left recursion via other rules
-   - Example: \`expr: term\`, \`term: expr PLUS\` → hidden recursion
-
-5. **Lexer Conflicts** (WARNING)
-   - Identifies lexer rules that may overlap
-   - Example: \`ID: [a-z]+\` and \`KEYWORD: 'if'\` → keyword is also valid ID
-
-**Options:**
-- Selective checks: Enable/disable specific ambiguity patterns
-- Minimum prefix length: Set threshold for prefix overlap warnings
-- Severity levels: ERROR (must fix), WARNING (should review), INFO (optional)
-
-**Returns:**
-- List of issues with severity, type, rule name, line number
-- Detailed descriptions and actionable suggestions
-- Summary counts (errors, warnings, infos)
-
-**Example usage:**
-  from_file: "MyGrammar.g4"
-  checkIdenticalAlternatives: true
-  checkOverlappingPrefixes: true
-  minPrefixLength: 2`,
+Returns: Factored groups, conflicts before/after, unified diff (default) of the grammar, file write confirmation if applicable.`,
     inputSchema: {
-      type: 'object',
+      type: 'object' as const,
       properties: {
         grammar_content: {
           type: 'string',
@@ -1944,308 +2573,359 @@ Returns:
         },
         from_file: {
           type: 'string',
-          description: 'Optional: path to a grammar file to read',
-        },
-        checkIdenticalAlternatives: {
-          type: 'boolean',
-          description: 'Check for duplicate alternatives (default: true)',
+          description: 'Optional: path to a grammar file to read. Required if using write_to_file.',
         },
-        checkOverlappingPrefixes: {
-          type: 'boolean',
-          description: 'Check for alternatives with common prefixes (default: true)',
+        rule_name: {
+          type: 'string',
+          description: 'Parser rule to left-factor',
         },
-        checkAmbiguousOptionals: {
-          type: 'boolean',
-          description: 'Check for ambiguous optional patterns like A? A (default: true)',
+        min_prefix_length: {
+          type: 'number',
+          description:
+            'Optional: only merge alternatives sharing at least this many leading elements. Default: 1.',
         },
-        checkLeftRecursion: {
+        drop_labels: {
           type: 'boolean',
-          description: 'Check for hidden left recursion (default: true)',
+          description:
+            'Optional: drop the # labels of merged alternatives instead of refusing. Default: false.',
         },
-        checkLexerConflicts: {
+        write_to_file: {
           type: 'boolean',
-          description: 'Check for lexer rule conflicts (default: true)',
+          description:
+            'If true, writes modified grammar back to from_file (requires from_file to be set)',
         },
-        minPrefixLength: {
-          type: 'number',
-          description: 'Minimum prefix length for overlap warnings (default: 2)',
+        output_mode: {
+          type: 'string',
+          enum: ['full', 'diff', 'none'],
+          description:
+            'Output format: "full" returns entire modified grammar, "diff" returns git-style unified diff (default), "none" returns no content',
         },
       },
-      required: ['grammar_content'],
+      required: ['grammar_content', 'rule_name'],
     },
   },
   {
-    name: 'analyze-lexer-modes',
-    description: `Analyze lexer mode structure in ANTLR4 grammars.
+    name: 'literals-to-tokens',
+    description: `Replace string literals in parser rules ('interface', ';') with named lexer tokens.
 
-**When to use:** Understanding mode-based tokenization, debugging mode transitions, documenting mode structure.
+**When to use:** Get rid of implicit T__n token names in generated code, or prepare a combined grammar for splitting into lexer and parser grammars.
 
-**Lexer modes** allow context-sensitive tokenization by switching between different sets of lexer rules.
-Common use cases:
-- String interpolation (switching modes inside strings)
-- Nested comments
-- Template parsing
-- Context-specific keywords
+How it works:
+1. Collects every literal used in parser rules (including imported grammars with load_imports)
+2. Reuses a lexer rule whose definition is exactly that literal (SEMI : ';' ;)
+3. Otherwise adds a token via add-lexer-rule, named by convention: 'interface' → INTERFACE, 'instanceOf' → INSTANCE_OF, ';' → SEMI, '(' → LPAREN, '<=' → LE; names clashing with existing rules get a suffix ('id' next to ID → ID_KW)
+4. Rewrites all parser references in one diff
 
-**Features:**
-- Lists all defined modes with their rules
-- Identifies mode entry points (pushMode actions)
-- Identifies mode exit points (popMode actions)
-- Detects common issues (undefined modes, unreachable modes, popMode in DEFAULT_MODE)
+New tokens go before the first lexer rule so keywords keep priority over identifier rules. For a parser grammar, they go into its tokenVocab lexer grammar (needs load_imports and from_file).
 
-**Returns:**
-- modes: List of modes with their rules and line numbers
-- entryPoints: Rules that push to each mode
-- exitPoints: Rules that pop from each mode
-- issues: Problems detected (undefined modes, empty modes, etc.)
+Example:
+  names: { "'=='": "EQ" }
+  // Before: cond : expr '==' expr ;
+  // After:  cond : expr EQ expr ;
+  //         EQ : '==';
 
-**Example usage:**
-  from_file: "MyLexer.g4"`,
+Returns: Literal → token table (reused or new, reference counts), unified diff (default) per changed file, file write confirmation if applicable.`,
     inputSchema: {
-      type: 'object',
+      type: 'object' as const,
       properties: {
         grammar_content: {
           type: 'string',
-          description: 'The ANTLR4 grammar file content',
+          description:
+            'The ANTLR4 grammar file content (ignored if from_file and load_imports are set)',
         },
         from_file: {
           type: 'string',
-          description: 'Optional: path to a grammar file to read',
+          description:
+            'Optional: path to a grammar file to read. Required if using write_to_file or load_imports.',
+        },
+        names: {
+          type: 'object',
+          description:
+            'Optional: token names for specific literals, keyed by the literal with quotes, e.g. { "\'==\'": "EQ" }',
+          additionalProperties: { type: 'string' },
+        },
+        load_imports: {
+          type: 'boolean',
+          description:
+            'Optional: if true, also rewrite imported grammars and define tokens in the tokenVocab lexer grammar (needs from_file). Default: false.',
+        },
+        base_path: {
+          type: 'string',
+          description: 'Optional: base directory for resolving imports and tokenVocab',
+        },
+        lib_dirs: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Optional: library directories (like ANTLR -lib) searched for imported grammars and tokenVocab .g4 files.',
+        },
+        write_to_file: {
+          type: 'boolean',
+          description:
+            'If true, writes modified grammar(s) back to disk (requires from_file to be set)',
+        },
+        output_mode: {
+          type: 'string',
+          enum: ['full', 'diff', 'none'],
+          description:
+            'Output format: "full" returns entire modified grammar, "diff" returns git-style unified diff (default), "none" returns no content',
         },
       },
       required: ['grammar_content'],
     },
   },
   {
-    name: 'analyze-mode-transitions',
-    description: `Analyze mode transition graph and detect issues in ANTLR4 lexer modes.
+    name: 'split-grammar',
+    description: `Split a combined grammar X into lexer grammar XLexer and parser grammar XParser (options { tokenVocab=XLexer; }).
 
-**When to use:** Debugging mode switching logic, ensuring balanced push/pop, detecting circular transitions.
+**When to use:** A prototype started as a combined grammar (create-grammar-template type=combined) needs lexer modes, which only lexer grammars support.
 
-**Features:**
-- Builds complete mode transition graph
-- Detects circular mode transitions
-- Checks for balanced pushMode/popMode usage
-- Identifies modes with no exit points
-- Suggests improvements for mode structure
+How it works:
+1. Replaces parser-rule literals with named tokens first (as literals-to-tokens; names overrides token names)
+2. XLexer.g4 gets the lexer rules, fragments, modes, tokens {}, channels {} and @lexer:: actions
+3. XParser.g4 gets the parser rules, @parser:: and unscoped actions (@header, @members)
+4. Options are divided like ANTLR does for a combined grammar: superClass/TokenLabelType/contextSuperClass stay with the parser, caseInsensitive goes to the lexer, the rest to both
 
-**Returns:**
-- transitions: List of all mode transitions (from, to, via action, rule)
-- issues: Problems detected (circular transitions, unbalanced push/pop)
-- suggestions: Recommendations for improving mode structure
+Comments move with the rule or statement they precede. Grammars with imports are refused. The combined grammar itself is left unchanged.
 
-**Example usage:**
-  from_file: "MyLexer.g4"`,
+Returns: Literal → token table, unified diff for each new file (default), write confirmation. With write_to_file, both files are written atomically to output_dir (default: the directory of from_file); existing files are never overwritten.`,
     inputSchema: {
-      type: 'object',
+      type: 'object' as const,
       properties: {
         grammar_content: {
           type: 'string',
-          description: 'The ANTLR4 grammar file content',
+          description: 'The combined ANTLR4 grammar content',
         },
         from_file: {
           type: 'string',
-          description: 'Optional: path to a grammar file to read',
+          description: 'Optional: path to the combined grammar file to read',
+        },
+        names: {
+          type: 'object',
+          description:
+            'Optional: token names for specific literals, keyed by the literal with quotes, e.g. { "\'==\'": "EQ" }',
+          additionalProperties: { type: 'string' },
+        },
+        output_dir: {
+          type: 'string',
+          description:
+            'Optional: directory for XLexer.g4 and XParser.g4 (default: directory of from_file, or the current directory)',
+        },
+        write_to_file: {
+          type: 'boolean',
+          description: 'If true, writes XLexer.g4 and XParser.g4 (both or neither)',
+        },
+        output_mode: {
+          type: 'string',
+          enum: ['full', 'diff', 'none'],
+          description:
+            'Output format: "full" returns both grammars, "diff" returns a git-style unified diff per file (default), "none" returns no content',
         },
       },
       required: ['grammar_content'],
     },
   },
   {
-    name: 'add-lexer-mode',
-    description: `Add a new lexer mode declaration to an ANTLR4 grammar.
-
-**When to use:** Creating new modes for context-sensitive tokenization.
+    name: 'flatten-imports',
+    description: `Copy all transitively imported grammars into the main grammar, producing one standalone .g4 without import statements.
 
-**Features:**
-- Adds "mode MODE_NAME;" declaration
-- Optional positioning with insert_after
-- Validates mode name format
-- Prevents duplicate mode names
+**When to use:** Hand a multi-file grammar to tools or reviewers that expect a single file.
 
-**Example - Add mode after specific rule:**
-  mode_name: "STRING_MODE"
-  insert_after: "STRING"
-  write_to_file: true
+Follows ANTLR's import semantics:
+1. Imports are visited depth-first in declaration order (import A, B: A, A's imports, then B); each file once
+2. A rule defined in the importing grammar overrides the imported one; among imports the first definition wins
+3. Imported rules follow the main grammar's rules of the same kind and mode (lexer rule order decides token priority)
+4. tokens {} and channels {} are merged; a named action (@members) defined in several grammars is concatenated
+5. Options of imported grammars are ignored
 
-**Example - Add mode at end of grammar:**
-  mode_name: "TEMPLATE_MODE"
-  write_to_file: true`,
+Returns: Rules added per imported grammar, overridden rules that were dropped (and which grammar's definition was kept), merged actions, and a unified diff (default) against the main grammar. The flattened grammar keeps the main grammar's name, so write it to a file with that name in another directory.`,
     inputSchema: {
-      type: 'object',
+      type: 'object' as const,
       properties: {
-        grammar_content: {
-          type: 'string',
-          description: 'The ANTLR4 grammar file content',
-        },
         from_file: {
           type: 'string',
-          description: 'Optional: path to a grammar file to read. Required if using write_to_file.',
+          description: 'Path to the main grammar file',
         },
-        mode_name: {
+        base_path: {
           type: 'string',
-          description: 'Name of the new mode (UPPER_CASE recommended)',
+          description: 'Optional: base directory for resolving imports',
         },
-        insert_after: {
+        lib_dirs: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Optional: library directories (like ANTLR -lib) searched for imported grammars.',
+        },
+        output_file: {
           type: 'string',
-          description: 'Optional: Insert mode declaration after this rule name',
+          description:
+            'Path to write the flattened grammar to (required for write_to_file; must not be one of the input grammars)',
         },
         write_to_file: {
           type: 'boolean',
-          description: 'If true, writes modified grammar back to from_file',
+          description: 'If true, writes the flattened grammar to output_file',
         },
         output_mode: {
           type: 'string',
           enum: ['full', 'diff', 'none'],
-          description: 'Output format: "full", "diff", or "none"',
+          description:
+            'Output format: "full" returns the flattened grammar, "diff" returns a git-style unified diff against the main grammar (default), "none" returns no content',
         },
       },
-      required: ['grammar_content', 'mode_name'],
+      required: ['from_file'],
     },
   },
   {
-    name: 'add-rule-to-mode',
-    description: `Add a lexer rule to a specific mode in an ANTLR4 grammar.
+    name: 'combine-grammars',
+    description: `Merge a parser grammar and its tokenVocab lexer grammar into one combined grammar (XParser + XLexer → grammar X). The reverse of split-grammar.
 
-**When to use:** Adding tokens that only apply in specific lexical contexts.
+**When to use:** Vendoring a small grammar into test fixtures or tools that only accept combined grammars.
 
-**Features:**
-- Places rule in the correct mode section
-- Validates mode exists
-- Supports all lexer rule options (skip, channel, fragment)
-- Auto-sorts within the mode
+How it works:
+1. The lexer grammar is found through the parser's tokenVocab (or given as lexer_file)
+2. The parser grammar keeps its layout; the lexer rules follow the parser rules
+3. options are merged and tokenVocab is removed; tokens {} are merged
+4. Lexer named actions become @lexer:: actions; parser actions stay as they are
 
-**Example - Add rule to STRING_MODE:**
-  rule_name: "INTERPOLATION_START"
-  pattern: "\\\\{"
-  mode_name: "STRING_MODE"
-  write_to_file: true
+Refused with an explanation when a combined grammar cannot express the pair:
+- Lexer modes (modes are only allowed in lexer grammars)
+- channels {} (custom channels are only supported in lexer grammars)
+- Lexer options that ANTLR would apply to the parser only (superClass, TokenLabelType), or options set differently in both grammars
+- Rule name collisions between the grammars
 
-**Example - Add with pushMode action:**
-  rule_name: "INTERPOLATION_START"
-  pattern: "\\\\{"
-  mode_name: "STRING_MODE"
-  action: "pushMode(EXPRESSION_MODE)"
-  write_to_file: true`,
+Returns: Unified diff (default) of the new grammar, file write confirmation if applicable.`,
     inputSchema: {
-      type: 'object',
+      type: 'object' as const,
       properties: {
-        grammar_content: {
-          type: 'string',
-          description: 'The ANTLR4 grammar file content',
-        },
         from_file: {
           type: 'string',
-          description: 'Optional: path to a grammar file to read. Required if using write_to_file.',
+          description: 'Path to the parser grammar',
         },
-        rule_name: {
+        lexer_file: {
           type: 'string',
-          description: 'Name of the lexer rule (UPPER_CASE)',
+          description:
+            "Optional: path to the lexer grammar (default: resolved from the parser's tokenVocab)",
         },
-        pattern: {
+        grammar_name: {
           type: 'string',
-          description: 'The lexer pattern',
+          description:
+            'Optional: name of the combined grammar (default: the parser grammar name without its Parser suffix)',
         },
-        mode_name: {
+        base_path: {
           type: 'string',
-          description: 'Name of the mode to add the rule to',
-        },
-        fragment: {
-          type: 'boolean',
-          description: 'If true, marks rule as fragment',
-        },
-        skip: {
-          type: 'boolean',
-          description: 'If true, adds "-> skip" directive',
+          description: 'Optional: base directory for resolving tokenVocab',
         },
-        channel: {
-          type: 'string',
-          description: 'Channel name to route tokens',
+        lib_dirs: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Optional: library directories (like ANTLR -lib) searched for the tokenVocab .g4 file.',
         },
-        action: {
+        output_file: {
           type: 'string',
-          description: 'Lexer action (e.g., "pushMode(MODE)", "popMode", "type(TYPE)")',
+          description:
+            'Path to write the combined grammar to (required for write_to_file; must not be one of the input grammars)',
         },
         write_to_file: {
           type: 'boolean',
-          description: 'If true, writes modified grammar back to from_file',
+          description: 'If true, writes the combined grammar to output_file',
         },
         output_mode: {
           type: 'string',
           enum: ['full', 'diff', 'none'],
-          description: 'Output format: "full", "diff", or "none"',
+          description:
+            'Output format: "full" returns the combined grammar, "diff" returns a git-style unified diff (default), "none" returns no content',
         },
       },
-      required: ['grammar_content', 'rule_name', 'pattern', 'mode_name'],
+      required: ['from_file'],
     },
   },
   {
-    name: 'move-rule-to-mode',
-    description: `Move an existing lexer rule to a different mode.
+    name: 'move-rule-to-file',
+    description: `Move one or more rules, with the comments above them, from one grammar file to another in the import graph of a main grammar.
 
-**When to use:** Reorganizing lexer rules, fixing mode placement, refactoring grammar structure.
+**When to use:** Reorganizing a multi-file grammar, such as moving shared rules into a common imported grammar or pulling a rule back into the grammar that uses it.
 
-**Features:**
-- Moves lexer rules between modes
-- Preserves rule definition exactly
-- Validates source rule exists and is a lexer rule
-- Validates target mode exists
+The import graph is the main grammar, its transitive imports and its tokenVocab lexer grammar (with that grammar's imports). Each rule is taken from the file whose definition ANTLR uses.
 
-**Example - Move rule to STRING_MODE:**
-  rule_name: "STRING_CONTENT"
-  target_mode: "STRING_MODE"
-  write_to_file: true
+Checks before anything changes:
+1. The destination must still see everything the moved rules reference (rules, tokens, and modes and channels of lexer commands), counting the destination's own imports
+2. Every other file must still see the moved rules it references
+3. The destination grammar kind must accept the rule (a lexer rule in a mode needs a lexer grammar)
 
-**Note:** Parser rules cannot be moved to modes (they don't have mode context).`,
+Warns when the move changes ANTLR import override resolution, e.g. when another imported definition of the rule would win after the move, and when a moved lexer rule ends up behind one that takes its strings (ANTLR adds imported lexer rules after the importer's own).
+
+Rules go after the destination's rules of the same kind and mode, or next to insert_after/insert_before. A mode emptied by the move is removed.
+
+Returns: Rules added and removed per file, warnings, and a unified diff (default) per modified file. With write_to_file, all files are written or none.`,
     inputSchema: {
-      type: 'object',
+      type: 'object' as const,
       properties: {
-        grammar_content: {
+        from_file: {
           type: 'string',
-          description: 'The ANTLR4 grammar file content',
+          description: 'Path to the main grammar file whose import graph contains the rules',
         },
-        from_file: {
+        rule_names: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Names of the rules to move',
+        },
+        target_file: {
           type: 'string',
-          description: 'Optional: path to a grammar file to read',
+          description:
+            'Path to the grammar file to move the rules to (the main grammar or one of its imports)',
         },
-        rule_name: {
+        insert_after: {
           type: 'string',
-          description: 'Name of the lexer rule to move',
+          description: 'Optional: rule in the target file to insert the moved rules after',
         },
-        target_mode: {
+        insert_before: {
           type: 'string',
-          description: 'Name of the mode to move the rule to',
+          description: 'Optional: rule in the target file to insert the moved rules before',
+        },
+        base_path: {
+          type: 'string',
+          description: 'Optional: base directory for resolving imports',
+        },
+        lib_dirs: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Optional: library directories (like ANTLR -lib) searched for imported grammars.',
         },
         write_to_file: {
           type: 'boolean',
-          description: 'If true, writes modified grammar back to from_file',
+          description: 'If true, writes all modified files',
         },
         output_mode: {
           type: 'string',
           enum: ['full', 'diff', 'none'],
-          description: 'Output format: "full", "diff", or "none"',
+          description:
+            'Output format: "full" returns the modified files, "diff" returns a git-style unified diff per file (default), "none" returns no content',
         },
       },
-      required: ['grammar_content', 'rule_name', 'target_mode'],
+      required: ['from_file', 'rule_names', 'target_file'],
     },
   },
   {
-    name: 'list-mode-rules',
-    description: `List all lexer rules in a specific mode.
+    name: 'label-alternatives',
+    description: `Add \`# Label\` to every unlabeled alternative of the chosen parser rules.
 
-**When to use:** Quick inspection of mode contents, debugging mode issues, understanding mode structure.
+**When to use:** Get one listener/visitor method per alternative, or fix "labels some alternatives but not all" errors from validate-grammar.
 
-**Returns:**
-- List of rules with names, patterns, and line numbers
-- Total count of rules in the mode
+Labels are derived from the alternative and suffixed with the rule name:
+- Operators: expr '*' expr → # MulExpr, expr ('+' | '-') expr → # AddSubExpr
+- Keywords: 'if' '(' expr ')' stat → # IfStat
+- Otherwise the first referenced rule or token: INT → # IntExpr
 
-**Example - List rules in STRING_MODE:**
-  mode_name: "STRING_MODE"
+Existing labels are kept. Generated labels never clash with other labels or rule names.
 
-**Example - List rules in DEFAULT_MODE:**
-  mode_name: "DEFAULT_MODE"`,
+Example usage:
+  rule_names: ["expr", "stat"]
+
+Returns: Unified diff (default) of the labeled grammar, the generated labels, file write confirmation if applicable.`,
     inputSchema: {
-      type: 'object',
+      type: 'object' as const,
       properties: {
         grammar_content: {
           type: 'string',
@@ -2253,38 +2933,43 @@ Common use cases:
         },
         from_file: {
           type: 'string',
-          description: 'Optional: path to a grammar file to read',
+          description: 'Optional: path to a grammar file to read. Required if using write_to_file.',
         },
-        mode_name: {
+        rule_names: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Parser rules whose alternatives should be labeled',
+        },
+        write_to_file: {
+          type: 'boolean',
+          description:
+            'If true, writes modified grammar back to from_file (requires from_file to be set)',
+        },
+        output_mode: {
           type: 'string',
-          description: 'Name of the mode to list rules from',
+          enum: ['full', 'diff', 'none'],
+          description:
+            'Output format: "full" returns entire modified grammar, "diff" returns git-style unified diff (default for modification tools), "none" returns no content (useful for write-only operations)',
         },
       },
-      required: ['grammar_content', 'mode_name'],
+      required: ['grammar_content', 'rule_names'],
     },
   },
   {
-    name: 'duplicate-mode',
-    description: `Duplicate a lexer mode with all its rules.
+    name: 'eliminate-left-recursion',
+    description: `Rewrite indirect (mutual) left recursion into a form ANTLR accepts.
 
-**When to use:** Creating similar modes, refactoring mode structure, creating mode templates.
+**When to use:** ANTLR reports "The following sets of rules are mutually left-recursive" (error 119), or analyze-ambiguities reports hidden left recursion.
 
-**Features:**
-- Copies all rules from source mode to new mode
-- Optional prefix for cloned rule names
-- Creates new mode declaration automatically
+ANTLR only rewrites direct left recursion (expr : expr '+' term | term). Cycles through other rules, or behind optional prefixes, are rejected. This tool expands the leading references of the cycle's first rule (or rule_name) until every alternative starts with the rule itself or with something outside the cycle:
+- a : b 'x' | 'y' ;  b : a 'z' | 'w' ;  →  a : a 'z' 'x' | 'w' 'x' | 'y' ;
+- strategy "iteration" produces a loop instead: a : ('w' 'x' | 'y') ('z' 'x')* ;
 
-**Example - Duplicate mode without prefix:**
-  source_mode: "STRING_MODE"
-  new_mode: "TEMPLATE_MODE"
+Rules with labeled alternatives, arguments, return values or actions in the expanded alternatives are refused. Rules that are no longer referenced are left in place.
 
-**Example - Duplicate with rule prefix:**
-  source_mode: "STRING_MODE"
-  new_mode: "INTERPOLATION_MODE"
-  prefix_rules: "INTERP_"
-  # Rules will be named: INTERP_STRING_CONTENT, etc.`,
+Returns: The cycles found (a → b → a), unified diff (default) of the rewritten grammar, file write confirmation if applicable.`,
     inputSchema: {
-      type: 'object',
+      type: 'object' as const,
       properties: {
         grammar_content: {
           type: 'string',
@@ -2292,120 +2977,170 @@ Common use cases:
         },
         from_file: {
           type: 'string',
-          description: 'Optional: path to a grammar file to read',
-        },
-        source_mode: {
-          type: 'string',
-          description: 'Name of the mode to duplicate',
+          description: 'Optional: path to a grammar file to read. Required if using write_to_file.',
         },
-        new_mode: {
+        rule_name: {
           type: 'string',
-          description: 'Name for the new mode',
+          description:
+            'Optional: rule to rewrite (default: the first rule of every left-recursion cycle)',
         },
-        prefix_rules: {
+        strategy: {
           type: 'string',
-          description: 'Optional prefix for cloned rule names',
+          enum: ['direct', 'iteration'],
+          description:
+            'Rewrite into direct left recursion (default) or into a loop: base (suffix)*',
         },
         write_to_file: {
           type: 'boolean',
-          description: 'If true, writes modified grammar back to from_file',
+          description:
+            'If true, writes modified grammar back to from_file (requires from_file to be set)',
         },
         output_mode: {
           type: 'string',
           enum: ['full', 'diff', 'none'],
-          description: 'Output format: "full", "diff", or "none"',
+          description:
+            'Output format: "full" returns entire modified grammar, "diff" returns git-style unified diff (default for modification tools), "none" returns no content (useful for write-only operations)',
         },
       },
-      required: ['grammar_content', 'source_mode', 'new_mode'],
+      required: ['grammar_content'],
     },
   },
   {
-    name: 'create-grammar-template',
-    description: `Create a new ANTLR4 grammar from scratch with optional mode structure.
+    name: 'sort-rules',
+    description: `Reorder rules in a grammar according to various sorting strategies.
 
-**When to use:** Starting a new grammar project, scaffolding grammar structure, creating grammar templates.
+**When to use:**
+- Clean up messy grammar files
+- Organize rules logically
+- Improve readability and maintenance
+- Group related rules together
 
-**Features:**
-- Creates lexer, parser, or combined grammar
-- Optionally includes boilerplate rules (WS, ID, NUMBER, STRING, comments)
-- Adds specified modes with placeholder comments
-- Ready-to-use structure for common patterns
+**Sorting Strategies:**
 
-**Example - Simple lexer grammar:**
-  grammar_name: "MyLexer"
-  type: "lexer"
+1. **alphabetical** (default)
+   - Sorts parser rules alphabetically
+   - Then sorts lexer rules alphabetically
+   - Most common for general organization
 
-**Example - Lexer with modes:**
-  grammar_name: "TemplateLexer"
-  type: "lexer"
-  modes: ["STRING_MODE", "COMMENT_MODE", "INTERPOLATION_MODE"]
-  include_boilerplate: true
+2. **type**
+   - Groups by rule type
+   - parser_first: true (default) - parser rules first
+   - parser_first: false - lexer rules first
 
-**Example - Combined grammar:**
-  grammar_name: "Calculator"
-  type: "combined"
-  include_boilerplate: true`,
+3. **dependency**
+   - Orders rules based on relationship to anchor rule
+   - Requires anchor_rule option
+   - Order: dependencies → anchor → dependents → rest
+   - Useful for understanding rule relationships
+
+4. **usage**
+   - Most-referenced rules first
+   - Helps identify "core" rules
+   - Useful for understanding grammar structure
+
+Example - Alphabetical:
+  strategy: "alphabetical"
+
+Example - Dependency-based:
+  strategy: "dependency"
+  anchor_rule: "expression"
+
+Example - Type-based:
+  strategy: "type"
+  parser_first: false  // Lexer rules first
+
+Features:
+- Preserves multi-line rule formatting
+- Maintains blank lines after rules
+- Preserves header (grammar declaration, imports, options)
+- Handles all rule types (parser, lexer, fragment)
+
+Returns:
+- Reordered grammar
+- Statistics (total rules, strategy used)`,
     inputSchema: {
-      type: 'object',
+      type: 'object' as const,
       properties: {
         grammar_content: {
           type: 'string',
-          description: 'Placeholder - not required for this tool',
+          description: 'The ANTLR4 grammar file content',
         },
-        grammar_name: {
+        from_file: {
           type: 'string',
-          description: 'Name for the new grammar',
+          description: 'Optional: path to a grammar file to read. Required if using write_to_file.',
         },
-        type: {
+        strategy: {
           type: 'string',
-          enum: ['lexer', 'parser', 'combined'],
-          description: 'Type of grammar to create (default: lexer)',
+          enum: ['alphabetical', 'type', 'dependency', 'usage'],
+          description: 'Sorting strategy: alphabetical (default), type, dependency, or usage',
         },
-        modes: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'List of mode names to include in the grammar',
+        anchor_rule: {
+          type: 'string',
+          description:
+            'For dependency strategy: the rule to use as anchor (rules used by this rule come first)',
         },
-        include_boilerplate: {
+        parser_first: {
           type: 'boolean',
-          description: 'Include common rules like WS, ID, NUMBER, STRING (default: true)',
+          description: 'For type strategy: if true (default), parser rules come before lexer rules',
+        },
+        write_to_file: {
+          type: 'boolean',
+          description:
+            'If true, writes modified grammar back to from_file (requires from_file to be set)',
         },
       },
-      required: ['grammar_name'],
+      required: ['grammar_content'],
     },
   },
   {
-    name: 'grammar-metrics',
-    description: `Calculate comprehensive grammar metrics including branching estimation, complexity, and dependencies.
+    name: 'analyze-ambiguities',
+    description: `Analyze grammar for common ambiguity patterns that may cause conflicts at runtime.
 
-**When to use:** Understanding grammar complexity, identifying optimization opportunities, estimating parsing performance.
+**When to use:** Before compiling grammar, after making changes, or when diagnosing parser warnings.
 
-**Metrics included:**
+**Detection Capabilities:**
 
-**Size Metrics:**
-- Total/parser/lexer rule counts
-- Fragment counts
-- Lines of code, average rule length
+1. **Identical Alternatives** (ERROR)
+   - Detects exact duplicate alternatives in rules
+   - Example: \`expr: ID | NUMBER | ID\` → duplicate ID alternative
 
-**Branching Metrics:**
-- Average/max alternatives per rule
-- Branching depth (subrule nesting)
-- Branching distribution (1-2, 3-5, 6-10, 10+)
-- Rules with most branching
+2. **Overlapping Prefixes** (WARNING)
+   - Finds alternatives that start with same tokens
+   - Example: \`stmt: IF expr THEN stmt | IF expr THEN stmt ELSE stmt\`
+   - Suggestion: Factor out common prefix
 
-**Complexity Metrics:**
-- Cyclomatic complexity (per rule and total)
-- Recursive rules detection
-- Estimated parse complexity (low/medium/high/very-high)
+3. **Ambiguous Optionals** (WARNING)
+   - Detects \`A? A\` patterns (should be \`A+\`)
+   - Detects \`A? A*\` patterns (A* is sufficient)
 
-**Dependency Metrics:**
-- Fan-in/fan-out averages
-- Orphan rules (unused)
-- Hub rules (highly referenced)
-- Most referenced rules
+4. **Hidden Left Recursion** (ERROR)
+   - Detects indirect left recursion via other rules
+   - Example: \`expr: term\`, \`term: expr PLUS\` → hidden recursion
 
-**Example:**
-  from_file: "MyGrammar.g4"`,
+5. **Lexer Conflicts** (WARNING / INFO)
+   - Compiles the lexer rules of each mode (fragments, sets, ranges, \`~\` negation included) into one automaton and applies ANTLR's longest-match, first-rule-wins semantics
+   - WARNING: rules that can never match because earlier rules take every string they match
+   - INFO: rules that lose some strings to an earlier rule (e.g. ID after keywords)
+   - Each conflict comes with the shortest example string
+   - Example: \`ID: [a-z]+\` before \`KEYWORD: 'if'\` → KEYWORD never matches, "if" goes to ID
+
+**Options:**
+- Selective checks: Enable/disable specific ambiguity patterns
+- Minimum prefix length: Set threshold for prefix overlap warnings
+- Severity levels: ERROR (must fix), WARNING (should review), INFO (optional)
+
+**Project config and suppressions:** Issue types are check ids (identical-alternatives, overlapping-prefix, ambiguous-optional, hidden-left-recursion, lexer-conflict, ...). With from_file, \`.antlr4-mcp.json\` can turn them off, change severities or set \`overlapping-prefix\` \`minPrefixLength\`; \`// antlr4-mcp-disable-next-line lexer-conflict\` silences one finding.
+
+**Returns:**
+- List of issues with severity, type, rule name, line number
+- Detailed descriptions and actionable suggestions
+- Summary counts (errors, warnings, infos)
+
+**Example usage:**
+  from_file: "MyGrammar.g4"
+  checkIdenticalAlternatives: true
+  checkOverlappingPrefixes: true
+  minPrefixLength: 2`,
     inputSchema: {
       type: 'object',
       properties: {
@@ -2417,29 +3152,61 @@ Common use cases:
           type: 'string',
           description: 'Optional: path to a grammar file to read',
         },
-      },
-      required: ['grammar_content'],
+        checkIdenticalAlternatives: {
+          type: 'boolean',
+          description: 'Check for duplicate alternatives (default: true)',
+        },
+        checkOverlappingPrefixes: {
+          type: 'boolean',
+          description: 'Check for alternatives with common prefixes (default: true)',
+        },
+        checkAmbiguousOptionals: {
+          type: 'boolean',
+          description: 'Check for ambiguous optional patterns like A? A (default: true)',
+        },
+        checkLeftRecursion: {
+          type: 'boolean',
+          description: 'Check for hidden left recursion (default: true)',
+        },
+        checkLexerConflicts: {
+          type: 'boolean',
+          description: 'Check for lexer rule conflicts (default: true)',
+        },
+        minPrefixLength: {
+          type: 'number',
+          description:
+            'Minimum prefix length for overlap warnings (default: project config, else 2)',
+        },
+      },
+      required: ['grammar_content'],
     },
   },
   {
-    name: 'detect-redos',
-    description: `Detect ReDoS (Regular Expression Denial of Service) vulnerabilities in lexer patterns.
+    name: 'analyze-lexer-modes',
+    description: `Analyze lexer mode structure in ANTLR4 grammars.
 
-**When to use:** Security audit, performance optimization, validating lexer patterns.
+**When to use:** Understanding mode-based tokenization, debugging mode transitions, documenting mode structure.
 
-**Detects:**
-- Nested quantifiers: (a+)+, (a*)*
-- Overlapping alternatives: (a|a)+
-- Alternatives with common prefix: (ab|ac)
-- Unbounded repetition of broad character classes
-- Multiple optional elements in sequence
+**Lexer modes** allow context-sensitive tokenization by switching between different sets of lexer rules.
+Common use cases:
+- String interpolation (switching modes inside strings)
+- Nested comments
+- Template parsing
+- Context-specific keywords
+
+**Features:**
+- Lists all defined modes with their rules
+- Identifies mode entry points (pushMode actions)
+- Identifies mode exit points (popMode actions)
+- Detects common issues (undefined modes, unreachable modes, popMode in DEFAULT_MODE)
 
 **Returns:**
-- List of vulnerabilities with severity (high/medium/low)
-- Line numbers and affected rules
-- Specific suggestions for each issue
+- modes: List of modes with their rules and line numbers
+- entryPoints: Rules that push to each mode
+- exitPoints: Rules that pop from each mode
+- issues: Problems detected (undefined modes, empty modes, etc.), check ids undefined-mode, unreachable-mode, mode-stack
 
-**Example:**
+**Example usage:**
   from_file: "MyLexer.g4"`,
     inputSchema: {
       type: 'object',
@@ -2457,33 +3224,25 @@ Common use cases:
     },
   },
   {
-    name: 'check-style',
-    description: `Check grammar style and best practices with quality scoring.
-
-**When to use:** Code review, maintaining grammar quality, enforcing conventions.
-
-**Checks:**
-
-**Naming Conventions:**
-- Lexer rules should use UPPER_CASE
-- Parser rules should use lowerCamelCase
+    name: 'analyze-mode-transitions',
+    description: `Analyze mode transition graph and detect issues in ANTLR4 lexer modes.
 
-**Best Practices:**
-- Missing grammar declaration
-- Unused/orphan rules
-- Overly complex rules
+**When to use:** Debugging mode switching logic, ensuring balanced push/pop, detecting circular transitions.
 
-**Maintainability:**
-- Missing documentation on complex rules
-- Rule complexity warnings
+**Features:**
+- Builds complete mode transition graph
+- Detects circular mode transitions
+- Checks for balanced pushMode/popMode usage
+- Identifies modes with no exit points
+- Suggests improvements for mode structure
 
 **Returns:**
-- Issues with severity (error/warning/info)
-- Style score (0-100)
-- Specific suggestions for each issue
+- transitions: List of all mode transitions (from, to, via action, rule)
+- issues: Problems detected (circular transitions, unbalanced push/pop)
+- suggestions: Recommendations for improving mode structure
 
-**Example:**
-  from_file: "MyGrammar.g4"`,
+**Example usage:**
+  from_file: "MyLexer.g4"`,
     inputSchema: {
       type: 'object',
       properties: {
@@ -2500,27 +3259,25 @@ Common use cases:
     },
   },
   {
-    name: 'analyze-bottlenecks',
-    description: `Analyze grammar for performance bottlenecks and optimization opportunities.
+    name: 'add-lexer-mode',
+    description: `Add a new lexer mode declaration to an ANTLR4 grammar.
 
-**When to use:** Performance optimization, grammar refactoring, large grammar analysis.
+**When to use:** Creating new modes for context-sensitive tokenization.
 
-**Detects:**
-- **High-branching rules**: Rules with many alternatives (10+, 20+, 50+)
-- **Tilde negation patterns**: ~NEWLINE, ~[\r\n] that could use lexer modes
-- **Missing lexer mode opportunities**: String handling, line-based content, multi-line blocks
-- **Greedy loop issues**: Nested quantifiers, reluctant patterns
-- **Deep recursion**: Rules with potential stack overflow risk
-- **Token prefix collisions**: Keywords that are prefixes of other keywords
+**Features:**
+- Adds "mode MODE_NAME;" declaration
+- Optional positioning with insert_after
+- Validates mode name format
+- Prevents duplicate mode names
 
-**Returns:**
-- Bottlenecks with severity (high/medium/low)
-- Specific suggestions for each issue
-- Estimated performance improvement potential
-- Prioritized recommendations
+**Example - Add mode after specific rule:**
+  mode_name: "STRING_MODE"
+  insert_after: "STRING"
+  write_to_file: true
 
-**Example:**
-  from_file: "MyGrammar.g4"`,
+**Example - Add mode at end of grammar:**
+  mode_name: "TEMPLATE_MODE"
+  write_to_file: true`,
     inputSchema: {
       type: 'object',
       properties: {
@@ -2530,40 +3287,53 @@ Common use cases:
         },
         from_file: {
           type: 'string',
-          description: 'Optional: path to a grammar file to read',
+          description: 'Optional: path to a grammar file to read. Required if using write_to_file.',
+        },
+        mode_name: {
+          type: 'string',
+          description: 'Name of the new mode (UPPER_CASE recommended)',
+        },
+        insert_after: {
+          type: 'string',
+          description: 'Optional: Insert mode declaration after this rule name',
+        },
+        write_to_file: {
+          type: 'boolean',
+          description: 'If true, writes modified grammar back to from_file',
+        },
+        output_mode: {
+          type: 'string',
+          enum: ['full', 'diff', 'none'],
+          description: 'Output format: "full", "diff", or "none"',
         },
       },
-      required: ['grammar_content'],
+      required: ['grammar_content', 'mode_name'],
     },
   },
   {
-    name: 'benchmark-parsing',
-    description: `Benchmark grammar parsing performance with sample input.
-
-**When to use:** Performance testing, comparing grammar versions, optimization validation.
+    name: 'add-rule-to-mode',
+    description: `Add a lexer rule to a specific mode in an ANTLR4 grammar.
 
-**Measures:**
-- Total tokens produced
-- Average/min/max parse time (ms)
-- Tokens per second throughput
-- Performance rating (excellent/good/fair/slow)
+**When to use:** Adding tokens that only apply in specific lexical contexts.
 
 **Features:**
-- Warmup iterations to account for JIT
-- Multiple iterations for statistical accuracy
-- Performance rating based on parse time
-- Optimization suggestions for slow grammars
+- Places rule in the correct mode section
+- Validates mode exists
+- Supports all lexer rule options (skip, channel, fragment)
+- Auto-sorts within the mode
 
-**Parameters:**
-- grammar_content or from_file: The grammar to test
-- input: Sample input text to parse
-- iterations: Number of timed iterations (default: 10)
-- warmup_iterations: Warmup runs before timing (default: 3)
+**Example - Add rule to STRING_MODE:**
+  rule_name: "INTERPOLATION_START"
+  pattern: "\\\\{"
+  mode_name: "STRING_MODE"
+  write_to_file: true
 
-**Example:**
-  from_file: "MyGrammar.g4"
-  input: "x = 42 + y * 10"
-  iterations: 20`,
+**Example - Add with pushMode action:**
+  rule_name: "INTERPOLATION_START"
+  pattern: "\\\\{"
+  mode_name: "STRING_MODE"
+  action: "pushMode(EXPRESSION_MODE)"
+  write_to_file: true`,
     inputSchema: {
       type: 'object',
       properties: {
@@ -2573,417 +3343,384 @@ Common use cases:
         },
         from_file: {
           type: 'string',
-          description: 'Optional: path to a grammar file to read',
+          description: 'Optional: path to a grammar file to read. Required if using write_to_file.',
         },
-        input: {
+        rule_name: {
           type: 'string',
-          description: 'Sample input text to parse',
+          description: 'Name of the lexer rule (UPPER_CASE)',
         },
-        iterations: {
-          type: 'number',
-          description: 'Number of timed iterations (default: 10)',
+        pattern: {
+          type: 'string',
+          description: 'The lexer pattern',
         },
-        warmup_iterations: {
-          type: 'number',
-          description: 'Warmup runs before timing (default: 3)',
+        mode_name: {
+          type: 'string',
+          description: 'Name of the mode to add the rule to',
+        },
+        fragment: {
+          type: 'boolean',
+          description: 'If true, marks rule as fragment',
+        },
+        skip: {
+          type: 'boolean',
+          description: 'If true, adds "-> skip" directive',
+        },
+        channel: {
+          type: 'string',
+          description: 'Channel name to route tokens',
+        },
+        action: {
+          type: 'string',
+          description: 'Lexer action (e.g., "pushMode(MODE)", "popMode", "type(TYPE)")',
+        },
+        write_to_file: {
+          type: 'boolean',
+          description: 'If true, writes modified grammar back to from_file',
+        },
+        output_mode: {
+          type: 'string',
+          enum: ['full', 'diff', 'none'],
+          description: 'Output format: "full", "diff", or "none"',
         },
       },
-      required: ['grammar_content', 'input'],
+      required: ['grammar_content', 'rule_name', 'pattern', 'mode_name'],
     },
   },
   {
-    name: 'native-benchmark',
-    description: `Benchmark grammar using actual ANTLR4 Java runtime (most accurate).
-
-**When to use:** Final performance testing, comparing grammars, production validation.
+    name: 'move-rule-to-mode',
+    description: `Move an existing lexer rule to a different mode.
 
-**Requirements:**
-- Java must be installed
-- ANTLR4 JAR must be available (auto-downloads to ~/.local/lib/)
+**When to use:** Reorganizing lexer rules, fixing mode placement, refactoring grammar structure.
 
 **Features:**
-- Uses real ANTLR4 parser (100% accurate)
-- Low-overhead Java driver (avoids JVM startup per iteration)
-- Warmup iterations for JIT optimization
-- Supports multi-file grammars
+- Moves lexer rules between modes
+- Preserves rule definition exactly
+- Validates source rule exists and is a lexer rule
+- Validates target mode exists
 
-**Parameters:**
-- grammar_files: Object mapping filename to content {"Expr.g4": "grammar Expr..."}
-- start_rule: Parser rule to start from
-- input: Sample input text
-- iterations: Timed iterations (default: 10)
-- warmup_iterations: Warmup runs (default: 3)
-
-**Example:**
-  grammar_files: {"Expr.g4": "grammar Expr; start: expr EOF; ..."}
-  start_rule: "start"
-  input: "1 + 2 * 3"
-  iterations: 20
+**Example - Move rule to STRING_MODE:**
+  rule_name: "STRING_CONTENT"
+  target_mode: "STRING_MODE"
+  write_to_file: true
 
-**Returns:**
-- Avg/min/max parse time
-- Throughput (chars/sec, tokens/sec)
-- Performance rating (excellent/good/fair/slow)`,
+**Note:** Parser rules cannot be moved to modes (they don't have mode context).`,
     inputSchema: {
       type: 'object',
       properties: {
-        grammar_files: {
-          type: 'object',
-          description: 'Map of filename to grammar content',
-          additionalProperties: { type: 'string' },
+        grammar_content: {
+          type: 'string',
+          description: 'The ANTLR4 grammar file content',
         },
-        start_rule: {
+        from_file: {
           type: 'string',
-          description: 'Parser rule to start parsing from',
+          description: 'Optional: path to a grammar file to read',
         },
-        input: {
+        rule_name: {
           type: 'string',
-          description: 'Input text to parse',
+          description: 'Name of the lexer rule to move',
         },
-        iterations: {
-          type: 'number',
-          description: 'Number of timed iterations (default: 10)',
+        target_mode: {
+          type: 'string',
+          description: 'Name of the mode to move the rule to',
         },
-        warmup_iterations: {
-          type: 'number',
-          description: 'Warmup runs before timing (default: 3)',
+        write_to_file: {
+          type: 'boolean',
+          description: 'If true, writes modified grammar back to from_file',
+        },
+        output_mode: {
+          type: 'string',
+          enum: ['full', 'diff', 'none'],
+          description: 'Output format: "full", "diff", or "none"',
         },
       },
-      required: ['grammar_files', 'start_rule', 'input'],
+      required: ['grammar_content', 'rule_name', 'target_mode'],
     },
   },
   {
-    name: 'profile-parsing',
-    description: `Profile grammar parsing with detailed performance metrics.
-
-**When to use:** Deep performance analysis, debugging slow parsing, optimizing grammars.
-
-**Measures:**
-- Parse time (ms)
-- Token count
-- Parse tree depth
-- Decision evaluations (ATN transitions)
-- Ambiguity count (conflicting alternatives)
-- Context sensitivity (SLL→LL fallbacks)
-- Rule invocation frequency
+    name: 'list-mode-rules',
+    description: `List all lexer rules in a specific mode.
 
-**Parameters:**
-- grammar_files: Object mapping filename to content
-- start_rule: Parser rule to start from
-- input: Sample input text
+**When to use:** Quick inspection of mode contents, debugging mode issues, understanding mode structure.
 
 **Returns:**
-- Detailed profile metrics
-- Most frequently invoked rules
-- Optimization suggestions
+- List of rules with names, patterns, and line numbers
+- Total count of rules in the mode
 
-**Example:**
-  grammar_files: {"Expr.g4": "grammar Expr; ..."}
-  start_rule: "program"
-  input: "x = 1 + 2 * 3"
+**Example - List rules in STRING_MODE:**
+  mode_name: "STRING_MODE"
 
-**Interpretation:**
-- ambiguityCount > 0: Grammar has ambiguous alternatives
-- contextSensitivityCount > 10: Many SLL→LL fallbacks (slow)
-- treeDepth > 100: Excessive nesting`,
+**Example - List rules in DEFAULT_MODE:**
+  mode_name: "DEFAULT_MODE"`,
     inputSchema: {
       type: 'object',
       properties: {
-        grammar_files: {
-          type: 'object',
-          description: 'Map of filename to grammar content',
-          additionalProperties: { type: 'string' },
+        grammar_content: {
+          type: 'string',
+          description: 'The ANTLR4 grammar file content',
         },
-        start_rule: {
+        from_file: {
           type: 'string',
-          description: 'Parser rule to start parsing from',
+          description: 'Optional: path to a grammar file to read',
         },
-        input: {
+        mode_name: {
           type: 'string',
-          description: 'Input text to parse',
+          description: 'Name of the mode to list rules from',
         },
       },
-      required: ['grammar_files', 'start_rule', 'input'],
+      required: ['grammar_content', 'mode_name'],
     },
   },
   {
-    name: 'visualize-parse-tree',
-    description: `Visualize the parse tree structure for a given input.
-
-**When to use:** Understanding parse results, debugging grammar structure, documentation.
+    name: 'duplicate-mode',
+    description: `Duplicate a lexer mode with all its rules.
 
-**Output formats:**
-- **ascii**: Text-based tree with indentation (default)
-- **json**: Structured JSON tree representation
-- **lisp**: S-expression style (rule child1 child2 ...)
+**When to use:** Creating similar modes, refactoring mode structure, creating mode templates.
 
-**Parameters:**
-- grammar_files: Object mapping filename to content
-- start_rule: Parser rule to start from
-- input: Sample input text
-- format: Output format (ascii, json, lisp)
+**Features:**
+- Copies all rules from source mode to new mode
+- Optional prefix for cloned rule names
+- Creates new mode declaration automatically
 
-**Example:**
-  grammar_files: {"Expr.g4": "grammar Expr; ..."}
-  start_rule: "expr"
-  input: "1 + 2 * 3"
-  format: "ascii"
+**Example - Duplicate mode without prefix:**
+  source_mode: "STRING_MODE"
+  new_mode: "TEMPLATE_MODE"
 
-**Returns:**
-ASCII example:
-\`\`\`
-expr
-├── term
-│   └── factor
-│       └── NUMBER '1'
-├── PLUS '+'
-└── term
-    ├── factor
-    │   └── NUMBER '2'
-    ├── TIMES '*'
-    └── factor
-        └── NUMBER '3'
-\`\`\``,
+**Example - Duplicate with rule prefix:**
+  source_mode: "STRING_MODE"
+  new_mode: "INTERPOLATION_MODE"
+  prefix_rules: "INTERP_"
+  # Rules will be named: INTERP_STRING_CONTENT, etc.`,
     inputSchema: {
       type: 'object',
       properties: {
-        grammar_files: {
-          type: 'object',
-          description: 'Map of filename to grammar content',
-          additionalProperties: { type: 'string' },
+        grammar_content: {
+          type: 'string',
+          description: 'The ANTLR4 grammar file content',
         },
-        start_rule: {
+        from_file: {
           type: 'string',
-          description: 'Parser rule to start parsing from',
+          description: 'Optional: path to a grammar file to read',
         },
-        input: {
+        source_mode: {
           type: 'string',
-          description: 'Input text to parse',
+          description: 'Name of the mode to duplicate',
         },
-        format: {
+        new_mode: {
           type: 'string',
-          enum: ['ascii', 'json', 'lisp'],
-          description: 'Output format (default: ascii)',
+          description: 'Name for the new mode',
+        },
+        prefix_rules: {
+          type: 'string',
+          description: 'Optional prefix for cloned rule names',
+        },
+        write_to_file: {
+          type: 'boolean',
+          description: 'If true, writes modified grammar back to from_file',
+        },
+        output_mode: {
+          type: 'string',
+          enum: ['full', 'diff', 'none'],
+          description: 'Output format: "full", "diff", or "none"',
         },
       },
-      required: ['grammar_files', 'start_rule', 'input'],
+      required: ['grammar_content', 'source_mode', 'new_mode'],
     },
   },
   {
-    name: 'generate-stress-test',
-    description: `Generate stress test inputs for grammar performance testing.
-
-**When to use:** Testing grammar robustness, identifying performance issues, benchmarking.
-
-**Generation strategies:**
-- **nested**: Deep nesting of recursive rules (tests stack depth)
-- **wide**: Many alternatives in choice rules (tests branching)
-- **repetition**: Repeated sequences (tests loops)
-- **mixed**: Combination of all strategies (default)
+    name: 'rename-mode',
+    description: `Rename a lexer mode across the import graph of a grammar.
 
-**Parameters:**
-- grammar_content: The grammar to generate tests for
-- strategy: Generation strategy (nested, wide, repetition, mixed)
-- depth: Nesting depth for nested strategy (default: 50)
-- count: Number of alternatives for wide strategy (default: 100)
-- repetitions: Repetition count for repetition strategy (default: 100)
+**When to use:** A mode name no longer fits, or two lexer grammars should agree on a name. Renaming by hand misses pushMode(X)/mode(X) commands in other lexer files.
 
-**Returns:**
-- Generated test input
-- Expected characteristics (depth, width, size)
-- Warnings if grammar structure can't support requested strategy
+Updates:
+- The \`mode X;\` declaration in every grammar that declares it (imported lexer grammars merge modes by name)
+- Every mode(X) and pushMode(X) command in the main grammar, its imports and its tokenVocab lexer grammar
 
-**Example:**
-  grammar_content: "grammar Expr; ..."
-  strategy: "nested"
-  depth: 30
+Refuses names of existing modes and of tokens (ANTLR generates a constant for both). Mentions of the mode in action code are reported but not changed.
 
-  Output: "(((...(1 + 2)...)))"  (30 levels deep)`,
+Returns: Command references updated per file, warnings, and a unified diff (default) per modified file. With write_to_file, all files are written or none.`,
     inputSchema: {
-      type: 'object',
+      type: 'object' as const,
       properties: {
-        grammar_content: {
+        from_file: {
           type: 'string',
-          description: 'The ANTLR4 grammar file content',
+          description:
+            'Path to the main grammar file (a parser grammar brings in its tokenVocab lexer)',
         },
-        from_file: {
+        old_name: {
           type: 'string',
-          description: 'Optional: path to a grammar file to read',
+          description: 'Current name of the mode',
         },
-        strategy: {
+        new_name: {
           type: 'string',
-          enum: ['nested', 'wide', 'repetition', 'mixed'],
-          description: 'Generation strategy (default: mixed)',
+          description: 'New name for the mode',
         },
-        depth: {
-          type: 'number',
-          description: 'Nesting depth for nested strategy (default: 50)',
+        base_path: {
+          type: 'string',
+          description: 'Optional: base directory for resolving imports',
         },
-        count: {
-          type: 'number',
-          description: 'Number of alternatives for wide strategy (default: 100)',
+        lib_dirs: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Optional: library directories (like ANTLR -lib) searched for imported grammars.',
         },
-        repetitions: {
-          type: 'number',
-          description: 'Repetition count for repetition strategy (default: 100)',
+        write_to_file: {
+          type: 'boolean',
+          description: 'If true, writes all modified files',
+        },
+        output_mode: {
+          type: 'string',
+          enum: ['full', 'diff', 'none'],
+          description:
+            'Output format: "full" returns the modified files, "diff" returns a git-style unified diff per file (default), "none" returns no content',
         },
       },
-      required: ['grammar_content'],
+      required: ['from_file', 'old_name', 'new_name'],
     },
   },
   {
-    name: 'compare-profiles',
-    description: `Compare two parsing profiles to measure optimization impact.
+    name: 'remove-mode',
+    description: `Remove a lexer mode across the import graph of a grammar, deleting its rules or moving them to another mode.
 
-**When to use:** Validating grammar optimizations, A/B testing changes, regression testing.
+**When to use:** A mode became unnecessary, or two modes should be merged into one.
 
-**Parameters:**
-- profile1: First profile result (from profile-parsing)
-- profile2: Second profile result (from profile-parsing)
+How it works:
+- Without target_mode, the mode declaration and its rules are deleted
+- With target_mode, the rules follow the rules of the target mode (DEFAULT_MODE allowed); in a file without the target mode, the declaration is renamed instead
 
-**Returns:**
-- Comparison metrics with % change
-- Performance verdict (improved, degraded, unchanged)
-- Key differences highlighted
-- Recommendations based on changes
-
-**Example:**
-  profile1: { parseTimeMs: 150, ambiguityCount: 5, ... }
-  profile2: { parseTimeMs: 80, ambiguityCount: 0, ... }
-
-  Output:
-  | Metric | Before | After | Change |
-  |--------|--------|-------|--------|
-  | Parse Time | 150ms | 80ms | -46.7% ✅ |
-  | Ambiguities | 5 | 0 | -100% ✅ |
+Refused while something would still enter the mode: a mode(X) or pushMode(X) command in a rule that stays (pushes from the mode's own deleted rules go with them). Deleting is also refused while a remaining rule, e.g. in the parser grammar, uses one of the deleted rules.
 
-  Verdict: ✅ Improved - Parse time reduced by 46.7%`,
+Returns: Rules removed or moved per file and a unified diff (default) per modified file. With write_to_file, all files are written or none.`,
     inputSchema: {
-      type: 'object',
+      type: 'object' as const,
       properties: {
-        profile1: {
-          type: 'object',
-          description: 'First profile result (baseline)',
-          properties: {
-            parseTimeMs: { type: 'number' },
-            tokenCount: { type: 'number' },
-            treeDepth: { type: 'number' },
-            decisionCount: { type: 'number' },
-            ambiguityCount: { type: 'number' },
-            contextSensitivityCount: { type: 'number' },
-          },
+        from_file: {
+          type: 'string',
+          description:
+            'Path to the main grammar file (a parser grammar brings in its tokenVocab lexer)',
         },
-        profile2: {
-          type: 'object',
-          description: 'Second profile result (optimized)',
-          properties: {
-            parseTimeMs: { type: 'number' },
-            tokenCount: { type: 'number' },
-            treeDepth: { type: 'number' },
-            decisionCount: { type: 'number' },
-            ambiguityCount: { type: 'number' },
-            contextSensitivityCount: { type: 'number' },
-          },
+        mode_name: {
+          type: 'string',
+          description: 'Name of the mode to remove',
+        },
+        target_mode: {
+          type: 'string',
+          description: 'Optional: mode to move the rules to instead of deleting them',
+        },
+        base_path: {
+          type: 'string',
+          description: 'Optional: base directory for resolving imports',
+        },
+        lib_dirs: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Optional: library directories (like ANTLR -lib) searched for imported grammars.',
+        },
+        write_to_file: {
+          type: 'boolean',
+          description: 'If true, writes all modified files',
+        },
+        output_mode: {
+          type: 'string',
+          enum: ['full', 'diff', 'none'],
+          description:
+            'Output format: "full" returns the modified files, "diff" returns a git-style unified diff per file (default), "none" returns no content',
         },
       },
-      required: ['profile1', 'profile2'],
+      required: ['from_file', 'mode_name'],
     },
   },
   {
-    name: 'move-rule',
-    description: `Move an existing rule to a new position relative to another rule.
-
-**When to use:** Reorganizing grammar, grouping related rules, fixing rule order.
+    name: 'create-grammar-template',
+    description: `Create a new ANTLR4 grammar from scratch with optional mode structure.
 
-**Use cases:**
-- Move related rules together for better organization
-- Position rules before/after their dependencies
-- Group similar functionality
-- Manual rule ordering (alternative to sort-rules)
+**When to use:** Starting a new grammar project, scaffolding grammar structure, creating grammar templates.
 
 **Features:**
-- Preserves rule formatting (multi-line, comments)
-- Maintains blank lines between rules
-- Validates both rule and anchor exist
-- Detects if rule is already in target position
+- Creates lexer, parser, or combined grammar
+- Optionally includes boilerplate rules (WS, ID, NUMBER, STRING, comments)
+- Adds specified modes with placeholder comments
+- Ready-to-use structure for common patterns
 
-**Example usage:**
+**Example - Simple lexer grammar:**
+  grammar_name: "MyLexer"
+  type: "lexer"
 
-Move expr rule before term rule:
-  rule_name: "expr"
-  position: "before"
-  anchor_rule: "term"
-  
-Move NUMBER token after PLUS token:
-  rule_name: "NUMBER"
-  position: "after"
-  anchor_rule: "PLUS"
-  write_to_file: true
+**Example - Lexer with modes:**
+  grammar_name: "TemplateLexer"
+  type: "lexer"
+  modes: ["STRING_MODE", "COMMENT_MODE", "INTERPOLATION_MODE"]
+  include_boilerplate: true
 
-**Note:** This moves EXISTING rules. To insert NEW rules at specific positions, use add-parser-rule or add-lexer-rule with insert_before/insert_after.`,
+**Example - Combined grammar:**
+  grammar_name: "Calculator"
+  type: "combined"
+  include_boilerplate: true`,
     inputSchema: {
       type: 'object',
       properties: {
         grammar_content: {
           type: 'string',
-          description: 'The ANTLR4 grammar file content',
-        },
-        from_file: {
-          type: 'string',
-          description: 'Optional: path to a grammar file to read',
+          description: 'Placeholder - not required for this tool',
         },
-        rule_name: {
+        grammar_name: {
           type: 'string',
-          description: 'Name of the rule to move',
+          description: 'Name for the new grammar',
         },
-        position: {
+        type: {
           type: 'string',
-          enum: ['before', 'after'],
-          description: 'Move rule before or after the anchor rule',
+          enum: ['lexer', 'parser', 'combined'],
+          description: 'Type of grammar to create (default: lexer)',
         },
-        anchor_rule: {
-          type: 'string',
-          description: 'Name of the rule to use as anchor/reference point',
+        modes: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'List of mode names to include in the grammar',
         },
-        write_to_file: {
+        include_boilerplate: {
           type: 'boolean',
-          description:
-            'If true, writes modified grammar back to from_file (requires from_file to be set)',
+          description: 'Include common rules like WS, ID, NUMBER, STRING (default: true)',
         },
       },
-      required: ['grammar_content', 'rule_name', 'position', 'anchor_rule'],
+      required: ['grammar_name'],
     },
   },
   {
-    name: 'smart-validate',
-    description: `Smart grammar validation with aggregated, actionable insights.
+    name: 'grammar-metrics',
+    description: `Calculate comprehensive grammar metrics including branching estimation, complexity, and dependencies.
 
-**When to use:** When validate-grammar returns too many issues and you need to see patterns, not individual warnings.
+**When to use:** Understanding grammar complexity, identifying optimization opportunities, estimating parsing performance.
 
-**Improvements over basic validation:**
-- Groups similar issues (e.g., 15,000 undefined refs → "9 missing tokens")
-- Prioritizes by impact (most-referenced undefined tokens first)
-- Suggests specific fixes with reasoning
-- Detects anti-patterns (null_rest_of_line usage)
-- Flags suspicious quantifiers (? that should be *)
+**Metrics included:**
 
-**Example output:**
-Summary: 17,234 issues
-  1. Undefined tokens (15,890 refs, 9 unique)
-     → Add ADDRESS_REGEX (89 refs), EVENT_TYPE (67 refs), ...
-  2. Suspicious quantifiers (8 rules)
-     → bgpp_export: bgp_policy_rule? should be *
-  3. Incomplete parsing (3 rules)
-     → ss_ssl_tls_service_profile uses null_rest_of_line
+**Size Metrics:**
+- Total/parser/lexer rule counts
+- Fragment counts
+- Lines of code, average rule length
 
-**Parameters:**
-- include_suggestions: Generate smart token suggestions
-- detect_quantifiers: Flag suspicious ? patterns
-- detect_incomplete: Flag null_rest_of_line usage
+**Branching Metrics:**
+- Average/max alternatives per rule
+- Branching depth (subrule nesting)
+- Branching distribution (1-2, 3-5, 6-10, 10+)
+- Rules with most branching
 
-Returns: Aggregated summary, grouped issues, and actionable recommendations.`,
+**Complexity Metrics:**
+- Cyclomatic complexity (per rule and total)
+- Recursive rules detection
+- Estimated parse complexity (low/medium/high/very-high)
+
+**Dependency Metrics:**
+- Fan-in/fan-out averages
+- Orphan rules (unused), check id orphan-rule
+- Hub rules (highly referenced), check id hub-rule with threshold \`min\` (default 5)
+- Most referenced rules
+
+**Example:**
+  from_file: "MyGrammar.g4"`,
     inputSchema: {
-      type: 'object' as const,
+      type: 'object',
       properties: {
         grammar_content: {
           type: 'string',
@@ -2993,54 +3730,34 @@ Returns: Aggregated summary, grouped issues, and actionable recommendations.`,
           type: 'string',
           description: 'Optional: path to a grammar file to read',
         },
-        base_path: {
-          type: 'string',
-          description: 'Optional: base directory for resolving imports',
-        },
-        load_imports: {
-          type: 'boolean',
-          description: 'Optional: if true, automatically load imported grammars. Default: true.',
-        },
-        include_suggestions: {
-          type: 'boolean',
-          description: 'Generate smart suggestions for missing tokens (default: true)',
-        },
-        detect_quantifiers: {
-          type: 'boolean',
-          description: 'Detect suspicious quantifier patterns (default: true)',
-        },
-        detect_incomplete: {
-          type: 'boolean',
-          description: 'Detect incomplete parsing patterns (default: true)',
-        },
       },
       required: ['grammar_content'],
     },
   },
   {
-    name: 'detect-quantifier-issues',
-    description: `Detect suspicious quantifier patterns that may prevent parsing real configs.
+    name: 'detect-redos',
+    description: `Detect ReDoS (Regular Expression Denial of Service) vulnerabilities in lexer patterns.
 
-**When to use:** After seeing "unrecognized syntax" warnings or when rules don't match multi-line configs.
+**When to use:** Security audit, performance optimization, validating lexer patterns.
 
-**Common patterns detected:**
-1. Rule names with _rule, _setting, _property using ? instead of *
-   → bgpp_export: EXPORT bgp_policy_rule? should be *
-   
-2. Multiple optional elements that should be alternatives
-   → source? destination? action? should be (source | destination | action)*
-   
-3. Same optional reference appearing multiple times
-   → rule: setting? ... setting? should use setting*
+**Detects:**
+- Nested quantifiers: (a+)+, (a*)*
+- Overlapping alternatives: (a|a)+
+- Alternatives with common prefix: (ab|ac)
+- Unbounded repetition of broad character classes
+- Multiple optional elements in sequence
 
-**Real-world example:**
-Rule: srs_definition: ... source_setting? destination_setting? action_setting?
-Issue: Config has multiple 'set source', 'set destination' lines
-Fix: Change to (source_setting | destination_setting | action_setting)*
+**Check ids** (for \`.antlr4-mcp.json\` and suppression comments): redos-nested-quantifier, redos-overlapping-alternatives, redos-common-prefix, redos-broad-repetition (threshold \`minClassLength\`, default 10), redos-optional-sequence. Config severities error/warning/info map to high/medium/low.
 
-Returns: List of suspicious patterns with suggestions and reasoning.`,
+**Returns:**
+- List of vulnerabilities with severity (high/medium/low)
+- Line numbers and affected rules
+- Specific suggestions for each issue
+
+**Example:**
+  from_file: "MyLexer.g4"`,
     inputSchema: {
-      type: 'object' as const,
+      type: 'object',
       properties: {
         grammar_content: {
           type: 'string',
@@ -3055,34 +3772,41 @@ Returns: List of suspicious patterns with suggestions and reasoning.`,
     },
   },
   {
-    name: 'detect-incomplete-parsing',
-    description: `Detect incomplete parsing patterns (anti-patterns that discard content).
-
-**When to use:** When grammar parses configs but doesn't capture structure, or uses placeholder patterns.
+    name: 'check-style',
+    description: `Check grammar style and best practices with quality scoring.
 
-**Anti-patterns detected:**
-1. **null_rest_of_line usage**
-   → Discards content instead of parsing it
-   → Example: ss_ssl_tls_service_profile: ... null_rest_of_line
-   → Problem: Loses protocol-settings, certificates, etc.
+**When to use:** Code review, maintaining grammar quality, enforcing conventions.
 
-2. **Overly broad negation patterns**
-   → Example: rule: ~[\\r\\n]+ (matches "anything until newline")
-   → Better: Define specific tokens for expected content
+**Checks:**
 
-**Real-world impact:**
-- ss_ssl_tls_service_profile used null_rest_of_line
-- Lost: protocol-settings min-version/max-version, certificate options
-- Result: Thousands of warnings about unparsed structure
+**Naming Conventions:**
+- Lexer rules should use UPPER_CASE
+- Parser rules should use lowerCamelCase
 
-**Recommendations:**
-- Replace null_rest_of_line with actual structure
-- Define specific lexer tokens instead of broad negations
-- Implement proper parser rules for complex structures
+**Best Practices:**
+- Missing grammar declaration
+- Unused/orphan rules
+- Overly complex rules
 
-Returns: List of incomplete parsing patterns with suggestions.`,
+**Maintainability:**
+- Missing documentation on complex rules
+- Rule complexity warnings
+
+**Project config and suppressions:**
+With from_file, the nearest \`.antlr4-mcp.json\` (grammar directory, then parents) is applied:
+\`{ "checks": { "too-many-alternatives": { "severity": "info", "max": 15 }, "undocumented-rule": "off" } }\`
+Check ids: lexer-rule-case, lexer-rule-naming, parser-rule-naming, too-many-alternatives (\`max\`, default 10), unused-rule, undocumented-rule (\`maxComplexity\`, default 5), missing-grammar-declaration.
+Silence single findings in the grammar with \`// antlr4-mcp-disable-next-line <check>\`, \`// antlr4-mcp-disable-line <check>\` or a \`// antlr4-mcp-disable <check>\` ... \`// antlr4-mcp-enable <check>\` range.
+
+**Returns:**
+- Issues with severity (error/warning/info)
+- Style score (0-100)
+- Specific suggestions for each issue
+
+**Example:**
+  from_file: "MyGrammar.g4"`,
     inputSchema: {
-      type: 'object' as const,
+      type: 'object',
       properties: {
         grammar_content: {
           type: 'string',
@@ -3097,52 +3821,74 @@ Returns: List of incomplete parsing patterns with suggestions.`,
     },
   },
   {
-    name: 'fix-quantifier-issues',
-    description: `Selectively fix suspicious quantifier patterns - change )? to )* for specific rules.
+    name: 'analyze-bottlenecks',
+    description: `Analyze grammar for performance bottlenecks and optimization opportunities.
 
-**When to use:** After detect-quantifier-issues identifies problems.
+**When to use:** Performance optimization, grammar refactoring, large grammar analysis.
 
-**Workflow:**
-1. Run detect-quantifier-issues to see what's suspicious
-2. Review the suggestions
-3. Run fix-quantifier-issues with specific rule_names to fix
+**Detects:**
+- **High-branching rules**: Rules with many alternatives (10+, 20+, 50+)
+- **Tilde negation patterns**: ~NEWLINE, ~[\r\n] that could use lexer modes
+- **Missing lexer mode opportunities**: String handling, line-based content, multi-line blocks
+- **Greedy loop issues**: Nested quantifiers, reluctant patterns
+- **Deep recursion**: Rules with potential stack overflow risk
+- **Token prefix collisions**: Keywords that are prefixes of other keywords
 
-**What it fixes:**
-- Rules with alternatives: (a | b | c)? → (a | b | c)*
-- Multiple optional elements that suggest repetition
-- Collection-named rules (_rules, _settings) using )?
+**Returns:**
+- Bottlenecks with severity (high/medium/low)
+- Specific suggestions for each issue
+- Estimated performance improvement potential
+- Prioritized recommendations
 
-**Examples:**
+Bottleneck types (high-branching, tilde-negation, ...) are check ids for the project config and suppression comments.
 
-// Step 1: Detect issues
-detect-quantifier-issues(from_file: "PaloAlto_interface.g4")
-→ Shows: snie_ethernet, snie_lacp, sniel_high_availability, snil_units
+**Example:**
+  from_file: "MyGrammar.g4"`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        grammar_content: {
+          type: 'string',
+          description: 'The ANTLR4 grammar file content',
+        },
+        from_file: {
+          type: 'string',
+          description: 'Optional: path to a grammar file to read',
+        },
+      },
+      required: ['grammar_content'],
+    },
+  },
+  {
+    name: 'benchmark-parsing',
+    description: `Benchmark grammar parsing performance with sample input.
 
-// Step 2: Fix specific rules
-fix-quantifier-issues(
-  from_file: "PaloAlto_interface.g4",
-  rule_names: ["snie_ethernet", "snie_lacp", "snil_units"]
-)
-→ Fixes only those 3 rules
+**When to use:** Performance testing, comparing grammar versions, optimization validation.
 
-// Fix all detected issues
-fix-quantifier-issues(from_file: "PaloAlto_interface.g4")
-→ Fixes all suspicious patterns
+**Measures:**
+- Total tokens produced
+- Average/min/max parse time (ms)
+- Tokens per second throughput
+- Performance rating (excellent/good/fair/slow)
 
-// Preview without changing
-fix-quantifier-issues(
-  from_file: "PaloAlto_interface.g4",
-  dry_run: true
-)
-→ Shows what would change
+**Features:**
+- Warmup iterations to account for JIT
+- Multiple iterations for statistical accuracy
+- Performance rating based on parse time
+- Optimization suggestions for slow grammars
 
-**Real-world:**
-Palo Alto grammar had 15 rules flagged.
-User fixed 12, left 3 as-is (they were correct).
+**Parameters:**
+- grammar_content or from_file: The grammar to test
+- input: Sample input text to parse
+- iterations: Number of timed iterations (default: 10)
+- warmup_iterations: Warmup runs before timing (default: 3)
 
-Returns: List of changes with line numbers and reasoning`,
+**Example:**
+  from_file: "MyGrammar.g4"
+  input: "x = 42 + y * 10"
+  iterations: 20`,
     inputSchema: {
-      type: 'object' as const,
+      type: 'object',
       properties: {
         grammar_content: {
           type: 'string',
@@ -3152,810 +3898,2326 @@ Returns: List of changes with line numbers and reasoning`,
           type: 'string',
           description: 'Optional: path to a grammar file to read',
         },
-        rule_names: {
-          type: 'array',
-          items: { type: 'string' },
-          description:
-            'Optional: Array of specific rule names to fix. If omitted, fixes all suspicious patterns',
-        },
-        dry_run: {
-          type: 'boolean',
-          description: 'If true, shows what would change without modifying. Default: false',
-        },
-        output_mode: {
+        input: {
           type: 'string',
-          enum: ['full', 'diff', 'none'],
-          description:
-            'Output mode: "full" returns complete grammar, "diff" returns git-style diff (default: diff), "none" returns no content',
+          description: 'Sample input text to parse',
         },
-        write_to_file: {
-          type: 'boolean',
-          description:
-            'If true, writes modified grammar back to from_file (requires from_file to be set)',
+        iterations: {
+          type: 'number',
+          description: 'Number of timed iterations (default: 10)',
+        },
+        warmup_iterations: {
+          type: 'number',
+          description: 'Warmup runs before timing (default: 3)',
         },
       },
-      required: ['grammar_content'],
+      required: ['grammar_content', 'input'],
     },
   },
-];
-
-/**
- * Keep tool schemas consistent with runtime file-loading fallbacks.
- * If a tool supports from_file/from_fileN, grammar content should not be hard-required.
- */
-function normalizeToolInputSchemas(toolsList: Tool[]): void {
-  for (const tool of toolsList) {
-    const inputSchema = tool.inputSchema as
-      | { properties?: Record<string, unknown>; required?: string[] }
-      | undefined;
+  {
+    name: 'native-benchmark',
+    description: `Benchmark grammar using actual ANTLR4 Java runtime (most accurate).
 
-    if (!inputSchema || !Array.isArray(inputSchema.required)) {
-      continue;
-    }
+**When to use:** Final performance testing, comparing grammars, production validation.
 
-    const properties = inputSchema.properties || {};
-    const hasFromFile = Object.prototype.hasOwnProperty.call(properties, 'from_file');
-    const hasFromFile1 = Object.prototype.hasOwnProperty.call(properties, 'from_file1');
-    const hasFromFile2 = Object.prototype.hasOwnProperty.call(properties, 'from_file2');
+**Requirements:**
+- Java must be installed
+- ANTLR4 JAR must be available (auto-downloads to ~/.local/lib/)
 
-    inputSchema.required = inputSchema.required.filter((field) => {
-      if (field === 'grammar_content' && hasFromFile) {
-        return false;
-      }
-      if (field === 'grammar1_content' && hasFromFile1) {
-        return false;
-      }
-      if (field === 'grammar2_content' && hasFromFile2) {
-        return false;
-      }
-      return true;
-    });
-  }
-}
+**Features:**
+- Uses real ANTLR4 parser (100% accurate)
+- Low-overhead Java driver (avoids JVM startup per iteration)
+- Warmup iterations for JIT optimization
+- Supports multi-file grammars
 
-normalizeToolInputSchemas(tools);
+**Parameters:**
+- grammar_files: Object mapping filename to content {"Expr.g4": "grammar Expr..."}
+- start_rule: Parser rule to start from
+- input: Sample input text
+- iterations: Timed iterations (default: 10)
+- warmup_iterations: Warmup runs (default: 3)
 
-/**
- * Helper: Reconstruct grammar from merged analysis
- */
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-function reconstructGrammarFromAnalysis(analysis: any): string {
-  const lines: string[] = [];
+**Example:**
+  grammar_files: {"Expr.g4": "grammar Expr; start: expr EOF; ..."}
+  start_rule: "start"
+  input: "1 + 2 * 3"
+  iterations: 20
 
-  // Add header
-  if (analysis.header) {
-    lines.push(analysis.header.trim());
-    lines.push('');
-  }
+**Returns:**
+- Avg/min/max parse time
+- Throughput (chars/sec, tokens/sec)
+- Performance rating (excellent/good/fair/slow)`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        grammar_files: {
+          type: 'object',
+          description: 'Map of filename to grammar content',
+          additionalProperties: { type: 'string' },
+        },
+        start_rule: {
+          type: 'string',
+          description: 'Parser rule to start parsing from',
+        },
+        input: {
+          type: 'string',
+          description: 'Input text to parse',
+        },
+        iterations: {
+          type: 'number',
+          description: 'Number of timed iterations (default: 10)',
+        },
+        warmup_iterations: {
+          type: 'number',
+          description: 'Warmup runs before timing (default: 3)',
+        },
+      },
+      required: ['grammar_files', 'start_rule', 'input'],
+    },
+  },
+  {
+    name: 'profile-parsing',
+    description: `Profile grammar parsing with detailed performance metrics.
 
-  // Add parser rules - definition already contains full rule text
-  for (const rule of analysis.rules.filter((r: any) => r.type === 'parser')) {
-    lines.push(rule.definition);
-    lines.push('');
-  }
+**When to use:** Deep performance analysis, debugging slow parsing, optimizing grammars.
 
-  // Add lexer rules - definition already contains full rule text
+**Measures:**
+- Parse time (ms)
+- Token count
+- Parse tree depth
+- Decision evaluations (ATN transitions)
+- Ambiguity count (conflicting alternatives)
+- Context sensitivity (SLL→LL fallbacks)
+- Rule invocation frequency
+
+**Parameters:**
+- grammar_files: Object mapping filename to content
+- start_rule: Parser rule to start from
+- input: Sample input text
+
+**Returns:**
+- Detailed profile metrics
+- Most frequently invoked rules
+- Optimization suggestions
+
+**Example:**
+  grammar_files: {"Expr.g4": "grammar Expr; ..."}
+  start_rule: "program"
+  input: "x = 1 + 2 * 3"
+
+**Interpretation:**
+- ambiguityCount > 0: Grammar has ambiguous alternatives
+- contextSensitivityCount > 10: Many SLL→LL fallbacks (slow)
+- treeDepth > 100: Excessive nesting`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        grammar_files: {
+          type: 'object',
+          description: 'Map of filename to grammar content',
+          additionalProperties: { type: 'string' },
+        },
+        start_rule: {
+          type: 'string',
+          description: 'Parser rule to start parsing from',
+        },
+        input: {
+          type: 'string',
+          description: 'Input text to parse',
+        },
+      },
+      required: ['grammar_files', 'start_rule', 'input'],
+    },
+  },
+  {
+    name: 'visualize-parse-tree',
+    description: `Visualize the parse tree structure for a given input.
+
+**When to use:** Understanding parse results, debugging grammar structure, documentation.
+
+**Output formats:**
+- **ascii**: Text-based tree with indentation (default)
+- **json**: Structured JSON tree representation
+- **lisp**: S-expression style (rule child1 child2 ...)
+
+**Parameters:**
+- grammar_files: Object mapping filename to content
+- start_rule: Parser rule to start from
+- input: Sample input text
+- format: Output format (ascii, json, lisp)
+
+**Example:**
+  grammar_files: {"Expr.g4": "grammar Expr; ..."}
+  start_rule: "expr"
+  input: "1 + 2 * 3"
+  format: "ascii"
+
+**Returns:**
+ASCII example:
+\`\`\`
+expr
+├── term
+│   └── factor
+│       └── NUMBER '1'
+├── PLUS '+'
+└── term
+    ├── factor
+    │   └── NUMBER '2'
+    ├── TIMES '*'
+    └── factor
+        └── NUMBER '3'
+\`\`\``,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        grammar_files: {
+          type: 'object',
+          description: 'Map of filename to grammar content',
+          additionalProperties: { type: 'string' },
+        },
+        start_rule: {
+          type: 'string',
+          description: 'Parser rule to start parsing from',
+        },
+        input: {
+          type: 'string',
+          description: 'Input text to parse',
+        },
+        format: {
+          type: 'string',
+          enum: ['ascii', 'json', 'lisp'],
+          description: 'Output format (default: ascii)',
+        },
+      },
+      required: ['grammar_files', 'start_rule', 'input'],
+    },
+  },
+  {
+    name: 'generate-stress-test',
+    description: `Generate stress test inputs for grammar performance testing.
+
+**When to use:** Testing grammar robustness, identifying performance issues, benchmarking.
+
+**Generation strategies:**
+- **nested**: Deep nesting of recursive rules (tests stack depth)
+- **wide**: Many alternatives in choice rules (tests branching)
+- **repetition**: Repeated sequences (tests loops)
+- **mixed**: Combination of all strategies (default)
+
+**Parameters:**
+- grammar_content: The grammar to generate tests for
+- strategy: Generation strategy (nested, wide, repetition, mixed)
+- depth: Nesting depth for nested strategy (default: 50)
+- count: Number of alternatives for wide strategy (default: 100)
+- repetitions: Repetition count for repetition strategy (default: 100)
+
+**Returns:**
+- Generated test input
+- Expected characteristics (depth, width, size)
+- Warnings if grammar structure can't support requested strategy
+
+**Example:**
+  grammar_content: "grammar Expr; ..."
+  strategy: "nested"
+  depth: 30
+
+  Output: "(((...(1 + 2)...)))"  (30 levels deep)`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        grammar_content: {
+          type: 'string',
+          description: 'The ANTLR4 grammar file content',
+        },
+        from_file: {
+          type: 'string',
+          description: 'Optional: path to a grammar file to read',
+        },
+        strategy: {
+          type: 'string',
+          enum: ['nested', 'wide', 'repetition', 'mixed'],
+          description: 'Generation strategy (default: mixed)',
+        },
+        depth: {
+          type: 'number',
+          description: 'Nesting depth for nested strategy (default: 50)',
+        },
+        count: {
+          type: 'number',
+          description: 'Number of alternatives for wide strategy (default: 100)',
+        },
+        repetitions: {
+          type: 'number',
+          description: 'Repetition count for repetition strategy (default: 100)',
+        },
+      },
+      required: ['grammar_content'],
+    },
+  },
+  {
+    name: 'compare-profiles',
+    description: `Compare two parsing profiles to measure optimization impact.
+
+**When to use:** Validating grammar optimizations, A/B testing changes, regression testing.
+
+**Parameters:**
+- profile1: First profile result (from profile-parsing)
+- profile2: Second profile result (from profile-parsing)
+
+**Returns:**
+- Comparison metrics with % change
+- Performance verdict (improved, degraded, unchanged)
+- Key differences highlighted
+- Recommendations based on changes
+
+**Example:**
+  profile1: { parseTimeMs: 150, ambiguityCount: 5, ... }
+  profile2: { parseTimeMs: 80, ambiguityCount: 0, ... }
+
+  Output:
+  | Metric | Before | After | Change |
+  |--------|--------|-------|--------|
+  | Parse Time | 150ms | 80ms | -46.7% ✅ |
+  | Ambiguities | 5 | 0 | -100% ✅ |
+
+  Verdict: ✅ Improved - Parse time reduced by 46.7%`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        profile1: {
+          type: 'object',
+          description: 'First profile result (baseline)',
+          properties: {
+            parseTimeMs: { type: 'number' },
+            tokenCount: { type: 'number' },
+            treeDepth: { type: 'number' },
+            decisionCount: { type: 'number' },
+            ambiguityCount: { type: 'number' },
+            contextSensitivityCount: { type: 'number' },
+          },
+        },
+        profile2: {
+          type: 'object',
+          description: 'Second profile result (optimized)',
+          properties: {
+            parseTimeMs: { type: 'number' },
+            tokenCount: { type: 'number' },
+            treeDepth: { type: 'number' },
+            decisionCount: { type: 'number' },
+            ambiguityCount: { type: 'number' },
+            contextSensitivityCount: { type: 'number' },
+          },
+        },
+      },
+      required: ['profile1', 'profile2'],
+    },
+  },
+  {
+    name: 'move-rule',
+    description: `Move an existing rule to a new position relative to another rule.
+
+**When to use:** Reorganizing grammar, grouping related rules, fixing rule order.
+
+**Use cases:**
+- Move related rules together for better organization
+- Position rules before/after their dependencies
+- Group similar functionality
+- Manual rule ordering (alternative to sort-rules)
+
+**Features:**
+- Preserves rule formatting (multi-line, comments)
+- Maintains blank lines between rules
+- Validates both rule and anchor exist
+- Detects if rule is already in target position
+
+**Example usage:**
+
+Move expr rule before term rule:
+  rule_name: "expr"
+  position: "before"
+  anchor_rule: "term"
+  
+Move NUMBER token after PLUS token:
+  rule_name: "NUMBER"
+  position: "after"
+  anchor_rule: "PLUS"
+  write_to_file: true
+
+**Note:** This moves EXISTING rules. To insert NEW rules at specific positions, use add-parser-rule or add-lexer-rule with insert_before/insert_after.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        grammar_content: {
+          type: 'string',
+          description: 'The ANTLR4 grammar file content',
+        },
+        from_file: {
+          type: 'string',
+          description: 'Optional: path to a grammar file to read',
+        },
+        rule_name: {
+          type: 'string',
+          description: 'Name of the rule to move',
+        },
+        position: {
+          type: 'string',
+          enum: ['before', 'after'],
+          description: 'Move rule before or after the anchor rule',
+        },
+        anchor_rule: {
+          type: 'string',
+          description: 'Name of the rule to use as anchor/reference point',
+        },
+        write_to_file: {
+          type: 'boolean',
+          description:
+            'If true, writes modified grammar back to from_file (requires from_file to be set)',
+        },
+      },
+      required: ['grammar_content', 'rule_name', 'position', 'anchor_rule'],
+    },
+  },
+  {
+    name: 'smart-validate',
+    description: `Smart grammar validation with aggregated, actionable insights.
+
+**When to use:** When validate-grammar returns too many issues and you need to see patterns, not individual warnings.
+
+**Improvements over basic validation:**
+- Groups similar issues (e.g., 15,000 undefined refs → "9 missing tokens")
+- Prioritizes by impact (most-referenced undefined tokens first)
+- Suggests specific fixes with reasoning
+- Detects anti-patterns (null_rest_of_line usage)
+- Flags suspicious quantifiers (? that should be *)
+
+**Example output:**
+Summary: 17,234 issues
+  1. Undefined tokens (15,890 refs, 9 unique)
+     → Add ADDRESS_REGEX (89 refs), EVENT_TYPE (67 refs), ...
+  2. Suspicious quantifiers (8 rules)
+     → bgpp_export: bgp_policy_rule? should be *
+  3. Incomplete parsing (3 rules)
+     → ss_ssl_tls_service_profile uses null_rest_of_line
+
+**Parameters:**
+- include_suggestions: Generate smart token suggestions
+- detect_quantifiers: Flag suspicious ? patterns
+- detect_incomplete: Flag null_rest_of_line usage
+- baseline_file / update_baseline: Record today's issues (including quantifier and incomplete-parsing findings) once, then report only new ones and the entries fixed since. isError is set when anything is new, so changes can be gated on "no new grammar problems".
+
+Honours the \`.antlr4-mcp.json\` project config (with from_file) and suppression comments such as \`// antlr4-mcp-disable-next-line quantifier-issue\` (other ids: incomplete-parsing, unused-rule, antlr-<code>, ...).
+
+Returns: Aggregated summary, grouped issues, and actionable recommendations.`,
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        grammar_content: {
+          type: 'string',
+          description: 'The ANTLR4 grammar file content',
+        },
+        from_file: {
+          type: 'string',
+          description: 'Optional: path to a grammar file to read',
+        },
+        base_path: {
+          type: 'string',
+          description: 'Optional: base directory for resolving imports',
+        },
+        load_imports: {
+          type: 'boolean',
+          description: 'Optional: if true, automatically load imported grammars. Default: true.',
+        },
+        lib_dirs: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Optional: library directories (like ANTLR -lib) searched for imported grammars and tokenVocab .g4/.tokens files.',
+        },
+        include_suggestions: {
+          type: 'boolean',
+          description: 'Generate smart suggestions for missing tokens (default: true)',
+        },
+        detect_quantifiers: {
+          type: 'boolean',
+          description: 'Detect suspicious quantifier patterns (default: true)',
+        },
+        detect_incomplete: {
+          type: 'boolean',
+          description: 'Detect incomplete parsing patterns (default: true)',
+        },
+        baseline_file: {
+          type: 'string',
+          description:
+            'Optional: baseline JSON of known issues. Only issues missing from it are reported, plus baseline entries that have been fixed.',
+        },
+        update_baseline: {
+          type: 'boolean',
+          description:
+            'Write the current issues to baseline_file instead of comparing (creates or replaces it). Default: false.',
+        },
+      },
+      required: ['grammar_content'],
+    },
+  },
+  {
+    name: 'detect-quantifier-issues',
+    description: `Detect suspicious quantifier patterns that may prevent parsing real configs.
+
+**When to use:** After seeing "unrecognized syntax" warnings or when rules don't match multi-line configs.
+
+**Common patterns detected:**
+1. Rule names with _rule, _setting, _property using ? instead of *
+   → bgpp_export: EXPORT bgp_policy_rule? should be *
+   
+2. Multiple optional elements that should be alternatives
+   → source? destination? action? should be (source | destination | action)*
+   
+3. Same optional reference appearing multiple times
+   → rule: setting? ... setting? should use setting*
+
+**Real-world example:**
+Rule: srs_definition: ... source_setting? destination_setting? action_setting?
+Issue: Config has multiple 'set source', 'set destination' lines
+Fix: Change to (source_setting | destination_setting | action_setting)*
+
+Intentional patterns can be silenced with \`// antlr4-mcp-disable-next-line quantifier-issue\` above the rule, or turned off in \`.antlr4-mcp.json\`.
+
+Returns: List of suspicious patterns with suggestions and reasoning.`,
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        grammar_content: {
+          type: 'string',
+          description: 'The ANTLR4 grammar file content',
+        },
+        from_file: {
+          type: 'string',
+          description: 'Optional: path to a grammar file to read',
+        },
+      },
+      required: ['grammar_content'],
+    },
+  },
+  {
+    name: 'detect-incomplete-parsing',
+    description: `Detect incomplete parsing patterns (anti-patterns that discard content).
+
+**When to use:** When grammar parses configs but doesn't capture structure, or uses placeholder patterns.
+
+**Anti-patterns detected:**
+1. **null_rest_of_line usage**
+   → Discards content instead of parsing it
+   → Example: ss_ssl_tls_service_profile: ... null_rest_of_line
+   → Problem: Loses protocol-settings, certificates, etc.
+
+2. **Overly broad negation patterns**
+   → Example: rule: ~[\\r\\n]+ (matches "anything until newline")
+   → Better: Define specific tokens for expected content
+
+**Real-world impact:**
+- ss_ssl_tls_service_profile used null_rest_of_line
+- Lost: protocol-settings min-version/max-version, certificate options
+- Result: Thousands of warnings about unparsed structure
+
+**Recommendations:**
+- Replace null_rest_of_line with actual structure
+- Define specific lexer tokens instead of broad negations
+- Implement proper parser rules for complex structures
+
+Intentional patterns can be silenced with \`// antlr4-mcp-disable-next-line incomplete-parsing\` above the rule, or turned off in \`.antlr4-mcp.json\`.
+
+Returns: List of incomplete parsing patterns with suggestions.`,
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        grammar_content: {
+          type: 'string',
+          description: 'The ANTLR4 grammar file content',
+        },
+        from_file: {
+          type: 'string',
+          description: 'Optional: path to a grammar file to read',
+        },
+      },
+      required: ['grammar_content'],
+    },
+  },
+  {
+    name: 'fix-quantifier-issues',
+    description: `Selectively fix suspicious quantifier patterns - change )? to )* for specific rules.
+
+**When to use:** After detect-quantifier-issues identifies problems.
+
+**Workflow:**
+1. Run detect-quantifier-issues to see what's suspicious
+2. Review the suggestions
+3. Run fix-quantifier-issues with specific rule_names to fix
+
+**What it fixes:**
+- Rules with alternatives: (a | b | c)? → (a | b | c)*
+- Multiple optional elements that suggest repetition
+- Collection-named rules (_rules, _settings) using )?
+
+**Examples:**
+
+// Step 1: Detect issues
+detect-quantifier-issues(from_file: "PaloAlto_interface.g4")
+→ Shows: snie_ethernet, snie_lacp, sniel_high_availability, snil_units
+
+// Step 2: Fix specific rules
+fix-quantifier-issues(
+  from_file: "PaloAlto_interface.g4",
+  rule_names: ["snie_ethernet", "snie_lacp", "snil_units"]
+)
+→ Fixes only those 3 rules
+
+// Fix all detected issues
+fix-quantifier-issues(from_file: "PaloAlto_interface.g4")
+→ Fixes all suspicious patterns
+
+// Preview without changing
+fix-quantifier-issues(
+  from_file: "PaloAlto_interface.g4",
+  dry_run: true
+)
+→ Shows what would change
+
+**Real-world:**
+Palo Alto grammar had 15 rules flagged.
+User fixed 12, left 3 as-is (they were correct).
+
+Returns: List of changes with line numbers and reasoning`,
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        grammar_content: {
+          type: 'string',
+          description: 'The ANTLR4 grammar file content',
+        },
+        from_file: {
+          type: 'string',
+          description: 'Optional: path to a grammar file to read',
+        },
+        rule_names: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Optional: Array of specific rule names to fix. If omitted, fixes all suspicious patterns',
+        },
+        dry_run: {
+          type: 'boolean',
+          description: 'If true, shows what would change without modifying. Default: false',
+        },
+        output_mode: {
+          type: 'string',
+          enum: ['full', 'diff', 'none'],
+          description:
+            'Output mode: "full" returns complete grammar, "diff" returns git-style diff (default: diff), "none" returns no content',
+        },
+        write_to_file: {
+          type: 'boolean',
+          description:
+            'If true, writes modified grammar back to from_file (requires from_file to be set)',
+        },
+      },
+      required: ['grammar_content'],
+    },
+  },
+];
+
+/**
+ * Keep tool schemas consistent with runtime file-loading fallbacks.
+ * If a tool supports from_file/from_fileN, grammar content should not be hard-required.
+ */
+function normalizeToolInputSchemas(toolsList: Tool[]): void {
+  for (const tool of toolsList) {
+    const inputSchema = tool.inputSchema as
+      { properties?: Record<string, unknown>; required?: string[] } | undefined;
+
+    if (!inputSchema || !Array.isArray(inputSchema.required)) {
+      continue;
+    }
+
+    const properties = inputSchema.properties || {};
+    const hasFromFile = Object.prototype.hasOwnProperty.call(properties, 'from_file');
+    const hasFromFile1 = Object.prototype.hasOwnProperty.call(properties, 'from_file1');
+    const hasFromFile2 = Object.prototype.hasOwnProperty.call(properties, 'from_file2');
+
+    inputSchema.required = inputSchema.required.filter((field) => {
+      if (field === 'grammar_content' && hasFromFile) {
+        return false;
+      }
+      if (field === 'grammar1_content' && hasFromFile1) {
+        return false;
+      }
+      if (field === 'grammar2_content' && hasFromFile2) {
+        return false;
+      }
+      return true;
+    });
+  }
+}
+
+normalizeToolInputSchemas(tools);
+
+/**
+ * Helper: Reconstruct grammar from merged analysis
+ */
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+function reconstructGrammarFromAnalysis(analysis: any): string {
+  const lines: string[] = [];
+
+  // Add header
+  if (analysis.header) {
+    lines.push(analysis.header.trim());
+    lines.push('');
+  }
+
+  // Add parser rules - definition already contains full rule text
+  for (const rule of analysis.rules.filter((r: any) => r.type === 'parser')) {
+    lines.push(rule.definition);
+    lines.push('');
+  }
+
+  // Add lexer rules - definition already contains full rule text
   for (const rule of analysis.rules.filter((r: any) => r.type === 'lexer')) {
     lines.push(rule.definition);
     lines.push('');
   }
 
-  return lines.join('\n');
-}
+  return lines.join('\n');
+}
+
+/**
+ * List available tools
+ */
+server.setRequestHandler(ListToolsRequestSchema, async () => ({
+  tools,
+}));
+
+/**
+ * Handle tool calls
+ */
+server.setRequestHandler(CallToolRequestSchema, (request) =>
+  editContext.run({ tool: request.params.name, arguments: request.params.arguments || {} }, () =>
+    handleToolCall(request)
+  )
+);
+
+/**
+ * Run one tool call; files it writes are journaled under its name
+ */
+async function handleToolCall(request: CallToolRequest) {
+  const { params } = request;
+  const name = params.name;
+  const args = params.arguments;
+
+  // Debug logging - shows MCP server is being invoked
+  console.error(`[ANTLR4-MCP] Tool invoked: ${name}`);
+  console.error(`[ANTLR4-MCP] Arguments:`, Object.keys(args || {}).join(', '));
+
+  try {
+    let grammarContent = '';
+    let grammar2Content = '';
+
+    // Handle file reading
+    if (typeof args === 'object' && args !== null) {
+      const argsObj = args as Record<string, unknown>;
+
+      // Read grammar 1 - prioritize from_file if grammar_content is empty or looks like a placeholder
+      const grammarContentStr = argsObj.grammar_content as string;
+      const isPlaceholder =
+        grammarContentStr &&
+        (/^\/\/\s*(read|from|file|placeholder)/i.test(grammarContentStr.trim()) ||
+          grammarContentStr.trim().length < 50); // Very short strings are likely placeholders
+
+      if (
+        grammarContentStr &&
+        typeof grammarContentStr === 'string' &&
+        grammarContentStr.trim() !== '' &&
+        !isPlaceholder
+      ) {
+        grammarContent = grammarContentStr;
+        console.error(`[ANTLR4-MCP] Using grammar_content (${grammarContent.length} chars)`);
+      } else if (argsObj.from_file && typeof argsObj.from_file === 'string') {
+        try {
+          grammarContent = fs.readFileSync(argsObj.from_file, 'utf-8');
+          console.error(
+            `[ANTLR4-MCP] Read from file: ${argsObj.from_file} (${grammarContent.length} chars)`
+          );
+        } catch (readError) {
+          console.error(`[ANTLR4-MCP] Failed to read file: ${argsObj.from_file}`, readError);
+        }
+      } else {
+        console.error(
+          `[ANTLR4-MCP] No grammar content available. grammar_content: "${grammarContentStr}", from_file: "${argsObj.from_file}"`
+        );
+      }
+
+      // Read grammar 2 (for compare-grammars) - prioritize from_file2 if grammar2_content is empty or placeholder
+      const grammar2ContentStr = argsObj.grammar2_content as string;
+      const isPlaceholder2 =
+        grammar2ContentStr &&
+        (/^\/\/\s*(read|from|file|placeholder)/i.test(grammar2ContentStr.trim()) ||
+          grammar2ContentStr.trim().length < 50);
+
+      if (
+        grammar2ContentStr &&
+        typeof grammar2ContentStr === 'string' &&
+        grammar2ContentStr.trim() !== '' &&
+        !isPlaceholder2
+      ) {
+        grammar2Content = grammar2ContentStr;
+      } else if (argsObj.from_file2 && typeof argsObj.from_file2 === 'string') {
+        grammar2Content = fs.readFileSync(argsObj.from_file2, 'utf-8');
+      }
+
+      switch (name) {
+        case 'help': {
+          const topic = (argsObj.topic as string) || 'overview';
+          let helpText = '';
+
+          switch (topic) {
+            case 'overview':
+              helpText = `# ANTLR4 MCP Server - Tool Overview
+
+This server provides 63 specialized tools for working with ANTLR4 grammars, organized into 5 categories:
+
+## 📊 Analysis & Inspection (19 tools)
+Extract structure, validate syntax, find rules, compare grammars, detect ambiguities. **Now with metrics and security scanning!**
+
+Tools: analyze-grammar ⭐, validate-grammar ⭐, compile-grammar ⭐, list-rules, find-rule, list-actions, format-grammar, get-suggestions, compare-grammars, analyze-ambiguities, analyze-nullability, decision-conflicts, find-dead-code, analyze-lexer-modes ⭐, analyze-mode-transitions, list-mode-rules, grammar-metrics ⭐, detect-redos ⭐, check-style
+
+**When to use:** Exploring grammars, understanding structure, finding issues, analyzing dependencies, detecting ambiguities, measuring complexity, security auditing. Use load_imports: true for multi-file projects.
+
+## ✏️ Authoring & Modification (24 tools)
+Add, remove, update, and rename rules with automatic sorting and duplicate prevention. **Now with lexer mode support!**
+
+Tools: add-lexer-rule, add-parser-rule, remove-rule, update-rule, rename-rule, add-declarations, remove-declarations, add-lexer-rules, add-parser-rules, add-rules, apply-edits, undo-last-edit, redo-edit, list-edit-history, add-tokens-with-template, generate-tokens-from-pattern, suggest-tokens-from-errors, add-lexer-mode, add-rule-to-mode, move-rule-to-mode, duplicate-mode, rename-mode, remove-mode, create-grammar-template
+
+**When to use:** Creating new grammars, adding rules, modifying definitions, refactoring names, batch token generation, managing lexer modes, scaffolding grammar structure.
+
+## 🔧 Refactoring & Optimization (17 tools)
+Find rule usages, analyze complexity/dependencies, extract fragments, merge/inline/sort/move rules, remove mutual left recursion.
+
+Tools: find-rule-usages ⭐, impact-analysis ⭐, rule-statistics, extract-fragment, merge-rules, inline-rule, extract-rule, left-factor-rule, literals-to-tokens, split-grammar, combine-grammars, flatten-imports, move-rule-to-file, label-alternatives, eliminate-left-recursion, sort-rules, move-rule ⭐
+
+**When to use:** Optimizing grammars, reducing duplication, understanding dependencies, safe refactoring, organizing large grammars, repositioning rules.
+
+## 🧪 Testing & Validation (3 tools)
+Test lexer/parser behavior quickly and run native compile checks when needed. **Supports multi-file grammars!**
+
+Tools: preview-tokens, test-parser-rule ⭐, compile-grammar ⭐
+
+**When to use:** Quick validation during development, testing grammar changes without full ANTLR build cycle, testing rules across imports.
+
+## 📚 Documentation & Reporting (2 tools)
+Generate comprehensive Markdown documentation and grammar metrics summaries.
+
+Tools: export-as-markdown, generate-summary
+
+**When to use:** Creating documentation, generating reports, tracking progress.
+
+---
+
+**🚀 NEW FEATURES (v2.3):**
+- **Lexer Mode Support**: Full support for analyzing and editing lexer modes
+  - analyze-lexer-modes: Analyze mode structure, entry/exit points, detect issues
+  - analyze-mode-transitions: Build transition graph, detect circular transitions
+  - list-mode-rules: Quick view of rules in a specific mode
+  - add-lexer-mode: Add new mode declarations
+  - add-rule-to-mode: Add rules to specific modes
+  - move-rule-to-mode: Move existing rules between modes
+  - duplicate-mode: Clone a mode with all its rules
+- **Grammar Templates**: create-grammar-template scaffolds new grammars with mode structure
+- **tokenVocab fix**: validate-grammar now correctly resolves lexer tokens from tokenVocab
+- **Multi-file rename**: rename-rule supports load_imports for cross-file renaming
+- **from_file fallback**: Tools automatically read from from_file when grammar_content is empty
+- move-rule: Reposition rules before/after other rules
+- Enhanced find-rule-usages: Context info + multi-file search
+- compile-grammar: Native ANTLR4 compile diagnostics with line/column reporting
+- impact-analysis: Downstream/upstream rule impact + risk level before refactoring
+
+**💡 QUICK START:** When exploring an unfamiliar grammar, start with:
+1. analyze-grammar - Get complete structure (use load_imports: true for multi-file)
+2. validate-grammar - Check for issues (use load_imports: true for multi-file)
+3. compile-grammar - Confirm ANTLR toolchain compatibility
+4. generate-summary - View health metrics
+
+For help on specific categories, use:
+- topic: "analysis" for analysis tool details
+- topic: "authoring" for editing tool details
+- topic: "refactoring" for optimization tool details
+- topic: "workflows" for common multi-step patterns
+- topic: "examples" for practical usage examples`;
+              break;
+
+            case 'workflows':
+              helpText = `# Common ANTLR4 MCP Workflows
+
+## 🔍 Workflow 1: Exploring an Unfamiliar Grammar (Multi-File Support!)
+1. **analyze-grammar** with load_imports: true - Extract complete structure across imports
+2. **validate-grammar** with load_imports: true - Identify any issues in all files
+3. **analyze-ambiguities** - Detect potential ambiguities
+4. **generate-summary** - View metrics and health
+5. **find-rule** with regex - Discover specific patterns
+
+Example: Analyze multi-file Batfish grammar
+  analyze-grammar: from_file="PaloAlto_rulebase.g4", base_path="/path/to/grammars", load_imports=true
+
+## ✏️ Workflow 2: Adding New Rules Safely
+1. **list-rules** - See existing rules to avoid conflicts
+2. **add-parser-rule** or **add-lexer-rule** - Add new rule (auto-sorted)
+3. **validate-grammar** - Verify syntax correctness
+4. **test-parser-rule** ⭐ - Quick validation without compilation
+5. **find-rule-usages** - Check where new rule is used
+
+For multiple rules: Use **add-lexer-rules**, **add-parser-rules**, or **add-rules** for bulk operations.
+
+## 🔧 Workflow 3: Safe Rule Renaming (Multi-File Support!)
+1. **find-rule-usages** with load_imports: true - See all usages across imports
+2. **rule-statistics** - Analyze complexity and dependencies
+3. **rename-rule** with load_imports: true and write_to_file: true - Rename across all files
+4. **validate-grammar** with load_imports: true - Verify no issues introduced
+5. **compile-grammar** with load_imports: true - Native ANTLR check before commit
+
+Example: Rename "expr" to "expression"
+  find-rule-usages: rule_name="expr", load_imports=true
+  rename-rule: old_name="expr", new_name="expression", write_to_file=true
+
+## ⚡ Workflow 4: Grammar Optimization & Cleanup
+1. **analyze-ambiguities** - Find potential issues before compilation
+2. **rule-statistics** - Find complex rules with high fan-in/fan-out
+3. **inline-rule** - Collapse pass-through helper rules
+4. **sort-rules** - Organize rules (alphabetical, dependency, usage, or type)
+5. **move-rule** ⭐ - Reposition rules for better organization
+6. **extract-fragment** - Create reusable patterns from duplicated lexer patterns
+7. **merge-rules** - Consolidate similar rules into one with alternatives
+8. **generate-summary** - View improvements
+
+Example: Reorganize grammar
+  sort-rules: strategy="dependency", anchor_rule="program", write_to_file=true
+  move-rule: rule_name="utility", position="after", anchor_rule="common"
+
+## 🧪 Workflow 5: Rapid Development & Testing (Multi-File Support!)
+1. **add-parser-rule** - Add new rule to grammar
+2. **test-parser-rule** with load_imports: true - Test across imports (no compilation!)
+3. **update-rule** - Refine rule definition based on test results
+4. **test-parser-rule** - Verify changes work
+5. **analyze-ambiguities** - Check for new ambiguities
+6. **validate-grammar** - Final syntax check
+7. **compile-grammar** - Confirm no ANTLR toolchain errors
+
+Example: Test multi-file parser rule
+  test-parser-rule: rule_name="srs_group_tag", input="group-tag \"Value\"", from_file="PaloAlto_rulebase.g4", load_imports=true
+
+## 📝 Workflow 6: Documentation Generation
+1. **analyze-grammar** - Extract complete structure
+2. **export-as-markdown** - Generate comprehensive documentation
+3. **generate-summary** - Create metrics summary
+4. **compare-grammars** - Highlight differences between versions
+
+## 🔨 Workflow 7: Rule Removal
+1. **find-rule-usages** with load_imports: true - Check cross-file references (critical!)
+2. **remove-rule** with write_to_file: true - Delete the rule
+3. **validate-grammar** - Check for broken references
+
+**Warning:** remove-rule does NOT update references. Check usages first!
+
+## 🚀 Workflow 8: Multi-File Grammar Management
+1. **analyze-grammar** with load_imports: true - Get complete view
+2. **find-rule-usages** with load_imports: true - Track cross-file dependencies
+3. **validate-grammar** with load_imports: true - Validate with lexer imports (tokenVocab resolved)
+4. **test-parser-rule** with load_imports: true - Test with full context
+5. **rename-rule** with load_imports: true - Rename across all imported files
+6. **compile-grammar** with load_imports: true - Native compile verification across loaded files
+
+**New in v2.2:** tokenVocab lexer tokens are correctly resolved during validation!
+
+---
+
+**💡 TIP:** Always use write_to_file: true when you want changes persisted.`;
+              break;
+
+            case 'analysis':
+              helpText = `# Analysis & Inspection Tools
+
+## analyze-grammar
+**Purpose:** Extract complete grammar structure and metadata
+**Returns:** Rules, tokens, imports, references, validation issues
+**Use when:** First exploration of a grammar
+
+## validate-grammar
+**Purpose:** Detect syntax issues and problems
+**Detects:** Undefined rules, unused rules, left recursion, naming violations
+**Multi-file:** Use load_imports: true to validate with lexer imports (tokenVocab)
+**Baseline:** update_baseline: true records known issues in baseline_file; later runs show only new and fixed ones (also on smart-validate)
+**Use when:** After making changes, or diagnosing problems
+**Note:** With load_imports=true, lexer tokens from tokenVocab are correctly resolved
+
+## compile-grammar ⭐ NEW
+**Purpose:** Run native ANTLR4 compile checks and return toolchain diagnostics
+**Returns:** Error/warning diagnostics with file:line:column, compile timing, generated artifact count
+**Multi-file:** Use load_imports: true with from_file for import/tokenVocab-aware checks
+**Use when:** Before commit, after refactors, or when validate-grammar is clean but ANTLR still fails
+
+## analyze-ambiguities ⭐ NEW
+**Purpose:** Static analysis for common ANTLR4 ambiguity patterns
+**Detects:**
+  1. Identical alternatives (ERROR) - Duplicate alternatives in rules
+  2. Overlapping prefixes (WARNING) - Alternatives with common prefixes
+  3. Ambiguous optionals (WARNING) - Patterns like A? A and A? A*
+  4. Hidden left recursion (ERROR) - Indirect left recursion via other rules
+  5. Lexer conflicts (WARNING) - Overlapping lexer patterns
+**Returns:** Issues with severity (ERROR/WARNING/INFO), actionable suggestions
+**Use when:** Before compilation, after making changes, debugging parser warnings
+**Example:**
+  - Detect duplicate: expr: ID | NUMBER | ID  →  ERROR
+  - Suggest fix: Use ID+ instead of ID? ID  →  WARNING
+
+## decision-conflicts
+**Purpose:** LL(1) conflict report built on FIRST/FOLLOW sets over the parser rule graph
+**Returns:** Every alternative block, subrule, optional block and closure where one token predicts more than one path; FIRST/FOLLOW sets with show_sets
+**Use when:** Deciding which decisions need LL(2+) lookahead and are worth refactoring
+
+## find-dead-code
+**Purpose:** Reachability from the start rules across parser rules, tokens, fragments, modes, imports and the tokenVocab lexer
+**Returns:** Dead items with their reasons; with remove, one diff deleting those in the main grammar
+**Use when:** Cleaning up after refactoring, or before splitting or merging grammars
+
+## analyze-nullability
+**Purpose:** Find rules that can match the empty string and what breaks because of them
+**Returns:** Nullable rules with derivation chains, \`(x?)*\`-style closures and optional blocks, left recursion behind nullable prefixes
+**Use when:** ANTLR reports a closure that can match an empty string, or a parser loop never ends
+
+## list-rules
+**Purpose:** List all rules with optional filtering
+**Filters:** lexer, parser, or all
+**Use when:** Getting overview of available rules
+
+## find-rule
+**Purpose:** Locate specific rules or patterns
+**Features:** Exact match OR regex pattern matching
+**Examples:**
+  - Exact: rule_name="expression"
+  - All lexer: rule_name="^[A-Z]+$", use_regex=true
+  - Contains "token": rule_name=".*token.*", use_regex=true
+**Use when:** Searching for specific rules or rule patterns
+
+## format-grammar
+**Purpose:** Display structured summary with formatting
+**Returns:** Name, type, rules, imports, options, issues
+**Use when:** Need high-level overview
+
+## get-suggestions
+**Purpose:** Get actionable improvement recommendations
+**Analyzes:** Naming, complexity, unused rules, undefined refs, performance
+**Use when:** Optimizing grammar quality
+
+## compare-grammars
+**Purpose:** Compare two grammars side-by-side
+**Returns:** Common rules, unique rules, modified rules, statistics
+**Use when:** Understanding changes between versions
+
+## Project config & suppressions
+**Config:** \`.antlr4-mcp.json\` in the grammar's directory or a parent, used when from_file is given
+  \`{ "checks": { "too-many-alternatives": { "severity": "info", "max": 15 }, "unused-rule": "off" } }\`
+**Suppress:** \`// antlr4-mcp-disable-next-line quantifier-issue\`, \`-disable-line\`, or \`-disable\` ... \`-enable\` ranges
+**Applies to:** check-style, detect-redos, analyze-ambiguities, smart-validate, validate-grammar, analyze-grammar, detect-quantifier-issues, detect-incomplete-parsing, analyze-nullability, decision-conflicts, find-dead-code, analyze-lexer-modes, grammar-metrics, analyze-bottlenecks
+**Check ids:** Shown in brackets in reports; validation issues with an ANTLR code use antlr-<code>`;
+              break;
+
+            case 'authoring':
+              helpText = `# Authoring & Modification Tools
+
+## Single Rule Operations
+
+### add-lexer-rule
+**Purpose:** Add single lexer rule (token)
+**Features:** Auto-sorting, duplicate prevention, naming validation
+**Examples:**
+  - ID rule: name="ID", pattern="[a-zA-Z_][a-zA-Z0-9_]*"
+  - Whitespace: name="WS", pattern="[ \\t\\n\\r]+", skip=true
+  - Fragment: name="DIGIT", pattern="[0-9]", fragment=true
+
+### add-parser-rule
+**Purpose:** Add single parser rule
+**Features:** Auto-sorting, duplicate prevention, naming validation
+**Examples:**
+  - Expression: name="expression", definition="term ((PLUS | MINUS) term)*"
+  - Statement: name="statement", definition="assignment | ifStatement"
+
+### remove-rule
+**Purpose:** Delete a rule
+**Warning:** Does NOT update references - use find-rule-usages first!
+
+### update-rule
+**Purpose:** Modify existing rule definition
+**Preserves:** Rule position in grammar
+**Use when:** Changing rule logic without renaming
+
+### rename-rule
+**Purpose:** Rename rule and ALL references safely
+**Features:** Whole-word matching, complete reference tracking, multi-file support
+**Multi-file:** Use load_imports: true to rename across imported grammars
+**Recommended workflow:**
+  1. find-rule-usages with load_imports=true (check full impact)
+  2. rename-rule with load_imports=true (perform refactoring)
+  3. validate-grammar with load_imports=true (verify)
+
+## Bulk Operations
+
+### (removed) add-lexer-rules — merged into add-rules
+**Purpose:** Add multiple lexer rules at once
+**Features:** Partial success, per-rule reporting
+
+### add-parser-rules
+**Purpose:** Add multiple parser rules at once
+**Features:** Partial success, per-rule reporting
+
+### add-rules
+**Purpose:** Add mixed lexer and parser rules
+**Most flexible:** Handles both types in one operation
+
+### apply-edits
+**Purpose:** Run add-rule / update-rule / remove-rule / rename-rule / move-rule / inline-rule operations as one transaction
+**Checks:** Validates the result (optionally compiles it natively); writes nothing if an edit fails or new errors (with strict: also warnings) appear
+**Returns:** One unified diff per changed file; a rename with from_file also changes the grammars it imports, and write_to_file writes all of them or none
+**Example:**
+  operations=[{"op": "add-rule", "rule_name": "ARROW", "pattern": "'=>'"}, {"op": "rename-rule", "old_name": "expr", "new_name": "expression"}]
+
+## Advanced Token Generation
+
+### add-tokens-with-template
+**Purpose:** Generate multiple similar tokens using templates
+**Features:** Pattern-based generation with {NAME} placeholder
+**Examples:**
+  - Config tokens: base_names=["ftm-push", "dns", "firewall"]
+  - Custom pattern: pattern="'protocol-{NAME}'"
+**Use when:** Adding related tokens with consistent patterns
 
-/**
- * List available tools
- */
-server.setRequestHandler(ListToolsRequestSchema, async () => ({
-  tools,
-}));
+### generate-tokens-from-pattern
+**Purpose:** Auto-generate tokens from natural language input
+**Features:** Automatic tokenization and naming
+**Examples:**
+  - Input: "ignore config system ftm-push"
+  - Generates: IGNORE, CONFIG, SYSTEM, FTM_PUSH
+**Use when:** Quick prototyping from sample input
 
-/**
- * Handle tool calls
- */
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { params } = request;
-  const name = params.name;
-  const args = params.arguments;
+### suggest-tokens-from-errors
+**Purpose:** Parse error logs and suggest missing tokens
+**Supports:** Batfish errors, ANTLR parse errors
+**Features:** Confidence scoring, automatic deduplication
+**Use when:** Debugging parser failures
+**Note:** Only suggests tokens - use add-rules to add them (add-lexer-rules merged into add-rules)
 
-  // Debug logging - shows MCP server is being invoked
-  console.error(`[ANTLR4-MCP] Tool invoked: ${name}`);
-  console.error(`[ANTLR4-MCP] Arguments:`, Object.keys(args || {}).join(', '));
+## Lexer Modes
 
-  try {
-    let grammarContent = '';
-    let grammar2Content = '';
+### rename-mode
+**Purpose:** Rename a mode in every grammar of the import graph
+**Updates:** \`mode X;\` declarations and all mode(X) / pushMode(X) commands, including the tokenVocab lexer
+**Refuses:** Names of existing modes or tokens
 
-    // Handle file reading
-    if (typeof args === 'object' && args !== null) {
-      const argsObj = args as Record<string, unknown>;
+### remove-mode
+**Purpose:** Delete a mode with its rules, or move its rules to target_mode
+**Refuses:** While a remaining mode(X) / pushMode(X) command enters it, or a remaining rule uses a deleted one
+**Example:**
+  from_file="HtmlLexer.g4", mode_name="SCRIPT", target_mode="DEFAULT_MODE"
 
-      // Read grammar 1 - prioritize from_file if grammar_content is empty or looks like a placeholder
-      const grammarContentStr = argsObj.grammar_content as string;
-      const isPlaceholder =
-        grammarContentStr &&
-        (/^\/\/\s*(read|from|file|placeholder)/i.test(grammarContentStr.trim()) ||
-          grammarContentStr.trim().length < 50); // Very short strings are likely placeholders
+---
 
-      if (
-        grammarContentStr &&
-        typeof grammarContentStr === 'string' &&
-        grammarContentStr.trim() !== '' &&
-        !isPlaceholder
-      ) {
-        grammarContent = grammarContentStr;
-        console.error(`[ANTLR4-MCP] Using grammar_content (${grammarContent.length} chars)`);
-      } else if (argsObj.from_file && typeof argsObj.from_file === 'string') {
-        try {
-          grammarContent = fs.readFileSync(argsObj.from_file, 'utf-8');
-          console.error(
-            `[ANTLR4-MCP] Read from file: ${argsObj.from_file} (${grammarContent.length} chars)`
-          );
-        } catch (readError) {
-          console.error(`[ANTLR4-MCP] Failed to read file: ${argsObj.from_file}`, readError);
-        }
-      } else {
-        console.error(
-          `[ANTLR4-MCP] No grammar content available. grammar_content: "${grammarContentStr}", from_file: "${argsObj.from_file}"`
-        );
-      }
+**💡 FILE PERSISTENCE:** All authoring tools support write_to_file: true
+Set this parameter to automatically save changes to the grammar file.
 
-      // Read grammar 2 (for compare-grammars) - prioritize from_file2 if grammar2_content is empty or placeholder
-      const grammar2ContentStr = argsObj.grammar2_content as string;
-      const isPlaceholder2 =
-        grammar2ContentStr &&
-        (/^\/\/\s*(read|from|file|placeholder)/i.test(grammar2ContentStr.trim()) ||
-          grammar2ContentStr.trim().length < 50);
+## Edit History
 
-      if (
-        grammar2ContentStr &&
-        typeof grammar2ContentStr === 'string' &&
-        grammar2ContentStr.trim() !== '' &&
-        !isPlaceholder2
-      ) {
-        grammar2Content = grammar2ContentStr;
-      } else if (argsObj.from_file2 && typeof argsObj.from_file2 === 'string') {
-        grammar2Content = fs.readFileSync(argsObj.from_file2, 'utf-8');
-      }
+Every write_to_file is journaled in .antlr4-mcp-history.json of the workspace (nearest directory with .antlr4-mcp.json or .git).
 
-      switch (name) {
-        case 'help': {
-          const topic = (argsObj.topic as string) || 'overview';
-          let helpText = '';
+### undo-last-edit / redo-edit
+**Purpose:** Restore the files of the last edit to their previous state, or reapply an undone edit
+**Hand edits:** Refused when a file changed since; merge: true keeps those changes (3-way merge)
 
-          switch (topic) {
-            case 'overview':
-              helpText = `# ANTLR4 MCP Server - Tool Overview
+### list-edit-history
+**Purpose:** Show journaled edits (tool, arguments, before/after hashes) and what redo would reapply`;
+              break;
 
-This server provides 42 specialized tools for working with ANTLR4 grammars, organized into 5 categories:
+            case 'refactoring':
+              helpText = `# Refactoring & Optimization Tools
 
-## 📊 Analysis & Inspection (15 tools)
-Extract structure, validate syntax, find rules, compare grammars, detect ambiguities. **Now with metrics and security scanning!**
+## find-rule-usages ⭐ ENHANCED
+**Purpose:** Find all references to a specific rule with context
+**Returns:** Total count, line numbers, containing rule, context
+**Multi-file:** Use load_imports: true to search across imported grammars
+**Use before:** Renaming or removing rules
+**Example:** rule_name="expression", load_imports=true
+**New features:**
+  - Shows which rule contains each usage
+  - Skips definition line and comments
+  - Helpful messages for unused rules
 
-Tools: analyze-grammar ⭐, validate-grammar ⭐, compile-grammar ⭐, list-rules, find-rule, format-grammar, get-suggestions, compare-grammars, analyze-ambiguities, analyze-lexer-modes ⭐, analyze-mode-transitions, list-mode-rules, grammar-metrics ⭐, detect-redos ⭐, check-style
+## move-rule ⭐ NEW
+**Purpose:** Reposition a rule before or after another rule
+**Parameters:** 
+  - rule_name: rule to move
+  - position: 'before' or 'after'
+  - anchor_rule: target rule for positioning
+**Benefits:** Organize grammar, group related rules, enforce conventions
+**Example:** rule_name="expression", position="before", anchor_rule="statement"
+**Use cases:**
+  - Organizing by logical grouping
+  - Placing dependencies before dependents
+  - Following team style guides
+  - Improving readability
 
-**When to use:** Exploring grammars, understanding structure, finding issues, analyzing dependencies, detecting ambiguities, measuring complexity, security auditing. Use load_imports: true for multi-file projects.
+## impact-analysis ⭐ NEW
+**Purpose:** Estimate blast radius before changing a rule
+**Returns:**
+  - Direct/transitive dependents (what breaks if changed)
+  - Direct/transitive dependencies (what this rule relies on)
+  - Usage count, recursion status, entry-rule detection
+  - Risk level (low/medium/high/critical)
+**Use before:** Renaming, deleting, inlining, or major rewrites
 
-## ✏️ Authoring & Modification (16 tools)
-Add, remove, update, and rename rules with automatic sorting and duplicate prevention. **Now with lexer mode support!**
+## rule-statistics
+**Purpose:** Analyze rule complexity and dependencies
+**Returns:**
+  - Complexity: number of alternatives
+  - Fan-out: rules this rule references (dependencies)
+  - Fan-in: rules that reference this rule (dependents)
+  - Recursion: direct/indirect recursion detection
+**Use cases:**
+  - Identify complex rules for optimization
+  - Find heavily-coupled rules
+  - Detect recursion issues
+  - Plan refactoring priorities
 
-Tools: add-lexer-rule, add-parser-rule, remove-rule, update-rule, rename-rule, add-lexer-rules, add-parser-rules, add-rules, add-tokens-with-template, generate-tokens-from-pattern, suggest-tokens-from-errors, add-lexer-mode, add-rule-to-mode, move-rule-to-mode, duplicate-mode, create-grammar-template
+## inline-rule
+**Purpose:** Replace rule references with definition and delete original rule
+**Benefits:** Collapse pass-through rules, simplify grammar structure
+**Safety:** Automatic circular reference detection, smart parenthesization
+**Example:**
+  Before: expr: primary; primary: NUMBER | ID;
+  After:  expr: (NUMBER | ID);
+**Use cases:**
+  - Removing unnecessary helper rules
+  - Flattening grammar hierarchy
+  - Reducing rule clutter
 
-**When to use:** Creating new grammars, adding rules, modifying definitions, refactoring names, batch token generation, managing lexer modes, scaffolding grammar structure.
+## extract-rule
+**Purpose:** Move a sub-expression into a new rule and reference it instead (inverse of inline-rule)
+**Selection:** expression="expr (',' expr)*" or path="2.3" (alternative 2, element 3)
+**Example:**
+  Before: call: ID '(' expr (',' expr)* ')';
+  After:  call: ID '(' argList ')'; argList: expr (',' expr)*;
+**Options:** replace_all=true replaces identical occurrences elsewhere (load_imports=true: in importing grammars too)
+**Use cases:**
+  - Naming repeated sub-expressions
+  - Splitting long rules
+  - Pulling a group of alternatives into their own rule
 
-## 🔧 Refactoring & Optimization (8 tools)
-Find rule usages, analyze complexity/dependencies, extract fragments, merge/inline/sort/move rules.
+## left-factor-rule
+**Purpose:** Merge alternatives with a common prefix into one alternative with a subrule
+**Example:**
+  Before: a: X Y b | X Y c;
+  After:  a: X Y (b | c);
+**Safety:** Refuses to drop # labels unless drop_labels=true; skips left-recursive alternatives
+**Proof:** Lists the rule's LL(1) conflicts (FIRST-set overlaps) before and after
+
+## literals-to-tokens
+**Purpose:** Replace parser-rule literals ('interface', ';') with named tokens (INTERFACE, SEMI)
+**Reuses:** Lexer rules defined as exactly the literal; new tokens go before the first lexer rule
+**Multi-file:** load_imports=true rewrites imported grammars and adds tokens to the tokenVocab lexer
+**Use cases:**
+  - Readable token names instead of T__12 in generated code
+  - Preparing a combined grammar for a lexer/parser split
+
+## split-grammar
+**Purpose:** Turn combined grammar X into XLexer.g4 and XParser.g4 (tokenVocab=XLexer)
+**Moves to the lexer:** Lexer rules, fragments, modes, tokens {}, channels {}, @lexer:: actions
+**Literals:** Converted to named tokens first, as literals-to-tokens does
+**Writing:** write_to_file writes both files or neither; existing files are not overwritten
+**Use cases:**
+  - Adding lexer modes to a prototype made with create-grammar-template
 
-Tools: find-rule-usages ⭐, impact-analysis ⭐, rule-statistics, extract-fragment, merge-rules, inline-rule, sort-rules, move-rule ⭐
+## combine-grammars
+**Purpose:** Merge XParser.g4 and its tokenVocab lexer XLexer.g4 into grammar X (reverse of split-grammar)
+**Merges:** options (without tokenVocab), tokens {}, named actions (lexer ones as @lexer::)
+**Refuses:** Lexer modes and channels {} (not allowed in combined grammars), lexer superClass, conflicting options, rule name collisions
 
-**When to use:** Optimizing grammars, reducing duplication, understanding dependencies, safe refactoring, organizing large grammars, repositioning rules.
+## flatten-imports
+**Purpose:** Merge a grammar and everything it imports into one standalone .g4
+**Semantics:** As ANTLR: the importing grammar's rules win, then the first import (depth-first)
+**Report:** Rules added per import, dropped overridden rules, concatenated named actions
+**Example:**
+  from_file="Main.g4", output_file="flat/Main.g4", write_to_file=true
 
-## 🧪 Testing & Validation (3 tools)
-Test lexer/parser behavior quickly and run native compile checks when needed. **Supports multi-file grammars!**
+## move-rule-to-file
+**Purpose:** Move rules (with their comments) to another file of the main grammar's import graph
+**Checks:** The destination still sees everything the rules reference; other files still see the moved rules
+**Warns:** When another definition of a moved rule would win ANTLR's import override resolution
+**Writing:** write_to_file writes all modified files or none
+**Example:**
+  from_file="Main.g4", rule_names=["expr", "term"], target_file="Exprs.g4"
 
-Tools: preview-tokens, test-parser-rule ⭐, compile-grammar ⭐
+## sort-rules
+**Purpose:** Reorder rules using multiple sorting strategies
+**Strategies:**
+  1. alphabetical - Simple A-Z ordering
+  2. type - Group parser rules, then lexer rules
+  3. dependency - Order by dependencies (with anchor rule)
+  4. usage - Order by reference count (most-used first)
+**Example:**
+  strategy="dependency", anchor_rule="program"
+**Use cases:**
+  - Organizing large grammar files
+  - Improving readability
+  - Grouping related rules
 
-**When to use:** Quick validation during development, testing grammar changes without full ANTLR build cycle, testing rules across imports.
+## extract-fragment
+**Purpose:** Create reusable fragment from a pattern
+**Benefits:** Reduce duplication, improve maintainability
+**Example:**
+  fragment_name="DIGIT", pattern="[0-9]"
+  Then use in other rules: ID: LETTER (LETTER | DIGIT)*
 
-## 📚 Documentation & Reporting (2 tools)
-Generate comprehensive Markdown documentation and grammar metrics summaries.
+## merge-rules
+**Purpose:** Combine two rules into one with alternatives
+**Benefits:** Reduce rule count, group related logic
+**Example:**
+  rule1="intLiteral", rule2="floatLiteral", new="numericLiteral"
+  Result: numericLiteral: intLiteral | floatLiteral
+
+---
+
+**💡 SAFE REFACTORING PATTERN:**
+1. find-rule-usages - Understand impact
+2. rule-statistics - Analyze complexity
+3. inline-rule OR extract-rule OR rename-rule OR merge-rules - Perform refactoring
+4. validate-grammar - Verify correctness
+5. analyze-ambiguities ⭐ - Check for new issues`;
+              break;
+
+            case 'examples':
+              helpText = `# Practical Usage Examples
+
+## Example 1: Creating a Simple Calculator Grammar
+
+Step 1 - Add lexer rules for tokens:
+  Tool: add-rules (add-lexer-rules merged)
+  rules: [
+    { name: "PLUS", pattern: "'+'" },
+    { name: "MINUS", pattern: "'-'" },
+    { name: "TIMES", pattern: "'*'" },
+    { name: "DIVIDE", pattern: "'/'" },
+    { name: "NUMBER", pattern: "[0-9]+" },
+    { name: "WS", pattern: "[ \\t\\n\\r]+", skip: true }
+  ]
+
+Step 2 - Add parser rules for expressions:
+  Tool: add-parser-rules
+  rules: [
+    { name: "expression", definition: "term ((PLUS | MINUS) term)*" },
+    { name: "term", definition: "factor ((TIMES | DIVIDE) factor)*" },
+    { name: "factor", definition: "NUMBER" }
+  ]
+
+Step 3 - Validate:
+  Tool: validate-grammar
+
+## Example 2: Finding and Analyzing a Rule
+
+Step 1 - Find all lexer rules:
+  Tool: find-rule
+  rule_name: "^[A-Z]+$"
+  use_regex: true
+
+Step 2 - Analyze specific rule complexity:
+  Tool: rule-statistics
+  rule_name: "expression"
+
+Step 3 - See where it's used:
+  Tool: find-rule-usages
+  rule_name: "expression"
+
+## Example 3: Safe Rule Renaming
+
+Step 1 - Check current usages:
+  Tool: find-rule-usages
+  rule_name: "expr"
+
+Step 2 - Rename with reference updates:
+  Tool: rename-rule
+  old_name: "expr"
+  new_name: "expression"
+  write_to_file: true
 
-Tools: export-as-markdown, generate-summary
+Step 3 - Verify no issues:
+  Tool: validate-grammar
 
-**When to use:** Creating documentation, generating reports, tracking progress.
+## Example 4: Optimizing with Fragments
 
----
+Step 1 - Extract common digit pattern:
+  Tool: extract-fragment
+  fragment_name: "DIGIT"
+  pattern: "[0-9]"
 
-**🚀 NEW FEATURES (v2.3):**
-- **Lexer Mode Support**: Full support for analyzing and editing lexer modes
-  - analyze-lexer-modes: Analyze mode structure, entry/exit points, detect issues
-  - analyze-mode-transitions: Build transition graph, detect circular transitions
-  - list-mode-rules: Quick view of rules in a specific mode
-  - add-lexer-mode: Add new mode declarations
-  - add-rule-to-mode: Add rules to specific modes
-  - move-rule-to-mode: Move existing rules between modes
-  - duplicate-mode: Clone a mode with all its rules
-- **Grammar Templates**: create-grammar-template scaffolds new grammars with mode structure
-- **tokenVocab fix**: validate-grammar now correctly resolves lexer tokens from tokenVocab
-- **Multi-file rename**: rename-rule supports load_imports for cross-file renaming
-- **from_file fallback**: Tools automatically read from from_file when grammar_content is empty
-- move-rule: Reposition rules before/after other rules
-- Enhanced find-rule-usages: Context info + multi-file search
-- compile-grammar: Native ANTLR4 compile diagnostics with line/column reporting
-- impact-analysis: Downstream/upstream rule impact + risk level before refactoring
+Step 2 - Extract letter pattern:
+  Tool: extract-fragment
+  fragment_name: "LETTER"
+  pattern: "[a-zA-Z]"
 
-**💡 QUICK START:** When exploring an unfamiliar grammar, start with:
-1. analyze-grammar - Get complete structure (use load_imports: true for multi-file)
-2. validate-grammar - Check for issues (use load_imports: true for multi-file)
-3. compile-grammar - Confirm ANTLR toolchain compatibility
-4. generate-summary - View health metrics
+Step 3 - Update rules to use fragments (manual or update-rule)
 
-For help on specific categories, use:
-- topic: "analysis" for analysis tool details
-- topic: "authoring" for editing tool details
-- topic: "refactoring" for optimization tool details
-- topic: "workflows" for common multi-step patterns
-- topic: "examples" for practical usage examples`;
-              break;
+## Example 5: Comparing Grammar Versions
 
-            case 'workflows':
-              helpText = `# Common ANTLR4 MCP Workflows
+Tool: compare-grammars
+from_file1: "v1/MyGrammar.g4"
+from_file2: "v2/MyGrammar.g4"
 
-## 🔍 Workflow 1: Exploring an Unfamiliar Grammar (Multi-File Support!)
-1. **analyze-grammar** with load_imports: true - Extract complete structure across imports
-2. **validate-grammar** with load_imports: true - Identify any issues in all files
-3. **analyze-ambiguities** - Detect potential ambiguities
-4. **generate-summary** - View metrics and health
-5. **find-rule** with regex - Discover specific patterns
+Returns: What changed between versions
 
-Example: Analyze multi-file Batfish grammar
-  analyze-grammar: from_file="PaloAlto_rulebase.g4", base_path="/path/to/grammars", load_imports=true
+## Example 6: Quick Testing Without Compilation ⭐ NEW
 
-## ✏️ Workflow 2: Adding New Rules Safely
-1. **list-rules** - See existing rules to avoid conflicts
-2. **add-parser-rule** or **add-lexer-rule** - Add new rule (auto-sorted)
-3. **validate-grammar** - Verify syntax correctness
-4. **test-parser-rule** ⭐ - Quick validation without compilation
-5. **find-rule-usages** - Check where new rule is used
+Step 1 - Add a new parser rule:
+  Tool: add-parser-rule
+  rule_name: "assignment"
+  definition: "ID ASSIGN expression SEMI"
 
-For multiple rules: Use **add-lexer-rules**, **add-parser-rules**, or **add-rules** for bulk operations.
+Step 2 - Test it immediately:
+  Tool: test-parser-rule
+  rule_name: "assignment"
+  input: "x = 42;"
 
-## 🔧 Workflow 3: Safe Rule Renaming (Multi-File Support!)
-1. **find-rule-usages** with load_imports: true - See all usages across imports
-2. **rule-statistics** - Analyze complexity and dependencies
-3. **rename-rule** with load_imports: true and write_to_file: true - Rename across all files
-4. **validate-grammar** with load_imports: true - Verify no issues introduced
-5. **compile-grammar** with load_imports: true - Native ANTLR check before commit
+Returns: Match result (SUCCESS or specific errors) - no compilation needed!
 
-Example: Rename "expr" to "expression"
-  find-rule-usages: rule_name="expr", load_imports=true
-  rename-rule: old_name="expr", new_name="expression", write_to_file=true
+## Example 7: Organizing Large Grammars ⭐ NEW
 
-## ⚡ Workflow 4: Grammar Optimization & Cleanup
-1. **analyze-ambiguities** - Find potential issues before compilation
-2. **rule-statistics** - Find complex rules with high fan-in/fan-out
-3. **inline-rule** - Collapse pass-through helper rules
-4. **sort-rules** - Organize rules (alphabetical, dependency, usage, or type)
-5. **move-rule** ⭐ - Reposition rules for better organization
-6. **extract-fragment** - Create reusable patterns from duplicated lexer patterns
-7. **merge-rules** - Consolidate similar rules into one with alternatives
-8. **generate-summary** - View improvements
+Step 1 - Analyze for ambiguities:
+  Tool: analyze-ambiguities
 
-Example: Reorganize grammar
-  sort-rules: strategy="dependency", anchor_rule="program", write_to_file=true
-  move-rule: rule_name="utility", position="after", anchor_rule="common"
+Step 2 - Inline unnecessary helper rules:
+  Tool: inline-rule
+  rule_name: "helperRule"
 
-## 🧪 Workflow 5: Rapid Development & Testing (Multi-File Support!)
-1. **add-parser-rule** - Add new rule to grammar
-2. **test-parser-rule** with load_imports: true - Test across imports (no compilation!)
-3. **update-rule** - Refine rule definition based on test results
-4. **test-parser-rule** - Verify changes work
-5. **analyze-ambiguities** - Check for new ambiguities
-6. **validate-grammar** - Final syntax check
-7. **compile-grammar** - Confirm no ANTLR toolchain errors
+Step 3 - Sort rules by dependency:
+  Tool: sort-rules
+  strategy: "dependency"
+  anchor_rule: "program"
+  write_to_file: true
 
-Example: Test multi-file parser rule
-  test-parser-rule: rule_name="srs_group_tag", input="group-tag \"Value\"", from_file="PaloAlto_rulebase.g4", load_imports=true
+Result: Clean, organized grammar with no ambiguities
 
-## 📝 Workflow 6: Documentation Generation
-1. **analyze-grammar** - Extract complete structure
-2. **export-as-markdown** - Generate comprehensive documentation
-3. **generate-summary** - Create metrics summary
-4. **compare-grammars** - Highlight differences between versions
+## Example 8: Generating Documentation
 
-## 🔨 Workflow 7: Rule Removal
-1. **find-rule-usages** with load_imports: true - Check cross-file references (critical!)
-2. **remove-rule** with write_to_file: true - Delete the rule
-3. **validate-grammar** - Check for broken references
+Tool: export-as-markdown
+from_file: "MyGrammar.g4"
 
-**Warning:** remove-rule does NOT update references. Check usages first!
+Output: Complete Markdown documentation`;
+              break;
 
-## 🚀 Workflow 8: Multi-File Grammar Management
-1. **analyze-grammar** with load_imports: true - Get complete view
-2. **find-rule-usages** with load_imports: true - Track cross-file dependencies
-3. **validate-grammar** with load_imports: true - Validate with lexer imports (tokenVocab resolved)
-4. **test-parser-rule** with load_imports: true - Test with full context
-5. **rename-rule** with load_imports: true - Rename across all imported files
-6. **compile-grammar** with load_imports: true - Native compile verification across loaded files
+            default:
+              helpText = `Unknown topic: ${topic}. Available topics: overview, workflows, analysis, authoring, refactoring, examples`;
+          }
 
-**New in v2.2:** tokenVocab lexer tokens are correctly resolved during validation!
+          return {
+            content: [
+              {
+                type: 'text',
+                text: helpText,
+              } as TextContent,
+            ],
+          };
+        }
 
----
+        case 'analyze-grammar': {
+          const loadImports = (argsObj.load_imports as boolean) ?? true;
+          const basePath = (argsObj.base_path as string) || undefined;
+          const fromFile = (argsObj.from_file as string) || undefined;
+          const libDirs = (argsObj.lib_dirs as string[]) || [];
+          const summaryOnly = (argsObj.summary_only as boolean) ?? false;
 
-**💡 TIP:** Always use write_to_file: true when you want changes persisted.`;
-              break;
+          let analysis: any;
 
-            case 'analysis':
-              helpText = `# Analysis & Inspection Tools
+          if (loadImports && fromFile) {
+            // Use multi-file analysis
+            analysis = AntlrAnalyzer.loadGrammarWithImports(
+              fromFile,
+              basePath,
+              undefined,
+              undefined,
+              libDirs
+            );
+          } else {
+            // Standard single-file analysis
+            analysis = AntlrAnalyzer.analyze(grammarContent);
+          }
+          const config = fromFile ? AntlrAnalyzer.loadProjectConfig(fromFile) : undefined;
+          analysis.issues = AntlrAnalyzer.applyIssuePolicy(analysis.issues, grammarContent, config);
 
-## analyze-grammar
-**Purpose:** Extract complete grammar structure and metadata
-**Returns:** Rules, tokens, imports, references, validation issues
-**Use when:** First exploration of a grammar
+          let outputData;
+          if (summaryOnly) {
+            // Return only summary stats for large grammars
+            outputData = {
+              grammarName: analysis.grammarName,
+              grammarType: analysis.grammarType,
+              totalRules: analysis.rules.length,
+              parserRules: analysis.rules.filter((r: any) => r.type === 'parser').length,
+              lexerRules: analysis.rules.filter((r: any) => r.type === 'lexer').length,
+              imports: analysis.imports,
+              options: analysis.options,
+              issueCount: {
+                errors: analysis.issues.filter((i: any) => i.type === 'error').length,
+                warnings: analysis.issues.filter((i: any) => i.type === 'warning').length,
+                info: analysis.issues.filter((i: any) => i.type === 'info').length,
+              },
+              ...(config?.error && { configError: config.error }),
+              topReferencedRules: Object.entries(
+                analysis.rules.reduce((acc: any, rule: any) => {
+                  rule.referencedRules.forEach((ref: string) => {
+                    acc[ref] = (acc[ref] || 0) + 1;
+                  });
+                  return acc;
+                }, {})
+              )
+                .sort(([, a]: any, [, b]: any) => b - a)
+                .slice(0, 10)
+                .map(([name, count]) => ({ name, references: count })),
+            };
+          } else {
+            outputData = config?.error ? { ...analysis, configError: config.error } : analysis;
+          }
 
-## validate-grammar
-**Purpose:** Detect syntax issues and problems
-**Detects:** Undefined rules, unused rules, left recursion, naming violations
-**Multi-file:** Use load_imports: true to validate with lexer imports (tokenVocab)
-**Use when:** After making changes, or diagnosing problems
-**Note:** With load_imports=true, lexer tokens from tokenVocab are correctly resolved
+          return {
+            content: [
+              {
+                type: 'text',
+                // The parsed AST is for internal use and would dwarf the rest of the output
+                text: JSON.stringify(
+                  outputData,
+                  (key, value) => (key === 'ast' ? undefined : value),
+                  2
+                ),
+              } as TextContent,
+            ],
+          };
+        }
 
-## compile-grammar ⭐ NEW
-**Purpose:** Run native ANTLR4 compile checks and return toolchain diagnostics
-**Returns:** Error/warning diagnostics with file:line:column, compile timing, generated artifact count
-**Multi-file:** Use load_imports: true with from_file for import/tokenVocab-aware checks
-**Use when:** Before commit, after refactors, or when validate-grammar is clean but ANTLR still fails
+        case 'validate-grammar': {
+          const argsObj = args as Record<string, unknown>;
+          const loadImports = (argsObj.load_imports as boolean) ?? true;
+          const basePath = (argsObj.base_path as string) || undefined;
+          const fromFile = (argsObj.from_file as string) || undefined;
+          const libDirs = (argsObj.lib_dirs as string[]) || [];
+          const maxIssues = (argsObj.max_issues as number) ?? 100;
+          const baselineFile = (argsObj.baseline_file as string) || undefined;
+          const updateBaseline = (argsObj.update_baseline as boolean) ?? false;
 
-## analyze-ambiguities ⭐ NEW
-**Purpose:** Static analysis for common ANTLR4 ambiguity patterns
-**Detects:**
-  1. Identical alternatives (ERROR) - Duplicate alternatives in rules
-  2. Overlapping prefixes (WARNING) - Alternatives with common prefixes
-  3. Ambiguous optionals (WARNING) - Patterns like A? A and A? A*
-  4. Hidden left recursion (ERROR) - Indirect left recursion via other rules
-  5. Lexer conflicts (WARNING) - Overlapping lexer patterns
-**Returns:** Issues with severity (ERROR/WARNING/INFO), actionable suggestions
-**Use when:** Before compilation, after making changes, debugging parser warnings
-**Example:**
-  - Detect duplicate: expr: ID | NUMBER | ID  →  ERROR
-  - Suggest fix: Use ID+ instead of ID? ID  →  WARNING
+          // Use multi-file loading if from_file is provided and load_imports is true
+          let analysis;
+          if (loadImports && fromFile) {
+            analysis = AntlrAnalyzer.loadGrammarWithImports(
+              fromFile,
+              basePath,
+              undefined,
+              undefined,
+              libDirs
+            );
+          } else {
+            analysis = AntlrAnalyzer.analyze(grammarContent);
+          }
 
-## list-rules
-**Purpose:** List all rules with optional filtering
-**Filters:** lexer, parser, or all
-**Use when:** Getting overview of available rules
+          const config = fromFile ? AntlrAnalyzer.loadProjectConfig(fromFile) : undefined;
+          let allIssues = AntlrAnalyzer.applyIssuePolicy(analysis.issues, grammarContent, config);
+          const notice = config?.error ? `⚠️ ${config.error}\n\n` : '';
+
+          // With a baseline, report only issues it does not already know
+          let baselineHeader = '';
+          let baselineFooter = '';
+          if (baselineFile) {
+            // smart-validate baselines also hold its quantifier and incomplete-parsing findings
+            const result = applyIssueBaseline(
+              allIssues,
+              analysis.grammarName,
+              baselineFile,
+              updateBaseline,
+              ['quantifier-issue', 'incomplete-parsing']
+            );
+            if (result.complete) {
+              return {
+                content: [{ type: 'text', text: notice + result.header } as TextContent],
+                isError: result.error,
+              };
+            }
+            allIssues = result.issues;
+            baselineHeader = `${result.header}\n\n`;
+            baselineFooter = result.footer ? `\n\n${result.footer.trimEnd()}` : '';
+          }
 
-## find-rule
-**Purpose:** Locate specific rules or patterns
-**Features:** Exact match OR regex pattern matching
-**Examples:**
-  - Exact: rule_name="expression"
-  - All lexer: rule_name="^[A-Z]+$", use_regex=true
-  - Contains "token": rule_name=".*token.*", use_regex=true
-**Use when:** Searching for specific rules or rule patterns
+          const limited = maxIssues > 0 ? allIssues.slice(0, maxIssues) : allIssues;
+          const truncated = maxIssues > 0 && allIssues.length > maxIssues;
 
-## format-grammar
-**Purpose:** Display structured summary with formatting
-**Returns:** Name, type, rules, imports, options, issues
-**Use when:** Need high-level overview
+          const text =
+            notice +
+            baselineHeader +
+            (allIssues.length === 0
+              ? baselineFile
+                ? 'No new issues since the baseline.'
+                : 'Grammar is valid with no issues!'
+              : (baselineFile ? 'New validation issues:\n\n' : 'Grammar validation issues:\n\n') +
+                limited
+                  .map((issue) => {
+                    const line = issue.lineNumber ? ` (line ${issue.lineNumber})` : '';
+                    const rule = issue.ruleName ? ` [${issue.ruleName}]` : '';
+                    const code = issue.code !== undefined ? `(${issue.code})` : '';
+                    return `[${issue.type.toUpperCase()}${code}] ${issue.message}${rule}${line}`;
+                  })
+                  .join('\n') +
+                (truncated
+                  ? `\n\n... and ${allIssues.length - maxIssues} more issues (use max_issues parameter to see more)`
+                  : '')) +
+            baselineFooter;
 
-## get-suggestions
-**Purpose:** Get actionable improvement recommendations
-**Analyzes:** Naming, complexity, unused rules, undefined refs, performance
-**Use when:** Optimizing grammar quality
+          return {
+            content: [
+              {
+                type: 'text',
+                text,
+              } as TextContent,
+            ],
+            // Lets callers gate changes on "no new grammar problems"
+            ...(baselineFile && { isError: allIssues.length > 0 }),
+          };
+        }
 
-## compare-grammars
-**Purpose:** Compare two grammars side-by-side
-**Returns:** Common rules, unique rules, modified rules, statistics
-**Use when:** Understanding changes between versions`;
-              break;
+        case 'compile-grammar': {
+          const fromFile = (argsObj.from_file as string) || undefined;
+          const basePath = (argsObj.base_path as string) || undefined;
+          const loadImports = (argsObj.load_imports as boolean) ?? true;
+          const runtime = getRuntime();
+          const result = await runtime.compileGrammar(grammarContent, {
+            fromFile,
+            basePath,
+            loadImports,
+          });
 
-            case 'authoring':
-              helpText = `# Authoring & Modification Tools
+          const header = result.success
+            ? 'Native compile check passed.'
+            : 'Native compile check failed.';
+          let text = `${header}\n`;
+          text += `Mode: ${result.mode}\n`;
+          if (result.compilationTime !== undefined) {
+            text += `Compile time: ${result.compilationTime}ms\n`;
+          }
+          if (result.generatedFiles && result.generatedFiles.length > 0) {
+            text += `Generated files: ${result.generatedFiles.length}\n`;
+          }
 
-## Single Rule Operations
+          if (result.diagnostics.length > 0) {
+            text += `\nDiagnostics:\n`;
+            for (const d of result.diagnostics) {
+              const location =
+                d.file && d.line !== undefined && d.column !== undefined
+                  ? `${d.file}:${d.line}:${d.column}`
+                  : d.file && d.line !== undefined
+                    ? `${d.file}:${d.line}`
+                    : d.file || '';
+              const code = d.code !== undefined ? `(${d.code})` : '';
+              text += `- [${d.severity.toUpperCase()}${code}] ${location ? `${location} ` : ''}${d.message}\n`;
+            }
+          } else if (result.errors && result.errors.length > 0) {
+            text += `\nErrors:\n${result.errors.map((e) => `- ${e}`).join('\n')}`;
+          }
 
-### add-lexer-rule
-**Purpose:** Add single lexer rule (token)
-**Features:** Auto-sorting, duplicate prevention, naming validation
-**Examples:**
-  - ID rule: name="ID", pattern="[a-zA-Z_][a-zA-Z0-9_]*"
-  - Whitespace: name="WS", pattern="[ \\t\\n\\r]+", skip=true
-  - Fragment: name="DIGIT", pattern="[0-9]", fragment=true
+          if (result.mode === 'simulation') {
+            // No Java: fall back to the offline emulation of the tool's checks
+            const analysis =
+              loadImports && fromFile
+                ? AntlrAnalyzer.loadGrammarWithImports(fromFile, basePath)
+                : AntlrAnalyzer.analyze(grammarContent);
+            const offline = analysis.issues.filter((issue) => issue.code !== undefined);
+            text += `\n\nOffline ANTLR checks: ${offline.length} issue(s)\n`;
+            for (const issue of offline) {
+              const line = issue.lineNumber ? `line ${issue.lineNumber} ` : '';
+              text += `- [${issue.type.toUpperCase()}(${issue.code})] ${line}${issue.message}\n`;
+            }
+          }
 
-### add-parser-rule
-**Purpose:** Add single parser rule
-**Features:** Auto-sorting, duplicate prevention, naming validation
-**Examples:**
-  - Expression: name="expression", definition="term ((PLUS | MINUS) term)*"
-  - Statement: name="statement", definition="assignment | ifStatement"
+          return {
+            content: [{ type: 'text', text } as TextContent],
+            isError: !result.success,
+          };
+        }
 
-### remove-rule
-**Purpose:** Delete a rule
-**Warning:** Does NOT update references - use find-rule-usages first!
+        case 'infer-formatting': {
+          const formatting = AntlrAnalyzer.inferFormatting(grammarContent);
+          const text = `Detected Formatting Style:
 
-### update-rule
-**Purpose:** Modify existing rule definition
-**Preserves:** Rule position in grammar
-**Use when:** Changing rule logic without renaming
+• Colon placement: ${formatting.colonPlacement}
+  ${formatting.colonPlacement === 'same-line' ? 'Example: ruleName: definition' : 'Example: ruleName\\n  : definition'}
 
-### rename-rule
-**Purpose:** Rename rule and ALL references safely
-**Features:** Whole-word matching, complete reference tracking, multi-file support
-**Multi-file:** Use load_imports: true to rename across imported grammars
-**Recommended workflow:**
-  1. find-rule-usages with load_imports=true (check full impact)
-  2. rename-rule with load_imports=true (perform refactoring)
-  3. validate-grammar with load_imports=true (verify)
+• Semicolon placement: ${formatting.semicolonPlacement}
+  ${formatting.semicolonPlacement === 'same-line' ? 'Example: definition;' : 'Example: definition\\n;'}
 
-## Bulk Operations
+• Space before colon: ${formatting.spaceAroundColon ? 'yes' : 'no'}
+  ${formatting.spaceAroundColon ? 'Example: ruleName : definition' : 'Example: ruleName: definition'}
 
-### (removed) add-lexer-rules — merged into add-rules
-**Purpose:** Add multiple lexer rules at once
-**Features:** Partial success, per-rule reporting
+• Indentation: ${formatting.indentSize} ${formatting.indentStyle.includes('\t') ? 'tab(s)' : 'space(s)'}
 
-### add-parser-rules
-**Purpose:** Add multiple parser rules at once
-**Features:** Partial success, per-rule reporting
+• Blank lines between rules: ${formatting.blankLinesBetweenRules ? 'yes' : 'no'}
 
-### add-rules
-**Purpose:** Add mixed lexer and parser rules
-**Most flexible:** Handles both types in one operation
+Note: The update-rule, add-lexer-rule, and add-parser-rule tools automatically preserve this formatting style when making changes.`;
 
-## Advanced Token Generation
+          return {
+            content: [
+              {
+                type: 'text',
+                text,
+              } as TextContent,
+            ],
+          };
+        }
 
-### add-tokens-with-template
-**Purpose:** Generate multiple similar tokens using templates
-**Features:** Pattern-based generation with {NAME} placeholder
-**Examples:**
-  - Config tokens: base_names=["ftm-push", "dns", "firewall"]
-  - Custom pattern: pattern="'protocol-{NAME}'"
-**Use when:** Adding related tokens with consistent patterns
+        case 'list-rules': {
+          const analysis = AntlrAnalyzer.analyze(grammarContent);
+          const filterType = (argsObj.filter_type as string) || 'all';
 
-### generate-tokens-from-pattern
-**Purpose:** Auto-generate tokens from natural language input
-**Features:** Automatic tokenization and naming
-**Examples:**
-  - Input: "ignore config system ftm-push"
-  - Generates: IGNORE, CONFIG, SYSTEM, FTM_PUSH
-**Use when:** Quick prototyping from sample input
+          let rules = analysis.rules;
+          if (filterType !== 'all') {
+            rules = rules.filter((r) => r.type === filterType);
+          }
 
-### suggest-tokens-from-errors
-**Purpose:** Parse error logs and suggest missing tokens
-**Supports:** Batfish errors, ANTLR parse errors
-**Features:** Confidence scoring, automatic deduplication
-**Use when:** Debugging parser failures
-**Note:** Only suggests tokens - use add-rules to add them (add-lexer-rules merged into add-rules)
+          const text =
+            rules.length === 0
+              ? 'No rules found'
+              : rules
+                  .map((rule) => {
+                    const refs =
+                      rule.referencedRules.length > 0
+                        ? ` → [${rule.referencedRules.join(', ')}]`
+                        : '';
+                    return `${rule.name} (${rule.type})${refs}`;
+                  })
+                  .join('\n');
 
----
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `${rules.length} rules found:\n\n${text}`,
+              } as TextContent,
+            ],
+          };
+        }
 
-**💡 FILE PERSISTENCE:** All authoring tools support write_to_file: true
-Set this parameter to automatically save changes to the grammar file.`;
-              break;
+        case 'find-rule': {
+          const pattern = (argsObj.rule_name as string) || '';
+          const useRegex = (argsObj.use_regex as boolean) || false;
+          let matchMode = (argsObj.match_mode as string) || 'exact';
 
-            case 'refactoring':
-              helpText = `# Refactoring & Optimization Tools
+          // Support legacy use_regex parameter
+          if (useRegex) {
+            matchMode = 'regex';
+          }
 
-## find-rule-usages ⭐ ENHANCED
-**Purpose:** Find all references to a specific rule with context
-**Returns:** Total count, line numbers, containing rule, context
-**Multi-file:** Use load_imports: true to search across imported grammars
-**Use before:** Renaming or removing rules
-**Example:** rule_name="expression", load_imports=true
-**New features:**
-  - Shows which rule contains each usage
-  - Skips definition line and comments
-  - Helpful messages for unused rules
+          if (matchMode !== 'exact') {
+            // Pattern matching mode: find all rules matching the pattern
+            const result = AntlrAnalyzer.findRules(grammarContent, pattern, matchMode as any);
 
-## move-rule ⭐ NEW
-**Purpose:** Reposition a rule before or after another rule
-**Parameters:** 
-  - rule_name: rule to move
-  - position: 'before' or 'after'
-  - anchor_rule: target rule for positioning
-**Benefits:** Organize grammar, group related rules, enforce conventions
-**Example:** rule_name="expression", position="before", anchor_rule="statement"
-**Use cases:**
-  - Organizing by logical grouping
-  - Placing dependencies before dependents
-  - Following team style guides
-  - Improving readability
+            if (result.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: `Error: ${result.error}`,
+                  } as TextContent,
+                ],
+                isError: true,
+              };
+            }
+
+            if (result.count === 0) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: `No rules found matching pattern: ${pattern} (mode: ${matchMode})`,
+                  } as TextContent,
+                ],
+              };
+            }
 
-## impact-analysis ⭐ NEW
-**Purpose:** Estimate blast radius before changing a rule
-**Returns:**
-  - Direct/transitive dependents (what breaks if changed)
-  - Direct/transitive dependencies (what this rule relies on)
-  - Usage count, recursion status, entry-rule detection
-  - Risk level (low/medium/high/critical)
-**Use before:** Renaming, deleting, inlining, or major rewrites
+            const analysis = AntlrAnalyzer.analyze(grammarContent);
+            let text = `Found ${result.count} rule(s) matching pattern: ${pattern}\n\n`;
 
-## rule-statistics
-**Purpose:** Analyze rule complexity and dependencies
-**Returns:**
-  - Complexity: number of alternatives
-  - Fan-out: rules this rule references (dependencies)
-  - Fan-in: rules that reference this rule (dependents)
-  - Recursion: direct/indirect recursion detection
-**Use cases:**
-  - Identify complex rules for optimization
-  - Find heavily-coupled rules
-  - Detect recursion issues
-  - Plan refactoring priorities
+            for (const rule of result.matches) {
+              text += `Rule: ${rule.name}\nType: ${rule.type}\nLine: ${rule.lineNumber}\nDefinition: ${rule.definition}\n`;
 
-## inline-rule
-**Purpose:** Replace rule references with definition and delete original rule
-**Benefits:** Collapse pass-through rules, simplify grammar structure
-**Safety:** Automatic circular reference detection, smart parenthesization
-**Example:**
-  Before: expr: primary; primary: NUMBER | ID;
-  After:  expr: (NUMBER | ID);
-**Use cases:**
-  - Removing unnecessary helper rules
-  - Flattening grammar hierarchy
-  - Reducing rule clutter
+              if (rule.referencedRules.length > 0) {
+                text += `References: ${rule.referencedRules.join(', ')}\n`;
+              }
 
-## sort-rules
-**Purpose:** Reorder rules using multiple sorting strategies
-**Strategies:**
-  1. alphabetical - Simple A-Z ordering
-  2. type - Group parser rules, then lexer rules
-  3. dependency - Order by dependencies (with anchor rule)
-  4. usage - Order by reference count (most-used first)
-**Example:**
-  strategy="dependency", anchor_rule="program"
-**Use cases:**
-  - Organizing large grammar files
-  - Improving readability
-  - Grouping related rules
+              const referencedBy = analysis.rules
+                .filter((r) => r.referencedRules.includes(rule.name))
+                .map((r) => r.name);
+              if (referencedBy.length > 0) {
+                text += `Referenced by: ${referencedBy.join(', ')}\n`;
+              }
 
-## extract-fragment
-**Purpose:** Create reusable fragment from a pattern
-**Benefits:** Reduce duplication, improve maintainability
-**Example:**
-  fragment_name="DIGIT", pattern="[0-9]"
-  Then use in other rules: ID: LETTER (LETTER | DIGIT)*
+              text += '\n';
+            }
 
-## merge-rules
-**Purpose:** Combine two rules into one with alternatives
-**Benefits:** Reduce rule count, group related logic
-**Example:**
-  rule1="intLiteral", rule2="floatLiteral", new="numericLiteral"
-  Result: numericLiteral: intLiteral | floatLiteral
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: text.trim(),
+                } as TextContent,
+              ],
+            };
+          } else {
+            // Exact match mode
+            const analysis = AntlrAnalyzer.analyze(grammarContent);
+            const rule = analysis.rules.find((r) => r.name === pattern);
 
----
+            if (!rule) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: `Rule '${pattern}' not found in grammar`,
+                  } as TextContent,
+                ],
+              };
+            }
 
-**💡 SAFE REFACTORING PATTERN:**
-1. find-rule-usages - Understand impact
-2. rule-statistics - Analyze complexity
-3. inline-rule OR rename-rule OR merge-rules - Perform refactoring
-4. validate-grammar - Verify correctness
-5. analyze-ambiguities ⭐ - Check for new issues`;
-              break;
+            let text = `Rule: ${rule.name}\nType: ${rule.type}\nLine: ${rule.lineNumber}\n\nDefinition:\n${rule.definition}`;
 
-            case 'examples':
-              helpText = `# Practical Usage Examples
+            if (rule.referencedRules.length > 0) {
+              text += `\n\nReferences:\n${rule.referencedRules.join(', ')}`;
+            }
 
-## Example 1: Creating a Simple Calculator Grammar
+            // Find rules that reference this rule
+            const referencedBy = analysis.rules
+              .filter((r) => r.referencedRules.includes(pattern))
+              .map((r) => r.name);
+            if (referencedBy.length > 0) {
+              text += `\n\nReferenced by:\n${referencedBy.join(', ')}`;
+            }
 
-Step 1 - Add lexer rules for tokens:
-  Tool: add-rules (add-lexer-rules merged)
-  rules: [
-    { name: "PLUS", pattern: "'+'" },
-    { name: "MINUS", pattern: "'-'" },
-    { name: "TIMES", pattern: "'*'" },
-    { name: "DIVIDE", pattern: "'/'" },
-    { name: "NUMBER", pattern: "[0-9]+" },
-    { name: "WS", pattern: "[ \\t\\n\\r]+", skip: true }
-  ]
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text,
+                } as TextContent,
+              ],
+            };
+          }
+        }
 
-Step 2 - Add parser rules for expressions:
-  Tool: add-parser-rules
-  rules: [
-    { name: "expression", definition: "term ((PLUS | MINUS) term)*" },
-    { name: "term", definition: "factor ((TIMES | DIVIDE) factor)*" },
-    { name: "factor", definition: "NUMBER" }
-  ]
+        case 'list-actions': {
+          const kind = (argsObj.kind as string) || undefined;
 
-Step 3 - Validate:
-  Tool: validate-grammar
+          const analysis = AntlrAnalyzer.analyze(grammarContent);
+          const actions = analysis.actions.filter((a) => !kind || a.kind === kind);
+          const target = analysis.targetLanguage;
 
-## Example 2: Finding and Analyzing a Rule
+          let output = `# Actions in ${analysis.grammarName || 'grammar'}\n\n`;
+          output += `## Target Language\n\n`;
+          output += `- Declared: ${target?.declared || 'none (ANTLR defaults to Java)'}\n`;
+          output += `- Action code looks like: ${target?.inferred || 'undetermined'}`;
+          if (target?.evidence.length) {
+            output += ` (${target.evidence.join(', ')})`;
+          }
+          output += `\n\n`;
 
-Step 1 - Find all lexer rules:
-  Tool: find-rule
-  rule_name: "^[A-Z]+$"
-  use_regex: true
+          const languageIssues = analysis.issues.filter(
+            (i) =>
+              i.message.includes('but the grammar targets') ||
+              i.message.includes('no language option')
+          );
+          if (languageIssues.length > 0) {
+            output += `## ⚠️ Target Mismatches (${languageIssues.length})\n\n`;
+            for (const issue of languageIssues) {
+              output += `- ${issue.lineNumber ? `line ${issue.lineNumber}: ` : ''}${issue.message}\n`;
+            }
+            output += `\n`;
+          }
 
-Step 2 - Analyze specific rule complexity:
-  Tool: rule-statistics
-  rule_name: "expression"
+          output += `## Actions (${actions.length})\n\n`;
+          if (actions.length === 0) {
+            output += `No actions found.\n`;
+          }
+          for (const action of actions) {
+            const where =
+              action.kind === 'named'
+                ? `@${action.scope ? `${action.scope}::` : ''}${action.name}`
+                : `${action.ruleName}${action.name ? ` @${action.name}` : ''}`;
+            const firstLine = action.code.trim().split('\n')[0];
+            const preview = firstLine.length > 80 ? `${firstLine.slice(0, 77)}...` : firstLine;
+            output += `- line ${action.lineNumber}:${action.column} [${action.kind}] ${where}: \`${preview}\`\n`;
+          }
 
-Step 3 - See where it's used:
-  Tool: find-rule-usages
-  rule_name: "expression"
+          return {
+            content: [
+              {
+                type: 'text',
+                text: output,
+              } as TextContent,
+            ],
+          };
+        }
 
-## Example 3: Safe Rule Renaming
+        case 'get-suggestions': {
+          const suggestions = AntlrAnalyzer.getSuggestions(grammarContent);
+          const text =
+            suggestions.length === 0
+              ? 'No suggestions - grammar looks good!'
+              : 'Suggestions for improvement:\n\n' +
+                suggestions.map((s, i) => `${i + 1}. ${s}`).join('\n');
 
-Step 1 - Check current usages:
-  Tool: find-rule-usages
-  rule_name: "expr"
+          return {
+            content: [
+              {
+                type: 'text',
+                text,
+              } as TextContent,
+            ],
+          };
+        }
 
-Step 2 - Rename with reference updates:
-  Tool: rename-rule
-  old_name: "expr"
-  new_name: "expression"
-  write_to_file: true
+        case 'format-grammar': {
+          const formatted = AntlrAnalyzer.format(grammarContent);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatted,
+              } as TextContent,
+            ],
+          };
+        }
 
-Step 3 - Verify no issues:
-  Tool: validate-grammar
+        case 'compare-grammars': {
+          // Input validation
+          if (!grammarContent || grammarContent.trim() === '') {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: 'Error: grammar1_content or from_file1 is required',
+                } as TextContent,
+              ],
+              isError: true,
+            };
+          }
+          if (!grammar2Content || grammar2Content.trim() === '') {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: 'Error: grammar2_content or from_file2 is required',
+                } as TextContent,
+              ],
+              isError: true,
+            };
+          }
 
-## Example 4: Optimizing with Fragments
+          const result = AntlrAnalyzer.compareGrammars(grammarContent, grammar2Content);
 
-Step 1 - Extract common digit pattern:
-  Tool: extract-fragment
-  fragment_name: "DIGIT"
-  pattern: "[0-9]"
+          let text = `# Grammar Comparison\n\n`;
+          text += `${result.summary}\n\n`;
+
+          text += `## Statistics\n`;
+          text += `- Grammar 1: ${result.grammar1.parserRules} parser, ${result.grammar1.lexerRules} lexer (${result.grammar1.totalRules} total)\n`;
+          text += `- Grammar 2: ${result.grammar2.parserRules} parser, ${result.grammar2.lexerRules} lexer (${result.grammar2.totalRules} total)\n\n`;
+
+          if (result.differences.added.length > 0) {
+            text += `## Added Rules (${result.differences.added.length})\n`;
+            text += result.differences.added.join(', ') + '\n\n';
+          }
+          if (result.differences.removed.length > 0) {
+            text += `## Removed Rules (${result.differences.removed.length})\n`;
+            text += result.differences.removed.join(', ') + '\n\n';
+          }
+          if (result.differences.modified.length > 0) {
+            text += `## Modified Rules (${result.differences.modified.length})\n`;
+            text += result.differences.modified.join(', ') + '\n\n';
+          }
 
-Step 2 - Extract letter pattern:
-  Tool: extract-fragment
-  fragment_name: "LETTER"
-  pattern: "[a-zA-Z]"
+          return {
+            content: [
+              {
+                type: 'text',
+                text,
+              } as TextContent,
+            ],
+          };
+        }
 
-Step 3 - Update rules to use fragments (manual or update-rule)
+        case 'add-rule': {
+          const ruleName = (argsObj.rule_name as string) || '';
+          const pattern = (argsObj.pattern as string) || undefined;
+          const definition = (argsObj.definition as string) || undefined;
+          const skip = (argsObj.skip as boolean) || false;
+          const channel = (argsObj.channel as string) || undefined;
+          const fragment = (argsObj.fragment as boolean) || false;
+          const returnType = (argsObj.return_type as string) || undefined;
+          const ruleArguments = (argsObj.arguments as string) || undefined;
+          const locals = (argsObj.locals as string) || undefined;
+          const throwsList = (argsObj.throws as string[]) || undefined;
+          const initAction = (argsObj.init_action as string) || undefined;
+          const afterAction = (argsObj.after_action as string) || undefined;
+          const insertAfter = (argsObj.insert_after as string) || undefined;
+          const insertBefore = (argsObj.insert_before as string) || undefined;
+          const writeToFile = (argsObj.write_to_file as boolean) || false;
+          const fromFile = (argsObj.from_file as string) || '';
+          const outputMode = (argsObj.output_mode as string) || 'diff';
 
-## Example 5: Comparing Grammar Versions
+          // Auto-detect rule type from naming convention
+          const isLexerRule = ruleName.length > 0 && ruleName[0] === ruleName[0].toUpperCase();
 
-Tool: compare-grammars
-from_file1: "v1/MyGrammar.g4"
-from_file2: "v2/MyGrammar.g4"
+          // Fallback: read from from_file if grammarContent is empty
+          let effectiveContent = grammarContent;
+          let readError: string | null = null;
+          if ((!effectiveContent || effectiveContent.trim() === '') && fromFile) {
+            try {
+              effectiveContent = fs.readFileSync(fromFile, 'utf-8');
+            } catch (err) {
+              readError = err instanceof Error ? err.message : String(err);
+            }
+          }
 
-Returns: What changed between versions
+          // Return error if we couldn't get content
+          if (!effectiveContent || effectiveContent.trim() === '') {
+            const errorMsg = readError
+              ? `✗ Failed to read grammar file '${fromFile}': ${readError}`
+              : `✗ No grammar content provided. Use grammar_content or from_file parameter.`;
+            return {
+              content: [{ type: 'text', text: errorMsg } as TextContent],
+              isError: true,
+            };
+          }
 
-## Example 6: Quick Testing Without Compilation ⭐ NEW
+          let result;
+          if (isLexerRule) {
+            // Lexer rule
+            if (!pattern) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: `✗ Lexer rules require 'pattern' parameter (rule name '${ruleName}' is UPPERCASE)`,
+                  } as TextContent,
+                ],
+                isError: true,
+              };
+            }
+            result = AntlrAnalyzer.addLexerRule(effectiveContent, ruleName, pattern, {
+              skip,
+              channel,
+              fragment,
+              insertAfter,
+              insertBefore,
+            });
+          } else {
+            // Parser rule
+            if (!definition) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: `✗ Parser rules require 'definition' parameter (rule name '${ruleName}' is lowercase)`,
+                  } as TextContent,
+                ],
+                isError: true,
+              };
+            }
+            result = AntlrAnalyzer.addParserRule(effectiveContent, ruleName, definition, {
+              returnType,
+              arguments: ruleArguments,
+              locals,
+              throws: throwsList,
+              init: initAction,
+              after: afterAction,
+              insertAfter,
+              insertBefore,
+            });
+          }
 
-Step 1 - Add a new parser rule:
-  Tool: add-parser-rule
-  rule_name: "assignment"
-  definition: "ID ASSIGN expression SEMI"
+          let text = '';
+          if (result.success) {
+            if (outputMode === 'diff') {
+              const diff = generateUnifiedDiff(
+                grammarContent,
+                result.modified,
+                fromFile || 'grammar.g4'
+              );
+              text = `✓ ${result.message}\n\n${diff}`;
+            } else if (outputMode === 'full') {
+              text = `✓ ${result.message}\n\nModified grammar:\n\n${result.modified}`;
+            } else {
+              // 'none' - only success message
+              text = `✓ ${result.message}`;
+            }
+          } else {
+            text = `✗ ${result.message}`;
+          }
 
-Step 2 - Test it immediately:
-  Tool: test-parser-rule
-  rule_name: "assignment"
-  input: "x = 42;"
+          // Handle file writing with safety check
+          if (writeToFile && fromFile && result.success) {
+            const writeResult = safeWriteFile(fromFile, result.modified);
+            text += `\n\n${writeResult.message}`;
+          }
 
-Returns: Match result (SUCCESS or specific errors) - no compilation needed!
+          return {
+            content: [
+              {
+                type: 'text',
+                text,
+              } as TextContent,
+            ],
+            isError: !result.success,
+          };
+        }
 
-## Example 7: Organizing Large Grammars ⭐ NEW
+        case 'remove-rule': {
+          const ruleName = (argsObj.rule_name as string) || '';
+          const writeToFile = (argsObj.write_to_file as boolean) || false;
+          const fromFile = (argsObj.from_file as string) || '';
+          const outputMode = (argsObj.output_mode as string) || 'diff';
 
-Step 1 - Analyze for ambiguities:
-  Tool: analyze-ambiguities
+          const result = AntlrAnalyzer.removeRule(grammarContent, ruleName);
 
-Step 2 - Inline unnecessary helper rules:
-  Tool: inline-rule
-  rule_name: "helperRule"
+          let text = '';
+          if (result.success) {
+            if (outputMode === 'diff') {
+              const diff = generateUnifiedDiff(
+                grammarContent,
+                result.modified,
+                fromFile || 'grammar.g4'
+              );
+              text = `✓ ${result.message}\n\n${diff}`;
+            } else if (outputMode === 'full') {
+              text = `✓ ${result.message}\n\nModified grammar:\n\n${result.modified}`;
+            } else {
+              text = `✓ ${result.message}`;
+            }
+          } else {
+            text = `✗ ${result.message}`;
+          }
 
-Step 3 - Sort rules by dependency:
-  Tool: sort-rules
-  strategy: "dependency"
-  anchor_rule: "program"
-  write_to_file: true
+          // Handle file writing
+          if (writeToFile && fromFile && result.success) {
+            const writeResult = safeWriteFile(fromFile, result.modified);
+            text += `\n\n${writeResult.message}`;
+          }
 
-Result: Clean, organized grammar with no ambiguities
+          return {
+            content: [
+              {
+                type: 'text',
+                text,
+              } as TextContent,
+            ],
+            isError: !result.success,
+          };
+        }
 
-## Example 8: Generating Documentation
+        case 'add-declarations':
+        case 'remove-declarations': {
+          const block = (argsObj.block as 'tokens' | 'channels') || 'tokens';
+          const names = (argsObj.names as string[]) || [];
+          const writeToFile = (argsObj.write_to_file as boolean) || false;
+          const fromFile = (argsObj.from_file as string) || '';
+          const outputMode = (argsObj.output_mode as string) || 'diff';
 
-Tool: export-as-markdown
-from_file: "MyGrammar.g4"
+          const result =
+            name === 'add-declarations'
+              ? AntlrAnalyzer.addDeclarations(grammarContent, block, names)
+              : AntlrAnalyzer.removeDeclarations(grammarContent, block, names);
 
-Output: Complete Markdown documentation`;
-              break;
+          let text = '';
+          if (result.success) {
+            if (outputMode === 'diff') {
+              const diff = generateUnifiedDiff(
+                grammarContent,
+                result.modified,
+                fromFile || 'grammar.g4'
+              );
+              text = `✓ ${result.message}\n\n${diff}`;
+            } else if (outputMode === 'full') {
+              text = `✓ ${result.message}\n\nModified grammar:\n\n${result.modified}`;
+            } else {
+              text = `✓ ${result.message}`;
+            }
+          } else {
+            text = `✗ ${result.message}`;
+          }
 
-            default:
-              helpText = `Unknown topic: ${topic}. Available topics: overview, workflows, analysis, authoring, refactoring, examples`;
+          // Handle file writing
+          if (writeToFile && fromFile && result.success) {
+            const writeResult = safeWriteFile(fromFile, result.modified);
+            text += `\n\n${writeResult.message}`;
           }
 
           return {
             content: [
               {
                 type: 'text',
-                text: helpText,
+                text,
               } as TextContent,
             ],
+            isError: !result.success,
           };
         }
 
-        case 'analyze-grammar': {
-          const loadImports = (argsObj.load_imports as boolean) ?? true;
-          const basePath = (argsObj.base_path as string) || undefined;
-          const fromFile = (argsObj.from_file as string) || undefined;
-          const summaryOnly = (argsObj.summary_only as boolean) ?? false;
+        case 'update-rule': {
+          const ruleName = (argsObj.rule_name as string) || '';
+          const newDefinition = (argsObj.new_definition as string) || '';
+          const writeToFile = (argsObj.write_to_file as boolean) || false;
+          const fromFile = (argsObj.from_file as string) || '';
+          const outputMode = (argsObj.output_mode as string) || 'diff';
 
-          let analysis: any;
+          const result = AntlrAnalyzer.updateRule(grammarContent, ruleName, newDefinition);
 
-          if (loadImports && fromFile) {
-            // Use multi-file analysis
-            analysis = AntlrAnalyzer.loadGrammarWithImports(fromFile, basePath);
+          let text = '';
+          if (result.success) {
+            if (outputMode === 'diff') {
+              const diff = generateUnifiedDiff(
+                grammarContent,
+                result.modified,
+                fromFile || 'grammar.g4'
+              );
+              text = `✓ ${result.message}\n\n${diff}`;
+            } else if (outputMode === 'full') {
+              text = `✓ ${result.message}\n\nModified grammar:\n\n${result.modified}`;
+            } else {
+              text = `✓ ${result.message}`;
+            }
           } else {
-            // Standard single-file analysis
-            analysis = AntlrAnalyzer.analyze(grammarContent);
+            text = `✗ ${result.message}`;
           }
 
-          let outputData;
-          if (summaryOnly) {
-            // Return only summary stats for large grammars
-            outputData = {
-              grammarName: analysis.grammarName,
-              grammarType: analysis.grammarType,
-              totalRules: analysis.rules.length,
-              parserRules: analysis.rules.filter((r: any) => r.type === 'parser').length,
-              lexerRules: analysis.rules.filter((r: any) => r.type === 'lexer').length,
-              imports: analysis.imports,
-              options: analysis.options,
-              issueCount: {
-                errors: analysis.issues.filter((i: any) => i.type === 'error').length,
-                warnings: analysis.issues.filter((i: any) => i.type === 'warning').length,
-                info: analysis.issues.filter((i: any) => i.type === 'info').length,
-              },
-              topReferencedRules: Object.entries(
-                analysis.rules.reduce((acc: any, rule: any) => {
-                  rule.referencedRules.forEach((ref: string) => {
-                    acc[ref] = (acc[ref] || 0) + 1;
-                  });
-                  return acc;
-                }, {})
-              )
-                .sort(([, a]: any, [, b]: any) => b - a)
-                .slice(0, 10)
-                .map(([name, count]) => ({ name, references: count })),
-            };
-          } else {
-            outputData = analysis;
+          // Handle file writing
+          if (writeToFile && fromFile && result.success) {
+            const writeResult = safeWriteFile(fromFile, result.modified);
+            text += `\n\n${writeResult.message}`;
           }
 
           return {
             content: [
               {
                 type: 'text',
-                text: JSON.stringify(outputData, null, 2),
+                text,
               } as TextContent,
             ],
+            isError: !result.success,
           };
         }
 
-        case 'validate-grammar': {
-          const argsObj = args as Record<string, unknown>;
-          const loadImports = (argsObj.load_imports as boolean) ?? true;
+        case 'rename-rule': {
+          const oldName = (argsObj.old_name as string) || '';
+          const newName = (argsObj.new_name as string) || '';
+          const writeToFile = (argsObj.write_to_file as boolean) || false;
+          const fromFile = (argsObj.from_file as string) || '';
           const basePath = (argsObj.base_path as string) || undefined;
-          const fromFile = (argsObj.from_file as string) || undefined;
-          const maxIssues = (argsObj.max_issues as number) ?? 100;
+          const loadImports = (argsObj.load_imports as boolean) || false;
+          const outputMode = (argsObj.output_mode as string) || 'diff';
 
-          // Use multi-file loading if from_file is provided and load_imports is true
-          let analysis;
-          if (loadImports && fromFile) {
-            analysis = AntlrAnalyzer.loadGrammarWithImports(fromFile, basePath);
-          } else {
-            analysis = AntlrAnalyzer.analyze(grammarContent);
+          // Use multi-file rename if requested
+          if (loadImports) {
+            if (!fromFile) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: '✗ load_imports requires from_file to be specified.',
+                  } as TextContent,
+                ],
+                isError: true,
+              };
+            }
+
+            const result = AntlrAnalyzer.renameRuleMultiFile(fromFile, oldName, newName, basePath);
+
+            let text = '';
+            let writeFailed = false;
+            if (result.success) {
+              text = `✓ ${result.message}\n\n`;
+
+              // Show per-file breakdown
+              for (const mod of result.modifiedFiles) {
+                const relativePath = basePath
+                  ? path.relative(basePath, mod.filePath)
+                  : mod.filePath;
+                text += `📄 ${relativePath}: ${mod.refCount} occurrence(s)\n`;
+              }
+
+              // Show diffs if requested
+              if (outputMode !== 'none') {
+                for (const mod of result.modifiedFiles) {
+                  const originalContent = fs.readFileSync(mod.filePath, 'utf-8');
+                  const relativePath = basePath
+                    ? path.relative(basePath, mod.filePath)
+                    : mod.filePath;
+
+                  if (outputMode === 'diff') {
+                    const diff = generateUnifiedDiff(originalContent, mod.content, relativePath);
+                    text += `\n${diff}\n`;
+                  } else if (outputMode === 'full') {
+                    text += `\n--- ${relativePath} ---\n${mod.content}\n`;
+                  }
+                }
+              }
+
+              // Handle file writing
+              if (writeToFile) {
+                const written = writeFilesAtomically(result.modifiedFiles, { overwrite: true });
+                text += `\n${written.message}`;
+                writeFailed = !written.success;
+              }
+            } else {
+              text = `✗ ${result.message}`;
+            }
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text,
+                } as TextContent,
+              ],
+              isError: !result.success || writeFailed,
+            };
           }
 
-          const allIssues = analysis.issues;
-          const limited = maxIssues > 0 ? allIssues.slice(0, maxIssues) : allIssues;
-          const truncated = maxIssues > 0 && allIssues.length > maxIssues;
+          // Single-file rename (original behavior)
+          const result = AntlrAnalyzer.renameRule(grammarContent, oldName, newName);
 
-          const text =
-            allIssues.length === 0
-              ? 'Grammar is valid with no issues!'
-              : 'Grammar validation issues:\n\n' +
-                limited
-                  .map((issue) => {
-                    const line = issue.lineNumber ? ` (line ${issue.lineNumber})` : '';
-                    const rule = issue.ruleName ? ` [${issue.ruleName}]` : '';
-                    return `[${issue.type.toUpperCase()}] ${issue.message}${rule}${line}`;
-                  })
-                  .join('\n') +
-                (truncated
-                  ? `\n\n... and ${allIssues.length - maxIssues} more issues (use max_issues parameter to see more)`
-                  : '');
+          let text = '';
+          if (result.success) {
+            if (outputMode === 'diff') {
+              const diff = generateUnifiedDiff(
+                grammarContent,
+                result.modified,
+                fromFile || 'grammar.g4'
+              );
+              text = `✓ ${result.message}\n\n${diff}`;
+            } else if (outputMode === 'full') {
+              text = `✓ ${result.message}\n\nModified grammar:\n\n${result.modified}`;
+            } else {
+              text = `✓ ${result.message}`;
+            }
+          } else {
+            text = `✗ ${result.message}`;
+          }
+
+          // Handle file writing
+          if (writeToFile && fromFile && result.success) {
+            const writeResult = safeWriteFile(fromFile, result.modified);
+            text += `\n\n${writeResult.message}`;
+          }
 
           return {
             content: [
@@ -3964,432 +6226,420 @@ Output: Complete Markdown documentation`;
                 text,
               } as TextContent,
             ],
+            isError: !result.success,
           };
         }
 
-        case 'compile-grammar': {
-          const fromFile = (argsObj.from_file as string) || undefined;
+        case 'find-rule-usages': {
+          const ruleName = (argsObj.rule_name as string) || '';
+          const loadImports = (argsObj.load_imports as boolean) ?? false;
           const basePath = (argsObj.base_path as string) || undefined;
-          const loadImports = (argsObj.load_imports as boolean) ?? true;
-          const runtime = getRuntime();
-          const result = await runtime.compileGrammar(grammarContent, {
-            fromFile,
-            basePath,
-            loadImports,
-          });
+          const fromFile = (argsObj.from_file as string) || undefined;
 
-          const header = result.success
-            ? 'Native compile check passed.'
-            : 'Native compile check failed.';
-          let text = `${header}\n`;
-          text += `Mode: ${result.mode}\n`;
-          if (result.compilationTime !== undefined) {
-            text += `Compile time: ${result.compilationTime}ms\n`;
+          // Use multi-file loading if requested
+          let contentToSearch = grammarContent;
+          // eslint-disable-next-line @typescript-eslint/no-unused-vars
+          const grammarName = 'grammar';
+
+          if (loadImports && fromFile) {
+            const analysis = AntlrAnalyzer.loadGrammarWithImports(fromFile, basePath);
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            const grammarName = analysis.grammarName;
+
+            // Reconstruct grammar for searching - use rules directly
+            const lines = [];
+            for (const rule of analysis.rules) {
+              lines.push(rule.definition);
+              lines.push('');
+            }
+            contentToSearch = lines.join('\n');
           }
-          if (result.generatedFiles && result.generatedFiles.length > 0) {
-            text += `Generated files: ${result.generatedFiles.length}\n`;
+
+          const usages = AntlrAnalyzer.findRuleUsages(contentToSearch, ruleName);
+
+          let text = `🔍 Found ${usages.count} usage${usages.count !== 1 ? 's' : ''} of '${ruleName}'`;
+          if (loadImports) {
+            text += ` (including imports)`;
           }
+          text += `:\n\n`;
 
-          if (result.diagnostics.length > 0) {
-            text += `\nDiagnostics:\n`;
-            for (const d of result.diagnostics) {
-              const location =
-                d.file && d.line !== undefined && d.column !== undefined
-                  ? `${d.file}:${d.line}:${d.column}`
-                  : d.file && d.line !== undefined
-                    ? `${d.file}:${d.line}`
-                    : d.file || '';
-              text += `- [${d.severity.toUpperCase()}] ${location ? `${location} ` : ''}${d.message}\n`;
+          if (usages.count === 0) {
+            text += `No usages found. This rule may be:\n`;
+            text += `  • Unused (consider removing if not needed)\n`;
+            text += `  • A top-level entry point (intentionally unreferenced)\n`;
+          } else {
+            for (const loc of usages.locations) {
+              text += `📍 Line ${loc.lineNumber}`;
+              if (loc.inRule) {
+                text += ` (in rule '${loc.inRule}')`;
+              }
+              text += `:\n   ${loc.context}\n\n`;
             }
-          } else if (result.errors && result.errors.length > 0) {
-            text += `\nErrors:\n${result.errors.map((e) => `- ${e}`).join('\n')}`;
           }
 
           return {
             content: [{ type: 'text', text } as TextContent],
-            isError: !result.success,
           };
         }
 
-        case 'infer-formatting': {
-          const formatting = AntlrAnalyzer.inferFormatting(grammarContent);
-          const text = `Detected Formatting Style:
-
-• Colon placement: ${formatting.colonPlacement}
-  ${formatting.colonPlacement === 'same-line' ? 'Example: ruleName: definition' : 'Example: ruleName\\n  : definition'}
-
-• Semicolon placement: ${formatting.semicolonPlacement}
-  ${formatting.semicolonPlacement === 'same-line' ? 'Example: definition;' : 'Example: definition\\n;'}
-
-• Space before colon: ${formatting.spaceAroundColon ? 'yes' : 'no'}
-  ${formatting.spaceAroundColon ? 'Example: ruleName : definition' : 'Example: ruleName: definition'}
-
-• Indentation: ${formatting.indentSize} ${formatting.indentStyle.includes('\t') ? 'tab(s)' : 'space(s)'}
+        case 'rule-statistics': {
+          const ruleName = (argsObj.rule_name as string) || '';
+          const stats = AntlrAnalyzer.getRuleStatistics(grammarContent, ruleName);
 
-• Blank lines between rules: ${formatting.blankLinesBetweenRules ? 'yes' : 'no'}
+          if (!stats) {
+            return {
+              content: [{ type: 'text', text: `Rule '${ruleName}' not found` } as TextContent],
+              isError: true,
+            };
+          }
 
-Note: The update-rule, add-lexer-rule, and add-parser-rule tools automatically preserve this formatting style when making changes.`;
+          let text = `Rule Statistics: ${stats.name}\n`;
+          text += `${'='.repeat(40)}\n\n`;
+          text += `Type: ${stats.type}\n`;
+          text += `Complexity: ${stats.complexity} alternatives\n`;
+          text += `Fan-out: ${stats.fanOut} (rules it references)\n`;
+          text += `Fan-in: ${stats.fanIn} (rules that reference it)\n`;
+          text += `Recursive: ${stats.isRecursive ? 'Yes' : 'No'}\n\n`;
+          text += `Definition:\n${stats.definition}`;
 
           return {
-            content: [
-              {
-                type: 'text',
-                text,
-              } as TextContent,
-            ],
+            content: [{ type: 'text', text } as TextContent],
           };
         }
 
-        case 'list-rules': {
-          const analysis = AntlrAnalyzer.analyze(grammarContent);
-          const filterType = (argsObj.filter_type as string) || 'all';
+        case 'impact-analysis': {
+          const ruleName = (argsObj.rule_name as string) || '';
+          const impact = AntlrAnalyzer.analyzeRuleImpact(grammarContent, ruleName);
 
-          let rules = analysis.rules;
-          if (filterType !== 'all') {
-            rules = rules.filter((r) => r.type === filterType);
+          if (!impact.found) {
+            return {
+              content: [{ type: 'text', text: impact.summary } as TextContent],
+              isError: true,
+            };
           }
 
-          const text =
-            rules.length === 0
-              ? 'No rules found'
-              : rules
-                  .map((rule) => {
-                    const refs =
-                      rule.referencedRules.length > 0
-                        ? ` → [${rule.referencedRules.join(', ')}]`
-                        : '';
-                    return `${rule.name} (${rule.type})${refs}`;
-                  })
-                  .join('\n');
+          let text = `Impact Analysis: ${impact.ruleName}\n`;
+          text += `${'='.repeat(48)}\n\n`;
+          text += `Type: ${impact.type}\n`;
+          text += `Risk level: ${impact.riskLevel.toUpperCase()}\n`;
+          text += `Entry rule: ${impact.isEntryRule ? 'Yes' : 'No'}\n`;
+          text += `Recursive: ${impact.isRecursive ? 'Yes' : 'No'}\n`;
+          text += `Usage count: ${impact.usageCount}\n`;
+          text += `Direct dependents: ${impact.directDependents.length}\n`;
+          text += `Transitive dependents: ${impact.transitiveDependents.length}\n`;
+          text += `Direct dependencies: ${impact.directDependencies.length}\n`;
+          text += `Transitive dependencies: ${impact.transitiveDependencies.length}\n\n`;
+
+          if (impact.directDependents.length > 0) {
+            text += `Direct dependents:\n- ${impact.directDependents.join('\n- ')}\n\n`;
+          }
+          if (impact.directDependencies.length > 0) {
+            text += `Direct dependencies:\n- ${impact.directDependencies.join('\n- ')}\n\n`;
+          }
+          if (impact.transitiveDependents.length > 0) {
+            text += `Transitive dependents:\n- ${impact.transitiveDependents.join('\n- ')}\n\n`;
+          }
+          if (impact.transitiveDependencies.length > 0) {
+            text += `Transitive dependencies:\n- ${impact.transitiveDependencies.join('\n- ')}\n\n`;
+          }
+
+          text += `Summary: ${impact.summary}`;
 
           return {
-            content: [
-              {
-                type: 'text',
-                text: `${rules.length} rules found:\n\n${text}`,
-              } as TextContent,
-            ],
+            content: [{ type: 'text', text } as TextContent],
           };
         }
 
-        case 'find-rule': {
-          const pattern = (argsObj.rule_name as string) || '';
-          const useRegex = (argsObj.use_regex as boolean) || false;
-          let matchMode = (argsObj.match_mode as string) || 'exact';
-
-          // Support legacy use_regex parameter
-          if (useRegex) {
-            matchMode = 'regex';
-          }
+        case 'analyze-nullability': {
+          const fromFile = (argsObj.from_file as string) || undefined;
+          const config = fromFile ? AntlrAnalyzer.loadProjectConfig(fromFile) : undefined;
+          const result = AntlrAnalyzer.analyzeNullability(grammarContent, config);
 
-          if (matchMode !== 'exact') {
-            // Pattern matching mode: find all rules matching the pattern
-            const result = AntlrAnalyzer.findRules(grammarContent, pattern, matchMode as any);
+          let text = `Nullability Analysis\n`;
+          text += `${'='.repeat(48)}\n\n`;
+          if (config?.error) text += `⚠️ ${config.error}\n\n`;
+          text += `${result.summary}\n\n`;
 
-            if (result.error) {
-              return {
-                content: [
-                  {
-                    type: 'text',
-                    text: `Error: ${result.error}`,
-                  } as TextContent,
-                ],
-                isError: true,
-              };
+          if (result.nullableRules.length > 0) {
+            text += `Nullable rules:\n`;
+            for (const rule of result.nullableRules) {
+              text += `- ${rule.name} (${rule.type}, line ${rule.lineNumber}): ${rule.derivation} [nullable-rule]\n`;
             }
-
-            if (result.count === 0) {
-              return {
-                content: [
-                  {
-                    type: 'text',
-                    text: `No rules found matching pattern: ${pattern} (mode: ${matchMode})`,
-                  } as TextContent,
-                ],
-              };
+            text += '\n';
+          }
+          if (result.emptyClosures.length > 0) {
+            text += `Closures and optional blocks around something nullable:\n`;
+            for (const closure of result.emptyClosures) {
+              const severity = closure.severity.toUpperCase();
+              text += `- [${severity}] ${closure.ruleName} (line ${closure.lineNumber}): ${closure.element} - ${closure.reason} [nullable-${closure.kind}]\n`;
             }
-
-            const analysis = AntlrAnalyzer.analyze(grammarContent);
-            let text = `Found ${result.count} rule(s) matching pattern: ${pattern}\n\n`;
-
-            for (const rule of result.matches) {
-              text += `Rule: ${rule.name}\nType: ${rule.type}\nLine: ${rule.lineNumber}\nDefinition: ${rule.definition}\n`;
-
-              if (rule.referencedRules.length > 0) {
-                text += `References: ${rule.referencedRules.join(', ')}\n`;
-              }
-
-              const referencedBy = analysis.rules
-                .filter((r) => r.referencedRules.includes(rule.name))
-                .map((r) => r.name);
-              if (referencedBy.length > 0) {
-                text += `Referenced by: ${referencedBy.join(', ')}\n`;
-              }
-
-              text += '\n';
+            text += '\n';
+          }
+          if (result.nullableLeftRecursion.length > 0) {
+            text += `Left recursion affected by nullable elements:\n`;
+            for (const issue of result.nullableLeftRecursion) {
+              text += `- ${issue.ruleName} (line ${issue.lineNumber}): ${issue.message} [nullable-left-recursion]\n`;
             }
+          }
+
+          return {
+            content: [{ type: 'text', text: text.trimEnd() } as TextContent],
+          };
+        }
 
+        case 'decision-conflicts': {
+          const loadImports = (argsObj.load_imports as boolean) ?? true;
+          const basePath = (argsObj.base_path as string) || undefined;
+          const fromFile = (argsObj.from_file as string) || undefined;
+          const ruleName = (argsObj.rule_name as string) || undefined;
+          const showSets = (argsObj.show_sets as boolean) ?? false;
+          const maxResults = (argsObj.max_results as number) ?? 50;
+
+          const analysis =
+            loadImports && fromFile
+              ? AntlrAnalyzer.loadGrammarWithImports(fromFile, basePath)
+              : AntlrAnalyzer.analyze(grammarContent);
+          if (ruleName && !analysis.rules.some((r) => r.name === ruleName && r.type === 'parser')) {
             return {
               content: [
-                {
-                  type: 'text',
-                  text: text.trim(),
-                } as TextContent,
+                { type: 'text', text: `Parser rule '${ruleName}' not found.` } as TextContent,
               ],
+              isError: true,
             };
-          } else {
-            // Exact match mode
-            const analysis = AntlrAnalyzer.analyze(grammarContent);
-            const rule = analysis.rules.find((r) => r.name === pattern);
+          }
 
-            if (!rule) {
-              return {
-                content: [
-                  {
-                    type: 'text',
-                    text: `Rule '${pattern}' not found in grammar`,
-                  } as TextContent,
-                ],
-              };
+          const config = fromFile ? AntlrAnalyzer.loadProjectConfig(fromFile) : undefined;
+          const result = AntlrAnalyzer.findDecisionConflicts(analysis, ruleName, {
+            grammarContent,
+            config,
+          });
+          let text = `Decision Conflicts\n`;
+          text += `${'='.repeat(48)}\n\n`;
+          if (config?.error) text += `⚠️ ${config.error}\n\n`;
+          text += `${result.summary}\n`;
+
+          const shown = maxResults > 0 ? result.conflicts.slice(0, maxResults) : result.conflicts;
+          for (const conflict of shown) {
+            text += `\n${conflict.ruleName} (line ${conflict.lineNumber}) ${conflict.kind}: ${conflict.text} [decision-conflict]\n`;
+            for (const path of conflict.paths) {
+              text += `  ${path.label}: {${path.lookahead.join(', ')}}\n`;
             }
-
-            let text = `Rule: ${rule.name}\nType: ${rule.type}\nLine: ${rule.lineNumber}\n\nDefinition:\n${rule.definition}`;
-
-            if (rule.referencedRules.length > 0) {
-              text += `\n\nReferences:\n${rule.referencedRules.join(', ')}`;
+            for (const shared of conflict.conflicts) {
+              text += `  ⚠ ${shared.token} predicts ${shared.paths.join(', ')}\n`;
             }
+          }
+          if (shown.length < result.conflicts.length) {
+            text += `\n... and ${result.conflicts.length - shown.length} more (use max_results to see more)\n`;
+          }
 
-            // Find rules that reference this rule
-            const referencedBy = analysis.rules
-              .filter((r) => r.referencedRules.includes(pattern))
-              .map((r) => r.name);
-            if (referencedBy.length > 0) {
-              text += `\n\nReferenced by:\n${referencedBy.join(', ')}`;
+          if (showSets) {
+            const sets = AntlrAnalyzer.computeFirstFollowSets(analysis);
+            text += `\nFIRST / FOLLOW sets:\n`;
+            for (const name of Object.keys(sets.first)) {
+              if (ruleName && name !== ruleName) continue;
+              const nullable = sets.nullable.includes(name) ? ' (nullable)' : '';
+              text += `- ${name}${nullable}\n`;
+              text += `    FIRST:  {${sets.first[name].join(', ')}}\n`;
+              text += `    FOLLOW: {${sets.follow[name].join(', ')}}\n`;
             }
-
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text,
-                } as TextContent,
-              ],
-            };
           }
-        }
-
-        case 'get-suggestions': {
-          const suggestions = AntlrAnalyzer.getSuggestions(grammarContent);
-          const text =
-            suggestions.length === 0
-              ? 'No suggestions - grammar looks good!'
-              : 'Suggestions for improvement:\n\n' +
-                suggestions.map((s, i) => `${i + 1}. ${s}`).join('\n');
 
           return {
-            content: [
-              {
-                type: 'text',
-                text,
-              } as TextContent,
-            ],
+            content: [{ type: 'text', text: text.trimEnd() } as TextContent],
           };
         }
 
-        case 'format-grammar': {
-          const formatted = AntlrAnalyzer.format(grammarContent);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: formatted,
-              } as TextContent,
-            ],
-          };
-        }
+        case 'find-dead-code': {
+          const startRules = (argsObj.start_rules as string[]) || [];
+          const loadImports = (argsObj.load_imports as boolean) ?? true;
+          const basePath = (argsObj.base_path as string) || undefined;
+          const libDirs = (argsObj.lib_dirs as string[]) || [];
+          const remove = (argsObj.remove as boolean) || false;
+          const writeToFile = (argsObj.write_to_file as boolean) || false;
+          const fromFile = (argsObj.from_file as string) || '';
+          const outputMode = (argsObj.output_mode as string) || 'diff';
 
-        case 'compare-grammars': {
-          // Input validation
-          if (!grammarContent || grammarContent.trim() === '') {
+          const analysis =
+            loadImports && fromFile
+              ? AntlrAnalyzer.loadGrammarWithImports(
+                  fromFile,
+                  basePath,
+                  undefined,
+                  undefined,
+                  libDirs
+                )
+              : AntlrAnalyzer.analyze(grammarContent);
+          const unknown = startRules.filter(
+            (name) => !analysis.rules.some((r) => r.name === name && r.type === 'parser')
+          );
+          if (unknown.length > 0) {
             return {
               content: [
                 {
                   type: 'text',
-                  text: 'Error: grammar1_content or from_file1 is required',
+                  text: `Parser rule(s) not found: ${unknown.join(', ')}.`,
                 } as TextContent,
               ],
               isError: true,
             };
           }
-          if (!grammar2Content || grammar2Content.trim() === '') {
+
+          const config = fromFile ? AntlrAnalyzer.loadProjectConfig(fromFile) : undefined;
+          const result = AntlrAnalyzer.findDeadCode(analysis, startRules, {
+            grammarContent,
+            config,
+          });
+          let text = `Dead Code\n`;
+          text += `${'='.repeat(48)}\n\n`;
+          if (config?.error) text += `⚠️ ${config.error}\n\n`;
+          text += `${result.summary}\n`;
+          if (result.inferredStart) {
+            text += `(start rules inferred from parser rules no other rule references; pass start_rules to choose)\n`;
+          }
+          for (const item of result.dead) {
+            const where = item.imported ? 'imported' : `line ${item.lineNumber}`;
+            text += `\n- ${item.kind} ${item.name} (${where}): ${item.reason} [dead-${item.kind}]`;
+          }
+          text += '\n';
+
+          if (remove) {
+            const removal = AntlrAnalyzer.removeDeadCode(grammarContent, result.dead);
+            text += `\n${removal.success ? '✓' : '✗'} ${removal.message}\n`;
+            if (removal.success && removal.removed.length > 0) {
+              if (outputMode === 'diff') {
+                const diff = generateUnifiedDiff(
+                  grammarContent,
+                  removal.modified,
+                  fromFile || 'grammar.g4'
+                );
+                text += `\n${diff}`;
+              } else if (outputMode === 'full') {
+                text += `\nModified grammar:\n\n${removal.modified}`;
+              }
+              if (writeToFile && fromFile) {
+                const writeResult = safeWriteFile(fromFile, removal.modified);
+                text += `\n\n${writeResult.message}`;
+              }
+            }
             return {
-              content: [
-                {
-                  type: 'text',
-                  text: 'Error: grammar2_content or from_file2 is required',
-                } as TextContent,
-              ],
-              isError: true,
+              content: [{ type: 'text', text } as TextContent],
+              isError: !removal.success,
             };
           }
 
-          const result = AntlrAnalyzer.compareGrammars(grammarContent, grammar2Content);
-
-          let text = `# Grammar Comparison\n\n`;
-          text += `${result.summary}\n\n`;
-
-          text += `## Statistics\n`;
-          text += `- Grammar 1: ${result.grammar1.parserRules} parser, ${result.grammar1.lexerRules} lexer (${result.grammar1.totalRules} total)\n`;
-          text += `- Grammar 2: ${result.grammar2.parserRules} parser, ${result.grammar2.lexerRules} lexer (${result.grammar2.totalRules} total)\n\n`;
-
-          if (result.differences.added.length > 0) {
-            text += `## Added Rules (${result.differences.added.length})\n`;
-            text += result.differences.added.join(', ') + '\n\n';
-          }
-          if (result.differences.removed.length > 0) {
-            text += `## Removed Rules (${result.differences.removed.length})\n`;
-            text += result.differences.removed.join(', ') + '\n\n';
-          }
-          if (result.differences.modified.length > 0) {
-            text += `## Modified Rules (${result.differences.modified.length})\n`;
-            text += result.differences.modified.join(', ') + '\n\n';
-          }
+          return {
+            content: [{ type: 'text', text: text.trimEnd() } as TextContent],
+          };
+        }
+
+        case 'extract-fragment': {
+          const fragmentName = (argsObj.fragment_name as string) || '';
+          const pattern = (argsObj.pattern as string) || '';
+
+          const result = AntlrAnalyzer.extractFragment(grammarContent, fragmentName, pattern);
 
           return {
             content: [
               {
                 type: 'text',
-                text,
+                text: result.success
+                  ? `✓ ${result.message}\n\nModified grammar:\n\n${result.modified}`
+                  : `✗ ${result.message}`,
               } as TextContent,
             ],
+            isError: !result.success,
           };
         }
 
-        case 'add-rule': {
-          const ruleName = (argsObj.rule_name as string) || '';
-          const pattern = (argsObj.pattern as string) || undefined;
-          const definition = (argsObj.definition as string) || undefined;
-          const skip = (argsObj.skip as boolean) || false;
-          const channel = (argsObj.channel as string) || undefined;
-          const fragment = (argsObj.fragment as boolean) || false;
-          const returnType = (argsObj.return_type as string) || undefined;
-          const insertAfter = (argsObj.insert_after as string) || undefined;
-          const insertBefore = (argsObj.insert_before as string) || undefined;
-          const writeToFile = (argsObj.write_to_file as boolean) || false;
-          const fromFile = (argsObj.from_file as string) || '';
-          const outputMode = (argsObj.output_mode as string) || 'diff';
-
-          // Auto-detect rule type from naming convention
-          const isLexerRule = ruleName.length > 0 && ruleName[0] === ruleName[0].toUpperCase();
+        case 'merge-rules': {
+          const rule1Name = (argsObj.rule1_name as string) || '';
+          const rule2Name = (argsObj.rule2_name as string) || '';
+          const newRuleName = (argsObj.new_rule_name as string) || '';
 
-          // Fallback: read from from_file if grammarContent is empty
-          let effectiveContent = grammarContent;
-          let readError: string | null = null;
-          if ((!effectiveContent || effectiveContent.trim() === '') && fromFile) {
-            try {
-              effectiveContent = fs.readFileSync(fromFile, 'utf-8');
-            } catch (err) {
-              readError = err instanceof Error ? err.message : String(err);
-            }
-          }
+          const result = AntlrAnalyzer.mergeRules(
+            grammarContent,
+            rule1Name,
+            rule2Name,
+            newRuleName
+          );
 
-          // Return error if we couldn't get content
-          if (!effectiveContent || effectiveContent.trim() === '') {
-            const errorMsg = readError
-              ? `✗ Failed to read grammar file '${fromFile}': ${readError}`
-              : `✗ No grammar content provided. Use grammar_content or from_file parameter.`;
-            return {
-              content: [{ type: 'text', text: errorMsg } as TextContent],
-              isError: true,
-            };
-          }
+          return {
+            content: [
+              {
+                type: 'text',
+                text: result.success
+                  ? `✓ ${result.message}\n\nModified grammar:\n\n${result.modified}`
+                  : `✗ ${result.message}`,
+              } as TextContent,
+            ],
+            isError: !result.success,
+          };
+        }
 
-          let result;
-          if (isLexerRule) {
-            // Lexer rule
-            if (!pattern) {
-              return {
-                content: [
-                  {
-                    type: 'text',
-                    text: `✗ Lexer rules require 'pattern' parameter (rule name '${ruleName}' is UPPERCASE)`,
-                  } as TextContent,
-                ],
-                isError: true,
-              };
-            }
-            result = AntlrAnalyzer.addLexerRule(effectiveContent, ruleName, pattern, {
-              skip,
-              channel,
-              fragment,
-              insertAfter,
-              insertBefore,
-            });
-          } else {
-            // Parser rule
-            if (!definition) {
-              return {
-                content: [
-                  {
-                    type: 'text',
-                    text: `✗ Parser rules require 'definition' parameter (rule name '${ruleName}' is lowercase)`,
-                  } as TextContent,
-                ],
-                isError: true,
-              };
-            }
-            result = AntlrAnalyzer.addParserRule(effectiveContent, ruleName, definition, {
-              returnType,
-              insertAfter,
-              insertBefore,
-            });
-          }
+        case 'export-as-markdown': {
+          const markdown = AntlrAnalyzer.exportAsMarkdown(grammarContent);
 
-          let text = '';
-          if (result.success) {
-            if (outputMode === 'diff') {
-              const diff = generateUnifiedDiff(
-                grammarContent,
-                result.modified,
-                fromFile || 'grammar.g4'
-              );
-              text = `✓ ${result.message}\n\n${diff}`;
-            } else if (outputMode === 'full') {
-              text = `✓ ${result.message}\n\nModified grammar:\n\n${result.modified}`;
-            } else {
-              // 'none' - only success message
-              text = `✓ ${result.message}`;
-            }
-          } else {
-            text = `✗ ${result.message}`;
-          }
+          return {
+            content: [
+              {
+                type: 'text',
+                text: markdown,
+              } as TextContent,
+            ],
+          };
+        }
 
-          // Handle file writing with safety check
-          if (writeToFile && fromFile && result.success) {
-            const writeResult = safeWriteFile(fromFile, result.modified);
-            text += `\n\n${writeResult.message}`;
-          }
+        case 'generate-summary': {
+          const summary = AntlrAnalyzer.generateSummary(grammarContent);
 
           return {
             content: [
               {
                 type: 'text',
-                text,
+                text: summary,
               } as TextContent,
             ],
-            isError: !result.success,
           };
         }
 
-        case 'remove-rule': {
-          const ruleName = (argsObj.rule_name as string) || '';
+        case 'add-parser-rules': {
+          const rules = argsObj.rules as Array<{
+            name: string;
+            definition: string;
+            return_type?: string;
+          }>;
           const writeToFile = (argsObj.write_to_file as boolean) || false;
           const fromFile = (argsObj.from_file as string) || '';
-          const outputMode = (argsObj.output_mode as string) || 'diff';
 
-          const result = AntlrAnalyzer.removeRule(grammarContent, ruleName);
+          if (!Array.isArray(rules)) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: 'Error: rules must be an array',
+                } as TextContent,
+              ],
+              isError: true,
+            };
+          }
+
+          const result = AntlrAnalyzer.addParserRules(
+            grammarContent,
+            rules.map((r) => ({
+              name: r.name,
+              definition: r.definition,
+              options: r.return_type ? { returnType: r.return_type } : undefined,
+            }))
+          );
+
+          let output = `${result.summary}\n\nDetails:\n${result.results
+            .map((r) => `${r.success ? '✓' : '✗'} ${r.name}: ${r.message}`)
+            .join('\n')}\n\nModified grammar:\n${result.modified}`;
+
+          const outputMode = (argsObj.output_mode as string) || 'diff';
+          // Derive details portion by trimming the Modified grammar section
+          const details = output.split('\n\nModified grammar:\n')[0];
 
-          let text = '';
           if (result.success) {
             if (outputMode === 'diff') {
               const diff = generateUnifiedDiff(
@@ -4397,43 +6647,83 @@ Note: The update-rule, add-lexer-rule, and add-parser-rule tools automatically p
                 result.modified,
                 fromFile || 'grammar.g4'
               );
-              text = `✓ ${result.message}\n\n${diff}`;
-            } else if (outputMode === 'full') {
-              text = `✓ ${result.message}\n\nModified grammar:\n\n${result.modified}`;
-            } else {
-              text = `✓ ${result.message}`;
+              output = `${details}\n\n${diff}`;
+            } else if (outputMode === 'none') {
+              output = details;
             }
-          } else {
-            text = `✗ ${result.message}`;
+            // else full: keep as-is
           }
 
-          // Handle file writing
+          // Handle file writing with safety check
           if (writeToFile && fromFile && result.success) {
             const writeResult = safeWriteFile(fromFile, result.modified);
-            text += `\n\n${writeResult.message}`;
+            output += `
+
+${writeResult.message}`;
           }
 
           return {
             content: [
               {
                 type: 'text',
-                text,
+                text: output,
               } as TextContent,
             ],
-            isError: !result.success,
           };
         }
 
-        case 'update-rule': {
-          const ruleName = (argsObj.rule_name as string) || '';
-          const newDefinition = (argsObj.new_definition as string) || '';
+        case 'add-rules': {
+          const rules = argsObj.rules as Array<{
+            type: 'parser' | 'lexer';
+            name: string;
+            pattern?: string;
+            definition?: string;
+            skip?: boolean;
+            channel?: string;
+            fragment?: boolean;
+            return_type?: string;
+          }>;
           const writeToFile = (argsObj.write_to_file as boolean) || false;
           const fromFile = (argsObj.from_file as string) || '';
-          const outputMode = (argsObj.output_mode as string) || 'diff';
 
-          const result = AntlrAnalyzer.updateRule(grammarContent, ruleName, newDefinition);
+          if (!Array.isArray(rules)) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: 'Error: rules must be an array',
+                } as TextContent,
+              ],
+              isError: true,
+            };
+          }
+
+          const result = AntlrAnalyzer.addRules(
+            grammarContent,
+            rules.map((r) => ({
+              type: r.type,
+              name: r.name,
+              pattern: r.pattern,
+              definition: r.definition,
+              options:
+                r.type === 'lexer'
+                  ? {
+                      skip: r.skip,
+                      channel: r.channel,
+                      fragment: r.fragment,
+                    }
+                  : r.return_type
+                    ? { returnType: r.return_type }
+                    : undefined,
+            }))
+          );
+
+          let output = `${result.summary}\n\nDetails:\n${result.results
+            .map((r) => `${r.success ? '✓' : '✗'} ${r.name} (${r.type}): ${r.message}`)
+            .join('\n')}\n\nModified grammar:\n${result.modified}`;
 
-          let text = '';
+          const outputMode = (argsObj.output_mode as string) || 'diff';
+          const details = output.split('\n\nModified grammar:\n')[0];
           if (result.success) {
             if (outputMode === 'diff') {
               const diff = generateUnifiedDiff(
@@ -4441,137 +6731,170 @@ Note: The update-rule, add-lexer-rule, and add-parser-rule tools automatically p
                 result.modified,
                 fromFile || 'grammar.g4'
               );
-              text = `✓ ${result.message}\n\n${diff}`;
-            } else if (outputMode === 'full') {
-              text = `✓ ${result.message}\n\nModified grammar:\n\n${result.modified}`;
-            } else {
-              text = `✓ ${result.message}`;
+              output = `${details}\n\n${diff}`;
+            } else if (outputMode === 'none') {
+              output = details;
             }
-          } else {
-            text = `✗ ${result.message}`;
           }
 
-          // Handle file writing
+          // Handle file writing with safety check
           if (writeToFile && fromFile && result.success) {
             const writeResult = safeWriteFile(fromFile, result.modified);
-            text += `\n\n${writeResult.message}`;
+            output += `
+
+${writeResult.message}`;
           }
 
           return {
             content: [
               {
                 type: 'text',
-                text,
+                text: output,
               } as TextContent,
             ],
-            isError: !result.success,
           };
         }
 
-        case 'rename-rule': {
-          const oldName = (argsObj.old_name as string) || '';
-          const newName = (argsObj.new_name as string) || '';
-          const writeToFile = (argsObj.write_to_file as boolean) || false;
+        case 'apply-edits': {
+          const operations = (argsObj.operations as Array<Record<string, unknown>>) || [];
           const fromFile = (argsObj.from_file as string) || '';
+          const strict = (argsObj.strict as boolean) || false;
+          const compile = (argsObj.compile as boolean) || false;
           const basePath = (argsObj.base_path as string) || undefined;
-          const loadImports = (argsObj.load_imports as boolean) || false;
+          const libDirs = (argsObj.lib_dirs as string[]) || [];
+          const writeToFile = (argsObj.write_to_file as boolean) || false;
           const outputMode = (argsObj.output_mode as string) || 'diff';
 
-          // Use multi-file rename if requested
-          if (loadImports) {
-            if (!fromFile) {
-              return {
-                content: [
-                  {
-                    type: 'text',
-                    text: '✗ load_imports requires from_file to be specified.',
-                  } as TextContent,
-                ],
-                isError: true,
-              };
-            }
-
-            const result = AntlrAnalyzer.renameRuleMultiFile(fromFile, oldName, newName, basePath);
-
-            let text = '';
-            if (result.success) {
-              text = `✓ ${result.message}\n\n`;
-
-              // Show per-file breakdown
-              for (const mod of result.modifiedFiles) {
-                const relativePath = basePath
-                  ? path.relative(basePath, mod.filePath)
-                  : mod.filePath;
-                text += `📄 ${relativePath}: ${mod.refCount} occurrence(s)\n`;
-              }
-
-              // Show diffs if requested
-              if (outputMode !== 'none') {
-                for (const mod of result.modifiedFiles) {
-                  const originalContent = fs.readFileSync(mod.filePath, 'utf-8');
-                  const relativePath = basePath
-                    ? path.relative(basePath, mod.filePath)
-                    : mod.filePath;
-
-                  if (outputMode === 'diff') {
-                    const diff = generateUnifiedDiff(originalContent, mod.content, relativePath);
-                    text += `\n${diff}\n`;
-                  } else if (outputMode === 'full') {
-                    text += `\n--- ${relativePath} ---\n${mod.content}\n`;
-                  }
-                }
-              }
-
-              // Handle file writing
-              if (writeToFile) {
-                for (const mod of result.modifiedFiles) {
-                  const writeResult = safeWriteFile(mod.filePath, mod.content);
-                  const relativePath = basePath
-                    ? path.relative(basePath, mod.filePath)
-                    : mod.filePath;
-                  text += `\n${writeResult.message} (${relativePath})`;
-                }
-              }
-            } else {
-              text = `✗ ${result.message}`;
-            }
-
+          if (!grammarContent || operations.length === 0) {
             return {
               content: [
                 {
                   type: 'text',
-                  text,
+                  text: !grammarContent
+                    ? '✗ No grammar content provided. Use grammar_content or from_file parameter.'
+                    : '✗ operations must list at least one edit.',
                 } as TextContent,
               ],
-              isError: !result.success,
+              isError: true,
             };
           }
 
-          // Single-file rename (original behavior)
-          const result = AntlrAnalyzer.renameRule(grammarContent, oldName, newName);
+          const result = AntlrAnalyzer.applyEdits(grammarContent, operations.map(toGrammarEdit), {
+            filePath: fromFile || undefined,
+            basePath,
+            libDirs,
+            strict,
+          });
 
-          let text = '';
-          if (result.success) {
+          let success = result.success;
+          let text = `${success ? '✓' : '✗'} ${result.message}\n\n`;
+          result.results.forEach((edit, i) => {
+            text += `${edit.success ? '✓' : '✗'} ${i + 1}. ${edit.op}: ${edit.message}\n`;
+          });
+          if (result.newIssues.length > 0) {
+            text += `\nNew validation issues:\n`;
+            for (const issue of result.newIssues) {
+              const line = issue.lineNumber ? ` (line ${issue.lineNumber})` : '';
+              const code = issue.code !== undefined ? `(${issue.code})` : '';
+              text += `[${issue.type.toUpperCase()}${code}] ${issue.message}${line}\n`;
+            }
+          }
+
+          if (success && compile) {
+            const compiled = await getRuntime().compileGrammar(result.modified, {
+              fromFile: fromFile || undefined,
+              basePath,
+              loadImports: true,
+              contents: new Map(result.importedFiles.map((file) => [file.filePath, file.content])),
+            });
+            if (compiled.mode === 'simulation') {
+              text += `\n⚠️  Native compile check skipped: ${compiled.errors?.join(' ') || 'ANTLR runtime not available.'}\n`;
+            } else {
+              success = compiled.success;
+              text += `\n${success ? '✓ Native compile check passed.' : '✗ Native compile check failed.'}\n`;
+              for (const d of compiled.diagnostics) {
+                const location = d.line !== undefined ? `line ${d.line} ` : '';
+                text += `- [${d.severity.toUpperCase()}] ${location}${d.message}\n`;
+              }
+            }
+          }
+
+          if (result.results.every((edit) => edit.success)) {
             if (outputMode === 'diff') {
               const diff = generateUnifiedDiff(
                 grammarContent,
                 result.modified,
                 fromFile || 'grammar.g4'
               );
-              text = `✓ ${result.message}\n\n${diff}`;
+              text += `\n${diff}`;
             } else if (outputMode === 'full') {
-              text = `✓ ${result.message}\n\nModified grammar:\n\n${result.modified}`;
+              text += `\nModified grammar:\n\n${result.modified}`;
+            }
+            for (const file of result.importedFiles) {
+              const relativePath = basePath
+                ? path.relative(basePath, file.filePath)
+                : file.filePath;
+              if (outputMode === 'diff') {
+                const originalContent = fs.readFileSync(file.filePath, 'utf-8');
+                text += `\n${generateUnifiedDiff(originalContent, file.content, relativePath)}`;
+              } else if (outputMode === 'full') {
+                text += `\n\n--- ${relativePath} ---\n${file.content}`;
+              }
+            }
+          }
+
+          if (writeToFile) {
+            if (!fromFile) {
+              text += `\n\n✗ write_to_file requires from_file to be specified.`;
+              success = false;
+            } else if (success) {
+              const written = writeFilesAtomically(
+                [{ filePath: fromFile, content: result.modified }, ...result.importedFiles],
+                { overwrite: true }
+              );
+              text += `\n\n${written.message}`;
+              success = written.success;
             } else {
-              text = `✓ ${result.message}`;
+              text += `\n\n✗ Nothing written: ${fromFile} is unchanged.`;
             }
-          } else {
-            text = `✗ ${result.message}`;
           }
 
-          // Handle file writing
-          if (writeToFile && fromFile && result.success) {
-            const writeResult = safeWriteFile(fromFile, result.modified);
-            text += `\n\n${writeResult.message}`;
+          return {
+            content: [
+              {
+                type: 'text',
+                text,
+              } as TextContent,
+            ],
+            isError: !success,
+          };
+        }
+
+        case 'undo-last-edit':
+        case 'redo-edit': {
+          const workspace = findWorkspace(
+            (argsObj.workspace as string) || (argsObj.from_file as string) || process.cwd()
+          );
+          const merge = (argsObj.merge as boolean) || false;
+          const outputMode = (argsObj.output_mode as string) || 'diff';
+
+          const result = replayEdit(workspace, name === 'undo-last-edit' ? 'undo' : 'redo', {
+            merge,
+          });
+
+          let text = `${result.success ? '✓' : '✗'} ${result.message}\n`;
+          if (result.success) {
+            for (const file of result.files) {
+              const change =
+                file.to === null ? 'deleted' : file.from === null ? 'recreated' : 'rewritten';
+              text += `📄 ${file.filePath}: ${change}${file.merged ? ' (merged with later changes)' : ''}\n`;
+            }
+            if (outputMode === 'diff') {
+              for (const file of result.files) {
+                const diff = generateUnifiedDiff(file.from ?? '', file.to ?? '', file.filePath);
+                text += `\n${diff}\n`;
+              }
+            }
           }
 
           return {
@@ -4585,247 +6908,298 @@ Note: The update-rule, add-lexer-rule, and add-parser-rule tools automatically p
           };
         }
 
-        case 'find-rule-usages': {
-          const ruleName = (argsObj.rule_name as string) || '';
-          const loadImports = (argsObj.load_imports as boolean) ?? false;
+        case 'list-edit-history': {
+          const workspace = findWorkspace(
+            (argsObj.workspace as string) || (argsObj.from_file as string) || process.cwd()
+          );
+          const limit = (argsObj.limit as number) || 20;
+
+          const history = listEditHistory(workspace);
+          const describe = (entry: (typeof history.entries)[number]) => {
+            let line = `#${entry.id} ${entry.timestamp} ${entry.tool}`;
+            const args = Object.entries(entry.arguments)
+              .filter(([key]) => key !== 'write_to_file' && key !== 'output_mode')
+              .map(([key, value]) => `${key}=${JSON.stringify(value)}`);
+            if (args.length > 0) line += ` (${args.join(', ')})`;
+            for (const file of entry.files) {
+              line += `\n    ${file.filePath}: ${file.beforeHash ?? 'new'} → ${file.afterHash ?? 'deleted'}`;
+            }
+            return line;
+          };
+
+          let text = `Edit history of ${workspace}\n`;
+          if (history.error) {
+            text += `\n✗ ${history.error}`;
+          } else if (history.entries.length === 0 && history.undone.length === 0) {
+            text += '\nNo journaled edits.';
+          } else {
+            text += `\n${history.entries.length} edit(s), newest first (undo-last-edit takes the first):\n`;
+            text += history.entries.slice(0, limit).map(describe).join('\n');
+            if (history.entries.length > limit) {
+              text += `\n... ${history.entries.length - limit} older edit(s)`;
+            }
+            if (history.undone.length > 0) {
+              text += `\n\nUndone, redo-edit reapplies the first:\n`;
+              text += history.undone.map(describe).join('\n');
+            }
+          }
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text,
+              } as TextContent,
+            ],
+            isError: !!history.error,
+          };
+        }
+
+        case 'preview-tokens': {
+          const input = (argsObj.input as string) || '';
+          const showPositions = (argsObj.show_positions as boolean) || false;
+          const rulesToTest = (argsObj.rules_to_test as string[]) || undefined;
+          const fromFile = (argsObj.from_file as string) || '';
+          const loadImports = (argsObj.load_imports as boolean) ?? true;
           const basePath = (argsObj.base_path as string) || undefined;
-          const fromFile = (argsObj.from_file as string) || undefined;
 
-          // Use multi-file loading if requested
-          let contentToSearch = grammarContent;
-          // eslint-disable-next-line @typescript-eslint/no-unused-vars
-          const grammarName = 'grammar';
+          // Try native ANTLR4 runtime first
+          const runtime = getRuntime();
+          const nativeAvailable = await runtime.isAvailable();
 
-          if (loadImports && fromFile) {
-            const analysis = AntlrAnalyzer.loadGrammarWithImports(fromFile, basePath);
-            // eslint-disable-next-line @typescript-eslint/no-unused-vars
-            const grammarName = analysis.grammarName;
+          if (nativeAvailable) {
+            // Extract grammar name
+            const grammarName = grammarContent.match(/(?:lexer\s+)?grammar\s+(\w+)/)?.[1];
 
-            // Reconstruct grammar for searching - use rules directly
-            const lines = [];
-            for (const rule of analysis.rules) {
-              lines.push(rule.definition);
-              lines.push('');
-            }
-            contentToSearch = lines.join('\n');
-          }
+            // Use native runtime for 100% accuracy
+            const nativeResult = await runtime.tokenize(grammarContent, input, {
+              grammarName,
+              loadImports: loadImports && fromFile ? true : false,
+              basePath: basePath || (fromFile ? require('path').dirname(fromFile) : undefined),
+            });
 
-          const usages = AntlrAnalyzer.findRuleUsages(contentToSearch, ruleName);
+            if (nativeResult.success) {
+              // Format native result
+              let output = `🚀 Native ANTLR4 Runtime (100% accurate)\n\n`;
+              output += `Input: "${input.replace(/\n/g, '\\n')}"\n\n`;
 
-          let text = `🔍 Found ${usages.count} usage${usages.count !== 1 ? 's' : ''} of '${ruleName}'`;
-          if (loadImports) {
-            text += ` (including imports)`;
-          }
-          text += `:\n\n`;
+              if (nativeResult.tokens.length > 0) {
+                output += `Tokens (${nativeResult.tokens.length}):\n`;
+                nativeResult.tokens.forEach((token, index) => {
+                  let tokenLine = `  ${index + 1}. ${token.type.padEnd(20)} "${token.text.replace(/\n/g, '\\n')}"`;
 
-          if (usages.count === 0) {
-            text += `No usages found. This rule may be:\n`;
-            text += `  • Unused (consider removing if not needed)\n`;
-            text += `  • A top-level entry point (intentionally unreferenced)\n`;
-          } else {
-            for (const loc of usages.locations) {
-              text += `📍 Line ${loc.lineNumber}`;
-              if (loc.inRule) {
-                text += ` (in rule '${loc.inRule}')`;
+                  if (showPositions) {
+                    tokenLine += ` [${token.startIndex}:${token.stopIndex}] (${token.line}:${token.column})`;
+                  } else {
+                    tokenLine += ` (${token.line}:${token.column})`;
+                  }
+
+                  if (token.channel && token.channel !== 'DEFAULT_TOKEN_CHANNEL') {
+                    tokenLine += ` [${token.channel}]`;
+                  }
+
+                  output += tokenLine + '\n';
+                });
+                output += '\n';
+              } else {
+                output += 'No tokens matched.\n\n';
               }
-              text += `:\n   ${loc.context}\n\n`;
+
+              if (nativeResult.errors && nativeResult.errors.length > 0) {
+                output += `⚠️  Lexer Errors:\n${nativeResult.errors.map((e) => `  ${e}`).join('\n')}\n\n`;
+              }
+
+              output += `✅ All ANTLR4 features supported:\n`;
+              output += `  • Lexer modes (pushMode, popMode)\n`;
+              output += `  • Semantic predicates ({...?})\n`;
+              output += `  • Actions ({...})\n`;
+              output += `  • Fragment rules\n`;
+
+              if (nativeResult.compilationTime) {
+                output += `\n⏱️  Performance: ${nativeResult.compilationTime}ms compile, ${nativeResult.executionTime}ms execute\n`;
+              }
+
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: output,
+                  } as TextContent,
+                ],
+              };
+            } else if (nativeResult.errors && nativeResult.errors.length > 0) {
+              // Native runtime failed - fall back to simulation; log errors
+              console.error('Native ANTLR4 failed:', nativeResult.errors.join('\n'));
+              // Continue to simulation below
             }
           }
 
-          return {
-            content: [{ type: 'text', text } as TextContent],
-          };
-        }
+          // Fall back to simulation (either no native runtime or it failed)
+          const result = AntlrAnalyzer.previewTokens(grammarContent, input, {
+            showPositions,
+            rulesToTest,
+          });
 
-        case 'rule-statistics': {
-          const ruleName = (argsObj.rule_name as string) || '';
-          const stats = AntlrAnalyzer.getRuleStatistics(grammarContent, ruleName);
+          // Format the output with mode indicator
+          let output = '';
 
-          if (!stats) {
-            return {
-              content: [{ type: 'text', text: `Rule '${ruleName}' not found` } as TextContent],
-              isError: true,
-            };
+          if (!nativeAvailable) {
+            output += `⚠️  Using Simulation Mode (ANTLR4 runtime not available)\n\n`;
+            output += `💡 For 100% accurate tokenization, install ANTLR4:\n`;
+            output +=
+              runtime.getInstallInstructions().split('\n').slice(0, 5).join('\n') + '\n...\n\n';
+          } else {
+            output += `⚠️  Using Simulation Mode (fallback)\n\n`;
           }
 
-          let text = `Rule Statistics: ${stats.name}\n`;
-          text += `${'='.repeat(40)}\n\n`;
-          text += `Type: ${stats.type}\n`;
-          text += `Complexity: ${stats.complexity} alternatives\n`;
-          text += `Fan-out: ${stats.fanOut} (rules it references)\n`;
-          text += `Fan-in: ${stats.fanIn} (rules that reference it)\n`;
-          text += `Recursive: ${stats.isRecursive ? 'Yes' : 'No'}\n\n`;
-          text += `Definition:\n${stats.definition}`;
-
-          return {
-            content: [{ type: 'text', text } as TextContent],
-          };
-        }
-
-        case 'impact-analysis': {
-          const ruleName = (argsObj.rule_name as string) || '';
-          const impact = AntlrAnalyzer.analyzeRuleImpact(grammarContent, ruleName);
+          output += `Input: "${input.replace(/\n/g, '\\n')}"\n\n`;
 
-          if (!impact.found) {
-            return {
-              content: [{ type: 'text', text: impact.summary } as TextContent],
-              isError: true,
-            };
+          if (result.warnings.length > 0) {
+            output += `⚠️  Warnings:\n${result.warnings.map((w) => `  - ${w}`).join('\n')}\n\n`;
           }
 
-          let text = `Impact Analysis: ${impact.ruleName}\n`;
-          text += `${'='.repeat(48)}\n\n`;
-          text += `Type: ${impact.type}\n`;
-          text += `Risk level: ${impact.riskLevel.toUpperCase()}\n`;
-          text += `Entry rule: ${impact.isEntryRule ? 'Yes' : 'No'}\n`;
-          text += `Recursive: ${impact.isRecursive ? 'Yes' : 'No'}\n`;
-          text += `Usage count: ${impact.usageCount}\n`;
-          text += `Direct dependents: ${impact.directDependents.length}\n`;
-          text += `Transitive dependents: ${impact.transitiveDependents.length}\n`;
-          text += `Direct dependencies: ${impact.directDependencies.length}\n`;
-          text += `Transitive dependencies: ${impact.transitiveDependencies.length}\n\n`;
+          if (result.tokens.length > 0) {
+            output += 'Tokens:\n';
+            result.tokens.forEach((token, index) => {
+              let tokenLine = `  ${index + 1}. ${token.type}("${token.value.replace(/\n/g, '\\n')}")`;
 
-          if (impact.directDependents.length > 0) {
-            text += `Direct dependents:\n- ${impact.directDependents.join('\n- ')}\n\n`;
-          }
-          if (impact.directDependencies.length > 0) {
-            text += `Direct dependencies:\n- ${impact.directDependencies.join('\n- ')}\n\n`;
-          }
-          if (impact.transitiveDependents.length > 0) {
-            text += `Transitive dependents:\n- ${impact.transitiveDependents.join('\n- ')}\n\n`;
-          }
-          if (impact.transitiveDependencies.length > 0) {
-            text += `Transitive dependencies:\n- ${impact.transitiveDependencies.join('\n- ')}\n\n`;
-          }
+              if (showPositions) {
+                tokenLine += ` [${token.start}:${token.end}] (line ${token.line}, col ${token.column})`;
+              }
 
-          text += `Summary: ${impact.summary}`;
+              if (token.skipped) {
+                tokenLine += ' -> skip';
+              } else if (token.channel) {
+                tokenLine += ` -> channel(${token.channel})`;
+              }
 
-          return {
-            content: [{ type: 'text', text } as TextContent],
-          };
-        }
+              output += tokenLine + '\n';
+            });
+            output += '\n';
+          }
 
-        case 'extract-fragment': {
-          const fragmentName = (argsObj.fragment_name as string) || '';
-          const pattern = (argsObj.pattern as string) || '';
+          if (result.errors.length > 0) {
+            output += `❌ Errors:\n`;
+            result.errors.forEach((error) => {
+              output += `  - Position ${error.position}: ${error.message}\n`;
+            });
+            output += '\n';
+          }
 
-          const result = AntlrAnalyzer.extractFragment(grammarContent, fragmentName, pattern);
+          output += result.summary;
 
           return {
             content: [
               {
                 type: 'text',
-                text: result.success
-                  ? `✓ ${result.message}\n\nModified grammar:\n\n${result.modified}`
-                  : `✗ ${result.message}`,
+                text: output,
               } as TextContent,
             ],
             isError: !result.success,
           };
         }
 
-        case 'merge-rules': {
-          const rule1Name = (argsObj.rule1_name as string) || '';
-          const rule2Name = (argsObj.rule2_name as string) || '';
-          const newRuleName = (argsObj.new_rule_name as string) || '';
+        case 'add-tokens-with-template': {
+          const baseNames = (argsObj.base_names as string[]) || [];
+          const precedingTokens = (argsObj.preceding_tokens as string[]) || undefined;
+          const pattern = (argsObj.pattern as string) || undefined;
+          const skip = (argsObj.skip as boolean) || false;
+          const channel = (argsObj.channel as string) || undefined;
+          const fragment = (argsObj.fragment as boolean) || false;
+          const writeToFile = (argsObj.write_to_file as boolean) || false;
+          const fromFile = (argsObj.from_file as string) || '';
 
-          const result = AntlrAnalyzer.mergeRules(
-            grammarContent,
-            rule1Name,
-            rule2Name,
-            newRuleName
-          );
+          if (!Array.isArray(baseNames) || baseNames.length === 0) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: 'Error: base_names must be a non-empty array',
+                } as TextContent,
+              ],
+              isError: true,
+            };
+          }
 
-          return {
-            content: [
-              {
-                type: 'text',
-                text: result.success
-                  ? `✓ ${result.message}\n\nModified grammar:\n\n${result.modified}`
-                  : `✗ ${result.message}`,
-              } as TextContent,
-            ],
-            isError: !result.success,
-          };
-        }
+          const result = AntlrAnalyzer.addTokensWithTemplate(grammarContent, {
+            baseNames,
+            precedingTokens,
+            pattern,
+            options: {
+              skip,
+              channel,
+              fragment,
+            },
+          });
 
-        case 'export-as-markdown': {
-          const markdown = AntlrAnalyzer.exportAsMarkdown(grammarContent);
+          let output = `${result.summary}\n\nDetails:\n${result.results
+            .map((r) => `${r.success ? '✓' : '✗'} ${r.name}: ${r.message}`)
+            .join('\n')}`;
 
-          return {
-            content: [
-              {
-                type: 'text',
-                text: markdown,
-              } as TextContent,
-            ],
-          };
-        }
+          if (precedingTokens && precedingTokens.length > 0) {
+            output = `Context: Tokens preceded by [${precedingTokens.join(', ')}]\n\n${output}`;
+          }
 
-        case 'generate-summary': {
-          const summary = AntlrAnalyzer.generateSummary(grammarContent);
+          output += `\n\nModified grammar:\n${result.modified}`;
+
+          // Handle file writing with safety check
+          if (writeToFile && fromFile && result.success) {
+            const writeResult = safeWriteFile(fromFile, result.modified);
+            output += `
+
+${writeResult.message}`;
+          }
 
           return {
             content: [
               {
                 type: 'text',
-                text: summary,
+                text: output,
               } as TextContent,
             ],
           };
         }
 
-        case 'add-parser-rules': {
-          const rules = argsObj.rules as Array<{
-            name: string;
-            definition: string;
-            return_type?: string;
-          }>;
+        case 'generate-tokens-from-pattern': {
+          const inputPattern = (argsObj.input_pattern as string) || '';
+          const tokenize = argsObj.tokenize !== false; // Default to true
+          const prefix = (argsObj.prefix as string) || undefined;
+          const skip = (argsObj.skip as boolean) || false;
+          const channel = (argsObj.channel as string) || undefined;
+          const fragment = (argsObj.fragment as boolean) || false;
           const writeToFile = (argsObj.write_to_file as boolean) || false;
           const fromFile = (argsObj.from_file as string) || '';
 
-          if (!Array.isArray(rules)) {
+          if (!inputPattern) {
             return {
               content: [
                 {
                   type: 'text',
-                  text: 'Error: rules must be an array',
+                  text: 'Error: input_pattern is required',
                 } as TextContent,
               ],
               isError: true,
             };
           }
 
-          const result = AntlrAnalyzer.addParserRules(
-            grammarContent,
-            rules.map((r) => ({
-              name: r.name,
-              definition: r.definition,
-              options: r.return_type ? { returnType: r.return_type } : undefined,
-            }))
-          );
-
-          let output = `${result.summary}\n\nDetails:\n${result.results
-            .map((r) => `${r.success ? '✓' : '✗'} ${r.name}: ${r.message}`)
-            .join('\n')}\n\nModified grammar:\n${result.modified}`;
-
-          const outputMode = (argsObj.output_mode as string) || 'diff';
-          // Derive details portion by trimming the Modified grammar section
-          const details = output.split('\n\nModified grammar:\n')[0];
-
-          if (result.success) {
-            if (outputMode === 'diff') {
-              const diff = generateUnifiedDiff(
-                grammarContent,
-                result.modified,
-                fromFile || 'grammar.g4'
-              );
-              output = `${details}\n\n${diff}`;
-            } else if (outputMode === 'none') {
-              output = details;
-            }
-            // else full: keep as-is
-          }
+          const result = AntlrAnalyzer.generateTokensFromPattern(grammarContent, inputPattern, {
+            tokenize,
+            prefix,
+            options: {
+              skip,
+              channel,
+              fragment,
+            },
+          });
+
+          let output = `Input: "${inputPattern}"\n`;
+          output += `Mode: ${tokenize ? 'Split into individual tokens' : 'Single token'}\n\n`;
+          output += `Generated tokens:\n${result.generated
+            .map((g) => `  ${g.name} : ${g.pattern}`)
+            .join('\n')}\n\n`;
+          output += `${result.summary}\n\nDetails:\n${result.results
+            .map((r) => `${r.success ? '✓' : '✗'} ${r.name}: ${r.message}`)
+            .join('\n')}\n\nModified grammar:\n${result.modified}`;
 
           // Handle file writing with safety check
           if (writeToFile && fromFile && result.success) {
@@ -4845,77 +7219,62 @@ ${writeResult.message}`;
           };
         }
 
-        case 'add-rules': {
-          const rules = argsObj.rules as Array<{
-            type: 'parser' | 'lexer';
-            name: string;
-            pattern?: string;
-            definition?: string;
-            skip?: boolean;
-            channel?: string;
-            fragment?: boolean;
-            return_type?: string;
-          }>;
-          const writeToFile = (argsObj.write_to_file as boolean) || false;
-          const fromFile = (argsObj.from_file as string) || '';
+        case 'suggest-tokens-from-errors': {
+          const errorLog = (argsObj.error_log as string) || '';
 
-          if (!Array.isArray(rules)) {
+          if (!errorLog) {
             return {
               content: [
                 {
                   type: 'text',
-                  text: 'Error: rules must be an array',
+                  text: 'Error: error_log is required',
                 } as TextContent,
               ],
               isError: true,
             };
           }
 
-          const result = AntlrAnalyzer.addRules(
-            grammarContent,
-            rules.map((r) => ({
-              type: r.type,
-              name: r.name,
-              pattern: r.pattern,
-              definition: r.definition,
-              options:
-                r.type === 'lexer'
-                  ? {
-                      skip: r.skip,
-                      channel: r.channel,
-                      fragment: r.fragment,
-                    }
-                  : r.return_type
-                    ? { returnType: r.return_type }
-                    : undefined,
-            }))
-          );
+          const result = AntlrAnalyzer.suggestTokensFromErrors(grammarContent, errorLog);
 
-          let output = `${result.summary}\n\nDetails:\n${result.results
-            .map((r) => `${r.success ? '✓' : '✗'} ${r.name} (${r.type}): ${r.message}`)
-            .join('\n')}\n\nModified grammar:\n${result.modified}`;
+          let output = `${result.summary}\n\n`;
 
-          const outputMode = (argsObj.output_mode as string) || 'diff';
-          const details = output.split('\n\nModified grammar:\n')[0];
-          if (result.success) {
-            if (outputMode === 'diff') {
-              const diff = generateUnifiedDiff(
-                grammarContent,
-                result.modified,
-                fromFile || 'grammar.g4'
-              );
-              output = `${details}\n\n${diff}`;
-            } else if (outputMode === 'none') {
-              output = details;
+          if (result.suggestions.length > 0) {
+            output += 'Suggested tokens:\n\n';
+
+            // Group by confidence
+            const high = result.suggestions.filter((s) => s.confidence === 'high');
+            const medium = result.suggestions.filter((s) => s.confidence === 'medium');
+            const low = result.suggestions.filter((s) => s.confidence === 'low');
+
+            if (high.length > 0) {
+              output += '🟢 High confidence:\n';
+              high.forEach((s) => {
+                output += `  ${s.token} : ${s.pattern}\n`;
+                output += `    Reason: ${s.reason}\n\n`;
+              });
             }
-          }
 
-          // Handle file writing with safety check
-          if (writeToFile && fromFile && result.success) {
-            const writeResult = safeWriteFile(fromFile, result.modified);
-            output += `
+            if (medium.length > 0) {
+              output += '🟡 Medium confidence:\n';
+              medium.forEach((s) => {
+                output += `  ${s.token} : ${s.pattern}\n`;
+                output += `    Reason: ${s.reason}\n\n`;
+              });
+            }
 
-${writeResult.message}`;
+            if (low.length > 0) {
+              output += '🔵 Low confidence:\n';
+              low.forEach((s) => {
+                output += `  ${s.token} : ${s.pattern}\n`;
+                output += `    Reason: ${s.reason}\n\n`;
+              });
+            }
+
+            output +=
+              '\nTo add these tokens, use the add-rules tool with the suggested names and patterns.';
+          } else {
+            output +=
+              'No suggestions found. The error log may not contain recognizable token errors.';
           }
 
           return {
@@ -4928,13 +7287,37 @@ ${writeResult.message}`;
           };
         }
 
-        case 'preview-tokens': {
+        case 'test-parser-rule': {
+          const ruleName = (argsObj.rule_name as string) || '';
           const input = (argsObj.input as string) || '';
-          const showPositions = (argsObj.show_positions as boolean) || false;
-          const rulesToTest = (argsObj.rules_to_test as string[]) || undefined;
-          const fromFile = (argsObj.from_file as string) || '';
           const loadImports = (argsObj.load_imports as boolean) ?? true;
           const basePath = (argsObj.base_path as string) || undefined;
+          const fromFile = (argsObj.from_file as string) || undefined;
+          const showTree = (argsObj.show_tree as boolean) || false;
+
+          if (!ruleName) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: 'Error: rule_name is required',
+                } as TextContent,
+              ],
+              isError: true,
+            };
+          }
+
+          if (!input) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: 'Error: input is required',
+                } as TextContent,
+              ],
+              isError: true,
+            };
+          }
 
           // Try native ANTLR4 runtime first
           const runtime = getRuntime();
@@ -4942,55 +7325,45 @@ ${writeResult.message}`;
 
           if (nativeAvailable) {
             // Extract grammar name
-            const grammarName = grammarContent.match(/(?:lexer\s+)?grammar\s+(\w+)/)?.[1];
+            const grammarName = grammarContent.match(/(?:parser\s+)?grammar\s+(\w+)/)?.[1];
 
             // Use native runtime for 100% accuracy
-            const nativeResult = await runtime.tokenize(grammarContent, input, {
+            const nativeResult = await runtime.testParserRule(grammarContent, ruleName, input, {
               grammarName,
               loadImports: loadImports && fromFile ? true : false,
               basePath: basePath || (fromFile ? require('path').dirname(fromFile) : undefined),
+              showTree,
             });
 
             if (nativeResult.success) {
               // Format native result
               let output = `🚀 Native ANTLR4 Runtime (100% accurate)\n\n`;
-              output += `Input: "${input.replace(/\n/g, '\\n')}"\n\n`;
 
-              if (nativeResult.tokens.length > 0) {
-                output += `Tokens (${nativeResult.tokens.length}):\n`;
-                nativeResult.tokens.forEach((token, index) => {
-                  let tokenLine = `  ${index + 1}. ${token.type.padEnd(20)} "${token.text.replace(/\n/g, '\\n')}"`;
-
-                  if (showPositions) {
-                    tokenLine += ` [${token.startIndex}:${token.stopIndex}] (${token.line}:${token.column})`;
-                  } else {
-                    tokenLine += ` (${token.line}:${token.column})`;
-                  }
-
-                  if (token.channel && token.channel !== 'DEFAULT_TOKEN_CHANNEL') {
-                    tokenLine += ` [${token.channel}]`;
-                  }
+              if (nativeResult.matches) {
+                output += `✅ Input matches rule "${ruleName}"\n\n`;
+                output += `Input: "${input.replace(/\n/g, '\\n')}"\n\n`;
 
-                  output += tokenLine + '\n';
-                });
-                output += '\n';
+                if (showTree && nativeResult.tree) {
+                  output += `Parse Tree:\n${nativeResult.tree}\n`;
+                }
               } else {
-                output += 'No tokens matched.\n\n';
-              }
+                output += `❌ Input does NOT match rule "${ruleName}"\n\n`;
+                output += `Input: "${input.replace(/\n/g, '\\n')}"\n\n`;
 
-              if (nativeResult.errors && nativeResult.errors.length > 0) {
-                output += `⚠️  Lexer Errors:\n${nativeResult.errors.map((e) => `  ${e}`).join('\n')}\n\n`;
+                if (nativeResult.errors && nativeResult.errors.length > 0) {
+                  output += `Parse Errors:\n`;
+                  nativeResult.errors.forEach((err) => {
+                    output += `  ${err}\n`;
+                  });
+                  output += '\n';
+                }
               }
 
               output += `✅ All ANTLR4 features supported:\n`;
               output += `  • Lexer modes (pushMode, popMode)\n`;
               output += `  • Semantic predicates ({...?})\n`;
               output += `  • Actions ({...})\n`;
-              output += `  • Fragment rules\n`;
-
-              if (nativeResult.compilationTime) {
-                output += `\n⏱️  Performance: ${nativeResult.compilationTime}ms compile, ${nativeResult.executionTime}ms execute\n`;
-              }
+              output += `  • All complex parser patterns\n`;
 
               return {
                 content: [
@@ -5007,59 +7380,81 @@ ${writeResult.message}`;
             }
           }
 
-          // Fall back to simulation (either no native runtime or it failed)
-          const result = AntlrAnalyzer.previewTokens(grammarContent, input, {
-            showPositions,
-            rulesToTest,
+          // Fall back to simulation
+          const testGrammar = grammarContent;
+
+          const result = AntlrAnalyzer.testParserRule(testGrammar, ruleName, input, {
+            fromFile,
+            basePath,
+            loadImports,
           });
 
-          // Format the output with mode indicator
           let output = '';
 
           if (!nativeAvailable) {
             output += `⚠️  Using Simulation Mode (ANTLR4 runtime not available)\n\n`;
-            output += `💡 For 100% accurate tokenization, install ANTLR4:\n`;
+            output += `💡 For 100% accurate parsing with modes/predicates, install ANTLR4:\n`;
             output +=
               runtime.getInstallInstructions().split('\n').slice(0, 5).join('\n') + '\n...\n\n';
           } else {
             output += `⚠️  Using Simulation Mode (fallback)\n\n`;
           }
 
-          output += `Input: "${input.replace(/\n/g, '\\n')}"\n\n`;
-
-          if (result.warnings.length > 0) {
-            output += `⚠️  Warnings:\n${result.warnings.map((w) => `  - ${w}`).join('\n')}\n\n`;
+          if (!result.success) {
+            output += `❌ Error: ${result.message}\n`;
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: output,
+                } as TextContent,
+              ],
+              isError: true,
+            };
           }
 
-          if (result.tokens.length > 0) {
-            output += 'Tokens:\n';
-            result.tokens.forEach((token, index) => {
-              let tokenLine = `  ${index + 1}. ${token.type}("${token.value.replace(/\n/g, '\\n')}")`;
+          // Format result
+          if (result.matched) {
+            output += `✅ Match successful!\n\n`;
+            output += `Rule: ${ruleName}\n`;
+            output += `Confidence: ${result.confidence}\n`;
+            output += `${result.message}\n\n`;
 
-              if (showPositions) {
-                tokenLine += ` [${token.start}:${token.end}] (line ${token.line}, col ${token.column})`;
-              }
+            if (result.details?.matchedAlternative !== undefined) {
+              output += `Matched alternative: ${result.details.matchedAlternative + 1}\n`;
+            }
 
-              if (token.skipped) {
-                tokenLine += ' -> skip';
-              } else if (token.channel) {
-                tokenLine += ` -> channel(${token.channel})`;
-              }
+            if (result.details?.actualTokens && result.details.actualTokens.length > 0) {
+              output += `\nTokens matched:\n`;
+              result.details.actualTokens
+                .filter((t) => !t.skipped)
+                .forEach((token) => {
+                  output += `  ${token.type}: "${token.value}"\n`;
+                });
+            }
+          } else {
+            output += `❌ No match\n\n`;
+            output += `Rule: ${ruleName}\n`;
+            output += `Confidence: ${result.confidence}\n`;
+            output += `${result.message}\n\n`;
 
-              output += tokenLine + '\n';
-            });
-            output += '\n';
-          }
+            if (result.details?.partialMatch) {
+              output += `⚠️ Partial match detected (input started correctly but incomplete or has extra tokens)\n\n`;
+            }
 
-          if (result.errors.length > 0) {
-            output += `❌ Errors:\n`;
-            result.errors.forEach((error) => {
-              output += `  - Position ${error.position}: ${error.message}\n`;
-            });
-            output += '\n';
-          }
+            if (result.details?.expectedTokens && result.details.expectedTokens.length > 0) {
+              output += `Expected elements: ${result.details.expectedTokens.join(', ')}\n\n`;
+            }
 
-          output += result.summary;
+            if (result.details?.actualTokens && result.details.actualTokens.length > 0) {
+              output += `Actual tokens:\n`;
+              result.details.actualTokens
+                .filter((t) => !t.skipped)
+                .forEach((token) => {
+                  output += `  ${token.type}: "${token.value}"\n`;
+                });
+            }
+          }
 
           return {
             content: [
@@ -5068,59 +7463,93 @@ ${writeResult.message}`;
                 text: output,
               } as TextContent,
             ],
-            isError: !result.success,
           };
         }
 
-        case 'add-tokens-with-template': {
-          const baseNames = (argsObj.base_names as string[]) || [];
-          const precedingTokens = (argsObj.preceding_tokens as string[]) || undefined;
-          const pattern = (argsObj.pattern as string) || undefined;
-          const skip = (argsObj.skip as boolean) || false;
-          const channel = (argsObj.channel as string) || undefined;
-          const fragment = (argsObj.fragment as boolean) || false;
+        case 'inline-rule': {
+          const ruleName = (argsObj.rule_name as string) || '';
+          const preserveParentheses = (argsObj.preserve_parentheses as boolean) || false;
+          const dryRun = (argsObj.dry_run as boolean) || false;
           const writeToFile = (argsObj.write_to_file as boolean) || false;
-          const fromFile = (argsObj.from_file as string) || '';
 
-          if (!Array.isArray(baseNames) || baseNames.length === 0) {
+          if (!ruleName) {
             return {
               content: [
                 {
                   type: 'text',
-                  text: 'Error: base_names must be a non-empty array',
+                  text: 'Error: rule_name is required',
                 } as TextContent,
               ],
               isError: true,
             };
           }
 
-          const result = AntlrAnalyzer.addTokensWithTemplate(grammarContent, {
-            baseNames,
-            precedingTokens,
-            pattern,
-            options: {
-              skip,
-              channel,
-              fragment,
-            },
+          const result = AntlrAnalyzer.inlineRule(grammarContent, ruleName, {
+            preserveParentheses,
+            dryRun,
           });
 
-          let output = `${result.summary}\n\nDetails:\n${result.results
-            .map((r) => `${r.success ? '✓' : '✗'} ${r.name}: ${r.message}`)
-            .join('\n')}`;
+          let output = '';
 
-          if (precedingTokens && precedingTokens.length > 0) {
-            output = `Context: Tokens preceded by [${precedingTokens.join(', ')}]\n\n${output}`;
+          if (!result.success) {
+            output = `❌ Error: ${result.message}\n`;
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: output,
+                } as TextContent,
+              ],
+              isError: true,
+            };
           }
 
-          output += `\n\nModified grammar:\n${result.modified}`;
+          // Format result
+          output += dryRun ? `🔍 Dry run: ${result.message}\n\n` : `✅ ${result.message}\n\n`;
 
-          // Handle file writing with safety check
-          if (writeToFile && fromFile && result.success) {
-            const writeResult = safeWriteFile(fromFile, result.modified);
-            output += `
+          if (result.stats) {
+            output += `Statistics:\n`;
+            output += `  References replaced: ${result.stats.referencesReplaced}\n`;
+            output += `  Affected rules: ${result.stats.referencingRules.join(', ')}\n\n`;
 
-${writeResult.message}`;
+            output += `Original rule definition:\n`;
+            output += `  ${result.stats.ruleDefinition}\n\n`;
+          }
+
+          if (!dryRun && result.modified) {
+            // Handle file writing
+            if (writeToFile) {
+              const fromFile = (argsObj.from_file as string) || '';
+
+              if (!fromFile) {
+                return {
+                  content: [
+                    {
+                      type: 'text',
+                      text: 'Error: write_to_file requires from_file to be specified',
+                    } as TextContent,
+                  ],
+                  isError: true,
+                };
+              }
+
+              const writeResult = safeWriteFile(fromFile, result.modified);
+              if (!writeResult.success) {
+                return {
+                  content: [
+                    {
+                      type: 'text',
+                      text: writeResult.message,
+                    } as TextContent,
+                  ],
+                  isError: true,
+                };
+              }
+              output += `✅ Written to: ${fromFile}
+`;
+            } else {
+              output += `Modified grammar:\n\n${result.modified}`;
+            }
           }
 
           return {
@@ -5133,405 +7562,674 @@ ${writeResult.message}`;
           };
         }
 
-        case 'generate-tokens-from-pattern': {
-          const inputPattern = (argsObj.input_pattern as string) || '';
-          const tokenize = argsObj.tokenize !== false; // Default to true
-          const prefix = (argsObj.prefix as string) || undefined;
-          const skip = (argsObj.skip as boolean) || false;
-          const channel = (argsObj.channel as string) || undefined;
-          const fragment = (argsObj.fragment as boolean) || false;
+        case 'extract-rule': {
+          const ruleName = (argsObj.rule_name as string) || '';
+          const newRuleName = (argsObj.new_rule_name as string) || '';
+          const target = {
+            expression: argsObj.expression as string | undefined,
+            path: argsObj.path as string | undefined,
+          };
+          const replaceAll = (argsObj.replace_all as boolean) || false;
           const writeToFile = (argsObj.write_to_file as boolean) || false;
           const fromFile = (argsObj.from_file as string) || '';
+          const basePath = (argsObj.base_path as string) || undefined;
+          const libDirs = (argsObj.lib_dirs as string[]) || [];
+          const loadImports = (argsObj.load_imports as boolean) || false;
+          const outputMode = (argsObj.output_mode as string) || 'diff';
+
+          if (loadImports) {
+            if (!fromFile) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: '✗ load_imports requires from_file to be specified.',
+                  } as TextContent,
+                ],
+                isError: true,
+              };
+            }
+
+            const result = AntlrAnalyzer.extractRuleMultiFile(
+              fromFile,
+              ruleName,
+              newRuleName,
+              target,
+              { replaceAll, basePath, libDirs }
+            );
+
+            let text = '';
+            let writeFailed = false;
+            if (result.success) {
+              text = `✓ ${result.message}\n\n`;
+
+              for (const mod of result.modifiedFiles) {
+                const relativePath = basePath
+                  ? path.relative(basePath, mod.filePath)
+                  : mod.filePath;
+                text += `📄 ${relativePath}: ${mod.occurrences} occurrence(s)\n`;
+              }
+
+              if (outputMode !== 'none') {
+                for (const mod of result.modifiedFiles) {
+                  const originalContent = fs.readFileSync(mod.filePath, 'utf-8');
+                  const relativePath = basePath
+                    ? path.relative(basePath, mod.filePath)
+                    : mod.filePath;
+
+                  if (outputMode === 'diff') {
+                    const diff = generateUnifiedDiff(originalContent, mod.content, relativePath);
+                    text += `\n${diff}\n`;
+                  } else if (outputMode === 'full') {
+                    text += `\n--- ${relativePath} ---\n${mod.content}\n`;
+                  }
+                }
+              }
+
+              if (writeToFile) {
+                const written = writeFilesAtomically(result.modifiedFiles, { overwrite: true });
+                text += `\n${written.message}`;
+                writeFailed = !written.success;
+              }
+            } else {
+              text = `✗ ${result.message}`;
+            }
 
-          if (!inputPattern) {
             return {
               content: [
                 {
                   type: 'text',
-                  text: 'Error: input_pattern is required',
+                  text,
                 } as TextContent,
               ],
-              isError: true,
+              isError: !result.success || writeFailed,
             };
           }
 
-          const result = AntlrAnalyzer.generateTokensFromPattern(grammarContent, inputPattern, {
-            tokenize,
-            prefix,
-            options: {
-              skip,
-              channel,
-              fragment,
-            },
+          const result = AntlrAnalyzer.extractRule(grammarContent, ruleName, newRuleName, target, {
+            replaceAll,
           });
 
-          let output = `Input: "${inputPattern}"\n`;
-          output += `Mode: ${tokenize ? 'Split into individual tokens' : 'Single token'}\n\n`;
-          output += `Generated tokens:\n${result.generated
-            .map((g) => `  ${g.name} : ${g.pattern}`)
-            .join('\n')}\n\n`;
-          output += `${result.summary}\n\nDetails:\n${result.results
-            .map((r) => `${r.success ? '✓' : '✗'} ${r.name}: ${r.message}`)
-            .join('\n')}\n\nModified grammar:\n${result.modified}`;
+          let text = '';
+          if (result.success) {
+            if (outputMode === 'diff') {
+              const diff = generateUnifiedDiff(
+                grammarContent,
+                result.modified,
+                fromFile || 'grammar.g4'
+              );
+              text = `✓ ${result.message}\n\n${diff}`;
+            } else if (outputMode === 'full') {
+              text = `✓ ${result.message}\n\nModified grammar:\n\n${result.modified}`;
+            } else {
+              text = `✓ ${result.message}`;
+            }
+          } else {
+            text = `✗ ${result.message}`;
+          }
 
-          // Handle file writing with safety check
           if (writeToFile && fromFile && result.success) {
             const writeResult = safeWriteFile(fromFile, result.modified);
-            output += `
-
-${writeResult.message}`;
+            text += `\n\n${writeResult.message}`;
           }
 
           return {
             content: [
               {
                 type: 'text',
-                text: output,
+                text,
               } as TextContent,
             ],
+            isError: !result.success,
           };
         }
 
-        case 'suggest-tokens-from-errors': {
-          const errorLog = (argsObj.error_log as string) || '';
-
-          if (!errorLog) {
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: 'Error: error_log is required',
-                } as TextContent,
-              ],
-              isError: true,
-            };
-          }
-
-          const result = AntlrAnalyzer.suggestTokensFromErrors(grammarContent, errorLog);
-
-          let output = `${result.summary}\n\n`;
-
-          if (result.suggestions.length > 0) {
-            output += 'Suggested tokens:\n\n';
-
-            // Group by confidence
-            const high = result.suggestions.filter((s) => s.confidence === 'high');
-            const medium = result.suggestions.filter((s) => s.confidence === 'medium');
-            const low = result.suggestions.filter((s) => s.confidence === 'low');
-
-            if (high.length > 0) {
-              output += '🟢 High confidence:\n';
-              high.forEach((s) => {
-                output += `  ${s.token} : ${s.pattern}\n`;
-                output += `    Reason: ${s.reason}\n\n`;
-              });
-            }
+        case 'left-factor-rule': {
+          const ruleName = (argsObj.rule_name as string) || '';
+          const minPrefixLength = (argsObj.min_prefix_length as number) || undefined;
+          const dropLabels = (argsObj.drop_labels as boolean) || false;
+          const writeToFile = (argsObj.write_to_file as boolean) || false;
+          const fromFile = (argsObj.from_file as string) || '';
+          const outputMode = (argsObj.output_mode as string) || 'diff';
 
-            if (medium.length > 0) {
-              output += '🟡 Medium confidence:\n';
-              medium.forEach((s) => {
-                output += `  ${s.token} : ${s.pattern}\n`;
-                output += `    Reason: ${s.reason}\n\n`;
-              });
-            }
+          const result = AntlrAnalyzer.leftFactorRule(grammarContent, ruleName, {
+            minPrefixLength,
+            dropLabels,
+          });
 
-            if (low.length > 0) {
-              output += '🔵 Low confidence:\n';
-              low.forEach((s) => {
-                output += `  ${s.token} : ${s.pattern}\n`;
-                output += `    Reason: ${s.reason}\n\n`;
-              });
+          let text = '';
+          if (result.success) {
+            text = `✓ ${result.message}\n`;
+            for (const group of result.factored) {
+              text += `  alternatives ${group.alternatives.join(', ')}: common prefix ${group.prefix}\n`;
             }
 
-            output +=
-              '\nTo add these tokens, use the add-rules tool with the suggested names and patterns.';
+            const listConflicts = (title: string, conflicts: typeof result.conflictsBefore) => {
+              text += `\n${title}: ${conflicts.length === 0 ? 'none' : ''}\n`;
+              for (const conflict of conflicts) {
+                text += `  line ${conflict.lineNumber} ${conflict.kind}: ${conflict.text}\n`;
+                for (const shared of conflict.conflicts) {
+                  text += `    ⚠ ${shared.token} predicts ${shared.paths.join(', ')}\n`;
+                }
+              }
+            };
+            if (result.factored.length > 0) {
+              listConflicts('LL(1) conflicts before', result.conflictsBefore);
+              listConflicts('LL(1) conflicts after', result.conflictsAfter);
+
+              if (outputMode === 'diff') {
+                const diff = generateUnifiedDiff(
+                  grammarContent,
+                  result.modified,
+                  fromFile || 'grammar.g4'
+                );
+                text += `\n${diff}`;
+              } else if (outputMode === 'full') {
+                text += `\nModified grammar:\n\n${result.modified}`;
+              }
+            }
           } else {
-            output +=
-              'No suggestions found. The error log may not contain recognizable token errors.';
+            text = `✗ ${result.message}`;
+          }
+
+          if (writeToFile && fromFile && result.success && result.factored.length > 0) {
+            const writeResult = safeWriteFile(fromFile, result.modified);
+            text += `\n\n${writeResult.message}`;
           }
 
           return {
             content: [
               {
                 type: 'text',
-                text: output,
+                text,
               } as TextContent,
             ],
+            isError: !result.success,
           };
         }
 
-        case 'test-parser-rule': {
-          const ruleName = (argsObj.rule_name as string) || '';
-          const input = (argsObj.input as string) || '';
-          const loadImports = (argsObj.load_imports as boolean) ?? true;
+        case 'literals-to-tokens': {
+          const names = (argsObj.names as Record<string, string>) || undefined;
+          const writeToFile = (argsObj.write_to_file as boolean) || false;
+          const fromFile = (argsObj.from_file as string) || '';
           const basePath = (argsObj.base_path as string) || undefined;
-          const fromFile = (argsObj.from_file as string) || undefined;
-          const showTree = (argsObj.show_tree as boolean) || false;
+          const libDirs = (argsObj.lib_dirs as string[]) || [];
+          const loadImports = (argsObj.load_imports as boolean) || false;
+          const outputMode = (argsObj.output_mode as string) || 'diff';
 
-          if (!ruleName) {
+          if (loadImports && !fromFile) {
             return {
               content: [
                 {
                   type: 'text',
-                  text: 'Error: rule_name is required',
+                  text: '✗ load_imports requires from_file to be specified.',
                 } as TextContent,
               ],
               isError: true,
             };
           }
 
-          if (!input) {
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: 'Error: input is required',
-                } as TextContent,
-              ],
-              isError: true,
+          // Single-file results take the multi-file shape so both print the same way
+          let result: ReturnType<typeof AntlrAnalyzer.literalsToTokensMultiFile>;
+          if (loadImports) {
+            result = AntlrAnalyzer.literalsToTokensMultiFile(fromFile, {
+              names,
+              basePath,
+              libDirs,
+            });
+          } else {
+            const single = AntlrAnalyzer.literalsToTokens(grammarContent, { names });
+            result = {
+              ...single,
+              modifiedFiles:
+                single.modified !== grammarContent
+                  ? [
+                      {
+                        filePath: fromFile || 'grammar.g4',
+                        content: single.modified,
+                        references: single.tokens.reduce((sum, t) => sum + t.references, 0),
+                      },
+                    ]
+                  : [],
             };
           }
 
-          // Try native ANTLR4 runtime first
-          const runtime = getRuntime();
-          const nativeAvailable = await runtime.isAvailable();
+          let text = '';
+          let writeFailed = false;
+          if (result.success) {
+            text = `✓ ${result.message}\n`;
+            for (const token of result.tokens) {
+              const origin = token.created ? 'new' : 'existing';
+              text += `  ${token.literal} → ${token.name} (${origin}, ${token.references} reference(s))\n`;
+            }
 
-          if (nativeAvailable) {
-            // Extract grammar name
-            const grammarName = grammarContent.match(/(?:parser\s+)?grammar\s+(\w+)/)?.[1];
+            if (outputMode !== 'none') {
+              for (const mod of result.modifiedFiles) {
+                const relativePath =
+                  loadImports && basePath ? path.relative(basePath, mod.filePath) : mod.filePath;
+                const originalContent = loadImports
+                  ? fs.readFileSync(mod.filePath, 'utf-8')
+                  : grammarContent;
+
+                if (outputMode === 'diff') {
+                  const diff = generateUnifiedDiff(originalContent, mod.content, relativePath);
+                  text += `\n${diff}\n`;
+                } else if (outputMode === 'full') {
+                  text += `\n--- ${relativePath} ---\n${mod.content}\n`;
+                }
+              }
+            }
 
-            // Use native runtime for 100% accuracy
-            const nativeResult = await runtime.testParserRule(grammarContent, ruleName, input, {
-              grammarName,
-              loadImports: loadImports && fromFile ? true : false,
-              basePath: basePath || (fromFile ? require('path').dirname(fromFile) : undefined),
-              showTree,
-            });
+            if (writeToFile && fromFile && result.modifiedFiles.length > 0) {
+              const written = writeFilesAtomically(result.modifiedFiles, { overwrite: true });
+              text += `\n${written.message}`;
+              writeFailed = !written.success;
+            }
+          } else {
+            text = `✗ ${result.message}`;
+          }
 
-            if (nativeResult.success) {
-              // Format native result
-              let output = `🚀 Native ANTLR4 Runtime (100% accurate)\n\n`;
+          return {
+            content: [
+              {
+                type: 'text',
+                text,
+              } as TextContent,
+            ],
+            isError: !result.success || writeFailed,
+          };
+        }
 
-              if (nativeResult.matches) {
-                output += `✅ Input matches rule "${ruleName}"\n\n`;
-                output += `Input: "${input.replace(/\n/g, '\\n')}"\n\n`;
+        case 'split-grammar': {
+          const names = (argsObj.names as Record<string, string>) || undefined;
+          const writeToFile = (argsObj.write_to_file as boolean) || false;
+          const fromFile = (argsObj.from_file as string) || '';
+          const outputDir =
+            (argsObj.output_dir as string) || (fromFile ? path.dirname(fromFile) : '.');
+          const outputMode = (argsObj.output_mode as string) || 'diff';
 
-                if (showTree && nativeResult.tree) {
-                  output += `Parse Tree:\n${nativeResult.tree}\n`;
-                }
-              } else {
-                output += `❌ Input does NOT match rule "${ruleName}"\n\n`;
-                output += `Input: "${input.replace(/\n/g, '\\n')}"\n\n`;
+          const result = AntlrAnalyzer.splitGrammar(grammarContent, { names });
 
-                if (nativeResult.errors && nativeResult.errors.length > 0) {
-                  output += `Parse Errors:\n`;
-                  nativeResult.errors.forEach((err) => {
-                    output += `  ${err}\n`;
-                  });
-                  output += '\n';
+          let text = '';
+          let writeFailed = false;
+          if (result.success) {
+            text = `✓ ${result.message}\n`;
+            for (const token of result.tokens) {
+              const origin = token.created ? 'new' : 'existing';
+              text += `  ${token.literal} → ${token.name} (${origin}, ${token.references} reference(s))\n`;
+            }
+
+            const files = [result.lexer, result.parser].map((grammar) => ({
+              filePath: path.join(outputDir, `${grammar.name}.g4`),
+              content: grammar.content,
+            }));
+            if (outputMode !== 'none') {
+              for (const file of files) {
+                if (outputMode === 'diff') {
+                  const diff = generateUnifiedDiff('', file.content, file.filePath);
+                  text += `\n${diff}\n`;
+                } else if (outputMode === 'full') {
+                  text += `\n--- ${file.filePath} ---\n${file.content}\n`;
                 }
               }
+            }
 
-              output += `✅ All ANTLR4 features supported:\n`;
-              output += `  • Lexer modes (pushMode, popMode)\n`;
-              output += `  • Semantic predicates ({...?})\n`;
-              output += `  • Actions ({...})\n`;
-              output += `  • All complex parser patterns\n`;
-
-              return {
-                content: [
-                  {
-                    type: 'text',
-                    text: output,
-                  } as TextContent,
-                ],
-              };
-            } else if (nativeResult.errors && nativeResult.errors.length > 0) {
-              // Native runtime failed - fall back to simulation; log errors
-              console.error('Native ANTLR4 failed:', nativeResult.errors.join('\n'));
-              // Continue to simulation below
+            if (writeToFile) {
+              const written = writeFilesAtomically(files);
+              text += `\n${written.message}`;
+              writeFailed = !written.success;
             }
+          } else {
+            text = `✗ ${result.message}`;
           }
 
-          // Fall back to simulation
-          const testGrammar = grammarContent;
-
-          const result = AntlrAnalyzer.testParserRule(testGrammar, ruleName, input, {
-            fromFile,
-            basePath,
-            loadImports,
-          });
-
-          let output = '';
+          return {
+            content: [
+              {
+                type: 'text',
+                text,
+              } as TextContent,
+            ],
+            isError: !result.success || writeFailed,
+          };
+        }
 
-          if (!nativeAvailable) {
-            output += `⚠️  Using Simulation Mode (ANTLR4 runtime not available)\n\n`;
-            output += `💡 For 100% accurate parsing with modes/predicates, install ANTLR4:\n`;
-            output +=
-              runtime.getInstallInstructions().split('\n').slice(0, 5).join('\n') + '\n...\n\n';
-          } else {
-            output += `⚠️  Using Simulation Mode (fallback)\n\n`;
-          }
+        case 'flatten-imports': {
+          const fromFile = (argsObj.from_file as string) || '';
+          const basePath = (argsObj.base_path as string) || undefined;
+          const libDirs = (argsObj.lib_dirs as string[]) || [];
+          const outputFile = (argsObj.output_file as string) || '';
+          const writeToFile = (argsObj.write_to_file as boolean) || false;
+          const outputMode = (argsObj.output_mode as string) || 'diff';
 
-          if (!result.success) {
-            output += `❌ Error: ${result.message}\n`;
+          if (!fromFile || (writeToFile && !outputFile)) {
             return {
               content: [
                 {
                   type: 'text',
-                  text: output,
+                  text: !fromFile
+                    ? '✗ from_file is required.'
+                    : '✗ write_to_file requires output_file to be specified.',
                 } as TextContent,
               ],
               isError: true,
             };
           }
 
-          // Format result
-          if (result.matched) {
-            output += `✅ Match successful!\n\n`;
-            output += `Rule: ${ruleName}\n`;
-            output += `Confidence: ${result.confidence}\n`;
-            output += `${result.message}\n\n`;
+          const result = AntlrAnalyzer.flattenImports(fromFile, { basePath, libDirs });
 
-            if (result.details?.matchedAlternative !== undefined) {
-              output += `Matched alternative: ${result.details.matchedAlternative + 1}\n`;
+          let text = '';
+          let writeFailed = false;
+          if (result.success) {
+            text = `✓ ${result.message}\n`;
+            for (const imported of result.imports) {
+              const relativePath = basePath
+                ? path.relative(basePath, imported.filePath)
+                : imported.filePath;
+              text += `📄 ${relativePath}: ${imported.rules.length} rule(s) added\n`;
+            }
+            if (result.dropped.length > 0) {
+              text += `\nOverridden imported rules (dropped):\n`;
+              for (const drop of result.dropped) {
+                text += `  ${drop.rule} from ${drop.grammar} (kept: ${drop.keptFrom})\n`;
+              }
+            }
+            if (result.mergedActions.length > 0) {
+              text += `\nConcatenated named actions: ${result.mergedActions.map((a) => `@${a}`).join(', ')}\n`;
             }
 
-            if (result.details?.actualTokens && result.details.actualTokens.length > 0) {
-              output += `\nTokens matched:\n`;
-              result.details.actualTokens
-                .filter((t) => !t.skipped)
-                .forEach((token) => {
-                  output += `  ${token.type}: "${token.value}"\n`;
-                });
+            if (outputMode === 'diff') {
+              const original = fs.readFileSync(fromFile, 'utf-8');
+              const diff = generateUnifiedDiff(original, result.content, outputFile || fromFile);
+              text += `\n${diff}\n`;
+            } else if (outputMode === 'full') {
+              text += `\n${result.content}\n`;
+            }
+
+            if (writeToFile) {
+              const inputs = [fromFile, ...result.imports.map((i) => i.filePath)];
+              if (inputs.some((input) => path.resolve(input) === path.resolve(outputFile))) {
+                text += `\n✗ Not written: ${outputFile} is one of the input grammars.`;
+                writeFailed = true;
+              } else {
+                const writeResult = safeWriteFile(outputFile, result.content);
+                text += `\n${writeResult.message}`;
+                writeFailed = !writeResult.success;
+              }
             }
           } else {
-            output += `❌ No match\n\n`;
-            output += `Rule: ${ruleName}\n`;
-            output += `Confidence: ${result.confidence}\n`;
-            output += `${result.message}\n\n`;
+            text = `✗ ${result.message}`;
+          }
 
-            if (result.details?.partialMatch) {
-              output += `⚠️ Partial match detected (input started correctly but incomplete or has extra tokens)\n\n`;
+          return {
+            content: [
+              {
+                type: 'text',
+                text,
+              } as TextContent,
+            ],
+            isError: !result.success || writeFailed,
+          };
+        }
+
+        case 'combine-grammars': {
+          const fromFile = (argsObj.from_file as string) || '';
+          const basePath = (argsObj.base_path as string) || undefined;
+          const libDirs = (argsObj.lib_dirs as string[]) || [];
+          const grammarName = (argsObj.grammar_name as string) || undefined;
+          const outputFile = (argsObj.output_file as string) || '';
+          const writeToFile = (argsObj.write_to_file as boolean) || false;
+          const outputMode = (argsObj.output_mode as string) || 'diff';
+
+          const failure = (message: string) => ({
+            content: [{ type: 'text', text: `✗ ${message}` } as TextContent],
+            isError: true,
+          });
+          if (!fromFile) {
+            return failure('from_file is required.');
+          }
+          if (writeToFile && !outputFile) {
+            return failure('write_to_file requires output_file to be specified.');
+          }
+
+          let lexerFile = (argsObj.lexer_file as string) || '';
+          if (!lexerFile) {
+            const vocab = AntlrAnalyzer.parseTokenVocab(grammarContent);
+            const vocabPath =
+              vocab && AntlrAnalyzer.resolveTokenVocab(vocab, fromFile, basePath, libDirs);
+            if (!vocabPath || !vocabPath.endsWith('.g4')) {
+              return failure(
+                vocab
+                  ? `Cannot find ${vocab}.g4 for tokenVocab=${vocab}; pass lexer_file.`
+                  : `${fromFile} has no tokenVocab option; pass lexer_file.`
+              );
             }
+            lexerFile = vocabPath;
+          }
+          let lexerContent: string;
+          try {
+            lexerContent = fs.readFileSync(lexerFile, 'utf-8');
+          } catch (error) {
+            return failure(
+              `Cannot read ${lexerFile}: ${error instanceof Error ? error.message : String(error)}`
+            );
+          }
 
-            if (result.details?.expectedTokens && result.details.expectedTokens.length > 0) {
-              output += `Expected elements: ${result.details.expectedTokens.join(', ')}\n\n`;
+          const result = AntlrAnalyzer.combineGrammars(grammarContent, lexerContent, {
+            grammarName,
+          });
+
+          let text = '';
+          let writeFailed = false;
+          if (result.success) {
+            text = `✓ ${result.message}\n`;
+            const target = outputFile || path.join(path.dirname(fromFile), `${result.name}.g4`);
+            if (outputMode === 'diff') {
+              const existing = fs.existsSync(target) ? fs.readFileSync(target, 'utf-8') : '';
+              const diff = generateUnifiedDiff(existing, result.content, target);
+              text += `\n${diff}\n`;
+            } else if (outputMode === 'full') {
+              text += `\n${result.content}\n`;
             }
 
-            if (result.details?.actualTokens && result.details.actualTokens.length > 0) {
-              output += `Actual tokens:\n`;
-              result.details.actualTokens
-                .filter((t) => !t.skipped)
-                .forEach((token) => {
-                  output += `  ${token.type}: "${token.value}"\n`;
-                });
+            if (writeToFile) {
+              if (
+                [fromFile, lexerFile].some(
+                  (input) => path.resolve(input) === path.resolve(outputFile)
+                )
+              ) {
+                text += `\n✗ Not written: ${outputFile} is one of the input grammars.`;
+                writeFailed = true;
+              } else {
+                const writeResult = safeWriteFile(outputFile, result.content);
+                text += `\n${writeResult.message}`;
+                writeFailed = !writeResult.success;
+              }
             }
+          } else {
+            text = `✗ ${result.message}`;
           }
 
           return {
             content: [
               {
                 type: 'text',
-                text: output,
+                text,
               } as TextContent,
             ],
+            isError: !result.success || writeFailed,
           };
         }
 
-        case 'inline-rule': {
-          const ruleName = (argsObj.rule_name as string) || '';
-          const preserveParentheses = (argsObj.preserve_parentheses as boolean) || false;
-          const dryRun = (argsObj.dry_run as boolean) || false;
+        case 'move-rule-to-file': {
+          const fromFile = (argsObj.from_file as string) || '';
+          const ruleNames = (argsObj.rule_names as string[]) || [];
+          const targetFile = (argsObj.target_file as string) || '';
+          const insertAfter = (argsObj.insert_after as string) || undefined;
+          const insertBefore = (argsObj.insert_before as string) || undefined;
+          const basePath = (argsObj.base_path as string) || undefined;
+          const libDirs = (argsObj.lib_dirs as string[]) || [];
           const writeToFile = (argsObj.write_to_file as boolean) || false;
+          const outputMode = (argsObj.output_mode as string) || 'diff';
 
-          if (!ruleName) {
+          if (!fromFile || !targetFile || ruleNames.length === 0) {
             return {
               content: [
                 {
                   type: 'text',
-                  text: 'Error: rule_name is required',
+                  text: '✗ from_file, rule_names and target_file are required.',
                 } as TextContent,
               ],
               isError: true,
             };
           }
 
-          const result = AntlrAnalyzer.inlineRule(grammarContent, ruleName, {
-            preserveParentheses,
-            dryRun,
+          const result = AntlrAnalyzer.moveRulesToFile(fromFile, ruleNames, targetFile, {
+            insertAfter,
+            insertBefore,
+            basePath,
+            libDirs,
           });
 
-          let output = '';
+          let text = '';
+          let writeFailed = false;
+          if (result.success) {
+            text = `✓ ${result.message}\n`;
+            for (const file of result.modifiedFiles) {
+              const relativePath = basePath
+                ? path.relative(basePath, file.filePath)
+                : file.filePath;
+              const changes = [
+                ...(file.added.length > 0 ? [`added ${file.added.join(', ')}`] : []),
+                ...(file.removed.length > 0 ? [`removed ${file.removed.join(', ')}`] : []),
+              ];
+              text += `📄 ${relativePath}: ${changes.join('; ')}\n`;
+            }
+            if (result.warnings.length > 0) {
+              text += `\n⚠️  Import override resolution changes:\n`;
+              for (const warning of result.warnings) {
+                text += `  - ${warning}\n`;
+              }
+            }
 
-          if (!result.success) {
-            output = `❌ Error: ${result.message}\n`;
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: output,
-                } as TextContent,
-              ],
-              isError: true,
-            };
+            for (const file of result.modifiedFiles) {
+              if (outputMode === 'diff') {
+                const original = fs.readFileSync(file.filePath, 'utf-8');
+                const diff = generateUnifiedDiff(original, file.content, file.filePath);
+                text += `\n${diff}\n`;
+              } else if (outputMode === 'full') {
+                text += `\n--- ${file.filePath} ---\n${file.content}\n`;
+              }
+            }
+
+            if (writeToFile) {
+              const written = writeFilesAtomically(result.modifiedFiles, { overwrite: true });
+              text += `\n${written.message}`;
+              writeFailed = !written.success;
+            }
+          } else {
+            text = `✗ ${result.message}`;
           }
 
-          // Format result
-          output += dryRun ? `🔍 Dry run: ${result.message}\n\n` : `✅ ${result.message}\n\n`;
+          return {
+            content: [
+              {
+                type: 'text',
+                text,
+              } as TextContent,
+            ],
+            isError: !result.success || writeFailed,
+          };
+        }
 
-          if (result.stats) {
-            output += `Statistics:\n`;
-            output += `  References replaced: ${result.stats.referencesReplaced}\n`;
-            output += `  Affected rules: ${result.stats.referencingRules.join(', ')}\n\n`;
+        case 'label-alternatives': {
+          const ruleNames = (argsObj.rule_names as string[]) || [];
+          const writeToFile = (argsObj.write_to_file as boolean) || false;
+          const fromFile = (argsObj.from_file as string) || '';
+          const outputMode = (argsObj.output_mode as string) || 'diff';
 
-            output += `Original rule definition:\n`;
-            output += `  ${result.stats.ruleDefinition}\n\n`;
+          const result = AntlrAnalyzer.labelAlternatives(grammarContent, ruleNames);
+
+          let text = '';
+          if (result.success) {
+            text = `✓ ${result.message}\n`;
+            for (const label of result.labels) {
+              text += `  ${label.rule} alternative ${label.alternative}: # ${label.label}\n`;
+            }
+            if (outputMode === 'diff') {
+              const diff = generateUnifiedDiff(
+                grammarContent,
+                result.modified,
+                fromFile || 'grammar.g4'
+              );
+              text += `\n${diff}`;
+            } else if (outputMode === 'full') {
+              text += `\nModified grammar:\n\n${result.modified}`;
+            }
+          } else {
+            text = `✗ ${result.message}`;
           }
 
-          if (!dryRun && result.modified) {
-            // Handle file writing
-            if (writeToFile) {
-              const fromFile = (argsObj.from_file as string) || '';
+          // Handle file writing
+          if (writeToFile && fromFile && result.success && result.labels.length > 0) {
+            const writeResult = safeWriteFile(fromFile, result.modified);
+            text += `\n\n${writeResult.message}`;
+          }
 
-              if (!fromFile) {
-                return {
-                  content: [
-                    {
-                      type: 'text',
-                      text: 'Error: write_to_file requires from_file to be specified',
-                    } as TextContent,
-                  ],
-                  isError: true,
-                };
-              }
+          return {
+            content: [
+              {
+                type: 'text',
+                text,
+              } as TextContent,
+            ],
+            isError: !result.success,
+          };
+        }
 
-              const writeResult = safeWriteFile(fromFile, result.modified);
-              if (!writeResult.success) {
-                return {
-                  content: [
-                    {
-                      type: 'text',
-                      text: writeResult.message,
-                    } as TextContent,
-                  ],
-                  isError: true,
-                };
-              }
-              output += `✅ Written to: ${fromFile}
-`;
-            } else {
-              output += `Modified grammar:\n\n${result.modified}`;
+        case 'eliminate-left-recursion': {
+          const ruleName = (argsObj.rule_name as string) || undefined;
+          const strategy = (argsObj.strategy as 'direct' | 'iteration') || 'direct';
+          const writeToFile = (argsObj.write_to_file as boolean) || false;
+          const fromFile = (argsObj.from_file as string) || '';
+          const outputMode = (argsObj.output_mode as string) || 'diff';
+
+          const result = AntlrAnalyzer.eliminateLeftRecursion(grammarContent, ruleName, strategy);
+
+          let text = result.success ? `✓ ${result.message}\n` : `✗ ${result.message}\n`;
+          if (result.cycles.length > 0) {
+            text += `\nLeft-recursion cycles:\n`;
+            for (const cycle of result.cycles) {
+              text += `  ${cycle.join(' → ')}\n`;
             }
           }
+          if (result.success) {
+            if (outputMode === 'diff') {
+              const diff = generateUnifiedDiff(
+                grammarContent,
+                result.modified,
+                fromFile || 'grammar.g4'
+              );
+              text += `\n${diff}`;
+            } else if (outputMode === 'full') {
+              text += `\nModified grammar:\n\n${result.modified}`;
+            }
+          }
+
+          // Handle file writing
+          if (writeToFile && fromFile && result.success) {
+            const writeResult = safeWriteFile(fromFile, result.modified);
+            text += `\n\n${writeResult.message}`;
+          }
 
           return {
             content: [
               {
                 type: 'text',
-                text: output,
+                text,
               } as TextContent,
             ],
+            isError: !result.success,
           };
         }
 
@@ -5628,12 +8326,14 @@ ${writeResult.message}`;
               (argsObj.checkAmbiguousOptionals as boolean | undefined) ?? true,
             checkLeftRecursion: (argsObj.checkLeftRecursion as boolean | undefined) ?? true,
             checkLexerConflicts: (argsObj.checkLexerConflicts as boolean | undefined) ?? true,
-            minPrefixLength: (argsObj.minPrefixLength as number | undefined) ?? 2,
+            minPrefixLength: argsObj.minPrefixLength as number | undefined,
           };
+          const fromFile = (argsObj.from_file as string) || undefined;
+          const config = fromFile ? AntlrAnalyzer.loadProjectConfig(fromFile) : undefined;
 
-          const result = AntlrAnalyzer.analyzeAmbiguities(grammarContent, options);
+          const result = AntlrAnalyzer.analyzeAmbiguities(grammarContent, options, config);
 
-          let output = '';
+          let output = config?.error ? `⚠️ ${config.error}\n\n` : '';
 
           // Summary header
           if (result.success) {
@@ -5661,7 +8361,7 @@ ${writeResult.message}`;
             if (errors.length > 0) {
               output += `🔴 ERRORS (must fix):\n`;
               for (const issue of errors) {
-                output += `  ${issue.rule}${issue.line ? ` (line ${issue.line})` : ''}: ${issue.description}\n`;
+                output += `  ${issue.rule}${issue.line ? ` (line ${issue.line})` : ''}: ${issue.description} [${issue.type}]\n`;
                 if (issue.suggestion) {
                   output += `    💡 ${issue.suggestion}\n`;
                 }
@@ -5672,7 +8372,7 @@ ${writeResult.message}`;
             if (warnings.length > 0) {
               output += `⚠️  WARNINGS (should review):\n`;
               for (const issue of warnings) {
-                output += `  ${issue.rule}${issue.line ? ` (line ${issue.line})` : ''}: ${issue.description}\n`;
+                output += `  ${issue.rule}${issue.line ? ` (line ${issue.line})` : ''}: ${issue.description} [${issue.type}]\n`;
                 if (issue.suggestion) {
                   output += `    💡 ${issue.suggestion}\n`;
                 }
@@ -5683,7 +8383,7 @@ ${writeResult.message}`;
             if (infos.length > 0) {
               output += `ℹ️  INFO (optional):\n`;
               for (const issue of infos) {
-                output += `  ${issue.rule}${issue.line ? ` (line ${issue.line})` : ''}: ${issue.description}\n`;
+                output += `  ${issue.rule}${issue.line ? ` (line ${issue.line})` : ''}: ${issue.description} [${issue.type}]\n`;
                 if (issue.suggestion) {
                   output += `    💡 ${issue.suggestion}\n`;
                 }
@@ -5706,12 +8406,15 @@ ${writeResult.message}`;
         }
 
         case 'analyze-lexer-modes': {
-          const result = AntlrAnalyzer.analyzeLexerModes(grammarContent);
+          const fromFile = (argsObj.from_file as string) || undefined;
+          const config = fromFile ? AntlrAnalyzer.loadProjectConfig(fromFile) : undefined;
+          const result = AntlrAnalyzer.analyzeLexerModes(grammarContent, config);
 
           let output = '';
 
           // Summary header
           output += `# Lexer Mode Analysis\n\n`;
+          if (config?.error) output += `⚠️ ${config.error}\n\n`;
 
           // List modes
           if (result.modes.length > 0) {
@@ -5778,13 +8481,14 @@ ${writeResult.message}`;
             output += `## Issues\n\n`;
             const errors = result.issues.filter((i) => i.type === 'error');
             const warnings = result.issues.filter((i) => i.type === 'warning');
+            const infos = result.issues.filter((i) => i.type === 'info');
 
             if (errors.length > 0) {
               output += `🔴 ERRORS:\n`;
               for (const issue of errors) {
                 output += `  - ${issue.message}`;
                 if (issue.ruleName) output += ` (rule: ${issue.ruleName})`;
-                output += `\n`;
+                output += ` [${issue.check}]\n`;
               }
               output += `\n`;
             }
@@ -5794,7 +8498,17 @@ ${writeResult.message}`;
               for (const issue of warnings) {
                 output += `  - ${issue.message}`;
                 if (issue.ruleName) output += ` (rule: ${issue.ruleName})`;
-                output += `\n`;
+                output += ` [${issue.check}]\n`;
+              }
+              output += `\n`;
+            }
+
+            if (infos.length > 0) {
+              output += `ℹ️  INFO:\n`;
+              for (const issue of infos) {
+                output += `  - ${issue.message}`;
+                if (issue.ruleName) output += ` (rule: ${issue.ruleName})`;
+                output += ` [${issue.check}]\n`;
               }
               output += `\n`;
             }
@@ -6079,6 +8793,113 @@ ${writeResult.message}`;
           };
         }
 
+        case 'rename-mode':
+        case 'remove-mode': {
+          const fromFile = (argsObj.from_file as string) || '';
+          const basePath = (argsObj.base_path as string) || undefined;
+          const libDirs = (argsObj.lib_dirs as string[]) || [];
+          const writeToFile = (argsObj.write_to_file as boolean) || false;
+          const outputMode = (argsObj.output_mode as string) || 'diff';
+
+          if (!fromFile) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: '✗ from_file is required.',
+                } as TextContent,
+              ],
+              isError: true,
+            };
+          }
+
+          let result: {
+            success: boolean;
+            message: string;
+            modifiedFiles: Array<{ filePath: string; content: string; summary: string }>;
+            warnings: string[];
+          };
+          if (name === 'rename-mode') {
+            const renamed = AntlrAnalyzer.renameMode(
+              fromFile,
+              (argsObj.old_name as string) || '',
+              (argsObj.new_name as string) || '',
+              { basePath, libDirs }
+            );
+            result = {
+              ...renamed,
+              modifiedFiles: renamed.modifiedFiles.map((file) => ({
+                ...file,
+                summary: `${file.refCount} command reference(s)`,
+              })),
+            };
+          } else {
+            const removed = AntlrAnalyzer.removeMode(
+              fromFile,
+              (argsObj.mode_name as string) || '',
+              {
+                targetMode: (argsObj.target_mode as string) || undefined,
+                basePath,
+                libDirs,
+              }
+            );
+            result = {
+              ...removed,
+              modifiedFiles: removed.modifiedFiles.map((file) => ({
+                ...file,
+                summary:
+                  file.movedRules.length > 0
+                    ? `moved ${file.movedRules.join(', ')}`
+                    : `removed ${file.removedRules.join(', ') || 'empty mode'}`,
+              })),
+              warnings: [],
+            };
+          }
+
+          let text = '';
+          let writeFailed = false;
+          if (result.success) {
+            text = `✓ ${result.message}\n`;
+            for (const file of result.modifiedFiles) {
+              const relativePath = basePath
+                ? path.relative(basePath, file.filePath)
+                : file.filePath;
+              text += `📄 ${relativePath}: ${file.summary}\n`;
+            }
+            for (const warning of result.warnings) {
+              text += `⚠️  ${warning}\n`;
+            }
+
+            for (const file of result.modifiedFiles) {
+              if (outputMode === 'diff') {
+                const original = fs.readFileSync(file.filePath, 'utf-8');
+                const diff = generateUnifiedDiff(original, file.content, file.filePath);
+                text += `\n${diff}\n`;
+              } else if (outputMode === 'full') {
+                text += `\n--- ${file.filePath} ---\n${file.content}\n`;
+              }
+            }
+
+            if (writeToFile) {
+              const written = writeFilesAtomically(result.modifiedFiles, { overwrite: true });
+              text += `\n${written.message}`;
+              writeFailed = !written.success;
+            }
+          } else {
+            text = `✗ ${result.message}`;
+          }
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text,
+              } as TextContent,
+            ],
+            isError: !result.success || writeFailed,
+          };
+        }
+
         case 'create-grammar-template': {
           const grammarName = (argsObj.grammar_name as string) || '';
           const type = (argsObj.type as 'lexer' | 'parser' | 'combined') || 'lexer';
@@ -6108,9 +8929,12 @@ ${writeResult.message}`;
         }
 
         case 'grammar-metrics': {
-          const metrics = AntlrAnalyzer.calculateGrammarMetrics(grammarContent);
+          const fromFile = (argsObj.from_file as string) || undefined;
+          const config = fromFile ? AntlrAnalyzer.loadProjectConfig(fromFile) : undefined;
+          const metrics = AntlrAnalyzer.calculateGrammarMetrics(grammarContent, config);
 
           let output = '# Grammar Metrics\n\n';
+          if (config?.error) output += `⚠️ ${config.error}\n\n`;
 
           // Size metrics
           output += `## Size\n`;
@@ -6167,11 +8991,11 @@ ${writeResult.message}`;
           output += `| Avg Fan-Out | ${metrics.dependencies.avgFanOut} |\n\n`;
 
           if (metrics.dependencies.orphanRules.length > 0) {
-            output += `**Orphan Rules:** ${metrics.dependencies.orphanRules.join(', ')}\n\n`;
+            output += `**Orphan Rules** [orphan-rule]: ${metrics.dependencies.orphanRules.join(', ')}\n\n`;
           }
 
           if (metrics.dependencies.hubRules.length > 0) {
-            output += `**Hub Rules:** ${metrics.dependencies.hubRules.join(', ')}\n\n`;
+            output += `**Hub Rules** [hub-rule]: ${metrics.dependencies.hubRules.join(', ')}\n\n`;
           }
 
           if (metrics.dependencies.mostReferenced.length > 0) {
@@ -6192,9 +9016,12 @@ ${writeResult.message}`;
         }
 
         case 'detect-redos': {
-          const result = AntlrAnalyzer.detectReDoS(grammarContent);
+          const fromFile = (argsObj.from_file as string) || undefined;
+          const config = fromFile ? AntlrAnalyzer.loadProjectConfig(fromFile) : undefined;
+          const result = AntlrAnalyzer.detectReDoS(grammarContent, config);
 
           let output = '# ReDoS Vulnerability Analysis\n\n';
+          if (config?.error) output += `⚠️ ${config.error}\n\n`;
 
           output += `**Summary:** `;
           if (result.summary.high > 0) {
@@ -6224,7 +9051,7 @@ ${writeResult.message}`;
             if (high.length > 0) {
               output += `## 🔴 High Severity\n\n`;
               for (const v of high) {
-                output += `**${v.ruleName}** (line ${v.lineNumber})\n`;
+                output += `**${v.ruleName}** (line ${v.lineNumber}) [${v.check}]\n`;
                 output += `- Issue: ${v.issue}\n`;
                 output += `- Pattern: \`${v.pattern}\`\n`;
                 output += `- Suggestion: ${v.suggestion}\n\n`;
@@ -6234,7 +9061,7 @@ ${writeResult.message}`;
             if (medium.length > 0) {
               output += `## 🟡 Medium Severity\n\n`;
               for (const v of medium) {
-                output += `**${v.ruleName}** (line ${v.lineNumber})\n`;
+                output += `**${v.ruleName}** (line ${v.lineNumber}) [${v.check}]\n`;
                 output += `- Issue: ${v.issue}\n`;
                 output += `- Suggestion: ${v.suggestion}\n\n`;
               }
@@ -6243,7 +9070,7 @@ ${writeResult.message}`;
             if (low.length > 0) {
               output += `## 🟢 Low Severity\n\n`;
               for (const v of low) {
-                output += `**${v.ruleName}** (line ${v.lineNumber})\n`;
+                output += `**${v.ruleName}** (line ${v.lineNumber}) [${v.check}]\n`;
                 output += `- Issue: ${v.issue}\n`;
                 output += `- Suggestion: ${v.suggestion}\n\n`;
               }
@@ -6262,9 +9089,12 @@ ${writeResult.message}`;
         }
 
         case 'check-style': {
-          const result = AntlrAnalyzer.checkStyle(grammarContent);
+          const fromFile = (argsObj.from_file as string) || undefined;
+          const config = fromFile ? AntlrAnalyzer.loadProjectConfig(fromFile) : undefined;
+          const result = AntlrAnalyzer.checkStyle(grammarContent, config);
 
           let output = '# Style Check\n\n';
+          if (config?.error) output += `⚠️ ${config.error}\n\n`;
 
           // Score
           const scoreEmoji = result.score >= 80 ? '✅' : result.score >= 60 ? '⚠️' : '❌';
@@ -6300,7 +9130,7 @@ ${writeResult.message}`;
               for (const issue of errors) {
                 output += `- ${issue.message}`;
                 if (issue.ruleName) output += ` (${issue.ruleName})`;
-                output += `\n`;
+                output += ` [${issue.check}]\n`;
                 if (issue.suggestion) output += `  💡 ${issue.suggestion}\n`;
               }
               output += `\n`;
@@ -6311,7 +9141,7 @@ ${writeResult.message}`;
               for (const issue of warnings) {
                 output += `- ${issue.message}`;
                 if (issue.ruleName) output += ` (${issue.ruleName})`;
-                output += `\n`;
+                output += ` [${issue.check}]\n`;
                 if (issue.suggestion) output += `  💡 ${issue.suggestion}\n`;
               }
               output += `\n`;
@@ -6322,7 +9152,7 @@ ${writeResult.message}`;
               for (const issue of infos) {
                 output += `- ${issue.message}`;
                 if (issue.ruleName) output += ` (${issue.ruleName})`;
-                output += `\n`;
+                output += ` [${issue.check}]\n`;
                 if (issue.suggestion) output += `  💡 ${issue.suggestion}\n`;
               }
             }
@@ -6340,9 +9170,12 @@ ${writeResult.message}`;
         }
 
         case 'analyze-bottlenecks': {
-          const result = AntlrAnalyzer.analyzeBottlenecks(grammarContent);
+          const fromFile = (argsObj.from_file as string) || undefined;
+          const config = fromFile ? AntlrAnalyzer.loadProjectConfig(fromFile) : undefined;
+          const result = AntlrAnalyzer.analyzeBottlenecks(grammarContent, config);
 
           let output = '# Performance Bottleneck Analysis\n\n';
+          if (config?.error) output += `⚠️ ${config.error}\n\n`;
 
           // Metrics summary
           output += `**Total Issues:** ${result.metrics.totalBottlenecks}\n`;
@@ -6380,7 +9213,7 @@ ${writeResult.message}`;
             for (const item of items) {
               const severityIcon =
                 item.severity === 'high' ? '🔴' : item.severity === 'medium' ? '🟡' : '🟢';
-              output += `### ${severityIcon} ${item.description}\n`;
+              output += `### ${severityIcon} ${item.description} [${item.type}]\n`;
 
               if (item.ruleName) {
                 output += `- **Rule:** \`${item.ruleName}\``;
@@ -6969,25 +9802,112 @@ ${writeResult.message}`;
           const loadImports = (argsObj.load_imports as boolean) ?? true;
           const basePath = (argsObj.base_path as string) || undefined;
           const fromFile = (argsObj.from_file as string) || undefined;
+          const libDirs = (argsObj.lib_dirs as string[]) || [];
           const includeSuggestions = (argsObj.include_suggestions as boolean) ?? true;
           const detectQuantifiers = (argsObj.detect_quantifiers as boolean) ?? true;
           const detectIncomplete = (argsObj.detect_incomplete as boolean) ?? true;
+          const baselineFile = (argsObj.baseline_file as string) || undefined;
+          const updateBaseline = (argsObj.update_baseline as boolean) ?? false;
 
           // Load with imports if requested
           let analysis;
           if (loadImports && fromFile) {
-            analysis = AntlrAnalyzer.loadGrammarWithImports(fromFile, basePath);
+            analysis = AntlrAnalyzer.loadGrammarWithImports(
+              fromFile,
+              basePath,
+              undefined,
+              undefined,
+              libDirs
+            );
           } else {
             analysis = AntlrAnalyzer.analyze(grammarContent);
           }
 
           // Get issues from analysis
-          const issues = analysis.issues || [];
+          const config = fromFile ? AntlrAnalyzer.loadProjectConfig(fromFile) : undefined;
+          let issues = AntlrAnalyzer.applyIssuePolicy(
+            analysis.issues || [],
+            grammarContent,
+            config
+          );
 
-          // Aggregate issues
-          const aggregated = AntlrAnalyzer.aggregateValidationIssues(issues);
+          // Detect suspicious quantifiers and incomplete parsing
+          let suspiciousQuants = detectQuantifiers
+            ? AntlrAnalyzer.applyCheckPolicy(
+                AntlrAnalyzer.detectSuspiciousQuantifiers(analysis),
+                grammarContent,
+                config,
+                (issue) => ({ check: 'quantifier-issue', lineNumber: issue.lineNumber })
+              )
+            : [];
+          let incompletePatterns = detectIncomplete
+            ? AntlrAnalyzer.applyCheckPolicy(
+                AntlrAnalyzer.detectIncompleteParsing(analysis),
+                grammarContent,
+                config,
+                (issue) => ({ check: 'incomplete-parsing', lineNumber: issue.lineNumber })
+              )
+            : [];
 
           let output = `📊 Smart Validation Results\n\n`;
+          if (config?.error) output += `⚠️ ${config.error}\n\n`;
+
+          // With a baseline, keep only findings it does not already know
+          let baselineFooter = '';
+          if (baselineFile) {
+            const findings = new Map<GrammarIssue, object>();
+            for (const finding of suspiciousQuants) {
+              findings.set(
+                {
+                  type: 'warning',
+                  message: `Suspicious quantifier: ${finding.pattern}`,
+                  lineNumber: finding.lineNumber,
+                  ruleName: finding.ruleName,
+                  check: 'quantifier-issue',
+                },
+                finding
+              );
+            }
+            for (const finding of incompletePatterns) {
+              findings.set(
+                {
+                  type: 'warning',
+                  message: `Incomplete parsing: ${finding.pattern}`,
+                  lineNumber: finding.lineNumber,
+                  ruleName: finding.ruleName,
+                  check: 'incomplete-parsing',
+                },
+                finding
+              );
+            }
+
+            const result = applyIssueBaseline(
+              [...issues, ...findings.keys()],
+              analysis.grammarName,
+              baselineFile,
+              updateBaseline
+            );
+            if (result.complete) {
+              return {
+                content: [{ type: 'text', text: output + result.header } as TextContent],
+                isError: result.error,
+              };
+            }
+            const fresh = new Set(result.issues);
+            const freshFindings = new Set(
+              Array.from(findings)
+                .filter(([issue]) => fresh.has(issue))
+                .map(([, finding]) => finding)
+            );
+            issues = issues.filter((issue) => fresh.has(issue));
+            suspiciousQuants = suspiciousQuants.filter((finding) => freshFindings.has(finding));
+            incompletePatterns = incompletePatterns.filter((finding) => freshFindings.has(finding));
+            output += `${result.header}\n\n`;
+            baselineFooter = result.footer;
+          }
+
+          // Aggregate issues
+          const aggregated = AntlrAnalyzer.aggregateValidationIssues(issues);
           output += `${aggregated.summary}\n\n`;
 
           // Show groups
@@ -7008,33 +9928,25 @@ ${writeResult.message}`;
             output += `\n`;
           }
 
-          // Detect suspicious quantifiers
-          if (detectQuantifiers) {
-            const suspiciousQuants = AntlrAnalyzer.detectSuspiciousQuantifiers(analysis);
-            if (suspiciousQuants.length > 0) {
-              output += `\n## ⚠️  Suspicious Quantifiers (${suspiciousQuants.length})\n\n`;
-              for (const issue of suspiciousQuants.slice(0, 10)) {
-                output += `**${issue.ruleName}** (line ${issue.lineNumber})\n`;
-                output += `  Pattern: \`${issue.pattern}\`\n`;
-                output += `  💡 ${issue.suggestion}\n`;
-                output += `  ℹ️  ${issue.reasoning}\n\n`;
-              }
-              if (suspiciousQuants.length > 10) {
-                output += `... and ${suspiciousQuants.length - 10} more\n\n`;
-              }
+          if (suspiciousQuants.length > 0) {
+            output += `\n## ⚠️  Suspicious Quantifiers (${suspiciousQuants.length})\n\n`;
+            for (const issue of suspiciousQuants.slice(0, 10)) {
+              output += `**${issue.ruleName}** (line ${issue.lineNumber})\n`;
+              output += `  Pattern: \`${issue.pattern}\`\n`;
+              output += `  💡 ${issue.suggestion}\n`;
+              output += `  ℹ️  ${issue.reasoning}\n\n`;
+            }
+            if (suspiciousQuants.length > 10) {
+              output += `... and ${suspiciousQuants.length - 10} more\n\n`;
             }
           }
 
-          // Detect incomplete parsing
-          if (detectIncomplete) {
-            const incompletePatterns = AntlrAnalyzer.detectIncompleteParsing(analysis);
-            if (incompletePatterns.length > 0) {
-              output += `\n## 🚨 Incomplete Parsing Anti-Patterns (${incompletePatterns.length})\n\n`;
-              for (const issue of incompletePatterns) {
-                output += `**${issue.ruleName}** (line ${issue.lineNumber})\n`;
-                output += `  Pattern: \`${issue.pattern}\`\n`;
-                output += `  💡 ${issue.suggestion}\n\n`;
-              }
+          if (incompletePatterns.length > 0) {
+            output += `\n## 🚨 Incomplete Parsing Anti-Patterns (${incompletePatterns.length})\n\n`;
+            for (const issue of incompletePatterns) {
+              output += `**${issue.ruleName}** (line ${issue.lineNumber})\n`;
+              output += `  Pattern: \`${issue.pattern}\`\n`;
+              output += `  💡 ${issue.suggestion}\n\n`;
             }
           }
 
@@ -7059,6 +9971,11 @@ ${writeResult.message}`;
             }
           }
 
+          if (baselineFooter) {
+            output += `\n## ✅ ${baselineFooter}`;
+          }
+
+          const newCount = issues.length + suspiciousQuants.length + incompletePatterns.length;
           return {
             content: [
               {
@@ -7066,14 +9983,23 @@ ${writeResult.message}`;
                 text: output,
               } as TextContent,
             ],
+            ...(baselineFile && { isError: newCount > 0 }),
           };
         }
 
         case 'detect-quantifier-issues': {
+          const fromFile = (argsObj.from_file as string) || undefined;
+          const config = fromFile ? AntlrAnalyzer.loadProjectConfig(fromFile) : undefined;
           const analysis = AntlrAnalyzer.analyze(grammarContent);
-          const suspicious = AntlrAnalyzer.detectSuspiciousQuantifiers(analysis);
+          const suspicious = AntlrAnalyzer.applyCheckPolicy(
+            AntlrAnalyzer.detectSuspiciousQuantifiers(analysis),
+            grammarContent,
+            config,
+            (issue) => ({ check: 'quantifier-issue', lineNumber: issue.lineNumber })
+          );
 
           let output = `🔍 Suspicious Quantifier Patterns\n\n`;
+          if (config?.error) output += `⚠️ ${config.error}\n\n`;
           output += `Found ${suspicious.length} potential issue(s)\n\n`;
 
           if (suspicious.length === 0) {
@@ -7099,10 +10025,18 @@ ${writeResult.message}`;
         }
 
         case 'detect-incomplete-parsing': {
+          const fromFile = (argsObj.from_file as string) || undefined;
+          const config = fromFile ? AntlrAnalyzer.loadProjectConfig(fromFile) : undefined;
           const analysis = AntlrAnalyzer.analyze(grammarContent);
-          const incomplete = AntlrAnalyzer.detectIncompleteParsing(analysis);
+          const incomplete = AntlrAnalyzer.applyCheckPolicy(
+            AntlrAnalyzer.detectIncompleteParsing(analysis),
+            grammarContent,
+            config,
+            (issue) => ({ check: 'incomplete-parsing', lineNumber: issue.lineNumber })
+          );
 
           let output = `🚨 Incomplete Parsing Patterns\n\n`;
+          if (config?.error) output += `⚠️ ${config.error}\n\n`;
           output += `Found ${incomplete.length} anti-pattern(s)\n\n`;
 
           if (incomplete.length === 0) {
@@ -7216,7 +10150,7 @@ ${writeResult.message}`;
       isError: true,
     };
   }
-});
+}
 
 /**
  * List available resources (grammar files in examples)
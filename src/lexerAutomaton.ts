@@ -0,0 +1,528 @@
+/**
+ * Lexer Automata
+ *
+ * Compiles lexer rules into one NFA over code point ranges (Thompson
+ * construction) and explores its subset-construction DFA the way the ANTLR
+ * lexer decides between rules: after reading a string, every rule whose
+ * language contains it competes and the rule defined first wins the tie.
+ * Walking the DFA breadth first tells, for every rule, whether any string lets
+ * it win, and gives the shortest string each earlier rule takes from it.
+ *
+ * Supported: literals, ranges, sets (including \p{...} properties), `.`, `~`
+ * negation, fragments and other lexer rules (inlined), blocks and EBNF
+ * suffixes. Non-greedy suffixes are treated as greedy. Actions are ignored;
+ * predicates make a rule unreliable as a shadower, since they can switch it off.
+ */
+
+import { AlternativeNode, GrammarElement } from './grammarParser.js';
+
+/** Sorted, disjoint, inclusive code point ranges */
+type CodePointSet = Array<[number, number]>;
+
+const MAX_CODE_POINT = 0x10ffff;
+
+export interface LexerRuleInput {
+  name: string;
+  alternatives: AlternativeNode[];
+}
+
+export interface LexerShadowing {
+  rule: string;
+  neverWins: boolean; // Every string the rule matches goes to an earlier rule
+  shadowedBy: Array<{ rule: string; example: string }>; // Shortest string each earlier rule takes
+}
+
+export interface LexerShadowingResult {
+  shadowed: LexerShadowing[];
+  skipped: Array<{ rule: string; reason: string }>; // Rules the automaton cannot model
+  truncated: boolean; // The DFA grew past maxStates, so neverWins is never set
+}
+
+interface NfaState {
+  edges: Array<{ set: CodePointSet; to: number }>;
+  epsilon: number[];
+  accept?: number; // Index of the rule that matches when the NFA reaches this state
+}
+
+class UnsupportedConstruct extends Error {}
+
+// Characters used in examples, most readable first
+const PREFERRED_CHARACTERS: CodePointSet = [
+  [0x61, 0x7a],
+  [0x41, 0x5a],
+  [0x30, 0x39],
+  [0x21, 0x7e],
+  [0x20, 0x20],
+];
+
+const propertyCache = new Map<string, CodePointSet>();
+
+/**
+ * Builds the NFA one rule at a time; a fragment is a [start, end] state pair
+ */
+class NfaBuilder {
+  readonly states: NfaState[] = [];
+  predicated = false;
+
+  constructor(
+    private readonly definitions: Map<string, AlternativeNode[]>,
+    private readonly caseInsensitive: boolean
+  ) {}
+
+  state(): number {
+    this.states.push({ edges: [], epsilon: [] });
+    return this.states.length - 1;
+  }
+
+  alternatives(alternatives: AlternativeNode[], expanding: string[]): [number, number] {
+    const start = this.state();
+    const end = this.state();
+    for (const alt of alternatives) {
+      const [altStart, altEnd] = this.sequence(alt.elements, expanding);
+      this.states[start].epsilon.push(altStart);
+      this.states[altEnd].epsilon.push(end);
+    }
+    return [start, end];
+  }
+
+  private sequence(elements: GrammarElement[], expanding: string[]): [number, number] {
+    const start = this.state();
+    let end = start;
+    for (const element of elements) {
+      const [elementStart, elementEnd] = this.element(element, expanding);
+      this.states[end].epsilon.push(elementStart);
+      end = elementEnd;
+    }
+    return [start, end];
+  }
+
+  private element(element: GrammarElement, expanding: string[]): [number, number] {
+    const [start, end] = this.unsuffixed(element, expanding);
+    const suffix = element.suffix?.charAt(0);
+    if (!suffix) return [start, end];
+
+    const entry = this.state();
+    const exit = this.state();
+    this.states[entry].epsilon.push(start);
+    this.states[end].epsilon.push(exit);
+    if (suffix === '?' || suffix === '*') this.states[entry].epsilon.push(exit);
+    if (suffix === '*' || suffix === '+') this.states[end].epsilon.push(start);
+    return [entry, exit];
+  }
+
+  private unsuffixed(element: GrammarElement, expanding: string[]): [number, number] {
+    switch (element.kind) {
+      case 'literal': {
+        const start = this.state();
+        let end = start;
+        for (const codePoint of decodeLiteral(element.value)) {
+          const next = this.state();
+          this.states[end].edges.push({ set: this.cased([[codePoint, codePoint]]), to: next });
+          end = next;
+        }
+        return [start, end];
+      }
+      case 'range':
+      case 'charSet':
+      case 'wildcard':
+      case 'not': {
+        const start = this.state();
+        const end = this.state();
+        this.states[start].edges.push({ set: this.setOf(element, expanding), to: end });
+        return [start, end];
+      }
+      case 'tokenRef':
+      case 'ruleRef':
+        return this.alternatives(this.definition(element.name, expanding), [
+          ...expanding,
+          element.name,
+        ]);
+      case 'block':
+        return this.alternatives(element.alternatives, expanding);
+      case 'predicate':
+      case 'action': {
+        if (element.kind === 'predicate') this.predicated = true;
+        const state = this.state();
+        return [state, state];
+      }
+    }
+  }
+
+  /**
+   * Characters a single-character element matches (the operand of `~` must be one)
+   */
+  private setOf(element: GrammarElement, expanding: string[]): CodePointSet {
+    switch (element.kind) {
+      case 'literal': {
+        const codePoints = decodeLiteral(element.value);
+        if (codePoints.length !== 1) {
+          throw new UnsupportedConstruct(`${element.value} is not a single character`);
+        }
+        return this.cased([[codePoints[0], codePoints[0]]]);
+      }
+      case 'range': {
+        const [from] = decodeLiteral(element.from);
+        const [to] = decodeLiteral(element.to);
+        return this.cased(from <= to ? [[from, to]] : []);
+      }
+      case 'charSet':
+        return this.cased(parseCharSet(element.value));
+      case 'wildcard':
+        return [[0, MAX_CODE_POINT]];
+      case 'not':
+        return complement(this.setOf(element.operand, expanding));
+      case 'block':
+      case 'tokenRef': {
+        const alternatives =
+          element.kind === 'block'
+            ? element.alternatives
+            : this.definition(element.name, expanding);
+        const nested = element.kind === 'block' ? expanding : [...expanding, element.name];
+        return normalize(
+          alternatives.flatMap((alt) => {
+            if (alt.elements.length !== 1 || alt.elements[0].suffix) {
+              throw new UnsupportedConstruct('only single characters can be negated');
+            }
+            return this.setOf(alt.elements[0], nested);
+          })
+        );
+      }
+      default:
+        throw new UnsupportedConstruct(`${element.kind} cannot be used as a character set`);
+    }
+  }
+
+  private definition(name: string, expanding: string[]): AlternativeNode[] {
+    if (expanding.includes(name)) {
+      throw new UnsupportedConstruct(`recursive reference to ${name}`);
+    }
+    const definition = this.definitions.get(name);
+    if (!definition) {
+      throw new UnsupportedConstruct(`reference to undefined lexer rule ${name}`);
+    }
+    return definition;
+  }
+
+  /**
+   * Add the other case of Latin letters under options { caseInsensitive = true; }
+   */
+  private cased(set: CodePointSet): CodePointSet {
+    if (!this.caseInsensitive) return set;
+    const extra: CodePointSet = [];
+    for (const [from, to] of set) {
+      for (let codePoint = from; codePoint <= Math.min(to, 0x24f); codePoint++) {
+        const char = String.fromCodePoint(codePoint);
+        for (const variant of [char.toLowerCase(), char.toUpperCase()]) {
+          if (Array.from(variant).length === 1) {
+            extra.push([variant.codePointAt(0)!, variant.codePointAt(0)!]);
+          }
+        }
+      }
+    }
+    return normalize([...set, ...extra]);
+  }
+}
+
+/**
+ * Compare lexer rules (one mode, in definition order) and report the rules an
+ * earlier rule takes strings from. `definitions` holds every lexer rule and
+ * fragment that references may inline.
+ */
+export function findLexerShadowing(
+  rules: LexerRuleInput[],
+  definitions: Map<string, AlternativeNode[]>,
+  options: { caseInsensitive?: boolean; maxStates?: number } = {}
+): LexerShadowingResult {
+  const builder = new NfaBuilder(definitions, options.caseInsensitive ?? false);
+  const states = builder.states;
+  const start = builder.state();
+  const predicated = new Set<number>();
+  const skipped: Array<{ rule: string; reason: string }> = [];
+
+  rules.forEach((rule, index) => {
+    const mark = states.length;
+    builder.predicated = false;
+    try {
+      const [ruleStart, ruleEnd] = builder.alternatives(rule.alternatives, [rule.name]);
+      states[ruleEnd].accept = index;
+      states[start].epsilon.push(ruleStart);
+      if (builder.predicated) predicated.add(index);
+    } catch (error) {
+      if (!(error instanceof UnsupportedConstruct)) throw error;
+      states.length = mark;
+      skipped.push({ rule: rule.name, reason: error.message });
+    }
+  });
+
+  const closure = (seeds: number[]): number[] => {
+    const seen = new Set(seeds);
+    const stack = [...seeds];
+    while (stack.length > 0) {
+      for (const next of states[stack.pop()!].epsilon) {
+        if (!seen.has(next)) {
+          seen.add(next);
+          stack.push(next);
+        }
+      }
+    }
+    return Array.from(seen).sort((a, b) => a - b);
+  };
+
+  // Breadth first, so the first string that reaches a DFA state is a shortest one
+  const maxStates = options.maxStates ?? 5000;
+  const initial = closure([start]);
+  const examples = new Map<string, string>([[initial.join(','), '']]);
+  const queue = [initial];
+  const wins = new Set<number>();
+  const taken = new Map<number, Map<number, string>>();
+  let truncated = false;
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    const example = examples.get(current.join(','))!;
+
+    // ANTLR never emits an empty token, so the start state decides nothing
+    if (example) {
+      const accepted = Array.from(
+        new Set(current.map((s) => states[s].accept).filter((a): a is number => a !== undefined))
+      ).sort((a, b) => a - b);
+      for (const rule of accepted) {
+        const winner = accepted.find((other) => other < rule && !predicated.has(other));
+        if (winner === undefined) {
+          wins.add(rule);
+        } else {
+          if (!taken.has(rule)) taken.set(rule, new Map());
+          if (!taken.get(rule)!.has(winner)) taken.get(rule)!.set(winner, example);
+        }
+      }
+    }
+
+    for (const { target, codePoint } of transitions(states, current, closure)) {
+      const key = target.join(',');
+      if (examples.has(key)) continue;
+      if (examples.size >= maxStates) {
+        truncated = true;
+        continue;
+      }
+      examples.set(key, example + String.fromCodePoint(codePoint));
+      queue.push(target);
+    }
+  }
+
+  const shadowed = Array.from(taken.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([index, winners]) => ({
+      rule: rules[index].name,
+      neverWins: !truncated && !wins.has(index),
+      shadowedBy: Array.from(winners.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([winner, example]) => ({ rule: rules[winner].name, example })),
+    }));
+
+  return { shadowed, skipped, truncated };
+}
+
+/**
+ * DFA moves out of a set of NFA states: one per target state set, with the most
+ * readable character that leads there
+ */
+function transitions(
+  states: NfaState[],
+  current: number[],
+  closure: (seeds: number[]) => number[]
+): Array<{ target: number[]; codePoint: number }> {
+  const edges = current.flatMap((s) => states[s].edges);
+  const bounds = new Set<number>();
+  for (const edge of edges) {
+    for (const [from, to] of edge.set) {
+      bounds.add(from);
+      bounds.add(to + 1);
+    }
+  }
+  const points = Array.from(bounds).sort((a, b) => a - b);
+
+  const byTarget = new Map<string, { target: number[]; codePoint: number; rank: number }>();
+  const closures = new Map<string, number[]>();
+  for (let i = 0; i + 1 < points.length; i++) {
+    const from = points[i];
+    const to = points[i + 1] - 1;
+    const seeds = edges.filter((edge) => contains(edge.set, from)).map((edge) => edge.to);
+    if (seeds.length === 0) continue;
+
+    const seedKey = seeds.join(',');
+    if (!closures.has(seedKey)) closures.set(seedKey, closure(seeds));
+    const target = closures.get(seedKey)!;
+    const key = target.join(',');
+    const { codePoint, rank } = representative(from, to);
+    const known = byTarget.get(key);
+    if (!known || rank < known.rank) {
+      byTarget.set(key, { target, codePoint, rank });
+    }
+  }
+
+  return Array.from(byTarget.values());
+}
+
+function representative(from: number, to: number): { codePoint: number; rank: number } {
+  for (const [rank, [low, high]] of PREFERRED_CHARACTERS.entries()) {
+    if (low <= to && high >= from) {
+      return { codePoint: Math.max(low, from), rank };
+    }
+  }
+  return { codePoint: from, rank: PREFERRED_CHARACTERS.length };
+}
+
+function contains(set: CodePointSet, codePoint: number): boolean {
+  let low = 0;
+  let high = set.length - 1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (codePoint < set[middle][0]) high = middle - 1;
+    else if (codePoint > set[middle][1]) low = middle + 1;
+    else return true;
+  }
+  return false;
+}
+
+/**
+ * Sort and merge overlapping or adjacent ranges
+ */
+function normalize(ranges: CodePointSet): CodePointSet {
+  const sorted = ranges.filter(([from, to]) => from <= to).sort((a, b) => a[0] - b[0]);
+  const merged: CodePointSet = [];
+  for (const [from, to] of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && from <= last[1] + 1) {
+      last[1] = Math.max(last[1], to);
+    } else {
+      merged.push([from, to]);
+    }
+  }
+  return merged;
+}
+
+function complement(set: CodePointSet): CodePointSet {
+  const result: CodePointSet = [];
+  let next = 0;
+  for (const [from, to] of normalize(set)) {
+    if (from > next) result.push([next, from - 1]);
+    next = to + 1;
+  }
+  if (next <= MAX_CODE_POINT) result.push([next, MAX_CODE_POINT]);
+  return result;
+}
+
+/**
+ * Code points of a lexer literal such as 'a\n' or 'é' (quotes included)
+ */
+function decodeLiteral(raw: string): number[] {
+  const chars = Array.from(raw.slice(1, -1));
+  const codePoints: number[] = [];
+  let i = 0;
+  while (i < chars.length) {
+    const [codePoint, length] = decodeEscape(chars, i);
+    codePoints.push(codePoint);
+    i += length;
+  }
+  return codePoints;
+}
+
+/**
+ * Decode the character at chars[i], which may start an escape sequence;
+ * returns the code point and how many characters it took
+ */
+function decodeEscape(chars: string[], i: number): [number, number] {
+  if (chars[i] !== '\\' || i + 1 >= chars.length) {
+    return [chars[i].codePointAt(0)!, 1];
+  }
+  const escaped: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12 };
+  const next = chars[i + 1];
+  if (next in escaped) return [escaped[next], 2];
+  if (next === 'u') {
+    if (chars[i + 2] === '{') {
+      const close = chars.indexOf('}', i + 3);
+      if (close > 0) {
+        return [parseInt(chars.slice(i + 3, close).join(''), 16), close - i + 1];
+      }
+    } else {
+      const hex = chars.slice(i + 2, i + 6).join('');
+      if (/^[0-9a-fA-F]{4}$/.test(hex)) return [parseInt(hex, 16), 6];
+    }
+  }
+  return [next.codePointAt(0)!, 2];
+}
+
+/**
+ * Characters of a lexer set such as [a-zA-Z_À-ÿ\p{L}] (brackets included)
+ */
+function parseCharSet(raw: string): CodePointSet {
+  const chars = Array.from(raw.slice(1, -1));
+  const ranges: CodePointSet = [];
+  let i = 0;
+
+  const property = (): CodePointSet | undefined => {
+    if (
+      chars[i] !== '\\' ||
+      (chars[i + 1] !== 'p' && chars[i + 1] !== 'P') ||
+      chars[i + 2] !== '{'
+    ) {
+      return undefined;
+    }
+    const close = chars.indexOf('}', i + 3);
+    if (close < 0) throw new UnsupportedConstruct(`unterminated property in ${raw}`);
+    const set = unicodeProperty(chars.slice(i + 3, close).join(''));
+    const negated = chars[i + 1] === 'P';
+    i = close + 1;
+    return negated ? complement(set) : set;
+  };
+
+  while (i < chars.length) {
+    const set = property();
+    if (set) {
+      ranges.push(...set);
+      continue;
+    }
+    const [from, length] = decodeEscape(chars, i);
+    i += length;
+    if (chars[i] === '-' && i + 1 < chars.length) {
+      const [to, toLength] = decodeEscape(chars, i + 1);
+      i += 1 + toLength;
+      ranges.push([from, to]);
+    } else {
+      ranges.push([from, from]);
+    }
+  }
+
+  return normalize(ranges);
+}
+
+/**
+ * Code points with a Unicode property, as far as JavaScript knows it
+ * (scripts are accepted by bare name, as ANTLR does)
+ */
+function unicodeProperty(name: string): CodePointSet {
+  const cached = propertyCache.get(name);
+  if (cached) return cached;
+
+  let pattern: RegExp | undefined;
+  for (const candidate of [name, `Script=${name}`]) {
+    try {
+      pattern = new RegExp(`^\\p{${candidate}}$`, 'u');
+      break;
+    } catch {
+      // Try the next spelling
+    }
+  }
+  if (!pattern) throw new UnsupportedConstruct(`unknown Unicode property ${name}`);
+
+  const set: CodePointSet = [];
+  for (let codePoint = 0; codePoint <= MAX_CODE_POINT; codePoint++) {
+    if (pattern.test(String.fromCodePoint(codePoint))) {
+      const last = set[set.length - 1];
+      if (last && last[1] === codePoint - 1) last[1] = codePoint;
+      else set.push([codePoint, codePoint]);
+    }
+  }
+  propertyCache.set(name, set);
+  return set;
+}
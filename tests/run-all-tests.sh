@@ -30,6 +30,31 @@ run_test "Timeout Prevention" "test-validate-timeout.cjs"
 run_test "Output Limiting Features" "test-output-limiting.cjs"
 run_test "Diff Output Mode" "test-diff-output.cjs"
 run_test "Multi-File Rename" "multi-file-rename/test-multifile-rename.cjs"
+run_test "Grammar Parser" "test-grammar-parser.cjs"
+run_test "Tokens and Channels Blocks" "test-tokens-channels.cjs"
+run_test "Rule Signatures" "test-rule-signatures.cjs"
+run_test "Alternative and Element Labels" "test-labels.cjs"
+run_test "Actions and Target Language" "test-actions.cjs"
+run_test "tokenVocab Resolution" "test-token-vocab.cjs"
+run_test "ANTLR Tool Semantics" "test-tool-semantics.cjs"
+run_test "Nullability Analysis" "test-nullability.cjs"
+run_test "Decision Conflicts" "test-decision-conflicts.cjs"
+run_test "Left Recursion" "test-left-recursion.cjs"
+run_test "Lexer Commands" "test-lexer-commands.cjs"
+run_test "Lexer Shadowing" "test-lexer-shadowing.cjs"
+run_test "Dead Code" "test-dead-code.cjs"
+run_test "Project Config" "test-project-config.cjs"
+run_test "Baseline" "test-baseline.cjs"
+run_test "Extract Rule" "test-extract-rule.cjs"
+run_test "Left Factor" "test-left-factor.cjs"
+run_test "Literals to Tokens" "test-literals-to-tokens.cjs"
+run_test "Split Grammar" "test-split-grammar.cjs"
+run_test "Combine Grammars" "test-combine-grammars.cjs"
+run_test "Flatten Imports" "test-flatten-imports.cjs"
+run_test "Move Rule To File" "test-move-rule-to-file.cjs"
+run_test "Rename / Remove Mode" "test-rename-remove-mode.cjs"
+run_test "Apply Edits" "test-apply-edits.cjs"
+run_test "Edit History" "test-edit-history.cjs"
 run_test "Lexer Modes" "test-lexer-modes.cjs"
 run_test "Analysis Tools" "test-analysis-tools.cjs"
 run_test "Regression Fixes" "test-regression-fixes.cjs"
@@ -0,0 +1,125 @@
+#!/usr/bin/env node
+
+/**
+ * Test the action inventory and target-language detection
+ */
+
+const { AntlrAnalyzer } = require('../dist/antlrAnalyzer.js');
+
+let passCount = 0;
+let failCount = 0;
+
+function assert(condition, testName, details = '') {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+    passCount++;
+  } else {
+    console.log(`❌ FAIL: ${testName}`);
+    if (details) console.log(`   ${details}`);
+    failCount++;
+  }
+}
+
+console.log('Starting action tests...\n');
+
+const javaGrammar = `grammar Calc;
+options { language = Java; }
+@header { package com.example.calc; }
+@parser::members { boolean strict = false; }
+prog @init { int count = 0; } : stat+ ;
+stat : expr ';' { System.out.println($expr.text); }
+     | {strict}? ID
+     ;
+     catch [RecognitionException e] { throw e; }
+expr : INT ;
+ID : [a-z]+ ;
+INT : [0-9]+ ;
+`;
+
+// Test 1: Inventory
+console.log('Test 1: Action inventory');
+const analysis = AntlrAnalyzer.analyze(javaGrammar);
+const summary = analysis.actions.map((a) => `${a.kind}:${a.name || ''}:${a.ruleName || ''}`);
+assert(
+  summary.join(',') ===
+    'named:header:,named:members:,rule:init:prog,action::stat,predicate::stat,handler:catch:stat',
+  'Collects every kind of action in source order',
+  summary.join(',')
+);
+const members = analysis.actions[1];
+assert(
+  members.scope === 'parser' && members.lineNumber === 4 && members.column === 0,
+  'Records scope and location of named actions'
+);
+assert(
+  analysis.actions[4].code === 'strict' && analysis.actions[4].lineNumber === 7,
+  'Records predicate code and line'
+);
+
+// Test 2: Target language
+console.log('\nTest 2: Target language detection');
+assert(
+  analysis.targetLanguage.declared === 'Java' && analysis.targetLanguage.inferred === 'Java',
+  'Declared and inferred language agree',
+  JSON.stringify(analysis.targetLanguage)
+);
+assert(
+  !analysis.issues.some((i) => i.message.includes('targets')),
+  'No mismatch reported for consistent code'
+);
+
+const mixed = `grammar Mixed;
+options { language = Python3; }
+@members {
+def helper(self):
+    return None
+}
+start : ID { System.out.println("self.x"); } ;
+ID : [a-z]+ ;
+`;
+const mixedAnalysis = AntlrAnalyzer.analyze(mixed);
+const mismatches = mixedAnalysis.issues.filter((i) => i.message.includes('targets Python3'));
+assert(
+  mismatches.length === 1 &&
+    mismatches[0].ruleName === 'start' &&
+    mismatches[0].message.includes('looks like Java (System.out/err)'),
+  'Reports actions written for another target (ignoring string contents)',
+  JSON.stringify(mismatches)
+);
+
+const undeclared = AntlrAnalyzer.analyze(`grammar T;
+start : ID { const n: number = 1; console.log(n); } ;
+ID : [a-z]+ ;
+`);
+assert(
+  undeclared.targetLanguage.inferred === 'TypeScript' &&
+    undeclared.issues.some((i) => i.message.includes('no language option')),
+  'Suggests a language option when the code is not Java',
+  JSON.stringify(undeclared.targetLanguage)
+);
+
+// Test 3: Refactorings keep actions
+console.log('\nTest 3: Refactorings keep actions');
+const sorted = AntlrAnalyzer.sortRules(javaGrammar, 'alphabetical');
+const sortedActions = AntlrAnalyzer.analyze(sorted.modified).actions;
+assert(
+  sorted.success && sortedActions.length === analysis.actions.length,
+  'sort-rules keeps all actions',
+  sorted.message
+);
+const moved = AntlrAnalyzer.moveRule(javaGrammar, 'prog', 'after', 'expr');
+assert(
+  moved.success && AntlrAnalyzer.analyze(moved.modified).actions.length === analysis.actions.length,
+  'move-rule keeps all actions',
+  moved.message
+);
+
+// Summary
+console.log('\n========================================');
+console.log('  Action Test Summary');
+console.log('========================================');
+console.log(`Passed: ${passCount}`);
+console.log(`Failed: ${failCount}`);
+console.log('========================================');
+
+process.exit(failCount > 0 ? 1 : 0);
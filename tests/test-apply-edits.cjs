@@ -0,0 +1,239 @@
+#!/usr/bin/env node
+
+/**
+ * Test applying a batch of edits as one validated transaction
+ */
+
+const { AntlrAnalyzer } = require('../dist/antlrAnalyzer.js');
+const fs = require('fs');
+const path = require('path');
+const os = require('os');
+
+let passCount = 0;
+let failCount = 0;
+
+function assert(condition, testName, details = '') {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+    passCount++;
+  } else {
+    console.log(`❌ FAIL: ${testName}`);
+    if (details) console.log(`   ${details}`);
+    failCount++;
+  }
+}
+
+console.log('Starting apply-edits tests...\n');
+
+const grammar = `grammar Calc;
+
+prog : stat+ EOF ;
+stat : expr SEMI ;
+expr : atom (PLUS atom)* ;
+atom : INT | LPAREN expr RPAREN ;
+
+SEMI : ';' ;
+PLUS : '+' ;
+LPAREN : '(' ;
+RPAREN : ')' ;
+INT : [0-9]+ ;
+WS : [ \\t\\r\\n]+ -> skip ;
+`;
+
+// Test 1: A batch of edits
+console.log('Test 1: Applying edits in order');
+{
+  const result = AntlrAnalyzer.applyEdits(grammar, [
+    { op: 'add-rule', ruleName: 'MINUS', pattern: "'-'", insertAfter: 'PLUS' },
+    { op: 'update-rule', ruleName: 'expr', newDefinition: 'atom ((PLUS | MINUS) atom)*' },
+    { op: 'rename-rule', oldName: 'expr', newName: 'expression' },
+    { op: 'add-rule', ruleName: 'neg', definition: 'MINUS atom', insertAfter: 'atom' },
+    { op: 'update-rule', ruleName: 'atom', newDefinition: 'INT | neg | LPAREN expression RPAREN' },
+    { op: 'move-rule', ruleName: 'atom', position: 'before', anchorRule: 'expression' },
+  ]);
+  assert(result.success, 'Batch is applied', result.message + JSON.stringify(result.results));
+  assert(
+    result.results.length === 6 && result.results.every((r) => r.success),
+    'Every edit reports its result'
+  );
+  const names = AntlrAnalyzer.analyze(result.modified).rules.map((r) => r.name);
+  assert(
+    names.slice(0, 5).join() === 'prog,stat,atom,expression,neg' && names.indexOf('MINUS') === names.indexOf('PLUS') + 1,
+    'Later edits see the result of earlier ones',
+    names.join()
+  );
+  assert(
+    result.modified.includes('stat : expression SEMI ;') &&
+      result.modified.includes('LPAREN expression RPAREN'),
+    'Rename updates references, including those added by earlier edits',
+    result.modified
+  );
+  assert(result.newIssues.length === 0, 'No new validation issues', JSON.stringify(result.newIssues));
+}
+
+// Test 2: A failing edit applies nothing
+console.log('\nTest 2: Failing edits');
+{
+  const result = AntlrAnalyzer.applyEdits(grammar, [
+    { op: 'add-rule', ruleName: 'MINUS', pattern: "'-'" },
+    { op: 'remove-rule', ruleName: 'missing' },
+    { op: 'remove-rule', ruleName: 'atom' },
+  ]);
+  assert(!result.success && result.modified === grammar, 'Nothing is applied when an edit fails');
+  assert(
+    result.results.length === 2 && result.message.startsWith('Edit 2 (remove-rule) failed'),
+    'Processing stops at the failing edit',
+    result.message
+  );
+  const noPattern = AntlrAnalyzer.applyEdits(grammar, [{ op: 'add-rule', ruleName: 'DOT' }]);
+  assert(!noPattern.success && noPattern.message.includes('needs a pattern'), 'Lexer rule needs a pattern');
+}
+
+// Test 3: Validation
+console.log('\nTest 3: Validation');
+{
+  const broken = AntlrAnalyzer.applyEdits(grammar, [
+    { op: 'update-rule', ruleName: 'stat', newDefinition: 'expr SEMI (' },
+  ]);
+  assert(
+    !broken.success && broken.message.includes('introduce 1 error'),
+    'Edits that introduce errors fail validation',
+    broken.message
+  );
+  assert(
+    broken.newIssues.some((i) => i.type === 'error' && i.code === 50),
+    'New errors are returned',
+    JSON.stringify(broken.newIssues)
+  );
+
+  const undefinedRule = [{ op: 'update-rule', ruleName: 'stat', newDefinition: 'expr SEMI | assign' }];
+  const lenient = AntlrAnalyzer.applyEdits(grammar, undefinedRule);
+  assert(
+    lenient.success && lenient.newIssues.some((i) => i.message.includes('assign')),
+    'New warnings are reported without failing'
+  );
+  const strict = AntlrAnalyzer.applyEdits(grammar, undefinedRule, { strict: true });
+  assert(
+    !strict.success && strict.message.includes('error(s) or warning(s)'),
+    'Strict validation fails on new warnings',
+    strict.message
+  );
+
+  const alreadyBroken = grammar.replace('atom : INT', 'atom : FLOAT | INT');
+  const unrelated = AntlrAnalyzer.applyEdits(alreadyBroken, [
+    { op: 'add-rule', ruleName: 'MINUS', pattern: "'-'", insertBefore: 'SEMI' },
+  ]);
+  assert(unrelated.success, 'Existing errors do not block unrelated edits', unrelated.message);
+
+  const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'antlr-apply-'));
+  try {
+    fs.writeFileSync(path.join(testDir, 'CalcLexer.g4'), "lexer grammar CalcLexer;\nNUM : [0-9]+ ;\nDOT : '.' ;\n");
+    const parser = 'parser grammar CalcParser;\noptions { tokenVocab = CalcLexer; }\nnum : NUM ;\n';
+    fs.writeFileSync(path.join(testDir, 'CalcParser.g4'), parser);
+    const edits = [{ op: 'add-rule', ruleName: 'decimal', definition: 'NUM DOT NUM' }];
+    const withVocab = AntlrAnalyzer.applyEdits(parser, edits, {
+      filePath: path.join(testDir, 'CalcParser.g4'),
+    });
+    assert(withVocab.success, 'Tokens from the tokenVocab grammar are known with filePath', withVocab.message);
+    const unknown = [{ op: 'add-rule', ruleName: 'bad', definition: 'NUM COMMA' }];
+    const options = { filePath: path.join(testDir, 'CalcParser.g4') };
+    assert(AntlrAnalyzer.applyEdits(parser, unknown, options).success, 'Missing vocab token is a warning');
+    fs.writeFileSync(path.join(testDir, '.antlr4-mcp.json'), '{ "checks": { "antlr-125": "error" } }');
+    const configured = AntlrAnalyzer.applyEdits(parser, unknown, options);
+    assert(
+      !configured.success && configured.newIssues.some((i) => i.code === 125 && i.type === 'error'),
+      'Project config severities apply',
+      JSON.stringify(configured.newIssues)
+    );
+  } finally {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  }
+}
+
+// Test 4: Renames reach imported grammars
+console.log('\nTest 4: Edits across imported grammars');
+{
+  const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'antlr-apply-'));
+  try {
+    const commonPath = path.join(testDir, 'Common.g4');
+    const mainPath = path.join(testDir, 'Main.g4');
+    fs.writeFileSync(commonPath, 'parser grammar Common;\nvalue : NUM ;\n');
+    const main = "grammar Main;\nimport Common;\nprog : value+ EOF ;\nNUM : [0-9]+ ;\nCOMMA : ',' ;\n";
+    fs.writeFileSync(mainPath, main);
+
+    const result = AntlrAnalyzer.applyEdits(
+      main,
+      [
+        { op: 'add-rule', ruleName: 'list', definition: 'value (COMMA value)*' },
+        { op: 'rename-rule', oldName: 'value', newName: 'item' },
+      ],
+      { filePath: mainPath }
+    );
+    assert(result.success, 'Rename of an imported rule is applied', result.message);
+    assert(
+      result.modified.includes('prog : item+ EOF ;') && result.modified.includes('item (COMMA item)*'),
+      'References in the main grammar are renamed, including added ones',
+      result.modified
+    );
+    assert(
+      result.importedFiles.length === 1 &&
+        result.importedFiles[0].filePath === path.resolve(commonPath) &&
+        result.importedFiles[0].content === 'parser grammar Common;\nitem : NUM ;\n',
+      'The imported grammar defining the rule is returned renamed',
+      JSON.stringify(result.importedFiles)
+    );
+    assert(
+      fs.readFileSync(commonPath, 'utf-8').includes('value : NUM'),
+      'Nothing is written by applyEdits'
+    );
+
+    const local = AntlrAnalyzer.applyEdits(main, [{ op: 'rename-rule', oldName: 'prog', newName: 'program' }], {
+      filePath: mainPath,
+    });
+    assert(
+      local.success && local.modified.includes('program : value+') && local.importedFiles.length === 0,
+      'A rename within the main grammar leaves imported grammars alone',
+      JSON.stringify(local.importedFiles)
+    );
+
+    const clash = AntlrAnalyzer.applyEdits(
+      main,
+      [
+        { op: 'rename-rule', oldName: 'value', newName: 'item' },
+        { op: 'rename-rule', oldName: 'prog', newName: 'item' },
+      ],
+      { filePath: mainPath }
+    );
+    assert(
+      !clash.success && clash.importedFiles.length === 0 && clash.modified === main,
+      'A later failing edit drops the renamed imported grammars too',
+      clash.message
+    );
+
+    const broken = AntlrAnalyzer.applyEdits(
+      main,
+      [
+        { op: 'rename-rule', oldName: 'value', newName: 'item' },
+        { op: 'update-rule', ruleName: 'prog', newDefinition: 'value+ EOF' },
+      ],
+      { filePath: mainPath, strict: true }
+    );
+    assert(
+      !broken.success && broken.newIssues.some((i) => i.message.includes('value')),
+      'Validation sees the renamed imported grammar',
+      JSON.stringify(broken.newIssues)
+    );
+  } finally {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  }
+}
+
+// Summary
+console.log('\n========================================');
+console.log('  Apply Edits Test Summary');
+console.log('========================================');
+console.log(`Passed: ${passCount}`);
+console.log(`Failed: ${failCount}`);
+console.log('========================================');
+
+process.exit(failCount > 0 ? 1 : 0);
@@ -0,0 +1,169 @@
+#!/usr/bin/env node
+
+/**
+ * Test issue baselines: fingerprinting, comparison and the baseline file
+ */
+
+const { AntlrAnalyzer } = require('../dist/antlrAnalyzer.js');
+const fs = require('fs');
+const path = require('path');
+const os = require('os');
+
+let passCount = 0;
+let failCount = 0;
+
+function assert(condition, testName, details = '') {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+    passCount++;
+  } else {
+    console.log(`❌ FAIL: ${testName}`);
+    if (details) console.log(`   ${details}`);
+    failCount++;
+  }
+}
+
+console.log('Starting baseline tests...\n');
+
+const legacy = `grammar Legacy;
+prog : stat+ EOF ;
+stat : ID '=' VALUE ';' | ID '=' VALUE ';' MISSING ;
+old : ID ;
+ID : [a-z]+ ;
+WS : [ \\t\\r\\n]+ -> skip ;
+`;
+const legacyIssues = AntlrAnalyzer.analyze(legacy).issues;
+
+// Test 1: Fingerprints ignore line numbers and count duplicates
+console.log('Test 1: Creating a baseline');
+const baseline = AntlrAnalyzer.createIssueBaseline(legacyIssues, 'Legacy');
+{
+  assert(baseline.version === 1 && baseline.grammar === 'Legacy', 'Baseline has version and grammar');
+  const value = baseline.issues.find((e) => e.message === 'Reference to undefined rule: VALUE');
+  assert(
+    value && value.category === 'antlr-125' && value.rule === 'stat' && value.count === 1,
+    'Undefined token is fingerprinted by check id and rule',
+    JSON.stringify(baseline.issues)
+  );
+  assert(
+    baseline.issues.some((e) => e.category === 'unused-rule' && e.rule === 'old'),
+    'Uncoded issues use their check id'
+  );
+  assert(
+    baseline.issues.every((e) => !('lineNumber' in e)),
+    'Entries carry no line numbers'
+  );
+  const twice = AntlrAnalyzer.createIssueBaseline([...legacyIssues, legacyIssues[0]]);
+  assert(
+    twice.issues.find((e) => e.message === legacyIssues[0].message).count === 2,
+    'Identical issues are counted'
+  );
+  const masked = AntlrAnalyzer.createIssueBaseline([
+    { type: 'error', message: 'Rule x redefinition; previous at line 12', ruleName: 'x', code: 51 },
+  ]);
+  assert(
+    masked.issues[0].message === 'Rule x redefinition; previous at line N',
+    'Line numbers inside messages are masked',
+    masked.issues[0].message
+  );
+}
+
+// Test 2: Moving code keeps issues known; new and fixed issues are separated
+console.log('\nTest 2: Comparing with a baseline');
+{
+  const moved = `grammar Legacy;
+
+// Statements
+prog : stat+ EOF ;
+
+stat : ID '=' VALUE ';' | ID '=' VALUE ';' MISSING ;
+old : ID ;
+ID : [a-z]+ ;
+WS : [ \\t\\r\\n]+ -> skip ;
+`;
+  const same = AntlrAnalyzer.compareWithBaseline(AntlrAnalyzer.analyze(moved).issues, baseline);
+  assert(
+    same.newIssues.length === 0 && same.fixed.length === 0 && same.knownCount === legacyIssues.length,
+    'Shifted lines do not create new issues',
+    JSON.stringify(same.newIssues)
+  );
+
+  const changed = `grammar Legacy;
+prog : stat+ EOF ;
+stat : ID '=' VALUE ';' | ID '=' VALUE ';' OTHER ;
+old : ID ;
+ID : [a-z]+ ;
+WS : [ \\t\\r\\n]+ -> skip ;
+`;
+  const diff = AntlrAnalyzer.compareWithBaseline(AntlrAnalyzer.analyze(changed).issues, baseline);
+  assert(
+    diff.newIssues.length === 1 && diff.newIssues[0].message.includes('OTHER'),
+    'Only the new problem is reported',
+    JSON.stringify(diff.newIssues.map((i) => i.message))
+  );
+  assert(
+    diff.fixed.length === 1 && diff.fixed[0].message.includes('MISSING'),
+    'Issue that went away is listed as fixed',
+    JSON.stringify(diff.fixed)
+  );
+
+  const partial = AntlrAnalyzer.compareWithBaseline(
+    [legacyIssues[0]],
+    AntlrAnalyzer.createIssueBaseline([legacyIssues[0], legacyIssues[0], legacyIssues[0]])
+  );
+  assert(
+    partial.knownCount === 1 && partial.fixed[0].count === 2,
+    'Fixed count reports how many occurrences went away'
+  );
+  const extra = AntlrAnalyzer.compareWithBaseline(
+    [legacyIssues[0], legacyIssues[0]],
+    AntlrAnalyzer.createIssueBaseline([legacyIssues[0]])
+  );
+  assert(extra.newIssues.length === 1, 'Occurrences beyond the baseline count are new');
+}
+
+// Test 3: Baseline files
+console.log('\nTest 3: Baseline files');
+const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'antlr-baseline-'));
+try {
+  const file = path.join(testDir, 'baseline.json');
+  const missing = AntlrAnalyzer.readIssueBaseline(file);
+  assert(!missing.baseline && missing.error.includes('not found'), 'Missing file is reported');
+
+  const written = AntlrAnalyzer.writeIssueBaseline(file, baseline);
+  assert(written.success && written.message.includes(`${legacyIssues.length} issue(s)`), 'Baseline is written', written.message);
+  const read = AntlrAnalyzer.readIssueBaseline(file);
+  assert(
+    read.baseline && JSON.stringify(read.baseline) === JSON.stringify(baseline),
+    'Written baseline reads back unchanged'
+  );
+  const again = AntlrAnalyzer.createIssueBaseline([...legacyIssues].reverse(), 'Legacy');
+  assert(JSON.stringify(again) === JSON.stringify(baseline), 'Entry order is stable');
+
+  fs.writeFileSync(file, JSON.stringify({ version: 2, issues: [] }));
+  const wrongVersion = AntlrAnalyzer.readIssueBaseline(file);
+  assert(!wrongVersion.baseline && wrongVersion.error.includes('version 1'), 'Unknown format is rejected');
+  fs.writeFileSync(file, '{ not json');
+  const broken = AntlrAnalyzer.readIssueBaseline(file);
+  assert(!broken.baseline && broken.error.includes('Cannot read baseline'), 'Invalid JSON is rejected');
+  fs.writeFileSync(
+    file,
+    JSON.stringify({ version: 1, issues: [{ category: 'unused-rule', rule: 'a', message: 'x', count: 0 }] })
+  );
+  const badEntry = AntlrAnalyzer.readIssueBaseline(file);
+  assert(!badEntry.baseline && badEntry.error.includes('version 1'), 'Malformed entries are rejected');
+  fs.writeFileSync(file, JSON.stringify([{ version: 1 }]));
+  assert(!AntlrAnalyzer.readIssueBaseline(file).baseline, 'Non-object JSON is rejected');
+} finally {
+  fs.rmSync(testDir, { recursive: true, force: true });
+}
+
+// Summary
+console.log('\n========================================');
+console.log('  Baseline Test Summary');
+console.log('========================================');
+console.log(`Passed: ${passCount}`);
+console.log(`Failed: ${failCount}`);
+console.log('========================================');
+
+process.exit(failCount > 0 ? 1 : 0);
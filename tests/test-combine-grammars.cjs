@@ -0,0 +1,192 @@
+#!/usr/bin/env node
+
+/**
+ * Test merging a parser grammar and its lexer grammar into a combined grammar
+ */
+
+const { AntlrAnalyzer } = require('../dist/antlrAnalyzer.js');
+const { parseGrammar } = require('../dist/grammarParser.js');
+
+let passCount = 0;
+let failCount = 0;
+
+function assert(condition, testName, details = '') {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+    passCount++;
+  } else {
+    console.log(`❌ FAIL: ${testName}`);
+    if (details) console.log(`   ${details}`);
+    failCount++;
+  }
+}
+
+console.log('Starting combine-grammars tests...\n');
+
+const parserGrammar = `// Calculator parser
+parser grammar CalcParser;
+
+options { tokenVocab = CalcLexer; language = Java; superClass = Base; }
+
+tokens { INDENT }
+
+@header { package calc; }
+@members { int x; }
+
+// Entry point
+prog : stat+ EOF ;
+stat : expr SEMI | ID ASSIGN expr SEMI ;
+expr : expr (MUL | DIV) expr | INT | LPAREN expr RPAREN ;
+`;
+
+const lexerGrammar = `lexer grammar CalcLexer;
+
+options { language = Java; caseInsensitive = true; }
+
+tokens { DEDENT }
+
+@members { int depth; }
+@lexer::header { package calc; }
+
+// Operators
+SEMI : ';' ;
+ASSIGN : '=' ;
+MUL : '*' ;
+DIV : '/' ;
+LPAREN : '(' ;
+RPAREN : ')' ;
+ID : [a-z]+ ;
+INT : [0-9]+ ;
+WS : [ \\t\\r\\n]+ -> skip ;
+`;
+
+// Test 1: Combining a pair
+console.log('Test 1: Combining');
+const result = AntlrAnalyzer.combineGrammars(parserGrammar, lexerGrammar);
+const ast = parseGrammar(result.content);
+{
+  assert(result.success, 'Grammars are combined', result.message);
+  assert(
+    result.name === 'Calc' && ast.type === 'combined' && ast.name === 'Calc',
+    'Combined grammar is named after the parser without its Parser suffix'
+  );
+  assert(ast.errors.length === 0, 'Combined grammar parses', JSON.stringify(ast.errors));
+  assert(
+    ast.rules.map((r) => r.name).join(',') ===
+      'prog,stat,expr,SEMI,ASSIGN,MUL,DIV,LPAREN,RPAREN,ID,INT,WS',
+    'Parser rules come first, lexer rules keep their order'
+  );
+  assert(
+    result.content.startsWith('// Calculator parser\ngrammar Calc;'),
+    'Parser grammar header comment is kept'
+  );
+  assert(result.content.includes('// Operators\nSEMI'), 'Comments above the lexer rules are kept');
+  const named = AntlrAnalyzer.combineGrammars(parserGrammar, lexerGrammar, { grammarName: 'Calculator' });
+  assert(named.content.includes('grammar Calculator;'), 'Grammar name can be chosen');
+}
+
+// Test 2: Options, tokens and actions
+console.log('\nTest 2: Options, tokens and actions');
+{
+  assert(
+    result.content.includes(
+      'options { language = Java; superClass = Base; caseInsensitive = true; }'
+    ),
+    'Options are merged without tokenVocab',
+    result.content
+  );
+  assert(
+    ast.tokens.map((t) => t.name).join() === 'INDENT,DEDENT',
+    'tokens {} are merged'
+  );
+  const actions = ast.namedActions.map((a) => `${a.scope ? `${a.scope}::` : ''}${a.name}`);
+  assert(
+    actions.join() === 'header,members,lexer::members,lexer::header',
+    'Lexer actions are scoped with @lexer::',
+    actions.join()
+  );
+
+  const vocabOnly = AntlrAnalyzer.combineGrammars(
+    'parser grammar PParser;\noptions { tokenVocab=PLexer; }\na : X ;\n',
+    "lexer grammar PLexer;\nX : 'x' ;\n"
+  );
+  assert(
+    vocabOnly.content === "grammar P;\na : X ;\n\nX : 'x' ;\n",
+    'Options block goes away when only tokenVocab was set',
+    JSON.stringify(vocabOnly.content)
+  );
+}
+
+// Test 3: Round trip with split-grammar
+console.log('\nTest 3: Round trip');
+{
+  const combined = `grammar Expr;
+options { language = Java; }
+@lexer::members { int depth; }
+prog : expr EOF ;
+expr : expr '+' expr | NUM ;
+NUM : [0-9]+ ;
+WS : [ \\t]+ -> skip ;
+`;
+  const split = AntlrAnalyzer.splitGrammar(combined);
+  const back = AntlrAnalyzer.combineGrammars(split.parser.content, split.lexer.content);
+  const backAst = parseGrammar(back.content);
+  assert(back.success && back.name === 'Expr', 'Split grammars combine again', back.message);
+  assert(
+    backAst.rules.map((r) => r.name).join() === 'prog,expr,ADD,NUM,WS' &&
+      backAst.namedActions.map((a) => `${a.scope}::${a.name}`).join() === 'lexer::members' &&
+      backAst.options.map((o) => o.name).join() === 'language',
+    'Round trip keeps rules, actions and options',
+    back.content
+  );
+}
+
+// Test 4: Refusals
+console.log('\nTest 4: Refusals');
+{
+  const parser = 'parser grammar P;\noptions { tokenVocab=L; language=Java; }\na : A ;\n';
+  const modes = AntlrAnalyzer.combineGrammars(
+    parser,
+    "lexer grammar L;\nA : '<' -> pushMode(TAG) ;\nmode TAG;\nB : '>' -> popMode ;\n"
+  );
+  assert(
+    !modes.success && modes.message.includes('mode(s) TAG') && modes.message.includes('only allowed in lexer grammars'),
+    'Lexer modes are refused with an explanation',
+    modes.message
+  );
+  const channels = AntlrAnalyzer.combineGrammars(parser, "lexer grammar L;\nchannels { C }\nA : 'a' ;\n");
+  assert(!channels.success && channels.message.includes('channels { C }'), 'channels {} are refused');
+  const superClass = AntlrAnalyzer.combineGrammars(
+    parser,
+    "lexer grammar L;\noptions { superClass = LexerBase; }\nA : 'a' ;\n"
+  );
+  assert(
+    !superClass.success && superClass.message.includes('superClass = LexerBase'),
+    'Lexer superClass is refused'
+  );
+  const conflict = AntlrAnalyzer.combineGrammars(parser, "lexer grammar L;\noptions { language=Go; }\nA : 'a' ;\n");
+  assert(
+    !conflict.success && conflict.message.includes('language (Java / Go)'),
+    'Conflicting options are refused'
+  );
+  const collision = AntlrAnalyzer.combineGrammars(
+    'parser grammar P;\ntokens { F }\na : A ;\n',
+    "lexer grammar L;\nfragment F : 'f' ;\nA : 'a' ;\n"
+  );
+  assert(
+    !collision.success && collision.message.includes('name collision(s)') && collision.message.includes('F'),
+    'Name collisions are refused'
+  );
+  const swapped = AntlrAnalyzer.combineGrammars("lexer grammar L;\nA : 'a' ;\n", parser);
+  assert(!swapped.success && swapped.message.includes('Expected a parser grammar'), 'Grammar kinds are checked');
+}
+
+// Summary
+console.log('\n========================================');
+console.log('  Combine Grammars Test Summary');
+console.log('========================================');
+console.log(`Passed: ${passCount}`);
+console.log(`Failed: ${failCount}`);
+console.log('========================================');
+
+process.exit(failCount > 0 ? 1 : 0);
@@ -0,0 +1,152 @@
+#!/usr/bin/env node
+
+/**
+ * Test the dead-code report and its removal mode
+ */
+
+const { AntlrAnalyzer } = require('../dist/antlrAnalyzer.js');
+const fs = require('fs');
+const path = require('path');
+const os = require('os');
+
+let passCount = 0;
+let failCount = 0;
+
+function assert(condition, testName, details = '') {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+    passCount++;
+  } else {
+    console.log(`❌ FAIL: ${testName}`);
+    if (details) console.log(`   ${details}`);
+    failCount++;
+  }
+}
+
+console.log('Starting dead code tests...\n');
+
+const grammar = `grammar Dead;
+tokens { VIRTUAL, UNUSED }
+prog : stat* EOF ;
+stat : ID '=' expr ';' | VIRTUAL ;
+expr : INT | helper ;
+helper : ID ;
+cycleA : cycleB ;
+cycleB : cycleA | ID ;
+ID : LETTER+ ;
+INT : DIGIT+ ;
+FLOAT : DIGIT+ '.' DIGIT* EXP? ;
+SEMI : ';' ;
+WS : [ \\t]+ -> skip ;
+OPEN : '<<' -> pushMode(INSIDE) ;
+fragment LETTER : [a-z] ;
+fragment DIGIT : [0-9] ;
+fragment EXP : 'e' DIGIT+ ;
+mode INSIDE;
+CLOSE : '>>' -> popMode ;
+mode NEVER;
+NOPE : 'x' ;
+`;
+const result = AntlrAnalyzer.findDeadCode(AntlrAnalyzer.analyze(grammar));
+const dead = new Map(result.dead.map((d) => [d.name, d]));
+
+// Test 1: Reachability
+console.log('Test 1: Reachability from inferred start rules');
+assert(
+  result.inferredStart && result.startRules.join(',') === 'prog',
+  'Start rules are the parser rules nobody references',
+  result.startRules.join(',')
+);
+assert(
+  dead.has('cycleA') && dead.has('cycleB') && !dead.has('helper'),
+  'Rules that only reference each other are dead',
+  result.summary
+);
+assert(
+  dead.get('FLOAT') && dead.get('FLOAT').kind === 'token' && !dead.has('SEMI'),
+  'Tokens are used by name or by literal'
+);
+assert(
+  dead.get('EXP') && dead.get('EXP').reason === 'only used by dead rules (FLOAT)' && !dead.has('DIGIT'),
+  'Fragments only used by dead tokens are dead',
+  JSON.stringify(dead.get('EXP'))
+);
+assert(
+  !dead.has('WS') && !dead.has('OPEN') && !dead.has('CLOSE') && !dead.has('INSIDE'),
+  'Tokens that shape the token stream keep their modes alive'
+);
+assert(
+  dead.get('NEVER') && dead.get('NEVER').kind === 'mode' && dead.get('NOPE').reason.includes('mode NEVER'),
+  'Modes nothing enters, and their rules'
+);
+assert(dead.get('UNUSED') && !dead.has('VIRTUAL'), 'tokens {} declarations');
+
+// Test 2: Explicit start rules
+console.log('\nTest 2: Explicit start rules');
+const fromStat = AntlrAnalyzer.findDeadCode(AntlrAnalyzer.analyze(grammar), ['stat']);
+assert(
+  !fromStat.inferredStart && fromStat.dead.some((d) => d.name === 'prog' && d.reason === 'not reachable from stat'),
+  'Rules above the start rule are dead',
+  fromStat.summary
+);
+
+// Test 3: Removal
+console.log('\nTest 3: Removing dead code');
+const removal = AntlrAnalyzer.removeDeadCode(grammar, result.dead);
+assert(removal.success, 'Removal succeeds', removal.message);
+assert(
+  !/cycleA|FLOAT|EXP|NOPE|mode NEVER|UNUSED/.test(removal.modified) &&
+    removal.modified.includes('tokens { VIRTUAL }') &&
+    removal.modified.includes('mode INSIDE;'),
+  'Dead items are gone and live ones stay',
+  removal.modified
+);
+const after = AntlrAnalyzer.findDeadCode(AntlrAnalyzer.analyze(removal.modified));
+assert(after.dead.length === 0, 'Nothing dead is left', after.summary);
+
+// Test 4: tokenVocab
+console.log('\nTest 4: Split grammars');
+const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'antlr-dead-'));
+try {
+  fs.writeFileSync(
+    path.join(testDir, 'L.g4'),
+    `lexer grammar L;
+A : 'a' ;
+B : 'b' ;
+C : 'c' ;
+`
+  );
+  const parserPath = path.join(testDir, 'P.g4');
+  fs.writeFileSync(
+    parserPath,
+    `parser grammar P;
+options { tokenVocab = L; }
+prog : A B ;
+`
+  );
+  const merged = AntlrAnalyzer.findDeadCode(AntlrAnalyzer.loadGrammarWithImports(parserPath));
+  const c = merged.dead.find((d) => d.name === 'C');
+  assert(
+    merged.dead.length === 1 && c && c.imported,
+    'Tokens of the tokenVocab lexer the parser never uses',
+    JSON.stringify(merged.dead)
+  );
+  const kept = AntlrAnalyzer.removeDeadCode(fs.readFileSync(parserPath, 'utf-8'), merged.dead);
+  assert(
+    kept.removed.length === 0 && kept.message.includes('1 item(s) in imported grammars'),
+    'Removal only edits the main grammar',
+    kept.message
+  );
+} finally {
+  fs.rmSync(testDir, { recursive: true, force: true });
+}
+
+// Summary
+console.log('\n========================================');
+console.log('  Dead Code Test Summary');
+console.log('========================================');
+console.log(`Passed: ${passCount}`);
+console.log(`Failed: ${failCount}`);
+console.log('========================================');
+
+process.exit(failCount > 0 ? 1 : 0);
@@ -0,0 +1,117 @@
+#!/usr/bin/env node
+
+/**
+ * Test FIRST/FOLLOW computation and the LL(1) decision conflict report
+ */
+
+const { AntlrAnalyzer } = require('../dist/antlrAnalyzer.js');
+
+let passCount = 0;
+let failCount = 0;
+
+function assert(condition, testName, details = '') {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+    passCount++;
+  } else {
+    console.log(`❌ FAIL: ${testName}`);
+    if (details) console.log(`   ${details}`);
+    failCount++;
+  }
+}
+
+console.log('Starting decision conflict tests...\n');
+
+const grammar = AntlrAnalyzer.analyze(`grammar Stmts;
+prog : stat* EOF ;
+stat
+  : ID '=' expr ';'
+  | ID '(' args ')' ';'
+  | 'if' expr stat ('else' stat)?
+  | block
+  ;
+block : '{' stat* '}' ;
+args : (expr (',' expr)*)? ;
+expr : expr '+' expr | ID | INT | '(' expr ')' ;
+mods : ID? ID ;
+loose : .*? ';' ;
+PLUS : '+' ;
+ID : [a-z]+ ;
+INT : [0-9]+ ;
+`);
+
+// Test 1: FIRST / FOLLOW
+console.log('Test 1: FIRST and FOLLOW sets');
+const sets = AntlrAnalyzer.computeFirstFollowSets(grammar);
+assert(
+  sets.first.stat.join(',') === "'if',ID,'{'".split(',').sort().join(','),
+  'FIRST goes through referenced rules',
+  sets.first.stat.join(',')
+);
+assert(
+  sets.first.prog.includes('EOF') && sets.first.prog.includes("'{'"),
+  'FIRST continues past nullable closures',
+  sets.first.prog.join(',')
+);
+assert(sets.nullable.join(',') === 'args', 'Nullable parser rules', sets.nullable.join(','));
+assert(
+  sets.follow.expr.includes('PLUS') && !sets.follow.expr.includes("'+'"),
+  'Literals with a lexer rule are reported by token name',
+  sets.follow.expr.join(',')
+);
+assert(
+  ["')'", "','", "';'"].every((t) => sets.follow.expr.includes(t)),
+  'FOLLOW includes tokens after nullable sub-rules and loops',
+  sets.follow.expr.join(',')
+);
+assert(
+  sets.follow.args.join(',') === "')'" && sets.follow.stat.includes('EOF'),
+  'FOLLOW of referenced and entry rules',
+  `${sets.follow.args} / ${sets.follow.stat}`
+);
+
+// Test 2: Conflicts
+console.log('\nTest 2: Decision conflicts');
+const report = AntlrAnalyzer.findDecisionConflicts(grammar);
+const find = (rule, kind) => report.conflicts.find((c) => c.ruleName === rule && c.kind === kind);
+const statAlts = find('stat', 'alternatives');
+assert(
+  statAlts &&
+    statAlts.conflicts.length === 1 &&
+    statAlts.conflicts[0].token === 'ID' &&
+    statAlts.conflicts[0].paths.join(',') === 'alt 1,alt 2',
+  'Alternatives sharing a first token',
+  JSON.stringify(statAlts)
+);
+const dangling = find('stat', 'optional');
+assert(
+  dangling && dangling.text === "('else' stat)?" && dangling.conflicts[0].paths.join(',') === 'alt 1,exit',
+  'Dangling else: optional block against its FOLLOW set',
+  JSON.stringify(dangling)
+);
+assert(
+  find('mods', 'optional') && find('mods', 'optional').paths[0].label === 'enter',
+  'Optional element against what follows it'
+);
+assert(!find('expr', 'alternatives'), 'Left-recursive alternatives are left to ANTLR');
+assert(!report.conflicts.some((c) => c.ruleName === 'loose'), 'Non-greedy loops are skipped');
+assert(!find('args', 'closure') && !find('block', 'closure'), 'Clean loops are not reported');
+assert(
+  report.summary === `${report.conflicts.length} of ${report.decisions} decision(s) in 2 rule(s) cannot be made with one token of lookahead.`,
+  'Summary',
+  report.summary
+);
+assert(
+  AntlrAnalyzer.findDecisionConflicts(grammar, 'mods').conflicts.length === 1,
+  'Report can be limited to one rule'
+);
+
+// Summary
+console.log('\n========================================');
+console.log('  Decision Conflicts Test Summary');
+console.log('========================================');
+console.log(`Passed: ${passCount}`);
+console.log(`Failed: ${failCount}`);
+console.log('========================================');
+
+process.exit(failCount > 0 ? 1 : 0);
@@ -0,0 +1,224 @@
+#!/usr/bin/env node
+
+/**
+ * Test the edit journal with undo and redo
+ */
+
+const {
+  HISTORY_FILE,
+  editContext,
+  findWorkspace,
+  listEditHistory,
+  replayEdit,
+  writeFilesAtomically,
+} = require('../dist/editHistory.js');
+const { AntlrAnalyzer } = require('../dist/antlrAnalyzer.js');
+const fs = require('fs');
+const path = require('path');
+const os = require('os');
+const { syncBuiltinESMExports } = require('module');
+
+let passCount = 0;
+let failCount = 0;
+
+function assert(condition, testName, details = '') {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+    passCount++;
+  } else {
+    console.log(`❌ FAIL: ${testName}`);
+    if (details) console.log(`   ${details}`);
+    failCount++;
+  }
+}
+
+console.log('Starting edit history tests...\n');
+
+const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'antlr-history-'));
+const file = (name) => path.join(testDir, name);
+const read = (name) => (fs.existsSync(file(name)) ? fs.readFileSync(file(name), 'utf-8') : null);
+const write = (tool, files) =>
+  editContext.run({ tool, arguments: { from_file: files[0].filePath, grammar_content: 'x'.repeat(80) } }, () =>
+    writeFilesAtomically(files, { overwrite: true })
+  );
+
+try {
+  fs.writeFileSync(file('.antlr4-mcp.json'), '{}');
+  fs.mkdirSync(file('grammars'));
+  const v1 = "grammar G;\na : X ;\nb : Y ;\nX : 'x' ;\nY : 'y' ;\n";
+  const v2 = "grammar G;\na : X X ;\nb : Y ;\nX : 'x' ;\nY : 'y' ;\n";
+  fs.writeFileSync(file('grammars/G.g4'), v1);
+
+  // Test 1: Journal
+  console.log('Test 1: Journaling writes');
+  {
+    assert(findWorkspace(file('grammars/G.g4')) === testDir, 'Workspace is the directory with the project config');
+    write('update-rule', [{ filePath: file('grammars/G.g4'), content: v2 }]);
+    write('split-grammar', [
+      { filePath: file('grammars/GLexer.g4'), content: 'lexer grammar GLexer;\n' },
+      { filePath: file('grammars/G.g4'), content: v2 + '// split\n' },
+    ]);
+    const history = listEditHistory(testDir);
+    assert(
+      history.entries.map((e) => `${e.id}:${e.tool}`).join() === '2:split-grammar,1:update-rule',
+      'Edits are listed newest first with their tool',
+      JSON.stringify(history.entries.map((e) => e.tool))
+    );
+    const first = history.entries[1];
+    assert(
+      first.files[0].before === v1 && first.files[0].after === v2 && first.files[0].beforeHash !== first.files[0].afterHash,
+      'Previous content and hashes are recorded'
+    );
+    assert(
+      first.arguments.grammar_content === '<80 chars>' && first.arguments.from_file === file('grammars/G.g4'),
+      'Arguments are recorded, grammar text abbreviated',
+      JSON.stringify(first.arguments)
+    );
+    assert(fs.existsSync(path.join(testDir, HISTORY_FILE)), 'Journal lives in the workspace');
+  }
+
+  // Test 2: Undo and redo
+  console.log('\nTest 2: Undo and redo');
+  {
+    const undo = replayEdit(testDir, 'undo');
+    assert(undo.success && undo.entry.tool === 'split-grammar', 'Last edit is undone', undo.message);
+    assert(read('grammars/GLexer.g4') === null && read('grammars/G.g4') === v2, 'Created files are deleted, others restored');
+    const redo = replayEdit(testDir, 'redo');
+    assert(
+      redo.success && read('grammars/GLexer.g4') === 'lexer grammar GLexer;\n' && read('grammars/G.g4').endsWith('// split\n'),
+      'Redo reapplies the edit',
+      redo.message
+    );
+    replayEdit(testDir, 'undo');
+    write('add-rule', [{ filePath: file('grammars/G.g4'), content: v2 + "Z : 'z' ;\n" }]);
+    assert(
+      listEditHistory(testDir).undone.length === 0 && !replayEdit(testDir, 'redo').success,
+      'A new edit clears the redo stack'
+    );
+    replayEdit(testDir, 'undo');
+    assert(replayEdit(testDir, 'undo').success && read('grammars/G.g4') === v1, 'Undo walks back through the history');
+    const nothing = replayEdit(testDir, 'undo');
+    assert(!nothing.success && nothing.message.includes('Nothing to undo'), 'Empty history is reported');
+  }
+
+  // Test 3: Files changed by hand
+  console.log('\nTest 3: Hand edits');
+  {
+    write('update-rule', [{ filePath: file('grammars/G.g4'), content: v2 }]);
+    fs.writeFileSync(file('grammars/G.g4'), v2.replace("Y : 'y' ;", "Y : 'y' | 'Y' ;"));
+    const refused = replayEdit(testDir, 'undo');
+    assert(
+      !refused.success && refused.message.includes('was changed after edit') && read('grammars/G.g4').includes("'Y'"),
+      'Undo refuses when the file changed since',
+      refused.message
+    );
+    const merged = replayEdit(testDir, 'undo', { merge: true });
+    assert(
+      merged.success && merged.files[0].merged && read('grammars/G.g4') === v1.replace("Y : 'y' ;", "Y : 'y' | 'Y' ;"),
+      'Merge reverts the edit and keeps the hand edit',
+      read('grammars/G.g4')
+    );
+
+    write('update-rule', [{ filePath: file('grammars/G.g4'), content: v1.replace('a : X ;', 'a : X X ;') }]);
+    fs.writeFileSync(file('grammars/G.g4'), v1.replace('a : X ;', 'a : X X X ;'));
+    const overlap = replayEdit(testDir, 'undo', { merge: true });
+    assert(
+      !overlap.success && overlap.message.includes('overlap') && read('grammars/G.g4').includes('X X X'),
+      'Overlapping changes are refused',
+      overlap.message
+    );
+  }
+
+  // Test 4: Merging places changes by the lines around them
+  console.log('\nTest 4: Merge placement');
+  {
+    const lexer = "lexer grammar L;\nA : 'a' ;\nB : 'b' ;\nC : 'c' ;\nD : 'd' ;\n";
+    fs.writeFileSync(file('L.g4'), lexer);
+    write('remove-rule', [{ filePath: file('L.g4'), content: lexer.replace("B : 'b' ;\n", '') }]);
+    fs.writeFileSync(file('L.g4'), "lexer grammar L;\nX : 'x' ;\nY : 'y' ;\nA : 'a' ;\nC : 'c' ;\nD : 'd' ;\n");
+    const undo = replayEdit(testDir, 'undo', { merge: true });
+    assert(
+      undo.success && read('L.g4') === "lexer grammar L;\nX : 'x' ;\nY : 'y' ;\nA : 'a' ;\nB : 'b' ;\nC : 'c' ;\nD : 'd' ;\n",
+      'Restored rule goes back after the rule it followed, not to its old line number',
+      JSON.stringify(read('L.g4'))
+    );
+
+    write('remove-rule', [{ filePath: file('L.g4'), content: lexer.replace("B : 'b' ;\n", '') }]);
+    fs.writeFileSync(file('L.g4'), "lexer grammar L;\nA : 'a' | 'A' ;\nC : 'c' ;\nD : 'd' ;\n");
+    const moved = replayEdit(testDir, 'undo', { merge: true });
+    assert(
+      !moved.success && moved.message.includes('overlap') && !read('L.g4').includes("'b'"),
+      'Insertion next to a changed line is refused',
+      moved.message
+    );
+  }
+
+  // Test 5: Journal write failure
+  console.log('\nTest 5: Journal write failure');
+  {
+    fs.writeFileSync(file('J.g4'), 'grammar J;\na : A ;\n');
+    write('update-rule', [{ filePath: file('J.g4'), content: 'grammar J;\na : A A ;\n' }]);
+    const writeFileSync = fs.writeFileSync;
+    fs.writeFileSync = (target, ...rest) => {
+      if (String(target).endsWith(HISTORY_FILE)) throw new Error('disk full');
+      return writeFileSync(target, ...rest);
+    };
+    syncBuiltinESMExports();
+    let failed;
+    try {
+      failed = replayEdit(testDir, 'undo');
+    } finally {
+      fs.writeFileSync = writeFileSync;
+      syncBuiltinESMExports();
+    }
+    assert(
+      !failed.success && failed.message.includes('disk full') && read('J.g4') === 'grammar J;\na : A A ;\n',
+      'Files are put back when the journal cannot be written',
+      failed.message
+    );
+    assert(
+      listEditHistory(testDir).entries[0].tool === 'update-rule' && replayEdit(testDir, 'undo').success,
+      'Journal still matches the files'
+    );
+  }
+
+  // Test 6: A multi-file rename is one edit
+  console.log('\nTest 6: Multi-file rename');
+  {
+    const main = "grammar Main;\nimport Lib;\nstart : item+ EOF ;\nX : 'x' ;\n";
+    const lib = 'parser grammar Lib;\nitem : X ;\n';
+    fs.writeFileSync(file('Main.g4'), main);
+    fs.writeFileSync(file('Lib.g4'), lib);
+    const renamed = AntlrAnalyzer.renameRuleMultiFile(file('Main.g4'), 'item', 'entry');
+    const written = write('rename-rule', renamed.modifiedFiles);
+    assert(
+      written.success && read('Main.g4').includes('start : entry+') && read('Lib.g4').includes('entry : X'),
+      'Both grammars are renamed',
+      written.message
+    );
+    const entry = listEditHistory(testDir).entries[0];
+    assert(
+      entry.tool === 'rename-rule' && entry.files.length === 2,
+      'The rename is one journal entry covering both files',
+      JSON.stringify(entry.files.map((f) => f.filePath))
+    );
+    const undone = replayEdit(testDir, 'undo');
+    assert(
+      undone.success && read('Main.g4') === main && read('Lib.g4') === lib,
+      'Undo restores both grammars',
+      undone.message
+    );
+  }
+} finally {
+  fs.rmSync(testDir, { recursive: true, force: true });
+}
+
+// Summary
+console.log('\n========================================');
+console.log('  Edit History Test Summary');
+console.log('========================================');
+console.log(`Passed: ${passCount}`);
+console.log(`Failed: ${failCount}`);
+console.log('========================================');
+
+process.exit(failCount > 0 ? 1 : 0);
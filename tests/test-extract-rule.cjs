@@ -0,0 +1,264 @@
+#!/usr/bin/env node
+
+/**
+ * Test extract-rule: selection by expression and path, identical occurrences,
+ * formatting, refusals and multi-file extraction
+ */
+
+const { AntlrAnalyzer } = require('../dist/antlrAnalyzer.js');
+const fs = require('fs');
+const path = require('path');
+const os = require('os');
+
+let passCount = 0;
+let failCount = 0;
+
+function assert(condition, testName, details = '') {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+    passCount++;
+  } else {
+    console.log(`❌ FAIL: ${testName}`);
+    if (details) console.log(`   ${details}`);
+    failCount++;
+  }
+}
+
+console.log('Starting extract-rule tests...\n');
+
+const calc = `grammar Calc;
+
+prog : stat+ EOF ;
+
+stat : ID '=' expr ';' # Assign
+     | 'print' '(' expr (',' expr)* ')' ';' # Print
+     ;
+
+args : expr (',' expr)* ;
+
+expr : expr '+' expr | INT | ID ;
+
+ID : [a-z]+ ;
+INT : DIGIT+ ('.' DIGIT+)? ;
+FLOAT : DIGIT+ '.' DIGIT+ ;
+fragment DIGIT : [0-9] ;
+`;
+
+// Test 1: Extracting by expression
+console.log('Test 1: Extract by expression');
+{
+  const result = AntlrAnalyzer.extractRule(calc, 'stat', 'exprList', {
+    expression: "expr  (','expr)*",
+  });
+  assert(result.success, 'Expression is found regardless of whitespace', result.message);
+  assert(
+    result.modified.includes("| 'print' '(' exprList ')' ';' # Print"),
+    'Occurrence is replaced by a reference'
+  );
+  assert(
+    result.modified.includes("     ;\n\nexprList : expr (',' expr)* ;\n\nargs"),
+    'New rule follows the source rule',
+    result.modified
+  );
+  assert(
+    result.modified.includes("args : expr (',' expr)* ;") &&
+      result.occurrences === 1 &&
+      result.skipped === 1 &&
+      result.message.includes('1 identical occurrence(s) elsewhere'),
+    'Other occurrences are only reported without replaceAll',
+    result.message
+  );
+
+  const all = AntlrAnalyzer.extractRule(
+    calc,
+    'stat',
+    'exprList',
+    { expression: "expr (',' expr)*" },
+    { replaceAll: true }
+  );
+  assert(
+    all.success && all.occurrences === 2 && all.modified.includes('args : exprList ;'),
+    'replaceAll replaces identical occurrences in other rules',
+    all.modified
+  );
+
+  const atom = AntlrAnalyzer.extractRule(calc, 'expr', 'atom', { expression: 'INT | ID' });
+  assert(
+    atom.success &&
+      atom.modified.includes("expr : expr '+' expr | atom ;") &&
+      atom.modified.includes('atom : INT | ID ;'),
+    'A run of alternatives becomes one alternative',
+    atom.modified
+  );
+}
+
+// Test 2: Extracting by path
+console.log('\nTest 2: Extract by path');
+{
+  const block = AntlrAnalyzer.extractRule(calc, 'stat', 'moreArgs', { path: '2.4' });
+  assert(
+    block.success &&
+      block.modified.includes("'(' expr moreArgs ')'") &&
+      block.modified.includes("moreArgs : (',' expr)* ;"),
+    'Element path selects a whole element',
+    block.message
+  );
+
+  const inner = AntlrAnalyzer.extractRule(calc, 'stat', 'moreArgs', { path: '2.4.1' });
+  assert(
+    inner.success &&
+      inner.modified.includes("'(' expr moreArgs* ')'") &&
+      inner.modified.includes("moreArgs : ',' expr ;"),
+    'Contents of a block are replaced together with the block, keeping its suffix',
+    inner.modified
+  );
+
+  const range = AntlrAnalyzer.extractRule(calc, 'stat', 'call', { path: '2.1-3' });
+  assert(
+    range.success && range.modified.includes("| call (',' expr)* ')' ';' # Print"),
+    'Element ranges select several elements',
+    range.modified
+  );
+
+  const alternative = AntlrAnalyzer.extractRule(calc, 'stat', 'assign', { path: '1' });
+  assert(
+    alternative.success && alternative.modified.includes('stat : assign # Assign'),
+    'Alternative labels stay with the source rule',
+    alternative.modified
+  );
+
+  const fragment = AntlrAnalyzer.extractRule(calc, 'INT', 'Fraction', { path: '1.2' });
+  assert(
+    fragment.success &&
+      fragment.modified.includes('INT : DIGIT+ Fraction ;\nfragment Fraction : (\'.\' DIGIT+)? ;\nFLOAT'),
+    'Lexer sub-expressions become fragments without blank lines where the rules have none',
+    fragment.modified
+  );
+}
+
+// Test 3: Formatting follows the grammar
+console.log('\nTest 3: Formatting');
+{
+  const grammar = `parser grammar Style;
+
+decl
+    : 'var' ID ('=' value)? ';'
+    ;
+
+value
+    : INT
+    | STRING
+    | ID
+    ;
+`;
+  const result = AntlrAnalyzer.extractRule(grammar, 'decl', 'init', { path: '1.3.1' });
+  assert(
+    result.success && result.definition === "init\n    : '=' value\n    ;",
+    'Colon, semicolon and indentation placement are inferred',
+    JSON.stringify(result.definition)
+  );
+  assert(result.modified.includes("'var' ID init? ';'"), 'Optional block becomes an optional reference');
+
+  const literal = AntlrAnalyzer.extractRule(grammar, 'value', 'literal', { path: '1-2' });
+  assert(
+    literal.success &&
+      literal.definition === 'literal\n    : INT\n    | STRING\n    ;' &&
+      literal.modified.includes('value\n    : literal\n    | ID\n    ;'),
+    'Alternatives are placed one per line',
+    literal.modified
+  );
+}
+
+// Test 4: Refusals
+console.log('\nTest 4: Refusals');
+{
+  const grammar = `grammar Refuse;
+s : x=A (B | C)? {$x.text} D ;
+e : e '*' e | A ;
+A : 'a' ; B : 'b' ; C : 'c' ; D : 'd' ;
+`;
+  const cases = [
+    [['s', 'y', { path: '1.1' }], 'labels'],
+    [['s', 'y', { path: '1.3-4' }], '$-attributes'],
+    [['s', 'y', { expression: 'Q' }], 'not found'],
+    [['s', 'y', { expression: 'x=A (B | C)?' }], 'has labels (x)'],
+    [['s', 'A', { path: '1.2' }], 'Invalid parser rule name'],
+    [['s', 'e', { path: '1.2' }], 'already exists'],
+    [['s', 'y', { path: '1.9' }], 'does not exist'],
+    [['s', 'y', { path: '1.1.1' }], 'not a parenthesized block'],
+    [['s', 'y', { path: '1' }], 'whole body'],
+    [['s', 'y', {}], 'expression or a path'],
+    [['e', 'mul', { path: '1' }], 'left recursion'],
+    [['missing', 'y', { path: '1' }], 'not found'],
+  ];
+  for (const [args, expected] of cases) {
+    const result = AntlrAnalyzer.extractRule(grammar, ...args);
+    assert(
+      !result.success && result.modified === grammar && result.message.includes(expected),
+      `Refused: ${expected}`,
+      result.message
+    );
+  }
+}
+
+// Test 5: Multi-file extraction
+console.log('\nTest 5: Multi-file extraction');
+const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'antlr-extract-'));
+try {
+  fs.writeFileSync(
+    path.join(testDir, 'Common.g4'),
+    `parser grammar Common;\n\nidList\n    : ID (',' ID)*\n    ;\n`
+  );
+  fs.writeFileSync(
+    path.join(testDir, 'Main.g4'),
+    `grammar Main;\nimport Common;\n\ndecl\n    : 'var' ID (',' ID)* ';'\n    | 'use' idList ';'\n    ;\n\nID : [a-z]+ ;\n`
+  );
+  const main = path.join(testDir, 'Main.g4');
+
+  const single = AntlrAnalyzer.extractRuleMultiFile(main, 'idList', 'moreIds', { path: '1.2.1' });
+  assert(
+    single.success &&
+      single.modifiedFiles.length === 1 &&
+      single.modifiedFiles[0].filePath === path.join(testDir, 'Common.g4') &&
+      single.modifiedFiles[0].content.includes('ID moreIds*'),
+    'Rule is extracted in the file that defines it',
+    single.message
+  );
+
+  const all = AntlrAnalyzer.extractRuleMultiFile(
+    main,
+    'idList',
+    'moreIds',
+    { path: '1.2.1' },
+    { replaceAll: true }
+  );
+  const mainResult = all.modifiedFiles.find((f) => f.filePath === main);
+  assert(
+    all.success &&
+      all.modifiedFiles.length === 2 &&
+      mainResult.content.includes("'var' ID moreIds* ';'") &&
+      !mainResult.content.includes('moreIds\n'),
+    'replaceAll also replaces occurrences in importing grammars',
+    all.message
+  );
+  assert(all.message.includes('in 2 files'), 'Message counts the files');
+
+  const clash = AntlrAnalyzer.extractRuleMultiFile(main, 'decl', 'idList', { path: '1.3.1' });
+  assert(
+    !clash.success && clash.message.includes('already exists in Common.g4'),
+    'Names defined in imported grammars are refused',
+    clash.message
+  );
+} finally {
+  fs.rmSync(testDir, { recursive: true, force: true });
+}
+
+// Summary
+console.log('\n========================================');
+console.log('  Extract Rule Test Summary');
+console.log('========================================');
+console.log(`Passed: ${passCount}`);
+console.log(`Failed: ${failCount}`);
+console.log('========================================');
+
+process.exit(failCount > 0 ? 1 : 0);
@@ -0,0 +1,234 @@
+#!/usr/bin/env node
+
+/**
+ * Test flattening imported grammars into one standalone grammar
+ */
+
+const { AntlrAnalyzer } = require('../dist/antlrAnalyzer.js');
+const { parseGrammar } = require('../dist/grammarParser.js');
+const fs = require('fs');
+const path = require('path');
+const os = require('os');
+
+let passCount = 0;
+let failCount = 0;
+
+function assert(condition, testName, details = '') {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+    passCount++;
+  } else {
+    console.log(`❌ FAIL: ${testName}`);
+    if (details) console.log(`   ${details}`);
+    failCount++;
+  }
+}
+
+console.log('Starting flatten-imports tests...\n');
+
+const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'antlr-flatten-'));
+const write = (file, content) => {
+  fs.mkdirSync(path.dirname(path.join(testDir, file)), { recursive: true });
+  fs.writeFileSync(path.join(testDir, file), content);
+};
+
+try {
+  write(
+    'Main.g4',
+    `// Main grammar
+grammar Main;
+
+options { language = Java; }
+
+import Exprs, Lex;
+
+@members { int main; }
+
+prog : stat+ EOF ;
+stat : expr ';' ; // overrides Exprs.stat
+
+ID : [a-z]+ ;
+`
+  );
+  write(
+    'Exprs.g4',
+    `parser grammar Exprs;
+import Common;
+tokens { PLUS_OP }
+@members { int exprs; }
+@header { import x; }
+
+stat : 'bad' ;
+
+// Expressions
+expr : expr '+' term
+     | term
+     ;
+term : ID | NUM ;
+`
+  );
+  write(
+    'Common.g4',
+    `parser grammar Common;
+term : 'common' ;
+atom : ID ;
+`
+  );
+  write(
+    'lib/Lex.g4',
+    `lexer grammar Lex;
+@members { int lex; }
+ID : [A-Z]+ ;
+NUM : [0-9]+ ;
+WS : [ \\t\\r\\n]+ -> skip ;
+`
+  );
+
+  // Test 1: Override semantics
+  console.log('Test 1: Which definitions win');
+  const result = AntlrAnalyzer.flattenImports(path.join(testDir, 'Main.g4'), {
+    libDirs: [path.join(testDir, 'lib')],
+  });
+  const ast = parseGrammar(result.content);
+  const rule = (name) => ast.rules.find((r) => r.name === name);
+  {
+    assert(result.success, 'Grammar is flattened', result.message);
+    assert(
+      result.imports.map((i) => i.grammar).join(',') === 'Exprs,Common,Lex',
+      'Imports are visited depth-first in declaration order',
+      JSON.stringify(result.imports)
+    );
+    assert(
+      ast.errors.length === 0 && ast.imports.length === 0 && ast.name === 'Main',
+      'Result is a standalone grammar without imports',
+      JSON.stringify(ast.errors)
+    );
+    assert(
+      result.content.includes("stat : expr ';' ;") && !result.content.includes("'bad'"),
+      "Importing grammar's rule overrides the imported one"
+    );
+    assert(
+      rule('term').alternatives.length === 2 && !result.content.includes("'common'"),
+      'First import wins among imported grammars'
+    );
+    assert(
+      result.content.includes('ID : [a-z]+ ;') && !result.content.includes('[A-Z]+'),
+      'Main lexer rule wins too'
+    );
+    assert(
+      JSON.stringify(result.dropped) ===
+        JSON.stringify([
+          { rule: 'stat', grammar: 'Exprs', keptFrom: 'Main' },
+          { rule: 'term', grammar: 'Common', keptFrom: 'Exprs' },
+          { rule: 'ID', grammar: 'Lex', keptFrom: 'Main' },
+        ]),
+      'Dropped rules are reported with the definition that was kept',
+      JSON.stringify(result.dropped)
+    );
+    assert(
+      result.imports.find((i) => i.grammar === 'Common').rules.join() === 'atom' &&
+        result.imports.find((i) => i.grammar === 'Lex').filePath === path.join(testDir, 'lib', 'Lex.g4'),
+      'Added rules are reported per imported file'
+    );
+  }
+
+  // Test 2: Placement and merged declarations
+  console.log('\nTest 2: Placement');
+  {
+    const names = ast.rules.map((r) => r.name).join(',');
+    assert(
+      names === 'prog,stat,expr,term,atom,ID,NUM,WS',
+      'Imported rules follow the rules of the same kind, lexer rules after ID',
+      names
+    );
+    assert(
+      result.content.includes('// From Exprs.g4\n// Expressions\nexpr :'),
+      'Imported rules keep their comments under a source note'
+    );
+    assert(ast.tokens.map((t) => t.name).join() === 'PLUS_OP', 'tokens {} are merged');
+    const members = ast.namedActions.filter((a) => !a.scope && a.name === 'members');
+    assert(
+      members.length === 1 && members[0].code === ' int main;\n int exprs; ',
+      'Repeated named actions are concatenated',
+      JSON.stringify(ast.namedActions)
+    );
+    assert(
+      ast.namedActions.some((a) => a.scope === 'lexer' && a.name === 'members' && a.code.includes('lex')),
+      "Lexer grammar's actions are scoped to the lexer"
+    );
+    assert(
+      JSON.stringify(result.mergedActions) === JSON.stringify(['parser::members']),
+      'Merged actions are reported'
+    );
+  }
+
+  // Test 3: Modes of imported lexer grammars
+  console.log('\nTest 3: Lexer grammars with modes');
+  {
+    write(
+      'Tags.g4',
+      `lexer grammar Tags;
+import TagBase;
+OPEN : '<' -> pushMode(TAG) ;
+mode TAG;
+CLOSE : '>' -> popMode ;
+`
+    );
+    write(
+      'TagBase.g4',
+      `lexer grammar TagBase;
+TEXT : ~[<]+ ;
+mode TAG;
+NAME : [a-z]+ ;
+mode ATTR;
+VALUE : '"' ~["]* '"' ;
+`
+    );
+    const tags = AntlrAnalyzer.flattenImports(path.join(testDir, 'Tags.g4'));
+    const tagAst = parseGrammar(tags.content);
+    const mode = (name) => tagAst.rules.find((r) => r.name === name).mode;
+    assert(tags.success && tagAst.errors.length === 0, 'Lexer grammar is flattened', tags.message);
+    assert(mode('TEXT') === 'DEFAULT_MODE' && mode('NAME') === 'TAG', 'Rules join their existing mode');
+    assert(mode('VALUE') === 'ATTR', 'Missing modes are added', tags.content);
+  }
+
+  // Test 4: Refusals
+  console.log('\nTest 4: Refusals');
+  {
+    write('Broken.g4', 'grammar Broken;\nimport Missing;\na : B ;\nB : [b] ;\n');
+    const missing = AntlrAnalyzer.flattenImports(path.join(testDir, 'Broken.g4'));
+    assert(!missing.success && missing.message.includes('Cannot resolve import Missing'), 'Unresolved import is an error');
+
+    write('Moded.g4', 'grammar Moded;\nimport Tags;\na : OPEN ;\n');
+    const moded = AntlrAnalyzer.flattenImports(path.join(testDir, 'Moded.g4'));
+    assert(
+      !moded.success && moded.message.includes('(it has modes)'),
+      'Lexer grammar with modes cannot go into a combined grammar',
+      moded.message
+    );
+
+    write('P.g4', 'parser grammar P;\nimport Lex;\na : ID ;\n');
+    const wrongKind = AntlrAnalyzer.flattenImports(path.join(testDir, 'P.g4'), {
+      libDirs: [path.join(testDir, 'lib')],
+    });
+    assert(
+      !wrongKind.success && wrongKind.message.includes('Cannot import lexer grammar Lex into parser grammar P'),
+      'Parser grammar cannot import a lexer grammar'
+    );
+
+    const plain = AntlrAnalyzer.flattenImports(path.join(testDir, 'Common.g4'));
+    assert(plain.success && plain.message.includes('has no imports'), 'Grammar without imports is left alone');
+  }
+} finally {
+  fs.rmSync(testDir, { recursive: true, force: true });
+}
+
+// Summary
+console.log('\n========================================');
+console.log('  Flatten Imports Test Summary');
+console.log('========================================');
+console.log(`Passed: ${passCount}`);
+console.log(`Failed: ${failCount}`);
+console.log('========================================');
+
+process.exit(failCount > 0 ? 1 : 0);
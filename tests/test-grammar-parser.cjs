@@ -0,0 +1,259 @@
+#!/usr/bin/env node
+
+/**
+ * Test the ANTLR4 meta-grammar parser and the analysis derived from its AST
+ */
+
+const { parseGrammar, walkElements } = require('../dist/grammarParser.js');
+const { AntlrAnalyzer } = require('../dist/antlrAnalyzer.js');
+
+let passCount = 0;
+let failCount = 0;
+
+function assert(condition, testName, details = '') {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+    passCount++;
+  } else {
+    console.log(`❌ FAIL: ${testName}`);
+    if (details) console.log(`   ${details}`);
+    failCount++;
+  }
+}
+
+function slice(source, span) {
+  return source.slice(span.start.offset, span.end.offset);
+}
+
+console.log('Starting grammar parser tests...\n');
+
+// Test 1: Prequel constructs
+console.log('Test 1: Grammar declaration and prequel constructs');
+const prequel = `parser grammar P;
+options { tokenVocab = PLexer; superClass = a.b.Base; }
+import Common, alias=Other;
+tokens { INDENT, DEDENT }
+channels { COMMENTS }
+@header { package x; /* } */ String s = "}"; }
+@parser::members { char c = '{'; }
+start : INDENT DEDENT ;
+`;
+const prequelAst = parseGrammar(prequel);
+assert(prequelAst.type === 'parser' && prequelAst.name === 'P', 'Parses grammar type and name');
+assert(
+  prequelAst.options.map((o) => `${o.name}=${o.value}`).join(',') ===
+    'tokenVocab=PLexer,superClass=a.b.Base',
+  'Parses options',
+  JSON.stringify(prequelAst.options)
+);
+assert(
+  prequelAst.imports.map((i) => i.name).join(',') === 'Common,Other' &&
+    prequelAst.imports[1].alias === 'alias',
+  'Parses imports with aliases'
+);
+assert(
+  prequelAst.tokens.map((t) => t.name).join(',') === 'INDENT,DEDENT' &&
+    prequelAst.channels[0].name === 'COMMENTS',
+  'Parses tokens and channels blocks'
+);
+assert(
+  prequelAst.namedActions.length === 2 &&
+    prequelAst.namedActions[0].code.includes('String s = "}";') &&
+    prequelAst.namedActions[1].scope === 'parser',
+  'Parses named actions with braces inside strings and comments'
+);
+assert(prequelAst.errors.length === 0, 'No syntax errors', JSON.stringify(prequelAst.errors));
+
+// Test 2: Rule structure
+console.log('\nTest 2: Rules, alternatives and elements');
+const exprGrammar = `grammar Expr;
+expr returns [int v] @init { int depth = 0; }
+  : <assoc=right> l=expr op=('*'|'/') r+=expr   # Mul
+  | {isType()}? ID? ( a | b )*?                 # Atom
+  | ~(X | Y) . sub[1, "x]"]                       # Other
+  ;
+  catch [RecognitionException e] { throw e; }
+fragment DIGIT : [0-9\\]] ;
+STR : '\\'' ~[\\']* '\\'' -> channel(HIDDEN) ;
+mode INSIDE;
+CLOSE : ']' -> popMode ;
+`;
+const exprAst = parseGrammar(exprGrammar);
+const expr = exprAst.rules[0];
+assert(exprAst.rules.map((r) => r.name).join(',') === 'expr,DIGIT,STR,CLOSE', 'Finds all rules');
+assert(expr.returns === 'int v' && expr.actions[0].name === 'init', 'Parses rule signature');
+assert(expr.exceptionHandlers.length === 1, 'Parses catch clause');
+assert(
+  slice(exprGrammar, expr.span).startsWith('expr returns') &&
+    slice(exprGrammar, expr.span).endsWith('{ throw e; }'),
+  'Rule span covers signature through exception handlers'
+);
+assert(
+  expr.alternatives.map((a) => a.label && a.label.name).join(',') === 'Mul,Atom,Other',
+  'Parses alternative labels'
+);
+const first = expr.alternatives[0];
+assert(first.options && first.options[0].name === 'assoc', 'Parses alternative options');
+assert(
+  first.elements.map((e) => e.label && `${e.label.name}${e.label.operator}`).join(',') ===
+    'l=,op=,r+=',
+  'Parses element labels'
+);
+const atom = expr.alternatives[1].elements;
+assert(
+  atom.map((e) => `${e.kind}${e.suffix || ''}`).join(',') === 'predicate,tokenRef?,block*?',
+  'Parses predicates and (non-greedy) suffixes',
+  atom.map((e) => e.kind).join(',')
+);
+const other = expr.alternatives[2].elements;
+assert(
+  other[0].kind === 'not' && other[1].kind === 'wildcard' && other[2].args === '1, "x]"',
+  'Parses not-sets, wildcards and rule arguments'
+);
+assert(exprAst.rules[1].fragment && exprAst.rules[1].type === 'lexer', 'Parses fragment rules');
+assert(
+  exprAst.rules[2].alternatives[0].commands[0].name === 'channel' &&
+    exprAst.rules[2].alternatives[0].commands[0].argument === 'HIDDEN',
+  'Parses lexer commands'
+);
+assert(exprAst.rules[3].mode === 'INSIDE', 'Tracks lexer modes');
+
+const refs = [];
+walkElements(expr.alternatives, (e) => {
+  if (e.kind === 'ruleRef' || e.kind === 'tokenRef') refs.push(e.name);
+});
+assert(refs.join(',') === 'expr,expr,ID,a,b,X,Y,sub', 'walkElements visits nested elements');
+
+// Test 3: Spans
+console.log('\nTest 3: Source spans');
+const idRef = atom[1];
+assert(
+  idRef.nameSpan.start.line === 4 && slice(exprGrammar, idRef.nameSpan) === 'ID',
+  'Element spans point at the source text',
+  JSON.stringify(idRef.nameSpan)
+);
+
+// Test 4: Error recovery
+console.log('\nTest 4: Error recovery');
+const broken = `grammar Broken;
+a : b c
+d : e ;
+f : ( g ;
+h : i ;
+`;
+const brokenAst = parseGrammar(broken);
+assert(
+  brokenAst.rules.map((r) => r.name).join(',') === 'a,d,f,h',
+  'Keeps rules around syntax errors',
+  brokenAst.rules.map((r) => r.name).join(',')
+);
+assert(
+  brokenAst.errors.some((e) => e.message.includes("'a' appears to be missing a semicolon")),
+  'Reports missing semicolon',
+  JSON.stringify(brokenAst.errors.map((e) => e.message))
+);
+assert(brokenAst.errors.length === 2, 'Reports one error per broken rule');
+
+// Test 5: Analysis derived from the AST
+console.log('\nTest 5: GrammarAnalysis from the AST');
+const analysisGrammar = `grammar Calc;
+// Semicolons and pipes in literals must not confuse the analyzer
+stat : expr ';' | 'a|b' # Weird ;
+expr
+  : expr '+' term
+  | term
+  ;
+term : INT { System.out.println("; | expr"); } ;
+INT : [0-9]+ ;
+WS : [ \\t]+ -> channel(HIDDEN) ;
+`;
+const analysis = AntlrAnalyzer.analyze(analysisGrammar);
+const stat = analysis.rules.find((r) => r.name === 'stat');
+const exprRule = analysis.rules.find((r) => r.name === 'expr');
+const termRule = analysis.rules.find((r) => r.name === 'term');
+assert(stat.definition === "stat : expr ';' | 'a|b' # Weird ;", 'Definition is the exact source');
+assert(exprRule.lineNumber === 4 && exprRule.definition.split('\n').length === 4, 'Multi-line rule');
+assert(
+  termRule.referencedRules.join(',') === 'INT',
+  'References ignore actions and the rule name',
+  termRule.referencedRules.join(',')
+);
+assert(
+  stat.referencedRules.join(',') === 'expr',
+  'References ignore alternative labels',
+  stat.referencedRules.join(',')
+);
+assert(
+  !analysis.issues.some((i) => i.message.includes('HIDDEN')),
+  'Channel names are not reported as undefined rules'
+);
+const leftRecursion = analysis.issues.filter((i) => i.message.includes('left recursion'));
+assert(
+  leftRecursion.length === 1 && leftRecursion[0].ruleName === 'expr',
+  'Only genuinely left-recursive rules are flagged',
+  JSON.stringify(leftRecursion)
+);
+assert(
+  analysis.tokens.find((t) => t.name === 'WS').pattern === '[ \\t]+ -> channel(HIDDEN)',
+  'Token pattern comes from the rule body'
+);
+
+// Test 6: Refactorings use spans, not lines
+console.log('\nTest 6: Rules sharing a line');
+const shared = `grammar Shared;
+mid : A ;
+zeta : B ; alpha : C ;
+A : 'a' ; B : 'b' ; C : 'c' ;
+`;
+const moved = AntlrAnalyzer.moveRule(shared, 'alpha', 'after', 'mid');
+assert(
+  moved.modified === "grammar Shared;\nmid : A ;\nalpha : C ;\nzeta : B ;\nA : 'a' ; B : 'b' ; C : 'c' ;\n",
+  'Moving a rule leaves the rules on its line in place',
+  JSON.stringify(moved.modified)
+);
+const movedFirst = AntlrAnalyzer.moveRule(shared, 'zeta', 'before', 'mid');
+assert(
+  movedFirst.modified.startsWith('grammar Shared;\nzeta : B ;\nmid : A ;\nalpha : C ;\n'),
+  'A rule at the start of a shared line moves alone',
+  JSON.stringify(movedFirst.modified)
+);
+const sorted = AntlrAnalyzer.sortRules(shared, 'alphabetical');
+assert(
+  sorted.modified === "grammar Shared;\nalpha : C ;\nmid : A ;\nzeta : B ;\nA : 'a' ;\nB : 'b' ;\nC : 'c' ;\n",
+  'Sorting orders rules that share a line',
+  JSON.stringify(sorted.modified)
+);
+const labeled = AntlrAnalyzer.inlineRule(
+  'grammar L;\na : x=helper y+=one ;\nhelper : A B ;\none : A ;\nA : [a] ;\nB : [b] ;\n',
+  'helper'
+);
+assert(
+  !labeled.success && labeled.message.includes("x=helper in 'a'"),
+  'Labeled references are not inlined',
+  labeled.message
+);
+const labeledOne = AntlrAnalyzer.inlineRule('grammar L;\na : y+=one ;\none : A ;\nA : [a] ;\n', 'one');
+assert(!labeledOne.success && labeledOne.message.includes('y+=one'), 'List labels are not inlined either');
+const trailing = 'grammar T;\n\nzed : alpha ; /* trailing */\n\nalpha : X ;\n\nX : [x] ;\n';
+const sortedTrailing = AntlrAnalyzer.sortRules(trailing, 'alphabetical');
+assert(
+  sortedTrailing.modified === 'grammar T;\n\nalpha : X ;\n\nzed : alpha ; /* trailing */\n\nX : [x] ;\n',
+  'A trailing block comment stays with its rule when sorting',
+  JSON.stringify(sortedTrailing.modified)
+);
+const movedTrailing = AntlrAnalyzer.moveRule(trailing, 'zed', 'after', 'alpha');
+assert(
+  movedTrailing.modified === sortedTrailing.modified,
+  'A trailing block comment moves with its rule',
+  JSON.stringify(movedTrailing.modified)
+);
+
+// Summary
+console.log('\n========================================');
+console.log('  Grammar Parser Test Summary');
+console.log('========================================');
+console.log(`Passed: ${passCount}`);
+console.log(`Failed: ${failCount}`);
+console.log('========================================');
+
+process.exit(failCount > 0 ? 1 : 0);
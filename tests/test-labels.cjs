@@ -0,0 +1,144 @@
+#!/usr/bin/env node
+
+/**
+ * Test label extraction, label validation and the label-alternatives tool
+ */
+
+const { AntlrAnalyzer } = require('../dist/antlrAnalyzer.js');
+
+let passCount = 0;
+let failCount = 0;
+
+function assert(condition, testName, details = '') {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+    passCount++;
+  } else {
+    console.log(`❌ FAIL: ${testName}`);
+    if (details) console.log(`   ${details}`);
+    failCount++;
+  }
+}
+
+function errors(grammar) {
+  return AntlrAnalyzer.analyze(grammar)
+    .issues.filter((i) => i.type === 'error')
+    .map((i) => i.message);
+}
+
+console.log('Starting label tests...\n');
+
+// Test 1: Extraction
+console.log('Test 1: Labels in the rule model');
+const calc = `grammar Calc;
+prog : stat+ ;
+stat : expr ';'            # ExprStat
+     | name=ID '=' expr ';' # Assign
+     ;
+call : f=ID '(' args+=expr (',' args+=expr)* ')' ;
+expr : expr op=('*'|'/') expr
+     | INT
+     | '(' expr ')'
+     ;
+ID : [a-z]+ ;
+INT : [0-9]+ ;
+`;
+const analysis = AntlrAnalyzer.analyze(calc);
+const stat = analysis.rules.find((r) => r.name === 'stat');
+assert(
+  stat.alternativeLabels.map((l) => `${l.alternative}:${l.name}`).join(',') ===
+    '1:ExprStat,2:Assign',
+  'Extracts alternative labels',
+  JSON.stringify(stat.alternativeLabels)
+);
+const call = analysis.rules.find((r) => r.name === 'call');
+assert(
+  call.elementLabels.map((l) => `${l.name}${l.operator}${l.targetType}`).join(',') ===
+    'f=token,args+=rule,args+=rule',
+  'Extracts element labels with their operator and target type',
+  JSON.stringify(call.elementLabels)
+);
+const op = analysis.rules.find((r) => r.name === 'expr').elementLabels[0];
+assert(op.targetType === 'token', 'A label on a set of literals is a token label');
+assert(
+  analysis.rules.find((r) => r.name === 'prog').alternativeLabels === undefined,
+  'Unlabeled rules have no label fields'
+);
+assert(errors(calc).length === 0, 'Consistent labels produce no errors', errors(calc).join('; '));
+
+// Test 2: Validation
+console.log('\nTest 2: Label validation');
+const broken = `grammar Broken;
+prog : expr # Expr | ID ;
+stat : ID # Assign | INT # Assign ;
+decl : ID # Assign | INT # Lit ;
+pair[int n] : x=ID x+=ID | n=INT | ID=INT | y=(ID | prog) ;
+ID : [a-z]+ ;
+INT : [0-9]+ ;
+expr : INT ;
+`;
+const brokenErrors = errors(broken);
+const has = (text) => brokenErrors.some((m) => m.includes(text));
+assert(
+  has("Rule 'prog' labels some alternatives but not all (unlabeled: 2)"),
+  'Reports partially labeled rules'
+);
+assert(
+  has("Alternative label 'Expr' conflicts with rule 'expr'"),
+  'Reports labels clashing with rule names'
+);
+assert(
+  has("Alternative label 'Assign' in rule 'decl' is already used in rule 'stat'") &&
+    !brokenErrors.some((m) => m.includes("in rule 'stat' is already used")),
+  'Reports labels reused across rules but not within one rule'
+);
+assert(
+  has("Label 'x' in rule 'pair' is used as both a token label and a token list label"),
+  'Reports = vs += conflicts'
+);
+assert(has("Label 'n' in rule 'pair' conflicts with an argument"), 'Reports argument conflicts');
+assert(has("Label 'ID' in rule 'pair' conflicts with token 'ID'"), 'Reports token conflicts');
+assert(has("Label 'y' in rule 'pair' is on a block that is not a set"), 'Reports non-set blocks');
+
+// Test 3: label-alternatives
+console.log('\nTest 3: label-alternatives');
+const result = AntlrAnalyzer.labelAlternatives(calc, ['expr', 'stat', 'prog', 'ID']);
+assert(
+  result.success &&
+    result.modified.includes("expr op=('*'|'/') expr # MulDivExpr") &&
+    result.modified.includes('| INT # IntExpr') &&
+    result.modified.includes("| '(' expr ')' # ParenExpr"),
+  'Labels every alternative from its content',
+  result.modified
+);
+assert(
+  result.labels.length === 3 && !result.labels.some((l) => l.rule === 'stat'),
+  'Keeps existing labels'
+);
+assert(
+  result.message.includes("'prog' has a single alternative") &&
+    result.message.includes("'ID' is a lexer rule"),
+  'Reports rules that cannot be labeled',
+  result.message
+);
+assert(errors(result.modified).length === 0, 'Labeled grammar validates');
+
+const clash = AntlrAnalyzer.labelAlternatives(
+  'grammar C;\na : ID # IdB | ID ID ;\nb : ID | INT ;\nID : [a-z]+ ;\nINT : [0-9]+ ;\n',
+  ['a', 'b']
+);
+assert(
+  clash.labels.map((l) => l.label).join(',') === 'IdA,IdB2,IntB',
+  'Generated labels avoid existing labels',
+  JSON.stringify(clash.labels)
+);
+
+// Summary
+console.log('\n========================================');
+console.log('  Label Test Summary');
+console.log('========================================');
+console.log(`Passed: ${passCount}`);
+console.log(`Failed: ${failCount}`);
+console.log('========================================');
+
+process.exit(failCount > 0 ? 1 : 0);
@@ -0,0 +1,191 @@
+#!/usr/bin/env node
+
+/**
+ * Test left-factor-rule: common prefixes, nesting, optional remainders,
+ * labels and the before/after LL(1) conflicts
+ */
+
+const { AntlrAnalyzer } = require('../dist/antlrAnalyzer.js');
+
+let passCount = 0;
+let failCount = 0;
+
+function assert(condition, testName, details = '') {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+    passCount++;
+  } else {
+    console.log(`❌ FAIL: ${testName}`);
+    if (details) console.log(`   ${details}`);
+    failCount++;
+  }
+}
+
+console.log('Starting left-factor tests...\n');
+
+const grammar = `grammar Factor;
+
+a : X Y b | X Y c | Z ;
+
+stat
+    : 'if' expr 'then' stat
+    | 'if' expr 'then' stat 'else' stat
+    | ID '=' expr
+    ;
+
+nested : X Y Z b | X Y Z c | X Y d | Z ;
+
+call : ID | ID '(' expr ')' ;
+
+expr : expr '+' expr | expr '*' expr | INT ;
+
+labelled : X b # XB | X c # XC | Z # JustZ ;
+
+acts : X {count++;} b | X {count++;} c | x=X d ;
+
+b : B ;
+c : C ;
+d : D ;
+
+B : 'b' ; C : 'c' ; D : 'd' ; X : 'x' ; Y : 'y' ; Z : 'z' ;
+ID : [a-z]+ ;
+INT : [0-9]+ ;
+`;
+
+// Test 1: Basic factoring
+console.log('Test 1: Common prefixes');
+{
+  const result = AntlrAnalyzer.leftFactorRule(grammar, 'a');
+  assert(result.success && result.modified.includes('a : X Y (b | c) | Z ;'), 'X Y b | X Y c is factored', result.message);
+  assert(
+    result.factored.length === 1 &&
+      result.factored[0].prefix === 'X Y' &&
+      result.factored[0].alternatives.join() === '1,2',
+    'Factored group is reported with its prefix',
+    JSON.stringify(result.factored)
+  );
+  const others = result.modified.replace('a : X Y (b | c) | Z ;', 'a : X Y b | X Y c | Z ;');
+  assert(others === grammar, 'Nothing else changes');
+
+  const stat = AntlrAnalyzer.leftFactorRule(grammar, 'stat');
+  assert(
+    stat.success &&
+      stat.modified.includes("stat\n    : 'if' expr 'then' stat ('else' stat)?\n    | ID '=' expr\n    ;"),
+    'A remainder that only some alternatives have becomes optional',
+    stat.modified
+  );
+
+  const call = AntlrAnalyzer.leftFactorRule(grammar, 'call');
+  assert(
+    call.success && call.modified.includes("call : ID ('(' expr ')')? ;"),
+    'Single remaining sequence is wrapped in an optional block',
+    call.modified
+  );
+}
+
+// Test 2: Nested prefixes and minimum prefix length
+console.log('\nTest 2: Nested prefixes');
+{
+  const result = AntlrAnalyzer.leftFactorRule(grammar, 'nested');
+  assert(
+    result.success && result.modified.includes('nested : X Y (Z (b | c) | d) | Z ;'),
+    'Remainders are factored again',
+    result.modified
+  );
+
+  const short = AntlrAnalyzer.leftFactorRule(grammar, 'a', { minPrefixLength: 3 });
+  assert(
+    short.success && short.factored.length === 0 && short.modified === grammar,
+    'Prefixes shorter than minPrefixLength are left alone',
+    short.message
+  );
+}
+
+// Test 3: Left recursion, labels and actions
+console.log('\nTest 3: Left recursion, labels and actions');
+{
+  const expr = AntlrAnalyzer.leftFactorRule(grammar, 'expr');
+  assert(
+    expr.success && expr.factored.length === 0,
+    'Left-recursive alternatives are not merged',
+    expr.message
+  );
+
+  const refused = AntlrAnalyzer.leftFactorRule(grammar, 'labelled');
+  assert(
+    !refused.success &&
+      refused.modified === grammar &&
+      refused.message.includes('# XB, # XC'),
+    'Losing alternative labels is refused',
+    refused.message
+  );
+
+  const dropped = AntlrAnalyzer.leftFactorRule(grammar, 'labelled', { dropLabels: true });
+  const rule = dropped.modified.split('\n').find((line) => line.startsWith('labelled'));
+  assert(
+    dropped.success &&
+      dropped.droppedLabels.join() === 'XB,XC' &&
+      /^labelled : X \(b \| c\) # \w+ \| Z # JustZ ;$/.test(rule),
+    'Dropped labels are replaced by one label for the merged alternative',
+    rule
+  );
+
+  const acts = AntlrAnalyzer.leftFactorRule(grammar, 'acts');
+  assert(
+    acts.success && acts.modified.includes('acts : X {count++;} (b | c) | x=X d ;'),
+    'Identical actions are part of the prefix; labelled elements only match the same label',
+    acts.modified
+  );
+
+  const labelsOnly = AntlrAnalyzer.leftFactorRule('grammar L;\na : x=X Y | X Z ;\nX : [x] ;\nY : [y] ;\nZ : [z] ;\n', 'a');
+  assert(
+    !labelsOnly.success && labelsOnly.message.includes('element labels: alternatives 1, 2 (x=)'),
+    'Alternatives that differ only in element labels are refused for their labels',
+    labelsOnly.message
+  );
+  assert(
+    acts.message.includes('Kept apart because of element labels: alternatives 1, 2, 3 (x=)'),
+    'Alternatives kept apart by element labels are reported',
+    acts.message
+  );
+
+  const lexer = AntlrAnalyzer.leftFactorRule(grammar, 'ID');
+  assert(!lexer.success && lexer.message.includes('lexer rule'), 'Lexer rules are refused');
+  const missing = AntlrAnalyzer.leftFactorRule(grammar, 'nope');
+  assert(!missing.success && missing.message.includes('not found'), 'Unknown rules are refused');
+}
+
+// Test 4: FIRST-set conflicts before and after
+console.log('\nTest 4: Conflicts before and after');
+{
+  const call = AntlrAnalyzer.leftFactorRule(grammar, 'call');
+  assert(
+    call.conflictsBefore.length === 1 &&
+      call.conflictsBefore[0].conflicts.some((c) => c.token === 'ID') &&
+      call.conflictsAfter.length === 0,
+    'Conflict on ID disappears',
+    JSON.stringify(call.conflictsAfter)
+  );
+  assert(
+    call.message.includes('1 before, 0 after'),
+    'Message summarizes the conflicts',
+    call.message
+  );
+
+  const stat = AntlrAnalyzer.leftFactorRule(grammar, 'stat');
+  assert(
+    stat.conflictsAfter.length === 1 && stat.conflictsAfter[0].kind === 'optional',
+    'Remaining conflicts are reported (dangling else)',
+    JSON.stringify(stat.conflictsAfter)
+  );
+}
+
+// Summary
+console.log('\n========================================');
+console.log('  Left Factor Test Summary');
+console.log('========================================');
+console.log(`Passed: ${passCount}`);
+console.log(`Failed: ${failCount}`);
+console.log('========================================');
+
+process.exit(failCount > 0 ? 1 : 0);
@@ -0,0 +1,135 @@
+#!/usr/bin/env node
+
+/**
+ * Test mutual left recursion detection and the eliminate-left-recursion rewrite
+ */
+
+const { AntlrAnalyzer } = require('../dist/antlrAnalyzer.js');
+
+let passCount = 0;
+let failCount = 0;
+
+function assert(condition, testName, details = '') {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+    passCount++;
+  } else {
+    console.log(`❌ FAIL: ${testName}`);
+    if (details) console.log(`   ${details}`);
+    failCount++;
+  }
+}
+
+console.log('Starting left recursion tests...\n');
+
+const mutual = `grammar Mutual;
+a : b 'x' | 'y' ;
+b : c 'z' | 'w' ;
+c : a 'v' | 'u' ;
+d : d 'q' | 'r' ;
+`;
+
+// Test 1: Cycle detection
+console.log('Test 1: Cycle detection');
+const cycles = AntlrAnalyzer.findLeftRecursionCycles(AntlrAnalyzer.analyze(mutual));
+assert(
+  cycles.length === 1 && cycles[0].path.join(' → ') === 'a → b → c → a',
+  'Reports the full cycle path',
+  JSON.stringify(cycles)
+);
+assert(!cycles.some((c) => c.rules.includes('d')), 'Direct left recursion is not a cycle');
+const hidden = AntlrAnalyzer.findLeftRecursionCycles(
+  AntlrAnalyzer.analyze(`grammar Hidden;
+expr : mods? expr '+' ID | ID ;
+list : opt list ID | ID ;
+opt : ID? ;
+mods : 'm' ;
+ID : [a-z]+ ;
+`)
+);
+assert(
+  hidden.map((c) => c.path.join(' → ')).join(' | ') === 'expr → expr | list → list',
+  'Left recursion behind optional and nullable prefixes',
+  JSON.stringify(hidden)
+);
+const issue = AntlrAnalyzer.analyze(mutual).issues.find((i) => i.code === 119);
+assert(
+  issue && issue.type === 'error' && issue.message.includes('[a, b, c]: a → b → c → a'),
+  'Validation reports error 119',
+  issue && issue.message
+);
+
+// Test 2: Rewrite into direct left recursion
+console.log('\nTest 2: Rewrite into direct left recursion');
+const direct = AntlrAnalyzer.eliminateLeftRecursion(mutual);
+assert(
+  direct.success && direct.modified.includes("a : a 'v' 'z' 'x' | 'u' 'z' 'x' | 'w' 'x' | 'y' ;"),
+  'Expands the cycle into the first rule',
+  direct.modified
+);
+assert(
+  AntlrAnalyzer.findLeftRecursionCycles(AntlrAnalyzer.analyze(direct.modified)).length === 0,
+  'Result has no cycles left'
+);
+assert(direct.message.includes('No longer referenced: b'), 'Mentions rules that became unused', direct.message);
+
+const multiLine = AntlrAnalyzer.eliminateLeftRecursion(`grammar N;
+expr
+  : mods? expr '+' ID
+  | ID
+  ;
+mods : 'm' ;
+ID : [a-z]+ ;
+`);
+assert(
+  multiLine.success && multiLine.modified.includes("expr\n  : expr '+' ID\n  | mods expr '+' ID\n  | ID\n  ;"),
+  'Splits optional prefixes and keeps the multi-line layout',
+  multiLine.modified
+);
+
+// Test 3: Iteration
+console.log('\nTest 3: Rewrite into iteration');
+const loop = AntlrAnalyzer.eliminateLeftRecursion(
+  `grammar L;
+a : b 'x' | 'y' ;
+b : a 'z' | 'w' ;
+`,
+  'a',
+  'iteration'
+);
+assert(
+  loop.success && loop.modified.includes("a : ('w' 'x' | 'y') ('z' 'x')* ;"),
+  'Produces base (suffix)*',
+  loop.modified
+);
+
+// Test 4: Refusals
+console.log('\nTest 4: Refusals');
+assert(
+  !AntlrAnalyzer.eliminateLeftRecursion(mutual, 'd').success,
+  'Rule outside a cycle is refused for the direct strategy'
+);
+const labeled = AntlrAnalyzer.eliminateLeftRecursion(`grammar Lab;
+a : b 'x' # X | 'y' # Y ;
+b : a 'z' | 'w' ;
+`);
+assert(!labeled.success && labeled.message.includes('labeled'), 'Labeled alternatives are refused', labeled.message);
+const args = AntlrAnalyzer.eliminateLeftRecursion(`grammar Args;
+a : b[1] 'x' | 'y' ;
+b[int n] : a 'z' | 'w' ;
+`);
+assert(!args.success && args.modified.includes('b[1]'), 'Arguments are refused', args.message);
+assert(
+  !AntlrAnalyzer.eliminateLeftRecursion("grammar None;\na : 'a' ;\n").success,
+  'Grammar without cycles'
+);
+
+// Summary
+console.log('\n========================================');
+console.log('  Left Recursion Test Summary');
+console.log('========================================');
+console.log(`Passed: ${passCount}`);
+console.log(`Failed: ${failCount}`);
+console.log('========================================');
+
+process.exit(failCount > 0 ? 1 : 0);
@@ -0,0 +1,110 @@
+#!/usr/bin/env node
+
+/**
+ * Test validation of lexer commands, mode stack use and `more`
+ */
+
+const { AntlrAnalyzer } = require('../dist/antlrAnalyzer.js');
+
+let passCount = 0;
+let failCount = 0;
+
+function assert(condition, testName, details = '') {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+    passCount++;
+  } else {
+    console.log(`❌ FAIL: ${testName}`);
+    if (details) console.log(`   ${details}`);
+    failCount++;
+  }
+}
+
+function issuesOf(grammar) {
+  return AntlrAnalyzer.analyze(grammar).issues.filter((i) => i.type !== 'info');
+}
+
+function find(issues, ruleName, text) {
+  return issues.find((i) => i.ruleName === ruleName && i.message.includes(text));
+}
+
+function describe(issues) {
+  return issues.map((i) => `${i.lineNumber}:${i.code}: ${i.message}`).join(' | ');
+}
+
+console.log('Starting lexer command tests...\n');
+
+const issues = issuesOf(`lexer grammar Cmds;
+channels { COMMENTS }
+tokens { KEYWORD }
+OPEN : '<' -> pushMode(TAG) ;
+BAD : '!' -> mode(NOWHERE), type(NOPE) ;
+KW : 'if' -> type(KEYWORD) ;
+CMT : '#' -> channel(COMMENTS), skip ;
+HID : '$' -> channel(SECRET) ;
+TWICE : '%' -> skip, skip ;
+WRONG : '&' -> frobnicate ;
+BARE : '~' -> type ;
+EXTRA : '@' -> more(X) ;
+mode TAG;
+CLOSE : '>' -> popMode ;
+ATTR : 'a' -> mode(ATTRS) ;
+mode ATTRS;
+END : '/' -> popMode ;
+`);
+
+// Test 1: Command targets
+console.log('Test 1: Mode, token and channel targets');
+const mode = find(issues, 'BAD', 'NOWHERE');
+assert(mode && mode.code === 176 && mode.lineNumber === 5, 'Undefined mode (176)', describe(issues));
+assert(find(issues, 'BAD', 'NOPE') && find(issues, 'BAD', 'NOPE').code === 175, 'Undefined token type (175)');
+assert(!issues.some((i) => i.ruleName === 'KW'), 'Tokens declared in tokens {} are valid types');
+assert(find(issues, 'HID', 'SECRET') && find(issues, 'HID', 'SECRET').code === 177, 'Undeclared channel (177)');
+assert(!find(issues, 'CMT', 'COMMENTS'), 'Declared channels are valid');
+
+// Test 2: Command syntax and combinations
+console.log('\nTest 2: Command names, arguments and combinations');
+assert(find(issues, 'WRONG', 'frobnicate') && find(issues, 'WRONG', 'frobnicate').code === 149, 'Unknown command (149)');
+assert(find(issues, 'BARE', 'Missing argument') && find(issues, 'BARE', 'Missing').code === 150, 'Missing argument (150)');
+assert(find(issues, 'EXTRA', 'does not take') && find(issues, 'EXTRA', 'does not take').code === 151, 'Unwanted argument (151)');
+assert(find(issues, 'CMT', 'channel and skip') && find(issues, 'CMT', 'channel and skip').code === 179, 'skip with channel (179)');
+assert(find(issues, 'TWICE', 'Duplicated') && find(issues, 'TWICE', 'Duplicated').code === 178, 'Duplicated command (178)');
+
+// Test 3: Mode stack
+console.log('\nTest 3: popMode with an empty mode stack');
+assert(!issues.some((i) => i.message.includes('empty mode stack')), 'pushMode targets and modes switched to from them can pop', describe(issues));
+const stack = issuesOf(`lexer grammar Stack;
+STR : '"' -> mode(STRING) ;
+POP : ')' -> popMode ;
+mode STRING;
+TEXT : ~'"'+ ;
+QUOTE : '"' -> popMode ;
+`);
+assert(find(stack, 'POP', 'mode DEFAULT_MODE is never entered through pushMode'), 'popMode in DEFAULT_MODE', describe(stack));
+assert(
+  find(stack, 'QUOTE', 'empty mode stack') && find(stack, 'QUOTE', 'empty mode stack').lineNumber === 6,
+  'popMode in a mode only entered with mode()'
+);
+
+// Test 4: more
+console.log('\nTest 4: more without a rule that ends the token');
+const more = issuesOf(`lexer grammar More;
+OPEN : '"' -> more, pushMode(STRING) ;
+PLUS : '+' -> more ;
+ID : [a-z]+ ;
+mode STRING;
+TEXT : ~'"' -> more ;
+`);
+assert(find(more, 'OPEN', 'no rule in mode STRING ends a token'), 'more into a mode of more rules', describe(more));
+assert(find(more, 'TEXT', 'never emitted'), 'more in a mode of more rules');
+assert(!find(more, 'PLUS', 'more'), 'more followed by a rule that emits a token');
+
+// Summary
+console.log('\n========================================');
+console.log('  Lexer Commands Test Summary');
+console.log('========================================');
+console.log(`Passed: ${passCount}`);
+console.log(`Failed: ${failCount}`);
+console.log('========================================');
+
+process.exit(failCount > 0 ? 1 : 0);
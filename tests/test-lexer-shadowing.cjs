@@ -0,0 +1,138 @@
+#!/usr/bin/env node
+
+/**
+ * Test shadowed lexer rule detection on the compiled lexer automaton
+ */
+
+const { AntlrAnalyzer } = require('../dist/antlrAnalyzer.js');
+
+let passCount = 0;
+let failCount = 0;
+
+function assert(condition, testName, details = '') {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+    passCount++;
+  } else {
+    console.log(`❌ FAIL: ${testName}`);
+    if (details) console.log(`   ${details}`);
+    failCount++;
+  }
+}
+
+function shadowing(grammar) {
+  const result = AntlrAnalyzer.findShadowedLexerRules(AntlrAnalyzer.analyze(grammar));
+  result.byRule = new Map(result.shadowed.map((s) => [s.rule, s]));
+  return result;
+}
+
+console.log('Starting lexer shadowing tests...\n');
+
+const result = shadowing(`lexer grammar Shadow;
+IF : 'if' ;
+ID : [a-zA-Z_] [a-zA-Z_0-9]* ;
+WHILE : 'while' ;
+INT : DIGIT+ ;
+NUM : [0-9]+ ;
+HEX : '0' [xX] [0-9a-fA-F]+ ;
+COMMENT : '/*' .*? '*/' ;
+DOC : '/**' .*? '*/' ;
+OP : '+' | '-' | '++' ;
+INC : '++' ;
+OTHER : ~[ \\t\\r\\n] ;
+fragment DIGIT : [0-9] ;
+mode STRING;
+TEXT : ~'"'+ ;
+QUOTE : '"' ;
+`);
+const { byRule } = result;
+
+// Test 1: Rules that never win
+console.log('Test 1: Rules that can never match');
+const whileRule = byRule.get('WHILE');
+assert(
+  whileRule && whileRule.neverWins && whileRule.shadowedBy[0].rule === 'ID' && whileRule.shadowedBy[0].example === 'while',
+  'Keyword after the identifier rule',
+  JSON.stringify(whileRule)
+);
+assert(
+  byRule.get('NUM') && byRule.get('NUM').neverWins && byRule.get('NUM').shadowedBy[0].rule === 'INT',
+  'Fragments are inlined: DIGIT+ covers [0-9]+'
+);
+assert(
+  byRule.get('DOC') && byRule.get('DOC').neverWins && byRule.get('DOC').shadowedBy[0].example === '/***/',
+  'Wildcard loops: /** comments go to the earlier comment rule',
+  JSON.stringify(byRule.get('DOC'))
+);
+assert(byRule.get('INC') && byRule.get('INC').neverWins, 'Alternatives of an earlier rule');
+
+// Test 2: Partial shadowing
+console.log('\nTest 2: Partially shadowed rules');
+const id = byRule.get('ID');
+assert(
+  id && !id.neverWins && id.shadowedBy.length === 1 && id.shadowedBy[0].example === 'if',
+  'Identifier rule loses the keyword',
+  JSON.stringify(id)
+);
+const other = byRule.get('OTHER');
+assert(
+  other && !other.neverWins && other.shadowedBy.some((s) => s.rule === 'OP' && s.example === '+'),
+  'Negated set loses the characters earlier rules match',
+  JSON.stringify(other)
+);
+assert(!byRule.has('HEX') && !byRule.has('IF'), 'Longest match: HEX is not shadowed by INT');
+assert(
+  !byRule.has('QUOTE') && !byRule.has('TEXT'),
+  'Rules only compete within their mode',
+  JSON.stringify(result.shadowed.map((s) => s.rule))
+);
+
+// Test 3: Modeling limits
+console.log('\nTest 3: Predicates, recursion and case-insensitive grammars');
+const limits = shadowing(`lexer grammar Limits;
+options { caseInsensitive = true; }
+GUARDED : 'x' {false}? ;
+X : 'x' ;
+KW : 'select' ;
+ID : [a-z]+ ;
+SELECT : 'SELECT' ;
+NESTED : '(' (NESTED | ~[()])* ')' ;
+`);
+assert(
+  limits.byRule.get('SELECT') && limits.byRule.get('SELECT').shadowedBy[0].rule === 'KW',
+  'caseInsensitive makes literals match both cases',
+  JSON.stringify(limits.shadowed)
+);
+assert(
+  limits.skipped.some((s) => s.rule === 'NESTED' && s.reason.includes('recursive')),
+  'Recursive rules are skipped with a reason',
+  JSON.stringify(limits.skipped)
+);
+assert(!limits.byRule.has('X'), 'Predicated rules do not shadow later rules');
+
+// Test 4: analyze-ambiguities
+console.log('\nTest 4: Lexer conflicts in analyze-ambiguities');
+const issues = AntlrAnalyzer.analyzeAmbiguities(`grammar Amb;
+prog : (ID | WHILE)* ;
+ID : [a-z]+ ;
+WHILE : 'while' ;
+IF : 'if' ;
+`).issues.filter((i) => i.type === 'lexer-conflict');
+assert(
+  issues.length === 2 &&
+    issues.every((i) => i.severity === 'warning') &&
+    issues[0].description.includes('"while" goes to \'ID\' (line 3)') &&
+    issues[0].suggestion.includes("Move 'WHILE' above 'ID'"),
+  'Unreachable keywords are warnings with an example',
+  JSON.stringify(issues)
+);
+
+// Summary
+console.log('\n========================================');
+console.log('  Lexer Shadowing Test Summary');
+console.log('========================================');
+console.log(`Passed: ${passCount}`);
+console.log(`Failed: ${failCount}`);
+console.log('========================================');
+
+process.exit(failCount > 0 ? 1 : 0);
@@ -0,0 +1,183 @@
+#!/usr/bin/env node
+
+/**
+ * Test literals-to-tokens: token naming, reuse of lexer rules, placement of
+ * new tokens and multi-file rewriting
+ */
+
+const { AntlrAnalyzer } = require('../dist/antlrAnalyzer.js');
+const fs = require('fs');
+const path = require('path');
+const os = require('os');
+
+let passCount = 0;
+let failCount = 0;
+
+function assert(condition, testName, details = '') {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+    passCount++;
+  } else {
+    console.log(`❌ FAIL: ${testName}`);
+    if (details) console.log(`   ${details}`);
+    failCount++;
+  }
+}
+
+console.log('Starting literals-to-tokens tests...\n');
+
+const grammar = `grammar Shapes;
+
+unit : decl* EOF ;
+
+decl
+    : 'interface' ID '{' member* '}'
+    | 'var' name=ID (',' ID)* ';'
+    ;
+
+member : ID '<=' INT ';' | 'id' ~';' | 'instanceOf' '<=>' ;
+
+ID : [a-z]+ ;
+INT : [0-9]+ ;
+SEMI : ';' ;
+WS : [ \\t\\r\\n]+ -> skip ;
+`;
+
+// Test 1: Naming and reuse
+console.log('Test 1: Token names');
+const result = AntlrAnalyzer.literalsToTokens(grammar);
+const byLiteral = Object.fromEntries(result.tokens.map((t) => [t.literal, t]));
+{
+  assert(result.success, 'Combined grammar is converted', result.message);
+  assert(
+    byLiteral["'interface'"].name === 'INTERFACE' &&
+      byLiteral["'{'"].name === 'LBRACE' &&
+      byLiteral["','"].name === 'COMMA' &&
+      byLiteral["'<='"].name === 'LE',
+    'Keywords and punctuation get conventional names',
+    JSON.stringify(result.tokens)
+  );
+  assert(byLiteral["'instanceOf'"].name === 'INSTANCE_OF', 'camelCase keywords are split');
+  assert(byLiteral["'<=>'"].name === 'LT_ASSIGN_GT', 'Unknown operators are spelled out');
+  assert(byLiteral["'id'"].name === 'ID_KW', 'Clashing keyword names get a suffix');
+  assert(
+    byLiteral["';'"].name === 'SEMI' &&
+      !byLiteral["';'"].created &&
+      byLiteral["';'"].references === 3,
+    'Lexer rule defined as exactly the literal is reused',
+    JSON.stringify(byLiteral["';'"])
+  );
+  assert(
+    result.tokens.map((t) => t.literal)[0] === "'interface'" &&
+      result.message.includes('1 reused lexer rule(s), 9 new token(s)'),
+    'Tokens are listed in order of first use',
+    result.message
+  );
+}
+
+// Test 2: Rewritten grammar
+console.log('\nTest 2: Rewriting');
+{
+  const modified = result.modified;
+  assert(
+    modified.includes('    : INTERFACE ID LBRACE member* RBRACE\n    | VAR name=ID (COMMA ID)* SEMI'),
+    'Parser references are rewritten, labels are kept',
+    modified
+  );
+  assert(modified.includes('| ID_KW ~SEMI |'), 'Literals under ~ are rewritten');
+  assert(
+    modified.indexOf("INTERFACE : 'interface'") < modified.indexOf('ID : [a-z]+') &&
+      modified.indexOf("ID_KW : 'id'") < modified.indexOf('ID : [a-z]+'),
+    'New tokens are defined before the first lexer rule',
+    modified
+  );
+  assert(
+    !AntlrAnalyzer.analyze(modified).rules.some(
+      (r) => r.type === 'parser' && /'/.test(r.definition)
+    ),
+    'No literals are left in parser rules'
+  );
+  assert(modified.includes("WS : [ \\t\\r\\n]+ -> skip ;"), 'Lexer rules are untouched');
+
+  const again = AntlrAnalyzer.literalsToTokens(modified);
+  assert(
+    again.success && again.modified === modified && again.tokens.length === 0,
+    'Running again changes nothing',
+    again.message
+  );
+}
+
+// Test 3: Name overrides and refusals
+console.log('\nTest 3: Overrides and refusals');
+{
+  const named = AntlrAnalyzer.literalsToTokens(grammar, { names: { "'<='": 'LTE' } });
+  assert(
+    named.success && named.modified.includes('member : ID LTE INT SEMI') && named.modified.includes("LTE : '<=';"),
+    'names overrides the generated name',
+    named.message
+  );
+  const taken = AntlrAnalyzer.literalsToTokens(grammar, { names: { "'<='": 'INT' } });
+  assert(!taken.success && taken.message.includes('already in use'), 'Names in use are refused');
+  const invalid = AntlrAnalyzer.literalsToTokens(grammar, { names: { "'<='": 'lte' } });
+  assert(!invalid.success && invalid.message.includes('Invalid token name'), 'Lowercase names are refused');
+
+  const parser = AntlrAnalyzer.literalsToTokens("parser grammar P;\ns : 'x' ;\n");
+  assert(
+    !parser.success && parser.message.includes('tokenVocab'),
+    'Parser grammars need their lexer grammar',
+    parser.message
+  );
+}
+
+// Test 4: Multi-file
+console.log('\nTest 4: Multi-file');
+const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'antlr-literals-'));
+try {
+  const lexer = path.join(testDir, 'MyLexer.g4');
+  const parser = path.join(testDir, 'MyParser.g4');
+  const stmts = path.join(testDir, 'Stmts.g4');
+  fs.writeFileSync(lexer, 'lexer grammar MyLexer;\n\nSEMI : \';\' ;\nID : [a-z]+ ;\n');
+  fs.writeFileSync(
+    parser,
+    'parser grammar MyParser;\noptions { tokenVocab = MyLexer; }\nimport Stmts;\n\nprog : stmt* EOF ;\n'
+  );
+  fs.writeFileSync(stmts, "parser grammar Stmts;\n\nstmt : 'print' ID ';' | 'return' ';' ;\n");
+
+  const multi = AntlrAnalyzer.literalsToTokensMultiFile(parser);
+  const files = Object.fromEntries(multi.modifiedFiles.map((f) => [path.basename(f.filePath), f]));
+  assert(multi.success && multi.modifiedFiles.length === 2, 'Imported grammar and lexer change', multi.message);
+  assert(
+    files['Stmts.g4'].content.includes('stmt : PRINT ID SEMI | RETURN SEMI ;'),
+    'Imported parser grammar is rewritten',
+    files['Stmts.g4'].content
+  );
+  assert(
+    files['MyLexer.g4'].content.includes("PRINT : 'print';\nRETURN : 'return';\nSEMI : ';' ;"),
+    'New tokens are added to the tokenVocab lexer grammar',
+    files['MyLexer.g4'].content
+  );
+  assert(
+    multi.tokens.find((t) => t.literal === "';'").created === false,
+    'Tokens of the vocabulary lexer are reused'
+  );
+
+  fs.writeFileSync(parser, 'parser grammar MyParser;\nimport Stmts;\n\nprog : stmt* EOF ;\n');
+  const noVocab = AntlrAnalyzer.literalsToTokensMultiFile(parser);
+  assert(
+    !noVocab.success && noVocab.message.includes('no tokenVocab lexer grammar'),
+    'Parser grammar without a lexer grammar is refused',
+    noVocab.message
+  );
+} finally {
+  fs.rmSync(testDir, { recursive: true, force: true });
+}
+
+// Summary
+console.log('\n========================================');
+console.log('  Literals to Tokens Test Summary');
+console.log('========================================');
+console.log(`Passed: ${passCount}`);
+console.log(`Failed: ${failCount}`);
+console.log('========================================');
+
+process.exit(failCount > 0 ? 1 : 0);
@@ -0,0 +1,235 @@
+#!/usr/bin/env node
+
+/**
+ * Test moving rules between the files of an import graph
+ */
+
+const { AntlrAnalyzer } = require('../dist/antlrAnalyzer.js');
+const { parseGrammar } = require('../dist/grammarParser.js');
+const fs = require('fs');
+const path = require('path');
+const os = require('os');
+
+let passCount = 0;
+let failCount = 0;
+
+function assert(condition, testName, details = '') {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+    passCount++;
+  } else {
+    console.log(`❌ FAIL: ${testName}`);
+    if (details) console.log(`   ${details}`);
+    failCount++;
+  }
+}
+
+console.log('Starting move-rule-to-file tests...\n');
+
+const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'antlr-move-'));
+const file = (name) => path.join(testDir, name);
+const write = (name, content) => fs.writeFileSync(file(name), content);
+
+try {
+  write(
+    'Main.g4',
+    `grammar Main;
+import Exprs, Common;
+
+prog : stat+ EOF ;
+
+// A statement
+stat : expr ';' ;
+
+ID : [a-z]+ ;
+`
+  );
+  write(
+    'Exprs.g4',
+    `parser grammar Exprs;
+import Common;
+
+expr : expr '+' atom | atom ;
+`
+  );
+  write(
+    'Common.g4',
+    `parser grammar Common;
+
+atom : ID | NUM ;
+`
+  );
+
+  // Test 1: Moving a rule into an imported file
+  console.log('Test 1: Moving rules');
+  const result = AntlrAnalyzer.moveRulesToFile(file('Main.g4'), ['stat'], file('Exprs.g4'));
+  const content = (name) => result.modifiedFiles.find((f) => f.filePath === file(name))?.content;
+  {
+    assert(result.success, 'Rule is moved', result.message);
+    assert(
+      content('Main.g4') === "grammar Main;\nimport Exprs, Common;\n\nprog : stat+ EOF ;\n\nID : [a-z]+ ;\n",
+      'Rule and its comment leave the source file',
+      JSON.stringify(content('Main.g4'))
+    );
+    assert(
+      content('Exprs.g4') ===
+        "parser grammar Exprs;\nimport Common;\n\nexpr : expr '+' atom | atom ;\n\n// A statement\nstat : expr ';' ;\n",
+      'Rule and its comment are added after the rules of the same kind',
+      JSON.stringify(content('Exprs.g4'))
+    );
+    assert(
+      JSON.stringify(result.modifiedFiles.map((f) => [path.basename(f.filePath), f.added, f.removed])) ===
+        JSON.stringify([
+          ['Main.g4', [], ['stat']],
+          ['Exprs.g4', ['stat'], []],
+        ]),
+      'Modified files report added and removed rules'
+    );
+    assert(result.warnings.length === 0, 'Moving into an import does not change resolution');
+    assert(fs.readFileSync(file('Main.g4'), 'utf-8').includes('stat :'), 'Files are not written');
+
+    const anchored = AntlrAnalyzer.moveRulesToFile(file('Main.g4'), ['stat'], file('Exprs.g4'), {
+      insertBefore: 'expr',
+    });
+    const exprs = anchored.modifiedFiles.find((f) => f.filePath === file('Exprs.g4'))?.content || '';
+    assert(
+      anchored.success && parseGrammar(exprs).rules.map((r) => r.name).join() === 'stat,expr',
+      'Rules can be placed before an anchor rule',
+      anchored.message
+    );
+  }
+
+  // Test 2: Visibility checks
+  console.log('\nTest 2: Visibility');
+  {
+    const hidden = AntlrAnalyzer.moveRulesToFile(file('Main.g4'), ['prog'], file('Common.g4'));
+    assert(
+      !hidden.success && hidden.message.includes("'prog' uses stat, which Common.g4 cannot see"),
+      'Moved rule must still see what it references',
+      hidden.message
+    );
+    const lost = AntlrAnalyzer.moveRulesToFile(file('Main.g4'), ['atom'], file('Main.g4'));
+    assert(
+      !lost.success && lost.message.includes("'expr' in Exprs.g4 uses 'atom'"),
+      'Other files must still see the moved rule',
+      lost.message
+    );
+    const both = AntlrAnalyzer.moveRulesToFile(file('Exprs.g4'), ['expr', 'atom'], file('Main.g4'));
+    assert(
+      !both.success && both.message.includes('not part of the import graph'),
+      'Target must be in the import graph of the main grammar'
+    );
+    const lexerRule = AntlrAnalyzer.moveRulesToFile(file('Main.g4'), ['ID'], file('Common.g4'));
+    assert(
+      !lexerRule.success && lexerRule.message.includes('Cannot move lexer rule'),
+      'Target grammar kind is checked'
+    );
+  }
+
+  // Test 3: Override resolution
+  console.log('\nTest 3: Override warnings');
+  {
+    write('Lib.g4', "parser grammar Lib;\nexpr : 'lib' ;\n");
+    write('Exprs.g4', "parser grammar Exprs;\nimport Lib, Common;\n\nexpr : atom ;\n");
+    const reordered = AntlrAnalyzer.moveRulesToFile(file('Main.g4'), ['expr'], file('Common.g4'));
+    assert(
+      reordered.success && reordered.warnings.some((w) => w.includes("definition of 'expr' in Lib.g4")),
+      'Move that lets another definition win is reported',
+      JSON.stringify(reordered.warnings)
+    );
+    const toMain = AntlrAnalyzer.moveRulesToFile(file('Main.g4'), ['expr'], file('Main.g4'));
+    assert(toMain.success && toMain.warnings.length === 0, 'Move toward the importing grammar keeps resolution');
+    const defined = AntlrAnalyzer.moveRulesToFile(file('Main.g4'), ['expr'], file('Lib.g4'));
+    assert(!defined.success && defined.message.includes('Lib.g4 already defines'), 'Target must not define the rule');
+  }
+
+  // Test 4: Lexer rules and tokenVocab
+  console.log('\nTest 4: Lexer grammars');
+  {
+    write('P.g4', 'parser grammar P;\noptions { tokenVocab = L; }\na : A B ;\n');
+    write('L.g4', "lexer grammar L;\nimport LBase;\nA : 'a' -> pushMode(M) ;\nmode M;\nB : 'b' -> popMode ;\n");
+    write('LBase.g4', "lexer grammar LBase;\nX : 'x' ;\n");
+    const modeRule = AntlrAnalyzer.moveRulesToFile(file('P.g4'), ['B'], file('LBase.g4'));
+    const lbase = modeRule.modifiedFiles.find((f) => f.filePath === file('LBase.g4'))?.content || '';
+    assert(
+      modeRule.success && parseGrammar(lbase).rules.find((r) => r.name === 'B')?.mode === 'M',
+      'Mode rule moves into a new mode of the target',
+      modeRule.message + lbase
+    );
+    const l = modeRule.modifiedFiles.find((f) => f.filePath === file('L.g4'))?.content;
+    assert(
+      l === "lexer grammar L;\nimport LBase;\nA : 'a' -> pushMode(M) ;\n",
+      'Mode left without rules is removed',
+      JSON.stringify(l)
+    );
+    const pushes = AntlrAnalyzer.moveRulesToFile(file('P.g4'), ['A'], file('LBase.g4'));
+    assert(
+      !pushes.success && pushes.message.includes('uses M'),
+      'Modes referenced by lexer commands are checked',
+      pushes.message
+    );
+  }
+
+  // Test 5: Rules sharing a line
+  console.log('\nTest 5: Rules sharing a line');
+  {
+    write('S.g4', 'parser grammar S;\nimport T;\nexpr : atom ; atom : ID ; other : ID ;\n');
+    write('T.g4', 'parser grammar T;\nbase : ID ;\n');
+    const last = AntlrAnalyzer.moveRulesToFile(file('S.g4'), ['other'], file('T.g4'));
+    const s = last.modifiedFiles.find((f) => f.filePath === file('S.g4'))?.content;
+    const t = last.modifiedFiles.find((f) => f.filePath === file('T.g4'))?.content;
+    assert(
+      last.success && s === 'parser grammar S;\nimport T;\nexpr : atom ; atom : ID ;\n',
+      'Only the moved rule leaves the shared line',
+      JSON.stringify(s)
+    );
+    assert(t === 'parser grammar T;\nbase : ID ;\n\nother : ID ;\n', 'Only the moved rule is added', JSON.stringify(t));
+
+    const middle = AntlrAnalyzer.moveRulesToFile(file('S.g4'), ['atom'], file('T.g4'), { insertBefore: 'base' });
+    assert(
+      middle.modifiedFiles.find((f) => f.filePath === file('S.g4'))?.content ===
+        'parser grammar S;\nimport T;\nexpr : atom ; other : ID ;\n' &&
+        middle.modifiedFiles.find((f) => f.filePath === file('T.g4'))?.content ===
+          'parser grammar T;\natom : ID ;\n\nbase : ID ;\n',
+      'A rule in the middle of a line is cut out by its span'
+    );
+
+    write('U.g4', 'parser grammar U;\nimport V;\nfirst : ID ;\n');
+    write('V.g4', 'parser grammar V;\nx : ID ; y : ID ;\n');
+    const anchored = AntlrAnalyzer.moveRulesToFile(file('U.g4'), ['first'], file('V.g4'), { insertAfter: 'x' });
+    const v = anchored.modifiedFiles.find((f) => f.filePath === file('V.g4'))?.content;
+    assert(
+      v === 'parser grammar V;\nx : ID ;\n\nfirst : ID ;\n\ny : ID ;\n',
+      'An anchor sharing its line is split off',
+      JSON.stringify(v)
+    );
+  }
+
+  // Test 6: Lexer priority across files
+  console.log('\nTest 6: Lexer priority');
+  {
+    write('K.g4', "grammar K;\nimport KT;\ns : (IF | ID | NUM)+ ;\nIF : 'if' ;\nID : [a-z]+ ;\n");
+    write('KT.g4', 'lexer grammar KT;\nNUM : [0-9]+ ;\n');
+    const keyword = AntlrAnalyzer.moveRulesToFile(file('K.g4'), ['IF'], file('KT.g4'));
+    assert(
+      keyword.success &&
+        keyword.warnings.some((w) => w.includes("'IF' would never match") && w.includes("goes to 'ID'")),
+      'Moving a keyword behind the rule that takes its strings warns',
+      JSON.stringify(keyword.warnings)
+    );
+    const both = AntlrAnalyzer.moveRulesToFile(file('K.g4'), ['IF', 'ID'], file('KT.g4'));
+    assert(both.success && both.warnings.length === 0, 'Moves that keep the order do not warn', JSON.stringify(both.warnings));
+  }
+} finally {
+  fs.rmSync(testDir, { recursive: true, force: true });
+}
+
+// Summary
+console.log('\n========================================');
+console.log('  Move Rule To File Test Summary');
+console.log('========================================');
+console.log(`Passed: ${passCount}`);
+console.log(`Failed: ${failCount}`);
+console.log('========================================');
+
+process.exit(failCount > 0 ? 1 : 0);
@@ -0,0 +1,108 @@
+#!/usr/bin/env node
+
+/**
+ * Test nullable-rule and empty-closure analysis
+ */
+
+const { AntlrAnalyzer } = require('../dist/antlrAnalyzer.js');
+
+let passCount = 0;
+let failCount = 0;
+
+function assert(condition, testName, details = '') {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+    passCount++;
+  } else {
+    console.log(`❌ FAIL: ${testName}`);
+    if (details) console.log(`   ${details}`);
+    failCount++;
+  }
+}
+
+console.log('Starting nullability tests...\n');
+
+const grammar = `grammar Null;
+prog : stat* EOF ;
+stat : decl ';' | block ;
+block : mods body ;
+mods : modifier* ;
+body : ('{' stat* '}')? ;
+decl : (ID?)* ;
+expr : mods expr '+' ID | expr mods | ID ;
+modifier : 'public' | 'static' ;
+ID : LETTER+ ;
+SPACE : BLANK ;
+fragment BLANK : ' '? ;
+fragment LETTER : [a-z] ;
+`;
+const result = AntlrAnalyzer.analyzeNullability(grammar);
+const byName = new Map(result.nullableRules.map((r) => [r.name, r]));
+
+// Test 1: Nullable rules
+console.log('Test 1: Nullable rules');
+assert(
+  ['stat', 'block', 'mods', 'body', 'decl', 'SPACE', 'BLANK'].every((n) => byName.has(n)) &&
+    !byName.has('prog') &&
+    !byName.has('expr') &&
+    !byName.has('ID'),
+  'Finds parser and lexer rules that derive the empty string',
+  [...byName.keys()].join(',')
+);
+assert(byName.get('stat').alternative === 2, 'Records the alternative that derives epsilon');
+assert(
+  byName.get('stat').chain.join(',') === 'stat,block,mods' &&
+    byName.get('stat').derivation.startsWith('stat ⇒ block ⇒ mods ⇒ ε'),
+  'Derivation chain follows the nullable references',
+  byName.get('stat').derivation
+);
+assert(
+  byName.get('mods').derivation.includes('has only optional elements'),
+  'Explains how the last rule derives epsilon',
+  byName.get('mods').derivation
+);
+assert(byName.get('SPACE').chain.join(',') === 'SPACE,BLANK', 'Lexer chains go through fragments');
+
+// Test 2: Closures
+console.log('\nTest 2: Closures around nullable elements');
+const closures = result.emptyClosures;
+assert(
+  closures.some((c) => c.ruleName === 'prog' && c.element === 'stat*' && c.kind === 'closure'),
+  'Flags a closure over a nullable rule',
+  JSON.stringify(closures)
+);
+assert(
+  closures.some(
+    (c) => c.ruleName === 'decl' && c.element === '(ID?)*' && c.reason.includes('alternative 1')
+  ),
+  'Flags (x?)* closures'
+);
+assert(
+  closures.some((c) => c.ruleName === 'prog' && c.reason.includes('stat ⇒ block')),
+  'Closure reason includes the derivation'
+);
+assert(!closures.some((c) => c.ruleName === 'ID'), 'Non-nullable closures are not flagged');
+
+// Test 3: Left recursion
+console.log('\nTest 3: Left recursion and nullable elements');
+const lr = result.nullableLeftRecursion;
+assert(
+  lr.some((i) => i.ruleName === 'expr' && i.alternative === 1 && i.kind === 'hidden'),
+  'Left recursion behind a nullable prefix',
+  JSON.stringify(lr)
+);
+assert(
+  lr.some((i) => i.ruleName === 'expr' && i.alternative === 2 && i.kind === 'empty-follow'),
+  'Left-recursive alternative followed only by nullable elements'
+);
+assert(result.summary.startsWith('7 nullable rule(s)'), 'Summary counts', result.summary);
+
+// Summary
+console.log('\n========================================');
+console.log('  Nullability Test Summary');
+console.log('========================================');
+console.log(`Passed: ${passCount}`);
+console.log(`Failed: ${failCount}`);
+console.log('========================================');
+
+process.exit(failCount > 0 ? 1 : 0);
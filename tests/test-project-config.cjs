@@ -0,0 +1,433 @@
+#!/usr/bin/env node
+
+/**
+ * Test project config files and inline suppression comments
+ */
+
+const { AntlrAnalyzer } = require('../dist/antlrAnalyzer.js');
+const fs = require('fs');
+const path = require('path');
+const os = require('os');
+
+let passCount = 0;
+let failCount = 0;
+
+function assert(condition, testName, details = '') {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+    passCount++;
+  } else {
+    console.log(`❌ FAIL: ${testName}`);
+    if (details) console.log(`   ${details}`);
+    failCount++;
+  }
+}
+
+console.log('Starting project config tests...\n');
+
+const grammar = `grammar Style;
+prog : stat+ EOF ;
+stat : A | B | C | D | E | F | G | H | I | J | K | L ;
+orphan : A ;
+other : B ;
+A : 'a' ; B : 'b' ; C : 'c' ; D : 'd' ; E : 'e' ; F : 'f' ;
+G : 'g' ; H : 'h' ; I : 'i' ; J : 'j' ; K : 'k' ; L : 'l' ;
+`;
+
+const checksOf = (issues) => issues.map((i) => `${i.check}@${i.lineNumber ?? '-'}`);
+
+// Test 1: Config parsing accepts severities, booleans and objects
+console.log('Test 1: Config parsing');
+{
+  const config = AntlrAnalyzer.parseProjectConfig(
+    JSON.stringify({
+      checks: {
+        'unused-rule': 'warning',
+        'undocumented-rule': false,
+        'lexer-rule-naming': true,
+        'too-many-alternatives': { severity: 'info', max: 15 },
+      },
+    }),
+    '/project/.antlr4-mcp.json'
+  );
+  assert(!config.error, 'Valid config has no error', config.error);
+  assert(config.path === '/project/.antlr4-mcp.json', 'Config remembers its path');
+  assert(config.checks['unused-rule'].severity === 'warning', 'String value sets the severity');
+  assert(config.checks['undocumented-rule'].severity === 'off', 'false turns a check off');
+  assert(
+    config.checks['too-many-alternatives'].max === 15 &&
+      config.checks['too-many-alternatives'].severity === 'info',
+    'Object value keeps severity and thresholds'
+  );
+
+  const broken = AntlrAnalyzer.parseProjectConfig('{ "checks": ', 'x.json');
+  assert(broken.error && broken.error.includes('invalid JSON'), 'Invalid JSON is reported', broken.error);
+  const badSeverity = AntlrAnalyzer.parseProjectConfig('{ "checks": { "unused-rule": "loud" } }');
+  assert(
+    badSeverity.error && badSeverity.error.includes('unused-rule') && Object.keys(badSeverity.checks).length === 0,
+    'Unknown severity invalidates the config',
+    badSeverity.error
+  );
+  const badThreshold = AntlrAnalyzer.parseProjectConfig(
+    '{ "checks": { "too-many-alternatives": { "max": "many" } } }'
+  );
+  assert(
+    badThreshold.error && badThreshold.error.includes('"max"'),
+    'Non-numeric threshold is reported',
+    badThreshold.error
+  );
+}
+
+// Test 2: Config discovery walks up from the grammar directory
+console.log('\nTest 2: Config discovery');
+const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'antlr-config-'));
+try {
+  const nested = path.join(testDir, 'grammars', 'sql');
+  fs.mkdirSync(nested, { recursive: true });
+  const grammarPath = path.join(nested, 'Style.g4');
+  fs.writeFileSync(grammarPath, grammar);
+
+  const none = AntlrAnalyzer.loadProjectConfig(grammarPath);
+  assert(!none.path && Object.keys(none.checks).length === 0, 'No config file means no settings');
+
+  const configPath = path.join(testDir, '.antlr4-mcp.json');
+  fs.writeFileSync(configPath, JSON.stringify({ checks: { 'unused-rule': 'off' } }));
+  const found = AntlrAnalyzer.loadProjectConfig(grammarPath);
+  assert(found.path === configPath, 'Config in a parent directory is found', found.path);
+
+  const closer = path.join(nested, '.antlr4-mcp.json');
+  fs.writeFileSync(closer, '[1, 2]');
+  const nearest = AntlrAnalyzer.loadProjectConfig(grammarPath);
+  assert(
+    nearest.path === closer && nearest.error && nearest.error.includes('expected a JSON object'),
+    'Nearest config wins, even when it is invalid',
+    nearest.error
+  );
+} finally {
+  fs.rmSync(testDir, { recursive: true, force: true });
+}
+
+// Test 3: check-style honours severities and thresholds
+console.log('\nTest 3: check-style config');
+{
+  const plain = AntlrAnalyzer.checkStyle(grammar);
+  assert(
+    checksOf(plain.issues).includes('too-many-alternatives@3'),
+    'Twelve alternatives exceed the default maximum',
+    checksOf(plain.issues).join(', ')
+  );
+
+  const config = AntlrAnalyzer.parseProjectConfig(
+    JSON.stringify({
+      checks: {
+        'too-many-alternatives': { max: 12 },
+        'undocumented-rule': 'off',
+        'unused-rule': 'warning',
+      },
+    })
+  );
+  const tuned = AntlrAnalyzer.checkStyle(grammar, config);
+  const checks = checksOf(tuned.issues);
+  assert(!checks.some((c) => c.startsWith('too-many-alternatives')), 'Raised maximum is applied', checks.join(', '));
+  assert(!checks.some((c) => c.startsWith('undocumented-rule')), 'Disabled check is dropped');
+  assert(
+    tuned.issues.filter((i) => i.check === 'unused-rule').every((i) => i.severity === 'warning') &&
+      tuned.summary.warnings === tuned.issues.filter((i) => i.check === 'unused-rule').length,
+    'Severity override feeds the summary',
+    JSON.stringify(tuned.summary)
+  );
+  assert(tuned.score === 100 - tuned.summary.warnings * 5, 'Score counts the configured severities');
+}
+
+// Test 4: Suppression comments
+console.log('\nTest 4: Suppression comments');
+{
+  const suppressed = `grammar Style;
+prog : stat+ EOF ;
+// antlr4-mcp-disable-next-line too-many-alternatives, undocumented-rule -- keyword list
+// (kept flat on purpose)
+
+stat : A | B | C | D | E | F | G | H | I | J | K | L ;
+orphan : A ; // antlr4-mcp-disable-line unused-rule
+/* antlr4-mcp-disable unused-rule */
+other : B ;
+spare : C ;
+/* antlr4-mcp-enable unused-rule */
+last : D ;
+A : 'a' ; B : 'b' ; C : 'c' ; D : 'd' ; E : 'e' ; F : 'f' ;
+G : 'g' ; H : 'h' ; I : 'i' ; J : 'j' ; K : 'k' ; L : 'l' ;
+`;
+  const checks = checksOf(AntlrAnalyzer.checkStyle(suppressed).issues);
+  assert(
+    !checks.includes('too-many-alternatives@6') && !checks.includes('undocumented-rule@6'),
+    'disable-next-line skips blank and comment-only lines',
+    checks.join(', ')
+  );
+  assert(!checks.includes('unused-rule@7'), 'disable-line silences its own line');
+  assert(
+    !checks.includes('unused-rule@9') && !checks.includes('unused-rule@10'),
+    'disable/enable range silences the lines in between'
+  );
+  assert(checks.includes('unused-rule@12'), 'Checks resume after enable', checks.join(', '));
+
+  const all = AntlrAnalyzer.checkStyle(`grammar Style;
+prog : A ;
+// antlr4-mcp-disable-next-line
+Lower_case : 'x' ;
+A : 'a' ;
+`);
+  assert(
+    !checksOf(all.issues).some((c) => c.endsWith('@4')),
+    'No check ids silence every check',
+    checksOf(all.issues).join(', ')
+  );
+  const other = AntlrAnalyzer.checkStyle(`grammar Style;
+prog : A ;
+// antlr4-mcp-disable-next-line unused-rule
+Lower_case : 'x' ;
+A : 'a' ;
+`);
+  assert(
+    checksOf(other.issues).includes('lexer-rule-naming@4'),
+    'Other checks on the line still report'
+  );
+}
+
+// Test 5: detect-redos maps configured severities and thresholds
+console.log('\nTest 5: detect-redos');
+{
+  const lexer = `lexer grammar L;
+STR : ('ab' | 'ac')+ ;
+// antlr4-mcp-disable-next-line redos-common-prefix
+STR2 : ('xy' | 'xz')+ ;
+WORD : [a-zA-Z0-9]+ ;
+`;
+  const plain = AntlrAnalyzer.detectReDoS(lexer);
+  const prefix = plain.vulnerabilities.filter((v) => v.check === 'redos-common-prefix');
+  assert(
+    prefix.length === 1 && prefix[0].ruleName === 'STR',
+    'Suppressed ReDoS finding is dropped',
+    JSON.stringify(plain.vulnerabilities.map((v) => [v.check, v.ruleName]))
+  );
+  assert(
+    !plain.vulnerabilities.some((v) => v.check === 'redos-broad-repetition'),
+    'Short class is below the default breadth'
+  );
+
+  const config = AntlrAnalyzer.parseProjectConfig(
+    JSON.stringify({
+      checks: {
+        'redos-common-prefix': 'error',
+        'redos-broad-repetition': { minClassLength: 5 },
+      },
+    })
+  );
+  const tuned = AntlrAnalyzer.detectReDoS(lexer, config);
+  assert(
+    tuned.vulnerabilities.find((v) => v.check === 'redos-common-prefix')?.severity === 'high' &&
+      tuned.summary.high === 1,
+    'error severity maps to high'
+  );
+  assert(
+    tuned.vulnerabilities.some((v) => v.check === 'redos-broad-repetition' && v.ruleName === 'WORD'),
+    'Lower minClassLength flags the class'
+  );
+}
+
+// Test 6: analyze-ambiguities and validation issues
+console.log('\nTest 6: Ambiguities and validation issues');
+{
+  const ambiguous = `grammar Amb;
+prog : stat EOF ;
+stat : ID '=' expr | ID '=' ID ;
+// antlr4-mcp-disable-next-line identical-alternatives
+expr : ID | INT | ID ;
+ID : [a-z]+ ;
+INT : [0-9]+ ;
+`;
+  const result = AntlrAnalyzer.analyzeAmbiguities(ambiguous);
+  assert(
+    !result.issues.some((i) => i.type === 'identical-alternatives'),
+    'Suppressed ambiguity is dropped',
+    JSON.stringify(result.issues.map((i) => [i.type, i.line]))
+  );
+  assert(result.issues.some((i) => i.type === 'overlapping-prefix'), 'Prefix overlap is reported');
+  const config = AntlrAnalyzer.parseProjectConfig(
+    JSON.stringify({ checks: { 'overlapping-prefix': { minPrefixLength: 3 } } })
+  );
+  const tuned = AntlrAnalyzer.analyzeAmbiguities(ambiguous, {}, config);
+  assert(
+    !tuned.issues.some((i) => i.type === 'overlapping-prefix'),
+    'Configured minPrefixLength is used when the option is absent'
+  );
+  const explicit = AntlrAnalyzer.analyzeAmbiguities(ambiguous, { minPrefixLength: 2 }, config);
+  assert(
+    explicit.issues.some((i) => i.type === 'overlapping-prefix'),
+    'Explicit option beats the config'
+  );
+
+  const undefinedRef = `grammar Val;
+prog : stat EOF ;
+// antlr4-mcp-disable-next-line antlr-56
+stat : missing ;
+unused : ID ;
+ID : [a-z]+ ;
+`;
+  const issues = AntlrAnalyzer.analyze(undefinedRef).issues;
+  assert(
+    issues.some((i) => AntlrAnalyzer.issueCheck(i) === 'antlr-56'),
+    'Coded issues use antlr-<code> ids'
+  );
+  const filtered = AntlrAnalyzer.applyIssuePolicy(
+    issues,
+    undefinedRef,
+    AntlrAnalyzer.parseProjectConfig('{ "checks": { "unused-rule": "error" } }')
+  );
+  assert(!filtered.some((i) => i.code === 56), 'Suppressed validation issue is dropped');
+  assert(
+    filtered.find((i) => i.check === 'unused-rule')?.type === 'error',
+    'Validation severity override is applied',
+    JSON.stringify(filtered)
+  );
+}
+
+// Test 7: Quantifier findings
+console.log('\nTest 7: Quantifier findings');
+{
+  const quantifiers = `grammar Q;
+prog : policy other EOF ;
+// antlr4-mcp-disable-next-line quantifier-issue -- each part appears once
+policy : source? destination? action? ;
+other : source? destination? action? ;
+source : 'src' ; destination : 'dst' ; action : 'act' ;
+`;
+  const analysis = AntlrAnalyzer.analyze(quantifiers);
+  const found = AntlrAnalyzer.detectSuspiciousQuantifiers(analysis);
+  const kept = AntlrAnalyzer.applyCheckPolicy(found, quantifiers, undefined, (issue) => ({
+    check: 'quantifier-issue',
+    lineNumber: issue.lineNumber,
+  }));
+  assert(
+    found.some((i) => i.ruleName === 'policy') &&
+      !kept.some((i) => i.ruleName === 'policy') &&
+      kept.some((i) => i.ruleName === 'other'),
+    'quantifier-issue suppression keeps other rules',
+    JSON.stringify(kept.map((i) => i.ruleName))
+  );
+}
+
+// Test 8: The other analysis tools
+console.log('\nTest 8: Other analysis tools');
+{
+  const nullableGrammar = `grammar N;
+prog : a b EOF ;
+// antlr4-mcp-disable-next-line nullable-closure -- empty match is fine here
+a : opt* ;
+b : opt* ;
+opt : X? ;
+X : 'x' ;
+`;
+  const nullability = AntlrAnalyzer.analyzeNullability(
+    nullableGrammar,
+    AntlrAnalyzer.parseProjectConfig('{"checks":{"nullable-closure":"warning","nullable-rule":"off"}}')
+  );
+  assert(
+    nullability.emptyClosures.map((c) => `${c.ruleName}:${c.severity}`).join() === 'b:warning' &&
+      nullability.nullableRules.length === 0 &&
+      nullability.summary.startsWith('0 nullable rule(s), 1 closure(s)'),
+    'analyze-nullability honours suppressions, severities and off',
+    JSON.stringify(nullability.emptyClosures) + nullability.summary
+  );
+
+  const decisionGrammar = `grammar D;
+// antlr4-mcp-disable-next-line decision-conflict
+s : X Y | X Z ;
+t : X Y | X W ;
+X : 'x' ; Y : 'y' ; Z : 'z' ; W : 'w' ;
+`;
+  const decisions = AntlrAnalyzer.findDecisionConflicts(AntlrAnalyzer.analyze(decisionGrammar), undefined, {
+    grammarContent: decisionGrammar,
+  });
+  assert(
+    decisions.conflicts.map((c) => c.ruleName).join() === 't' && decisions.summary.startsWith('1 of'),
+    'decision-conflicts honours suppressions',
+    decisions.summary
+  );
+  const decisionsOff = AntlrAnalyzer.findDecisionConflicts(AntlrAnalyzer.analyze(decisionGrammar), undefined, {
+    grammarContent: decisionGrammar,
+    config: AntlrAnalyzer.parseProjectConfig('{"checks":{"decision-conflict":"off"}}'),
+  });
+  assert(decisionsOff.conflicts.length === 0, 'decision-conflict can be turned off');
+
+  const deadGrammar = `grammar Dead;
+prog : X EOF ;
+// antlr4-mcp-disable-next-line dead-rule -- kept for the next release
+legacy : Y ;
+unused : Y ;
+X : 'x' ; Y : 'y' ; Z : 'z' ;
+`;
+  const dead = AntlrAnalyzer.findDeadCode(AntlrAnalyzer.analyze(deadGrammar), ['prog'], {
+    grammarContent: deadGrammar,
+    config: AntlrAnalyzer.parseProjectConfig('{"checks":{"dead-token":"off"}}'),
+  });
+  assert(
+    dead.dead.map((d) => d.name).join() === 'unused',
+    'find-dead-code honours suppressions and off',
+    JSON.stringify(dead.dead.map((d) => d.name))
+  );
+
+  const modesGrammar = `lexer grammar M;
+A : 'a' -> popMode ; // antlr4-mcp-disable-line mode-stack
+B : 'b' -> popMode ;
+mode UNUSED;
+C : 'c' ;
+`;
+  const modes = AntlrAnalyzer.analyzeLexerModes(
+    modesGrammar,
+    AntlrAnalyzer.parseProjectConfig('{"checks":{"unreachable-mode":"info"}}')
+  );
+  assert(
+    JSON.stringify(checksOf(modes.issues)) === JSON.stringify(['unreachable-mode@4', 'mode-stack@3']) &&
+      modes.issues[0].type === 'info',
+    'analyze-lexer-modes honours suppressions and severities',
+    JSON.stringify(modes.issues)
+  );
+
+  const metrics = AntlrAnalyzer.calculateGrammarMetrics(
+    `${grammar}// antlr4-mcp-disable-next-line orphan-rule\nspare : A ;\n`,
+    AntlrAnalyzer.parseProjectConfig('{"checks":{"hub-rule":{"min":2}}}')
+  );
+  assert(
+    metrics.dependencies.orphanRules.join() === 'prog,orphan,other' &&
+      metrics.dependencies.hubRules.join() === 'A,B',
+    'grammar-metrics honours suppressions and the hub-rule threshold',
+    JSON.stringify(metrics.dependencies)
+  );
+
+  const bottleneckGrammar = `grammar B;
+line : ~NEWLINE+ NEWLINE ;
+// antlr4-mcp-disable-next-line tilde-negation
+rest : ~NEWLINE* NEWLINE ;
+NEWLINE : '\\n' ;
+`;
+  const bottlenecks = AntlrAnalyzer.analyzeBottlenecks(
+    bottleneckGrammar,
+    AntlrAnalyzer.parseProjectConfig('{"checks":{"tilde-negation":"error"}}')
+  );
+  const tilde = bottlenecks.bottlenecks.filter((b) => b.type === 'tilde-negation');
+  assert(
+    tilde.length > 0 && tilde.every((b) => b.lineNumber === 2 && b.severity === 'high'),
+    'analyze-bottlenecks honours suppressions and severities',
+    JSON.stringify(bottlenecks.bottlenecks.map((b) => [b.type, b.lineNumber, b.severity]))
+  );
+}
+
+// Summary
+console.log('\n========================================');
+console.log('  Project Config Test Summary');
+console.log('========================================');
+console.log(`Passed: ${passCount}`);
+console.log(`Failed: ${failCount}`);
+console.log('========================================');
+
+process.exit(failCount > 0 ? 1 : 0);
@@ -0,0 +1,174 @@
+#!/usr/bin/env node
+
+/**
+ * Test renaming and removing lexer modes across an import graph
+ */
+
+const { AntlrAnalyzer } = require('../dist/antlrAnalyzer.js');
+const { parseGrammar } = require('../dist/grammarParser.js');
+const fs = require('fs');
+const path = require('path');
+const os = require('os');
+
+let passCount = 0;
+let failCount = 0;
+
+function assert(condition, testName, details = '') {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+    passCount++;
+  } else {
+    console.log(`❌ FAIL: ${testName}`);
+    if (details) console.log(`   ${details}`);
+    failCount++;
+  }
+}
+
+console.log('Starting rename-mode / remove-mode tests...\n');
+
+const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'antlr-modes-'));
+const file = (name) => path.join(testDir, name);
+const write = (name, content) => fs.writeFileSync(file(name), content);
+
+try {
+  write('P.g4', 'parser grammar P;\noptions { tokenVocab = L; }\ndoc : (OPEN NAME CLOSE | TEXT)* EOF ;\n');
+  write(
+    'L.g4',
+    `lexer grammar L;
+import LBase;
+
+OPEN : '<' -> pushMode(TAG) ;
+TEXT : ~[<]+ ;
+
+// Inside tags
+mode TAG;
+CLOSE : '>' -> popMode ;
+NAME : LETTER+ ;
+STR : '"' -> pushMode(STRING) ;
+
+mode STRING;
+SCHAR : ~["]+ ;
+SEND : '"' -> popMode ;
+
+mode EXTRA;
+U : 'u' ;
+fragment LETTER : [a-z] ;
+`
+  );
+  write(
+    'LBase.g4',
+    `lexer grammar LBase;
+X : 'x' { /* leaves TAG */ } ;
+mode TAG;
+TAG_WS : [ \\t]+ -> skip ;
+`
+  );
+
+  // Test 1: Renaming
+  console.log('Test 1: rename-mode');
+  {
+    const result = AntlrAnalyzer.renameMode(file('P.g4'), 'TAG', 'ELEMENT');
+    const content = (name) => result.modifiedFiles.find((f) => f.filePath === file(name))?.content || '';
+    assert(result.success, 'Mode is renamed', result.message);
+    assert(
+      content('L.g4').includes("OPEN : '<' -> pushMode(ELEMENT) ;") &&
+        content('L.g4').includes('// Inside tags\nmode ELEMENT;\n') &&
+        !content('L.g4').includes('TAG'),
+      'Declaration and pushMode command are updated',
+      content('L.g4')
+    );
+    assert(
+      content('LBase.g4').includes('mode ELEMENT;') && content('LBase.g4').includes('/* leaves TAG */'),
+      'Declaration in the imported grammar is updated, action code is not'
+    );
+    assert(
+      result.modifiedFiles.length === 2 && result.totalRefCount === 1,
+      'Files without the mode are left alone',
+      JSON.stringify(result.modifiedFiles.map((f) => [f.filePath, f.refCount]))
+    );
+    assert(
+      result.warnings.length === 1 && result.warnings[0].includes('rule X in LBase.g4'),
+      'Mentions in action code are reported',
+      JSON.stringify(result.warnings)
+    );
+    assert(
+      parseGrammar(content('L.g4')).rules.find((r) => r.name === 'NAME').mode === 'ELEMENT',
+      'Rules stay in the renamed mode'
+    );
+
+    const existing = AntlrAnalyzer.renameMode(file('L.g4'), 'TAG', 'STRING');
+    assert(!existing.success && existing.message.includes("'STRING' already exists"), 'Existing mode name is refused');
+    const token = AntlrAnalyzer.renameMode(file('L.g4'), 'TAG', 'NAME');
+    assert(!token.success && token.message.includes('conflicts with a token'), 'Token name is refused');
+    const missing = AntlrAnalyzer.renameMode(file('L.g4'), 'NOPE', 'OTHER');
+    assert(!missing.success && missing.message.includes('not found'), 'Unknown mode is refused');
+    const implicit = AntlrAnalyzer.renameMode(file('L.g4'), 'DEFAULT_MODE', 'MAIN');
+    assert(!implicit.success, 'DEFAULT_MODE cannot be renamed');
+  }
+
+  // Test 2: Removing
+  console.log('\nTest 2: remove-mode');
+  {
+    const entered = AntlrAnalyzer.removeMode(file('L.g4'), 'TAG');
+    assert(
+      !entered.success && entered.message.includes('OPEN (L.g4) enters it with pushMode(TAG)'),
+      'Mode that is still pushed is not removed',
+      entered.message
+    );
+    const moving = AntlrAnalyzer.removeMode(file('L.g4'), 'STRING', { targetMode: 'TAG' });
+    assert(!moving.success && moving.message.includes('STR (L.g4)'), 'Moving rules does not remove pushes');
+    const used = AntlrAnalyzer.removeMode(file('L.g4'), 'EXTRA');
+    assert(
+      !used.success && used.message.includes('NAME (L.g4) uses LETTER'),
+      'Deleting rules that are still used is refused',
+      used.message
+    );
+
+    const moved = AntlrAnalyzer.removeMode(file('L.g4'), 'EXTRA', { targetMode: 'DEFAULT_MODE' });
+    const content = moved.modifiedFiles[0]?.content || '';
+    assert(moved.success, 'Mode is removed with its rules moved', moved.message);
+    assert(
+      content.includes("TEXT : ~[<]+ ;\n\nU : 'u' ;\nfragment LETTER : [a-z] ;\n\n// Inside tags") &&
+        content.endsWith("SEND : '\"' -> popMode ;\n"),
+      'Rules follow the rules of the target mode',
+      JSON.stringify(content)
+    );
+    assert(
+      JSON.stringify(moved.modifiedFiles.map((f) => f.movedRules)) === JSON.stringify([['U', 'LETTER']]),
+      'Moved rules are reported'
+    );
+
+    write('S.g4', "lexer grammar S;\nA : 'a' ;\n\nmode X;\nB : 'b' -> pushMode(X) ;\n\nmode Y;\nC : 'c' ;\n");
+    const deleted = AntlrAnalyzer.removeMode(file('S.g4'), 'X');
+    assert(
+      deleted.success &&
+        deleted.modifiedFiles[0].content === "lexer grammar S;\nA : 'a' ;\n\nmode Y;\nC : 'c' ;\n" &&
+        deleted.modifiedFiles[0].removedRules.join() === 'B',
+      'Mode and its rules are deleted, pushes from inside go with it',
+      JSON.stringify(deleted)
+    );
+
+    write('M.g4', "lexer grammar M;\nimport MBase;\nA : 'a' -> pushMode(IN) ;\nmode IN;\nB : 'b' -> popMode ;\n");
+    write('MBase.g4', "lexer grammar MBase;\nC : 'c' ;\nmode OLD;\nD : 'd' ;\n");
+    const merged = AntlrAnalyzer.removeMode(file('M.g4'), 'OLD', { targetMode: 'IN' });
+    assert(
+      merged.success && merged.modifiedFiles[0].content === "lexer grammar MBase;\nC : 'c' ;\nmode IN;\nD : 'd' ;\n",
+      'File without the target mode gets its declaration renamed',
+      JSON.stringify(merged)
+    );
+    const unknown = AntlrAnalyzer.removeMode(file('M.g4'), 'OLD', { targetMode: 'NOPE' });
+    assert(!unknown.success && unknown.message.includes("Target mode 'NOPE' not found"), 'Unknown target mode is refused');
+  }
+} finally {
+  fs.rmSync(testDir, { recursive: true, force: true });
+}
+
+// Summary
+console.log('\n========================================');
+console.log('  Rename / Remove Mode Test Summary');
+console.log('========================================');
+console.log(`Passed: ${passCount}`);
+console.log(`Failed: ${failCount}`);
+console.log('========================================');
+
+process.exit(failCount > 0 ? 1 : 0);
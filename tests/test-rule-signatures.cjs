@@ -0,0 +1,141 @@
+#!/usr/bin/env node
+
+/**
+ * Test rule signatures (arguments, returns, locals, throws, options, @init/@after)
+ * in the analysis and across the edit tools
+ */
+
+const { AntlrAnalyzer } = require('../dist/antlrAnalyzer.js');
+
+let passCount = 0;
+let failCount = 0;
+
+function assert(condition, testName, details = '') {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+    passCount++;
+  } else {
+    console.log(`❌ FAIL: ${testName}`);
+    if (details) console.log(`   ${details}`);
+    failCount++;
+  }
+}
+
+const grammar = `grammar Sig;
+start : expr[0] EOF ;
+expr[int p] returns [int v] locals [int x] @init { x = 0; } @after { done(); }
+  : atom[1] ;
+atom[int q] : ID | INT ; // keep me
+uses[int q] : ID {print($q);} ;
+plain[int q] : ID ;
+list throws ParseError options { caseInsensitive = true; } : ID (',' ID)* ;
+ID : [a-z]+ ;
+INT : [0-9]+ ;
+`;
+
+console.log('Starting rule signature tests...\n');
+
+// Test 1: Analysis
+console.log('Test 1: Signature fields on GrammarRule');
+const analysis = AntlrAnalyzer.analyze(grammar);
+const expr = analysis.rules.find((r) => r.name === 'expr');
+assert(
+  expr.arguments === 'int p' &&
+    expr.returns === 'int v' &&
+    expr.locals === 'int x' &&
+    expr.init === 'x = 0;' &&
+    expr.after === 'done();',
+  'Parses arguments, returns, locals and @init/@after',
+  JSON.stringify({ ...expr, ast: undefined })
+);
+const list = analysis.rules.find((r) => r.name === 'list');
+assert(
+  list.throws.join(',') === 'ParseError' && list.options.caseInsensitive === 'true',
+  'Parses throws and rule options'
+);
+assert(
+  analysis.rules.find((r) => r.name === 'start').arguments === undefined,
+  'Rules without a signature have no signature fields'
+);
+
+// Test 2: update-rule keeps the signature
+console.log('\nTest 2: update-rule');
+let result = AntlrAnalyzer.updateRule(grammar, 'expr', 'atom[2] | INT');
+assert(
+  result.success &&
+    result.modified.includes(
+      'expr[int p] returns [int v] locals [int x] @init { x = 0; } @after { done(); }'
+    ) &&
+    result.modified.includes('atom[2] | INT;'),
+  'Keeps the signature when replacing the body',
+  result.modified
+);
+result = AntlrAnalyzer.updateRule(grammar, 'atom', 'ID');
+assert(
+  result.modified.includes('atom[int q] : ID; // keep me'),
+  'Keeps text after the semicolon',
+  result.modified
+);
+
+// Test 3: inline-rule
+console.log('\nTest 3: inline-rule');
+result = AntlrAnalyzer.inlineRule(grammar, 'expr');
+assert(
+  !result.success && result.message.includes('returns, locals, @init, @after'),
+  'Refuses rules whose returns/locals/actions would be lost',
+  result.message
+);
+result = AntlrAnalyzer.inlineRule(grammar, 'uses');
+assert(
+  !result.success && result.message.includes('(q)'),
+  'Refuses rules whose body uses its arguments',
+  result.message
+);
+const withPlain = grammar.replace('  : atom[1] ;', '  : plain[1] plain[2] ;');
+result = AntlrAnalyzer.inlineRule(withPlain, 'plain');
+assert(
+  result.success && result.modified.includes('  : ID ID ;') && !result.modified.includes('plain'),
+  'Drops call-site arguments for unused parameters',
+  result.modified
+);
+
+// Test 4: add-parser-rule and merge-rules
+console.log('\nTest 4: add-parser-rule and merge-rules');
+result = AntlrAnalyzer.addParserRule(grammar, 'block', 'ID+', {
+  arguments: 'int depth',
+  returnType: 'Node n',
+  locals: 'int count',
+  throws: ['ParseError'],
+  init: 'count = 0;',
+});
+assert(
+  result.success &&
+    result.modified.includes(
+      'block[int depth] returns [Node n] throws ParseError locals [int count] @init { count = 0; } : ID+;'
+    ),
+  'Writes the full signature',
+  result.modified
+);
+const reparsed = AntlrAnalyzer.analyze(result.modified).rules.find((r) => r.name === 'block');
+assert(
+  reparsed.arguments === 'int depth' && reparsed.init === 'count = 0;',
+  'Written signature parses back'
+);
+result = AntlrAnalyzer.mergeRules(grammar, 'atom', 'uses', 'merged');
+assert(
+  result.success && result.modified.includes('merged[int q] : (ID | INT) | (ID {print($q);});'),
+  'Merges rules with identical signatures',
+  result.modified
+);
+result = AntlrAnalyzer.mergeRules(grammar, 'atom', 'list', 'merged');
+assert(!result.success, 'Refuses to merge rules with different signatures', result.message);
+
+// Summary
+console.log('\n========================================');
+console.log('  Rule Signature Test Summary');
+console.log('========================================');
+console.log(`Passed: ${passCount}`);
+console.log(`Failed: ${failCount}`);
+console.log('========================================');
+
+process.exit(failCount > 0 ? 1 : 0);
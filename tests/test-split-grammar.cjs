@@ -0,0 +1,213 @@
+#!/usr/bin/env node
+
+/**
+ * Test splitting a combined grammar into lexer and parser grammars
+ */
+
+const { AntlrAnalyzer } = require('../dist/antlrAnalyzer.js');
+const { parseGrammar, walkElements } = require('../dist/grammarParser.js');
+
+let passCount = 0;
+let failCount = 0;
+
+function assert(condition, testName, details = '') {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+    passCount++;
+  } else {
+    console.log(`❌ FAIL: ${testName}`);
+    if (details) console.log(`   ${details}`);
+    failCount++;
+  }
+}
+
+console.log('Starting split-grammar tests...\n');
+
+const calc = `// Calculator
+grammar Calc;
+
+options { language = Java; superClass = Base; caseInsensitive = true; }
+
+tokens { INDENT }
+channels { COMMENTS }
+
+@header { package calc; }
+@lexer::members { int depth; }
+@parser::members { int x; }
+
+// Entry point
+prog : stat+ EOF ; // top
+stat : expr ';' | ID '=' expr ';' ;
+expr : expr ('*'|'/') expr | INT | '(' expr ')' ;
+
+ID : [a-z]+ ;
+INT : [0-9]+ ;
+LINE : '//' ~[\\n]* -> channel(COMMENTS) ;
+WS : [ \\t\\r\\n]+ -> skip ;
+mode STR;
+END : '"' -> popMode ;
+`;
+
+// Test 1: Declarations, rules and modes go to the right grammar
+console.log('Test 1: Splitting rules and modes');
+const result = AntlrAnalyzer.splitGrammar(calc);
+const lexer = parseGrammar(result.lexer.content);
+const parser = parseGrammar(result.parser.content);
+{
+  assert(result.success, 'Combined grammar is split', result.message);
+  assert(
+    result.lexer.name === 'CalcLexer' && lexer.type === 'lexer' && lexer.name === 'CalcLexer',
+    'Lexer grammar is named XLexer'
+  );
+  assert(
+    result.parser.name === 'CalcParser' && parser.type === 'parser' && parser.name === 'CalcParser',
+    'Parser grammar is named XParser'
+  );
+  assert(
+    lexer.errors.length === 0 && parser.errors.length === 0,
+    'Both grammars parse',
+    JSON.stringify([...lexer.errors, ...parser.errors])
+  );
+  assert(
+    lexer.rules.every((r) => r.type === 'lexer') && parser.rules.every((r) => r.type === 'parser'),
+    'Each grammar only has its own kind of rules'
+  );
+  assert(
+    parser.rules.map((r) => r.name).join(',') === 'prog,stat,expr',
+    'Parser rules keep their order'
+  );
+  assert(
+    lexer.modes.map((m) => m.name).join(',') === 'STR' &&
+      lexer.rules.find((r) => r.name === 'END').mode === 'STR',
+    'Modes and their rules move to the lexer'
+  );
+  assert(
+    result.parser.content.includes('// Entry point\nprog : stat+ EOF ; // top'),
+    'Comments move with their rule'
+  );
+  assert(
+    result.lexer.content.startsWith('// Calculator\nlexer grammar CalcLexer;') &&
+      result.parser.content.startsWith('// Calculator\nparser grammar CalcParser;'),
+    'Header comment is kept in both grammars'
+  );
+}
+
+// Test 2: Literals become named tokens defined in the lexer
+console.log('\nTest 2: Literals');
+{
+  assert(
+    parser.rules.every((rule) => {
+      let literal = false;
+      walkElements(rule.alternatives, (e) => {
+        if (e.kind === 'literal') literal = true;
+      });
+      return !literal;
+    }),
+    'Parser grammar has no literals left'
+  );
+  assert(
+    result.parser.content.includes('stat : expr SEMI | ID ASSIGN expr SEMI ;'),
+    'Literals are replaced by token names',
+    result.parser.content
+  );
+  const names = lexer.rules.map((r) => r.name);
+  assert(
+    names.indexOf('SEMI') >= 0 && names.indexOf('SEMI') < names.indexOf('ID'),
+    'New tokens are defined ahead of the other lexer rules'
+  );
+  assert(
+    result.tokens.length === 6 && result.tokens.every((t) => t.created),
+    'Token table is returned'
+  );
+  const named = AntlrAnalyzer.splitGrammar(calc, { names: { "'='": 'EQUALS' } });
+  assert(named.parser.content.includes('ID EQUALS expr'), 'Token names can be chosen');
+}
+
+// Test 3: Prequel statements, actions and options
+console.log('\nTest 3: Prequel and options');
+{
+  assert(
+    result.parser.content.includes(
+      'options { tokenVocab = CalcLexer; language = Java; superClass = Base; }'
+    ),
+    'Parser options start with tokenVocab and keep parser options',
+    result.parser.content
+  );
+  assert(
+    result.lexer.content.includes('options { language = Java; caseInsensitive = true; }'),
+    'Lexer gets the options ANTLR copies to the implicit lexer'
+  );
+  assert(
+    lexer.tokens.map((t) => t.name).join() === 'INDENT' &&
+      lexer.channels.map((c) => c.name).join() === 'COMMENTS' &&
+      parser.tokens.length === 0 &&
+      parser.channels.length === 0,
+    'tokens {} and channels {} move to the lexer'
+  );
+  assert(
+    lexer.namedActions.map((a) => `${a.scope || ''}${a.name}`).join() === 'members' &&
+      lexer.namedActions[0].code.includes('depth'),
+    '@lexer:: actions move to the lexer without their scope'
+  );
+  assert(
+    parser.namedActions.map((a) => a.name).join() === 'header,members' &&
+      parser.namedActions[1].code.includes('int x'),
+    'Unscoped and @parser:: actions stay with the parser'
+  );
+
+  const plain = AntlrAnalyzer.splitGrammar(`grammar P;\na : X ;\nX : 'x' ;\n`);
+  assert(
+    plain.parser.content === 'parser grammar PParser;\n\noptions { tokenVocab=PLexer; }\na : X ;\n',
+    'Options block is added when the grammar has none',
+    JSON.stringify(plain.parser.content)
+  );
+  assert(
+    plain.lexer.content === "lexer grammar PLexer;\nX : 'x' ;\n",
+    'Lexer grammar without options gets no options block',
+    JSON.stringify(plain.lexer.content)
+  );
+}
+
+// Test 4: Templates and refusals
+console.log('\nTest 4: Templates and refusals');
+{
+  const template = AntlrAnalyzer.createGrammarTemplate('Demo', { type: 'combined' }).grammar;
+  const split = AntlrAnalyzer.splitGrammar(template);
+  assert(split.success, 'Combined template can be split', split.message);
+  assert(
+    split.lexer.content.includes("RPAREN: ')';\n\n// Whitespace (usually skipped)\nWS:"),
+    'New tokens stay clear of the comment of the next rule',
+    split.lexer.content
+  );
+
+  const lexerOnly = AntlrAnalyzer.splitGrammar("lexer grammar L;\nA : 'a' ;\n");
+  assert(!lexerOnly.success && lexerOnly.message.includes('already a lexer grammar'), 'Lexer grammar is refused');
+  const imports = AntlrAnalyzer.splitGrammar('grammar I;\nimport Common;\na : X ;\nX : [x] ;\n');
+  assert(!imports.success && imports.message.includes('imports Common'), 'Grammar with imports is refused');
+  const broken = AntlrAnalyzer.splitGrammar('grammar B;\na : ( X ;\n');
+  assert(!broken.success && broken.message.includes('syntax error'), 'Grammar with syntax errors is refused');
+  const empty = AntlrAnalyzer.splitGrammar('');
+  assert(!empty.success && empty.message.includes('no grammar declaration'), 'Empty input is refused', empty.message);
+  const noParser = AntlrAnalyzer.splitGrammar('grammar N;\nA : [a] ;\n');
+  assert(
+    !noParser.success && noParser.message.includes('no parser rules'),
+    'Grammar without parser rules is refused',
+    noParser.message
+  );
+  const noLexer = AntlrAnalyzer.splitGrammar('grammar N;\na : A ;\n');
+  assert(
+    !noLexer.success && noLexer.message.includes('no lexer rules'),
+    'Grammar without lexer rules is refused',
+    noLexer.message
+  );
+}
+
+// Summary
+console.log('\n========================================');
+console.log('  Split Grammar Test Summary');
+console.log('========================================');
+console.log(`Passed: ${passCount}`);
+console.log(`Failed: ${failCount}`);
+console.log('========================================');
+
+process.exit(failCount > 0 ? 1 : 0);
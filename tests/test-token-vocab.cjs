@@ -0,0 +1,164 @@
+#!/usr/bin/env node
+
+/**
+ * Test tokenVocab resolution against lexer grammars and .tokens files
+ */
+
+const { AntlrAnalyzer } = require('../dist/antlrAnalyzer.js');
+const fs = require('fs');
+const path = require('path');
+const os = require('os');
+
+let passCount = 0;
+let failCount = 0;
+
+function assert(condition, testName, details = '') {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+    passCount++;
+  } else {
+    console.log(`❌ FAIL: ${testName}`);
+    if (details) console.log(`   ${details}`);
+    failCount++;
+  }
+}
+
+const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'antlr-vocab-'));
+const libDir = path.join(testDir, 'lib');
+const grammarDir = path.join(testDir, 'grammars');
+fs.mkdirSync(libDir);
+fs.mkdirSync(grammarDir);
+
+function write(dir, name, content) {
+  const filePath = path.join(dir, name);
+  fs.writeFileSync(filePath, content);
+  return filePath;
+}
+
+function messages(analysis) {
+  return analysis.issues.map((i) => i.message);
+}
+
+const parserGrammar = (vocab) => `parser grammar CalcParser;
+options { tokenVocab = ${vocab}; }
+prog : stat+ EOF ;
+stat : ID '=' INT ';' | PRINT ID ;
+`;
+
+console.log('Starting tokenVocab tests...\n');
+
+try {
+  // Test 1: .tokens parsing
+  console.log('Test 1: Parse .tokens files');
+  const parsed = AntlrAnalyzer.parseTokensFile("ID=1\nINT=2\nT__0=3\n'='=3\n'=='=4\n\n");
+  assert(parsed.tokens.join(',') === 'ID,INT,T__0', 'Reads token names', parsed.tokens.join(','));
+  assert(parsed.literals.join(',') === "'=','=='", 'Reads literal aliases', parsed.literals.join(','));
+
+  // Test 2: Sibling lexer grammar
+  console.log('\nTest 2: tokenVocab resolved to a sibling lexer grammar');
+  write(
+    grammarDir,
+    'CalcLexer.g4',
+    `lexer grammar CalcLexer;
+EQ : '=' ;
+SEMI : ';' ;
+ID : LETTER+ ;
+INT : [0-9]+ ;
+fragment LETTER : [a-z] ;
+`
+  );
+  const grammarFile = write(grammarDir, 'CalcParser.g4', parserGrammar('CalcLexer'));
+  const fromGrammar = AntlrAnalyzer.loadGrammarWithImports(grammarFile);
+  assert(
+    fromGrammar.tokenVocab &&
+      fromGrammar.tokenVocab.source === 'grammar' &&
+      fromGrammar.tokenVocab.tokens.join(',') === 'EQ,SEMI,ID,INT',
+    'Vocabulary excludes fragments',
+    JSON.stringify(fromGrammar.tokenVocab)
+  );
+  assert(
+    messages(fromGrammar).includes("Token 'PRINT' is missing from vocab CalcLexer (CalcLexer.g4)"),
+    'Reports token missing from the vocab',
+    messages(fromGrammar).join(' | ')
+  );
+  assert(
+    !messages(fromGrammar).some((m) => m.includes("'ID'") || m.includes("'EOF'")),
+    'Tokens in the vocab and EOF are not reported'
+  );
+  assert(
+    !messages(fromGrammar).some((m) => m.startsWith('Literal')),
+    'Literals aliased by lexer rules are accepted',
+    messages(fromGrammar).join(' | ')
+  );
+
+  // Test 3: .tokens file in a library directory
+  console.log('\nTest 3: tokenVocab resolved to a .tokens file via lib dirs');
+  write(libDir, 'GenLexer.tokens', "ID=1\nINT=2\nEQ=3\n'='=3\n");
+  const genFile = write(grammarDir, 'GenParser.g4', parserGrammar('GenLexer'));
+  const unresolved = AntlrAnalyzer.loadGrammarWithImports(genFile);
+  assert(
+    messages(unresolved).includes('Cannot resolve tokenVocab: GenLexer'),
+    'Unresolved without the lib dir'
+  );
+  const fromTokens = AntlrAnalyzer.loadGrammarWithImports(
+    genFile,
+    undefined,
+    undefined,
+    undefined,
+    [libDir]
+  );
+  assert(
+    fromTokens.tokenVocab && fromTokens.tokenVocab.source === 'tokens',
+    'Resolves the .tokens file from the lib dir',
+    JSON.stringify(fromTokens.tokenVocab)
+  );
+  const tokenIssues = fromTokens.issues.filter((i) => i.message.includes('missing from vocab'));
+  assert(
+    tokenIssues.some((i) => i.message === "Token 'PRINT' is missing from vocab GenLexer (GenLexer.tokens)") &&
+      tokenIssues.some(
+        (i) => i.type === 'error' && i.message === "Literal ';' is missing from vocab GenLexer (GenLexer.tokens)"
+      ),
+    'Reports tokens and literals missing from the .tokens vocab',
+    tokenIssues.map((i) => i.message).join(' | ')
+  );
+  assert(
+    !fromTokens.issues.some((i) => i.message.includes('Reference to undefined rule')),
+    'No generic undefined-reference warnings when a vocab is resolved'
+  );
+
+  // Test 4: Lexer grammar wins over a stale .tokens file in the same directory
+  console.log('\nTest 4: Resolution order');
+  write(grammarDir, 'CalcLexer.tokens', 'ID=1\n');
+  assert(
+    AntlrAnalyzer.resolveTokenVocab('CalcLexer', grammarFile).endsWith('CalcLexer.g4'),
+    'Prefers the .g4 over the .tokens file'
+  );
+  write(libDir, 'Shared.g4', 'lexer grammar Shared;\nID : [a-z]+ ;\n');
+  assert(
+    AntlrAnalyzer.resolveImportPath('Shared', grammarFile, undefined, [libDir]) ===
+      path.join(libDir, 'Shared.g4'),
+    'Imports are resolved from lib dirs too'
+  );
+
+  // Test 5: Aggregation
+  console.log('\nTest 5: Smart validation groups vocab misses');
+  const aggregated = AntlrAnalyzer.aggregateValidationIssues(fromTokens.issues);
+  const undefinedGroup = aggregated.groups.find((g) => g.category === 'Undefined Token References');
+  assert(
+    undefinedGroup && undefinedGroup.topItems.some((t) => t.name === 'PRINT'),
+    'Missing vocab tokens are grouped with undefined tokens',
+    JSON.stringify(aggregated.groups)
+  );
+} finally {
+  fs.rmSync(testDir, { recursive: true, force: true });
+}
+
+// Summary
+console.log('\n========================================');
+console.log('  tokenVocab Test Summary');
+console.log('========================================');
+console.log(`Passed: ${passCount}`);
+console.log(`Failed: ${failCount}`);
+console.log('========================================');
+
+process.exit(failCount > 0 ? 1 : 0);
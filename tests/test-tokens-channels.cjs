@@ -0,0 +1,162 @@
+#!/usr/bin/env node
+
+/**
+ * Test tokens {} / channels {} modelling and the add/remove declaration edits
+ */
+
+const { AntlrAnalyzer } = require('../dist/antlrAnalyzer.js');
+
+let passCount = 0;
+let failCount = 0;
+
+function assert(condition, testName, details = '') {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+    passCount++;
+  } else {
+    console.log(`❌ FAIL: ${testName}`);
+    if (details) console.log(`   ${details}`);
+    failCount++;
+  }
+}
+
+console.log('Starting tokens/channels tests...\n');
+
+// Test 1: Analysis
+console.log('Test 1: Declared tokens and channels in the analysis');
+const combined = `grammar Indent;
+
+options { language = Java; }
+
+tokens { INDENT, DEDENT }
+
+block : INDENT stat+ DEDENT ;
+stat : ID ';' ;
+ID : [a-z]+ ;
+`;
+const analysis = AntlrAnalyzer.analyze(combined);
+const indent = analysis.tokens.find((t) => t.name === 'INDENT');
+assert(
+  indent && indent.declared === true && indent.pattern === '' && indent.lineNumber === 5,
+  'Declared-only tokens appear in analysis.tokens',
+  JSON.stringify(analysis.tokens)
+);
+assert(
+  analysis.tokens.find((t) => t.name === 'ID').declared === undefined,
+  'Lexer rule tokens are not marked as declared'
+);
+assert(
+  !analysis.issues.some((i) => i.message.includes('undefined rule')),
+  'Declared tokens are not reported as undefined',
+  JSON.stringify(analysis.issues)
+);
+
+const lexer = `lexer grammar L;
+channels { COMMENTS }
+LINE_COMMENT : '//' ~[\\r\\n]* -> channel(COMMENTS) ;
+BLOCK_COMMENT : '/*' .*? '*/' -> channel(DOCS) ;
+WS : [ \\t\\r\\n]+ -> channel(HIDDEN) ;
+`;
+const lexerAnalysis = AntlrAnalyzer.analyze(lexer);
+assert(
+  lexerAnalysis.channels.length === 1 &&
+    lexerAnalysis.channels[0].name === 'COMMENTS' &&
+    lexerAnalysis.channels[0].lineNumber === 2,
+  'Channels are exposed in the analysis',
+  JSON.stringify(lexerAnalysis.channels)
+);
+const channelIssues = lexerAnalysis.issues.filter((i) => i.message.includes('channels {}'));
+assert(
+  channelIssues.length === 1 && channelIssues[0].ruleName === 'BLOCK_COMMENT',
+  'Only undeclared channels are reported',
+  JSON.stringify(channelIssues)
+);
+
+const preview = AntlrAnalyzer.previewTokens(lexer, '// hi');
+assert(
+  preview.tokens[0].channel === 'COMMENTS',
+  'previewTokens reads the channel command',
+  JSON.stringify(preview.tokens)
+);
+assert(
+  preview.warnings.some((w) => w.includes("'DOCS'")) &&
+    !preview.warnings.some((w) => w.includes("'COMMENTS'")),
+  'previewTokens warns about undeclared channel targets',
+  JSON.stringify(preview.warnings)
+);
+
+// Test 2: Adding declarations
+console.log('\nTest 2: add-declarations');
+let result = AntlrAnalyzer.addDeclarations(combined, 'tokens', ['NEWLINE', 'INDENT', 'ID']);
+assert(
+  result.success && result.modified.includes('tokens { INDENT, DEDENT, NEWLINE }'),
+  'Appends to an existing tokens block',
+  result.modified
+);
+assert(
+  result.message.includes('INDENT (already declared)') &&
+    result.message.includes('ID (defined by a lexer rule)'),
+  'Reports skipped names',
+  result.message
+);
+
+result = AntlrAnalyzer.addDeclarations(
+  'parser grammar P;\nimport Common;\nstart : A ;\n',
+  'tokens',
+  ['A']
+);
+assert(
+  result.modified === 'parser grammar P;\nimport Common;\ntokens { A }\nstart : A ;\n',
+  'Creates the block after the prequel',
+  JSON.stringify(result.modified)
+);
+
+const multiLine = `lexer grammar M;
+channels {
+  A,
+  B
+}
+X : 'x' -> channel(A) ;
+`;
+result = AntlrAnalyzer.addDeclarations(multiLine, 'channels', ['C']);
+assert(
+  result.modified.includes('  B,\n  C\n}'),
+  'Keeps one-name-per-line layout',
+  result.modified
+);
+
+result = AntlrAnalyzer.addDeclarations(combined, 'channels', ['X']);
+assert(!result.success, 'Refuses channels in a combined grammar', result.message);
+result = AntlrAnalyzer.addDeclarations(multiLine, 'channels', ['HIDDEN']);
+assert(!result.success, 'Refuses predefined channel names', result.message);
+result = AntlrAnalyzer.addDeclarations(combined, 'tokens', ['lower']);
+assert(!result.success, 'Refuses lowercase token names', result.message);
+
+// Test 3: Removing declarations
+console.log('\nTest 3: remove-declarations');
+result = AntlrAnalyzer.removeDeclarations(multiLine, 'channels', ['A']);
+assert(
+  result.success && result.modified.includes('channels {\n  B\n}'),
+  'Removes a name and its comma',
+  result.modified
+);
+assert(result.message.includes('A (used by X)'), 'Warns about remaining references', result.message);
+
+result = AntlrAnalyzer.removeDeclarations(combined, 'tokens', ['INDENT', 'DEDENT']);
+assert(
+  result.modified === combined.replace('tokens { INDENT, DEDENT }\n\n', ''),
+  'Removes the block when it becomes empty',
+  JSON.stringify(result.modified)
+);
+result = AntlrAnalyzer.removeDeclarations(combined, 'tokens', ['MISSING']);
+assert(!result.success, 'Fails when nothing is declared under that name');
+
+// Summary
+console.log('\n========================================');
+console.log('  Tokens/Channels Test Summary');
+console.log('========================================');
+console.log(`Passed: ${passCount}`);
+console.log(`Failed: ${failCount}`);
+console.log('========================================');
+
+process.exit(failCount > 0 ? 1 : 0);
@@ -0,0 +1,145 @@
+#!/usr/bin/env node
+
+/**
+ * Test the offline emulation of ANTLR tool semantic errors and their error codes
+ */
+
+const { AntlrAnalyzer } = require('../dist/antlrAnalyzer.js');
+
+let passCount = 0;
+let failCount = 0;
+
+function assert(condition, testName, details = '') {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+    passCount++;
+  } else {
+    console.log(`❌ FAIL: ${testName}`);
+    if (details) console.log(`   ${details}`);
+    failCount++;
+  }
+}
+
+function codes(grammar) {
+  return AntlrAnalyzer.analyze(grammar).issues.filter((i) => i.code !== undefined);
+}
+
+function has(issues, code, text) {
+  return issues.some((i) => i.code === code && (!text || i.message.includes(text)));
+}
+
+function describe(issues) {
+  return issues.map((i) => `${i.type}(${i.code}): ${i.message}`).join(' | ');
+}
+
+console.log('Starting tool semantics tests...\n');
+
+// Test 1: References
+console.log('Test 1: Rule and token references');
+const references = codes(`grammar Refs;
+prog : stat DIGIT missing ;
+stat : ID ;
+ID : [a-z]+ stat ;
+fragment DIGIT : [0-9] ;
+`);
+assert(has(references, 56, 'missing'), 'Undefined parser rule is error 56', describe(references));
+assert(
+  has(references, 125, 'DIGIT'),
+  'Fragment referenced from a parser rule is an implicit token (125)',
+  describe(references)
+);
+assert(has(references, 160, 'stat'), 'Parser rule referenced from a lexer rule is error 160');
+
+// Test 2: Lexer commands and modes
+console.log('\nTest 2: Lexer commands and modes');
+const commands = codes(`lexer grammar Cmds;
+OPEN : '<' -> pushMode(TAG) ;
+BAD : '>' -> mode(NOWHERE) ;
+NESTED : ('a' -> skip | 'b') ;
+mode TAG;
+CLOSE : '>' -> popMode ;
+mode EMPTY;
+fragment F : 'f' ;
+`);
+assert(has(commands, 176, 'NOWHERE'), 'Unknown mode is error 176', describe(commands));
+assert(!has(commands, 176, 'TAG'), 'Declared modes are recognized');
+assert(has(commands, 133, 'NESTED'), 'Command inside a subrule is error 133');
+assert(has(commands, 145, 'EMPTY'), 'Mode with only fragments is error 145');
+
+const parserCommands = codes(`parser grammar P;
+options { tokenVocab = L; }
+prog : A -> skip ;
+`);
+assert(has(parserCommands, 50, 'skip'), 'Lexer command in a parser rule is a syntax error (50)');
+
+// Test 3: Grammar kinds
+console.log('\nTest 3: Rules, modes and channels that do not fit the grammar type');
+const misplaced = codes(`parser grammar P;
+channels { EXTRA }
+prog : 'x' ;
+prog : A ;
+A : 'a' ;
+`);
+assert(has(misplaced, 52, 'A'), 'Lexer rule in a parser grammar is error 52', describe(misplaced));
+assert(has(misplaced, 51, 'previous at line 3'), 'Rule redefinition is error 51');
+assert(has(misplaced, 161), 'Channels block in a parser grammar is error 161');
+assert(
+  has(misplaced, 126, "'x'"),
+  'Literal without a lexer rule in a parser grammar is error 126',
+  describe(misplaced)
+);
+const lexerWithParserRule = codes(`lexer grammar L;
+A : 'a' ;
+prog : A ;
+`);
+assert(has(lexerWithParserRule, 53, 'prog'), 'Parser rule in a lexer grammar is error 53');
+assert(has(codes('grammar Empty;\n'), 99), 'Grammar without rules is error 99');
+
+// Test 4: Empty-string matches
+console.log('\nTest 4: Closures and optional blocks that can match the empty string');
+const epsilon = codes(`grammar Eps;
+list : (item?)* ;
+opt : (item | )? ;
+item : ID ;
+fine : item* ID+ ;
+ID : [a-z]+ ;
+WS : [ \\t]* -> skip ;
+`);
+const closure = epsilon.filter((i) => i.code === 153);
+assert(
+  closure.length === 1 && closure[0].ruleName === 'list' && closure[0].type === 'error',
+  'Nullable closure is error 153',
+  describe(epsilon)
+);
+assert(
+  epsilon.some((i) => i.code === 154 && i.ruleName === 'opt' && i.type === 'warning'),
+  'Nullable optional block is warning 154'
+);
+assert(
+  epsilon.some((i) => i.code === 146 && i.ruleName === 'WS'),
+  'Lexer rule matching the empty string is warning 146'
+);
+assert(!epsilon.some((i) => i.ruleName === 'fine'), 'Non-nullable closures are accepted');
+
+// Test 5: Existing checks carry codes
+console.log('\nTest 5: Label and channel checks carry ANTLR codes');
+const labeled = codes(`lexer grammar C;
+A : 'a' -> channel(NOPE) ;
+`);
+assert(has(labeled, 177, 'NOPE'), 'Undeclared channel is code 177', describe(labeled));
+const labels = codes(`grammar Lab;
+e : e '+' e # Add | INT ;
+f returns [int v] : v=INT ;
+INT : [0-9]+ ;
+`);
+assert(has(labels, 122) && has(labels, 73), 'Label checks use codes 122 and 73', describe(labels));
+
+// Summary
+console.log('\n========================================');
+console.log('  Tool Semantics Test Summary');
+console.log('========================================');
+console.log(`Passed: ${passCount}`);
+console.log(`Failed: ${failCount}`);
+console.log('========================================');
+
+process.exit(failCount > 0 ? 1 : 0);